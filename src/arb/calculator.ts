@@ -13,6 +13,7 @@ import type {
     ArbitrageLeg,
     FeeStructure,
 } from './types.js';
+import { getFeeModel, type FeeContext } from '../trading/fee-model.js';
 
 // ============================================================================
 // Price Calculation Utilities
@@ -99,35 +100,47 @@ export function getAvailableQuantityAtPrice(
  * 
  * Maker fee: 0%
  * Taker fee formula: Raw Fee = BaseFee × min(price, 1 - price) × quantity
- * Where BaseFee = 2% (or 1.8% with 10% discount - default)
+ * Where BaseFee = feeRateBps (default 2%), minus the account rebate (default 10%)
+ *
+ * Rates, rebate tiers and boost windows are resolved by trading/fee-model.ts
  */
-const PREDICT_BASE_FEE = 0.02; // 2%
-const PREDICT_DISCOUNT = 0.9; // 10% discount = multiply by 0.9
 
 /**
  * Calculate Predict taker fee per share based on price
- * Formula: feePerShare = BaseFee × min(price, 1 - price)
+ * Formula: feePerShare = BaseFee × min(price, 1 - price) × (1 - rebate)
  * 
- * With 10% discount (default): BaseFee = 1.8%
+ * With default 10% rebate: BaseFee = 1.8%
  * 
- * Examples (with discount):
+ * Examples (with rebate):
  * - price = 0.20 → fee = 0.018 × 0.20 = $0.0036 per share (1.8% of price)
  * - price = 0.50 → fee = 0.018 × 0.50 = $0.009 per share (1.8% of price)
  * - price = 0.60 → fee = 0.018 × 0.40 = $0.0072 per share (1.2% of price)
  * - price = 0.80 → fee = 0.018 × 0.20 = $0.0036 per share (0.45% of price)
+ *
+ * @param hasDiscount - false 时返回返点 / boost 前的名义费用
  */
-export function getPredictFeePerShare(price: number, hasDiscount: boolean = true): number {
-    const baseFee = hasDiscount ? PREDICT_BASE_FEE * PREDICT_DISCOUNT : PREDICT_BASE_FEE;
-    return baseFee * Math.min(price, 1 - price);
+export function getPredictFeePerShare(
+    price: number,
+    hasDiscount: boolean = true,
+    feeRateBps?: number,
+    context: FeeContext = {}
+): number {
+    const quote = getFeeModel().resolve({ ...context, platform: 'predict', price, role: 'TAKER', feeRateBps });
+    return hasDiscount ? quote.feePerShare : quote.grossFeePerShare;
 }
 
 /**
  * Get Predict taker fee rate (as percentage of cost)
  * Formula: feeRate = feePerShare / price = BaseFee × min(price, 1-price) / price
  */
-export function getPredictTakerFeeRate(price: number, hasDiscount: boolean = true): number {
+export function getPredictTakerFeeRate(
+    price: number,
+    hasDiscount: boolean = true,
+    feeRateBps?: number,
+    context: FeeContext = {}
+): number {
     if (price <= 0 || price >= 1) return 0;
-    const feePerShare = getPredictFeePerShare(price, hasDiscount);
+    const feePerShare = getPredictFeePerShare(price, hasDiscount, feeRateBps, context);
     return feePerShare / price;
 }
 
@@ -136,40 +149,45 @@ export function getPredictTakerFeeRate(price: number, hasDiscount: boolean = tru
  * Maker: 0%, Taker: formula-based
  * 
  * Formula: totalFee = BaseFee × min(price, 1-price) × quantity
- * Default includes 10% discount (BaseFee = 1.8%)
+ * Default includes 10% rebate (BaseFee = 1.8%)
  */
 export function calculatePredictFee(
     price: number,
     quantity: number,
     isMaker: boolean,
-    hasDiscount: boolean = true
+    hasDiscount: boolean = true,
+    feeRateBps?: number,
+    context: FeeContext = {}
 ): number {
-    if (isMaker) return 0; // Makers pay no fee
+    if (isMaker) {
+        return getFeeModel().predictFeePerShare(price, feeRateBps, { ...context, role: 'MAKER' }) * quantity;
+    }
 
-    return getPredictFeePerShare(price, hasDiscount) * quantity;
+    return getPredictFeePerShare(price, hasDiscount, feeRateBps, context) * quantity;
 }
 
 /**
- * Calculate trading fees for a leg (legacy function for compatibility)
+ * Calculate trading fees for a leg
+ *
+ * With a fill price the fee model is used (price-based Predict fee incl. rebate / boost,
+ * Polymarket fee schedule); without one the flat FeeStructure rates are applied.
  */
 export function calculateTradingFee(
     cost: number,
     platform: 'polymarket' | 'predict',
     isMaker: boolean,
     fees: FeeStructure,
-    price?: number // Optional price for Predict price-based fees
+    price?: number, // Fill price for price-based fees
+    context: FeeContext = {}
 ): number {
-    if (platform === 'polymarket') {
-        const platformFees = fees.polymarket;
-        const feeRate = isMaker ? platformFees.makerFee : platformFees.takerFee;
-        return cost * feeRate;
-    }
-
-    // For Predict, use price-based fee if price is provided
-    if (platform === 'predict' && price !== undefined) {
-        if (isMaker) return 0;
-        const feeRate = getPredictTakerFeeRate(price, false);
-        return cost * feeRate;
+    if (price !== undefined && price > 0) {
+        const quote = getFeeModel().resolve({
+            ...context,
+            platform,
+            price,
+            role: isMaker ? 'MAKER' : 'TAKER',
+        });
+        return (cost / price) * quote.feePerShare;
     }
 
     // Fallback to simple fee structure
@@ -44,6 +44,7 @@ const DEFAULT_CONFIG: ArbitrageConfig = {
     maxPositionSize: 1000,           // $1000 max per trade
     minPositionSize: 10,             // $10 minimum
     opportunityValidityMs: 5000,     // 5 second validity
+    // Flat fallback only: legs with a fill price are priced by trading/fee-model.ts
     fees: {
         polymarket: { makerFee: 0, takerFee: 0 },       // Polymarket has 0% fees currently
         predict: { makerFee: 0.001, takerFee: 0.002 },  // 0.1% maker, 0.2% taker
@@ -261,9 +262,9 @@ export class ArbitrageDetector {
         const yesFill = calculateAverageFillPrice(book.yesAsks, targetQty, true);
         const noFill = calculateAverageFillPrice(book.noAsks, targetQty, true);
 
-        // Calculate fees
-        const yesFee = calculateTradingFee(yesFill.totalCost, platform, false, this.config.fees);
-        const noFee = calculateTradingFee(noFill.totalCost, platform, false, this.config.fees);
+        // Calculate fees (fee model: price-based Predict fee, Polymarket fee schedule)
+        const yesFee = calculateTradingFee(yesFill.totalCost, platform, false, this.config.fees, yesFill.avgPrice);
+        const noFee = calculateTradingFee(noFill.totalCost, platform, false, this.config.fees, noFill.avgPrice);
         const totalFees = yesFee + noFee;
 
         // Calculate actual profit
@@ -398,9 +399,9 @@ export class ArbitrageDetector {
         const yesFill = calculateAverageFillPrice(yesBook.yesAsks, targetQty, true);
         const noFill = calculateAverageFillPrice(noBook.noAsks, targetQty, true);
 
-        // Calculate fees
-        const yesFee = calculateTradingFee(yesFill.totalCost, yesPlatform, false, this.config.fees);
-        const noFee = calculateTradingFee(noFill.totalCost, noPlatform, false, this.config.fees);
+        // Calculate fees (fee model: price-based Predict fee, Polymarket fee schedule)
+        const yesFee = calculateTradingFee(yesFill.totalCost, yesPlatform, false, this.config.fees, yesFill.avgPrice);
+        const noFee = calculateTradingFee(noFill.totalCost, noPlatform, false, this.config.fees, noFill.avgPrice);
         const totalFees = yesFee + noFee;
 
         // Calculate profits
@@ -555,8 +556,8 @@ export class ArbitrageDetector {
         const sellFill = calculateAverageFillPrice(sellBids, targetQty, false);
 
         // Calculate fees
-        const buyFee = calculateTradingFee(buyFill.totalCost, buyPlatform, false, this.config.fees);
-        const sellFee = calculateTradingFee(sellFill.totalCost, sellPlatform, false, this.config.fees);
+        const buyFee = calculateTradingFee(buyFill.totalCost, buyPlatform, false, this.config.fees, buyFill.avgPrice);
+        const sellFee = calculateTradingFee(sellFill.totalCost, sellPlatform, false, this.config.fees, sellFill.avgPrice);
         const totalFees = buyFee + sellFee;
 
         // Calculate profits
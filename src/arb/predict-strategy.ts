@@ -344,7 +344,10 @@ export class PredictStrategy {
 
         // Calculate expected profit
         const totalCost = (yesAsk.price + noAsk.price) * recommendedQty;
-        const fees = calculateTradingFee(totalCost, 'predict', false, this.config.fees);
+        const context = { marketId: book.marketId };
+        const fees =
+            calculateTradingFee(yesAsk.price * recommendedQty, 'predict', false, this.config.fees, yesAsk.price, context) +
+            calculateTradingFee(noAsk.price * recommendedQty, 'predict', false, this.config.fees, noAsk.price, context);
         const expectedProfit = (recommendedQty * 1) - totalCost - fees; // Payout is 1 per share
 
         if (expectedProfit < 0) return null;
@@ -0,0 +1,158 @@
+/**
+ * Account Registry - 多账号管理
+ *
+ * 第一个账号为主账号：配置已加载进 process.env，使用全局 PredictTrader / PolymarketTrader 单例，
+ * 账户面板、订单状态缓存、BSC WSS 监控等沿用主账号；其余账号按各自 env 懒加载独立 trader 实例。
+ */
+
+import { getPredictTrader, PredictTrader } from '../predict-trader.js';
+import { getPolymarketTrader, PolymarketTrader } from '../polymarket-trader.js';
+import type { AccountBalance, TradingAccountConfig } from './types.js';
+
+const BALANCE_TTL_MS = 30_000;       // 余额缓存有效期
+const BALANCE_TIMEOUT_MS = 5_000;
+
+export class AccountRegistry {
+    private readonly accounts = new Map<string, TradingAccountConfig>();
+    private readonly primaryId: string;
+    private predictTraders = new Map<string, PredictTrader>();
+    private polyTraders = new Map<string, PolymarketTrader>();
+    private balances = new Map<string, AccountBalance>();
+    private refreshing: Promise<AccountBalance[]> | null = null;
+
+    constructor(accounts: TradingAccountConfig[]) {
+        if (accounts.length === 0) {
+            throw new Error('至少需要一个账号');
+        }
+
+        const wallets = new Map<string, string>();
+        for (const account of accounts) {
+            if (this.accounts.has(account.id)) {
+                throw new Error(`账号重复: ${account.id}`);
+            }
+            const wallet = account.env.PREDICT_SMART_WALLET_ADDRESS?.toLowerCase();
+            if (wallet) {
+                const owner = wallets.get(wallet);
+                if (owner) {
+                    throw new Error(`账号 ${account.id} 与 ${owner} 使用同一个 Predict 智能钱包`);
+                }
+                wallets.set(wallet, account.id);
+            }
+            this.accounts.set(account.id, account);
+        }
+        this.primaryId = accounts[0].id;
+    }
+
+    getPrimaryId(): string {
+        return this.primaryId;
+    }
+
+    getAccountIds(): string[] {
+        return [...this.accounts.keys()];
+    }
+
+    has(accountId: string): boolean {
+        return this.accounts.has(accountId);
+    }
+
+    isMultiAccount(): boolean {
+        return this.accounts.size > 1;
+    }
+
+    /**
+     * 账号的 Predict 智能钱包地址 (手续费返点等级按该地址匹配)，未指定账号为主账号
+     */
+    getPredictAddress(accountId: string = this.primaryId): string | undefined {
+        return this.accounts.get(accountId)?.env.PREDICT_SMART_WALLET_ADDRESS || undefined;
+    }
+
+    getPredictTrader(accountId: string): PredictTrader {
+        if (accountId === this.primaryId) return getPredictTrader();
+
+        let trader = this.predictTraders.get(accountId);
+        if (!trader) {
+            trader = new PredictTrader({ env: this.getAccount(accountId).env, useOrderStatusCache: false });
+            this.predictTraders.set(accountId, trader);
+        }
+        return trader;
+    }
+
+    getPolymarketTrader(accountId: string): PolymarketTrader {
+        if (accountId === this.primaryId) return getPolymarketTrader();
+
+        let trader = this.polyTraders.get(accountId);
+        if (!trader) {
+            trader = new PolymarketTrader(this.getAccount(accountId).env);
+            this.polyTraders.set(accountId, trader);
+        }
+        return trader;
+    }
+
+    /**
+     * 最近一次查询的余额 (按账号顺序)
+     */
+    getBalances(): AccountBalance[] {
+        return this.getAccountIds().map(id => this.balances.get(id) ?? {
+            accountId: id,
+            predictAvailable: 0,
+            polymarketAvailable: 0,
+            updatedAt: 0,
+            error: '尚未查询',
+        });
+    }
+
+    /**
+     * 查询全部账号余额 (并发请求合并)
+     */
+    async refreshBalances(): Promise<AccountBalance[]> {
+        if (!this.refreshing) {
+            this.refreshing = Promise.all(this.getAccountIds().map(id => this.fetchBalance(id)))
+                .finally(() => { this.refreshing = null; });
+        }
+        return this.refreshing;
+    }
+
+    /**
+     * 余额缓存过期时重新查询
+     */
+    async ensureFreshBalances(): Promise<AccountBalance[]> {
+        const stale = this.getBalances().some(b => Date.now() - b.updatedAt > BALANCE_TTL_MS);
+        return stale ? this.refreshBalances() : this.getBalances();
+    }
+
+    private getAccount(accountId: string): TradingAccountConfig {
+        const account = this.accounts.get(accountId);
+        if (!account) {
+            throw new Error(`未知账号: ${accountId}`);
+        }
+        return account;
+    }
+
+    private async fetchBalance(accountId: string): Promise<AccountBalance> {
+        const previous = this.balances.get(accountId);
+        let balance: AccountBalance;
+        try {
+            const [predictAvailable, polymarketAvailable] = await Promise.race([
+                Promise.all([
+                    this.getPredictTrader(accountId).getBalance(),
+                    this.getPolymarketTrader(accountId).getBalance(),
+                ]),
+                new Promise<never>((_, reject) =>
+                    setTimeout(() => reject(new Error('timeout')), BALANCE_TIMEOUT_MS)
+                ),
+            ]);
+            balance = { accountId, predictAvailable, polymarketAvailable, updatedAt: Date.now() };
+        } catch (error: any) {
+            console.warn(`[AccountRegistry] 账号 ${accountId} 余额查询失败: ${error?.message || error}`);
+            balance = {
+                accountId,
+                predictAvailable: previous?.predictAvailable ?? 0,
+                polymarketAvailable: previous?.polymarketAvailable ?? 0,
+                updatedAt: Date.now(),
+                error: error?.message || String(error),
+            };
+        }
+        this.balances.set(accountId, balance);
+        return balance;
+    }
+}
@@ -0,0 +1,141 @@
+/**
+ * 账号分配策略
+ *
+ * 新任务分配给两条腿都能覆盖的账号 (可用 = 链上余额 - 该账号进行中任务的预留，见 CapitalAllocator)，
+ * 多个账号满足时，选择分配后两边余量中较小值最大的账号（资金最宽裕、分散负载）。
+ *
+ * 资金需求按 价格 × 剩余数量 + 手续费 估算（手续费来自 FeeModel）。
+ * 篮子任务按各腿扫单限价分别计入所在平台。
+ */
+
+import { getFeeModel } from '../../trading/fee-model.js';
+import { basketLegFee } from '../basket/basket-calculator.js';
+import type { Task } from '../types.js';
+import type { AccountAllocation, AccountBalance, TaskFunding } from './types.js';
+
+type FundingFields = Pick<Task, 'type' | 'marketId' | 'quantity' | 'predictPrice' | 'polymarketMaxAsk'>
+    & Partial<Pick<Task, 'strategy' | 'predictAskPrice' | 'maxTotalCost' | 'feeRateBps' | 'polymarketConditionId' | 'predictFilledQty' | 'hedgedQty' | 'basket'>>;
+
+/**
+ * 每份资金需求 (含手续费)；SELL 任务卖出已有持仓，不占用资金
+ * @param account - 执行账号的 Predict 地址 (返点等级)
+ */
+export function estimateFundingPerShare(task: FundingFields, account?: string): TaskFunding {
+    if (task.type !== 'BUY') {
+        return { predict: 0, polymarket: 0 };
+    }
+
+    if (task.basket) {
+        const funding: TaskFunding = { predict: 0, polymarket: 0 };
+        for (const leg of task.basket.legs) {
+            funding[leg.venue] += leg.limitPrice + basketLegFee(leg.outcome, leg.venue)(leg.limitPrice);
+        }
+        return funding;
+    }
+
+    const feeModel = getFeeModel();
+    const taker = task.strategy === 'TAKER';
+    const predictPrice = task.predictAskPrice ?? task.predictPrice;
+    const predictFee = feeModel.predictFeePerShare(predictPrice, task.feeRateBps, {
+        marketId: task.marketId,
+        account,
+        role: taker ? 'TAKER' : 'MAKER',
+    });
+
+    // TAKER: 对冲上限由 maxTotalCost 推导 (与 TaskService.createTask 一致)
+    const polymarketPrice = taker && task.maxTotalCost
+        ? Math.max(0, task.maxTotalCost - predictPrice - predictFee)
+        : task.polymarketMaxAsk;
+    const polymarketFee = feeModel.polymarketFeePerShare(polymarketPrice, {
+        polymarketMarket: task.polymarketConditionId,
+    });
+
+    return {
+        predict: predictPrice + predictFee,
+        polymarket: polymarketPrice + polymarketFee,
+    };
+}
+
+/**
+ * 任务剩余资金需求 (已成交 / 已对冲部分已从余额扣除，不再占用)
+ */
+export function estimateTaskFunding(task: FundingFields, account?: string): TaskFunding {
+    if (task.basket) {
+        const funding: TaskFunding = { predict: 0, polymarket: 0 };
+        for (const leg of task.basket.legs) {
+            const remaining = Math.max(0, task.quantity - leg.filledQty);
+            funding[leg.venue] += remaining * (leg.limitPrice + basketLegFee(leg.outcome, leg.venue)(leg.limitPrice));
+        }
+        return funding;
+    }
+
+    const perShare = estimateFundingPerShare(task, account);
+    const predictRemaining = Math.max(0, task.quantity - (task.predictFilledQty ?? 0));
+    const hedgeRemaining = Math.max(0, task.quantity - (task.hedgedQty ?? 0));
+    return {
+        predict: predictRemaining * perShare.predict,
+        polymarket: hedgeRemaining * perShare.polymarket,
+    };
+}
+
+/**
+ * 任务已成交部分的花费 (余额快照早于成交时，该部分尚未从余额中扣除)
+ */
+export function estimateTaskSpent(task: FundingFields): TaskFunding {
+    if (task.type !== 'BUY') {
+        return { predict: 0, polymarket: 0 };
+    }
+    if (task.basket) {
+        const funding: TaskFunding = { predict: 0, polymarket: 0 };
+        for (const leg of task.basket.legs) {
+            funding[leg.venue] += leg.filledQty * (leg.limitPrice + basketLegFee(leg.outcome, leg.venue)(leg.limitPrice));
+        }
+        return funding;
+    }
+
+    const perShare = estimateFundingPerShare(task);
+    return {
+        predict: Math.min(task.quantity, task.predictFilledQty ?? 0) * perShare.predict,
+        polymarket: Math.min(task.quantity, task.hedgedQty ?? 0) * perShare.polymarket,
+    };
+}
+
+/**
+ * 选择能覆盖两条腿的账号
+ * @param balances 各账号可用资金 (已扣除进行中任务的预留，见 CapitalAllocator)
+ */
+export function selectAccount(
+    balances: AccountBalance[],
+    required: TaskFunding
+): AccountAllocation {
+    const candidates: AccountAllocation['candidates'] = [];
+    let best: { accountId: string; headroom: number } | null = null;
+
+    for (const balance of balances) {
+        const predictFree = balance.predictAvailable;
+        const polymarketFree = balance.polymarketAvailable;
+        const eligible = !balance.error
+            && predictFree >= required.predict
+            && polymarketFree >= required.polymarket;
+        candidates.push({ accountId: balance.accountId, predictFree, polymarketFree, eligible });
+
+        if (!eligible) continue;
+        const headroom = Math.min(predictFree - required.predict, polymarketFree - required.polymarket);
+        if (!best || headroom > best.headroom) {
+            best = { accountId: balance.accountId, headroom };
+        }
+    }
+
+    if (!best) {
+        return {
+            accountId: null,
+            reason: `没有账号余额足以覆盖 Predict $${required.predict.toFixed(2)} + Polymarket $${required.polymarket.toFixed(2)}`,
+            candidates,
+        };
+    }
+    return {
+        accountId: best.accountId,
+        reason: `分配后余量 $${best.headroom.toFixed(2)}`,
+        candidates,
+    };
+}
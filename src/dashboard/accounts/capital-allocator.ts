@@ -0,0 +1,294 @@
+/**
+ * Capital Allocator - 按实时余额为任务预留资金
+ *
+ * 每个未结束的 BUY 任务预留两条腿的剩余资金 (价格 × 剩余数量 + 手续费):
+ *   Predict:    (quantity - predictFilledQty) × (predictPrice + fee)
+ *   Polymarket: (quantity - hedgedQty) × (polymarketMaxAsk + fee)
+ * 预留从任务状态推导：成交 / 对冲后按比例释放，任务完成 / 取消 / 失败即全部释放，重启后自动恢复。
+ * 已成交部分在余额快照更新之前继续占用 (快照早于任务最近一次更新时，成交花费尚未反映在余额中)。
+ *
+ * 账号选择与资金预留分开：未启用预留 (含模拟交易) 时多账号仍按可用资金选择账号，只是不缩量。
+ *
+ * 新任务创建时 可用 = 余额 × (1 - 缓冲) - 已预留，不足以覆盖两条腿时按配置缩量或拒绝，
+ * 避免 Predict 成交后 Polymarket 余额不足导致对冲失败、留下裸敞口。
+ */
+
+import type { TaskService } from '../task-service.js';
+import type { CreateTaskInput, Task } from '../types.js';
+import type { AccountRegistry } from './account-registry.js';
+import { estimateFundingPerShare, estimateTaskFunding, estimateTaskSpent, selectAccount } from './allocation.js';
+import type { AccountBalance, TaskFunding } from './types.js';
+
+export interface CapitalAllocatorConfig {
+    enabled: boolean;
+    mode: 'shrink' | 'reject';         // 资金不足时缩量或拒绝
+    minQuantity: number;               // 缩量后的最小数量 (shares)
+    minOrderValueUsd: number;          // 缩量后 Predict 腿的最小金额 (无 Predict 腿的篮子任务按 Polymarket 腿)
+    reserveBufferPercent: number;      // 余额保留比例，例如 0.05 = 5% 不参与分配
+}
+
+export const DEFAULT_CAPITAL_ALLOCATOR_CONFIG: CapitalAllocatorConfig = {
+    enabled: true,
+    mode: 'shrink',
+    minQuantity: 1,
+    minOrderValueUsd: 0.9,
+    reserveBufferPercent: 0,
+};
+
+export function loadCapitalAllocatorConfigFromEnv(): CapitalAllocatorConfig {
+    const defaults = DEFAULT_CAPITAL_ALLOCATOR_CONFIG;
+    const number = (raw: string | undefined, fallback: number) => {
+        const value = Number(raw);
+        return raw !== undefined && raw !== '' && Number.isFinite(value) ? value : fallback;
+    };
+    return {
+        enabled: process.env.CAPITAL_ALLOCATOR_ENABLED !== 'false',
+        mode: process.env.CAPITAL_ALLOCATOR_MODE === 'reject' ? 'reject' : defaults.mode,
+        minQuantity: number(process.env.CAPITAL_MIN_TASK_QUANTITY, defaults.minQuantity),
+        minOrderValueUsd: number(process.env.PREDICT_MIN_ORDER_VALUE_USD, defaults.minOrderValueUsd),
+        reserveBufferPercent: number(process.env.CAPITAL_RESERVE_BUFFER_PERCENT, defaults.reserveBufferPercent),
+    };
+}
+
+export interface CapitalReservation {
+    taskId: string;
+    accountId: string;
+    marketId: number;
+    status: Task['status'];
+    predict: number;
+    polymarket: number;
+    awaitingBalance: boolean;          // 含已成交、尚未反映到余额快照的花费
+}
+
+export interface CapitalLegStatus {
+    balance: number;
+    reserved: number;
+    free: number;
+}
+
+export interface CapitalStatus {
+    accountId: string;
+    predict: CapitalLegStatus;
+    polymarket: CapitalLegStatus;
+    reservations: CapitalReservation[];
+    updatedAt: number;
+    error?: string;
+}
+
+export interface CapitalDecision {
+    accountId: string;
+    requestedQuantity: number;
+    quantity: number;
+    shrunk: boolean;
+    funding: TaskFunding;              // 本任务预留金额
+}
+
+export class CapitalAllocator {
+    constructor(
+        private readonly registry: AccountRegistry,
+        private readonly taskService: TaskService,
+        private readonly config: CapitalAllocatorConfig = DEFAULT_CAPITAL_ALLOCATOR_CONFIG
+    ) { }
+
+    getConfig(): CapitalAllocatorConfig {
+        return this.config;
+    }
+
+    /**
+     * 任务的资金预留: 未结束任务的剩余需求 + 余额快照之后才成交的花费
+     * @param balances - 各账号余额快照 (updatedAt 早于任务更新时间的成交继续占用)
+     */
+    getReservations(balances: AccountBalance[] = this.registry.getBalances()): CapitalReservation[] {
+        const primaryId = this.registry.getPrimaryId();
+        const snapshotAt = new Map(balances.map(b => [b.accountId, b.updatedAt]));
+        const activeIds = new Set(this.taskService.getTasks({}).map(task => task.id));
+        const reservations: CapitalReservation[] = [];
+
+        for (const task of this.taskService.getTasks({ includeCompleted: true })) {
+            const accountId = task.accountId ?? primaryId;
+            const remaining = activeIds.has(task.id)
+                ? estimateTaskFunding(task, this.registry.getPredictAddress(accountId))
+                : { predict: 0, polymarket: 0 };
+            const awaitingBalance = task.updatedAt > (snapshotAt.get(accountId) ?? 0);
+            const spent = awaitingBalance ? estimateTaskSpent(task) : { predict: 0, polymarket: 0 };
+            const predict = remaining.predict + spent.predict;
+            const polymarket = remaining.polymarket + spent.polymarket;
+            if (predict <= 0 && polymarket <= 0) continue;
+            reservations.push({
+                taskId: task.id,
+                accountId,
+                marketId: task.marketId,
+                status: task.status,
+                predict,
+                polymarket,
+                awaitingBalance: awaitingBalance && (spent.predict > 0 || spent.polymarket > 0),
+            });
+        }
+        return reservations;
+    }
+
+    /**
+     * 各账号余额 / 已预留 / 可用
+     */
+    async getStatus(): Promise<CapitalStatus[]> {
+        const balances = await this.registry.ensureFreshBalances();
+        return this.buildStatus(balances);
+    }
+
+    /**
+     * 预留资金并创建任务
+     *
+     * 余额查询之后同步完成 分配 → 缩量 → 创建，并发请求不会重复占用同一笔资金。
+     * 未指定账号时按可用资金选择账号 (多账号)。
+     */
+    async createTask(input: CreateTaskInput): Promise<{ task: Task; decision: CapitalDecision | null }> {
+        if (!this.config.enabled) {
+            const accountId = await this.selectAccountWithoutReservation(input);
+            return { task: this.taskService.createTask({ ...input, accountId }), decision: null };
+        }
+
+        const balances = await this.registry.ensureFreshBalances();
+        const decision = this.decide(input, balances);
+        const task = this.taskService.createTask({
+            ...input,
+            // 单账号模式不标记账号 (与未启用分配器时一致)
+            accountId: this.registry.isMultiAccount() ? decision.accountId : input.accountId,
+            quantity: decision.quantity,
+        });
+
+        const shrunkNote = decision.shrunk ? `，资金不足缩量 ${decision.requestedQuantity} → ${decision.quantity}` : '';
+        console.log(`[CapitalAllocator] 任务 ${task.id} [${decision.accountId}] 预留 Predict $${decision.funding.predict.toFixed(2)} + Polymarket $${decision.funding.polymarket.toFixed(2)}${shrunkNote}`);
+        return { task, decision };
+    }
+
+    /**
+     * 未启用资金预留时的账号选择 (多账号未指定账号时仍按可用资金分配，不缩量)
+     */
+    private async selectAccountWithoutReservation(input: CreateTaskInput): Promise<string | undefined> {
+        if (input.accountId || !this.registry.isMultiAccount()) {
+            return input.accountId;
+        }
+        const perShare = estimateFundingPerShare(input, this.registry.getPredictAddress(input.accountId));
+        const required: TaskFunding = {
+            predict: perShare.predict * input.quantity,
+            polymarket: perShare.polymarket * input.quantity,
+        };
+        // SELL 任务在持仓所在账号执行 (未指定 = 主账号)
+        if (required.predict <= 0 && required.polymarket <= 0) {
+            return undefined;
+        }
+        const balances = await this.registry.ensureFreshBalances();
+        const allocation = selectAccount(this.toFreeBalances(this.buildStatus(balances)), required);
+        if (!allocation.accountId) {
+            throw new Error(allocation.reason);
+        }
+        return allocation.accountId;
+    }
+
+    private toFreeBalances(statuses: CapitalStatus[]): AccountBalance[] {
+        return statuses.map(status => ({
+            accountId: status.accountId,
+            predictAvailable: status.predict.free,
+            polymarketAvailable: status.polymarket.free,
+            updatedAt: status.updatedAt,
+            error: status.error,
+        }));
+    }
+
+    private decide(input: CreateTaskInput, balances: AccountBalance[]): CapitalDecision {
+        const perShare = estimateFundingPerShare(input, this.registry.getPredictAddress(input.accountId));
+        const required: TaskFunding = {
+            predict: perShare.predict * input.quantity,
+            polymarket: perShare.polymarket * input.quantity,
+        };
+
+        // SELL 任务不占用资金，在持仓所在账号执行 (未指定 = 主账号)
+        if (required.predict <= 0 && required.polymarket <= 0) {
+            return {
+                accountId: input.accountId ?? this.registry.getPrimaryId(),
+                requestedQuantity: input.quantity,
+                quantity: input.quantity,
+                shrunk: false,
+                funding: required,
+            };
+        }
+
+        const candidates = this.buildStatus(balances)
+            .filter(status => !input.accountId || status.accountId === input.accountId);
+        const free = this.toFreeBalances(candidates);
+
+        // 1. 有账号能覆盖全部数量 → 余量最大的账号
+        const allocation = selectAccount(free, required);
+        if (allocation.accountId) {
+            return {
+                accountId: allocation.accountId,
+                requestedQuantity: input.quantity,
+                quantity: input.quantity,
+                shrunk: false,
+                funding: required,
+            };
+        }
+
+        const shortfall = `需要 Predict $${required.predict.toFixed(2)} + Polymarket $${required.polymarket.toFixed(2)}，` +
+            candidates.map(s => `${s.accountId} 可用 $${s.predict.free.toFixed(2)} / $${s.polymarket.free.toFixed(2)}${s.error ? ` (${s.error})` : ''}`).join('; ');
+        if (this.config.mode === 'reject') {
+            throw new Error(`资金不足: ${shortfall}`);
+        }
+
+        // 2. 缩量: 取可承载数量最大的账号
+        let best: { accountId: string; quantity: number } | null = null;
+        for (const balance of free) {
+            if (balance.error) continue;
+            const quantity = Math.floor(Math.min(
+                perShare.predict > 0 ? balance.predictAvailable / perShare.predict : Infinity,
+                perShare.polymarket > 0 ? balance.polymarketAvailable / perShare.polymarket : Infinity,
+                input.quantity
+            ));
+            if (!best || quantity > best.quantity) {
+                best = { accountId: balance.accountId, quantity };
+            }
+        }
+
+        if (!best || best.quantity < this.config.minQuantity
+            || best.quantity * (perShare.predict > 0 ? perShare.predict : perShare.polymarket) < this.config.minOrderValueUsd) {
+            throw new Error(`资金不足，缩量后低于最小下单量: ${shortfall}`);
+        }
+        return {
+            accountId: best.accountId,
+            requestedQuantity: input.quantity,
+            quantity: best.quantity,
+            shrunk: true,
+            funding: {
+                predict: perShare.predict * best.quantity,
+                polymarket: perShare.polymarket * best.quantity,
+            },
+        };
+    }
+
+    private buildStatus(balances: AccountBalance[]): CapitalStatus[] {
+        const reservations = this.getReservations(balances);
+        const usable = 1 - Math.min(Math.max(this.config.reserveBufferPercent, 0), 1);
+
+        return balances.map(balance => {
+            const owned = reservations.filter(r => r.accountId === balance.accountId);
+            const predictReserved = owned.reduce((sum, r) => sum + r.predict, 0);
+            const polymarketReserved = owned.reduce((sum, r) => sum + r.polymarket, 0);
+            return {
+                accountId: balance.accountId,
+                predict: {
+                    balance: balance.predictAvailable,
+                    reserved: predictReserved,
+                    free: balance.predictAvailable * usable - predictReserved,
+                },
+                polymarket: {
+                    balance: balance.polymarketAvailable,
+                    reserved: polymarketReserved,
+                    free: balance.polymarketAvailable * usable - polymarketReserved,
+                },
+                reservations: owned,
+                updatedAt: balance.updatedAt,
+                error: balance.error,
+            };
+        });
+    }
+}
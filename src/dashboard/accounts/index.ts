@@ -0,0 +1,41 @@
+/**
+ * 多账号模块导出
+ *
+ * 单个 dashboard 进程管理多对 Predict / Polymarket 钱包:
+ * 每个账号独立的 trader 与 TaskExecutor，任务按 accountId 路由，新任务按可用余额分配账号。
+ */
+
+import { AccountRegistry } from './account-registry.js';
+import type { TradingAccountConfig } from './types.js';
+
+// 类型导出
+export * from './types.js';
+
+export { AccountRegistry } from './account-registry.js';
+export { TaskExecutorPool } from './task-executor-pool.js';
+export { estimateFundingPerShare, estimateTaskFunding, estimateTaskSpent, selectAccount } from './allocation.js';
+export {
+    CapitalAllocator,
+    DEFAULT_CAPITAL_ALLOCATOR_CONFIG,
+    loadCapitalAllocatorConfigFromEnv,
+    type CapitalAllocatorConfig,
+    type CapitalDecision,
+    type CapitalLegStatus,
+    type CapitalReservation,
+    type CapitalStatus,
+} from './capital-allocator.js';
+
+// 单例
+let registryInstance: AccountRegistry | null = null;
+
+export function getAccountRegistry(): AccountRegistry {
+    if (!registryInstance) {
+        throw new Error('AccountRegistry not initialized. Call initAccountRegistry first.');
+    }
+    return registryInstance;
+}
+
+export function initAccountRegistry(accounts: TradingAccountConfig[]): AccountRegistry {
+    registryInstance = new AccountRegistry(accounts);
+    return registryInstance;
+}
@@ -0,0 +1,115 @@
+/**
+ * TaskExecutor Pool - 每个账号一个 TaskExecutor
+ *
+ * 按 task.accountId 路由单任务操作 (start / resume / cancel)，
+ * 批量操作 (init / 暂停 / 关闭 / 恢复) 分发到所有账号，
+ * 并转发各执行器的 task:updated / alert:pin 事件，对 start-dashboard 保持与单个 TaskExecutor 相同的接口。
+ */
+
+import { EventEmitter } from 'events';
+import type { PolymarketWebSocketClient } from '../../polymarket/ws-client.js';
+import { getTaskService } from '../task-service.js';
+import { getTaskExecutor, TaskExecutor } from '../task-executor.js';
+import type { AccountRegistry } from './account-registry.js';
+
+const FORWARDED_EVENTS = ['task:updated', 'alert:pin'];
+
+export class TaskExecutorPool extends EventEmitter {
+    private executors = new Map<string, TaskExecutor>();
+    private failedAccounts = new Map<string, string>();
+    private readonly primaryId: string;
+
+    constructor(registry: AccountRegistry) {
+        super();
+        this.primaryId = registry.getPrimaryId();
+
+        for (const accountId of registry.getAccountIds()) {
+            const primary = accountId === this.primaryId;
+            const executor = primary && !registry.isMultiAccount()
+                ? getTaskExecutor()
+                : new TaskExecutor({
+                    accountId,
+                    primary,
+                    predictTrader: registry.getPredictTrader(accountId),
+                    polyTrader: registry.getPolymarketTrader(accountId),
+                });
+            for (const event of FORWARDED_EVENTS) {
+                executor.on(event, (...args: unknown[]) => this.emit(event, ...args));
+            }
+            this.executors.set(accountId, executor);
+        }
+    }
+
+    /**
+     * 初始化所有执行器；主账号失败时抛出，其他账号失败只记录 (该账号任务无法启动)
+     */
+    async init(): Promise<void> {
+        for (const [accountId, executor] of this.executors) {
+            try {
+                await executor.init();
+            } catch (error: any) {
+                if (accountId === this.primaryId) throw error;
+                console.error(`[TaskExecutorPool] 账号 ${accountId} 初始化失败: ${error?.message || error}`);
+                this.failedAccounts.set(accountId, error?.message || String(error));
+                this.executors.delete(accountId);
+            }
+        }
+    }
+
+    getExecutor(accountId?: string): TaskExecutor {
+        const id = accountId ?? this.primaryId;
+        const executor = this.executors.get(id);
+        if (!executor) {
+            const failure = this.failedAccounts.get(id);
+            throw new Error(failure ? `账号 ${id} 不可用: ${failure}` : `未知账号: ${id}`);
+        }
+        return executor;
+    }
+
+    async triggerAutoRecovery(): Promise<void> {
+        for (const executor of this.executors.values()) {
+            await executor.triggerAutoRecovery();
+        }
+    }
+
+    setPolymarketWsClient(client: PolymarketWebSocketClient | null): void {
+        for (const executor of this.executors.values()) {
+            executor.setPolymarketWsClient(client);
+        }
+    }
+
+    async startTask(taskId: string): Promise<void> {
+        await this.executorForTask(taskId).startTask(taskId);
+    }
+
+    async resumeTask(taskId: string): Promise<void> {
+        await this.executorForTask(taskId).resumeTask(taskId);
+    }
+
+    async cancelTask(taskId: string): Promise<void> {
+        await this.executorForTask(taskId).cancelTask(taskId);
+    }
+
+    isTaskRunning(taskId: string): boolean {
+        return [...this.executors.values()].some(executor => executor.isTaskRunning(taskId));
+    }
+
+    async pauseTasks(reason: string, options?: { concurrency?: number; timeoutMs?: number; excludeSports?: boolean }): Promise<string[]> {
+        const paused = await Promise.all(
+            [...this.executors.values()].map(executor => executor.pauseTasks(reason, options))
+        );
+        return paused.flat();
+    }
+
+    async shutdown(options?: { concurrency?: number; timeoutMs?: number }): Promise<void> {
+        await Promise.all([...this.executors.values()].map(executor => executor.shutdown(options)));
+    }
+
+    /**
+     * 任务所属执行器 (任务不存在时交给主账号，由其抛出 not found)
+     */
+    private executorForTask(taskId: string): TaskExecutor {
+        const task = getTaskService().getTask(taskId);
+        return this.getExecutor(task?.accountId);
+    }
+}
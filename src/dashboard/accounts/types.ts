@@ -0,0 +1,45 @@
+/**
+ * 多账号类型定义
+ */
+
+/**
+ * 交易账号配置 (一个 .env.<account> 文件 = 一对 Predict 智能钱包 + Polymarket 代理钱包)
+ */
+export interface TradingAccountConfig {
+    id: string;                    // 账号名称 (如 "account1")
+    envFile: string;               // 配置文件路径
+    env: NodeJS.ProcessEnv;        // 该账号的环境变量 (进程环境 + 配置文件，不写回 process.env)
+}
+
+/**
+ * 账号可用余额
+ */
+export interface AccountBalance {
+    accountId: string;
+    predictAvailable: number;      // Predict 智能钱包 USDT
+    polymarketAvailable: number;   // Polymarket 代理钱包 USDC
+    updatedAt: number;
+    error?: string;                // 最近一次查询失败原因 (余额沿用上次结果)
+}
+
+/**
+ * 任务两条腿的资金需求 (USD)
+ */
+export interface TaskFunding {
+    predict: number;
+    polymarket: number;
+}
+
+/**
+ * 账号分配结果
+ */
+export interface AccountAllocation {
+    accountId: string | null;      // null = 没有账号能同时覆盖两条腿
+    reason: string;
+    candidates: Array<{
+        accountId: string;
+        predictFree: number;       // 可用余额 - 进行中任务占用
+        polymarketFree: number;
+        eligible: boolean;
+    }>;
+}
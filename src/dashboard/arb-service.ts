@@ -1,15 +1,12 @@
 import { ServerResponse } from 'http';
-import * as fs from 'fs';
-import * as path from 'path';
-import { fileURLToPath } from 'url';
 import { ArbOpportunity, SystemStats, MarketInfo, AccountBalance, CloseOpportunity } from './types.js';
 import { calculateDepth, type DepthResult } from '../trading/depth-calculator.js';
 import { PolymarketWebSocketClient } from '../polymarket/ws-client.js';
 import { getPredictOrderbookCache } from '../services/predict-orderbook-cache.js';
 import { calculateCloseOpportunities } from './close-service.js';
 import { getAccountData } from './account-service.js';
+import { detectInversion, findAnyOtherMarket, getMappingRegistry, MATCH_METHOD_CONFIDENCE, type MappingCandidate } from './mappings/index.js';
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const DASHBOARD_PREDICT_ORDERBOOK_MODE = (process.env.DASHBOARD_PREDICT_ORDERBOOK_MODE || 'ws').toLowerCase();
 const PREDICT_WS_ONLY = DASHBOARD_PREDICT_ORDERBOOK_MODE === 'ws';
 
@@ -17,7 +14,10 @@ const PREDICT_WS_ONLY = DASHBOARD_PREDICT_ORDERBOOK_MODE === 'ws';
 // 类型定义
 // ============================================================================
 
-interface CachedMarketMatch {
+/**
+ * 全量扫描结果 (只作为候选提交映射注册表，不落地缓存文件)
+ */
+interface ScannedMarketMatch {
     predict: {
         id: number;
         title: string;
@@ -34,6 +34,7 @@ interface CachedMarketMatch {
     };
     inverted?: boolean;
     invertedReason?: string;
+    matchMethod?: 'conditionId' | 'any-other-fix';
 }
 
 interface MarketData {
@@ -373,16 +374,17 @@ export class ArbScannerService {
         const scannedMatches = await this.scanAllMarkets();
 
         if (scannedMatches.length > 0) {
-            // 保存扫描结果到缓存
-            this.saveCacheFile(scannedMatches);
             console.log(`📂 扫描到 ${scannedMatches.length} 个市场，初始化中...`);
 
+            // 扫描结果提交映射注册表，人工 pin / override / 黑名单优先
+            const registry = getMappingRegistry();
             for (const match of scannedMatches) {
-                if (!match.polymarket.active || match.polymarket.closed || !match.polymarket.acceptingOrders) {
+                const mapping = registry.upsertCandidate(this.toMappingCandidate(match), 'arb-scanner');
+                if (!mapping || !mapping.active) {
                     continue;
                 }
 
-                const conditionId = match.polymarket.conditionId;
+                const conditionId = mapping.conditionId;
                 const marketInfo = await this.getPolymarketMarketInfo(conditionId);
 
                 if (marketInfo.isSettled) {
@@ -398,12 +400,12 @@ export class ArbScannerService {
                         feeRateBps: match.predict.feeRateBps || 200
                     },
                     polyMarket: {
-                        question: match.polymarket.question,
+                        question: mapping.polymarketQuestion ?? match.polymarket.question,
                         conditionId: conditionId,
                         volume: 0
                     },
                     polyYesTokenId: marketInfo.tokenId,
-                    isInverted: match.inverted === true,
+                    isInverted: mapping.inverted,
                     isSettled: false,
                     depth: null,
                     lastUpdate: 0,
@@ -521,56 +523,8 @@ export class ArbScannerService {
     /**
      * 全量扫描 Predict 市场，找出有 Polymarket 链接的活跃市场
      */
-    private async scanAllMarkets(): Promise<CachedMarketMatch[]> {
-        const matches: CachedMarketMatch[] = [];
-        const normalize = (text: string): string =>
-            String(text || '')
-                .toLowerCase()
-                .replace(/[’']/g, "'")
-                .replace(/[^a-z0-9\s]/g, ' ')
-                .replace(/\s+/g, ' ')
-                .trim();
-
-        const tryFixAnyOtherToAnother = async (
-            predictQuestionRaw: string,
-            pmMarketSlug: string | undefined
-        ): Promise<{ conditionId: string; question: string } | null> => {
-            if (!pmMarketSlug) return null;
-
-            const predictQuestion = String(predictQuestionRaw || '');
-            if (!/\bany other\b/i.test(predictQuestion)) return null;
-
-            // 通过 polymarket.com/market/{slug} 的 307 Location 反推出 event slug
-            let eventSlug: string | null = null;
-            try {
-                const res = await fetch(`https://polymarket.com/market/${pmMarketSlug}`, {
-                    method: 'HEAD',
-                    redirect: 'manual',
-                });
-                const loc = res.headers.get('location') || '';
-                const m = loc.match(/^\/event\/([^/]+)\/[^/]+/);
-                if (m?.[1]) eventSlug = m[1];
-            } catch {
-                return null;
-            }
-            if (!eventSlug) return null;
-
-            // 拉取该 event 下所有 markets，查找 “another player / any other” 对应的 market
-            try {
-                const res = await fetch(`https://gamma-api.polymarket.com/events?slug=${encodeURIComponent(eventSlug)}`);
-                if (!res.ok) return null;
-                const events = await res.json() as Array<{ markets?: Array<{ conditionId: string; question?: string }> }>;
-                const markets = events[0]?.markets || [];
-                if (markets.length === 0) return null;
-
-                const targetNorm = normalize(predictQuestion).replace(/\bany other\b/g, 'another');
-                const hit = markets.find((x) => normalize(x.question || '').replace(/\bany other\b/g, 'another') === targetNorm);
-                if (!hit?.conditionId) return null;
-                return { conditionId: hit.conditionId, question: hit.question || '' };
-            } catch {
-                return null;
-            }
-        };
+    private async scanAllMarkets(): Promise<ScannedMarketMatch[]> {
+        const matches: ScannedMarketMatch[] = [];
 
         // 1. 获取所有市场列表
         console.log('  📋 获取 Predict 市场列表...');
@@ -611,48 +565,33 @@ export class ArbScannerService {
                     if (!conditionId) return null;
 
                     // 验证 Polymarket 市场
-                    let pmRes = await fetch(`https://clob.polymarket.com/markets/${conditionId}`);
+                    const pmRes = await fetch(`https://clob.polymarket.com/markets/${conditionId}`);
                     if (!pmRes.ok) return null;
 
                     let pmData = await pmRes.json() as any;
                     if (pmData.closed === true || pmData.accepting_orders === false) return null;
 
-                    // 修复少量 “any other” 市场被错误链接到具体选手/标的的情况：
-                    // 如果 Predict 问题包含 any other，但 Polymarket 问题不包含 any other/another，
-                    // 则尝试在同 event 下找到对应的 “another player/any other” market 并替换 conditionId。
+                    // 修复少量 “any other” 市场被错误链接到具体选手/标的的情况 (见 mappings/matcher)
                     const predictQuestionRaw = String(m.question || m.title || '');
-                    const pmQuestionRaw = String(pmData.question || '');
-                    if (/\bany other\b/i.test(predictQuestionRaw) && !/\b(any other|another)\b/i.test(pmQuestionRaw)) {
-                        const fixed = await tryFixAnyOtherToAnother(predictQuestionRaw, pmData.market_slug);
-                        if (fixed && fixed.conditionId && fixed.conditionId !== conditionId) {
-                            const fixedRes = await fetch(`https://clob.polymarket.com/markets/${fixed.conditionId}`);
-                            if (fixedRes.ok) {
-                                const fixedData = await fixedRes.json() as any;
-                                if (fixedData.closed !== true && fixedData.accepting_orders !== false) {
-                                    console.log(`\n  🔧 [FixLink] Predict#${market.id} "${m.title}" conditionId override: ${conditionId.slice(0, 10)}… -> ${fixed.conditionId.slice(0, 10)}…`);
-                                    conditionId = fixed.conditionId;
-                                    pmRes = fixedRes;
-                                    pmData = fixedData;
-                                }
+                    let matchMethod: ScannedMarketMatch['matchMethod'] = 'conditionId';
+                    const fixed = await findAnyOtherMarket(predictQuestionRaw, String(pmData.question || ''), pmData.market_slug);
+                    if (fixed && fixed.conditionId !== conditionId) {
+                        const fixedRes = await fetch(`https://clob.polymarket.com/markets/${fixed.conditionId}`);
+                        if (fixedRes.ok) {
+                            const fixedData = await fixedRes.json() as any;
+                            if (fixedData.closed !== true && fixedData.accepting_orders !== false) {
+                                console.log(`\n  🔧 [FixLink] Predict#${market.id} "${m.title}" conditionId override: ${conditionId.slice(0, 10)}… -> ${fixed.conditionId.slice(0, 10)}…`);
+                                conditionId = fixed.conditionId;
+                                pmData = fixedData;
+                                matchMethod = 'any-other-fix';
                             }
                         }
                     }
 
                     // 检测 inverted 市场
-                    const predictQuestion = (m.question || m.title || '').toLowerCase();
-                    const pmQuestion = (pmData.question || '').toLowerCase();
-                    let inverted = false;
-                    let invertedReason = '';
-
-                    if (predictQuestion.includes('change') && pmQuestion.includes('no change')) {
-                        inverted = true;
-                        invertedReason = "Predict问'会变吗'，Polymarket问'不会变吗'";
-                    } else if (predictQuestion.includes('no change') && pmQuestion.includes('change') && !pmQuestion.includes('no change')) {
-                        inverted = true;
-                        invertedReason = "Predict问'不会变吗'，Polymarket问'会变吗'";
-                    }
+                    const { inverted, reason: invertedReason } = detectInversion(predictQuestionRaw, pmData.question || '');
 
-                    const result: CachedMarketMatch = {
+                    const result: ScannedMarketMatch = {
                         predict: {
                             id: market.id,
                             title: m.title || m.question,
@@ -666,7 +605,8 @@ export class ArbScannerService {
                             active: pmData.active !== false,
                             closed: pmData.closed === true,
                             acceptingOrders: pmData.accepting_orders !== false
-                        }
+                        },
+                        matchMethod,
                     };
 
                     if (inverted) {
@@ -696,6 +636,26 @@ export class ArbScannerService {
         return matches;
     }
 
+    private toMappingCandidate(match: ScannedMarketMatch): MappingCandidate {
+        const matchMethod = match.matchMethod ?? 'conditionId';
+        return {
+            predictMarketId: match.predict.id,
+            conditionId: match.polymarket.conditionId,
+            yesTokenId: null,
+            noTokenId: null,
+            inverted: match.inverted === true,
+            invertedReason: match.invertedReason,
+            matchMethod,
+            confidence: MATCH_METHOD_CONFIDENCE[matchMethod],
+            source: 'main',
+            active: match.polymarket.active && !match.polymarket.closed && match.polymarket.acceptingOrders,
+            predictTitle: match.predict.title,
+            predictQuestion: match.predict.question,
+            feeRateBps: match.predict.feeRateBps,
+            polymarketQuestion: match.polymarket.question,
+        };
+    }
+
     /**
      * 获取 Predict 市场列表（分页）
      */
@@ -736,53 +696,6 @@ export class ArbScannerService {
         return allMarkets;
     }
 
-    /**
-     * 保存扫描结果到缓存文件
-     */
-    private saveCacheFile(matches: CachedMarketMatch[]): void {
-        const cachePath = path.resolve(__dirname, '..', '..', 'polymarket-match-result.json');
-        const result = {
-            timestamp: new Date().toISOString(),
-            summary: {
-                total: matches.length,
-                matched: matches.length,
-                failed: 0
-            },
-            matches
-        };
-
-        try {
-            fs.writeFileSync(cachePath, JSON.stringify(result, null, 2));
-            console.log(`  💾 缓存已更新: ${cachePath}`);
-        } catch (e) {
-            console.warn(`  ⚠️  缓存保存失败:`, e);
-        }
-    }
-
-    private loadCachedMarkets(): CachedMarketMatch[] | null {
-        const cachePaths = [
-            path.resolve(__dirname, '..', '..', 'polymarket-match-result.json'),
-            path.join(process.cwd(), 'polymarket-match-result.json'),
-            path.join(process.cwd(), 'bot', 'polymarket-match-result.json'),
-            path.resolve(__dirname, '..', '..', '..', 'polymarket-match-result.json'),
-        ];
-
-        for (const cachePath of cachePaths) {
-            try {
-                if (fs.existsSync(cachePath)) {
-                    const content = fs.readFileSync(cachePath, 'utf-8');
-                    const data = JSON.parse(content) as { matches: CachedMarketMatch[] };
-                    if (data.matches && data.matches.length > 0) {
-                        return data.matches;
-                    }
-                }
-            } catch (e) {
-                // 忽略
-            }
-        }
-        return null;
-    }
-
     private async getPolymarketMarketInfo(conditionId: string): Promise<{ tokenId: string | null; isSettled: boolean }> {
         try {
             const res = await fetch(`https://clob.polymarket.com/markets/${conditionId}`);
@@ -850,7 +763,9 @@ export class ArbScannerService {
                     predictYesBids,
                     predictYesAsks,
                     polyHedgeAsks,
-                    data.predictMarket.feeRateBps || 200
+                    data.predictMarket.feeRateBps || 200,
+                    Infinity,
+                    { marketId: data.predictMarket.id, polymarketMarket: data.polyMarket?.conditionId }
                 );
 
                 data.error = null;
@@ -956,8 +871,9 @@ export class ArbScannerService {
                         title: data.predictMarket.title,
                         strategy: 'MAKER',
                         profitPercent: +(depth.makerProfit * 100).toFixed(2),
-                        maxQuantity: Math.floor(depth.makerMaxQuantity),
-                        estimatedProfit: +(depth.makerProfit * 100 * depth.makerMaxQuantity / 100).toFixed(2),
+                        maxQuantity: Math.floor(depth.makerLadder.quantity),
+                        estimatedProfit: +depth.makerLadder.profit.toFixed(2),
+                        ladder: depth.makerLadder,
                         // 使用正确的字段名 (匹配 ArbOpportunity 接口)
                         predictBid: depth.predictYesBid,
                         predictAsk: depth.predictYesAsk,
@@ -985,8 +901,9 @@ export class ArbScannerService {
                         title: data.predictMarket.title,
                         strategy: 'TAKER',
                         profitPercent: +(depth.takerProfit * 100).toFixed(2),
-                        maxQuantity: Math.floor(depth.takerMaxQuantity),
-                        estimatedProfit: +(depth.takerProfit * 100 * depth.takerMaxQuantity / 100).toFixed(2),
+                        maxQuantity: Math.floor(depth.takerLadder.quantity),
+                        estimatedProfit: +depth.takerLadder.profit.toFixed(2),
+                        ladder: depth.takerLadder,
                         // 使用正确的字段名 (匹配 ArbOpportunity 接口)
                         predictBid: depth.predictYesBid,
                         predictAsk: depth.predictYesAsk,
@@ -0,0 +1,155 @@
+/**
+ * 篮子套利计算
+ *
+ * 每条腿的买入价格档 (asks，升序):
+ *   Predict YES    = YES asks             Predict NO    = 1 - YES bids
+ *   Polymarket YES = 1 - NO bids          Polymarket NO = NO asks
+ * 每条腿取含手续费首档更便宜的平台，再用 walkBasketLadder 多档撮合确定利润最大的组数。
+ */
+
+import {
+    invertLevels,
+    walkBasketLadder,
+    type BasketLadderLeg,
+    type OrderBookLevel,
+} from '../../trading/depth-calculator.js';
+import { getFeeModel } from '../../trading/fee-model.js';
+import type {
+    BasketBookProvider,
+    BasketEvent,
+    BasketLegPlan,
+    BasketOpportunity,
+    BasketOutcome,
+    BasketSide,
+    BasketVenue,
+} from './types.js';
+
+const EPSILON = 0.0001;
+
+type Book = { bids: OrderBookLevel[]; asks: OrderBookLevel[] };
+
+/**
+ * 每组兑付: YES 篮子 1，NO 篮子 N - 1
+ */
+export function basketPayout(side: BasketSide, legCount: number): number {
+    return side === 'YES' ? 1 : legCount - 1;
+}
+
+/**
+ * 某条腿在指定平台的买入价格档 (升序)
+ * @param book - Predict 为 YES 订单簿，Polymarket 为 NO token 订单簿
+ */
+export function basketLegAsks(venue: BasketVenue, side: BasketSide, book: Book | null): OrderBookLevel[] {
+    if (!book) return [];
+    const levels = venue === 'predict'
+        ? (side === 'YES' ? book.asks : invertLevels(book.bids))
+        : (side === 'YES' ? invertLevels(book.bids) : book.asks);
+    return levels.filter(l => l.price > 0 && l.price < 1 && l.size > 0).sort((a, b) => a.price - b.price);
+}
+
+/**
+ * 某条腿在指定平台的每份 taker 手续费
+ */
+export function basketLegFee(outcome: BasketOutcome, venue: BasketVenue): (price: number) => number {
+    const feeModel = getFeeModel();
+    return venue === 'predict'
+        ? price => feeModel.predictFeePerShare(price, outcome.feeRateBps, { marketId: outcome.predictMarketId, role: 'TAKER' })
+        : price => feeModel.polymarketFeePerShare(price, { polymarketMarket: outcome.conditionId });
+}
+
+interface LegChoice extends BasketLadderLeg {
+    venue: BasketVenue;
+    alternativePrice?: number;
+}
+
+/**
+ * 选择单腿平台: 含手续费首档有效价格更低者
+ */
+function chooseLegVenue(outcome: BasketOutcome, side: BasketSide, books: BasketBookProvider): LegChoice | null {
+    const candidates: LegChoice[] = [];
+    for (const venue of ['predict', 'polymarket'] as BasketVenue[]) {
+        const book = venue === 'predict'
+            ? books.getPredictBook(outcome.predictMarketId)
+            : books.getPolymarketNoBook(outcome.noTokenId);
+        const asks = basketLegAsks(venue, side, book);
+        if (asks.length > 0) {
+            candidates.push({ venue, asks, feePerShare: basketLegFee(outcome, venue) });
+        }
+    }
+    if (candidates.length === 0) return null;
+
+    const effective = (leg: LegChoice) => leg.asks[0].price + leg.feePerShare(leg.asks[0].price);
+    candidates.sort((a, b) => effective(a) - effective(b));
+    const [best, other] = candidates;
+    return other ? { ...best, alternativePrice: other.asks[0].price } : best;
+}
+
+/**
+ * 计算单个事件某一方向的篮子机会
+ * @returns 无利润 / 缺订单簿 / YES 篮子选项集合未确认完整时返回 null
+ */
+export function calculateBasketOpportunity(
+    event: BasketEvent,
+    side: BasketSide,
+    books: BasketBookProvider,
+    maxQuantity: number = Infinity
+): BasketOpportunity | null {
+    if (event.outcomes.length < 2) return null;
+    // YES 篮子依赖选项互斥且完整，缺一个选项即可能全部归零
+    if (side === 'YES' && event.complete !== true) return null;
+
+    const choices: LegChoice[] = [];
+    for (const outcome of event.outcomes) {
+        const choice = chooseLegVenue(outcome, side, books);
+        if (!choice) return null;
+        choices.push(choice);
+    }
+
+    const payout = basketPayout(side, choices.length);
+    const ladder = walkBasketLadder(choices, payout, payout - EPSILON, maxQuantity);
+    if (ladder.quantity <= 0) return null;
+
+    const legs: BasketLegPlan[] = choices.map((choice, i) => ({
+        outcome: event.outcomes[i],
+        venue: choice.venue,
+        limitPrice: ladder.legs[i].worstPrice,
+        bestPrice: ladder.legs[i].bestPrice,
+        avgPrice: ladder.legs[i].avgPrice,
+        feePerShare: ladder.legs[i].avgFee,
+        alternativePrice: choice.alternativePrice,
+    }));
+
+    return {
+        id: `${event.key}:${side}`,
+        eventKey: event.key,
+        title: event.title,
+        side,
+        payout,
+        unitCost: ladder.bestUnitCost,
+        avgCost: ladder.avgCost,
+        profitPercent: (payout - ladder.bestUnitCost) / ladder.bestUnitCost * 100,
+        maxQuantity: ladder.quantity,
+        estimatedProfit: ladder.profit,
+        legs,
+        complete: event.complete,
+        lastUpdate: Date.now(),
+    };
+}
+
+/**
+ * 计算所有事件的 YES / NO 篮子机会 (按预估利润降序)
+ */
+export function calculateBasketOpportunities(
+    events: BasketEvent[],
+    books: BasketBookProvider,
+    maxQuantity: number = Infinity
+): BasketOpportunity[] {
+    const opportunities: BasketOpportunity[] = [];
+    for (const event of events) {
+        for (const side of ['YES', 'NO'] as BasketSide[]) {
+            const opportunity = calculateBasketOpportunity(event, side, books, maxQuantity);
+            if (opportunity) opportunities.push(opportunity);
+        }
+    }
+    return opportunities.sort((a, b) => b.estimatedProfit - a.estimatedProfit);
+}
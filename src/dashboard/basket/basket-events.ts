@@ -0,0 +1,150 @@
+/**
+ * negRisk 事件聚合与选项完整性检查
+ *
+ * - 按 Predict categorySlug 聚合已映射的 negRisk 市场对 (反向映射不参与，YES/NO 语义不一致)
+ * - 完整性: Predict 分类下未结算市场、Polymarket 事件下未关闭市场都必须已全部映射，
+ *   否则 YES 篮子可能因未覆盖的选项结算而全部归零
+ */
+
+import type { BasketEvent, BasketOutcome } from './types.js';
+
+const FETCH_TIMEOUT_MS = 8000;
+const COMPLETENESS_TTL_MS = 10 * 60 * 1000;     // 完整性检查缓存 10 分钟
+const PREDICT_API_BASE = process.env.PREDICT_API_BASE_URL || 'https://api.predict.fun';
+const GAMMA_API_BASE = 'https://gamma-api.polymarket.com';
+
+/**
+ * 事件聚合所需的市场对字段 (start-dashboard 的 MarketPair 结构兼容)
+ */
+export interface BasketPairSource {
+    predictId: number;
+    predictTitle: string;
+    predictQuestion: string;
+    categorySlug?: string;
+    polymarketConditionId: string;
+    polymarketYesTokenId?: string;
+    polymarketNoTokenId?: string;
+    feeRateBps: number;
+    tickSize: number;
+    negRisk: boolean;
+    isInverted: boolean;
+}
+
+/**
+ * 聚合 negRisk 事件 (至少 2 个选项)
+ */
+export function groupBasketEvents(pairs: BasketPairSource[]): BasketEvent[] {
+    const groups = new Map<string, BasketEvent>();
+
+    for (const pair of pairs) {
+        if (!pair.negRisk || pair.isInverted || !pair.categorySlug) continue;
+        if (!pair.polymarketYesTokenId || !pair.polymarketNoTokenId) continue;
+
+        let event = groups.get(pair.categorySlug);
+        if (!event) {
+            event = { key: pair.categorySlug, title: pair.predictQuestion, outcomes: [], complete: null };
+            groups.set(pair.categorySlug, event);
+        }
+        if (event.outcomes.some(o => o.predictMarketId === pair.predictId || o.conditionId === pair.polymarketConditionId)) {
+            continue;
+        }
+        const outcome: BasketOutcome = {
+            predictMarketId: pair.predictId,
+            name: pair.predictTitle,
+            conditionId: pair.polymarketConditionId,
+            yesTokenId: pair.polymarketYesTokenId,
+            noTokenId: pair.polymarketNoTokenId,
+            feeRateBps: pair.feeRateBps,
+            tickSize: pair.tickSize,
+        };
+        event.outcomes.push(outcome);
+    }
+
+    return Array.from(groups.values()).filter(event => event.outcomes.length >= 2);
+}
+
+/**
+ * Predict 分类下未结算的市场 ID；请求失败返回 null
+ */
+async function fetchPredictOpenMarketIds(categorySlug: string, apiKey: string): Promise<number[] | null> {
+    try {
+        const res = await fetch(`${PREDICT_API_BASE}/v1/categories/${categorySlug}`, {
+            headers: { 'x-api-key': apiKey },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+        if (!res.ok) return null;
+        const data = await res.json() as { data?: { markets?: Array<{ id: number; status?: string }> } };
+        const markets = data.data?.markets;
+        if (!markets) return null;
+        return markets.filter(m => m.status !== 'RESOLVED').map(m => Number(m.id));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Polymarket 事件下未关闭市场的 conditionId (通过任一选项的 conditionId 定位事件)；请求失败返回 null
+ */
+async function fetchPolymarketOpenConditionIds(conditionId: string): Promise<string[] | null> {
+    try {
+        const marketRes = await fetch(`${GAMMA_API_BASE}/markets?condition_ids=${conditionId}`, {
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+        if (!marketRes.ok) return null;
+        const markets = await marketRes.json() as Array<{ events?: Array<{ slug?: string }> }>;
+        const eventSlug = markets[0]?.events?.[0]?.slug;
+        if (!eventSlug) return null;
+
+        const eventRes = await fetch(`${GAMMA_API_BASE}/events?slug=${encodeURIComponent(eventSlug)}`, {
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+        if (!eventRes.ok) return null;
+        const events = await eventRes.json() as Array<{ markets?: Array<{ conditionId?: string; closed?: boolean }> }>;
+        const eventMarkets = events[0]?.markets;
+        if (!eventMarkets) return null;
+        return eventMarkets.filter(m => m.conditionId && !m.closed).map(m => m.conditionId!);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * 检查事件选项集合是否完整 (结果写回 event)
+ */
+export async function checkBasketEventCompleteness(event: BasketEvent, apiKey: string): Promise<BasketEvent> {
+    const [predictIds, conditionIds] = await Promise.all([
+        fetchPredictOpenMarketIds(event.key, apiKey),
+        fetchPolymarketOpenConditionIds(event.outcomes[0].conditionId),
+    ]);
+
+    let reason: string | undefined;
+    if (!predictIds) {
+        reason = 'Predict 分类市场列表获取失败';
+    } else if (!conditionIds) {
+        reason = 'Polymarket 事件市场列表获取失败';
+    } else {
+        const mappedPredict = new Set(event.outcomes.map(o => o.predictMarketId));
+        const mappedConditions = new Set(event.outcomes.map(o => o.conditionId.toLowerCase()));
+        const missingPredict = predictIds.filter(id => !mappedPredict.has(id));
+        const missingPoly = conditionIds.filter(id => !mappedConditions.has(id.toLowerCase()));
+        if (missingPredict.length > 0) {
+            reason = `Predict 有 ${missingPredict.length} 个未映射选项 (${missingPredict.slice(0, 5).join(', ')})`;
+        } else if (missingPoly.length > 0) {
+            reason = `Polymarket 有 ${missingPoly.length} 个未映射选项`;
+        } else if (predictIds.length !== event.outcomes.length || conditionIds.length !== event.outcomes.length) {
+            reason = `选项数量不一致: 已映射 ${event.outcomes.length}, Predict ${predictIds.length}, Polymarket ${conditionIds.length}`;
+        }
+    }
+
+    event.complete = !reason;
+    event.incompleteReason = reason;
+    event.checkedAt = Date.now();
+    return event;
+}
+
+/**
+ * 是否需要重新检查完整性
+ */
+export function isCompletenessStale(event: BasketEvent, now: number = Date.now()): boolean {
+    return !event.checkedAt || now - event.checkedAt > COMPLETENESS_TTL_MS;
+}
@@ -0,0 +1,668 @@
+/**
+ * Basket Executor - 篮子任务执行器
+ *
+ * 核心流程:
+ * 1. 重新获取各腿订单簿，按 maxUnitCost 多档核算可成交组数 (不满足直接取消)
+ * 2. 按深度从小到大依次吃单 (最难成交的腿先下)，后续腿数量 = 已成交腿的最小值
+ *    - Predict: LIMIT @ 扫单限价，超时撤单 (数量按 taker fee 放大，保证到账份数)
+ *    - Polymarket: IOC @ 扫单限价
+ * 3. 某条腿成交为 0 / 用户取消时停止下单
+ * 4. 回滚: 各腿超出完整组数的部分以 best bid 卖出 (低于最小下单金额的零头保留)
+ *
+ * 下单成功后立即持久化腿的订单 ID (state=SUBMITTED)。
+ * 重启恢复: 只对账已提交订单的成交量并回滚，不再下新腿。
+ */
+
+import { EventEmitter } from 'events';
+import type { Task, TaskStatus } from '../types.js';
+import type { PredictTrader } from '../predict-trader.js';
+import type { PolymarketTrader } from '../polymarket-trader.js';
+import type { TaskLogger } from '../task-logger/index.js';
+import { calculateActualSharesReceived } from '../taker-mode/index.js';
+import { alignQuantityWithPrecision } from '../../trading/price-utils.js';
+import { walkBasketLadder, type OrderBookLevel } from '../../trading/depth-calculator.js';
+import { getBasketRiskIntent, getRiskManager, getTaskRiskIntent } from '../../services/risk-manager/index.js';
+import { basketLegAsks, basketLegFee } from './basket-calculator.js';
+import type { BasketSide, BasketTaskLeg, BasketTaskSpec } from './types.js';
+
+// ============================================================================
+// 常量 (支持环境变量配置)
+// ============================================================================
+
+const BASKET_ORDER_TIMEOUT_MS = Number(process.env.BASKET_ORDER_TIMEOUT_MS) || 15000;   // Predict 腿超时撤单 15s
+const BASKET_POLL_INTERVAL_MS = 500;
+const BASKET_UNWIND_RETRIES = Number(process.env.BASKET_UNWIND_RETRIES) || 3;
+const UNWIND_RETRY_DELAY_MS = 1000;
+const POLY_MIN_NOTIONAL = Number(process.env.MIN_HEDGE_NOTIONAL) || 1.0;               // Polymarket 最小订单 $1
+const PREDICT_MIN_NOTIONAL = Number(process.env.PREDICT_MIN_ORDER_VALUE_USD) || 0.9;  // Predict 最小订单
+const EPSILON = 0.0001;
+
+type Book = { bids: OrderBookLevel[]; asks: OrderBookLevel[] };
+
+/** 份数精度 (两位小数，向下取整) */
+function floorShares(qty: number): number {
+    return alignQuantityWithPrecision(qty + 1e-9, 2);
+}
+
+/** 腿的每份成本 (含手续费) */
+function legCostPerShare(leg: BasketTaskLeg): number {
+    return leg.filledQty > 0 ? leg.cost / leg.filledQty : 0;
+}
+
+// ============================================================================
+// 类型
+// ============================================================================
+
+export interface BasketExecutorDeps {
+    predictTrader: PredictTrader;
+    polyTrader: PolymarketTrader;
+    taskLogger: TaskLogger;
+    updateTask: (taskId: string, updates: Partial<Task>) => void;
+}
+
+interface LegFill {
+    filledQty: number;       // 到账份数
+    avgPrice: number;
+    cost: number;            // USD (含手续费)
+    orderId?: string;
+    error?: string;
+}
+
+// ============================================================================
+// BasketExecutor 类
+// ============================================================================
+
+export class BasketExecutor extends EventEmitter {
+    private predictTrader: PredictTrader;
+    private polyTrader: PolymarketTrader;
+    private taskLogger: TaskLogger;
+    private updateTask: (taskId: string, updates: Partial<Task>) => void;
+
+    constructor(deps: BasketExecutorDeps) {
+        super();
+        this.predictTrader = deps.predictTrader;
+        this.polyTrader = deps.polyTrader;
+        this.taskLogger = deps.taskLogger;
+        this.updateTask = deps.updateTask;
+    }
+
+    // ========================================================================
+    // 主入口
+    // ========================================================================
+
+    /**
+     * 执行篮子任务 (PENDING 启动下单；其余状态视为重启恢复)
+     */
+    async execute(task: Task, signal: AbortSignal): Promise<void> {
+        if (!task.basket) {
+            throw new Error(`Task ${task.id} is not a basket task`);
+        }
+        const spec: BasketTaskSpec = { ...task.basket, legs: task.basket.legs.map(leg => ({ ...leg })) };
+
+        if (task.status !== 'PENDING') {
+            console.log(`[BasketExecutor] Task ${task.id}: 恢复 (${task.status})，对账已提交订单后回滚`);
+            await this.reconcileLegs(task, spec);
+            await this.finish(task, spec, false);
+            return;
+        }
+
+        // 1. 重新核算可成交组数
+        const plan = await this.planQuantity(task, spec);
+        if (!plan.ok) {
+            await this.cancelWithoutFills(task, 'COST_INVALID', plan.reason);
+            return;
+        }
+
+        // 2. 账户级风控: 按重新核算后的各腿份数 / 限价 + 手续费复核 (扣除创建时已计入的计划敞口)
+        const riskManager = getRiskManager();
+        if (riskManager) {
+            const riskCheck = riskManager.check({
+                ...getBasketRiskIntent(task.marketId, spec.legs, plan.quantity),
+                newTask: false,
+                replaces: getTaskRiskIntent(task),
+            });
+            if (!riskCheck.allowed) {
+                throw new Error(`Risk limit: ${riskCheck.reason}`);
+            }
+        }
+
+        console.log(`[BasketExecutor] Task ${task.id}: ${spec.side} 篮子 ${spec.legs.length} 腿, ` +
+            `数量 ${plan.quantity}, 预估每组成本 ${plan.unitCost.toFixed(4)} (上限 ${spec.maxUnitCost})`);
+        this.updateTask(task.id, { status: 'HEDGING', basket: spec });
+
+        // 3. 按深度从小到大依次下单
+        let target = plan.quantity;
+        let allLegsFilled = true;
+        for (const index of plan.order) {
+            if (signal.aborted) {
+                console.log(`[BasketExecutor] Task ${task.id}: 已取消，停止下单`);
+                allLegsFilled = false;
+                break;
+            }
+            const leg = spec.legs[index];
+            let fill: LegFill;
+            let unresolved = false;
+            try {
+                fill = leg.venue === 'predict'
+                    ? await this.buyPredictLeg(task, spec, leg, target)
+                    : await this.buyPolymarketLeg(task, spec, leg, target);
+            } catch (error: any) {
+                // 已成交的腿仍需回滚，不能直接抛出；已下单的腿以订单最终状态为准
+                fill = { filledQty: 0, avgPrice: 0, cost: 0, orderId: leg.orderId, error: error.message };
+                if (leg.state === 'SUBMITTED') {
+                    try {
+                        await this.reconcileLeg(leg);
+                        fill = { filledQty: leg.filledQty, avgPrice: leg.fillAvgPrice, cost: leg.cost, orderId: leg.orderId, error: error.message };
+                    } catch (reconcileError: any) {
+                        // 保持 SUBMITTED，由重启恢复 / 人工继续对账
+                        unresolved = true;
+                        console.warn(`[BasketExecutor] Task ${task.id}: 对账失败 ${leg.outcome.name}@${leg.venue}: ${reconcileError.message}`);
+                    }
+                }
+            }
+
+            leg.orderId = fill.orderId ?? leg.orderId;
+            if (!unresolved) leg.state = 'SETTLED';
+            leg.filledQty = fill.filledQty;
+            leg.fillAvgPrice = fill.avgPrice;
+            leg.cost = fill.cost;
+            leg.error = fill.error;
+            this.updateTask(task.id, { basket: spec });
+
+            if (fill.filledQty <= 0) {
+                console.warn(`[BasketExecutor] Task ${task.id}: ${leg.outcome.name} (${leg.venue}) 未成交${fill.error ? `: ${fill.error}` : ''}，停止下单`);
+                allLegsFilled = false;
+                break;
+            }
+            target = Math.min(target, fill.filledQty);
+        }
+
+        // 4. 回滚多余份数并结算
+        await this.finish(task, spec, allLegsFilled, signal.aborted);
+    }
+
+    // ========================================================================
+    // 下单前核算
+    // ========================================================================
+
+    private async planQuantity(task: Task, spec: BasketTaskSpec): Promise<
+        | { ok: true; quantity: number; unitCost: number; order: number[] }
+        | { ok: false; reason: string }
+    > {
+        const books = await Promise.all(spec.legs.map(leg => this.fetchLegBook(leg)));
+        const ladderLegs = spec.legs.map((leg, i) => ({
+            asks: basketLegAsks(leg.venue, spec.side, books[i]),
+            feePerShare: basketLegFee(leg.outcome, leg.venue),
+        }));
+        const missing = spec.legs.filter((_, i) => ladderLegs[i].asks.length === 0);
+        if (missing.length > 0) {
+            return { ok: false, reason: `订单簿为空: ${missing.map(l => `${l.outcome.name}@${l.venue}`).join(', ')}` };
+        }
+
+        const ladder = walkBasketLadder(ladderLegs, spec.payout, spec.maxUnitCost + EPSILON, task.quantity);
+        const quantity = floorShares(ladder.quantity);
+        if (quantity <= 0) {
+            return { ok: false, reason: `每组成本 ${ladder.bestUnitCost.toFixed(4)} 超过上限 ${spec.maxUnitCost}` };
+        }
+
+        // 扫单限价更新为最新最深使用档
+        spec.legs.forEach((leg, i) => {
+            leg.limitPrice = ladder.legs[i].worstPrice;
+            leg.bestPrice = ladder.legs[i].bestPrice;
+            leg.avgPrice = ladder.legs[i].avgPrice;
+            leg.feePerShare = ladder.legs[i].avgFee;
+        });
+
+        const tooSmall = spec.legs.filter(leg => quantity * leg.limitPrice
+            < (leg.venue === 'predict' ? PREDICT_MIN_NOTIONAL : POLY_MIN_NOTIONAL));
+        if (tooSmall.length > 0) {
+            return { ok: false, reason: `低于最小下单金额: ${tooSmall.map(l => `${l.outcome.name}@${l.venue}`).join(', ')}` };
+        }
+
+        // 限价内深度最小的腿先下
+        const depthWithinLimit = ladderLegs.map((leg, i) => leg.asks
+            .filter(level => level.price <= spec.legs[i].limitPrice + EPSILON)
+            .reduce((sum, level) => sum + level.size, 0));
+        const order = spec.legs.map((_, i) => i).sort((a, b) => depthWithinLimit[a] - depthWithinLimit[b]);
+
+        return { ok: true, quantity, unitCost: ladder.avgCost, order };
+    }
+
+    private async fetchLegBook(leg: BasketTaskLeg): Promise<Book | null> {
+        try {
+            if (leg.venue === 'predict') {
+                const book = await this.predictTrader.getOrderbook(leg.outcome.predictMarketId);
+                if (!book) return null;
+                return {
+                    bids: book.bids.map(([price, size]) => ({ price, size })),
+                    asks: book.asks.map(([price, size]) => ({ price, size })),
+                };
+            }
+            return await this.polyTrader.getOrderbook(leg.outcome.noTokenId);
+        } catch (error: any) {
+            console.warn(`[BasketExecutor] 订单簿获取失败 ${leg.outcome.name}@${leg.venue}: ${error.message}`);
+            return null;
+        }
+    }
+
+    // ========================================================================
+    // 单腿下单
+    // ========================================================================
+
+    /**
+     * Predict 腿: LIMIT @ 扫单限价，超时撤单
+     * taker fee 从到账份数中扣除，下单数量按费率放大以保证到账 target 份
+     */
+    private async buyPredictLeg(task: Task, spec: BasketTaskSpec, leg: BasketTaskLeg, target: number): Promise<LegFill> {
+        const side = spec.side;
+        const context = { marketId: leg.outcome.predictMarketId };
+        const feeShare = basketLegFee(leg.outcome, 'predict')(leg.limitPrice) / leg.limitPrice;
+        const quantity = Math.ceil(target / (1 - feeShare) * 100) / 100;
+
+        const result = await this.predictTrader.placeOrder({
+            marketId: leg.outcome.predictMarketId,
+            side: 'BUY',
+            price: leg.limitPrice,
+            quantity,
+            outcome: side,
+        });
+        if (!result.success || !result.hash) {
+            await this.logLegOrder(task, leg, side, 'BUY', 'ORDER_FAILED', '', quantity, 0, 0, result.error);
+            return { filledQty: 0, avgPrice: 0, cost: 0, error: result.error || 'Predict 下单失败' };
+        }
+        this.markLegSubmitted(task, spec, leg, result.hash, { currentOrderHash: result.hash });
+        await this.logLegOrder(task, leg, side, 'BUY', 'ORDER_SUBMITTED', result.hash, quantity, 0, 0);
+
+        const status = await this.settlePredictOrder(result.hash);
+        this.updateTask(task.id, { currentOrderHash: undefined });
+
+        const avgPrice = status.avgPrice || leg.limitPrice;
+        const filledQty = calculateActualSharesReceived(status.filledQty, avgPrice, leg.outcome.feeRateBps, context);
+        await this.logLegOrder(task, leg, side, 'BUY', filledQty > 0 ? 'ORDER_FILLED' : 'ORDER_CANCELLED',
+            result.hash, quantity, status.filledQty, avgPrice);
+
+        return { filledQty, avgPrice, cost: status.filledQty * avgPrice, orderId: result.hash };
+    }
+
+    /**
+     * Polymarket 腿: IOC @ 扫单限价
+     */
+    private async buyPolymarketLeg(task: Task, spec: BasketTaskSpec, leg: BasketTaskLeg, target: number): Promise<LegFill> {
+        const side = spec.side;
+        const quantity = floorShares(target);
+        const tokenId = side === 'YES' ? leg.outcome.yesTokenId : leg.outcome.noTokenId;
+
+        const result = await this.polyTrader.placeOrder({
+            tokenId,
+            side: 'BUY',
+            price: leg.limitPrice,
+            quantity,
+            orderType: 'IOC',
+            negRisk: leg.outcome.negRisk ?? true,
+            outcome: side,
+            outcomeName: leg.outcome.name,
+            marketTitle: task.title,
+            conditionId: leg.outcome.conditionId,
+        });
+        if (!result.success || !result.orderId) {
+            await this.logLegOrder(task, leg, side, 'BUY', 'ORDER_FAILED', '', quantity, 0, 0, result.error);
+            return { filledQty: 0, avgPrice: 0, cost: 0, error: result.error || 'Polymarket 下单失败' };
+        }
+        this.markLegSubmitted(task, spec, leg, result.orderId, { currentPolyOrderId: result.orderId });
+
+        const status = await this.settlePolymarketOrder(result.orderId);
+        this.updateTask(task.id, { currentPolyOrderId: undefined });
+
+        const filledQty = floorShares(status.filledQty);
+        const avgPrice = status.avgPrice || leg.limitPrice;
+        const fee = basketLegFee(leg.outcome, 'polymarket')(avgPrice);
+        await this.logLegOrder(task, leg, side, 'BUY', filledQty > 0 ? 'ORDER_FILLED' : 'ORDER_CANCELLED',
+            result.orderId, quantity, filledQty, avgPrice);
+
+        return { filledQty, avgPrice, cost: filledQty * (avgPrice + fee), orderId: result.orderId };
+    }
+
+    /**
+     * 下单成功后立即持久化腿的订单 ID (轮询期间进程重启时可对账，不会遗忘已成交的腿)
+     */
+    private markLegSubmitted(task: Task, spec: BasketTaskSpec, leg: BasketTaskLeg, orderId: string, updates: Partial<Task>): void {
+        leg.orderId = orderId;
+        leg.state = 'SUBMITTED';
+        this.updateTask(task.id, { ...updates, basket: spec });
+    }
+
+    /**
+     * 等待 Predict 订单终态: 超时撤单后以最终状态为准
+     */
+    private async settlePredictOrder(hash: string): Promise<{ filledQty: number; avgPrice: number }> {
+        const polled = await this.predictTrader.pollOrderUntilFilled(hash, BASKET_ORDER_TIMEOUT_MS, BASKET_POLL_INTERVAL_MS);
+        if (polled?.status === 'FILLED') {
+            return { filledQty: polled.filledQty, avgPrice: polled.avgPrice };
+        }
+        try {
+            await this.predictTrader.cancelOrder(hash);
+        } catch (error: any) {
+            console.warn(`[BasketExecutor] 撤单失败 ${hash.slice(0, 20)}...: ${error.message}`);
+        }
+        const final = await this.predictTrader.getOrderStatus(hash) ?? polled;
+        return { filledQty: final?.filledQty ?? 0, avgPrice: final?.avgPrice ?? 0 };
+    }
+
+    /**
+     * 等待 Polymarket IOC 终态: 仍为 LIVE 时撤单后重新查询
+     */
+    private async settlePolymarketOrder(orderId: string): Promise<{ filledQty: number; avgPrice: number }> {
+        let status = await this.polyTrader.pollOrderStatus(orderId, 5, 100)
+            ?? await this.polyTrader.getOrderStatus(orderId);
+        if (status?.status === 'LIVE') {
+            try {
+                await this.polyTrader.cancelOrder(orderId, { skipTelegram: true });
+            } catch (error: any) {
+                console.warn(`[BasketExecutor] IOC 撤单失败 ${orderId.slice(0, 10)}...: ${error.message}`);
+            }
+            status = await this.polyTrader.getOrderStatus(orderId) ?? status;
+        }
+        return { filledQty: status?.filledQty ?? 0, avgPrice: status?.avgPrice ?? 0 };
+    }
+
+    // ========================================================================
+    // 回滚与结算
+    // ========================================================================
+
+    /**
+     * 重启恢复: 以各腿订单的最终状态为准
+     * 腿未记录订单 ID 时 (旧版任务记录)，下单阶段的 currentOrderHash / currentPolyOrderId 归属于首个未结算的同平台腿
+     */
+    private async reconcileLegs(task: Task, spec: BasketTaskSpec): Promise<void> {
+        if (task.status === 'HEDGING') {
+            const pending = { predict: task.currentOrderHash, polymarket: task.currentPolyOrderId };
+            for (const venue of ['predict', 'polymarket'] as const) {
+                const orderId = pending[venue];
+                if (!orderId || spec.legs.some(leg => leg.orderId === orderId)) continue;
+                const leg = spec.legs.find(l => l.venue === venue && !l.orderId && l.state !== 'SETTLED');
+                if (leg) {
+                    console.log(`[BasketExecutor] Task ${task.id}: ${leg.outcome.name}@${venue} 使用在途订单 ${orderId.slice(0, 20)}... 对账`);
+                    leg.orderId = orderId;
+                    leg.state = 'SUBMITTED';
+                }
+            }
+        }
+
+        for (const leg of spec.legs) {
+            if (!leg.orderId) continue;
+            try {
+                await this.reconcileLeg(leg);
+            } catch (error: any) {
+                console.warn(`[BasketExecutor] Task ${task.id}: 对账失败 ${leg.outcome.name}@${leg.venue}: ${error.message}`);
+            }
+        }
+        this.updateTask(task.id, { basket: spec, currentOrderHash: undefined, currentPolyOrderId: undefined });
+    }
+
+    /**
+     * 按订单最终状态 (仍挂单时先撤单) 重算单腿成交
+     */
+    private async reconcileLeg(leg: BasketTaskLeg): Promise<void> {
+        if (!leg.orderId) return;
+        if (leg.venue === 'predict') {
+            const status = await this.settlePredictOrder(leg.orderId);
+            const avgPrice = status.avgPrice || leg.fillAvgPrice || leg.limitPrice;
+            leg.filledQty = calculateActualSharesReceived(status.filledQty, avgPrice, leg.outcome.feeRateBps,
+                { marketId: leg.outcome.predictMarketId });
+            leg.fillAvgPrice = avgPrice;
+            leg.cost = status.filledQty * avgPrice;
+        } else {
+            const status = await this.settlePolymarketOrder(leg.orderId);
+            const avgPrice = status.avgPrice || leg.fillAvgPrice || leg.limitPrice;
+            leg.filledQty = floorShares(status.filledQty);
+            leg.fillAvgPrice = avgPrice;
+            leg.cost = leg.filledQty * (avgPrice + basketLegFee(leg.outcome, 'polymarket')(avgPrice));
+        }
+        leg.state = 'SETTLED';
+    }
+
+    /**
+     * 回滚多余份数并写入最终状态
+     * @param allLegsFilled - 每条腿都有成交 (否则没有完整组，全部回滚)
+     */
+    private async finish(task: Task, spec: BasketTaskSpec, allLegsFilled: boolean, cancelled = false): Promise<void> {
+        const legsComplete = allLegsFilled || spec.legs.every(leg => leg.orderId && leg.filledQty > 0);
+        const setQty = legsComplete
+            ? floorShares(Math.min(...spec.legs.map(leg => leg.filledQty - leg.unwoundQty)))
+            : 0;
+        const anyFilled = spec.legs.some(leg => leg.filledQty > 0);
+        const anyUnresolved = spec.legs.some(leg => leg.state === 'SUBMITTED');
+
+        if (!anyFilled && !anyUnresolved) {
+            await this.cancelWithoutFills(task, cancelled ? 'USER_CANCELLED' : 'ORDER_TIMEOUT',
+                spec.legs.find(leg => leg.error)?.error ?? '首腿未成交');
+            return;
+        }
+
+        // 回滚: 各腿超出完整组数的部分
+        const excessLegs = spec.legs.filter(leg => leg.filledQty - leg.unwoundQty - setQty > 0);
+        const unhedgedQty = excessLegs.reduce((sum, leg) => sum + leg.filledQty - leg.unwoundQty - setQty, 0);
+        if (excessLegs.length > 0) {
+            this.updateTask(task.id, { status: 'UNWINDING', basket: spec });
+            await this.taskLogger.logUnwindEvent(task.id, 'UNWIND_STARTED', {
+                unhedgedQty,
+                unwoundQty: 0,
+                estimatedLoss: 0,
+                retryCount: 0,
+            });
+            for (const leg of excessLegs) {
+                await this.unwindLeg(task, spec, leg, setQty);
+            }
+        }
+
+        // 残余敞口 (零头低于最小下单金额，不计入失败)
+        const residual = spec.legs.filter(leg => {
+            const qty = leg.filledQty - leg.unwoundQty - setQty;
+            return qty > 0 && qty * leg.limitPrice >= (leg.venue === 'predict' ? PREDICT_MIN_NOTIONAL : POLY_MIN_NOTIONAL);
+        });
+
+        const unwindQty = spec.legs.reduce((sum, leg) => sum + leg.unwoundQty, 0);
+        const unwindLoss = spec.legs.reduce((sum, leg) =>
+            sum + leg.unwoundQty * (legCostPerShare(leg) - leg.unwindAvgPrice), 0);
+        const unitCost = spec.legs.reduce((sum, leg) => sum + legCostPerShare(leg), 0);
+        const actualProfit = setQty * (spec.payout - unitCost);
+
+        let status: TaskStatus;
+        let error: string | undefined;
+        const unresolvedLegs = spec.legs.filter(leg => leg.state === 'SUBMITTED');
+        if (unresolvedLegs.length > 0) {
+            status = 'HEDGE_FAILED';
+            error = `订单状态未确认: ${unresolvedLegs.map(leg => `${leg.outcome.name}@${leg.venue} ${leg.orderId}`).join(', ')}`;
+        } else if (residual.length > 0) {
+            status = 'HEDGE_FAILED';
+            error = `回滚未完成: ${residual.map(leg => `${leg.outcome.name}@${leg.venue} ` +
+                `${(leg.filledQty - leg.unwoundQty - setQty).toFixed(2)}`).join(', ')}`;
+        } else {
+            status = setQty > 0 ? 'COMPLETED' : 'UNWIND_COMPLETED';
+        }
+
+        if (excessLegs.length > 0) {
+            await this.taskLogger.logUnwindEvent(task.id, residual.length > 0 ? 'UNWIND_FAILED' : 'UNWIND_COMPLETED', {
+                unhedgedQty,
+                unwoundQty: unwindQty,
+                estimatedLoss: unwindLoss,
+                retryCount: BASKET_UNWIND_RETRIES,
+            });
+        }
+
+        this.updateTask(task.id, {
+            status,
+            basket: spec,
+            predictFilledQty: setQty,
+            hedgedQty: setQty,
+            remainingQty: Math.max(0, task.quantity - setQty),
+            unwindQty,
+            unwindLoss,
+            actualProfit,
+            currentOrderHash: undefined,
+            currentPolyOrderId: undefined,
+            completedAt: Date.now(),
+            ...(error ? { error } : {}),
+        });
+        await this.taskLogger.logTaskLifecycle(task.id, status === 'HEDGE_FAILED' ? 'TASK_FAILED' : 'TASK_COMPLETED', {
+            status,
+            reason: error ?? `完成 ${setQty} 组，回滚 ${unwindQty.toFixed(2)} 份`,
+            profit: actualProfit,
+            profitPercent: unitCost > 0 ? (spec.payout - unitCost) / unitCost * 100 : 0,
+            duration: Date.now() - task.createdAt,
+        });
+        console.log(`[BasketExecutor] Task ${task.id}: ${status}, 完成 ${setQty} 组, 利润 $${actualProfit.toFixed(4)}, ` +
+            `回滚 ${unwindQty.toFixed(2)} 份 (损失 $${unwindLoss.toFixed(4)})`);
+    }
+
+    /**
+     * 卖出单腿超出完整组数的份数 (best bid，最多重试 BASKET_UNWIND_RETRIES 次)
+     */
+    private async unwindLeg(task: Task, spec: BasketTaskSpec, leg: BasketTaskLeg, setQty: number): Promise<void> {
+        const minNotional = leg.venue === 'predict' ? PREDICT_MIN_NOTIONAL : POLY_MIN_NOTIONAL;
+
+        for (let attempt = 1; attempt <= BASKET_UNWIND_RETRIES; attempt++) {
+            const quantity = floorShares(leg.filledQty - leg.unwoundQty - setQty);
+            if (quantity <= 0) return;
+
+            const book = await this.fetchLegBook(leg);
+            const bid = this.bestBid(leg, spec.side, book);
+            if (bid <= 0 || quantity * bid < minNotional) {
+                console.warn(`[BasketExecutor] Task ${task.id}: ${leg.outcome.name}@${leg.venue} 无法回滚 ` +
+                    `${quantity} 份 (bid=${bid}, 低于最小下单金额或无买单)`);
+                leg.error = `回滚跳过: bid=${bid}`;
+                if (bid > 0) return;    // 零头，保留
+            } else {
+                const sold = leg.venue === 'predict'
+                    ? await this.sellPredict(task, spec.side, leg, bid, quantity)
+                    : await this.sellPolymarket(task, spec.side, leg, bid, quantity);
+                if (sold.filledQty > 0) {
+                    const proceeds = leg.unwoundQty * leg.unwindAvgPrice + sold.filledQty * sold.avgPrice;
+                    leg.unwoundQty = floorShares(leg.unwoundQty + sold.filledQty);
+                    leg.unwindAvgPrice = leg.unwoundQty > 0 ? proceeds / leg.unwoundQty : 0;
+                    leg.error = undefined;
+                    this.updateTask(task.id, { basket: spec });
+                    await this.taskLogger.logUnwindEvent(task.id, 'UNWIND_PARTIAL', {
+                        unhedgedQty: quantity,
+                        unwoundQty: sold.filledQty,
+                        estimatedLoss: sold.filledQty * (legCostPerShare(leg) - sold.avgPrice),
+                        retryCount: attempt,
+                    });
+                }
+            }
+            if (attempt < BASKET_UNWIND_RETRIES) {
+                await new Promise(resolve => setTimeout(resolve, UNWIND_RETRY_DELAY_MS));
+            }
+        }
+    }
+
+    /**
+     * 单腿 best bid (卖出持有的 YES / NO)
+     */
+    private bestBid(leg: BasketTaskLeg, side: BasketSide, book: Book | null): number {
+        if (!book) return 0;
+        // Predict 为 YES 订单簿，Polymarket 为 NO 订单簿；持有另一侧时 bid = 1 - ask
+        const holdsBookToken = leg.venue === 'predict' ? side === 'YES' : side === 'NO';
+        if (holdsBookToken) {
+            return Math.max(0, ...book.bids.map(level => level.price));
+        }
+        const bestAsk = Math.min(...book.asks.map(level => level.price));
+        return Number.isFinite(bestAsk) ? Number((1 - bestAsk).toFixed(4)) : 0;
+    }
+
+    private async sellPredict(task: Task, side: BasketSide, leg: BasketTaskLeg, price: number, quantity: number): Promise<{ filledQty: number; avgPrice: number }> {
+        const result = await this.predictTrader.placeOrder({
+            marketId: leg.outcome.predictMarketId,
+            side: 'SELL',
+            price,
+            quantity,
+            outcome: side,
+        });
+        if (!result.success || !result.hash) {
+            await this.logLegOrder(task, leg, side, 'SELL', 'ORDER_FAILED', '', quantity, 0, 0, result.error);
+            return { filledQty: 0, avgPrice: 0 };
+        }
+        this.updateTask(task.id, { currentOrderHash: result.hash });
+        const status = await this.settlePredictOrder(result.hash);
+        this.updateTask(task.id, { currentOrderHash: undefined });
+        const avgPrice = status.avgPrice || price;
+        await this.logLegOrder(task, leg, side, 'SELL', status.filledQty > 0 ? 'ORDER_FILLED' : 'ORDER_CANCELLED',
+            result.hash, quantity, status.filledQty, avgPrice);
+        return { filledQty: status.filledQty, avgPrice };
+    }
+
+    private async sellPolymarket(task: Task, side: BasketSide, leg: BasketTaskLeg, price: number, quantity: number): Promise<{ filledQty: number; avgPrice: number }> {
+        const result = await this.polyTrader.placeOrder({
+            tokenId: side === 'YES' ? leg.outcome.yesTokenId : leg.outcome.noTokenId,
+            side: 'SELL',
+            price,
+            quantity,
+            orderType: 'IOC',
+            negRisk: leg.outcome.negRisk ?? true,
+            outcome: side,
+            outcomeName: leg.outcome.name,
+            marketTitle: task.title,
+            conditionId: leg.outcome.conditionId,
+        });
+        if (!result.success || !result.orderId) {
+            await this.logLegOrder(task, leg, side, 'SELL', 'ORDER_FAILED', '', quantity, 0, 0, result.error);
+            return { filledQty: 0, avgPrice: 0 };
+        }
+        const status = await this.settlePolymarketOrder(result.orderId);
+        const avgPrice = status.avgPrice || price;
+        await this.logLegOrder(task, leg, side, 'SELL', status.filledQty > 0 ? 'ORDER_FILLED' : 'ORDER_CANCELLED',
+            result.orderId, quantity, status.filledQty, avgPrice);
+        return { filledQty: floorShares(status.filledQty), avgPrice };
+    }
+
+    // ========================================================================
+    // 工具函数
+    // ========================================================================
+
+    /**
+     * 无任何成交时结束任务
+     */
+    private async cancelWithoutFills(task: Task, cancelReason: NonNullable<Task['cancelReason']>, reason: string): Promise<void> {
+        console.log(`[BasketExecutor] Task ${task.id}: 取消 (${cancelReason}) ${reason}`);
+        this.updateTask(task.id, {
+            status: 'CANCELLED',
+            cancelReason,
+            error: reason,
+            currentOrderHash: undefined,
+            currentPolyOrderId: undefined,
+            completedAt: Date.now(),
+        });
+        await this.taskLogger.logTaskLifecycle(task.id, 'TASK_CANCELLED', {
+            status: 'CANCELLED',
+            reason,
+            cancelReason,
+        });
+    }
+
+    private async logLegOrder(
+        task: Task,
+        leg: BasketTaskLeg,
+        outcome: BasketSide,
+        side: 'BUY' | 'SELL',
+        type: 'ORDER_SUBMITTED' | 'ORDER_FILLED' | 'ORDER_CANCELLED' | 'ORDER_FAILED',
+        orderId: string,
+        quantity: number,
+        filledQty: number,
+        avgPrice: number,
+        error?: string
+    ): Promise<void> {
+        await this.taskLogger.logOrderEvent(task.id, type, {
+            platform: leg.venue,
+            orderId,
+            side,
+            outcome,
+            price: side === 'BUY' ? leg.limitPrice : avgPrice,
+            quantity,
+            filledQty,
+            remainingQty: Math.max(0, quantity - filledQty),
+            avgPrice,
+            title: `${task.title} / ${leg.outcome.name}`,
+            ...(error ? { error: { errorType: 'OrderSubmitFailed', message: error } } : {}),
+        });
+    }
+}
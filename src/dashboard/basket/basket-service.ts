@@ -0,0 +1,196 @@
+/**
+ * BasketService - negRisk 事件篮子套利机会
+ *
+ * - setPairs: 启动时由市场对聚合事件
+ * - refreshCompleteness: 后台检查选项集合完整性 (YES 篮子前提)
+ * - recompute: 基于注入的订单簿缓存计算 YES / NO 篮子机会
+ * - buildTaskInput: 把机会转换为篮子任务 (由 TaskExecutor 路由到 BasketExecutor)
+ */
+
+import { EventEmitter } from 'events';
+import type { CreateTaskInput } from '../types.js';
+import { calculateBasketOpportunities } from './basket-calculator.js';
+import {
+    checkBasketEventCompleteness,
+    groupBasketEvents,
+    isCompletenessStale,
+    type BasketPairSource,
+} from './basket-events.js';
+import type {
+    BasketBookProvider,
+    BasketCreateTaskParams,
+    BasketEvent,
+    BasketOpportunity,
+    BasketOutcome,
+    BasketTaskSizing,
+    BasketTaskSpec,
+} from './types.js';
+
+const DEFAULT_COST_BUFFER = 0.005;               // 默认每组成本上限 = payout - 0.005
+const BASKET_ORDER_TIMEOUT_MS = Number(process.env.BASKET_ORDER_TIMEOUT_MS) || 15000;
+
+export class BasketService extends EventEmitter {
+    private events = new Map<string, BasketEvent>();
+    private opportunities: BasketOpportunity[] = [];
+    private bookProvider: BasketBookProvider | null = null;
+    private tradableFilter: (outcome: BasketOutcome) => boolean = () => true;
+    private checking = false;
+
+    /**
+     * 由市场对聚合事件 (选项集合未变的事件保留完整性检查结果)
+     */
+    setPairs(pairs: BasketPairSource[]): void {
+        const next = new Map<string, BasketEvent>();
+        for (const event of groupBasketEvents(pairs)) {
+            const previous = this.events.get(event.key);
+            const sameOutcomes = previous
+                && previous.outcomes.length === event.outcomes.length
+                && previous.outcomes.every(o => event.outcomes.some(n => n.predictMarketId === o.predictMarketId));
+            next.set(event.key, sameOutcomes ? { ...event, complete: previous.complete, incompleteReason: previous.incompleteReason, checkedAt: previous.checkedAt } : event);
+        }
+        this.events = next;
+        console.log(`[BasketService] ${next.size} 个 negRisk 事件 (${pairs.length} 个市场对)`);
+    }
+
+    setBookProvider(provider: BasketBookProvider): void {
+        this.bookProvider = provider;
+    }
+
+    /**
+     * 运行中被拉黑 / 改映射的选项: 所在事件整体跳过 (缺腿会改变兑付)
+     */
+    setTradableFilter(filter: (outcome: BasketOutcome) => boolean): void {
+        this.tradableFilter = filter;
+    }
+
+    getEvents(): BasketEvent[] {
+        return Array.from(this.events.values());
+    }
+
+    getOpportunities(): BasketOpportunity[] {
+        return this.opportunities;
+    }
+
+    getOpportunity(id: string): BasketOpportunity | undefined {
+        return this.opportunities.find(o => o.id === id);
+    }
+
+    /**
+     * 检查过期事件的选项完整性 (串行，避免限流)
+     */
+    async refreshCompleteness(apiKey: string): Promise<void> {
+        if (this.checking) return;
+        this.checking = true;
+        try {
+            let checked = 0;
+            let complete = 0;
+            for (const event of this.events.values()) {
+                if (!isCompletenessStale(event)) continue;
+                await checkBasketEventCompleteness(event, apiKey);
+                checked++;
+                if (event.complete) complete++;
+            }
+            if (checked > 0) {
+                console.log(`[BasketService] 完整性检查 ${checked} 个事件，完整 ${complete} 个`);
+            }
+        } finally {
+            this.checking = false;
+        }
+    }
+
+    /**
+     * 重新计算篮子机会
+     */
+    recompute(maxQuantity: number = Infinity): BasketOpportunity[] {
+        if (!this.bookProvider) return this.opportunities;
+        const events = this.getEvents().filter(event => event.outcomes.every(this.tradableFilter));
+        this.opportunities = calculateBasketOpportunities(events, this.bookProvider, maxQuantity);
+        this.emit('opportunities', this.opportunities);
+        return this.opportunities;
+    }
+
+    /**
+     * 机会 → 任务创建参数
+     */
+    buildTaskInput(params: BasketCreateTaskParams): CreateTaskInput {
+        const opportunity = this.getOpportunity(params.id);
+        if (!opportunity) {
+            throw new Error(`篮子机会不存在或已失效: ${params.id}`);
+        }
+        return buildBasketTaskInput(opportunity, params, `[${opportunity.side} 篮子] ${opportunity.title}`);
+    }
+}
+
+/**
+ * 篮子机会 → 任务创建参数 (negRisk 事件篮子 / 足球 1X2 共用)
+ * 首腿市场作为任务的 marketId / conditionId (锁与风控按首腿记账)
+ */
+export function buildBasketTaskInput(
+    opportunity: BasketOpportunity,
+    params: BasketTaskSizing,
+    title: string
+): CreateTaskInput {
+    if (!(params.quantity > 0)) {
+        throw new Error('quantity must be positive');
+    }
+    const maxUnitCost = params.maxUnitCost ?? opportunity.payout - DEFAULT_COST_BUFFER;
+    if (!(maxUnitCost > 0) || maxUnitCost >= opportunity.payout) {
+        throw new Error(`maxUnitCost 必须在 (0, ${opportunity.payout}) 之间`);
+    }
+
+    const basket: BasketTaskSpec = {
+        eventKey: opportunity.eventKey,
+        side: opportunity.side,
+        payout: opportunity.payout,
+        maxUnitCost,
+        legs: opportunity.legs.map(({ alternativePrice: _alternative, ...plan }) => ({
+            ...plan,
+            state: 'PENDING',
+            filledQty: 0,
+            fillAvgPrice: 0,
+            cost: 0,
+            unwoundQty: 0,
+            unwindAvgPrice: 0,
+        })),
+    };
+    const first = basket.legs[0].outcome;
+
+    return {
+        type: 'BUY',
+        strategy: 'TAKER',
+        marketId: first.predictMarketId,
+        title,
+        polymarketConditionId: first.conditionId,
+        polymarketNoTokenId: first.noTokenId,
+        polymarketYesTokenId: first.yesTokenId,
+        isInverted: false,
+        tickSize: first.tickSize,
+        negRisk: first.negRisk ?? true,
+        arbSide: opportunity.side,
+        predictPrice: 0,
+        polymarketMaxAsk: 0,
+        polymarketMinBid: 0,
+        maxTotalCost: maxUnitCost,
+        quantity: params.quantity,
+        minProfitBuffer: DEFAULT_COST_BUFFER,
+        orderTimeout: BASKET_ORDER_TIMEOUT_MS,
+        maxHedgeRetries: 3,
+        feeRateBps: first.feeRateBps,
+        quoteSlot: 'basket',
+        accountId: params.accountId,
+        basket,
+    };
+}
+
+// ============================================================================
+// 单例
+// ============================================================================
+
+let basketServiceInstance: BasketService | null = null;
+
+export function getBasketService(): BasketService {
+    if (!basketServiceInstance) {
+        basketServiceInstance = new BasketService();
+    }
+    return basketServiceInstance;
+}
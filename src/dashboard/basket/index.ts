@@ -0,0 +1,26 @@
+/**
+ * 多选项事件篮子套利模块导出
+ *
+ * negRisk 事件 N 个互斥选项各买一份 (每腿 Predict / Polymarket 择优)，
+ * YES 篮子兑付 1、NO 篮子兑付 N - 1；篮子任务由 TaskExecutor 路由到 BasketExecutor。
+ */
+
+// 类型导出
+export * from './types.js';
+
+export { BasketService, buildBasketTaskInput, getBasketService } from './basket-service.js';
+export { BasketExecutor } from './basket-executor.js';
+export type { BasketExecutorDeps } from './basket-executor.js';
+export {
+    basketLegAsks,
+    basketLegFee,
+    basketPayout,
+    calculateBasketOpportunities,
+    calculateBasketOpportunity,
+} from './basket-calculator.js';
+export {
+    checkBasketEventCompleteness,
+    groupBasketEvents,
+    isCompletenessStale,
+    type BasketPairSource,
+} from './basket-events.js';
@@ -0,0 +1,136 @@
+/**
+ * 多选项事件篮子套利类型定义
+ *
+ * negRisk 事件 (选举、锦标赛、"谁会赢") 的 N 个选项互斥，恰好一个结算为 YES：
+ * - YES 篮子: 每个选项各买 1 份 YES，兑付 1 (要求选项集合完整)
+ * - NO 篮子:  每个选项各买 1 份 NO，兑付 N - 1 (至多一个 YES，选项不完整时兑付只会更高)
+ * 每条腿在 Predict / Polymarket 中择优 (含手续费的有效价格更低者)。
+ */
+
+import type { OrderBookLevel } from '../../trading/depth-calculator.js';
+
+export type BasketVenue = 'predict' | 'polymarket';
+
+/** YES 篮子 / NO 篮子 */
+export type BasketSide = 'YES' | 'NO';
+
+/**
+ * 事件中的一个选项 (一个已映射的 Predict ↔ Polymarket 市场对)
+ */
+export interface BasketOutcome {
+    predictMarketId: number;
+    name: string;                    // 选项名 (Predict 市场标题)
+    conditionId: string;
+    yesTokenId: string;
+    noTokenId: string;
+    feeRateBps: number;              // Predict taker 费率
+    tickSize: number;                // Polymarket tick size
+    negRisk?: boolean;               // Polymarket negRisk (缺省 true)
+}
+
+/**
+ * negRisk 事件 (按 Predict categorySlug 聚合)
+ */
+export interface BasketEvent {
+    key: string;                     // Predict categorySlug
+    title: string;
+    outcomes: BasketOutcome[];
+    /**
+     * 选项集合是否完整: 两个平台上未结算的选项都已全部映射。
+     * 未确认 (null) 或不完整时只计算 NO 篮子。
+     */
+    complete: boolean | null;
+    incompleteReason?: string;
+    checkedAt?: number;
+}
+
+/**
+ * 订单簿来源 (由启动入口注入 WS / REST 缓存)
+ * Polymarket 订单簿为 NO token 的订单簿
+ */
+export interface BasketBookProvider {
+    getPredictBook(marketId: number): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } | null;
+    getPolymarketNoBook(tokenId: string): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } | null;
+}
+
+/**
+ * 单腿计划 (机会计算 / 任务创建时确定)
+ */
+export interface BasketLegPlan {
+    outcome: BasketOutcome;
+    venue: BasketVenue;
+    limitPrice: number;              // 扫单限价 (最深使用档)
+    bestPrice: number;               // 首档价格
+    avgPrice: number;                // 预估成交均价
+    feePerShare: number;             // 预估每份手续费
+    alternativePrice?: number;       // 另一平台首档价格 (展示用)
+}
+
+/**
+ * 篮子套利机会
+ */
+export interface BasketOpportunity {
+    id: string;                      // `${eventKey}:${side}`
+    eventKey: string;
+    title: string;
+    side: BasketSide;
+    payout: number;                  // 每组兑付金额
+    unitCost: number;                // 首组成本 (含手续费)
+    avgCost: number;                 // 多档平均每组成本
+    profitPercent: number;           // (payout - unitCost) / unitCost × 100
+    maxQuantity: number;             // 多档合计可套利组数
+    estimatedProfit: number;         // USD (多档合计)
+    legs: BasketLegPlan[];
+    complete: boolean | null;        // 事件选项集合是否完整
+    lastUpdate: number;
+}
+
+// ============================================================================
+// 篮子任务
+// ============================================================================
+
+/**
+ * 单腿下单状态: PENDING 未下单 / SUBMITTED 已下单待终态 / SETTLED 成交量已确定
+ */
+export type BasketLegState = 'PENDING' | 'SUBMITTED' | 'SETTLED';
+
+/**
+ * 任务中的单腿执行状态
+ */
+export interface BasketTaskLeg extends Omit<BasketLegPlan, 'alternativePrice'> {
+    state?: BasketLegState;          // 缺省视为 PENDING (旧版任务记录)
+    filledQty: number;               // 实际到账份数 (Predict 已扣除 taker fee)
+    fillAvgPrice: number;
+    cost: number;                    // 买入花费 USD (含手续费)
+    orderId?: string;                // Predict hash / Polymarket orderId
+    unwoundQty: number;              // 回滚卖出份数
+    unwindAvgPrice: number;
+    error?: string;
+}
+
+/**
+ * 篮子任务配置 (Task.basket)
+ */
+export interface BasketTaskSpec {
+    eventKey: string;
+    side: BasketSide;
+    payout: number;
+    maxUnitCost: number;             // 每组成本上限 (含手续费)，执行前重新核算
+    legs: BasketTaskLeg[];
+}
+
+/**
+ * 篮子任务数量 / 成本参数
+ */
+export interface BasketTaskSizing {
+    quantity: number;
+    maxUnitCost?: number;            // 默认 payout - 0.005
+    accountId?: string;
+}
+
+/**
+ * POST /api/baskets/tasks 参数
+ */
+export interface BasketCreateTaskParams extends BasketTaskSizing {
+    id: string;                      // BasketOpportunity.id
+}
@@ -68,6 +68,13 @@ export function isMarketBoosted(marketId: number): { boosted: boolean; boostStar
     return { boosted: false };
 }
 
+/** 市场在指定时刻是否处于 boost 窗口内 (startTime <= now <= endTime)，供手续费模型使用 */
+export function isBoostActive(marketId: number, now: number = Date.now()): boolean {
+    const data = boostCache.get(marketId);
+    if (!data) return false;
+    return new Date(data.startTime).getTime() <= now && now <= new Date(data.endTime).getTime();
+}
+
 /** 获取 boostCache (只读访问) */
 export function getBoostCache(): ReadonlyMap<number, { startTime: string; endTime: string }> {
     return boostCache;
@@ -7,14 +7,11 @@
  * 3. 计算 T-T / M-T 平仓收益
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
-import { fileURLToPath } from 'url';
 import { getAccountData, getPredictJwtToken } from './account-service.js';
+import { getMappingRegistry } from './mappings/index.js';
 import { calculatePredictFee } from '../trading/depth-calculator.js';
-import type { PositionLeg, ClosePosition, CloseOpportunity, ArbSide, UnmatchedPosition, CloseDepthAnalysis, DepthLevel } from './types.js';
-
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
+import { getFeeModel, type FeeContext } from '../trading/fee-model.js';
+import type { PositionLeg, ClosePosition, CloseOpportunity, ArbSide, UnmatchedPosition, CloseDepthAnalysis, DepthLevel, PlatformPosition } from './types.js';
 
 // ============================================================================
 // Debug 开关
@@ -25,24 +22,6 @@ const CLOSE_SERVICE_DEBUG = process.env.CLOSE_SERVICE_DEBUG === 'true';
 // 类型定义
 // ============================================================================
 
-interface CachedMarketMatch {
-    predict: {
-        id: number;
-        title: string;
-        question: string;
-        conditionId: string;
-        feeRateBps?: number;
-    };
-    polymarket: {
-        question: string;
-        conditionId: string;
-        active: boolean;
-        closed: boolean;
-        acceptingOrders: boolean;
-    };
-    inverted?: boolean;
-}
-
 interface ExtendedPredictPosition {
     marketId: number;
     title: string;
@@ -120,7 +99,7 @@ interface PolymarketMarketDetail {
 // 缓存与映射
 // ============================================================================
 
-let cachedMatches: CachedMarketMatch[] | null = null;
+let loadedMappingVersion = -1;
 let predictIdToConditionId: Map<number, string> = new Map();
 let conditionIdToPredictId: Map<string, number> = new Map();
 let conditionIdToFeeRate: Map<string, number> = new Map();
@@ -129,64 +108,51 @@ let predictIdToQuestion: Map<number, string> = new Map();  // 完整问题标题
 let polyMarketDetailCache: Map<string, PolymarketMarketDetail> = new Map();
 
 /**
- * 加载市场匹配缓存
+ * 从映射注册表加载市场映射 (注册表有变更时重建)
+ *
+ * 包含黑名单映射: 黑名单只禁止开仓，已有持仓仍需匹配后才能平仓
  */
-function loadMarketMatches(): CachedMarketMatch[] {
-    if (cachedMatches) return cachedMatches;
+function loadMarketMatches(): void {
+    const registry = getMappingRegistry();
+    if (loadedMappingVersion === registry.getVersion()) return;
 
-    const cachePaths = [
-        path.resolve(__dirname, '..', '..', 'polymarket-match-result.json'),
-        path.join(process.cwd(), 'polymarket-match-result.json'),
-        path.join(process.cwd(), 'bot', 'polymarket-match-result.json'),
-        path.resolve(__dirname, '..', '..', '..', 'polymarket-match-result.json'),
-    ];
-
-    for (const cachePath of cachePaths) {
-        try {
-            if (fs.existsSync(cachePath)) {
-                const content = fs.readFileSync(cachePath, 'utf-8');
-                const data = JSON.parse(content) as { matches: CachedMarketMatch[] };
-                if (data.matches && data.matches.length > 0) {
-                    cachedMatches = data.matches;
-
-                    // 构建双向映射
-                    for (const match of data.matches) {
-                        const predictId = match.predict.id;
-                        const conditionId = match.polymarket.conditionId.toLowerCase();
-                        predictIdToConditionId.set(predictId, conditionId);
-                        conditionIdToPredictId.set(conditionId, predictId);
-                        if (match.predict.feeRateBps) {
-                            conditionIdToFeeRate.set(conditionId, match.predict.feeRateBps);
-                        }
-                        // 记录 inverted 状态
-                        conditionIdToInverted.set(conditionId, match.inverted === true);
-                        // 记录完整问题标题 (优先使用 question，回退到 title)
-                        predictIdToQuestion.set(predictId, match.predict.question || match.predict.title);
-                    }
-
-                    console.log(`[CloseService] 加载 ${data.matches.length} 个市场映射`);
-                    return cachedMatches;
-                }
-            }
-        } catch (e) {
-            // 忽略
-        }
+    clearMarketMatches();
+    const mappings = registry.list().filter(mapping => mapping.conditionId);
+    for (const mapping of mappings) {
+        const predictId = mapping.predictMarketId;
+        const conditionId = mapping.conditionId.toLowerCase();
+        predictIdToConditionId.set(predictId, conditionId);
+        conditionIdToPredictId.set(conditionId, predictId);
+        if (mapping.feeRateBps) {
+            conditionIdToFeeRate.set(conditionId, mapping.feeRateBps);
+        }
+        conditionIdToInverted.set(conditionId, mapping.inverted);
+        // 记录完整问题标题 (优先使用 question，回退到 title)
+        const question = mapping.predictQuestion || mapping.predictTitle;
+        if (question) predictIdToQuestion.set(predictId, question);
+    }
+    loadedMappingVersion = registry.getVersion();
+
+    if (mappings.length > 0) {
+        console.log(`[CloseService] 加载 ${mappings.length} 个市场映射`);
+    } else {
+        console.warn('[CloseService] 映射注册表为空');
     }
-
-    console.warn('[CloseService] 未找到市场匹配缓存');
-    return [];
 }
 
-/**
- * 刷新市场映射缓存
- */
-export function refreshMarketMatches(): void {
-    cachedMatches = null;
+function clearMarketMatches(): void {
     predictIdToConditionId.clear();
     conditionIdToPredictId.clear();
     conditionIdToFeeRate.clear();
     conditionIdToInverted.clear();
     predictIdToQuestion.clear();
+}
+
+/**
+ * 刷新市场映射缓存
+ */
+export function refreshMarketMatches(): void {
+    loadedMappingVersion = -1;
     loadMarketMatches();
 }
 
@@ -554,7 +520,16 @@ async function fetchPolymarketMarketDetail(conditionId: string): Promise<Polymar
 // 平仓收益计算
 // ============================================================================
 
-// 使用 depth-calculator.ts 中的 calculatePredictFee，已包含 10% rebate
+// 手续费统一由 fee-model 解析（Predict 返点 / boost，Polymarket 费率表）
+
+/**
+ * Predict 持仓方向对应的 Polymarket 对冲方向
+ * - 正常市场: YES ↔ NO, NO ↔ YES
+ * - 反向市场: YES ↔ YES, NO ↔ NO (含义相反，YES/NO 两个方向对称)
+ */
+function isHedgeSide(predictSide: ArbSide, polySide: ArbSide, isInverted: boolean): boolean {
+    return isInverted ? polySide === predictSide : polySide !== predictSide;
+}
 
 /**
  * 匹配双腿持仓，生成 ClosePosition 列表
@@ -614,16 +589,7 @@ async function matchPositions(forcePositionsRefresh: boolean = false): Promise<C
         // 根据 isInverted 决定匹配方向
         // - 正常市场: Predict YES ↔ Poly NO (反向)
         // - 反向市场: Predict YES ↔ Poly YES (同向，因为含义相反)
-        const matchedPolyPos = polyPositionsForMarket.find(p => {
-            if (isInverted) {
-                // 反向市场: 同向匹配
-                return p.side === predictPos.side;
-            } else {
-                // 正常市场: 反向匹配
-                return (predictPos.side === 'YES' && p.side === 'NO') ||
-                       (predictPos.side === 'NO' && p.side === 'YES');
-            }
-        });
+        const matchedPolyPos = polyPositionsForMarket.find(p => isHedgeSide(predictPos.side, p.side, isInverted));
 
         if (!matchedPolyPos) {
             if (CLOSE_SERVICE_DEBUG) {
@@ -695,8 +661,10 @@ function calculateDepthAnalysis(
     entryCostPerShare: number,
     feeRateBps: number,
     matchedShares: number,
-    arbSide: ArbSide
+    arbSide: ArbSide,
+    context: FeeContext = {}
 ): CloseDepthAnalysis {
+    const feeModel = getFeeModel();
     const predictLevels: DepthLevel[] = [];
     let cumulativePredict = 0;
     let maxProfitableShares = 0;
@@ -709,7 +677,7 @@ function calculateDepthAnalysis(
         if (!predictLevel || predictLevel.size <= 0) continue;
 
         const predictPrice = predictLevel.price;
-        const predictFee = calculatePredictFee(predictPrice, feeRateBps);
+        const predictFee = calculatePredictFee(predictPrice, feeRateBps, context);
 
         // 找到对应的 Poly 档位
         // 对于当前档位的 Predict 卖出量，找到能支撑的 Poly 买入价格
@@ -743,7 +711,8 @@ function calculateDepthAnalysis(
         }
 
         // 计算当前档的每股利润
-        const profitPerShare = (predictPrice - predictFee) + polyPrice - entryCostPerShare;
+        const polyFee = feeModel.polymarketFeePerShare(polyPrice, context);
+        const profitPerShare = (predictPrice - predictFee) + (polyPrice - polyFee) - entryCostPerShare;
         const isProfitable = profitPerShare > 0;
 
         cumulativePredict += predictLevel.size;
@@ -779,7 +748,7 @@ function calculateDepthAnalysis(
     // 考虑手续费的盈亏平衡价格（需要反推）
     // profit = price - fee(price) + polyBid - entryCost = 0
     // price - fee(price) = entryCost - polyBid
-    const breakEvenPrice = breakEvenPriceRaw / (1 - feeRateBps / 10000 * 0.5);  // 近似计算
+    const breakEvenPrice = breakEvenPriceRaw + calculatePredictFee(breakEvenPriceRaw, feeRateBps, context);  // 近似计算
 
     // 限制可盈利数量不超过持仓
     maxProfitableShares = Math.min(maxProfitableShares, matchedShares);
@@ -838,6 +807,7 @@ export async function calculateCloseOpportunities(forcePositionsRefresh: boolean
 
         // 获取费率
         const feeRateBps = conditionIdToFeeRate.get(pos.polymarketConditionId) || 200;
+        const feeContext: FeeContext = { marketId: pos.predictMarketId, polymarketMarket: pos.polymarketConditionId };
 
         // 根据 arbSide 计算正确的价格
         // arbSide='YES': Predict 持有 YES，需要卖 YES (看 YES bids)
@@ -885,16 +855,18 @@ export async function calculateCloseOpportunities(forcePositionsRefresh: boolean
             pos.entryCostPerShare,
             feeRateBps,
             pos.matchedShares,
-            pos.arbSide
+            pos.arbSide,
+            feeContext
         );
 
         // T-T 计算 (使用正确的价格计算费用)
-        const predictFeeTT = calculatePredictFee(predictBid, feeRateBps);
-        const ttProfitPerShare = (predictBid - predictFeeTT) + polyBid - pos.entryCostPerShare;
+        const predictFeeTT = calculatePredictFee(predictBid, feeRateBps, feeContext);
+        const polyFee = getFeeModel().polymarketFeePerShare(polyBid, feeContext);
+        const ttProfitPerShare = (predictBid - predictFeeTT) + (polyBid - polyFee) - pos.entryCostPerShare;
         const ttMinPolyBid = pos.entryCostPerShare - (predictBid - predictFeeTT);
 
-        // M-T 计算 (Maker 无手续费)
-        const mtProfitPerShare = predictAsk + polyBid - pos.entryCostPerShare;
+        // M-T 计算 (Predict Maker 无手续费)
+        const mtProfitPerShare = predictAsk + (polyBid - polyFee) - pos.entryCostPerShare;
         const mtMinPolyBid = pos.entryCostPerShare - predictAsk;
 
         // 最大可卖量（考虑多档深度）
@@ -1003,6 +975,32 @@ export async function getPositionMarketIds(): Promise<{
     };
 }
 
+/**
+ * 获取两个平台的原始持仓 (不做双腿匹配)
+ */
+export async function getPlatformPositions(): Promise<PlatformPosition[]> {
+    const { predictPositions, polyPositions } = await getCachedPositions(false);
+    return [
+        ...predictPositions.map((p): PlatformPosition => ({
+            platform: 'predict',
+            predictMarketId: p.marketId,
+            polymarketConditionId: p.polymarketConditionId?.toLowerCase(),
+            side: p.side,
+            shares: p.shares,
+            avgPrice: p.avgPrice,
+        })),
+        ...polyPositions.map((p): PlatformPosition => ({
+            platform: 'polymarket',
+            predictMarketId: conditionIdToPredictId.get(p.conditionId),
+            polymarketConditionId: p.conditionId,
+            tokenId: p.tokenId,
+            side: p.side,
+            shares: p.shares,
+            avgPrice: p.avgPrice,
+        })),
+    ];
+}
+
 /**
  * 获取未匹配的单腿持仓
  * 返回只在一个平台有持仓的情况
@@ -1064,14 +1062,7 @@ export async function getUnmatchedPositions(): Promise<UnmatchedPosition[]> {
 
         // 检查方向匹配
         const isInverted = conditionIdToInverted.get(conditionId) || false;
-        const matchedPolyPos = polyPositionsForMarket.find(p => {
-            if (isInverted) {
-                return p.side === predictPos.side;
-            } else {
-                return (predictPos.side === 'YES' && p.side === 'NO') ||
-                       (predictPos.side === 'NO' && p.side === 'YES');
-            }
-        });
+        const matchedPolyPos = polyPositionsForMarket.find(p => isHedgeSide(predictPos.side, p.side, isInverted));
 
         if (!matchedPolyPos) {
             // 情况3: 方向不匹配
@@ -1119,13 +1110,7 @@ export async function getUnmatchedPositions(): Promise<UnmatchedPosition[]> {
         // 有映射但无 Predict 持仓或方向不匹配
         const predictPos = predictPositions.find(p => {
             if (p.marketId !== predictId) return false;
-            const isInverted = conditionIdToInverted.get(conditionId) || false;
-            if (isInverted) {
-                return p.side === polyPos.side;
-            } else {
-                return (polyPos.side === 'YES' && p.side === 'NO') ||
-                       (polyPos.side === 'NO' && p.side === 'YES');
-            }
+            return isHedgeSide(p.side, polyPos.side, conditionIdToInverted.get(conditionId) || false);
         });
 
         if (!predictPos) {
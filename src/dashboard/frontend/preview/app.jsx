@@ -14,16 +14,18 @@ var {
     SettingsPanel,
     AccountCard,
     ClosePositionTab,
+    MarketMakerTab,
     SportsCard,
     FootballThreeWayCardDemo,
     ExposureAlertBanner,
+    RiskHaltBanner,
 } = Preview.Components;
 
 // --- Main App ---
 const App = () => {
     const { notifications, settings, setSettings, addNotification, dismissNotification } = useNotifications();
     const { toasts: orderToasts, addOrderToast } = useOrderToasts();
-    const { opportunities, stats, accounts, tasks, sports, closeOpportunities, isConnected, exposureAlert, setExposureAlert } = useArbScanner(addNotification, addOrderToast);
+    const { opportunities, stats, accounts, tasks, sports, closeOpportunities, isConnected, exposureAlert, setExposureAlert, riskAlert, setRiskAlert, marketMaker, setMarketMaker } = useArbScanner(addNotification, addOrderToast);
     const [taskModalOpen, setTaskModalOpen] = useState(false);
     const [taskModalData, setTaskModalData] = useState(null); // { opp, type: 'BUY' | 'SELL' }
     const [logModalOpen, setLogModalOpen] = useState(false);
@@ -386,6 +388,9 @@ const App = () => {
             {/* 敞口预警 Banner (顶部居中，常驻) */}
             <ExposureAlertBanner alert={exposureAlert} onDismiss={() => setExposureAlert(null)} />
 
+            {/* 风控熔断 Banner (熔断解除后自动消失) */}
+            <RiskHaltBanner status={riskAlert} onDismiss={() => setRiskAlert(null)} />
+
             {/* Settings Panel */}
             <SettingsPanel isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} settings={settings} setSettings={setSettings} />
 
@@ -461,6 +466,13 @@ const App = () => {
                                 }`}></span>
                                 BSC
                             </div>
+
+                            {/* Paper Trading */}
+                            {stats.executionMode === 'PAPER' && (
+                                <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-cyan-500/20 text-cyan-400 border border-cyan-500/30" title="USE_REAL_EXECUTION=false，任务走模拟撮合">
+                                    PAPER
+                                </span>
+                            )}
                         </div>
                     </div>
 
@@ -529,10 +541,10 @@ const App = () => {
 
                 {/* Tabs */}
                 <div className="flex gap-6 mb-6 border-b border-zinc-800/50">
-                    {['LIVE', 'SPORTS', 'TASKS', 'CLOSE'].map((tab) => (
+                    {['LIVE', 'SPORTS', 'TASKS', 'CLOSE', 'MM'].map((tab) => (
                         <button key={tab} onClick={() => setActiveTab(tab)}
                             className={`pb-3 text-sm font-medium tracking-wide transition-all relative ${activeTab === tab ? 'text-amber-500' : 'text-zinc-500 hover:text-white'}`}>
-                            {tab === 'CLOSE' ? 'Hedge' : tab === 'SPORTS' ? 'Sports' : tab}
+                            {tab === 'CLOSE' ? 'Hedge' : tab === 'SPORTS' ? 'Sports' : tab === 'MM' ? 'Market Maker' : tab}
                             {activeTab === tab && <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-amber-500 shadow-glow-sm"></div>}
                         </button>
                     ))}
@@ -540,6 +552,8 @@ const App = () => {
 
                 {activeTab === 'CLOSE' ? (
                     <ClosePositionTab onSwitchToTasks={() => setActiveTab('TASKS')} tasks={tasks} sseData={closeOpportunities} />
+                ) : activeTab === 'MM' ? (
+                    <MarketMakerTab status={marketMaker} onStatusChange={setMarketMaker} />
                 ) : activeTab === 'SPORTS' ? (
                     <div className="space-y-3">
                         <div className="flex items-center justify-between mb-4 px-1">
@@ -535,10 +535,16 @@ const OpportunityCard = ({ opp, onOpenTaskModal, activeTask }) => {
                         {/* 左侧: badges + 结算时间 + P/M 按钮 */}
                         <div className="flex flex-wrap items-center gap-2">
                             <Badge variant={opp.strategy === 'MAKER' ? 'success' : 'default'}>{opp.strategy}</Badge>
-                            <Badge variant={opp.side === 'YES' ? 'inverted' : 'warning'}>{opp.side === 'YES' ? 'YES→NO' : 'NO→YES'}</Badge>
+                            <Badge variant={opp.side === 'YES' ? 'inverted' : 'warning'}>{opp.side === 'YES' ? (opp.isInverted ? 'YES→YES' : 'YES→NO') : (opp.isInverted ? 'NO→NO' : 'NO→YES')}</Badge>
                             {opp.isInverted && <Badge variant="inverted" icon="arrow-left-right">INV</Badge>}
                             {opp.profitPercent > 2.5 && <Badge variant="warning">HOT</Badge>}
                             {opp.risk.level === 'HIGH' && <Badge variant="danger" icon="alert-triangle">RISK</Badge>}
+                            {opp.risk.level === 'BLOCKED' && <Badge variant="danger" icon="alert-triangle">BLOCKED</Badge>}
+                            {['C', 'D', 'F'].includes(opp.risk.resolutionGrade) && (
+                                <span title={(opp.risk.resolutionIssues || []).join('\n')}>
+                                    <Badge variant={opp.risk.resolutionGrade === 'C' ? 'warning' : 'danger'}>结算 {opp.risk.resolutionGrade}</Badge>
+                                </span>
+                            )}
                             {isBoosted && <BoostCountdown boostStartTime={opp.boostStartTime} boostEndTime={opp.boostEndTime} />}
                             {opp.endDate && (
                                 <span className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-800 border border-zinc-700 text-zinc-400 font-mono">
@@ -924,6 +930,28 @@ const TasksTab = ({ tasks, onStart, onCancel, onViewLogs, onUpdateTask, apiBaseU
     const activeTasks = tasks.filter(t => !['COMPLETED', 'FAILED', 'CANCELLED', 'UNWIND_COMPLETED'].includes(t.status));
     const completedTasks = tasks.filter(t => ['COMPLETED', 'FAILED', 'CANCELLED', 'UNWIND_COMPLETED'].includes(t.status));
 
+    // 历史任务分页 (服务端 SQLite 查询，避免一次性下载全部任务)
+    const HISTORY_PAGE_SIZE = 10;
+    const [historyPage, setHistoryPage] = useState(0);
+    const [historyData, setHistoryData] = useState(null);  // { tasks, total }
+
+    useEffect(() => {
+        let cancelled = false;
+        fetch(`${apiBaseUrl}/api/tasks?scope=history&limit=${HISTORY_PAGE_SIZE}&offset=${historyPage * HISTORY_PAGE_SIZE}`)
+            .then(res => res.json())
+            .then(json => {
+                if (!cancelled && json.success) {
+                    setHistoryData({ tasks: json.data, total: json.total });
+                }
+            })
+            .catch(() => { /* 回退到 SSE 推送的最近任务 */ });
+        return () => { cancelled = true; };
+    }, [apiBaseUrl, historyPage, completedTasks.length]);
+
+    const historyTasks = historyData ? historyData.tasks : completedTasks.slice(0, HISTORY_PAGE_SIZE);
+    const historyTotal = historyData ? historyData.total : completedTasks.length;
+    const historyPageCount = Math.max(1, Math.ceil(historyTotal / HISTORY_PAGE_SIZE));
+
     return (
         <div className="space-y-6">
             {/* Active Tasks */}
@@ -955,6 +983,12 @@ const TasksTab = ({ tasks, onStart, onCancel, onViewLogs, onUpdateTask, apiBaseU
                                             <span className={`text-[10px] px-1.5 py-0.5 rounded ${task.arbSide === 'YES' ? 'bg-blue-500/20 text-blue-400' : 'bg-purple-500/20 text-purple-400'}`}>
                                                 {task.arbSide}
                                             </span>
+                                            {task.simulated && (
+                                                <span className="text-[10px] px-1.5 py-0.5 rounded bg-cyan-500/20 text-cyan-400" title="模拟交易任务">SIM</span>
+                                            )}
+                                            {task.accountId && (
+                                                <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-400" title="执行账号">{task.accountId}</span>
+                                            )}
                                             <TaskStatusBadge status={task.status} />
                                             <span className="text-xs font-mono text-zinc-500">#{task.marketId}</span>
                                             <ViewLinks
@@ -1036,17 +1070,17 @@ const TasksTab = ({ tasks, onStart, onCancel, onViewLogs, onUpdateTask, apiBaseU
             </div>
 
             {/* Completed Tasks */}
-            {completedTasks.length > 0 && (
+            {historyTotal > 0 && (
                 <div>
                     <div className="flex items-center justify-between mb-4 px-1">
                         <h3 className="font-display text-sm font-medium text-zinc-400 flex items-center gap-2">
                             <Icon name="check-circle" size={16} className="text-zinc-500" />
                             历史任务
                         </h3>
-                        <div className="text-xs text-zinc-500 font-mono">{completedTasks.length} 个任务</div>
+                        <div className="text-xs text-zinc-500 font-mono">{historyTotal} 个任务</div>
                     </div>
                     <div className="space-y-2">
-                        {completedTasks.slice(0, 10).map(task => (
+                        {historyTasks.map(task => (
                             <div key={task.id} className="glass-card rounded-xl p-3 border border-zinc-800/30 hover:border-zinc-700/50 transition-all group">
                                 <div className="flex items-center justify-between gap-4">
                                     <div className="flex items-center gap-3 min-w-0 flex-1">
@@ -1056,6 +1090,12 @@ const TasksTab = ({ tasks, onStart, onCancel, onViewLogs, onUpdateTask, apiBaseU
                                         <span className={`text-[10px] px-1.5 py-0.5 rounded ${task.arbSide === 'YES' ? 'bg-blue-500/20 text-blue-400' : 'bg-purple-500/20 text-purple-400'}`}>
                                             {task.arbSide}
                                         </span>
+                                        {task.simulated && (
+                                            <span className="text-[10px] px-1.5 py-0.5 rounded bg-cyan-500/20 text-cyan-400" title="模拟交易任务">SIM</span>
+                                        )}
+                                        {task.accountId && (
+                                            <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-400" title="执行账号">{task.accountId}</span>
+                                        )}
                                         <span className="text-xs text-zinc-300 truncate" title={task.title}>{task.title}</span>
                                         <ViewLinks
                                             predictId={task.marketId}
@@ -1090,12 +1130,45 @@ const TasksTab = ({ tasks, onStart, onCancel, onViewLogs, onUpdateTask, apiBaseU
                             </div>
                         ))}
                     </div>
+                    {historyPageCount > 1 && (
+                        <div className="flex items-center justify-center gap-3 mt-3 text-xs text-zinc-500">
+                            <button
+                                onClick={() => setHistoryPage(p => Math.max(0, p - 1))}
+                                disabled={historyPage === 0}
+                                className="px-2 py-1 rounded bg-zinc-800 text-zinc-400 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors">
+                                上一页
+                            </button>
+                            <span className="font-mono">{historyPage + 1} / {historyPageCount}</span>
+                            <button
+                                onClick={() => setHistoryPage(p => Math.min(historyPageCount - 1, p + 1))}
+                                disabled={historyPage >= historyPageCount - 1}
+                                className="px-2 py-1 rounded bg-zinc-800 text-zinc-400 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed transition-colors">
+                                下一页
+                            </button>
+                        </div>
+                    )}
                 </div>
             )}
         </div>
     );
 };
 
+// 多档深度: 吃到 qty 需要的最差 Predict 价格和预计利润 (opp.ladder 来自后端 walkArbLadder)
+const quoteArbLadder = (ladder, qty) => {
+    if (!ladder || !ladder.levels || ladder.levels.length === 0 || qty <= 0) return null;
+    let filled = 0;
+    let profit = 0;
+    let worstPredictPrice = ladder.levels[0].predictPrice;
+    for (const level of ladder.levels) {
+        if (filled >= qty) break;
+        const take = Math.min(level.quantity, qty - filled);
+        filled += take;
+        profit += take * level.unitProfit;
+        worstPredictPrice = level.predictPrice;
+    }
+    return { filled, profit, worstPredictPrice, levelCount: ladder.levels.length };
+};
+
 // Task Modal Component
 const TaskModal = ({ isOpen, onClose, data, onSubmit, accounts, apiBaseUrl }) => {
     const [quantity, setQuantity] = useState(10);
@@ -1179,7 +1252,11 @@ const TaskModal = ({ isOpen, onClose, data, onSubmit, accounts, apiBaseUrl }) =>
     const polyTokenLabel = opp.side === 'YES' ? 'NO' : 'YES';
     // 用于计算的安全数量值 (空值时视为0)
     const safeQuantity = quantity === '' ? 0 : (parseInt(quantity) || 0);
-    const estimatedProfit = (1 - predictPrice - polyPrice) * safeQuantity;
+    // TAKER BUY 未手动改价时按多档深度报价（数量超出最优档时限价提到最后一个盈利档）
+    const ladderQuote = isTaker && type === 'BUY' && !priceEdited ? quoteArbLadder(opp.ladder, safeQuantity) : null;
+    const estimatedProfit = ladderQuote && ladderQuote.filled >= safeQuantity
+        ? ladderQuote.profit
+        : (1 - predictPrice - polyPrice) * safeQuantity;
     const profitPercent = (1 - predictPrice - polyPrice) * 100;  // 利润百分比
 
     // 资金占用计算
@@ -1287,7 +1364,10 @@ const TaskModal = ({ isOpen, onClose, data, onSubmit, accounts, apiBaseUrl }) =>
             // 套利原理: predict 赢 + poly 赢 = 1，所以 totalCost < 1 即可保证盈利
             const maxTotalCost = 1;
 
-            taskParams.predictAskPrice = predictPrice;
+            // 多档: 限价取吃到目标数量的最差档，对冲上限随之收紧 (后端 polymarketMaxAsk = maxTotalCost - 限价 - fee)
+            taskParams.predictAskPrice = ladderQuote
+                ? Math.max(predictPrice, ladderQuote.worstPredictPrice)
+                : predictPrice;
             taskParams.maxTotalCost = maxTotalCost;
             taskParams.feeRateBps = feeRateBps;
         }
@@ -1399,6 +1479,11 @@ const TaskModal = ({ isOpen, onClose, data, onSubmit, accounts, apiBaseUrl }) =>
                             className="w-full bg-zinc-900 border border-zinc-700 rounded-lg px-3 py-2 text-white font-mono text-sm focus:outline-none focus:border-amber-500"
                         />
                         <div className="text-xs text-zinc-500 mt-1">最大深度: {opp.maxQuantity?.toFixed(0) || '-'} shares</div>
+                        {ladderQuote && ladderQuote.levelCount > 1 && (
+                            <div className="text-[10px] text-zinc-500 mt-1">
+                                多档 {ladderQuote.levelCount} 档 · 最差 {(ladderQuote.worstPredictPrice * 100).toFixed(1)}¢ · 预计 ${ladderQuote.profit.toFixed(2)}
+                            </div>
+                        )}
                     </div>
 
                     {/* 定时过期 (仅体育 MAKER) */}
@@ -3588,6 +3673,34 @@ const ExposureAlertBanner = ({ alert, onDismiss }) => {
     );
 };
 
+// 风控熔断 Banner
+const RiskHaltBanner = ({ status, onDismiss }) => {
+    if (!status || !status.halt?.halted) return null;
+    const { halt, exposure } = status;
+    return (
+        <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-[61] w-[480px] animate-slideDown">
+            <div className="glass-card rounded-xl p-4 border-2 border-rose-600/70 bg-rose-600/15 shadow-2xl backdrop-blur-md">
+                <div className="flex items-start gap-3">
+                    <span className="text-3xl">⛔</span>
+                    <div className="flex-1">
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="text-base font-bold text-rose-400">风控熔断 ({halt.limit})</span>
+                            <button onClick={onDismiss} className="text-zinc-500 hover:text-white text-lg leading-none">&times;</button>
+                        </div>
+                        <div className="text-xs text-zinc-300">{halt.reason}</div>
+                        <div className="text-xs text-zinc-400 mt-1">
+                            当日盈亏 ${(status.dailyRealizedPnl || 0).toFixed(2)} · 未对冲 {(exposure?.unhedgedShares || 0).toFixed(1)} shares
+                        </div>
+                        <div className="text-xs text-zinc-500 mt-2">
+                            所有任务已暂停 · {new Date(halt.haltedAt || status.timestamp).toLocaleTimeString('zh-CN', { hour12: false })}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
 Preview.Components = {
     Badge,
     Card,
@@ -3611,4 +3724,5 @@ Preview.Components = {
     SportsCard,
     FootballThreeWayCardDemo,
     ExposureAlertBanner,
+    RiskHaltBanner,
 };
@@ -0,0 +1,305 @@
+var Preview = window.Preview || (window.Preview = {});
+var { useState, useEffect, useCallback } = Preview.ReactHooks;
+var { Icon } = Preview;
+var { API_BASE_URL } = Preview;
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+const formatCents = (price) => (price > 0 ? `${(price * 100).toFixed(1)}¢` : '-');
+const formatUsd = (value) => `${value >= 0 ? '+' : '-'}$${Math.abs(value || 0).toFixed(2)}`;
+
+const MM_STATUS_STYLES = {
+    running: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20',
+    adjusting: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20',
+    initializing: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+    range_paused: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+    paused: 'bg-zinc-800 text-zinc-400 border-zinc-700',
+    error: 'bg-rose-500/10 text-rose-400 border-rose-500/20',
+    idle: 'bg-zinc-800 text-zinc-500 border-zinc-700',
+};
+
+const mmRequest = async (path, method = 'POST', body) => {
+    const res = await fetch(`${API_BASE_URL}${path}`, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+    if (!res.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${res.status}`);
+    }
+    return data.data;
+};
+
+// ============================================================================
+// MarketMakerRow - 单个做市市场
+// ============================================================================
+const MarketMakerRow = ({ view, running, onAction, busy }) => {
+    const { config, state, stats } = view;
+    const status = state?.status || 'idle';
+    const buy = state?.activeBuyOrder;
+    const sell = state?.activeSellOrder;
+    const canResume = running && ['paused', 'error', 'range_paused'].includes(status);
+
+    return (
+        <div className="glass-card rounded-xl border border-zinc-800/50 p-4">
+            <div className="flex items-start justify-between gap-3 mb-3">
+                <div className="min-w-0">
+                    <div className="text-sm text-white truncate">{config.title}</div>
+                    <div className="text-xs text-zinc-500 font-mono mt-0.5">
+                        #{config.marketId} · {config.outcome} · {config.strategy} · max {config.maxShares}
+                    </div>
+                </div>
+                <span className={`px-2 py-0.5 rounded border text-[10px] font-mono uppercase shrink-0 ${MM_STATUS_STYLES[status] || MM_STATUS_STYLES.idle}`}>
+                    {status}
+                </span>
+            </div>
+
+            <div className="grid grid-cols-4 gap-3 text-xs mb-3">
+                <div>
+                    <div className="text-zinc-500 mb-0.5">买一 / 卖一</div>
+                    <div className="font-mono text-zinc-300">{formatCents(state?.lastBestBid)} / {formatCents(state?.lastBestAsk)}</div>
+                </div>
+                <div>
+                    <div className="text-zinc-500 mb-0.5">挂单</div>
+                    <div className="font-mono text-zinc-300">
+                        {buy ? `B ${buy.quantity}@${formatCents(buy.price)}` : 'B -'} · {sell ? `S ${sell.quantity}@${formatCents(sell.price)}` : 'S -'}
+                    </div>
+                </div>
+                <div>
+                    <div className="text-zinc-500 mb-0.5">持仓</div>
+                    <div className="font-mono text-white">{state ? state.position.toFixed(2) : '-'}</div>
+                </div>
+                <div>
+                    <div className="text-zinc-500 mb-0.5">已实现 / 未实现</div>
+                    <div className="font-mono">
+                        <span className={(stats?.realizedPnL || 0) >= 0 ? 'text-emerald-400' : 'text-rose-400'}>{formatUsd(stats?.realizedPnL || 0)}</span>
+                        <span className="text-zinc-600"> / </span>
+                        <span className={(stats?.unrealizedPnL || 0) >= 0 ? 'text-emerald-400' : 'text-rose-400'}>{formatUsd(stats?.unrealizedPnL || 0)}</span>
+                    </div>
+                </div>
+            </div>
+
+            {state?.errorMessage && (
+                <div className="text-xs text-rose-400 mb-3 truncate">{state.errorMessage}</div>
+            )}
+
+            <div className="flex items-center justify-between">
+                <div className="text-[10px] text-zinc-600 font-mono">
+                    {stats ? `${stats.totalBuys} 买 / ${stats.totalSells} 卖 · 调单 ${stats.orderAdjustments}` : '未启动'}
+                </div>
+                <div className="flex gap-2">
+                    {running && (canResume ? (
+                        <button onClick={() => onAction(`/api/mm/markets/${config.marketId}/resume`)} disabled={busy}
+                            className="px-2.5 py-1 rounded-lg text-xs bg-emerald-500/10 text-emerald-400 border border-emerald-500/20 hover:bg-emerald-500/20 disabled:opacity-50">
+                            恢复
+                        </button>
+                    ) : (
+                        <button onClick={() => onAction(`/api/mm/markets/${config.marketId}/pause`)} disabled={busy}
+                            className="px-2.5 py-1 rounded-lg text-xs bg-zinc-800 text-zinc-300 border border-zinc-700 hover:bg-zinc-700 disabled:opacity-50">
+                            暂停
+                        </button>
+                    ))}
+                    <button onClick={() => onAction(`/api/mm/markets/${config.marketId}`, 'DELETE')} disabled={busy}
+                        className="px-2.5 py-1 rounded-lg text-xs bg-rose-500/10 text-rose-400 border border-rose-500/20 hover:bg-rose-500/20 disabled:opacity-50">
+                        移除
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// ============================================================================
+// MarketMakerTab - 做市面板 (状态由 SSE marketMaker 事件推送)
+// ============================================================================
+const MarketMakerTab = ({ status, onStatusChange }) => {
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState(null);
+    const [disabled, setDisabled] = useState(false);
+    const [form, setForm] = useState({ marketId: '', outcome: 'YES', strategy: 'FOLLOW', maxShares: 100 });
+
+    // SSE 未推送时 (做市未启用或刚连接) 主动拉取一次
+    useEffect(() => {
+        if (status) return;
+        fetch(`${API_BASE_URL}/api/mm`)
+            .then(res => res.json().then(data => ({ ok: res.ok, data })))
+            .then(({ ok, data }) => {
+                if (ok && data.success) onStatusChange(data.data);
+                else setDisabled(true);
+            })
+            .catch(() => setDisabled(true));
+    }, [status, onStatusChange]);
+
+    const runAction = useCallback(async (path, method = 'POST', body) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const data = await mmRequest(path, method, body);
+            // 控制类接口返回完整状态；单市场接口的变化随 SSE 推送
+            if (data && Array.isArray(data.markets)) onStatusChange(data);
+        } catch (err) {
+            setError(err.message);
+        } finally {
+            setBusy(false);
+        }
+    }, [onStatusChange]);
+
+    const handleAddMarket = async () => {
+        const marketId = Number(form.marketId);
+        if (!Number.isInteger(marketId) || marketId <= 0) {
+            setError('请输入有效的市场 ID');
+            return;
+        }
+        await runAction('/api/mm/markets', 'POST', {
+            marketId,
+            outcome: form.outcome,
+            strategy: form.strategy,
+            maxShares: Number(form.maxShares) || 100,
+        });
+        setForm(prev => ({ ...prev, marketId: '' }));
+    };
+
+    if (disabled && !status) {
+        return (
+            <div className="flex flex-col items-center justify-center py-20 rounded-2xl border border-dashed border-zinc-800 bg-zinc-900/30">
+                <Icon name="power" size={48} className="text-zinc-600 mb-4" strokeWidth={1} />
+                <p className="text-zinc-400">Dashboard 未启用做市</p>
+                <p className="text-xs text-zinc-600 mt-2 font-mono">DASHBOARD_MM_ENABLED=true</p>
+            </div>
+        );
+    }
+
+    const markets = status?.markets || [];
+    const running = Boolean(status?.running);
+    const totalRealized = markets.reduce((sum, m) => sum + (m.stats?.realizedPnL || 0), 0);
+    const totalUnrealized = markets.reduce((sum, m) => sum + (m.stats?.unrealizedPnL || 0), 0);
+    const fills = status?.recentFills || [];
+
+    return (
+        <div className="space-y-6">
+            {/* 控制栏 + 汇总 */}
+            <div className="glass-card rounded-xl border border-zinc-800/50 p-5">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="font-display text-sm font-medium text-white flex items-center gap-2">
+                        <Icon name="layers" size={16} className="text-amber-500" />
+                        做市
+                        {status?.emergencyStop && <span className="px-2 py-0.5 rounded bg-rose-500/20 text-rose-400 text-[10px] font-mono">EMERGENCY STOP</span>}
+                    </h3>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => runAction('/api/mm/emergency-stop', 'POST', { enabled: !status?.emergencyStop })}
+                            disabled={busy}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-medium border disabled:opacity-50 ${status?.emergencyStop
+                                ? 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:bg-zinc-700'
+                                : 'bg-rose-500/10 text-rose-400 border-rose-500/20 hover:bg-rose-500/20'}`}
+                        >
+                            {status?.emergencyStop ? '解除紧急停止' : '紧急停止'}
+                        </button>
+                        <button
+                            onClick={() => runAction(running ? '/api/mm/stop' : '/api/mm/start')}
+                            disabled={busy || status?.starting}
+                            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-amber-500/10 text-amber-400 border border-amber-500/20 hover:bg-amber-500/20 disabled:opacity-50"
+                        >
+                            {status?.starting ? '启动中...' : running ? '停止做市' : '启动做市'}
+                        </button>
+                    </div>
+                </div>
+                <div className="grid grid-cols-4 gap-6">
+                    <div>
+                        <div className="text-zinc-500 text-xs mb-1">市场数</div>
+                        <div className="text-2xl font-display font-semibold text-white">{markets.length}</div>
+                    </div>
+                    <div>
+                        <div className="text-zinc-500 text-xs mb-1">成交笔数</div>
+                        <div className="text-2xl font-display font-semibold text-white">{status?.globalStats?.totalFills ?? 0}</div>
+                    </div>
+                    <div>
+                        <div className="text-zinc-500 text-xs mb-1">已实现</div>
+                        <div className={`text-2xl font-display font-semibold ${totalRealized >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatUsd(totalRealized)}</div>
+                    </div>
+                    <div>
+                        <div className="text-zinc-500 text-xs mb-1">未实现</div>
+                        <div className={`text-2xl font-display font-semibold ${totalUnrealized >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatUsd(totalUnrealized)}</div>
+                    </div>
+                </div>
+                {status?.lastError && <p className="text-rose-400 text-xs mt-3">启动失败: {status.lastError}</p>}
+            </div>
+
+            {/* 添加市场 */}
+            <div className="glass-card rounded-xl border border-zinc-800/50 p-4 flex flex-wrap items-end gap-3">
+                <label className="text-xs text-zinc-500">
+                    市场 ID
+                    <input value={form.marketId} onChange={e => setForm({ ...form, marketId: e.target.value })}
+                        className="block mt-1 w-28 bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-sm text-white font-mono" placeholder="696" />
+                </label>
+                <label className="text-xs text-zinc-500">
+                    方向
+                    <select value={form.outcome} onChange={e => setForm({ ...form, outcome: e.target.value })}
+                        className="block mt-1 bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-sm text-white">
+                        <option value="YES">YES</option>
+                        <option value="NO">NO</option>
+                    </select>
+                </label>
+                <label className="text-xs text-zinc-500">
+                    策略
+                    <select value={form.strategy} onChange={e => setForm({ ...form, strategy: e.target.value })}
+                        className="block mt-1 bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-sm text-white">
+                        {['FOLLOW', 'SCALP', 'SKEW', 'LADDER'].map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                </label>
+                <label className="text-xs text-zinc-500">
+                    最大持仓
+                    <input type="number" value={form.maxShares} onChange={e => setForm({ ...form, maxShares: e.target.value })}
+                        className="block mt-1 w-24 bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-sm text-white font-mono" />
+                </label>
+                <button onClick={handleAddMarket} disabled={busy || !form.marketId}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium bg-amber-500 text-black hover:bg-amber-400 disabled:opacity-50">
+                    添加市场
+                </button>
+            </div>
+
+            {error && (
+                <div className="glass-card rounded-xl border border-rose-500/30 p-4">
+                    <p className="text-rose-400 text-sm">{error}</p>
+                </div>
+            )}
+
+            {/* 市场列表 */}
+            {markets.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-20 rounded-2xl border border-dashed border-zinc-800 bg-zinc-900/30">
+                    <Icon name="inbox" size={48} className="text-zinc-600 mb-4" strokeWidth={1} />
+                    <p className="text-zinc-400">暂无做市市场</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {markets.map(view => (
+                        <MarketMakerRow key={view.config.marketId} view={view} running={running} onAction={runAction} busy={busy} />
+                    ))}
+                </div>
+            )}
+
+            {/* 最近成交 */}
+            {fills.length > 0 && (
+                <div className="glass-card rounded-xl border border-zinc-800/50 p-4">
+                    <div className="text-xs text-zinc-500 mb-2">最近成交</div>
+                    <div className="space-y-1 max-h-60 overflow-y-auto">
+                        {fills.map((fill, i) => (
+                            <div key={`${fill.orderId}-${i}`} className="flex justify-between text-xs font-mono">
+                                <span className="text-zinc-500">{new Date(fill.filledAt).toLocaleTimeString()}</span>
+                                <span className="text-zinc-400">#{fill.marketId}</span>
+                                <span className={fill.side === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}>{fill.side}</span>
+                                <span className="text-white">{fill.quantity} @ {formatCents(fill.price)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// 导出组件
+Preview.Components = Preview.Components || {};
+Preview.Components.MarketMakerTab = MarketMakerTab;
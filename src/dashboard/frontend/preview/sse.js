@@ -38,6 +38,8 @@ const useArbScanner = (addNotification, addOrderToast) => {
     const [closeOpportunities, setCloseOpportunities] = useState({ opportunities: [], lastUpdate: null });
     const [isConnected, setIsConnected] = useState(false);
     const [exposureAlert, setExposureAlert] = useState(null);
+    const [riskAlert, setRiskAlert] = useState(null);
+    const [marketMaker, setMarketMaker] = useState(null);  // 做市状态 (Dashboard 未启用做市时为 null)
     const eventSourceRef = useRef(null);
     const lastNotifiedRef = useRef(new Set());
     const reconnectTimeoutRef = useRef(null);
@@ -294,6 +296,38 @@ const useArbScanner = (addNotification, addOrderToast) => {
                 console.error('Parse exposureAlert error:', err);
             }
         });
+
+        // 处理风控熔断 / 解除
+        es.addEventListener('riskBreach', (e) => {
+            try {
+                const status = JSON.parse(e.data);
+                console.error('⛔ 风控熔断:', status.halt?.reason);
+                setRiskAlert(status);
+            } catch (err) {
+                console.error('Parse riskBreach error:', err);
+            }
+        });
+        es.addEventListener('riskResume', () => setRiskAlert(null));
+
+        // 处理做市状态 (市场配置 + MarketState + TradingStats)
+        es.addEventListener('marketMaker', (e) => {
+            try {
+                setMarketMaker(JSON.parse(e.data));
+            } catch (err) {
+                console.error('Parse marketMaker error:', err);
+            }
+        });
+
+        // 处理做市成交 (先插入最近成交，完整状态随后推送)
+        es.addEventListener('mmFill', (e) => {
+            try {
+                const fill = JSON.parse(e.data);
+                console.log('💱 做市成交:', fill.marketId, fill.side, fill.quantity, '@', fill.price);
+                setMarketMaker(prev => prev ? { ...prev, recentFills: [fill, ...prev.recentFills].slice(0, 50) } : prev);
+            } catch (err) {
+                console.error('Parse mmFill error:', err);
+            }
+        });
     }, [addNotification, addOrderToast]);
 
     useEffect(() => {
@@ -310,7 +344,7 @@ const useArbScanner = (addNotification, addOrderToast) => {
         };
     }, [connectSSE]);
 
-    return { opportunities, history, chartData, stats, accounts, tasks, sports, closeOpportunities, isConnected, exposureAlert, setExposureAlert };
+    return { opportunities, history, chartData, stats, accounts, tasks, sports, closeOpportunities, isConnected, exposureAlert, setExposureAlert, riskAlert, setRiskAlert, marketMaker, setMarketMaker };
 };
 
 Preview.useArbScanner = useArbScanner;
@@ -7,10 +7,12 @@
  * - 统计报表
  * - 失败任务分析
  * - 订单簿快照查看
+ *
+ * 数据来自 TaskLogger 实时写入的 SQLite (不再逐次解析 JSONL)
  */
 
-import * as fs from 'fs';
-import * as path from 'path';
+import Database from 'better-sqlite3';
+import { getTaskLogger } from './task-logger/index.js';
 
 // ============================================================================
 // 类型定义
@@ -125,39 +127,68 @@ export interface OrderBookSnapshot {
 // 工具函数
 // ============================================================================
 
-function formatDuration(ms: number): string {
-    if (ms < 1000) return `${ms}ms`;
-    if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
-    return `${(ms / 60000).toFixed(1)}m`;
+interface TaskLogRow {
+    task_id: string;
+    type: string | null;
+    market_id: number | null;
+    title: string | null;
+    status: string;
+    is_success: number;
+    start_time: number;
+    end_time: number;
+    duration_ms: number;
+    predict_filled_qty: number | null;
+    hedged_qty: number | null;
+    actual_profit: number | null;
+    profit_percent: number | null;
+    unwind_loss: number | null;
+    pause_count: number | null;
+    hedge_retry_count: number | null;
+    has_summary: number;
 }
 
-function readJsonl<T>(filePath: string): T[] {
-    if (!fs.existsSync(filePath)) return [];
-
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const lines = content.trim().split('\n').filter(l => l.trim());
-    const results: T[] = [];
-
-    for (const line of lines) {
-        try {
-            results.push(JSON.parse(line));
-        } catch {
-            // 忽略解析失败的行
-        }
-    }
-
-    return results;
+function rowToSummary(row: TaskLogRow): TaskLogSummary {
+    return {
+        taskId: row.task_id,
+        type: row.type || 'UNKNOWN',
+        marketId: row.market_id || 0,
+        title: row.title || row.task_id,
+        status: row.status,
+        isSuccess: row.is_success === 1,
+        startTime: row.start_time,
+        endTime: row.end_time,
+        durationMs: row.duration_ms,
+        predictFilledQty: row.predict_filled_qty || 0,
+        hedgedQty: row.hedged_qty || 0,
+        actualProfit: row.actual_profit || 0,
+        profitPercent: row.profit_percent || 0,
+    };
 }
 
-function readSummary(taskDir: string): TaskLogSummary | null {
-    const summaryPath = path.join(taskDir, 'summary.json');
-    if (!fs.existsSync(summaryPath)) return null;
-
-    try {
-        const content = fs.readFileSync(summaryPath, 'utf-8');
-        return JSON.parse(content);
-    } catch {
-        return null;
+function describeEvent(type: string, p: any): string {
+    switch (type) {
+        case 'TASK_CREATED':
+        case 'TASK_STARTED':
+            return `${p.taskConfig?.type || ''} ${p.taskConfig?.quantity || ''} @ ${p.taskConfig?.predictPrice || ''}`;
+        case 'ORDER_SUBMITTED':
+            return `${p.platform} ${p.side} ${p.quantity} @ ${p.price}`;
+        case 'ORDER_FILLED':
+        case 'ORDER_PARTIAL_FILL':
+            return `${p.platform} filled ${p.filledQty} @ ${p.avgPrice}`;
+        case 'ORDER_CANCELLED':
+            // 尝试显示取消原因
+            if (p.cancelReason) return p.cancelReason;
+            return `${p.platform || ''} ${p.side || ''} ${p.quantity || ''} @ ${p.price || ''}`.trim();
+        case 'PRICE_GUARD_TRIGGERED':
+            return `poly=${p.triggerPrice?.toFixed(4)} > max=${p.thresholdPrice}`;
+        case 'HEDGE_COMPLETED':
+            return `hedged ${p.hedgeQty} @ ${p.avgHedgePrice?.toFixed(4)}`;
+        case 'TASK_COMPLETED':
+            return `profit: $${(p.profit || 0).toFixed(2)}`;
+        case 'TASK_FAILED':
+            return p.reason || p.error?.message || '';
+        default:
+            return p.reason || '';
     }
 }
 
@@ -165,11 +196,14 @@ function readSummary(taskDir: string): TaskLogSummary | null {
 // LogQueryService 类
 // ============================================================================
 
+/**
+ * 查询 TaskLogger 的 SQLite 存储 (task_logs / events / orderbook_snapshots)
+ */
 export class LogQueryService {
-    private logsBaseDir: string;
+    private db: Database.Database;
 
-    constructor() {
-        this.logsBaseDir = path.join(process.cwd(), 'data', 'logs', 'tasks');
+    constructor(db?: Database.Database) {
+        this.db = db ?? getTaskLogger().getSqliteSink().getDatabase();
     }
 
     /**
@@ -184,224 +218,124 @@ export class LogQueryService {
         const limit = options?.limit || 50;
         const offset = options?.offset || 0;
 
-        if (!fs.existsSync(this.logsBaseDir)) {
-            return { tasks: [], total: 0 };
-        }
-
-        const taskDirs = fs.readdirSync(this.logsBaseDir)
-            .filter(name => {
-                const taskDir = path.join(this.logsBaseDir, name);
-                return fs.statSync(taskDir).isDirectory();
-            });
-
-        // 读取所有任务摘要
-        const allTasks: TaskLogSummary[] = [];
-        for (const taskId of taskDirs) {
-            const taskDir = path.join(this.logsBaseDir, taskId);
-            const summary = readSummary(taskDir);
-            if (summary) {
-                allTasks.push(summary);
-            } else {
-                // 没有 summary，从 events 构建基本信息
-                const eventsPath = path.join(taskDir, 'events.jsonl');
-                const events = readJsonl<any>(eventsPath);
-                if (events.length > 0) {
-                    const firstEvent = events[0];
-                    const lastEvent = events[events.length - 1];
-                    allTasks.push({
-                        taskId,
-                        type: firstEvent.payload?.taskConfig?.type || 'UNKNOWN',
-                        marketId: firstEvent.payload?.taskConfig?.marketId || 0,
-                        title: firstEvent.payload?.taskConfig?.title || taskId,
-                        status: lastEvent.type?.replace('TASK_', '') || 'UNKNOWN',
-                        isSuccess: lastEvent.type === 'TASK_COMPLETED',
-                        startTime: firstEvent.timestamp,
-                        endTime: lastEvent.timestamp,
-                        durationMs: lastEvent.timestamp - firstEvent.timestamp,
-                        predictFilledQty: 0,
-                        hedgedQty: 0,
-                        actualProfit: 0,
-                        profitPercent: 0,
-                    });
-                }
-            }
-        }
-
-        // 过滤
-        let filtered = allTasks;
+        const where: string[] = [];
+        const params: (string | number)[] = [];
         if (options?.status) {
-            filtered = filtered.filter(t => t.status === options.status);
+            where.push('status = ?');
+            params.push(options.status);
         }
         if (options?.type) {
-            filtered = filtered.filter(t => t.type === options.type);
+            where.push('type = ?');
+            params.push(options.type);
         }
+        const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
 
-        // 按时间降序
-        filtered.sort((a, b) => b.startTime - a.startTime);
+        const total = (this.db.prepare(`SELECT COUNT(*) AS n FROM task_logs ${whereSql}`).get(...params) as { n: number }).n;
+        const rows = this.db.prepare(
+            `SELECT * FROM task_logs ${whereSql} ORDER BY start_time DESC LIMIT ? OFFSET ?`
+        ).all(...params, limit, offset) as TaskLogRow[];
 
-        // 分页
-        const paged = filtered.slice(offset, offset + limit);
-
-        return { tasks: paged, total: filtered.length };
+        return { tasks: rows.map(rowToSummary), total };
     }
 
     /**
      * 获取任务时间线
      */
     getTaskTimeline(taskId: string): TaskTimeline | null {
-        const taskDir = path.join(this.logsBaseDir, taskId);
-        if (!fs.existsSync(taskDir)) return null;
-
-        const summary = readSummary(taskDir);
-        const eventsPath = path.join(taskDir, 'events.jsonl');
-        const events = readJsonl<any>(eventsPath);
+        const row = this.db.prepare('SELECT * FROM task_logs WHERE task_id = ?').get(taskId) as TaskLogRow | undefined;
+        const events = this.db.prepare(
+            'SELECT sequence, timestamp, type, payload FROM events WHERE task_id = ? ORDER BY sequence'
+        ).all(taskId) as Array<{ sequence: number; timestamp: number; type: string; payload: string | null }>;
 
-        if (events.length === 0) return null;
+        if (!row || events.length === 0) return null;
 
-        const firstEvent = events[0];
         const lastEvent = events[events.length - 1];
 
         // 构建时间线事件
         const timelineEvents: TaskTimelineEvent[] = events.map(event => {
-            let detail = '';
-            const p = event.payload || {};
-
-            switch (event.type) {
-                case 'TASK_CREATED':
-                case 'TASK_STARTED':
-                    detail = `${p.taskConfig?.type || ''} ${p.taskConfig?.quantity || ''} @ ${p.taskConfig?.predictPrice || ''}`;
-                    break;
-                case 'ORDER_SUBMITTED':
-                    detail = `${p.platform} ${p.side} ${p.quantity} @ ${p.price}`;
-                    break;
-                case 'ORDER_FILLED':
-                case 'ORDER_PARTIAL_FILL':
-                    detail = `${p.platform} filled ${p.filledQty} @ ${p.avgPrice}`;
-                    break;
-                case 'ORDER_CANCELLED':
-                    // 尝试显示取消原因
-                    if (p.cancelReason) {
-                        detail = p.cancelReason;
-                    } else {
-                        detail = `${p.platform || ''} ${p.side || ''} ${p.quantity || ''} @ ${p.price || ''}`.trim();
-                    }
-                    break;
-                case 'PRICE_GUARD_TRIGGERED':
-                    detail = `poly=${p.triggerPrice?.toFixed(4)} > max=${p.thresholdPrice}`;
-                    break;
-                case 'HEDGE_COMPLETED':
-                    detail = `hedged ${p.hedgeQty} @ ${p.avgHedgePrice?.toFixed(4)}`;
-                    break;
-                case 'TASK_COMPLETED':
-                    detail = `profit: $${(p.profit || 0).toFixed(2)}`;
-                    break;
-                case 'TASK_FAILED':
-                    detail = p.reason || p.error?.message || '';
-                    break;
-                default:
-                    if (p.reason) detail = p.reason;
-            }
-
+            const p = event.payload ? JSON.parse(event.payload) : {};
             return {
                 timestamp: event.timestamp,
                 sequence: event.sequence,
                 type: event.type,
-                detail,
+                detail: describeEvent(event.type, p),
                 payload: p,
             };
         });
 
+        const summary = rowToSummary(row);
+        const isFinished = lastEvent.type.includes('COMPLETED') || lastEvent.type.includes('FAILED');
+
         return {
             taskId,
-            type: summary?.type || firstEvent.payload?.taskConfig?.type || 'UNKNOWN',
-            marketId: summary?.marketId || firstEvent.payload?.taskConfig?.marketId || 0,
-            title: summary?.title || firstEvent.payload?.taskConfig?.title || taskId,
-            status: summary?.status || lastEvent.type?.replace('TASK_', '') || 'UNKNOWN',
-            createdAt: summary?.startTime || firstEvent.timestamp,
-            completedAt: summary?.endTime || (lastEvent.type?.includes('COMPLETED') || lastEvent.type?.includes('FAILED') ? lastEvent.timestamp : null),
-            durationMs: summary?.durationMs || (lastEvent.timestamp - firstEvent.timestamp),
-            actualProfit: summary?.actualProfit || 0,
+            type: summary.type,
+            marketId: summary.marketId,
+            title: summary.title,
+            status: summary.status,
+            createdAt: summary.startTime,
+            completedAt: row.has_summary === 1 || isFinished ? summary.endTime : null,
+            durationMs: summary.durationMs,
+            actualProfit: summary.actualProfit,
             events: timelineEvents,
         };
     }
 
     /**
-     * 获取统计数据
+     * 获取统计数据 (仅统计已生成 summary 的任务)
      */
     getStats(days: number = 7): LogStats {
         const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+        const base = 'FROM task_logs WHERE has_summary = 1 AND start_time >= ?';
+
+        const totals = this.db.prepare(`
+            SELECT
+                COUNT(*) AS total,
+                SUM(CASE WHEN is_success = 1 THEN 1 ELSE 0 END) AS success,
+                SUM(CASE WHEN is_success = 0 AND status IN ('FAILED', 'HEDGE_FAILED') THEN 1 ELSE 0 END) AS failed,
+                SUM(CASE WHEN is_success = 0 AND status = 'CANCELLED' THEN 1 ELSE 0 END) AS cancelled,
+                COALESCE(SUM(actual_profit), 0) AS totalProfit,
+                COALESCE(SUM(duration_ms), 0) AS totalDuration,
+                COALESCE(SUM(predict_filled_qty), 0) AS totalVolume
+            ${base}
+        `).get(cutoff) as {
+            total: number; success: number | null; failed: number | null; cancelled: number | null;
+            totalProfit: number; totalDuration: number; totalVolume: number;
+        };
 
-        if (!fs.existsSync(this.logsBaseDir)) {
+        if (totals.total === 0) {
             return this.emptyStats(days);
         }
 
-        const taskDirs = fs.readdirSync(this.logsBaseDir)
-            .filter(name => {
-                const taskDir = path.join(this.logsBaseDir, name);
-                return fs.statSync(taskDir).isDirectory();
-            });
-
-        let total = 0, success = 0, failed = 0, cancelled = 0;
-        let totalProfit = 0, totalDuration = 0, totalVolume = 0;
-        const byType: Map<string, { count: number; profit: number; profitPercentSum: number }> = new Map();
-        const byMarket: Map<number, { title: string; count: number; profit: number }> = new Map();
-
-        for (const taskId of taskDirs) {
-            const taskDir = path.join(this.logsBaseDir, taskId);
-            const summary = readSummary(taskDir);
-
-            if (!summary) continue;
-            if (summary.startTime < cutoff) continue;
-
-            total++;
-            if (summary.isSuccess) success++;
-            else if (summary.status === 'FAILED' || summary.status === 'HEDGE_FAILED') failed++;
-            else if (summary.status === 'CANCELLED') cancelled++;
-
-            totalProfit += summary.actualProfit || 0;
-            totalDuration += summary.durationMs || 0;
-            totalVolume += summary.predictFilledQty || 0;
-
-            // 按类型统计
-            const typeStats = byType.get(summary.type) || { count: 0, profit: 0, profitPercentSum: 0 };
-            typeStats.count++;
-            typeStats.profit += summary.actualProfit || 0;
-            typeStats.profitPercentSum += summary.profitPercent || 0;
-            byType.set(summary.type, typeStats);
-
-            // 按市场统计
-            const marketStats = byMarket.get(summary.marketId) || { title: summary.title, count: 0, profit: 0 };
-            marketStats.count++;
-            marketStats.profit += summary.actualProfit || 0;
-            byMarket.set(summary.marketId, marketStats);
-        }
-
+        const byType = this.db.prepare(`
+            SELECT type, COUNT(*) AS count, COALESCE(SUM(actual_profit), 0) AS profit,
+                   COALESCE(AVG(profit_percent), 0) AS avgProfitPercent
+            ${base}
+            GROUP BY type
+        `).all(cutoff) as LogStats['byType'];
+
+        const byMarket = this.db.prepare(`
+            SELECT market_id AS marketId, MAX(title) AS title, COUNT(*) AS count,
+                   COALESCE(SUM(actual_profit), 0) AS profit
+            ${base}
+            GROUP BY market_id
+            ORDER BY count DESC
+            LIMIT 10
+        `).all(cutoff) as LogStats['byMarket'];
+
+        const total = totals.total;
         return {
             period: `Last ${days} days`,
             total,
-            success,
-            failed,
-            cancelled,
-            successRate: total > 0 ? (success / total) * 100 : 0,
-            totalProfit,
-            avgProfit: total > 0 ? totalProfit / total : 0,
-            avgDuration: total > 0 ? totalDuration / total : 0,
-            totalVolume,
-            byType: Array.from(byType.entries()).map(([type, stats]) => ({
-                type,
-                count: stats.count,
-                profit: stats.profit,
-                avgProfitPercent: stats.count > 0 ? stats.profitPercentSum / stats.count : 0,
-            })),
-            byMarket: Array.from(byMarket.entries())
-                .map(([marketId, stats]) => ({
-                    marketId,
-                    title: stats.title,
-                    count: stats.count,
-                    profit: stats.profit,
-                }))
-                .sort((a, b) => b.count - a.count)
-                .slice(0, 10),
+            success: totals.success ?? 0,
+            failed: totals.failed ?? 0,
+            cancelled: totals.cancelled ?? 0,
+            successRate: ((totals.success ?? 0) / total) * 100,
+            totalProfit: totals.totalProfit,
+            avgProfit: totals.totalProfit / total,
+            avgDuration: totals.totalDuration / total,
+            totalVolume: totals.totalVolume,
+            byType,
+            byMarket,
         };
     }
 
@@ -411,75 +345,52 @@ export class LogQueryService {
     getFailures(days: number = 7): FailedTask[] {
         const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
 
-        if (!fs.existsSync(this.logsBaseDir)) {
-            return [];
-        }
-
-        const taskDirs = fs.readdirSync(this.logsBaseDir)
-            .filter(name => {
-                const taskDir = path.join(this.logsBaseDir, name);
-                return fs.statSync(taskDir).isDirectory();
-            });
-
-        const failures: FailedTask[] = [];
-
-        for (const taskId of taskDirs) {
-            const taskDir = path.join(this.logsBaseDir, taskId);
-            const summary = readSummary(taskDir);
-
-            if (!summary) continue;
-            if (summary.startTime < cutoff) continue;
-            if (!['FAILED', 'HEDGE_FAILED', 'UNWIND_COMPLETED'].includes(summary.status)) continue;
-
+        const rows = this.db.prepare(`
+            SELECT t.*, (
+                SELECT e.payload FROM events e
+                WHERE e.task_id = t.task_id AND e.type LIKE '%FAILED%'
+                ORDER BY e.sequence LIMIT 1
+            ) AS failed_payload
+            FROM task_logs t
+            WHERE t.has_summary = 1 AND t.start_time >= ?
+              AND t.status IN ('FAILED', 'HEDGE_FAILED', 'UNWIND_COMPLETED')
+            ORDER BY t.start_time DESC
+        `).all(cutoff) as Array<TaskLogRow & { failed_payload: string | null }>;
+
+        return rows.map(row => {
             // 获取错误信息
-            const eventsPath = path.join(taskDir, 'events.jsonl');
-            const events = readJsonl<any>(eventsPath);
-            const failedEvent = events.find(e => e.type.includes('FAILED'));
-            const errorMessage = failedEvent?.payload?.error?.message
-                || failedEvent?.payload?.reason
+            const failedPayload = row.failed_payload ? JSON.parse(row.failed_payload) : null;
+            const errorMessage = failedPayload?.error?.message
+                || failedPayload?.reason
                 || '';
 
-            failures.push({
-                taskId,
-                type: summary.type,
-                marketId: summary.marketId,
-                title: summary.title,
-                status: summary.status,
-                createdAt: summary.startTime,
-                durationMs: summary.durationMs,
-                loss: summary.actualProfit,
-                unwindLoss: (summary as any).unwindLoss || 0,
-                pauseCount: (summary as any).pauseCount || 0,
-                hedgeRetryCount: (summary as any).hedgeRetryCount || 0,
+            return {
+                taskId: row.task_id,
+                type: row.type || 'UNKNOWN',
+                marketId: row.market_id || 0,
+                title: row.title || row.task_id,
+                status: row.status,
+                createdAt: row.start_time,
+                durationMs: row.duration_ms,
+                loss: row.actual_profit || 0,
+                unwindLoss: row.unwind_loss || 0,
+                pauseCount: row.pause_count || 0,
+                hedgeRetryCount: row.hedge_retry_count || 0,
                 errorMessage,
-            });
-        }
-
-        // 按时间降序
-        failures.sort((a, b) => b.createdAt - a.createdAt);
-
-        return failures;
+            };
+        });
     }
 
     /**
      * 获取订单簿快照
      */
     getOrderBookSnapshot(taskId: string, sequence?: number): OrderBookSnapshot[] {
-        const taskDir = path.join(this.logsBaseDir, taskId);
-        const snapshotsPath = path.join(taskDir, 'orderbooks.jsonl');
-
-        if (!fs.existsSync(snapshotsPath)) {
-            return [];
-        }
-
-        const snapshots = readJsonl<any>(snapshotsPath);
-
-        if (sequence !== undefined) {
-            const found = snapshots.find(s => s.sequence === sequence);
-            return found ? [this.formatSnapshot(found)] : [];
-        }
+        const rows = (sequence !== undefined
+            ? this.db.prepare('SELECT data FROM orderbook_snapshots WHERE task_id = ? AND sequence = ?').all(taskId, sequence)
+            : this.db.prepare('SELECT data FROM orderbook_snapshots WHERE task_id = ? ORDER BY sequence').all(taskId)
+        ) as Array<{ data: string }>;
 
-        return snapshots.map(s => this.formatSnapshot(s));
+        return rows.map(row => this.formatSnapshot(JSON.parse(row.data)));
     }
 
     private formatSnapshot(raw: any): OrderBookSnapshot {
@@ -0,0 +1,33 @@
+/**
+ * 市场映射模块导出
+ *
+ * Predict ↔ Polymarket 市场映射的唯一来源：扫描结果经 MappingRegistry 合并人工覆盖后生效，
+ * 存储于 data/market-mappings.db，支持 pin / override / 黑名单与变更记录。
+ */
+
+import * as path from 'path';
+import { MappingRegistry } from './mapping-registry.js';
+
+// 类型导出
+export * from './types.js';
+
+export { MappingRegistry } from './mapping-registry.js';
+export { MappingStore } from './mapping-store.js';
+export { MATCH_METHOD_CONFIDENCE, detectInversion, findAnyOtherMarket, normalizeQuestionForMatch } from './matcher.js';
+export {
+    compareResolutionTerms,
+    gradeIssues,
+    validateMappingResolution,
+    validateMappingResolutions,
+    type ResolutionValidationOptions,
+} from './resolution-validator.js';
+
+// 单例
+let registryInstance: MappingRegistry | null = null;
+
+export function getMappingRegistry(): MappingRegistry {
+    if (!registryInstance) {
+        registryInstance = new MappingRegistry(path.join(process.cwd(), 'data', 'market-mappings.db'));
+    }
+    return registryInstance;
+}
@@ -0,0 +1,455 @@
+/**
+ * Mapping Registry - Predict ↔ Polymarket 市场映射注册表
+ *
+ * 扫描 (start-dashboard / ArbScannerService / SportsService) 只产出候选映射，由注册表决定最终生效的映射：
+ * - auto 映射随扫描结果更新，conditionId / token / 方向变化均记录变更
+ * - pinned / override 映射不被扫描覆盖；扫描结果不一致时记录 conflict 供人工核对
+ * - blacklisted 映射不生成机会，也不允许创建任务
+ *
+ * 映射错误会把套利变成单边押注，所有人工操作都保留 before / after 快照。
+ */
+
+import { EventEmitter } from 'events';
+import { MappingStore } from './mapping-store.js';
+import { MATCH_METHOD_CONFIDENCE } from './matcher.js';
+import type {
+    ManualMappingInput,
+    MappingAction,
+    MappingCandidate,
+    MappingChange,
+    MappingQuery,
+    MappingTaskFields,
+    MarketMapping,
+    ResolutionCheck,
+} from './types.js';
+
+const CONDITION_ID_RE = /^0x[0-9a-fA-F]{64}$/;
+const TOKEN_ID_RE = /^\d+$/;
+
+function sameConditionId(a: string | undefined, b: string | undefined): boolean {
+    return (a || '').toLowerCase() === (b || '').toLowerCase();
+}
+
+export class MappingRegistry extends EventEmitter {
+    private store: MappingStore;
+    private mappings = new Map<number, MarketMapping>();
+    private version = 0;
+    private requireResolution = false;
+
+    constructor(dbPath: string) {
+        super();
+        this.store = new MappingStore(dbPath);
+        for (const mapping of this.store.loadAll()) {
+            this.mappings.set(mapping.predictMarketId, mapping);
+        }
+    }
+
+    /**
+     * 未完成结算条件比对的映射是否禁止开仓 (映射新建 / 变更后到比对完成之间)
+     */
+    setRequireResolution(required: boolean): void {
+        this.requireResolution = required;
+    }
+
+    /**
+     * 映射变更计数 (用于调用方判断缓存是否过期)
+     */
+    getVersion(): number {
+        return this.version;
+    }
+
+    get(predictMarketId: number): MarketMapping | null {
+        return this.mappings.get(predictMarketId) ?? null;
+    }
+
+    list(query: MappingQuery = {}): MarketMapping[] {
+        const search = query.search?.trim().toLowerCase();
+        return [...this.mappings.values()].filter(mapping => {
+            if (query.status && query.status.length > 0 && !query.status.includes(mapping.status)) return false;
+            if (query.source && mapping.source !== query.source) return false;
+            if (search) {
+                const text = [
+                    String(mapping.predictMarketId),
+                    mapping.conditionId,
+                    mapping.predictTitle,
+                    mapping.predictQuestion,
+                    mapping.polymarketQuestion,
+                ].join(' ').toLowerCase();
+                if (!text.includes(search)) return false;
+            }
+            return true;
+        });
+    }
+
+    /**
+     * 生效映射 (排除黑名单)
+     */
+    getActiveMappings(source?: MarketMapping['source']): MarketMapping[] {
+        return [...this.mappings.values()].filter(mapping =>
+            mapping.status !== 'blacklisted'
+            && mapping.conditionId
+            && (!source || mapping.source === source)
+        );
+    }
+
+    /**
+     * 查询生效映射；黑名单或不存在时返回 null
+     */
+    resolve(predictMarketId: number): MarketMapping | null {
+        const mapping = this.mappings.get(predictMarketId);
+        return mapping && mapping.status !== 'blacklisted' ? mapping : null;
+    }
+
+    findByConditionId(conditionId: string): MarketMapping[] {
+        return [...this.mappings.values()].filter(m => sameConditionId(m.conditionId, conditionId));
+    }
+
+    /**
+     * 是否允许按该 conditionId 交易 (未登记的市场不做限制)
+     */
+    isTradable(predictMarketId: number, conditionId: string): boolean {
+        const mapping = this.mappings.get(predictMarketId);
+        if (!mapping) return true;
+        return mapping.status !== 'blacklisted' && sameConditionId(mapping.conditionId, conditionId);
+    }
+
+    /**
+     * 创建任务前校验映射 (黑名单 / conditionId、方向、token 不一致 / 未接受的 F 级结算风险 / 未比对)
+     *
+     * @param fields 任务携带的方向与 token；传入的字段必须与注册表一致 (客户端缓存过期时拒绝)
+     * @param closing 平仓任务: 黑名单 / F 级映射上的已有持仓仍允许平仓，只校验映射字段
+     */
+    assertTradable(predictMarketId: number, conditionId: string, fields: MappingTaskFields = {}, closing: boolean = false): void {
+        const mapping = this.mappings.get(predictMarketId);
+        if (!mapping) return;
+        if (mapping.status === 'blacklisted' && !closing) {
+            throw new Error(`市场 ${predictMarketId} 映射已列入黑名单${mapping.note ? `: ${mapping.note}` : ''}`);
+        }
+        if (!sameConditionId(mapping.conditionId, conditionId)) {
+            throw new Error(`市场 ${predictMarketId} 的 conditionId 与映射不一致 (映射: ${mapping.conditionId})`);
+        }
+        if (fields.isInverted !== undefined && fields.isInverted !== mapping.inverted) {
+            throw new Error(`市场 ${predictMarketId} 的方向与映射不一致 (映射 inverted=${mapping.inverted})，请刷新后重试`);
+        }
+        if (fields.yesTokenId && mapping.yesTokenId && fields.yesTokenId !== mapping.yesTokenId) {
+            throw new Error(`市场 ${predictMarketId} 的 YES token 与映射不一致 (映射: ${mapping.yesTokenId})`);
+        }
+        if (fields.noTokenId && mapping.noTokenId && fields.noTokenId !== mapping.noTokenId) {
+            throw new Error(`市场 ${predictMarketId} 的 NO token 与映射不一致 (映射: ${mapping.noTokenId})`);
+        }
+        if (!closing && this.isResolutionBlocked(predictMarketId)) {
+            const issues = this.getResolution(predictMarketId)!.issues
+                .filter(issue => issue.severity === 'critical')
+                .map(issue => issue.message);
+            throw new Error(`市场 ${predictMarketId} 结算条件不一致 (F): ${issues.join('; ')}`);
+        }
+        if (!closing && this.requireResolution && !this.getResolution(predictMarketId)) {
+            throw new Error(`市场 ${predictMarketId} 尚未完成结算条件比对，请稍后重试`);
+        }
+    }
+
+    /**
+     * 当前映射的结算条件比对结果 (映射改变后失效)
+     */
+    getResolution(predictMarketId: number): ResolutionCheck | null {
+        const mapping = this.mappings.get(predictMarketId);
+        const check = mapping?.resolution;
+        return check && sameConditionId(check.conditionId, mapping.conditionId) ? check : null;
+    }
+
+    /**
+     * F 级且未被人工接受
+     */
+    isResolutionBlocked(predictMarketId: number): boolean {
+        const mapping = this.mappings.get(predictMarketId);
+        if (!mapping || this.getResolution(predictMarketId)?.grade !== 'F') return false;
+        return !mapping.resolutionAccepted || !sameConditionId(mapping.resolutionAccepted.conditionId, mapping.conditionId);
+    }
+
+    /**
+     * 记录结算条件比对结果；等级变化时记录变更
+     */
+    setResolution(predictMarketId: number, check: ResolutionCheck, actor: string = 'validator'): void {
+        const existing = this.mappings.get(predictMarketId);
+        if (!existing || !sameConditionId(existing.conditionId, check.conditionId)) return;
+
+        const previous = this.getResolution(predictMarketId);
+        const next: MarketMapping = { ...existing, resolution: check };
+        if (previous?.grade === check.grade) {
+            this.save(next, null);
+            return;
+        }
+
+        const now = Date.now();
+        next.updatedAt = now;
+        const issues = check.issues.filter(issue => issue.severity !== 'info').map(issue => issue.message);
+        this.save(next, {
+            action: 'validate',
+            actor,
+            before: existing,
+            reason: `${previous?.grade ?? '-'} → ${check.grade}${issues.length > 0 ? `: ${issues.join('; ')}` : ''}`,
+            at: now,
+        });
+        if (check.grade === 'F' || check.grade === 'D') {
+            console.warn(`[MappingRegistry] Predict#${predictMarketId} 结算风险 ${check.grade}: ${issues.join('; ')}`);
+        }
+    }
+
+    /**
+     * 人工接受当前的结算风险 (F 级映射允许创建任务，映射改变后失效)
+     */
+    acceptResolutionRisk(predictMarketId: number, reason?: string, actor: string = 'api'): MarketMapping {
+        const existing = this.require(predictMarketId);
+        const check = this.getResolution(predictMarketId);
+        if (!check) {
+            throw new Error(`市场 ${predictMarketId} 尚未完成结算条件比对`);
+        }
+        return this.applyManual(existing, {
+            resolutionAccepted: { conditionId: existing.conditionId, grade: check.grade, reason, at: Date.now() },
+        }, 'accept-risk', actor, reason);
+    }
+
+    /**
+     * 提交扫描结果，返回生效映射 (黑名单返回 null)
+     */
+    upsertCandidate(candidate: MappingCandidate, actor: string = 'scanner'): MarketMapping | null {
+        const existing = this.mappings.get(candidate.predictMarketId);
+        const now = Date.now();
+
+        if (!existing) {
+            const created: MarketMapping = { ...candidate, status: 'auto', createdAt: now, updatedAt: now };
+            this.save(created, { action: 'create', actor, before: null, reason: candidate.matchMethod, at: now });
+            return created;
+        }
+
+        // 市场信息 (标题、费率、可交易状态) 总是刷新
+        const refreshed: MarketMapping = {
+            ...existing,
+            active: candidate.active,
+            predictTitle: candidate.predictTitle ?? existing.predictTitle,
+            predictQuestion: candidate.predictQuestion ?? existing.predictQuestion,
+            categorySlug: candidate.categorySlug ?? existing.categorySlug,
+            feeRateBps: candidate.feeRateBps ?? existing.feeRateBps,
+        };
+
+        // 人工映射: 扫描结果只用于冲突提示
+        if (existing.status !== 'auto') {
+            const conflict = existing.conditionId && !sameConditionId(existing.conditionId, candidate.conditionId);
+            if (conflict && existing.conflictConditionId !== candidate.conditionId) {
+                const next = { ...refreshed, conflictConditionId: candidate.conditionId, updatedAt: now };
+                this.save(next, {
+                    action: 'conflict',
+                    actor,
+                    before: existing,
+                    reason: `扫描结果 ${candidate.conditionId} (${candidate.matchMethod}) 与 ${existing.status} 映射不一致`,
+                    at: now,
+                });
+                console.warn(`[MappingRegistry] Predict#${candidate.predictMarketId} ${existing.status} 映射与扫描结果不一致: ${existing.conditionId.slice(0, 10)}… vs ${candidate.conditionId.slice(0, 10)}…`);
+            } else if (!conflict && existing.conflictConditionId) {
+                this.save({ ...refreshed, conflictConditionId: undefined, updatedAt: now }, null);
+            } else if (this.metadataChanged(existing, refreshed)) {
+                this.save(refreshed, null);
+            }
+            return existing.status === 'blacklisted' ? null : this.mappings.get(candidate.predictMarketId)!;
+        }
+
+        // auto 映射: 跟随扫描结果；同一 conditionId 下缺失的 token 沿用已有值
+        const sameMarket = sameConditionId(existing.conditionId, candidate.conditionId);
+
+        // 另一扫描来源 (主市场 / 体育) 的结果置信度不更高时不覆盖，避免两边来回切换
+        if (!sameMarket && existing.source !== candidate.source && candidate.confidence <= existing.confidence) {
+            if (this.metadataChanged(existing, refreshed)) {
+                this.save(refreshed, null);
+            }
+            return this.mappings.get(candidate.predictMarketId)!;
+        }
+        const next: MarketMapping = {
+            ...refreshed,
+            conditionId: candidate.conditionId,
+            yesTokenId: candidate.yesTokenId ?? (sameMarket ? existing.yesTokenId : null),
+            noTokenId: candidate.noTokenId ?? (sameMarket ? existing.noTokenId : null),
+            inverted: candidate.inverted,
+            invertedReason: candidate.invertedReason,
+            matchMethod: candidate.matchMethod,
+            confidence: candidate.confidence,
+            source: candidate.source,
+            polymarketQuestion: candidate.polymarketQuestion ?? existing.polymarketQuestion,
+        };
+
+        const mappingChanged = !sameMarket
+            || next.yesTokenId !== existing.yesTokenId
+            || next.noTokenId !== existing.noTokenId
+            || next.inverted !== existing.inverted
+            || next.matchMethod !== existing.matchMethod;
+
+        if (mappingChanged) {
+            next.updatedAt = now;
+            this.save(next, { action: 'update', actor, before: existing, reason: candidate.matchMethod, at: now });
+        } else if (this.metadataChanged(existing, next)) {
+            this.save(next, null);
+        }
+        return this.mappings.get(candidate.predictMarketId)!;
+    }
+
+    /**
+     * 批量提交扫描结果
+     */
+    reconcile(candidates: MappingCandidate[], actor: string = 'scanner'): MarketMapping[] {
+        const resolved: MarketMapping[] = [];
+        for (const candidate of candidates) {
+            const mapping = this.upsertCandidate(candidate, actor);
+            if (mapping) resolved.push(mapping);
+        }
+        return resolved;
+    }
+
+    /**
+     * 人工确认当前映射 (扫描结果不再覆盖)
+     */
+    pin(predictMarketId: number, actor: string = 'api', reason?: string): MarketMapping {
+        const existing = this.require(predictMarketId);
+        if (!existing.conditionId) {
+            throw new Error(`市场 ${predictMarketId} 没有可确认的 conditionId`);
+        }
+        return this.applyManual(existing, { status: 'pinned', conflictConditionId: undefined }, 'pin', actor, reason);
+    }
+
+    /**
+     * 人工指定映射
+     */
+    override(input: ManualMappingInput, actor: string = 'api'): MarketMapping {
+        if (!Number.isInteger(input.predictMarketId) || input.predictMarketId <= 0) {
+            throw new Error('无效的 predictMarketId');
+        }
+        if (!CONDITION_ID_RE.test(input.conditionId || '')) {
+            throw new Error(`无效的 conditionId: ${input.conditionId}`);
+        }
+        for (const tokenId of [input.yesTokenId, input.noTokenId]) {
+            if (tokenId && !TOKEN_ID_RE.test(tokenId)) {
+                throw new Error(`无效的 tokenId: ${tokenId}`);
+            }
+        }
+
+        const existing = this.mappings.get(input.predictMarketId) ?? null;
+        const sameMarket = existing ? sameConditionId(existing.conditionId, input.conditionId) : false;
+        const base = existing ?? this.placeholder(input.predictMarketId);
+        return this.applyManual(base, {
+            status: 'override',
+            conditionId: input.conditionId,
+            yesTokenId: input.yesTokenId ?? (sameMarket ? base.yesTokenId : null),
+            noTokenId: input.noTokenId ?? (sameMarket ? base.noTokenId : null),
+            inverted: input.inverted ?? (sameMarket ? base.inverted : false),
+            invertedReason: input.inverted !== undefined ? '人工指定' : (sameMarket ? base.invertedReason : undefined),
+            matchMethod: 'manual',
+            confidence: MATCH_METHOD_CONFIDENCE.manual,
+            conflictConditionId: undefined,
+            note: input.note ?? base.note,
+        }, 'override', actor, input.note, existing);
+    }
+
+    /**
+     * 列入黑名单 (未登记的市场也可直接拉黑)
+     */
+    blacklist(predictMarketId: number, reason?: string, actor: string = 'api'): MarketMapping {
+        const existing = this.mappings.get(predictMarketId) ?? null;
+        return this.applyManual(
+            existing ?? this.placeholder(predictMarketId),
+            { status: 'blacklisted', note: reason ?? existing?.note },
+            'blacklist',
+            actor,
+            reason,
+            existing
+        );
+    }
+
+    /**
+     * 解除 pin / override / 黑名单，恢复为 auto (下次扫描时更新)
+     */
+    release(predictMarketId: number, actor: string = 'api', reason?: string): MarketMapping {
+        const existing = this.require(predictMarketId);
+        return this.applyManual(existing, { status: 'auto', conflictConditionId: undefined }, 'release', actor, reason);
+    }
+
+    /**
+     * 删除映射 (下次扫描时重新匹配)
+     */
+    remove(predictMarketId: number, actor: string = 'api', reason?: string): void {
+        const existing = this.require(predictMarketId);
+        this.mappings.delete(predictMarketId);
+        this.store.delete(predictMarketId, { action: 'delete', actor, before: existing, reason, at: Date.now() });
+        this.version++;
+        this.emit('mapping:changed', { predictMarketId, action: 'delete', mapping: null });
+    }
+
+    getHistory(predictMarketId?: number, limit?: number): MappingChange[] {
+        return this.store.getHistory(predictMarketId, limit);
+    }
+
+    close(): void {
+        this.store.close();
+    }
+
+    private require(predictMarketId: number): MarketMapping {
+        const mapping = this.mappings.get(predictMarketId);
+        if (!mapping) {
+            throw new Error(`映射不存在: ${predictMarketId}`);
+        }
+        return mapping;
+    }
+
+    private placeholder(predictMarketId: number): MarketMapping {
+        const now = Date.now();
+        return {
+            predictMarketId,
+            conditionId: '',
+            yesTokenId: null,
+            noTokenId: null,
+            inverted: false,
+            matchMethod: 'manual',
+            confidence: MATCH_METHOD_CONFIDENCE.manual,
+            status: 'auto',
+            source: 'main',
+            active: true,
+            createdAt: now,
+            updatedAt: now,
+        };
+    }
+
+    private applyManual(
+        base: MarketMapping,
+        patch: Partial<MarketMapping>,
+        action: MappingAction,
+        actor: string,
+        reason?: string,
+        before: MarketMapping | null = base
+    ): MarketMapping {
+        const now = Date.now();
+        const next: MarketMapping = { ...base, ...patch, updatedAt: now };
+        this.save(next, { action, actor, before, reason, at: now });
+        console.log(`[MappingRegistry] Predict#${next.predictMarketId} ${action} by ${actor}${reason ? ` (${reason})` : ''}`);
+        return next;
+    }
+
+    private metadataChanged(a: MarketMapping, b: MarketMapping): boolean {
+        return a.active !== b.active
+            || a.predictTitle !== b.predictTitle
+            || a.predictQuestion !== b.predictQuestion
+            || a.categorySlug !== b.categorySlug
+            || a.feeRateBps !== b.feeRateBps
+            || a.polymarketQuestion !== b.polymarketQuestion
+            || a.confidence !== b.confidence
+            || a.invertedReason !== b.invertedReason;
+    }
+
+    /**
+     * 写入映射；change 为 null 时只刷新市场信息，不记录变更
+     */
+    private save(mapping: MarketMapping, change: Omit<MappingChange, 'id' | 'predictMarketId' | 'after'> | null): void {
+        this.mappings.set(mapping.predictMarketId, mapping);
+        this.store.save(mapping, change);
+        this.version++;
+        if (change) {
+            this.emit('mapping:changed', { predictMarketId: mapping.predictMarketId, action: change.action, mapping });
+        }
+    }
+}
@@ -0,0 +1,166 @@
+/**
+ * MappingStore - 市场映射 SQLite 存储
+ *
+ * - market_mappings 表: 每个 Predict 市场一行 (常用筛选列 + data 完整 JSON)
+ * - mapping_history 表: 变更记录 (before / after 快照)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import type { MappingAction, MappingChange, MarketMapping } from './types.js';
+
+const DEFAULT_HISTORY_LIMIT = 100;
+const MAX_HISTORY_LIMIT = 1000;
+
+interface MappingRow {
+    data: string;
+}
+
+interface HistoryRow {
+    id: number;
+    predict_market_id: number;
+    action: MappingAction;
+    actor: string;
+    before_data: string | null;
+    after_data: string | null;
+    reason: string | null;
+    at: number;
+}
+
+export class MappingStore {
+    private db: Database.Database;
+    private upsertStmt: Database.Statement;
+    private historyStmt: Database.Statement;
+
+    constructor(dbPath: string) {
+        fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+        this.db = new Database(dbPath);
+        this.db.pragma('journal_mode = WAL');
+        this.db.pragma('synchronous = NORMAL');
+        this.initSchema();
+
+        this.upsertStmt = this.db.prepare(`
+            INSERT INTO market_mappings (predict_market_id, condition_id, status, source, updated_at, data)
+            VALUES (@predictMarketId, @conditionId, @status, @source, @updatedAt, @data)
+            ON CONFLICT(predict_market_id) DO UPDATE SET
+                condition_id = excluded.condition_id,
+                status = excluded.status,
+                source = excluded.source,
+                updated_at = excluded.updated_at,
+                data = excluded.data
+        `);
+        this.historyStmt = this.db.prepare(`
+            INSERT INTO mapping_history (predict_market_id, action, actor, before_data, after_data, reason, at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `);
+    }
+
+    private initSchema(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS market_mappings (
+                predict_market_id INTEGER PRIMARY KEY,
+                condition_id TEXT NOT NULL,
+                status TEXT NOT NULL,
+                source TEXT NOT NULL,
+                updated_at INTEGER NOT NULL,
+                data TEXT NOT NULL
+            )
+        `);
+
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS mapping_history (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                predict_market_id INTEGER NOT NULL,
+                action TEXT NOT NULL,
+                actor TEXT NOT NULL,
+                before_data TEXT,
+                after_data TEXT,
+                reason TEXT,
+                at INTEGER NOT NULL
+            )
+        `);
+
+        this.db.exec(`
+            CREATE INDEX IF NOT EXISTS idx_mappings_condition ON market_mappings(condition_id);
+            CREATE INDEX IF NOT EXISTS idx_mapping_history_market ON mapping_history(predict_market_id, at);
+        `);
+    }
+
+    loadAll(): MarketMapping[] {
+        const rows = this.db.prepare('SELECT data FROM market_mappings ORDER BY predict_market_id').all() as MappingRow[];
+        return rows.map(row => JSON.parse(row.data) as MarketMapping);
+    }
+
+    /**
+     * 写入映射并记录变更 (单事务)；change 为 null 时不记录
+     */
+    save(mapping: MarketMapping, change: Omit<MappingChange, 'id' | 'predictMarketId' | 'after'> | null): void {
+        const tx = this.db.transaction(() => {
+            this.upsertStmt.run({
+                predictMarketId: mapping.predictMarketId,
+                conditionId: mapping.conditionId,
+                status: mapping.status,
+                source: mapping.source,
+                updatedAt: mapping.updatedAt,
+                data: JSON.stringify(mapping),
+            });
+            if (change) {
+                this.insertHistory(mapping.predictMarketId, { ...change, after: mapping });
+            }
+        });
+        tx();
+    }
+
+    /**
+     * 删除映射 (保留变更记录)
+     */
+    delete(predictMarketId: number, change: Omit<MappingChange, 'id' | 'predictMarketId' | 'after'>): void {
+        const tx = this.db.transaction(() => {
+            this.db.prepare('DELETE FROM market_mappings WHERE predict_market_id = ?').run(predictMarketId);
+            this.insertHistory(predictMarketId, { ...change, after: null });
+        });
+        tx();
+    }
+
+    /**
+     * 变更记录 (按时间倒序)
+     */
+    getHistory(predictMarketId?: number, limit?: number): MappingChange[] {
+        const size = Math.min(Math.max(Math.floor(limit ?? DEFAULT_HISTORY_LIMIT), 1), MAX_HISTORY_LIMIT);
+        const rows = (predictMarketId !== undefined
+            ? this.db.prepare(
+                'SELECT * FROM mapping_history WHERE predict_market_id = ? ORDER BY at DESC, id DESC LIMIT ?'
+            ).all(predictMarketId, size)
+            : this.db.prepare(
+                'SELECT * FROM mapping_history ORDER BY at DESC, id DESC LIMIT ?'
+            ).all(size)) as HistoryRow[];
+
+        return rows.map(row => ({
+            id: row.id,
+            predictMarketId: row.predict_market_id,
+            action: row.action,
+            actor: row.actor,
+            before: row.before_data ? JSON.parse(row.before_data) as MarketMapping : null,
+            after: row.after_data ? JSON.parse(row.after_data) as MarketMapping : null,
+            reason: row.reason ?? undefined,
+            at: row.at,
+        }));
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    private insertHistory(predictMarketId: number, change: Omit<MappingChange, 'id' | 'predictMarketId'>): void {
+        this.historyStmt.run(
+            predictMarketId,
+            change.action,
+            change.actor,
+            change.before ? JSON.stringify(change.before) : null,
+            change.after ? JSON.stringify(change.after) : null,
+            change.reason ?? null,
+            change.at
+        );
+    }
+}
@@ -0,0 +1,102 @@
+/**
+ * 映射启发式规则
+ *
+ * 原先分散在 ArbScannerService.scanAllMarkets 与 start-dashboard 中的 "any other" 修正、方向反转检测，
+ * 统一在此实现；结果以 MappingCandidate 提交给 MappingRegistry，由其处理人工覆盖。
+ */
+
+import type { MappingMatchMethod } from './types.js';
+
+/**
+ * 各匹配方式的默认置信度
+ */
+export const MATCH_METHOD_CONFIDENCE: Record<MappingMatchMethod, number> = {
+    manual: 1,
+    conditionId: 0.9,
+    'nba-slug': 0.8,
+    'any-other-fix': 0.7,
+    slug: 0.7,
+    title: 0.6,
+};
+
+const EVENT_FETCH_TIMEOUT_MS = 10_000;
+
+type PolymarketEventMarket = { conditionId: string; question?: string; slug?: string };
+
+const eventMarketsCache = new Map<string, PolymarketEventMarket[]>();
+
+export function normalizeQuestionForMatch(text: string): string {
+    return String(text || '')
+        .toLowerCase()
+        .replace(/[’']/g, "'")
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/\bany other\b/g, 'another');
+}
+
+/**
+ * 检测问题方向相反的市场 (change / no change)
+ */
+export function detectInversion(predictQuestion: string, polymarketQuestion: string): { inverted: boolean; reason?: string } {
+    const predict = String(predictQuestion || '').toLowerCase();
+    const poly = String(polymarketQuestion || '').toLowerCase();
+
+    if (predict.includes('change') && !predict.includes('no change') && poly.includes('no change')) {
+        return { inverted: true, reason: "Predict问'会变吗'，Polymarket问'不会变吗'" };
+    }
+    if (predict.includes('no change') && poly.includes('change') && !poly.includes('no change')) {
+        return { inverted: true, reason: "Predict问'不会变吗'，Polymarket问'会变吗'" };
+    }
+    return { inverted: false };
+}
+
+/**
+ * 修复少量 "any other" 市场被错误链接到具体选手/标的的情况：
+ * Predict 问题包含 any other，但 Polymarket 问题不包含 any other/another 时，
+ * 在同 event 下查找对应的 "another player/any other" market。
+ *
+ * @param marketSlug 当前 Polymarket market slug (通过 /market/{slug} 的 307 Location 反推 event slug)
+ */
+export async function findAnyOtherMarket(
+    predictQuestion: string,
+    polymarketQuestion: string,
+    marketSlug: string | null | undefined
+): Promise<PolymarketEventMarket | null> {
+    if (!/\bany other\b/i.test(predictQuestion)) return null;
+    if (/\b(any other|another)\b/i.test(polymarketQuestion)) return null;
+    if (!marketSlug) return null;
+
+    let eventSlug: string | null = null;
+    try {
+        const res = await fetch(`https://polymarket.com/market/${marketSlug}`, {
+            method: 'HEAD',
+            redirect: 'manual',
+        });
+        const location = res.headers.get('location') || '';
+        const m = location.match(/^\/event\/([^/]+)\/[^/]+/);
+        if (m?.[1]) eventSlug = m[1];
+    } catch {
+        return null;
+    }
+    if (!eventSlug) return null;
+
+    let markets = eventMarketsCache.get(eventSlug);
+    if (!markets) {
+        try {
+            const res = await fetch(`https://gamma-api.polymarket.com/events?slug=${encodeURIComponent(eventSlug)}`, {
+                signal: AbortSignal.timeout(EVENT_FETCH_TIMEOUT_MS),
+            });
+            if (!res.ok) return null;
+            const events = await res.json() as Array<{ markets?: PolymarketEventMarket[] }>;
+            markets = events[0]?.markets || [];
+            eventMarketsCache.set(eventSlug, markets);
+        } catch {
+            return null;
+        }
+    }
+
+    const target = normalizeQuestionForMatch(predictQuestion);
+    const hit = markets.find(m => normalizeQuestionForMatch(m.question || '') === target);
+    return hit?.conditionId ? hit : null;
+}
@@ -0,0 +1,349 @@
+/**
+ * Resolution Validator - 跨平台结算条件比对
+ *
+ * 同一 conditionId 链接 / 标题相同的两个市场，仍可能在结算来源、截止时间、边界情况上不同
+ * (例如 "any other" vs 具体选手)。拉取双方的问题 / 描述 / 截止时间 / 结果标签，比对后给出风险等级:
+ *   A: 无差异          B: 仅缺少部分信息 (无法完全比对)
+ *   C: 一处可疑差异     D: 多处可疑差异
+ *   F: 明确不一致 (截止日期 / 阈值 / 结果标签 / any other)，默认禁止创建任务
+ */
+
+import type { MappingRegistry } from './mapping-registry.js';
+import { normalizeQuestionForMatch } from './matcher.js';
+import type { MarketMapping, ResolutionCheck, ResolutionGrade, ResolutionIssue, ResolutionTerms } from './types.js';
+
+const FETCH_TIMEOUT_MS = 10_000;
+const RESOLUTION_CHECK_TTL_MS = 24 * 60 * 60 * 1000;
+const DEADLINE_WARN_MS = 24 * 60 * 60 * 1000;        // 截止时间相差 > 1 天: 可疑
+const DEADLINE_CRITICAL_MS = 7 * 24 * 60 * 60 * 1000; // 截止时间相差 > 7 天: 不一致
+const QUESTION_SIMILARITY_WARN = 0.25;        // 词重合度 (不含数字，阈值单独比对)
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// 常见结算来源 (描述中出现即视为来源)
+const KNOWN_SOURCES = [
+    'associated press', 'coinmarketcap', 'coingecko', 'binance', 'coinbase', 'kraken', 'chainlink', 'pyth',
+    'bloomberg', 'reuters', 'espn', 'fox news', 'nbc', 'cnn', 'bls', 'federal reserve', 'fomc',
+    'hltv', 'liquipedia', 'ufc', 'nba', 'nfl', 'nhl', 'mlb', 'fifa', 'uefa', 'premier league',
+];
+
+// ============================================================================
+// 文本解析
+// ============================================================================
+
+/**
+ * 问题中的日期 (MM-DD)
+ */
+export function extractQuestionDates(text: string): string[] {
+    const dates = new Set<string>();
+    const lower = String(text || '').toLowerCase();
+
+    const monthDay = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?\b/g;
+    for (const m of lower.matchAll(monthDay)) {
+        dates.add(`${String(MONTHS.indexOf(m[1]) + 1).padStart(2, '0')}-${m[2].padStart(2, '0')}`);
+    }
+    for (const m of lower.matchAll(/\b\d{4}-(\d{2})-(\d{2})\b/g)) {
+        dates.add(`${m[1]}-${m[2]}`);
+    }
+    return [...dates];
+}
+
+/**
+ * 问题中的价格 / 百分比阈值 ($100k, 3.5%, 2,000)
+ */
+export function extractThresholds(text: string): string[] {
+    const values = new Set<string>();
+    const pattern = /(\$\s?[\d,]+(?:\.\d+)?\s?[km]?|[\d,]+(?:\.\d+)?\s?%|[\d,]+(?:\.\d+)?\s?(?:k|m|bps)\b)/gi;
+    for (const m of String(text || '').matchAll(pattern)) {
+        const raw = m[1].toLowerCase().replace(/[\s,$]/g, '');
+        const suffix = raw.match(/(k|m|%|bps)$/)?.[1] ?? '';
+        const base = Number(raw.slice(0, raw.length - suffix.length));
+        if (!Number.isFinite(base)) continue;
+        const multiplier = suffix === 'k' ? 1e3 : suffix === 'm' ? 1e6 : 1;
+        values.add(`${base * multiplier}${suffix === '%' || suffix === 'bps' ? suffix : ''}`);
+    }
+    return [...values];
+}
+
+/**
+ * 描述中的结算来源 (已知来源关键词 + URL 域名)
+ */
+export function extractResolutionSources(text: string): string[] {
+    const lower = String(text || '').toLowerCase();
+    const sources = new Set<string>();
+    for (const source of KNOWN_SOURCES) {
+        if (new RegExp(`\\b${source}\\b`).test(lower)) sources.add(source);
+    }
+    for (const m of lower.matchAll(/https?:\/\/(?:www\.)?([a-z0-9.-]+\.[a-z]{2,})/g)) {
+        sources.add(m[1]);
+    }
+    return [...sources];
+}
+
+function normalizeOutcome(label: string): string {
+    return normalizeQuestionForMatch(label);
+}
+
+function questionSimilarity(a: string, b: string): number {
+    const tokenize = (text: string) => new Set(
+        normalizeQuestionForMatch(text).split(' ').filter(t => t.length > 2 && !/\d/.test(t))
+    );
+    const tokensA = tokenize(a);
+    const tokensB = tokenize(b);
+    if (tokensA.size === 0 || tokensB.size === 0) return 1;
+    const intersection = [...tokensA].filter(t => tokensB.has(t)).length;
+    return intersection / (tokensA.size + tokensB.size - intersection);
+}
+
+// ============================================================================
+// 比对
+// ============================================================================
+
+/**
+ * 比对双方结算条件，返回风险等级与差异列表
+ */
+export function compareResolutionTerms(
+    predict: ResolutionTerms,
+    polymarket: ResolutionTerms
+): { grade: ResolutionGrade; issues: ResolutionIssue[] } {
+    const issues: ResolutionIssue[] = [];
+
+    // 1. any other vs 具体标的
+    const predictAnyOther = /\b(any other|another)\b/i.test(predict.question);
+    const polyAnyOther = /\b(any other|another)\b/i.test(polymarket.question);
+    if (predictAnyOther !== polyAnyOther) {
+        issues.push({
+            code: 'ANY_OTHER_MISMATCH',
+            severity: 'critical',
+            message: predictAnyOther
+                ? 'Predict 为 "any other" 市场，Polymarket 为具体标的'
+                : 'Polymarket 为 "another" 市场，Predict 为具体标的',
+        });
+    }
+
+    // 2. 截止时间
+    const predictDeadline = predict.deadline ? Date.parse(predict.deadline) : NaN;
+    const polyDeadline = polymarket.deadline ? Date.parse(polymarket.deadline) : NaN;
+    if (Number.isFinite(predictDeadline) && Number.isFinite(polyDeadline)) {
+        const diff = Math.abs(predictDeadline - polyDeadline);
+        const hours = Math.round(diff / 3_600_000);
+        if (diff > DEADLINE_CRITICAL_MS) {
+            issues.push({ code: 'DEADLINE_MISMATCH', severity: 'critical', message: `截止时间相差 ${hours} 小时` });
+        } else if (diff > DEADLINE_WARN_MS) {
+            issues.push({ code: 'DEADLINE_MISMATCH', severity: 'warn', message: `截止时间相差 ${hours} 小时` });
+        }
+    } else {
+        issues.push({ code: 'MISSING_DEADLINE', severity: 'info', message: '缺少一方截止时间' });
+    }
+
+    const predictDates = extractQuestionDates(predict.question);
+    const polyDates = extractQuestionDates(polymarket.question);
+    if (predictDates.length > 0 && polyDates.length > 0 && !predictDates.some(d => polyDates.includes(d))) {
+        issues.push({
+            code: 'DEADLINE_MISMATCH',
+            severity: 'critical',
+            message: `问题日期不一致: ${predictDates.join(',')} vs ${polyDates.join(',')}`,
+        });
+    }
+
+    // 3. 阈值
+    const predictThresholds = extractThresholds(predict.question);
+    const polyThresholds = extractThresholds(polymarket.question);
+    if (predictThresholds.length > 0 && polyThresholds.length > 0
+        && !predictThresholds.every(v => polyThresholds.includes(v))) {
+        issues.push({
+            code: 'THRESHOLD_MISMATCH',
+            severity: 'critical',
+            message: `阈值不一致: ${predictThresholds.join(',')} vs ${polyThresholds.join(',')}`,
+        });
+    }
+
+    // 4. 结果标签 (Yes/No 以外的标签需一致，如球队名)
+    const predictOutcomes = predict.outcomes.map(normalizeOutcome).filter(Boolean).sort();
+    const polyOutcomes = polymarket.outcomes.map(normalizeOutcome).filter(Boolean).sort();
+    if (predictOutcomes.length > 0 && polyOutcomes.length > 0
+        && predictOutcomes.join('|') !== polyOutcomes.join('|')) {
+        const binary = (labels: string[]) => labels.join('|') === 'no|yes';
+        issues.push({
+            code: 'OUTCOME_MISMATCH',
+            severity: binary(predictOutcomes) || binary(polyOutcomes) ? 'warn' : 'critical',
+            message: `结果标签不一致: ${predict.outcomes.join('/')} vs ${polymarket.outcomes.join('/')}`,
+        });
+    }
+
+    // 5. 结算来源
+    const predictSources = extractResolutionSources(predict.description);
+    const polySources = extractResolutionSources(polymarket.description);
+    if (!predict.description || !polymarket.description) {
+        issues.push({ code: 'MISSING_DESCRIPTION', severity: 'info', message: '缺少一方结算说明' });
+    } else if (predictSources.length > 0 && polySources.length > 0 && !predictSources.some(s => polySources.includes(s))) {
+        issues.push({
+            code: 'SOURCE_MISMATCH',
+            severity: 'warn',
+            message: `结算来源不同: ${predictSources.join(',')} vs ${polySources.join(',')}`,
+        });
+    }
+
+    // 6. 问题文本差异过大
+    if (questionSimilarity(predict.question, polymarket.question) < QUESTION_SIMILARITY_WARN) {
+        issues.push({ code: 'QUESTION_MISMATCH', severity: 'warn', message: '问题文本差异较大' });
+    }
+
+    return { grade: gradeIssues(issues), issues };
+}
+
+export function gradeIssues(issues: ResolutionIssue[]): ResolutionGrade {
+    if (issues.some(i => i.severity === 'critical')) return 'F';
+    const warnings = issues.filter(i => i.severity === 'warn').length;
+    if (warnings >= 2) return 'D';
+    if (warnings === 1) return 'C';
+    return issues.length > 0 ? 'B' : 'A';
+}
+
+// ============================================================================
+// 数据获取
+// ============================================================================
+
+/**
+ * Predict 市场结算条件 (问题、描述、截止时间、结果标签)
+ */
+export async function fetchPredictResolutionTerms(predictMarketId: number, apiKey: string, fallbackQuestion?: string): Promise<ResolutionTerms | null> {
+    try {
+        const res = await fetch(`https://api.predict.fun/v1/markets/${predictMarketId}`, {
+            headers: { 'x-api-key': apiKey },
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+        if (!res.ok) return null;
+        const data = await res.json() as {
+            data?: {
+                question?: string;
+                title?: string;
+                description?: string;
+                categorySlug?: string;
+                resolutionDate?: string | null;
+                endDate?: string | null;
+                outcomes?: Array<{ name: string }>;
+            };
+        };
+        const market = data.data;
+        if (!market) return null;
+
+        let deadline = market.resolutionDate || market.endDate || null;
+        if (!deadline && market.categorySlug) {
+            const categoryRes = await fetch(`https://api.predict.fun/v1/categories/${market.categorySlug}`, {
+                headers: { 'x-api-key': apiKey },
+                signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+            });
+            if (categoryRes.ok) {
+                const category = await categoryRes.json() as { data?: { endsAt?: string; description?: string } };
+                deadline = category.data?.endsAt || null;
+                market.description = market.description || category.data?.description;
+            }
+        }
+
+        return {
+            question: market.question || market.title || fallbackQuestion || '',
+            description: market.description || '',
+            deadline,
+            outcomes: (market.outcomes || []).map(o => o.name),
+        };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Polymarket 市场结算条件 (Gamma API)
+ */
+export async function fetchPolymarketResolutionTerms(conditionId: string): Promise<ResolutionTerms | null> {
+    try {
+        const res = await fetch(`https://gamma-api.polymarket.com/markets?condition_ids=${conditionId}`, {
+            signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        });
+        if (!res.ok) return null;
+        const markets = await res.json() as Array<{
+            question?: string;
+            description?: string;
+            endDate?: string;
+            outcomes?: string;
+            resolutionSource?: string;
+        }>;
+        const market = markets[0];
+        if (!market) return null;
+
+        let outcomes: string[] = [];
+        try {
+            outcomes = JSON.parse(market.outcomes || '[]') as string[];
+        } catch {
+            // 忽略
+        }
+        return {
+            question: market.question || '',
+            description: [market.resolutionSource, market.description].filter(Boolean).join('\n'),
+            deadline: market.endDate || null,
+            outcomes,
+        };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * 拉取双方结算条件并比对；任一方获取失败返回 null (保留上次结果)
+ */
+export async function validateMappingResolution(mapping: MarketMapping, predictApiKey: string): Promise<ResolutionCheck | null> {
+    const [predict, polymarket] = await Promise.all([
+        fetchPredictResolutionTerms(mapping.predictMarketId, predictApiKey, mapping.predictQuestion),
+        fetchPolymarketResolutionTerms(mapping.conditionId),
+    ]);
+    if (!predict || !polymarket) return null;
+
+    const { grade, issues } = compareResolutionTerms(predict, polymarket);
+    return {
+        conditionId: mapping.conditionId,
+        grade,
+        issues,
+        predictDeadline: predict.deadline ?? undefined,
+        polymarketDeadline: polymarket.deadline ?? undefined,
+        checkedAt: Date.now(),
+    };
+}
+
+export interface ResolutionValidationOptions {
+    getApiKey: () => string;
+    maxAgeMs?: number;               // 比对结果有效期 (默认 24 小时)
+    concurrency?: number;
+}
+
+/**
+ * 批量比对映射的结算条件 (跳过有效期内已比对的映射)，返回本次完成数量
+ */
+export async function validateMappingResolutions(
+    registry: MappingRegistry,
+    predictMarketIds: number[],
+    options: ResolutionValidationOptions
+): Promise<number> {
+    const maxAgeMs = options.maxAgeMs ?? RESOLUTION_CHECK_TTL_MS;
+    const pending = predictMarketIds.filter(id => {
+        const mapping = registry.resolve(id);
+        if (!mapping?.conditionId) return false;
+        const check = registry.getResolution(id);
+        return !check || Date.now() - check.checkedAt > maxAgeMs;
+    });
+    if (pending.length === 0) return 0;
+
+    let validated = 0;
+    const concurrency = Math.max(1, options.concurrency ?? 3);
+    for (let i = 0; i < pending.length; i += concurrency) {
+        await Promise.all(pending.slice(i, i + concurrency).map(async (id) => {
+            const mapping = registry.resolve(id);
+            if (!mapping) return;
+            const check = await validateMappingResolution(mapping, options.getApiKey());
+            if (check) {
+                registry.setResolution(id, check);
+                validated++;
+            }
+        }));
+    }
+    return validated;
+}
@@ -0,0 +1,151 @@
+/**
+ * 市场映射类型定义
+ */
+
+/**
+ * 匹配方式
+ * - conditionId:   Predict 市场自带的 polymarketConditionIds 链接
+ * - any-other-fix: "any other" 市场被链接到具体选手/标的，改为同 event 下的 "another" 市场
+ * - nba-slug / slug / title: 体育市场启发式匹配 (见 SportsService)
+ * - manual:        人工指定
+ */
+export type MappingMatchMethod = 'conditionId' | 'any-other-fix' | 'nba-slug' | 'slug' | 'title' | 'manual';
+
+/**
+ * 映射状态
+ * - auto:        启发式匹配结果，扫描时自动更新
+ * - pinned:      人工确认，扫描结果不再覆盖
+ * - override:    人工指定的 conditionId / token / 方向，扫描结果不再覆盖
+ * - blacklisted: 禁止交易 (不生成机会、不允许创建任务)
+ */
+export type MappingStatus = 'auto' | 'pinned' | 'override' | 'blacklisted';
+
+export type MappingSource = 'main' | 'sports';
+
+/**
+ * Predict 市场 → Polymarket 市场映射
+ */
+export interface MarketMapping {
+    predictMarketId: number;
+    conditionId: string;
+    yesTokenId: string | null;
+    noTokenId: string | null;
+    inverted: boolean;               // 问题方向相反 (Predict YES = Polymarket NO)
+    invertedReason?: string;
+    matchMethod: MappingMatchMethod;
+    confidence: number;              // 0-1
+    status: MappingStatus;
+    source: MappingSource;
+    active: boolean;                 // Polymarket 市场可交易 (active && !closed && acceptingOrders)
+    predictTitle?: string;
+    predictQuestion?: string;
+    categorySlug?: string;
+    feeRateBps?: number;
+    polymarketQuestion?: string;
+    conflictConditionId?: string;    // 人工映射与最近一次扫描结果不一致时，扫描给出的 conditionId
+    resolution?: ResolutionCheck;    // 结算条件比对结果 (conditionId 与当前映射一致时有效)
+    resolutionAccepted?: ResolutionAcceptance;  // 人工接受 F 级结算风险
+    note?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * 启发式匹配结果 (扫描产出)
+ */
+export type MappingCandidate = Omit<MarketMapping, 'status' | 'conflictConditionId' | 'note' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * 人工指定映射 (POST /api/mappings)
+ */
+export interface ManualMappingInput {
+    predictMarketId: number;
+    conditionId: string;
+    yesTokenId?: string | null;
+    noTokenId?: string | null;
+    inverted?: boolean;
+    note?: string;
+}
+
+/**
+ * 任务携带的映射字段 (创建任务时与注册表比对，不一致会把套利变成单边押注)
+ */
+export interface MappingTaskFields {
+    isInverted?: boolean;
+    yesTokenId?: string | null;
+    noTokenId?: string | null;
+}
+
+export type MappingAction = 'create' | 'update' | 'pin' | 'override' | 'blacklist' | 'release' | 'delete' | 'conflict'
+    | 'validate' | 'accept-risk';
+
+/**
+ * 映射变更记录
+ */
+export interface MappingChange {
+    id: number;
+    predictMarketId: number;
+    action: MappingAction;
+    actor: string;                   // scanner / sports / api
+    before: MarketMapping | null;
+    after: MarketMapping | null;
+    reason?: string;
+    at: number;
+}
+
+// ============================================================================
+// 结算条件比对
+// ============================================================================
+
+/**
+ * 结算风险等级: A 无差异 → F 明确不一致 (见 resolution-validator)
+ */
+export type ResolutionGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export type ResolutionIssueCode =
+    | 'ANY_OTHER_MISMATCH'
+    | 'DEADLINE_MISMATCH'
+    | 'THRESHOLD_MISMATCH'
+    | 'OUTCOME_MISMATCH'
+    | 'SOURCE_MISMATCH'
+    | 'QUESTION_MISMATCH'
+    | 'MISSING_DEADLINE'
+    | 'MISSING_DESCRIPTION';
+
+export interface ResolutionIssue {
+    code: ResolutionIssueCode;
+    severity: 'info' | 'warn' | 'critical';
+    message: string;
+}
+
+/**
+ * 单个平台的结算条件
+ */
+export interface ResolutionTerms {
+    question: string;
+    description: string;             // 描述 / 结算规则 / 结算来源
+    deadline: string | null;         // ISO 8601
+    outcomes: string[];              // 结果标签 (Yes/No 或球队名等)
+}
+
+export interface ResolutionCheck {
+    conditionId: string;             // 比对时的 conditionId
+    grade: ResolutionGrade;
+    issues: ResolutionIssue[];
+    predictDeadline?: string;
+    polymarketDeadline?: string;
+    checkedAt: number;
+}
+
+export interface ResolutionAcceptance {
+    conditionId: string;
+    grade: ResolutionGrade;
+    reason?: string;
+    at: number;
+}
+
+export interface MappingQuery {
+    status?: MappingStatus[];
+    source?: MappingSource;
+    search?: string;                 // 标题 / 问题 / conditionId 模糊匹配
+}
@@ -10,8 +10,10 @@
 import { EventEmitter } from 'events';
 import { PolymarketWebSocketClient } from '../polymarket/ws-client.js';
 import { getPredictTrader } from './predict-trader.js';
-import { getPolymarketTrader } from './polymarket-trader.js';
+import { getPolymarketTrader, type PolymarketTrader } from './polymarket-trader.js';
 import { getSportsService } from './sports-service.js';
+import { calculatePredictFee } from '../trading/depth-calculator.js';
+import { getFeeModel } from '../trading/fee-model.js';
 
 // ============================================================================
 // 类型定义
@@ -164,6 +166,7 @@ export class OrderMonitor extends EventEmitter {
         options?: {
             intervalMs?: number;
             maxRetries?: number;
+            trader?: PolymarketTrader;  // 下单账号的 trader（多账号），默认全局实例
         }
     ): Promise<void> {
         const intervalMs = options?.intervalMs ?? 200;
@@ -178,7 +181,7 @@ export class OrderMonitor extends EventEmitter {
         const watch = { active: true, abortController };
         this.polymarketWatches.set(orderId, watch);
 
-        const polyTrader = getPolymarketTrader();
+        const polyTrader = options?.trader ?? getPolymarketTrader();
 
         console.log(`[OrderMonitor] Watching Polymarket order: ${orderId.slice(0, 10)}...`);
 
@@ -321,7 +324,8 @@ export class OrderMonitor extends EventEmitter {
                     config.predictPrice,
                     bestAsk,
                     config.feeRateBps,
-                    config.maxPolymarketPrice
+                    config.maxPolymarketPrice,
+                    config.polymarketTokenId
                 );
             } else {
                 const bestBid = bids.length > 0
@@ -486,7 +490,8 @@ export class OrderMonitor extends EventEmitter {
         predictPrice: number,
         polyNoAsk: number,
         feeRateBps: number,
-        maxPolyPrice: number
+        maxPolyPrice: number,
+        polymarketTokenId: string
     ): boolean {
         // 浮点精度容差
         const EPSILON = 0.0001;
@@ -496,13 +501,9 @@ export class OrderMonitor extends EventEmitter {
             return false;
         }
 
-        // 计算 Predict Taker 费用 (Maker 费用为 0)
-        // Taker Fee = BaseFee% * min(Price, 1-Price) * (1 - rebate)
-        // Predict 有 10% 返点
-        const FEE_REBATE = 0.10;
-        const baseFeeRate = feeRateBps / 10000;
-        const grossFee = baseFeeRate * Math.min(predictPrice, 1 - predictPrice);
-        const fee = grossFee * (1 - FEE_REBATE);
+        // 计算 Predict Taker 费用 (Maker 传 feeRateBps=0) + Polymarket 对冲费用 (费率表)
+        const fee = calculatePredictFee(predictPrice, feeRateBps) +
+            getFeeModel().polymarketFeePerShare(polyNoAsk, { polymarketMarket: polymarketTokenId });
 
         // 套利条件: total cost <= 1.0 + epsilon (允许零利润，容忍浮点精度误差)
         const totalCost = predictPrice + polyNoAsk + fee;
@@ -0,0 +1,61 @@
+/**
+ * Paper Trading 模块导出
+ *
+ * 通过 USE_REAL_EXECUTION=false (TradingConfig.useRealExecution) 启用
+ */
+
+import { DEFAULT_CONFIG, loadConfigFromEnv } from '../../trading/config.js';
+import { PaperMatchingEngine } from './matching-engine.js';
+import { PaperPredictTrader, PaperPolymarketTrader } from './paper-traders.js';
+import type { PaperTradingConfig } from './types.js';
+
+// 类型导出
+export * from './types.js';
+
+export { PaperMatchingEngine } from './matching-engine.js';
+export { PaperPredictTrader, PaperPolymarketTrader } from './paper-traders.js';
+
+/**
+ * 是否启用模拟交易 (运行时读取 env，start-dashboard 的 loadEnv 晚于模块导入)
+ */
+export function isPaperTradingEnabled(): boolean {
+    const config = { ...DEFAULT_CONFIG, ...loadConfigFromEnv() };
+    return !config.useRealExecution;
+}
+
+export function loadPaperTradingConfig(): PaperTradingConfig {
+    const latencyMs = Number(process.env.PAPER_LATENCY_MS);
+    const makerFillRatio = Number(process.env.PAPER_MAKER_FILL_RATIO);
+    return {
+        latencyMs: Number.isFinite(latencyMs) && latencyMs >= 0 ? latencyMs : 150,
+        makerFillRatio: Number.isFinite(makerFillRatio) && makerFillRatio > 0
+            ? Math.min(makerFillRatio, 1)
+            : 1,
+    };
+}
+
+// 单例
+let engineInstance: PaperMatchingEngine | null = null;
+let predictInstance: PaperPredictTrader | null = null;
+let polyInstance: PaperPolymarketTrader | null = null;
+
+export function getPaperMatchingEngine(): PaperMatchingEngine {
+    if (!engineInstance) {
+        engineInstance = new PaperMatchingEngine(loadPaperTradingConfig());
+    }
+    return engineInstance;
+}
+
+export function getPaperPredictTrader(): PaperPredictTrader {
+    if (!predictInstance) {
+        predictInstance = new PaperPredictTrader(getPaperMatchingEngine());
+    }
+    return predictInstance;
+}
+
+export function getPaperPolymarketTrader(): PaperPolymarketTrader {
+    if (!polyInstance) {
+        polyInstance = new PaperPolymarketTrader(getPaperMatchingEngine());
+    }
+    return polyInstance;
+}
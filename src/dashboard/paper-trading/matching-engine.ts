@@ -0,0 +1,182 @@
+/**
+ * Paper Matching Engine - 模拟撮合引擎
+ *
+ * 撮合规则:
+ * - 下单时先按对手盘穿价档位立即成交 (TAKER，按档位价格成交)
+ * - IOC 剩余部分立即取消；GTC 剩余部分挂单
+ * - 挂单在后续同步时，若对手盘穿过挂单价，按穿价深度 × makerFillRatio 成交 (MAKER，按挂单价成交)
+ * - 同一份对手盘快照只计入一次，避免静止订单簿被重复撮合
+ *
+ * 引擎本身不拉取订单簿，由调用方传入最新快照 (见 paper-traders.ts)
+ */
+
+import { EventEmitter } from 'events';
+import * as crypto from 'crypto';
+import type {
+    PaperBook,
+    PaperBookLevel,
+    PaperFill,
+    PaperOrder,
+    PaperOrderInput,
+    PaperTradingConfig,
+    PaperVenue,
+} from './types.js';
+
+const QTY_EPSILON = 1e-6;
+const MAX_FILL_HISTORY = 5000;   // 成交记录上限，避免长时间运行内存无限增长
+
+function floorQty(qty: number): number {
+    return Math.floor(qty * 100 + QTY_EPSILON) / 100;
+}
+
+export class PaperMatchingEngine extends EventEmitter {
+    private orders: Map<string, PaperOrder> = new Map();
+    private fills: PaperFill[] = [];
+    private config: PaperTradingConfig;
+
+    constructor(config: PaperTradingConfig) {
+        super();
+        this.config = config;
+    }
+
+    getConfig(): PaperTradingConfig {
+        return this.config;
+    }
+
+    /**
+     * 提交订单并立即按当前订单簿撮合
+     */
+    submit(input: PaperOrderInput, book: PaperBook | null): PaperOrder {
+        const now = Date.now();
+        const order: PaperOrder = {
+            ...input,
+            id: '0x' + crypto.randomBytes(32).toString('hex'),
+            status: 'OPEN',
+            filledQty: 0,
+            filledNotional: 0,
+            createdAt: now,
+            updatedAt: now,
+        };
+        this.orders.set(order.id, order);
+
+        if (book) {
+            const crossing = this.getCrossingLevels(order, book);
+            for (const level of crossing) {
+                const remaining = order.quantity - order.filledQty;
+                if (remaining <= QTY_EPSILON) break;
+                const qty = floorQty(Math.min(remaining, level.size));
+                if (qty <= 0) continue;
+                this.applyFill(order, level.price, qty, 'TAKER');
+            }
+            // 记录已消耗的快照，挂单部分只在订单簿变化后才可能继续成交
+            order.lastBookSignature = this.signature(crossing);
+        }
+
+        if (order.status === 'OPEN' && order.timeInForce === 'IOC') {
+            order.status = 'CANCELLED';
+            order.updatedAt = Date.now();
+        }
+
+        return order;
+    }
+
+    /**
+     * 用最新订单簿推进挂单成交
+     */
+    sync(orderId: string, book: PaperBook | null): PaperOrder | null {
+        const order = this.orders.get(orderId);
+        if (!order) return null;
+        if (order.status !== 'OPEN' || !book) return order;
+
+        const crossing = this.getCrossingLevels(order, book);
+        if (crossing.length === 0) {
+            order.lastBookSignature = undefined;
+            return order;
+        }
+
+        const signature = this.signature(crossing);
+        if (signature === order.lastBookSignature) return order;
+        order.lastBookSignature = signature;
+
+        const crossedSize = crossing.reduce((sum, l) => sum + l.size, 0);
+        const remaining = order.quantity - order.filledQty;
+        const qty = floorQty(Math.min(remaining, crossedSize * this.config.makerFillRatio));
+        if (qty > 0) {
+            this.applyFill(order, order.price, qty, 'MAKER');
+        }
+        return order;
+    }
+
+    /**
+     * 取消订单，返回取消后的订单 (已终态则原样返回)
+     */
+    cancel(orderId: string): PaperOrder | null {
+        const order = this.orders.get(orderId);
+        if (!order) return null;
+        if (order.status === 'OPEN') {
+            order.status = 'CANCELLED';
+            order.updatedAt = Date.now();
+        }
+        return order;
+    }
+
+    getOrder(orderId: string): PaperOrder | null {
+        return this.orders.get(orderId) ?? null;
+    }
+
+    getOpenOrders(venue: PaperVenue, marketId?: number): PaperOrder[] {
+        return Array.from(this.orders.values()).filter(o =>
+            o.venue === venue
+            && o.status === 'OPEN'
+            && (marketId === undefined || o.marketId === marketId)
+        );
+    }
+
+    getFills(): PaperFill[] {
+        return [...this.fills];
+    }
+
+    getAvgPrice(order: PaperOrder): number {
+        return order.filledQty > 0 ? order.filledNotional / order.filledQty : 0;
+    }
+
+    // ============================================================
+    // 私有方法
+    // ============================================================
+
+    private getCrossingLevels(order: PaperOrder, book: PaperBook): PaperBookLevel[] {
+        if (order.side === 'BUY') {
+            return book.asks.filter(l => l.size > 0 && l.price <= order.price + QTY_EPSILON);
+        }
+        return book.bids.filter(l => l.size > 0 && l.price >= order.price - QTY_EPSILON);
+    }
+
+    private signature(levels: PaperBookLevel[]): string {
+        return levels.map(l => `${l.price}:${l.size}`).join('|');
+    }
+
+    private applyFill(order: PaperOrder, price: number, qty: number, role: 'MAKER' | 'TAKER'): void {
+        order.filledQty = floorQty(order.filledQty + qty);
+        order.filledNotional += price * qty;
+        order.updatedAt = Date.now();
+        if (order.quantity - order.filledQty <= QTY_EPSILON) {
+            order.status = 'FILLED';
+        }
+
+        const fill: PaperFill = {
+            orderId: order.id,
+            venue: order.venue,
+            bookKey: order.bookKey,
+            side: order.side,
+            price,
+            quantity: qty,
+            role,
+            timestamp: order.updatedAt,
+        };
+        this.fills.push(fill);
+        if (this.fills.length > MAX_FILL_HISTORY) {
+            this.fills.splice(0, this.fills.length - MAX_FILL_HISTORY);
+        }
+        this.emit('fill', fill);
+    }
+}
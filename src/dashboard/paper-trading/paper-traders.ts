@@ -0,0 +1,285 @@
+/**
+ * Paper Traders - 模拟交易客户端
+ *
+ * 继承 PredictTrader / PolymarketTrader，保留只读接口 (订单簿、市场信息、余额)，
+ * 将下单、撤单、订单状态查询重定向到 PaperMatchingEngine。
+ * 订单簿沿用父类的 WS 缓存提供者 (PredictOrderbookCache / PolymarketWebSocketClient)，
+ * 因此 TaskExecutor / TakerExecutor 无需任何改动即可跑完整生命周期。
+ *
+ * 注意: 模拟订单只存在于内存中，进程重启后未知订单按"已取消、无成交"处理。
+ */
+
+import {
+    PredictTrader,
+    type PredictOrderInput,
+    type PredictOrderResult,
+    type PredictOrderStatus,
+} from '../predict-trader.js';
+import {
+    PolymarketTrader,
+    type PolyOrderInput,
+    type PolyOrderResult,
+    type PolyOrderStatus,
+} from '../polymarket-trader.js';
+import type { OrderAlert } from '../../notification/telegram.js';
+import type { PaperMatchingEngine } from './matching-engine.js';
+import type { PaperBook, PaperOrder } from './types.js';
+
+function sleep(ms: number): Promise<void> {
+    return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+function invertPrice(price: number): number {
+    return Math.round((1 - price) * 1e6) / 1e6;
+}
+
+// ============================================================================
+// PaperPredictTrader
+// ============================================================================
+
+export class PaperPredictTrader extends PredictTrader {
+    private readonly engine: PaperMatchingEngine;
+
+    constructor(engine: PaperMatchingEngine) {
+        super();
+        this.engine = engine;
+    }
+
+    async placeOrder(input: PredictOrderInput): Promise<PredictOrderResult> {
+        const outcome = input.outcome || 'YES';
+
+        if (!Number.isFinite(input.quantity) || input.quantity <= 0) {
+            return { success: false, error: `Invalid quantity: ${input.quantity}` };
+        }
+        if (!Number.isFinite(input.price) || input.price <= 0 || input.price >= 1) {
+            return { success: false, error: `Invalid price: ${input.price}` };
+        }
+
+        // 与真实下单一致的最小金额限制
+        const minOrderValueUsd = Number(process.env.PREDICT_MIN_ORDER_VALUE_USD || 0.9);
+        const orderValue = input.price * input.quantity;
+        if (input.side === 'BUY' && orderValue < minOrderValueUsd) {
+            const minQty = Math.ceil(minOrderValueUsd / input.price);
+            return {
+                success: false,
+                error:
+                    `Order value too small: ${orderValue.toFixed(4)} < ${minOrderValueUsd} USD. ` +
+                    `Increase quantity (minQty>=${minQty}).`,
+            };
+        }
+
+        await sleep(this.engine.getConfig().latencyMs);
+
+        const book = await this.getOutcomeBook(input.marketId, outcome);
+        const order = this.engine.submit({
+            venue: 'predict',
+            bookKey: `${input.marketId}:${outcome}`,
+            marketId: input.marketId,
+            side: input.side,
+            price: input.price,
+            quantity: input.quantity,
+            timeInForce: 'GTC',
+        }, book);
+
+        this.emit('order:placed', { hash: order.id, input });
+        console.log(`[PaperPredictTrader] 模拟下单: ${input.side} ${outcome} ${input.quantity} @ ${input.price} → filled=${order.filledQty}`);
+        return { success: true, hash: order.id };
+    }
+
+    async getOrderStatus(hash: string): Promise<PredictOrderStatus | null> {
+        const existing = this.engine.getOrder(hash);
+        if (!existing) {
+            // 重启后丢失的模拟订单：视为已取消且无成交
+            return {
+                id: hash,
+                status: 'CANCELLED',
+                filledQty: 0,
+                remainingQty: 0,
+                avgPrice: 0,
+                cancelReason: 'PAPER_ORDER_NOT_FOUND',
+            };
+        }
+
+        let order: PaperOrder = existing;
+        if (order.status === 'OPEN') {
+            const [marketId, outcome] = order.bookKey.split(':');
+            const book = await this.getOutcomeBook(Number(marketId), outcome as 'YES' | 'NO');
+            order = this.engine.sync(hash, book) ?? order;
+        }
+
+        return this.toPredictStatus(order);
+    }
+
+    async cancelOrder(hashOrId: string): Promise<boolean> {
+        await sleep(this.engine.getConfig().latencyMs);
+        const order = this.engine.cancel(hashOrId);
+        if (order) {
+            this.emit('order:cancelled', { hash: hashOrId, id: hashOrId });
+        }
+        // 与真实 API 的 noop 语义一致：订单已不在订单簿中即视为成功
+        return true;
+    }
+
+    async getOpenOrdersForMarket(marketId: number): Promise<Array<{ id: string; hash: string; status: string }>> {
+        return this.engine.getOpenOrders('predict', marketId).map(o => ({
+            id: o.id,
+            hash: o.id,
+            status: 'OPEN',
+        }));
+    }
+
+    /**
+     * 获取指定 outcome 的订单簿 (NO 由 YES 订单簿镜像得到)
+     */
+    private async getOutcomeBook(marketId: number, outcome: 'YES' | 'NO'): Promise<PaperBook | null> {
+        const book = await this.getOrderbook(marketId);
+        if (!book) return null;
+
+        const bids = book.bids.map(([price, size]) => ({ price, size }));
+        const asks = book.asks.map(([price, size]) => ({ price, size }));
+        if (outcome === 'YES') {
+            return {
+                bids: bids.sort((a, b) => b.price - a.price),
+                asks: asks.sort((a, b) => a.price - b.price),
+            };
+        }
+
+        return {
+            bids: asks.map(l => ({ price: invertPrice(l.price), size: l.size })).sort((a, b) => b.price - a.price),
+            asks: bids.map(l => ({ price: invertPrice(l.price), size: l.size })).sort((a, b) => a.price - b.price),
+        };
+    }
+
+    private toPredictStatus(order: PaperOrder): PredictOrderStatus {
+        const status: PredictOrderStatus['status'] =
+            order.status === 'FILLED' ? 'FILLED'
+                : order.status === 'CANCELLED' ? 'CANCELLED'
+                    : order.filledQty > 0 ? 'PARTIALLY_FILLED' : 'OPEN';
+        return {
+            id: order.id,
+            status,
+            filledQty: order.filledQty,
+            remainingQty: Math.max(0, order.quantity - order.filledQty),
+            avgPrice: this.engine.getAvgPrice(order) || order.price,
+            rawResponse: { paper: true },
+        };
+    }
+}
+
+// ============================================================================
+// PaperPolymarketTrader
+// ============================================================================
+
+export class PaperPolymarketTrader extends PolymarketTrader {
+    private readonly engine: PaperMatchingEngine;
+
+    constructor(engine: PaperMatchingEngine) {
+        super();
+        this.engine = engine;
+    }
+
+    /**
+     * 模拟模式不连接 User WS (无真实订单可推送)
+     */
+    async init(): Promise<void> {
+        return;
+    }
+
+    /** 模拟模式不发送订单 TG 通知，任务事件通知仍由 TaskLogger 发出 */
+    notifyOrderAlert(alert: OrderAlert): void {
+        console.log(`[PaperPolymarketTrader] (skip TG) ${alert.type} ${alert.action} ${alert.quantity} @ ${alert.price}`);
+    }
+
+    async placeOrder(input: PolyOrderInput): Promise<PolyOrderResult> {
+        if (!input.tokenId) {
+            return { success: false, error: 'tokenId is required for placeOrder' };
+        }
+        if (!Number.isFinite(input.quantity) || input.quantity <= 0) {
+            return { success: false, error: `Invalid quantity: ${input.quantity}` };
+        }
+        if (!Number.isFinite(input.price) || input.price <= 0 || input.price > 1) {
+            return { success: false, error: `Invalid price: ${input.price}` };
+        }
+
+        // 与真实下单一致：数量截断到两位小数
+        const alignedQty = Math.floor(input.quantity * 100) / 100;
+        if (alignedQty <= 0) {
+            return { success: false, error: `Quantity too small after alignment: ${input.quantity} → ${alignedQty}` };
+        }
+
+        await sleep(this.engine.getConfig().latencyMs);
+
+        const book = await this.getOrderbook(input.tokenId);
+        const order = this.engine.submit({
+            venue: 'polymarket',
+            bookKey: input.tokenId,
+            side: input.side,
+            price: input.price,
+            quantity: alignedQty,
+            timeInForce: input.orderType || 'IOC',
+        }, book);
+
+        this.emit('order:placed', { orderId: order.id, input });
+        console.log(`[PaperPolymarketTrader] 模拟下单: ${input.side} ${alignedQty} @ ${input.price} (${order.timeInForce}) → filled=${order.filledQty}`);
+        return { success: true, orderId: order.id };
+    }
+
+    getWsCachedFillStatus(orderId: string): { filledQty: number; isTerminal: boolean } | null {
+        const order = this.engine.getOrder(orderId);
+        if (!order) return null;
+        return { filledQty: order.filledQty, isTerminal: order.status !== 'OPEN' };
+    }
+
+    async getOrderStatus(orderId: string): Promise<PolyOrderStatus | null> {
+        let order = this.engine.getOrder(orderId);
+        if (!order) return null;
+
+        if (order.status === 'OPEN') {
+            const book = await this.getOrderbook(order.bookKey);
+            order = this.engine.sync(orderId, book) ?? order;
+        }
+
+        const status: PolyOrderStatus = {
+            status: order.status === 'FILLED' ? 'MATCHED' : order.status === 'CANCELLED' ? 'CANCELLED' : 'LIVE',
+            filledQty: order.filledQty,
+            remainingQty: Math.max(0, order.quantity - order.filledQty),
+            avgPrice: this.engine.getAvgPrice(order) || order.price,
+        };
+        if (status.status === 'MATCHED') {
+            this.emit('order:filled', { orderId, status });
+        }
+        return status;
+    }
+
+    async pollOrderStatus(
+        orderId: string,
+        maxRetries: number = 3,
+        intervalMs: number = 150,
+        signal?: AbortSignal
+    ): Promise<PolyOrderStatus | null> {
+        let lastStatus: PolyOrderStatus | null = null;
+        for (let i = 0; i < maxRetries; i++) {
+            if (signal?.aborted) return lastStatus;
+            lastStatus = await this.getOrderStatus(orderId);
+            if (lastStatus && lastStatus.status !== 'LIVE') return lastStatus;
+            await sleep(intervalMs);
+        }
+        return lastStatus;
+    }
+
+    async cancelOrder(
+        orderId: string,
+        _options?: {
+            timeoutMs?: number;
+            skipTelegram?: boolean;
+            marketTitle?: string;
+            conditionId?: string;
+        }
+    ): Promise<boolean> {
+        await sleep(this.engine.getConfig().latencyMs);
+        const order = this.engine.cancel(orderId);
+        if (!order) return false;
+        this.emit('order:cancelled', { orderId });
+        return true;
+    }
+}
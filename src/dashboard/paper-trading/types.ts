@@ -0,0 +1,65 @@
+/**
+ * Paper Trading 类型定义
+ */
+
+export type PaperVenue = 'predict' | 'polymarket';
+
+export type PaperOrderStatus = 'OPEN' | 'FILLED' | 'CANCELLED';
+
+export type PaperTimeInForce = 'GTC' | 'IOC';
+
+export interface PaperBookLevel {
+    price: number;
+    size: number;
+}
+
+/**
+ * 撮合用订单簿 (已按该订单交易的 token 方向换算)
+ * bids 降序, asks 升序
+ */
+export interface PaperBook {
+    bids: PaperBookLevel[];
+    asks: PaperBookLevel[];
+}
+
+export interface PaperOrderInput {
+    venue: PaperVenue;
+    bookKey: string;            // Predict: "marketId:YES|NO", Polymarket: tokenId
+    side: 'BUY' | 'SELL';
+    price: number;              // 0-1 限价
+    quantity: number;           // shares
+    timeInForce: PaperTimeInForce;
+    marketId?: number;          // Predict 市场 ID (用于 getOpenOrdersForMarket)
+}
+
+export interface PaperOrder extends PaperOrderInput {
+    id: string;
+    status: PaperOrderStatus;
+    filledQty: number;
+    filledNotional: number;     // Σ price × qty，用于计算成交均价
+    createdAt: number;
+    updatedAt: number;
+    /** 上次撮合时的对手盘签名，订单簿未变化时不重复计入同一份流动性 */
+    lastBookSignature?: string;
+}
+
+export interface PaperFill {
+    orderId: string;
+    venue: PaperVenue;
+    bookKey: string;
+    side: 'BUY' | 'SELL';
+    price: number;
+    quantity: number;
+    role: 'MAKER' | 'TAKER';
+    timestamp: number;
+}
+
+export interface PaperTradingConfig {
+    /** 模拟下单/撤单网络延迟 (ms) */
+    latencyMs: number;
+    /**
+     * 挂单成交比例 (0-1)：对手盘穿过挂单价时，按穿价深度 × 该比例计入成交
+     * 用于近似排队位置，1 = 假设排在队首
+     */
+    makerFillRatio: number;
+}
@@ -160,15 +160,18 @@ export class PolymarketTrader extends EventEmitter {
     private tokenTitleCache = new Map<string, string>();
     private orderTitleCache = new Map<string, string>();
 
-    constructor() {
+    /**
+     * @param env 凭证来源（多账号时为该账号的 env 文件），Telegram 通知仍使用进程环境变量
+     */
+    constructor(env: NodeJS.ProcessEnv = process.env) {
         super();
 
-        const privateKey = process.env.POLYMARKET_TRADER_PRIVATE_KEY;
-        const proxyAddress = process.env.POLYMARKET_PROXY_ADDRESS;
-        const apiKey = process.env.POLYMARKET_API_KEY;
-        const apiSecret = process.env.POLYMARKET_API_SECRET;
-        const passphrase = process.env.POLYMARKET_PASSPHRASE;
-        const traderAddress = process.env.POLYMARKET_TRADER_ADDRESS;
+        const privateKey = env.POLYMARKET_TRADER_PRIVATE_KEY;
+        const proxyAddress = env.POLYMARKET_PROXY_ADDRESS;
+        const apiKey = env.POLYMARKET_API_KEY;
+        const apiSecret = env.POLYMARKET_API_SECRET;
+        const passphrase = env.POLYMARKET_PASSPHRASE;
+        const traderAddress = env.POLYMARKET_TRADER_ADDRESS;
 
         if (!privateKey) throw new Error('POLYMARKET_TRADER_PRIVATE_KEY is required');
         if (!proxyAddress) throw new Error('POLYMARKET_PROXY_ADDRESS is required');
@@ -150,6 +150,11 @@ export function setPredictOrderbookRestFallbackEnabled(enabled: boolean): void {
 // PredictTrader 类
 // ============================================================================
 
+export interface PredictTraderOptions {
+    env?: NodeJS.ProcessEnv;            // 凭证来源（多账号时为该账号的 env 文件，默认 process.env）
+    useOrderStatusCache?: boolean;      // 共享的订单状态缓存只服务主账号，其他账号直接查 API
+}
+
 export class PredictTrader extends EventEmitter {
     private signer: Wallet;
     private apiKey: string;
@@ -164,13 +169,15 @@ export class PredictTrader extends EventEmitter {
     // RPC 故障转移
     private rpcFailover: BscRpcFailover;
     private privateKey: string;
+    private useOrderStatusCache: boolean;
 
-    constructor() {
+    constructor(options: PredictTraderOptions = {}) {
         super();
 
-        const privateKey = process.env.PREDICT_SIGNER_PRIVATE_KEY;
-        const apiKey = process.env.PREDICT_API_KEY_TRADE || process.env.PREDICT_API_KEY;
-        const smartWallet = process.env.PREDICT_SMART_WALLET_ADDRESS;
+        const env = options.env ?? process.env;
+        const privateKey = env.PREDICT_SIGNER_PRIVATE_KEY;
+        const apiKey = env.PREDICT_API_KEY_TRADE || env.PREDICT_API_KEY;
+        const smartWallet = env.PREDICT_SMART_WALLET_ADDRESS;
 
         if (!privateKey) {
             throw new Error('PREDICT_SIGNER_PRIVATE_KEY is required');
@@ -188,6 +195,11 @@ export class PredictTrader extends EventEmitter {
         this.signer = new Wallet(privateKey, provider);
         this.apiKey = apiKey;
         this.smartWalletAddress = smartWallet;
+        this.useOrderStatusCache = options.useOrderStatusCache ?? true;
+    }
+
+    getSmartWalletAddress(): string {
+        return this.smartWalletAddress;
     }
 
     /**
@@ -230,7 +242,8 @@ export class PredictTrader extends EventEmitter {
                 this.initialized = true;
                 console.log(`[PredictTrader] Initialized: signer=${this.signer.address.slice(0, 10)}..., smartWallet=${this.smartWalletAddress.slice(0, 10)}...`);
 
-                // 初始化并启动订单状态缓存服务
+                // 初始化并启动订单状态缓存服务（仅主账号）
+                if (!this.useOrderStatusCache) return;
                 try {
                     const cache = initOrderStatusCache(() => this.getAuthHeaders());
                     cache.start();
@@ -473,6 +486,10 @@ export class PredictTrader extends EventEmitter {
      * 获取订单状态 (优先使用缓存，缓存未命中时调用 API)
      */
     async getOrderStatus(hash: string): Promise<PredictOrderStatus | null> {
+        if (!this.useOrderStatusCache) {
+            return this.getOrderStatusWithSignal(hash);
+        }
+
         // 1. 尝试从缓存获取
         try {
             const cache = getOrderStatusCache();
@@ -839,6 +856,16 @@ export class PredictTrader extends EventEmitter {
         }
     }
 
+    /**
+     * 获取智能钱包 USDT 余额
+     */
+    async getBalance(): Promise<number> {
+        await this.init();
+        const balanceWei = await this.orderBuilder!.balanceOf('USDT', this.smartWalletAddress);
+        // Predict SDK balanceOf 返回 1e18 精度（内部标准化）
+        return Number(balanceWei) / 1e18;
+    }
+
     /**
      * 获取持仓
      */
@@ -14,10 +14,22 @@
 import { PredictRestClient } from '../predict/rest-client.js';
 import { PolymarketRestClient } from '../polymarket/rest-client.js';
 import { calculatePredictFee } from '../trading/depth-calculator.js';
+import { getFeeModel, type FeeContext } from '../trading/fee-model.js';
 import { getPredictSlug, getPredictSlugByTitle } from './url-mapper.js';
 import { getPredictOrderbookCache } from '../services/predict-orderbook-cache.js';
 import { isMarketBoosted } from './boost-cache.js';
 import { isSameTeam, toCanonicalTeam } from './team-name-mapper.js';
+import { getMappingRegistry, MATCH_METHOD_CONFIDENCE } from './mappings/index.js';
+import {
+    buildBasketTaskInput,
+    calculateBasketOpportunity,
+    type BasketBookProvider,
+    type BasketEvent,
+    type BasketOutcome,
+    type BasketSide,
+} from './basket/index.js';
+import type { OrderBookLevel } from '../trading/depth-calculator.js';
+import type { CreateTaskInput } from './types.js';
 
 // ============================================================================
 // Predict 订单簿 Provider (WS 模式支持)
@@ -44,6 +56,8 @@ import type {
     MatchMethod,
     MatchedMarket,
     SportsSelectionKind,
+    SportsThreeWayCreateTaskParams,
+    SportsThreeWayOpportunity,
 } from './sports-types.js';
 import { POLY_SPORTS_TAGS, SPORTS_KEYWORDS, CONSISTENCY_EPSILON, NBA_CITY_TO_ABBR, NBA_ABBR_TO_TEAM } from './sports-types.js';
 
@@ -138,6 +152,19 @@ interface SlugGroupMeta {
     hasDraw: boolean;
 }
 
+/** 1X2 三腿顺序 */
+const THREE_WAY_KINDS: SportsSelectionKind[] = ['teamA', 'draw', 'teamB'];
+
+function toBookLevels(
+    book: { bids: [number, number][]; asks: [number, number][] } | null | undefined
+): { bids: OrderBookLevel[]; asks: OrderBookLevel[] } | null {
+    if (!book) return null;
+    return {
+        bids: book.bids.map(([price, size]) => ({ price, size })),
+        asks: book.asks.map(([price, size]) => ({ price, size })),
+    };
+}
+
 // ============================================================================
 // Sports Service
 // ============================================================================
@@ -168,6 +195,13 @@ export class SportsService {
     // WS miss/空簿时触发一次 REST 补热，避免长期显示 100/0
     private predictRestWarmupAt: Map<number, number> = new Map();
 
+    // 足球三项盘 (1X2) 三腿套利
+    private threeWayOpportunities: SportsThreeWayOpportunity[] = [];
+    private readonly threeWayBooks: BasketBookProvider = {
+        getPredictBook: marketId => toBookLevels(this.predictOrderbookCache.get(marketId)),
+        getPolymarketNoBook: tokenId => toBookLevels(this.polyOrderbookCache.get(tokenId)),
+    };
+
     constructor() {
         this.predictClient = new PredictRestClient();
         this.polyClient = new PolymarketRestClient();
@@ -229,6 +263,7 @@ export class SportsService {
 
         return {
             markets,
+            threeWay: this.threeWayOpportunities,
             stats: {
                 totalMatched: markets.length,
                 withArbitrage: withArb.length,
@@ -260,6 +295,7 @@ export class SportsService {
                 console.log('[SportsService] No matched sports markets found');
                 this.cachedMarkets = [];
                 this.matchedMarketsCache = [];
+                this.threeWayOpportunities = [];
                 return [];
             }
 
@@ -271,6 +307,7 @@ export class SportsService {
 
             // 4. 更新缓存
             this.cachedMarkets = marketsWithArb;
+            this.recomputeThreeWay();
             this.lastUpdateTime = Date.now();
 
             const elapsed = Date.now() - startTime;
@@ -396,6 +433,7 @@ export class SportsService {
 
             // 更新缓存
             this.cachedMarkets = marketsWithArb;
+            this.recomputeThreeWay();
             this.lastUpdateTime = Date.now();
 
             const elapsed = Date.now() - startTime;
@@ -692,9 +730,94 @@ export class SportsService {
         }
 
         this.cachedMarkets = results;
+        this.recomputeThreeWay();
         this.lastUpdateTime = Date.now();
     }
 
+    // ============================================================================
+    // 足球三项盘 (1X2)
+    // ============================================================================
+
+    /**
+     * 获取 1X2 三腿套利机会 (按预估利润降序)
+     */
+    getThreeWayOpportunities(): SportsThreeWayOpportunity[] {
+        return this.threeWayOpportunities;
+    }
+
+    /**
+     * 1X2 机会 → 篮子任务创建参数 (由 TaskExecutor 路由到 BasketExecutor)
+     */
+    buildThreeWayTaskInput(params: SportsThreeWayCreateTaskParams): CreateTaskInput {
+        const side: BasketSide = params.side ?? 'YES';
+        const opportunity = this.threeWayOpportunities.find(o => o.id === `${params.eventKey}:${side}`);
+        if (!opportunity) {
+            throw new Error(`1X2 机会不存在或已失效: ${params.eventKey} (${side})`);
+        }
+        return buildBasketTaskInput(opportunity, params, `[1X2 ${side}] ${opportunity.title}`);
+    }
+
+    /**
+     * 重新计算 1X2 三腿套利
+     * 同一事件下 teamA / draw / teamB 三个子市场覆盖全部赛果 (选项集合天然完整)，
+     * 每腿 Predict / Polymarket 择优后按多档深度核算可成交组数
+     */
+    private recomputeThreeWay(): void {
+        const groups = new Map<string, Map<SportsSelectionKind, SportsMatchedMarket>>();
+        const ambiguous = new Set<string>();
+        for (const market of this.cachedMarkets) {
+            const kind = market.selectionKind;
+            if (!market.isThreeWayEvent || !market.eventKey || !kind || !THREE_WAY_KINDS.includes(kind)) continue;
+            let group = groups.get(market.eventKey);
+            if (!group) {
+                group = new Map();
+                groups.set(market.eventKey, group);
+            }
+            // 同一选项匹配到多个子市场时无法确定腿，整场跳过
+            if (group.has(kind)) ambiguous.add(market.eventKey);
+            group.set(kind, market);
+        }
+
+        const results: SportsThreeWayOpportunity[] = [];
+        for (const [eventKey, group] of groups) {
+            if (ambiguous.has(eventKey)) continue;
+            const selections = THREE_WAY_KINDS.map(kind => group.get(kind));
+            if (selections.some(m => !m || !m.polymarketAwayTokenId || !m.polymarketHomeTokenId)) continue;
+            const markets = selections as SportsMatchedMarket[];
+
+            const event: BasketEvent = {
+                key: eventKey,
+                title: markets[0].eventTitle || markets[0].predictTitle,
+                outcomes: markets.map(m => this.toBasketOutcome(m)),
+                complete: true,
+            };
+            for (const side of ['YES', 'NO'] as BasketSide[]) {
+                const opportunity = calculateBasketOpportunity(event, side, this.threeWayBooks);
+                if (opportunity) {
+                    results.push({ ...opportunity, sport: markets[0].sport, gameStartTime: markets[0].gameStartTime });
+                }
+            }
+        }
+
+        this.threeWayOpportunities = results.sort((a, b) => b.estimatedProfit - a.estimatedProfit);
+    }
+
+    /**
+     * 子市场 → 篮子选项 (足球子市场 outcomes 为 ["Yes","No"]: away token = YES, home token = NO)
+     */
+    private toBasketOutcome(market: SportsMatchedMarket): BasketOutcome {
+        return {
+            predictMarketId: market.predictMarketId,
+            name: market.selectionLabel || market.predictTitle,
+            conditionId: market.polymarketConditionId,
+            yesTokenId: market.polymarketAwayTokenId,
+            noTokenId: market.polymarketHomeTokenId,
+            feeRateBps: market.feeRateBps,
+            tickSize: market.tickSize,
+            negRisk: market.negRisk,
+        };
+    }
+
     // ============================================================================
     // Market Matching
     // ============================================================================
@@ -1281,10 +1404,80 @@ export class SportsService {
         const titleMatches = matches.filter(m => m.matchMethod === 'title').length;
         console.log(`[SportsService] Matched: ${matches.length} markets (conditionId: ${conditionIdMatches}, nba-slug: ${nbaSlugMatches}, slug: ${slugMatches}, title: ${titleMatches})`);
 
-        // 4. 获取 Predict volume 数据 (单独 API 调用)
-        await this.fetchPredictVolumeStats(matches);
+        // 4. 提交映射注册表：黑名单剔除，pin / override 以人工映射为准
+        const resolvedMatches = this.applyMappingRegistry(matches, polyMarkets, slugGroupMeta);
+
+        // 5. 获取 Predict volume 数据 (单独 API 调用)
+        await this.fetchPredictVolumeStats(resolvedMatches);
+
+        return resolvedMatches;
+    }
+
+    /**
+     * 启发式匹配结果提交 MappingRegistry，返回按生效映射修正后的匹配
+     * 人工映射指向的 Polymarket 市场不在本次体育市场列表中时跳过该市场
+     */
+    private applyMappingRegistry(
+        matches: InternalMatchedMarket[],
+        polyMarkets: PolyMarket[],
+        slugGroupMeta: Map<string, SlugGroupMeta>
+    ): InternalMatchedMarket[] {
+        const registry = getMappingRegistry();
+        const resolved: InternalMatchedMarket[] = [];
+
+        for (const match of matches) {
+            let tokenIds: string[] = [];
+            try {
+                tokenIds = JSON.parse(match.polyMarket.clobTokenIds || '[]') as string[];
+            } catch {
+                // 忽略
+            }
+
+            const mapping = registry.upsertCandidate({
+                predictMarketId: match.predictId,
+                conditionId: match.polymarketConditionId,
+                yesTokenId: tokenIds[0] ?? null,
+                noTokenId: tokenIds[1] ?? null,
+                inverted: false,
+                matchMethod: match.matchMethod,
+                confidence: MATCH_METHOD_CONFIDENCE[match.matchMethod],
+                source: 'sports',
+                active: match.polyMarket.active !== false && match.polyMarket.closed !== true,
+                predictTitle: match.predictTitle,
+                predictQuestion: match.predictMarket?.question,
+                categorySlug: match.predictCategorySlug,
+                feeRateBps: match.predictMarket?.feeRateBps,
+                polymarketQuestion: match.polymarketQuestion,
+            }, 'sports');
+
+            if (!mapping) {
+                console.log(`[SportsService] Predict#${match.predictId} 映射已列入黑名单，跳过`);
+                continue;
+            }
+            if (mapping.conditionId.toLowerCase() === match.polymarketConditionId.toLowerCase()) {
+                resolved.push(match);
+                continue;
+            }
+
+            const polyMarket = polyMarkets.find(pm => pm.conditionId.toLowerCase() === mapping.conditionId.toLowerCase());
+            if (!polyMarket) {
+                console.warn(`[SportsService] Predict#${match.predictId} ${mapping.status} 映射的 Polymarket 市场 ${mapping.conditionId.slice(0, 10)}… 不在体育市场列表中，跳过`);
+                continue;
+            }
+            resolved.push({
+                ...match,
+                polymarketId: polyMarket.id,
+                polymarketQuestion: polyMarket.question,
+                polymarketConditionId: polyMarket.conditionId,
+                polymarketSlug: polyMarket.slug,
+                polymarketLiquidity: parseFloat(polyMarket.liquidity),
+                polymarketVolume: parseFloat(polyMarket.volume) || 0,
+                polyMarket,
+                ...this.buildEventSelectionMeta(match.predictMarket, polyMarket, slugGroupMeta),
+            });
+        }
 
-        return matches;
+        return resolved;
     }
 
     /**
@@ -1908,10 +2101,11 @@ export class SportsService {
         }
 
         // 计算 4 个套利机会
-        const awayMT = this.calculateOpportunity('away', 'MAKER', orderbook, feeRateBps);
-        const awayTT = this.calculateOpportunity('away', 'TAKER', orderbook, feeRateBps);
-        const homeMT = this.calculateOpportunity('home', 'MAKER', orderbook, feeRateBps);
-        const homeTT = this.calculateOpportunity('home', 'TAKER', orderbook, feeRateBps);
+        const feeContext: FeeContext = { marketId: match.predictId, polymarketMarket: polyMarket.conditionId };
+        const awayMT = this.calculateOpportunity('away', 'MAKER', orderbook, feeRateBps, feeContext);
+        const awayTT = this.calculateOpportunity('away', 'TAKER', orderbook, feeRateBps, feeContext);
+        const homeMT = this.calculateOpportunity('home', 'MAKER', orderbook, feeRateBps, feeContext);
+        const homeTT = this.calculateOpportunity('home', 'TAKER', orderbook, feeRateBps, feeContext);
 
         // 一致性校验 (互斥性约束)
         const consistency = this.checkConsistency(awayMT, awayTT, homeMT, homeTT);
@@ -2035,7 +2229,8 @@ export class SportsService {
         direction: 'away' | 'home',
         mode: 'MAKER' | 'TAKER',
         orderbook: SportsOrderBook,
-        feeRateBps: number
+        feeRateBps: number,
+        feeContext: FeeContext = {}
     ): SportsArbOpportunity {
         const pred = orderbook.predict;
         const poly = orderbook.polymarket;
@@ -2056,7 +2251,7 @@ export class SportsService {
             } else {
                 predictPrice = pred.awayAsk;
                 polyHedgePrice = poly.homeAsk;
-                predictFee = calculatePredictFee(predictPrice, feeRateBps);
+                predictFee = calculatePredictFee(predictPrice, feeRateBps, feeContext);
                 predictDepth = pred.awayAskDepth;
                 polyDepth = poly.homeAskDepth;
             }
@@ -2070,14 +2265,15 @@ export class SportsService {
             } else {
                 predictPrice = pred.homeAsk;  // = 1 - pred.awayBid
                 polyHedgePrice = poly.awayAsk;
-                predictFee = calculatePredictFee(predictPrice, feeRateBps);
+                predictFee = calculatePredictFee(predictPrice, feeRateBps, feeContext);
                 predictDepth = pred.awayBidDepth;  // 主队 ask 深度 = 客队 bid 深度
                 polyDepth = poly.awayAskDepth;
             }
         }
 
-        // 使用固定精度计算避免浮点误差 (保留4位小数)
-        const cost = Number((predictPrice + polyHedgePrice + predictFee).toFixed(4));
+        // 使用固定精度计算避免浮点误差 (保留4位小数)，Polymarket 对冲费用按费率表（默认 0）
+        const polyFee = getFeeModel().polymarketFeePerShare(polyHedgePrice, feeContext);
+        const cost = Number((predictPrice + polyHedgePrice + predictFee + polyFee).toFixed(4));
         const profit = Number((1 - cost).toFixed(4));
         const profitPercent = profit * 100;
         // M-T 模式 profit >= 0 即有效 (有积分奖励)，T-T 需要 profit > 0
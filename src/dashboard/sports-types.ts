@@ -5,6 +5,7 @@
  */
 
 import type { ArbOpportunity } from './types.js';
+import type { BasketOpportunity, BasketSide, BasketTaskSizing } from './basket/types.js';
 
 // ============================================================================
 // Polymarket Sports API Types
@@ -236,10 +237,35 @@ export interface SportsMatchedMarket {
     lastUpdated: number;
 }
 
+/**
+ * 足球三项盘 (1X2) 套利机会
+ *
+ * 主胜 / 平局 / 客胜三个子市场各买一份 (每腿 Predict / Polymarket 择优):
+ * - YES: 三腿 YES，兑付 1
+ * - NO:  三腿 NO，兑付 2
+ * id 为 `${eventKey}:${side}`，legs 顺序为 teamA / draw / teamB
+ */
+export interface SportsThreeWayOpportunity extends BasketOpportunity {
+    sport: SportType;
+    gameStartTime?: string;
+}
+
 /**
  * 体育市场创建任务参数
+ * - 两项盘 (默认): Predict 单腿 + Polymarket 对冲，走 /api/tasks
+ * - 三项盘 (kind='THREE_WAY'): 1X2 三腿篮子任务，走 /api/sports/tasks
  */
-export interface SportsCreateTaskParams {
+export type SportsCreateTaskParams = SportsTwoWayCreateTaskParams | SportsThreeWayCreateTaskParams;
+
+export interface SportsThreeWayCreateTaskParams extends BasketTaskSizing {
+    kind: 'THREE_WAY';
+    eventKey: string;
+    side?: BasketSide;              // 默认 YES
+}
+
+export interface SportsTwoWayCreateTaskParams {
+    kind?: 'TWO_WAY';
+
     // 市场信息
     marketId: number;
     title: string;
@@ -274,6 +300,7 @@ export interface SportsCreateTaskParams {
 
 export interface SportsSSEData {
     markets: SportsMatchedMarket[];
+    threeWay: SportsThreeWayOpportunity[];   // 足球 1X2 三腿套利
     stats: {
         totalMatched: number;
         withArbitrage: number;
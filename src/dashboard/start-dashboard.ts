@@ -10,29 +10,69 @@ import { readFileSync, existsSync } from 'fs';
 import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
 import { execSync } from 'child_process';
-import { calculateDepth, calculateNoSideDepth, type DepthResult, type NoSideDepthResult } from '../trading/depth-calculator.js';
+import { calculateDepth, calculateNoSideDepth, invertLevels, type DepthResult, type NoSideDepthResult } from '../trading/depth-calculator.js';
+import { initFeeModel, type FeeContext } from '../trading/fee-model.js';
 import { PolymarketWebSocketClient } from '../polymarket/ws-client.js';
 import { destroyPolymarketUserWsClient } from '../polymarket/user-ws-client.js';
 import { getAccountData, refreshAccountData, setMarketTitleResolver } from './account-service.js';
 import { getTaskService, initTaskService } from './task-service.js';
-import { getTaskExecutor } from './task-executor.js';
+import { getAccountRegistry, initAccountRegistry, CapitalAllocator, loadCapitalAllocatorConfigFromEnv, TaskExecutorPool, type TradingAccountConfig } from './accounts/index.js';
+import { findAnyOtherMarket, getMappingRegistry, MATCH_METHOD_CONFIDENCE, validateMappingResolutions, type ManualMappingInput, type MappingStatus, type MarketMapping } from './mappings/index.js';
+import { isPaperTradingEnabled } from './paper-trading/index.js';
 import { getTaskLogger, initTaskLogger } from './task-logger/index.js';
 import { createTelegramNotifier, TelegramNotifier } from '../notification/telegram.js';
 import { startWsOrderNotifierFromEnv, stopWsOrderNotifier } from '../notification/ws-order-notifier.js';
 import { startBscOrderNotifierFromEnv, stopBscOrderNotifier } from '../notification/bsc-order-notifier.js';
-import type { CreateTaskInput, TaskFilter, Task, ArbOpportunity, CloseOpportunity } from './types.js';
+import type { CreateTaskInput, TaskFilter, Task, TaskStatus, TaskType, TaskStrategy, ArbOpportunity, CloseOpportunity } from './types.js';
 import { getLogQueryService } from './log-query-service.js';
-import { calculateCloseOpportunities, getClosePositions, getPositionMarketIds, getUnmatchedPositions, refreshMarketMatches, setPolyOrderbookProvider, setPredictOrderbookProvider as setClosePredictOrderbookProvider, setPredictApiKeyProvider } from './close-service.js';
-import { setPolymarketWsOrderbookProvider } from './polymarket-trader.js';
+import { calculateCloseOpportunities, getClosePositions, getPlatformPositions, getPositionMarketIds, getUnmatchedPositions, refreshMarketMatches, setPolyOrderbookProvider, setPredictOrderbookProvider as setClosePredictOrderbookProvider, setPredictApiKeyProvider } from './close-service.js';
+import { setPolymarketWsOrderbookProvider, getPolymarketTrader } from './polymarket-trader.js';
 import { setPredictOrderbookCacheProvider, setPredictOrderbookRestFallbackEnabled } from './predict-trader.js';
 import { getSportsService, setSportsPredictOrderbookProvider } from './sports-service.js';
-import { fetchBoostData, isMarketBoosted, getBoostCache } from './boost-cache.js';
+import type { SportsCreateTaskParams } from './sports-types.js';
+import { getBasketService, type BasketCreateTaskParams } from './basket/index.js';
+import { fetchBoostData, isMarketBoosted, isBoostActive, getBoostCache } from './boost-cache.js';
 import { initUrlMapper, getPredictSlug, getPolymarketSlug, cachePredictSlugs, generatePredictSlug } from './url-mapper.js';
 import { getBscOrderWatcher, stopBscOrderWatcher, type OrderFilledEvent as BscOrderFilledEvent } from '../services/bsc-order-watcher.js';
 import { getPredictOrderWatcher, stopPredictOrderWatcher, type OrderFilledEvent } from '../services/predict-order-watcher.js';
 import type { WalletEventData } from '../services/predict-ws-client.js';
 import { getTokenMarketCache, stopTokenMarketCache } from '../services/token-market-cache.js';
 import { getPredictOrderbookCache, initPredictOrderbookCache, stopPredictOrderbookCache, type CachedOrderbook } from '../services/predict-orderbook-cache.js';
+import { initOrderbookRecorder, stopOrderbookRecorder } from '../services/orderbook-tape/index.js';
+import {
+    initRiskManager,
+    getRiskManager,
+    stopRiskManager,
+    computeTaskExposure,
+    mergeRiskExposure,
+    getTaskRealizedPnl,
+    isTaskRiskTerminal,
+    type RiskHaltState,
+} from '../services/risk-manager/index.js';
+import {
+    initCtfService,
+    getCtfService,
+    loadCtfConfigFromEnv,
+    type CtfService,
+    type CtfTxResult,
+} from '../services/ctf/index.js';
+import {
+    initSettlementTracker,
+    getSettlementTracker,
+    stopSettlementTracker,
+    type SettlementEvent,
+    type SettlementRecord,
+    type SettlementStatus,
+} from '../services/settlement/index.js';
+import { initTelegramCommandBot, stopTelegramCommandBot } from './telegram-command-bot.js';
+import { requestMarketMakerStop } from '../market-maker/remote-control.js';
+import {
+    initMarketMakerService,
+    getMarketMakerService,
+    stopMarketMakerService,
+    type MarketMakerMarketInput,
+} from '../market-maker/mm-service.js';
+import type { Fill as MarketMakerFill, HedgeFill as MarketMakerHedgeFill } from '../market-maker/types.js';
 import * as readline from 'readline';
 import { readdirSync } from 'fs';
 
@@ -56,6 +96,7 @@ interface CliArgs {
     envFile: string | null;  // null 表示未指定，需要交互选择
     port: number | null;
     accountName: string | null;
+    accounts: string[] | null;  // 多账号模式: 账号名称列表或 ['all']
 }
 
 function parseCliArgs(): CliArgs {
@@ -64,6 +105,7 @@ function parseCliArgs(): CliArgs {
         envFile: null,  // 默认 null，后续判断是否需要交互
         port: null,
         accountName: null,
+        accounts: null,
     };
 
     for (let i = 0; i < args.length; i++) {
@@ -90,6 +132,13 @@ function parseCliArgs(): CliArgs {
             result.accountName = arg.slice(10);
         }
 
+        // --accounts <a,b> 或 --accounts=all (多账号模式)
+        else if (arg === '--accounts' && args[i + 1]) {
+            result.accounts = args[++i].split(',').map(s => s.trim()).filter(Boolean);
+        } else if (arg.startsWith('--accounts=')) {
+            result.accounts = arg.slice(11).split(',').map(s => s.trim()).filter(Boolean);
+        }
+
         // --help
         else if (arg === '--help' || arg === '-h') {
             console.log(`
@@ -97,12 +146,14 @@ Dashboard 启动参数:
   --env <path>      指定配置文件路径 (默认: 交互选择或 .env)
   --port <number>   指定端口 (默认: 3010 或 DASHBOARD_PORT)
   --account <name>  账号名称标识 (用于日志区分)
+  --accounts <list> 多账号模式: 逗号分隔的账号名称 (.env.<name>) 或 all
   --help            显示帮助
 
 示例:
   npm run dashboard                                              # 交互式选择账号
   npm run dashboard -- --env .env.account1 --port 3010 --account account1
   npm run dashboard -- --env .env.account2 --port 3006 --account account2
+  npm run dashboard -- --accounts account1,account2              # 单进程管理多个账号
 `);
             process.exit(0);
         }
@@ -154,7 +205,7 @@ function scanAccountConfigs(): AccountConfig[] {
 /**
  * 交互式选择账号配置
  */
-async function selectAccountInteractive(configs: AccountConfig[]): Promise<{ envFile: string; accountName: string }> {
+async function selectAccountInteractive(configs: AccountConfig[]): Promise<{ envFile: string; accountName: string; all?: boolean }> {
     const rl = readline.createInterface({
         input: process.stdin,
         output: process.stdout,
@@ -167,14 +218,24 @@ async function selectAccountInteractive(configs: AccountConfig[]): Promise<{ env
         configs.forEach((config, index) => {
             console.log(`  ${index + 1}. ${config.displayName}`);
         });
-        console.log(`  ${configs.length + 1}. [默认] (.env)\n`);
+        console.log(`  ${configs.length + 1}. [默认] (.env)`);
+        if (configs.length > 1) {
+            console.log(`  ${configs.length + 2}. [全部账号] (多账号模式)`);
+        }
+        console.log('');
 
         rl.question('请输入序号 (默认 1): ', (answer) => {
             rl.close();
 
             const choice = parseInt(answer.trim(), 10) || 1;
 
-            if (choice > 0 && choice <= configs.length) {
+            if (configs.length > 1 && choice === configs.length + 2) {
+                resolve({
+                    envFile: configs[0].envFile,
+                    accountName: configs[0].name,
+                    all: true,
+                });
+            } else if (choice > 0 && choice <= configs.length) {
                 const selected = configs[choice - 1];
                 resolve({
                     envFile: selected.envFile,
@@ -191,18 +252,43 @@ async function selectAccountInteractive(configs: AccountConfig[]): Promise<{ env
     });
 }
 
+/**
+ * 按账号名称解析多账号配置 (['all'] = 全部 .env.<name>)
+ */
+function resolveAccountConfigs(names: string[]): AccountConfig[] {
+    const configs = scanAccountConfigs();
+    if (names.length === 1 && names[0] === 'all') {
+        return configs;
+    }
+    return names.map(name => {
+        const config = configs.find(c => c.name === name);
+        if (!config) {
+            console.error(`❌ 账号配置不存在: .env.${name}`);
+            process.exit(1);
+        }
+        return config;
+    });
+}
+
+// 解析 .env 文件 (不写入 process.env)
+function parseEnvFile(envPath: string): Record<string, string> {
+    const vars: Record<string, string> = {};
+    const content = readFileSync(envPath, 'utf-8');
+    for (const line of content.split('\n')) {
+        const match = line.trim().match(/^([^#=]+)=(.*)$/);
+        if (match) {
+            vars[match[1].trim()] = match[2].trim();
+        }
+    }
+    return vars;
+}
+
 // 加载 .env 文件
 function loadEnv(envPath: string, accountName: string | null) {
     if (existsSync(envPath)) {
-        const content = readFileSync(envPath, 'utf-8');
-        for (const line of content.split('\n')) {
-            const match = line.trim().match(/^([^#=]+)=(.*)$/);
-            if (match) {
-                const key = match[1].trim();
-                const value = match[2].trim();
-                if (!process.env[key]) {
-                    process.env[key] = value;
-                }
+        for (const [key, value] of Object.entries(parseEnvFile(envPath))) {
+            if (!process.env[key]) {
+                process.env[key] = value;
             }
         }
         const label = accountName ? ` [${accountName}]` : '';
@@ -225,8 +311,18 @@ async function initConfig(): Promise<void> {
 
     let envFile: string;
     let accountName: string | null = cliArgs.accountName;
-
-    if (cliArgs.envFile) {
+    // 多账号模式: 第一个账号为主账号 (加载进 process.env)，其余账号在进程环境上叠加各自配置
+    let multiAccounts: AccountConfig[] = [];
+    const baseEnv: NodeJS.ProcessEnv = { ...process.env };
+
+    if (cliArgs.accounts) {
+        multiAccounts = resolveAccountConfigs(cliArgs.accounts);
+        if (multiAccounts.length === 0) {
+            console.error('❌ 未找到账号配置 (.env.<name>)');
+            process.exit(1);
+        }
+        envFile = multiAccounts[0].envFile;
+    } else if (cliArgs.envFile) {
         // 命令行指定了配置文件
         envFile = cliArgs.envFile;
     } else {
@@ -237,7 +333,11 @@ async function initConfig(): Promise<void> {
             // 有多个账号配置，交互式选择
             const selected = await selectAccountInteractive(configs);
             envFile = selected.envFile;
-            accountName = accountName || selected.accountName;
+            if (selected.all) {
+                multiAccounts = configs;
+            } else {
+                accountName = accountName || selected.accountName;
+            }
         } else {
             // 没有账号配置，使用默认 .env
             envFile = join(PROJECT_ROOT, '.env');
@@ -245,16 +345,32 @@ async function initConfig(): Promise<void> {
     }
 
     // 加载配置
-    loadEnv(envFile, accountName);
+    loadEnv(envFile, multiAccounts[0]?.name ?? accountName);
 
     // 设置全局变量
     PORT = cliArgs.port || parseInt(process.env.DASHBOARD_PORT || '3010', 10);
-    ACCOUNT_NAME = accountName || process.env.ACCOUNT_NAME || '';
+    // 多账号模式共用一个数据目录，任务按 accountId 区分
+    ACCOUNT_NAME = accountName || (multiAccounts.length > 0 ? 'multi' : process.env.ACCOUNT_NAME || '');
+
+    const tradingAccounts: TradingAccountConfig[] = multiAccounts.length > 0
+        ? multiAccounts.map((config, index) => ({
+            id: config.name,
+            envFile: config.envFile,
+            env: index === 0 ? process.env : { ...parseEnvFile(config.envFile), ...baseEnv },
+        }))
+        : [{ id: ACCOUNT_NAME || 'default', envFile, env: process.env }];
+    initAccountRegistry(tradingAccounts);
+    if (multiAccounts.length > 0) {
+        console.log(`👥 多账号模式: ${tradingAccounts.map(a => a.id).join(', ')} (主账号 ${tradingAccounts[0].id})`);
+    }
 
     // 初始化数据存储 (多账号使用独立目录)
     const dataDir = ACCOUNT_NAME ? `./data/${ACCOUNT_NAME}` : './data';
-    initTaskLogger({ baseDir: `${dataDir}/logs/tasks` });
-    initTaskService(`${dataDir}/tasks.json`);
+    initTaskLogger({
+        baseDir: `${dataDir}/logs/tasks`,
+        jsonl: { enabled: process.env.TASK_LOG_JSONL !== 'false' },
+    });
+    initTaskService(`${dataDir}/tasks.db`);
 
     // 初始化 URL 映射 (加载缓存 + 获取 Polymarket slugs)
     await initUrlMapper();
@@ -494,6 +610,7 @@ interface SystemStats {
         totalDepth: number;
     };
     dataVersion: number;      // 递增版本号，用于一致性验证
+    executionMode: 'LIVE' | 'PAPER';  // PAPER = 模拟撮合 (USE_REAL_EXECUTION=false)
 }
 
 interface MarketPair {
@@ -548,6 +665,7 @@ let dashboardData: DashboardData = {
             totalDepth: 0,
         },
         dataVersion: 0,
+        executionMode: isPaperTradingEnabled() ? 'PAPER' : 'LIVE',
     },
 };
 
@@ -607,6 +725,7 @@ let mainPollInterval: ReturnType<typeof setInterval> | null = null;
 let polyRefreshInterval: ReturnType<typeof setInterval> | null = null;
 let predictRefreshInterval: ReturnType<typeof setInterval> | null = null;
 let boostRefreshInterval: ReturnType<typeof setInterval> | null = null;
+let basketScanInterval: ReturnType<typeof setInterval> | null = null;
 const BOOST_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
 let wsDisconnectTimer: ReturnType<typeof setTimeout> | null = null;
 let wsResumeTimer: ReturnType<typeof setTimeout> | null = null;
@@ -858,9 +977,32 @@ async function handleWsHealthCheck(): Promise<void> {
     lastWsHealthy = connected;
 }
 
-// Task Service 和 Executor 实例
+// Task Service 和 Executor 实例 (每个账号一个执行器)
 const taskService = getTaskService();
-const taskExecutor = getTaskExecutor();
+const accountRegistry = getAccountRegistry();
+const mappingRegistry = getMappingRegistry();
+const taskExecutor = new TaskExecutorPool(accountRegistry);
+taskService.setPredictAccountResolver(accountId => accountRegistry.getPredictAddress(accountId));
+
+// 资金预留 (模拟交易不占用真实余额，不启用)
+const capitalAllocatorConfig = loadCapitalAllocatorConfigFromEnv();
+if (isPaperTradingEnabled()) {
+    capitalAllocatorConfig.enabled = false;
+}
+const capitalAllocator = new CapitalAllocator(accountRegistry, taskService, capitalAllocatorConfig);
+
+/**
+ * 账户数据 (多账号模式附带各账号余额，启用资金预留时附带 已预留 / 可用)
+ */
+async function getDashboardAccountData(refresh = false) {
+    const accountData = refresh ? await refreshAccountData() : await getAccountData();
+    if (refresh && (accountRegistry.isMultiAccount() || capitalAllocatorConfig.enabled)) {
+        await accountRegistry.refreshBalances();
+    }
+    const accounts = accountRegistry.isMultiAccount() ? await accountRegistry.ensureFreshBalances() : undefined;
+    const capital = capitalAllocatorConfig.enabled ? await capitalAllocator.getStatus() : undefined;
+    return { ...accountData, accounts, capital };
+}
 
 // Telegram 通知实例 (懒加载)
 let telegramNotifier: TelegramNotifier | null = null;
@@ -902,32 +1044,41 @@ const EXPOSURE_ACTIVE_STATUSES = new Set([
     'PAUSED',
 ]);
 
+function collectUnhedgedExposure(minShares: number): {
+    totalExposure: number;
+    exposedTasks: { id: string; title: string; exposure: number; predictFilled: number; hedged: number }[];
+} {
+    const allTasks = taskService.getTasks();
+    let totalExposure = 0;
+    const exposedTasks: { id: string; title: string; exposure: number; predictFilled: number; hedged: number }[] = [];
+
+    for (const t of allTasks) {
+        // 只检查执行中的任务
+        if (!EXPOSURE_ACTIVE_STATUSES.has(t.status)) continue;
+
+        const filled = Number(t.predictFilledQty) || 0;
+        const hedged = Number(t.hedgedQty) || 0;
+        // 过滤异常值 (wei 未转换等): 合理范围 < 1e8
+        if (!Number.isFinite(filled) || filled > 1e8) continue;
+        const exposure = filled - hedged;
+        if (!Number.isFinite(exposure) || exposure <= 0 || exposure < minShares) continue;
+        totalExposure += exposure;
+        exposedTasks.push({
+            id: t.id,
+            title: t.title || `Task #${t.id?.slice(0, 8) || 'unknown'}`,
+            exposure,
+            predictFilled: filled,
+            hedged,
+        });
+    }
+
+    return { totalExposure, exposedTasks };
+}
+
 function startExposureMonitor(): void {
     setInterval(() => {
-        const allTasks = taskService.getTasks();
-        let totalExposure = 0;
-        const exposedTasks: { id: string; title: string; exposure: number; predictFilled: number; hedged: number }[] = [];
-
-        for (const t of allTasks) {
-            // 只检查执行中的任务
-            if (!EXPOSURE_ACTIVE_STATUSES.has(t.status)) continue;
-
-            const filled = Number(t.predictFilledQty) || 0;
-            const hedged = Number(t.hedgedQty) || 0;
-            // 过滤异常值 (wei 未转换等): 合理范围 < 1e8
-            if (!Number.isFinite(filled) || filled > 1e8) continue;
-            const exposure = filled - hedged;
-            // 只关注有意义的敞口 (>= 10 shares)
-            if (!Number.isFinite(exposure) || exposure < 10) continue;
-            totalExposure += exposure;
-            exposedTasks.push({
-                id: t.id,
-                title: t.title || `Task #${t.id?.slice(0, 8) || 'unknown'}`,
-                exposure,
-                predictFilled: filled,
-                hedged,
-            });
-        }
+        // 只关注有意义的敞口 (>= 10 shares)
+        const { totalExposure, exposedTasks } = collectUnhedgedExposure(10);
 
         if (!Number.isFinite(totalExposure) || totalExposure <= EXPOSURE_THRESHOLD) return;
 
@@ -963,6 +1114,9 @@ async function sendExposureTelegramAlert(
     for (const t of exposedTasks) {
         lines.push(`• <b>${(t.title || '').slice(0, 30)}</b>: ${(t.exposure || 0).toFixed(1)} shares (成交${(t.predictFilled ?? 0).toFixed(0)}/对冲${(t.hedged ?? 0).toFixed(0)})`);
     }
+    if (process.env.TELEGRAM_COMMANDS_ENABLED === 'true') {
+        lines.push(``, `/exposure 查看详情，/pause_all 暂停所有任务`);
+    }
 
     // 取消上一条置顶
     if (lastPinnedMessageId) {
@@ -971,6 +1125,351 @@ async function sendExposureTelegramAlert(
     lastPinnedMessageId = await tg.sendAndPin(lines.join('\n'));
 }
 
+// ============================================================================
+// Telegram 命令 (远程控制)
+// ============================================================================
+
+/**
+ * 启动 Telegram 命令 (TELEGRAM_COMMANDS_ENABLED=true)
+ * 白名单: TELEGRAM_COMMAND_CHAT_IDS (逗号分隔)，默认仅 TELEGRAM_CHAT_ID
+ */
+function startTelegramCommandBot(botToken: string, defaultChatId: string): void {
+    if (process.env.TELEGRAM_COMMANDS_ENABLED !== 'true') return;
+
+    const allowedChatIds = (process.env.TELEGRAM_COMMAND_CHAT_IDS || defaultChatId)
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean);
+
+    initTelegramCommandBot({ botToken, allowedChatIds }, {
+        getTasks: () => taskService.getTasks({ includeCompleted: true }),
+        cancelTask: (taskId) => taskExecutor.cancelTask(taskId),
+        pauseAllTasks: (reason) => taskExecutor.pauseTasks(reason, { concurrency: 4, timeoutMs: 60000 }),
+        resumeTask: (taskId) => taskExecutor.resumeTask(taskId),
+        getExposure: () => {
+            const { totalExposure, exposedTasks } = collectUnhedgedExposure(0);
+            return { totalExposure, tasks: exposedTasks };
+        },
+        getBalances: () => getAccountData(),
+        getOpportunities: () => dashboardData.opportunities,
+        stopMarketMaker: async (reason) => {
+            const remote = requestMarketMakerStop(reason);
+            const mmService = getMarketMakerService();
+            const localRunning = !!mmService?.isRunning();
+            if (localRunning) {
+                mmService?.setEmergencyStop(true);
+            }
+
+            const lines: string[] = [];
+            if (localRunning) lines.push('⛔ Dashboard 内做市已紧急停止');
+            if (remote === 'REQUESTED') lines.push('⛔ 已向做市进程发送紧急停止指令 (将在 2s 内撤单并暂停)');
+            if (remote === 'ALREADY_STOPPED') lines.push('ℹ️ 做市进程已处于紧急停止状态');
+            return lines.length > 0 ? lines.join('\n') : 'ℹ️ 做市未运行 (无 Dashboard 内做市引擎或独立做市进程)，无需停止';
+        },
+        getRiskStatus: () => getRiskManager()?.getStatus() ?? null,
+        getSettlements: () => {
+            const tracker = getSettlementTracker();
+            return tracker
+                ? { summary: tracker.getSummary(), records: tracker.getRecords({ status: ['MISMATCH', 'PROPOSED'] }) }
+                : null;
+        },
+    });
+    console.log('✅ Telegram 命令已启用\n');
+}
+
+// ============================================================================
+// 账户级风控 (Risk Manager)
+// ============================================================================
+let lastRiskPinnedMessageId: number | null = null;
+
+/**
+ * 启动风控: 敞口来自任务列表，任务终态时计入当日已实现盈亏。
+ * 熔断时暂停所有任务、广播 SSE、发送 Telegram 置顶告警；做市进程通过共享熔断开关同步停止。
+ */
+function startRiskManager(): void {
+    const riskManager = initRiskManager({
+        source: 'dashboard',
+        // 模拟交易的盈亏和熔断状态与实盘隔离
+        stateDir: isPaperTradingEnabled() ? './data/risk/paper' : './data/risk',
+    });
+    // 同进程做市 (DASHBOARD_MM_ENABLED) 的敞口与任务敞口合并检查
+    riskManager.setExposureProvider(() => {
+        // HEDGE_FAILED 残余敞口在 Predict 市场结算后不再计入
+        const resolved = new Set(
+            (getSettlementTracker()?.getMarkets() ?? [])
+                .filter(m => m.predictFinal)
+                .map(m => m.predictMarketId),
+        );
+        const exposure = computeTaskExposure(taskService.getTasks(), {
+            isMarketResolved: (marketId) => resolved.has(marketId),
+        });
+        const mmService = getMarketMakerService();
+        if (mmService) mergeRiskExposure(exposure, mmService.getRiskExposure());
+        return exposure;
+    });
+
+    // 任务进入终态时计入当日已实现盈亏 (按任务 ID 去重，重复 update 不会重复计入)
+    taskService.on('task:updated', (task: Task) => {
+        if (!isTaskRiskTerminal(task)) return;
+        getRiskManager()?.recordRealizedPnl(getTaskRealizedPnl(task), `task:${task.id}`);
+    });
+
+    riskManager.on('halt', (halt: RiskHaltState) => {
+        broadcastSSEGlobal('riskBreach', JSON.stringify({ ...riskManager.getStatus(), timestamp: Date.now() }));
+
+        taskExecutor.pauseTasks(`风控熔断: ${halt.reason}`, { concurrency: 4, timeoutMs: 60000 })
+            .then((pausedIds) => console.warn(`[Risk] 风控熔断，已暂停 ${pausedIds.length} 个任务`))
+            .catch((error: any) => console.error(`[Risk] 暂停任务失败: ${error?.message || error}`));
+
+        sendRiskTelegramAlert(halt).catch(() => { /* ignore */ });
+    });
+    riskManager.on('resume', () => {
+        broadcastSSEGlobal('riskResume', JSON.stringify({ ...riskManager.getStatus(), timestamp: Date.now() }));
+        const tg = getTelegramNotifier();
+        if (tg && lastRiskPinnedMessageId) {
+            tg.unpinMessage(lastRiskPinnedMessageId).catch(() => { /* ignore */ });
+            lastRiskPinnedMessageId = null;
+        }
+    });
+
+    riskManager.start();
+}
+
+// ============================================================================
+// CTF 仓位管理 (合并 / 赎回)
+// ============================================================================
+let ctfAutoTimer: NodeJS.Timeout | null = null;
+
+/**
+ * 启动 CTF 服务；CTF_AUTO_REDEEM / CTF_AUTO_MERGE 开启时定期赎回已结算仓位、合并 YES+NO 配对。
+ * 有活跃任务的市场不自动合并，避免动到任务仍需卖出的仓位。
+ */
+function startCtfService(): void {
+    let ctf: CtfService;
+    try {
+        ctf = initCtfService(loadCtfConfigFromEnv({
+            // 模拟交易模式只生成 calldata
+            dryRun: isPaperTradingEnabled() || process.env.CTF_DRY_RUN === 'true',
+        }));
+    } catch (error: any) {
+        console.warn(`⚠️  CTF 服务未启动: ${error?.message || error}`);
+        return;
+    }
+
+    ctf.on('executed', (result: CtfTxResult) => {
+        if (result.dryRun) return;
+        const label = result.action === 'REDEEM' ? '赎回' : result.action === 'MERGE' ? '合并' : '拆分';
+        getTelegramNotifier()?.sendText(
+            `🔁 <b>CTF ${label}</b>\n` +
+            `Condition: <code>${result.conditionId}</code>\n` +
+            `数量: ${result.amount.toFixed(2)}${result.negRisk ? ' (negRisk)' : ''}\n` +
+            `交易: ${result.txHashes.map(h => `<code>${h}</code>`).join(', ')}`
+        ).catch(() => { /* ignore */ });
+    });
+
+    const autoRedeem = process.env.CTF_AUTO_REDEEM === 'true';
+    const autoMerge = process.env.CTF_AUTO_MERGE === 'true';
+    if (!autoRedeem && !autoMerge) return;
+
+    const intervalMs = parseInt(process.env.CTF_AUTO_INTERVAL_MS || '600000', 10);
+    const mergeMinShares = parseFloat(process.env.CTF_AUTO_MERGE_MIN_SHARES || '5');
+    let running = false;
+
+    const runOnce = async () => {
+        if (running) return;
+        running = true;
+        try {
+            if (autoRedeem) {
+                const redeemed = await ctf.redeemAll();
+                if (redeemed.length > 0) console.log(`[CTF] 自动赎回 ${redeemed.length} 个已结算市场`);
+            }
+            if (autoMerge) {
+                // 仅跳过仍有活跃任务的市场 (不含终态任务，已完成的套利配对应合并释放资金)
+                const activeConditions = new Set(
+                    taskService.getTasks({})
+                        .map(t => t.polymarketConditionId?.toLowerCase())
+                        .filter(Boolean)
+                );
+                const merged = await ctf.mergeAll(mergeMinShares, {}, p => activeConditions.has(p.conditionId));
+                if (merged.length > 0) console.log(`[CTF] 自动合并 ${merged.length} 个 YES+NO 配对`);
+            }
+        } catch (error: any) {
+            console.warn(`[CTF] 自动赎回/合并失败: ${error?.message || error}`);
+        } finally {
+            running = false;
+        }
+    };
+
+    ctfAutoTimer = setInterval(() => void runOnce(), intervalMs);
+    void runOnce();
+    console.log(`✅ CTF 自动${autoRedeem ? '赎回' : ''}${autoRedeem && autoMerge ? '/' : ''}${autoMerge ? '合并' : ''}已启动 (每 ${Math.round(intervalMs / 1000)}s${ctf.isDryRun() ? ', dry-run' : ''})`);
+}
+
+function stopCtfService(): void {
+    if (ctfAutoTimer) {
+        clearInterval(ctfAutoTimer);
+        ctfAutoTimer = null;
+    }
+}
+
+// ============================================================================
+// 结算跟踪 (双边结算结果比对 + 结算后盈亏)
+// ============================================================================
+
+function formatSettlementRecordLine(record: SettlementRecord): string {
+    const pnl = record.realizedPnl !== null ? `$${record.realizedPnl.toFixed(2)}` : '-';
+    const expected = record.expectedProfit !== null ? ` (预期 $${record.expectedProfit.toFixed(2)})` : '';
+    const id = record.taskId ? record.taskId.slice(0, 8) : 'position';
+    return `• <code>${id}</code> ${record.arbSide} P${record.predictLeg.shares.toFixed(0)}/PM${record.polymarketLeg.shares.toFixed(0)}: ${pnl}${expected}`;
+}
+
+function startSettlementTracker(): void {
+    const tracker = initSettlementTracker({
+        stateFile: ACCOUNT_NAME ? `./data/${ACCOUNT_NAME}/settlements.json` : './data/settlements.json',
+        pollIntervalMs: parseInt(process.env.SETTLEMENT_POLL_INTERVAL_MS || '600000', 10),
+    });
+    tracker.setProviders({
+        // 内存中只有最近的终态任务，历史任务从任务库补充
+        getTasks: () => {
+            const tasks = new Map(taskService.getTasks({ includeCompleted: true }).map(t => [t.id, t]));
+            for (const task of taskService.queryTasks({ scope: 'history' }).tasks) {
+                if (!tasks.has(task.id)) tasks.set(task.id, task);
+            }
+            return [...tasks.values()];
+        },
+        getClosePositions: () => getClosePositions(),
+        getPredictApiKey: () => scanApiKeys.getNextKey(),
+    });
+
+    tracker.on('mismatch', ({ market, records }: SettlementEvent) => {
+        broadcastSSEGlobal('settlementMismatch', JSON.stringify({ market, records, timestamp: Date.now() }));
+        getTelegramNotifier()?.sendText(
+            `❌ <b>结算结果不一致</b>\n\n` +
+            `<b>市场:</b> #${market.predictMarketId} ${market.title}\n` +
+            `<b>Predict:</b> ${market.predictOutcome} (${market.predictStatus})\n` +
+            `<b>Polymarket:</b> ${market.polymarketOutcome ?? '-'}${market.isInverted ? ' (inverted)' : ''}${market.polymarketClosed ? '' : ' (未结算)'}\n` +
+            `<b>Condition:</b> <code>${market.polymarketConditionId}</code>\n\n` +
+            records.map(formatSettlementRecordLine).join('\n')
+        ).catch(() => { /* ignore */ });
+    });
+
+    tracker.on('settled', (events: SettlementEvent[]) => {
+        const real = events
+            .map(e => ({ ...e, records: e.records.filter(r => !r.simulated) }))
+            .filter(e => e.records.length > 0);
+        if (real.length === 0) return;
+
+        const lines = [`🏁 <b>结算完成 ${real.length} 个市场</b>`, ''];
+        let totalPnl = 0;
+        for (const { market, records } of real.slice(0, 10)) {
+            const pnl = records.reduce((sum, r) => sum + (r.realizedPnl ?? 0), 0);
+            totalPnl += pnl;
+            lines.push(`${market.mismatch ? '❌' : '✅'} #${market.predictMarketId} ${market.title.slice(0, 40)} → ${market.predictOutcome}  $${pnl.toFixed(2)}`);
+            lines.push(...records.map(formatSettlementRecordLine));
+        }
+        if (real.length > 10) lines.push(`... 另有 ${real.length - 10} 个市场`);
+
+        const summary = tracker.getSummary();
+        lines.push(
+            '',
+            `本次盈亏: $${totalPnl.toFixed(2)}`,
+            `累计已结算: ${summary.settled + summary.mismatched} 笔, 盈亏 $${summary.realizedPnl.toFixed(2)} (预期 $${summary.expectedProfit.toFixed(2)}, 手续费 $${summary.fees.toFixed(2)})`,
+        );
+        getTelegramNotifier()?.sendText(lines.join('\n')).catch(() => { /* ignore */ });
+    });
+
+    tracker.start();
+}
+
+// ============================================================================
+// 做市 (DASHBOARD_MM_ENABLED=true 时在 Dashboard 进程内运行，/api/mm/* 控制)
+// ============================================================================
+const MM_BROADCAST_THROTTLE_MS = 500;
+let mmBroadcastTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * 节流推送做市状态 (引擎每次 tick 都会触发状态变更)
+ */
+function scheduleMarketMakerBroadcast(): void {
+    if (mmBroadcastTimer) return;
+    mmBroadcastTimer = setTimeout(() => {
+        mmBroadcastTimer = null;
+        const service = getMarketMakerService();
+        if (service) markDirty('marketMaker', JSON.stringify(service.getStatus()));
+    }, MM_BROADCAST_THROTTLE_MS);
+}
+
+function startMarketMakerService(): void {
+    if (process.env.DASHBOARD_MM_ENABLED !== 'true') return;
+    if (isPaperTradingEnabled()) {
+        console.warn('⚠️  模拟交易模式不支持做市，DASHBOARD_MM_ENABLED 已忽略');
+        return;
+    }
+
+    const dataDir = ACCOUNT_NAME ? `./data/${ACCOUNT_NAME}` : './data';
+    const ledgerEnv = (process.env.MM_FILL_LEDGER || '').trim();
+    const eventDriven = !['0', 'false', 'off'].includes((process.env.MM_EVENT_DRIVEN || '').trim().toLowerCase());
+    const service = initMarketMakerService({
+        apiKey: process.env.PREDICT_API_KEY || '',
+        apiBaseUrl: process.env.PREDICT_API_BASE_URL || 'https://api.predict.fun',
+        configDir: dataDir,
+        ledgerPath: ['0', 'false', 'off'].includes(ledgerEnv.toLowerCase())
+            ? null
+            : ledgerEnv || `${dataDir}/market-maker-fills.db`,
+        globalConfig: {
+            eventDriven,
+            staleFallbackMs: Math.max(1000, Number(process.env.MM_STALE_FALLBACK_MS) || 5000),
+        },
+        // 配置了 Polymarket 交易账户时，带 hedge 的市场可跨平台对冲
+        hedgeVenue: process.env.POLYMARKET_TRADER_PRIVATE_KEY ? getPolymarketTrader() : null,
+        // 对冲方向 / conditionId 以映射注册表为准
+        hedgeMappings: (marketId) => mappingRegistry.resolve(marketId),
+    });
+
+    service.on('state', scheduleMarketMakerBroadcast);
+    service.on('status', scheduleMarketMakerBroadcast);
+    service.on('fill', (fill: MarketMakerFill) => {
+        broadcastSSEGlobal('mmFill', JSON.stringify({ ...fill, timestamp: Date.now() }));
+        scheduleMarketMakerBroadcast();
+    });
+    service.on('error', (marketId: number, message: string) => {
+        console.warn(`[MMService] 市场 ${marketId} 错误: ${message}`);
+    });
+    service.on('hedge', (fill: MarketMakerHedgeFill) => {
+        broadcastSSEGlobal('mmHedge', JSON.stringify(fill));
+        scheduleMarketMakerBroadcast();
+    });
+
+    console.log(`✅ 做市服务已就绪 (${service.getStatus().markets.length} 个市场，POST /api/mm/start 启动)`);
+}
+
+async function sendRiskTelegramAlert(halt: RiskHaltState): Promise<void> {
+    const tg = getTelegramNotifier();
+    const riskManager = getRiskManager();
+    if (!tg || !riskManager) return;
+
+    const status = riskManager.getStatus();
+    const lines = [
+        `⛔ <b>风控熔断 (${halt.limit})</b>`,
+        ``,
+        `原因: ${halt.reason}`,
+        `触发: ${halt.source}`,
+        `时间: ${new Date(halt.haltedAt ?? Date.now()).toLocaleString('zh-CN')}`,
+        ``,
+        `当日已实现盈亏: $${status.dailyRealizedPnl.toFixed(2)}`,
+        `Predict 名义金额: $${status.exposure.predictNotional.toFixed(2)}`,
+        `Polymarket 名义金额: $${status.exposure.polymarketNotional.toFixed(2)}`,
+        `未对冲: ${status.exposure.unhedgedShares.toFixed(1)} shares`,
+        ``,
+        `已暂停所有任务并紧急停止做市，解除: POST /api/risk/resume`,
+    ];
+
+    if (lastRiskPinnedMessageId) {
+        await tg.unpinMessage(lastRiskPinnedMessageId);
+    }
+    lastRiskPinnedMessageId = await tg.sendAndPin(lines.join('\n'));
+}
+
 // ============================================================================
 // JSON Body 解析辅助函数
 // ============================================================================
@@ -1333,7 +1832,8 @@ type BroadcastChannel =
     | 'tasks'
     | 'sports'
     | 'closeOpportunities'
-    | 'accounts';
+    | 'accounts'
+    | 'marketMaker';
 
 const BROADCAST_THROTTLE_MS = 200;  // 200ms 节流间隔 (减少背压)
 const SPORTS_RECOMPUTE_THROTTLE_MS = 200;  // 体育重算节流
@@ -1532,6 +2032,19 @@ function getPredictOrderbookForCloseService(marketId: number): { bids: { price:
     return { bids: cached.bids, asks: cached.asks };
 }
 
+/**
+ * Predict 订单簿快照 (含缓存时间戳，供外部进程判断数据新鲜度)
+ */
+function getPredictOrderbookSnapshot(marketId: number): { bids: OrderBookLevel[]; asks: OrderBookLevel[]; timestamp: number } | null {
+    if (usePredictWsMode) {
+        const cached = getPredictOrderbookCache()?.getOrderbookSync(marketId);
+        if (!cached) return null;
+        return { bids: cached.bids, asks: cached.asks, timestamp: cached.timestamp };
+    }
+    const cached = predictOrderbookCacheLegacy.get(marketId);
+    return cached ? { bids: cached.bids, asks: cached.asks, timestamp: cached.timestamp } : null;
+}
+
 // tokenId → marketPair 索引（启动时构建）
 const tokenIdToMarketPair = new Map<string, MarketPair>();
 
@@ -1598,6 +2111,83 @@ function applyBoostToOpportunity(opp: ArbOpportunity): ArbOpportunity {
  * - profit > 0 时更新机会
  * - profit <= 0 时清除机会（避免残留"幽灵机会"）
  */
+/**
+ * 市场对的手续费上下文（boost 窗口 / Polymarket 费率表 / 主账号返点等级）
+ * 机会检测不区分执行账号，按主账号估算
+ */
+function pairFeeContext(pair: MarketPair): FeeContext {
+    return {
+        marketId: pair.predictId,
+        polymarketMarket: pair.polymarketConditionId,
+        account: accountRegistry.getPredictAddress(),
+    };
+}
+
+const RISK_LEVEL_ORDER: ArbOpportunity['risk']['level'][] = ['LOW', 'MEDIUM', 'HIGH', 'BLOCKED'];
+
+/**
+ * 机会风险: 利润率等级叠加映射的结算条件比对等级 (C → MEDIUM, D → HIGH, F → BLOCKED / 已接受则 HIGH)
+ */
+function buildOpportunityRisk(predictId: number, profitRiskLevel: 'LOW' | 'MEDIUM' | 'HIGH'): ArbOpportunity['risk'] {
+    const check = mappingRegistry.getResolution(predictId);
+    if (!check) {
+        return { level: profitRiskLevel, slippage: 0.5 };
+    }
+
+    const resolutionLevel: ArbOpportunity['risk']['level'] =
+        check.grade === 'F' ? (mappingRegistry.isResolutionBlocked(predictId) ? 'BLOCKED' : 'HIGH')
+            : check.grade === 'D' ? 'HIGH'
+                : check.grade === 'C' ? 'MEDIUM'
+                    : 'LOW';
+    const level = RISK_LEVEL_ORDER[Math.max(RISK_LEVEL_ORDER.indexOf(profitRiskLevel), RISK_LEVEL_ORDER.indexOf(resolutionLevel))];
+    return {
+        level,
+        slippage: 0.5,
+        resolutionGrade: check.grade,
+        resolutionIssues: check.issues.filter(issue => issue.severity !== 'info').map(issue => issue.message),
+    };
+}
+
+/**
+ * 计算市场对的双向套利深度 (polyBook 为 polymarketTokenId 即 Polymarket NO token 的订单簿)
+ *
+ * - 正常市场:   YES 端 = Predict YES + Poly NO (NO asks)；NO 端 = Predict NO + Poly YES (YES ask = 1 - NO bid)
+ * - inverted:  YES 端 = Predict YES + Poly YES (YES ask = 1 - NO bid)；NO 端 = Predict NO + Poly NO (NO asks)
+ *
+ * calculateNoSideDepth 以 "Polymarket NO bids" 口径输入并反演为对冲 ask，
+ * inverted 时传入 1 - NO ask，反演后即为 NO asks。对冲端无挂单时 noDepth 为 null
+ */
+function calculatePairDepths(
+    pair: MarketPair,
+    predictBids: OrderBookLevel[],
+    predictAsks: OrderBookLevel[],
+    polyBook: { bids: OrderBookLevel[]; asks: OrderBookLevel[] }
+): { yesDepth: DepthResult; noDepth: NoSideDepthResult | null } {
+    const yesHedgeAsks = pair.isInverted ? invertLevels(polyBook.bids) : polyBook.asks;
+    const noHedgeBids = pair.isInverted ? invertLevels(polyBook.asks) : polyBook.bids;
+
+    const yesDepth = calculateDepth(
+        predictBids,
+        predictAsks,
+        yesHedgeAsks,
+        pair.feeRateBps || 200,
+        Infinity,
+        pairFeeContext(pair)
+    );
+    const noDepth = noHedgeBids.length > 0
+        ? calculateNoSideDepth(
+            predictBids,
+            predictAsks,
+            noHedgeBids,
+            pair.feeRateBps || 200,
+            Infinity,
+            pairFeeContext(pair)
+        )
+        : null;
+
+    return { yesDepth, noDepth };
+}
+
 /**
  * 从 depth 计算结果构建 ArbOpportunity 对象
  * 用于 WS 更新时创建新机会（复用扫描构造逻辑）
@@ -1614,9 +2204,10 @@ function buildOpportunityFromDepth(
         ? (depth as DepthResult).makerProfit * 100
         : depth.takerProfit * 100;
     const riskLevel = profitPercent > 2 ? 'LOW' : profitPercent > 1 ? 'MEDIUM' : 'HIGH';
-    const maxQuantity = strategy === 'MAKER'
-        ? (depth as DepthResult).makerMaxQuantity
-        : depth.takerMaxQuantity;
+    // 多档深度: 所有边际盈利档位的合计数量 / 利润
+    const ladder = strategy === 'MAKER'
+        ? (depth as DepthResult).makerLadder
+        : depth.takerLadder;
     const totalCost = strategy === 'MAKER'
         ? (depth as DepthResult).makerCost
         : depth.takerCost;
@@ -1635,8 +2226,9 @@ function buildOpportunityFromDepth(
         strategy,
         side,
         profitPercent,
-        maxQuantity,
-        estimatedProfit: (profitPercent / 100) * maxQuantity,
+        maxQuantity: ladder.quantity,
+        estimatedProfit: ladder.profit,
+        ladder,
         predictPrice,
         predictBid: isYes ? yesDepth.predictYesBid : noDepth.predictNoBid,
         predictAsk: isYes ? yesDepth.predictYesAsk : noDepth.predictNoAsk,
@@ -1668,10 +2260,7 @@ function buildOpportunityFromDepth(
         negRisk: pair.negRisk,
 
         // 风险和费用
-        risk: {
-            level: riskLevel as 'LOW' | 'MEDIUM' | 'HIGH',
-            slippage: 0.5,
-        },
+        risk: buildOpportunityRisk(pair.predictId, riskLevel),
         fees: {
             predict: (depth as DepthResult).predictFee || 0,
             gas: 0.01,
@@ -1753,37 +2342,13 @@ async function handlePolymarketWsUpdate(tokenId: string): Promise<void> {
     if (!polyBook) return;
 
     try {
-        // YES side (Predict YES + Polymarket hedge)
-        let polyHedgeAsks = polyBook.asks;
-        if (pair.isInverted) {
-            // Inverted market: Predict YES + Polymarket YES = hedge
-            // YES ask = 1 - NO bid
-            polyHedgeAsks = polyBook.bids.map(level => ({
-                price: 1 - level.price,
-                size: level.size,
-            }));
-            polyHedgeAsks.sort((a, b) => a.price - b.price);
-        }
-
-        const yesDepth = calculateDepth(
-            predictCache.bids,
-            predictCache.asks,
-            polyHedgeAsks,
-            pair.feeRateBps
-        );
+        // YES side (Predict YES + Polymarket hedge) / NO side (Predict NO + opposite hedge), inverted aware
+        const { yesDepth, noDepth } = calculatePairDepths(pair, predictCache.bids, predictCache.asks, polyBook);
 
         upsertOpportunityFromDepth(pair, yesDepth, 'YES', 'MAKER', now);
         upsertOpportunityFromDepth(pair, yesDepth, 'YES', 'TAKER', now);
 
-        // NO side (Predict NO + Polymarket YES)
-        if (!pair.isInverted) {
-            const noDepth = calculateNoSideDepth(
-                predictCache.bids,
-                predictCache.asks,
-                polyBook.bids,  // Polymarket NO bids
-                pair.feeRateBps
-            );
-
+        if (noDepth) {
             upsertOpportunityFromDepth(pair, noDepth, 'NO', 'MAKER', now);
             upsertOpportunityFromDepth(pair, noDepth, 'NO', 'TAKER', now);
         } else {
@@ -1848,37 +2413,13 @@ function processPredictWsUpdate(marketId: number): void {
     try {
         const now = Date.now();
 
-        // YES side (Predict YES + Polymarket hedge)
-        let polyHedgeAsks = polyBook.asks;
-        if (pair.isInverted) {
-            // Inverted market: Predict YES + Polymarket YES = hedge
-            // YES ask = 1 - NO bid
-            polyHedgeAsks = polyBook.bids.map(level => ({
-                price: 1 - level.price,
-                size: level.size,
-            }));
-            polyHedgeAsks.sort((a, b) => a.price - b.price);
-        }
-
-        const yesDepth = calculateDepth(
-            predictCache.bids,
-            predictCache.asks,
-            polyHedgeAsks,
-            pair.feeRateBps
-        );
+        // YES side (Predict YES + Polymarket hedge) / NO side (Predict NO + opposite hedge), inverted aware
+        const { yesDepth, noDepth } = calculatePairDepths(pair, predictCache.bids, predictCache.asks, polyBook);
 
         upsertOpportunityFromDepth(pair, yesDepth, 'YES', 'MAKER', now);
         upsertOpportunityFromDepth(pair, yesDepth, 'YES', 'TAKER', now);
 
-        // NO side (Predict NO + Polymarket YES)
-        if (!pair.isInverted) {
-            const noDepth = calculateNoSideDepth(
-                predictCache.bids,
-                predictCache.asks,
-                polyBook.bids,
-                pair.feeRateBps
-            );
-
+        if (noDepth) {
             upsertOpportunityFromDepth(pair, noDepth, 'NO', 'MAKER', now);
             upsertOpportunityFromDepth(pair, noDepth, 'NO', 'TAKER', now);
         } else {
@@ -2213,7 +2754,7 @@ async function broadcastUpdate(): Promise<void> {
     const statsData = JSON.stringify(dashboardData.stats);
 
     // 获取真实账户数据
-    const accountsData = JSON.stringify(await getAccountData());
+    const accountsData = JSON.stringify(await getDashboardAccountData());
 
     // 市场列表 (按 predictTitle 分组,类似做市程序的事件列表)
     const marketsData = JSON.stringify(marketPairs.map(p => ({
@@ -2435,7 +2976,7 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
                 if (!isSSEClientAlive(res)) return;
 
                 // 发送真实账户数据（涉及多个 API 调用）
-                const accountsData = await getAccountData();
+                const accountsData = await getDashboardAccountData();
                 if (!await sendSSEToClientAsync(res, 'accounts', JSON.stringify(accountsData))) return;
 
                 // 市场列表构建前再检查一次（marketPairs 较大时可能有开销）
@@ -2468,6 +3009,10 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
                 // 发送平仓机会数据（使用缓存，避免初始化时阻塞）
                 if (!await sendSSEToClientAsync(res, 'closeOpportunities', JSON.stringify(cachedCloseOpportunities))) return;
 
+                // 发送做市状态 (仅当启用时)
+                const mmService = getMarketMakerService();
+                if (mmService && !await sendSSEToClientAsync(res, 'marketMaker', JSON.stringify(mmService.getStatus()))) return;
+
                 // 初始快照发送完毕，标记为已初始化（后续广播将包含此客户端）
                 clientMeta.initialized = true;
 
@@ -2557,18 +3102,37 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
         return;
     }
 
-    // GET /api/tasks - 获取任务列表
-    if (url === '/api/tasks' && req.method === 'GET') {
+    // GET /api/tasks - 分页查询任务
+    // 参数: status (逗号分隔) / type / strategy / marketId / scope (all|active|history)
+    //       from / to (createdAt 毫秒时间戳) / limit / offset (不传 limit 时返回全部，与旧版一致)
+    if ((url === '/api/tasks' || url.startsWith('/api/tasks?')) && req.method === 'GET') {
         const corsHeaders = requireAuth(req, res);
         if (!corsHeaders) return;
         try {
-        const opportunities: ArbOpportunity[] = [];
-            const tasks = taskService.getTasks({ includeCompleted: true });
+            const params = new URL(url, 'http://localhost').searchParams;
+            const numberParam = (key: string): number | undefined => {
+                const raw = params.get(key);
+                if (raw === null || raw === '') return undefined;
+                const value = Number(raw);
+                return Number.isFinite(value) ? value : undefined;
+            };
+            const scope = params.get('scope');
+            const page = taskService.queryTasks({
+                status: params.get('status')?.split(',').filter(Boolean) as TaskStatus[] | undefined,
+                type: (params.get('type') || undefined) as TaskType | undefined,
+                strategy: (params.get('strategy') || undefined) as TaskStrategy | undefined,
+                marketId: numberParam('marketId'),
+                scope: scope === 'active' || scope === 'history' ? scope : 'all',
+                from: numberParam('from'),
+                to: numberParam('to'),
+                limit: numberParam('limit'),
+                offset: numberParam('offset'),
+            });
             res.writeHead(200, {
                 'Content-Type': 'application/json',
                 ...corsHeaders,
             });
-            res.end(JSON.stringify({ success: true, data: tasks }));
+            res.end(JSON.stringify({ success: true, data: page.tasks, total: page.total, limit: page.limit, offset: page.offset }));
         } catch (error: any) {
             res.writeHead(500, {
                 'Content-Type': 'application/json',
@@ -2590,7 +3154,20 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
             // 调试日志：检查前端传入的 negRisk 值
             console.log(`[negRisk] Task create input: marketId=${input.marketId}, negRisk=${input.negRisk}`);
 
-            const task = taskService.createTask(input);
+            if (input.accountId && !accountRegistry.has(input.accountId)) {
+                throw new Error(`未知账号: ${input.accountId}`);
+            }
+
+            // 映射校验: 黑名单或 conditionId / 方向 / token 与注册表不一致时拒绝 (错误映射 = 单边押注)
+            // 平仓任务允许在黑名单映射上执行，避免已有持仓无法退出
+            mappingRegistry.assertTradable(input.marketId, input.polymarketConditionId, {
+                isInverted: input.isInverted,
+                yesTokenId: input.polymarketYesTokenId,
+                noTokenId: input.polymarketNoTokenId,
+            }, input.type === 'SELL');
+
+            // 资金预留: 按可用资金选择账号 (多账号)，不足时缩量或拒绝
+            const { task, decision } = await capitalAllocator.createTask(input);
 
             // 动态订阅任务的 Polymarket token 到 WebSocket
             if (polymarketWsClient && polymarketWsClient.isConnected()) {
@@ -2608,7 +3185,7 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
                 'Content-Type': 'application/json',
                 ...corsHeaders,
             });
-            res.end(JSON.stringify({ success: true, data: task }));
+            res.end(JSON.stringify({ success: true, data: task, capital: decision }));
         } catch (error: any) {
             res.writeHead(400, {
                 'Content-Type': 'application/json',
@@ -2619,6 +3196,19 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
         return;
     }
 
+    // GET /api/tasks/:id/transitions - 获取任务状态迁移记录
+    const taskTransitionsMatch = url.match(/^\/api\/tasks\/([a-zA-Z0-9_-]+)\/transitions$/);
+    if (taskTransitionsMatch && req.method === 'GET') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        res.writeHead(200, {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+        });
+        res.end(JSON.stringify({ success: true, data: taskService.getTaskTransitions(taskTransitionsMatch[1]) }));
+        return;
+    }
+
     // GET /api/tasks/:id - 获取单个任务
     const taskGetMatch = url.match(/^\/api\/tasks\/([a-zA-Z0-9_-]+)$/);
     if (taskGetMatch && req.method === 'GET') {
@@ -2848,6 +3438,85 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
         return;
     }
 
+    // GET /api/markets - 已匹配的市场对 (外部进程如 points-engine 使用)
+    if (url === '/api/markets' && req.method === 'GET') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const markets = marketPairs.map(p => ({
+            predictId: p.predictId,
+            predictTitle: p.predictTitle,
+            polymarketConditionId: p.polymarketConditionId,
+            polymarketYesTokenId: p.polymarketYesTokenId,
+            polymarketNoTokenId: p.polymarketNoTokenId,
+            tickSize: p.tickSize,
+            feeRateBps: p.feeRateBps,
+            isInverted: p.isInverted,
+            negRisk: p.negRisk,
+            endDate: p.endDate,
+        }));
+        res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+        res.end(JSON.stringify({ success: true, data: markets }));
+        return;
+    }
+
+    // GET /api/orderbooks?predict=<marketId,...>&poly=<tokenId,...> - 订单簿缓存快照
+    // 未订阅的 Polymarket token 会动态订阅到 WS，下次请求即可拿到
+    if (url.startsWith('/api/orderbooks') && req.method === 'GET') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const params = new URL(url, 'http://localhost').searchParams;
+        const predictIds = (params.get('predict') || '').split(',').map(Number).filter(id => Number.isInteger(id) && id > 0);
+        const polyTokenIds = (params.get('poly') || '').split(',').filter(Boolean);
+
+        const predict: Record<string, { bids: OrderBookLevel[]; asks: OrderBookLevel[]; timestamp: number } | null> = {};
+        for (const marketId of predictIds) {
+            predict[marketId] = getPredictOrderbookSnapshot(marketId);
+        }
+        const missingPredict = predictIds.filter(id => !predict[id]);
+        if (missingPredict.length > 0 && usePredictWsMode) {
+            getPredictOrderbookCache()?.subscribeMarkets(missingPredict).catch(() => { /* ignore */ });
+        }
+
+        const polymarket: Record<string, { bids: OrderBookLevel[]; asks: OrderBookLevel[]; timestamp: number } | null> = {};
+        const missingPoly: string[] = [];
+        for (const tokenId of polyTokenIds) {
+            const book = getPolymarketOrderbookFromWs(tokenId);
+            const cached = polymarketWsClient?.getOrderBook(tokenId);
+            polymarket[tokenId] = book ? { ...book, timestamp: cached?.updateTimestampMs ?? 0 } : null;
+            if (!book) missingPoly.push(tokenId);
+        }
+        if (missingPoly.length > 0 && polymarketWsClient?.isConnected()) {
+            polymarketWsClient.subscribe(missingPoly);
+        }
+
+        res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+        res.end(JSON.stringify({
+            success: true,
+            data: {
+                predict,
+                polymarket,
+                polymarketWsConnected: polymarketWsClient?.isConnected() ?? false,
+                timestamp: Date.now(),
+            },
+        }));
+        return;
+    }
+
+    // GET /api/positions - 两个平台的原始持仓 (不做双腿匹配)
+    if (url === '/api/positions' && req.method === 'GET') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        try {
+            const positions = await getPlatformPositions();
+            res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: positions }));
+        } catch (error: any) {
+            res.writeHead(500, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
     // GET /api/close-positions - 获取可平仓持仓
     if (url === '/api/close-positions' && req.method === 'GET') {
         const corsHeaders = getSecureCorsHeaders(req);
@@ -2901,7 +3570,7 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
         }
         if (!ENABLE_SPORTS_SERVICE) {
             res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
-            res.end(JSON.stringify({ success: true, markets: [], opportunities: [], lastScan: null, disabled: true }));
+            res.end(JSON.stringify({ success: true, markets: [], threeWay: [], opportunities: [], lastScan: null, disabled: true }));
             return;
         }
         try {
@@ -2943,21 +3612,118 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
         return;
     }
 
-    // ========================================================================
-    // 日志查询 API
-    // ========================================================================
-
-    const logQueryService = getLogQueryService();
-
-    // GET /api/logs/tasks - 获取任务日志列表
-    if (url.startsWith('/api/logs/tasks') && req.method === 'GET' && !url.includes('/timeline') && !url.includes('/orderbook')) {
+    // POST /api/sports/tasks - 创建足球 1X2 三腿任务
+    // body: { kind: 'THREE_WAY', eventKey, side?, quantity, maxUnitCost?, accountId? }
+    if (url === '/api/sports/tasks' && req.method === 'POST') {
         const corsHeaders = requireAuth(req, res);
         if (!corsHeaders) return;
         try {
-        const opportunities: ArbOpportunity[] = [];
-            const urlObj = new URL(url, `http://localhost`);
-            const limit = parseInt(urlObj.searchParams.get('limit') || '50');
-            const offset = parseInt(urlObj.searchParams.get('offset') || '0');
+            if (!ENABLE_SPORTS_SERVICE) {
+                throw new Error('Sports service is disabled');
+            }
+            const body = await parseJsonBody<SportsCreateTaskParams>(req);
+            if (body.kind !== 'THREE_WAY') {
+                throw new Error('两项盘任务请通过 /api/tasks 创建');
+            }
+            if (body.accountId && !accountRegistry.has(body.accountId)) {
+                throw new Error(`未知账号: ${body.accountId}`);
+            }
+            const input = getSportsService().buildThreeWayTaskInput({
+                ...body,
+                quantity: Number(body.quantity),
+                maxUnitCost: body.maxUnitCost !== undefined ? Number(body.maxUnitCost) : undefined,
+            });
+
+            for (const leg of input.basket!.legs) {
+                // 篮子按 NO 腿互补计算，不支持反向映射
+                mappingRegistry.assertTradable(leg.outcome.predictMarketId, leg.outcome.conditionId, {
+                    isInverted: false,
+                    yesTokenId: leg.outcome.yesTokenId,
+                    noTokenId: leg.outcome.noTokenId,
+                });
+            }
+
+            const { task, decision } = await capitalAllocator.createTask(input);
+            broadcastTaskUpdate(task);
+            res.writeHead(201, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: task, capital: decision }));
+        } catch (error: any) {
+            res.writeHead(400, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
+    // ========================================================================
+    // 篮子套利 API (negRisk 多选项事件)
+    // ========================================================================
+
+    // GET /api/baskets - 篮子机会 + 事件完整性
+    if (url === '/api/baskets' && req.method === 'GET') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const basketService = getBasketService();
+        res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+        res.end(JSON.stringify({
+            success: true,
+            data: basketService.getOpportunities(),
+            events: basketService.getEvents(),
+        }));
+        return;
+    }
+
+    // POST /api/baskets/tasks - 按篮子机会创建任务
+    // body: { id, quantity, maxUnitCost?, accountId? }
+    if (url === '/api/baskets/tasks' && req.method === 'POST') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        try {
+            const body = await parseJsonBody<BasketCreateTaskParams>(req);
+            if (body.accountId && !accountRegistry.has(body.accountId)) {
+                throw new Error(`未知账号: ${body.accountId}`);
+            }
+            const input = getBasketService().buildTaskInput({
+                ...body,
+                quantity: Number(body.quantity),
+                maxUnitCost: body.maxUnitCost !== undefined ? Number(body.maxUnitCost) : undefined,
+            });
+
+            // 每条腿都必须可交易 (黑名单 / F 级结算风险 / 映射变更)
+            for (const leg of input.basket!.legs) {
+                // 篮子按 NO 腿互补计算，不支持反向映射
+                mappingRegistry.assertTradable(leg.outcome.predictMarketId, leg.outcome.conditionId, {
+                    isInverted: false,
+                    yesTokenId: leg.outcome.yesTokenId,
+                    noTokenId: leg.outcome.noTokenId,
+                });
+            }
+
+            const { task, decision } = await capitalAllocator.createTask(input);
+            broadcastTaskUpdate(task);
+            res.writeHead(201, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: task, capital: decision }));
+        } catch (error: any) {
+            res.writeHead(400, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
+    // ========================================================================
+    // 日志查询 API
+    // ========================================================================
+
+    const logQueryService = getLogQueryService();
+
+    // GET /api/logs/tasks - 获取任务日志列表
+    if (url.startsWith('/api/logs/tasks') && req.method === 'GET' && !url.includes('/timeline') && !url.includes('/orderbook')) {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        try {
+        const opportunities: ArbOpportunity[] = [];
+            const urlObj = new URL(url, `http://localhost`);
+            const limit = parseInt(urlObj.searchParams.get('limit') || '50');
+            const offset = parseInt(urlObj.searchParams.get('offset') || '0');
             const status = urlObj.searchParams.get('status') || undefined;
             const type = urlObj.searchParams.get('type') || undefined;
 
@@ -3091,7 +3857,7 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
         const corsHeaders = requireAuth(req, res);
         if (!corsHeaders) return;
         try {
-            const accountData = await getAccountData();
+            const accountData = await getDashboardAccountData();
             res.writeHead(200, {
                 'Content-Type': 'application/json',
                 ...corsHeaders,
@@ -3112,7 +3878,7 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
         const corsHeaders = requireAuth(req, res);
         if (!corsHeaders) return;
         try {
-            const accountData = await refreshAccountData();
+            const accountData = await getDashboardAccountData(true);
             res.writeHead(200, {
                 'Content-Type': 'application/json',
                 ...corsHeaders,
@@ -3128,6 +3894,408 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
         return;
     }
 
+    // GET /api/risk - 风控状态 (限额、熔断、当日盈亏、敞口)
+    if (url === '/api/risk' && req.method === 'GET') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const riskManager = getRiskManager();
+        if (!riskManager) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'Risk manager not initialized' }));
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+        res.end(JSON.stringify({ success: true, data: riskManager.getStatus() }));
+        return;
+    }
+
+    // POST /api/risk/halt - 手动熔断
+    if (url === '/api/risk/halt' && req.method === 'POST') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const riskManager = getRiskManager();
+        if (!riskManager) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'Risk manager not initialized' }));
+            return;
+        }
+        try {
+            const body = await parseJsonBody<{ reason?: string }>(req);
+            riskManager.haltManually(body.reason || '手动熔断');
+            res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: riskManager.getStatus() }));
+        } catch (error: any) {
+            res.writeHead(400, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
+    // POST /api/risk/resume - 解除熔断 (限额仍超出时会再次触发)
+    if (url === '/api/risk/resume' && req.method === 'POST') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const riskManager = getRiskManager();
+        if (!riskManager) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'Risk manager not initialized' }));
+            return;
+        }
+        riskManager.resume();
+        riskManager.evaluate();
+        res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+        res.end(JSON.stringify({ success: true, data: riskManager.getStatus() }));
+        return;
+    }
+
+    // GET /api/mappings - 市场映射列表
+    // 参数: status (逗号分隔 auto/pinned/override/blacklisted) / source (main/sports) / q (标题、conditionId 搜索)
+    if ((url === '/api/mappings' || url.startsWith('/api/mappings?')) && req.method === 'GET') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const params = new URL(url, 'http://localhost').searchParams;
+        const source = params.get('source');
+        const mappings = mappingRegistry.list({
+            status: params.get('status')?.split(',').filter(Boolean) as MappingStatus[] | undefined,
+            source: source === 'main' || source === 'sports' ? source : undefined,
+            search: params.get('q') || undefined,
+        });
+        res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+        res.end(JSON.stringify({ success: true, data: mappings, total: mappings.length }));
+        return;
+    }
+
+    // GET /api/mappings/history - 全部映射变更记录 (参数: limit)
+    if ((url === '/api/mappings/history' || url.startsWith('/api/mappings/history?')) && req.method === 'GET') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const limit = Number(new URL(url, 'http://localhost').searchParams.get('limit')) || undefined;
+        res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+        res.end(JSON.stringify({ success: true, data: mappingRegistry.getHistory(undefined, limit) }));
+        return;
+    }
+
+    // GET /api/mappings/:predictMarketId/history - 单个映射变更记录
+    const mappingHistoryMatch = url.match(/^\/api\/mappings\/(\d+)\/history$/);
+    if (mappingHistoryMatch && req.method === 'GET') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+        res.end(JSON.stringify({ success: true, data: mappingRegistry.getHistory(Number(mappingHistoryMatch[1])) }));
+        return;
+    }
+
+    // POST /api/mappings - 人工指定映射 (override)
+    // body: { predictMarketId, conditionId, yesTokenId?, noTokenId?, inverted?, note? }
+    if (url === '/api/mappings' && req.method === 'POST') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        try {
+            const body = await parseJsonBody<ManualMappingInput>(req);
+            const mapping = mappingRegistry.override({ ...body, predictMarketId: Number(body.predictMarketId) });
+            refreshMarketMatches();
+            res.writeHead(201, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: mapping }));
+        } catch (error: any) {
+            res.writeHead(400, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
+    // GET / PUT / DELETE /api/mappings/:predictMarketId
+    // PUT body: { status: 'pinned' | 'blacklisted' | 'auto', reason? } 或 { conditionId?, yesTokenId?, noTokenId?, inverted?, note? } (override)
+    //          或 { acceptResolutionRisk: true, reason? } (接受 F 级结算风险，允许创建任务)
+    const mappingMatch = url.match(/^\/api\/mappings\/(\d+)$/);
+    if (mappingMatch && (req.method === 'GET' || req.method === 'PUT' || req.method === 'DELETE')) {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const predictMarketId = Number(mappingMatch[1]);
+
+        if (req.method === 'GET') {
+            const mapping = mappingRegistry.get(predictMarketId);
+            res.writeHead(mapping ? 200 : 404, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify(mapping ? { success: true, data: mapping } : { success: false, error: 'Mapping not found' }));
+            return;
+        }
+
+        try {
+            let mapping: MarketMapping | null = null;
+            if (req.method === 'DELETE') {
+                mappingRegistry.remove(predictMarketId);
+            } else {
+                const body = await parseJsonBody<Partial<ManualMappingInput> & { status?: MappingStatus; reason?: string; acceptResolutionRisk?: boolean }>(req);
+                if (body.acceptResolutionRisk === true) {
+                    mapping = mappingRegistry.acceptResolutionRisk(predictMarketId, body.reason);
+                } else if (body.conditionId !== undefined || body.yesTokenId !== undefined || body.noTokenId !== undefined || body.inverted !== undefined) {
+                    mapping = mappingRegistry.override({
+                        predictMarketId,
+                        conditionId: body.conditionId ?? mappingRegistry.get(predictMarketId)?.conditionId ?? '',
+                        yesTokenId: body.yesTokenId,
+                        noTokenId: body.noTokenId,
+                        inverted: body.inverted,
+                        note: body.note ?? body.reason,
+                    });
+                } else if (body.status === 'pinned') {
+                    mapping = mappingRegistry.pin(predictMarketId, 'api', body.reason);
+                } else if (body.status === 'blacklisted') {
+                    mapping = mappingRegistry.blacklist(predictMarketId, body.reason);
+                } else if (body.status === 'auto') {
+                    mapping = mappingRegistry.release(predictMarketId, 'api', body.reason);
+                } else {
+                    throw new Error('需要 status (pinned/blacklisted/auto) 或 override 字段');
+                }
+            }
+            refreshMarketMatches();
+            res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: mapping }));
+        } catch (error: any) {
+            res.writeHead(400, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
+    // GET /api/settlements - 结算记录 + 汇总
+    // 参数: status (逗号分隔 OPEN/PROPOSED/SETTLED/MISMATCH) / marketId / conditionId / includeSimulated / limit
+    if ((url === '/api/settlements' || url.startsWith('/api/settlements?')) && req.method === 'GET') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const tracker = getSettlementTracker();
+        if (!tracker) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'Settlement tracker not initialized' }));
+            return;
+        }
+        const params = new URL(url, 'http://localhost').searchParams;
+        const marketIdParam = params.get('marketId');
+        const limitParam = params.get('limit');
+        const includeSimulated = params.get('includeSimulated') === 'true';
+        const records = tracker.getRecords({
+            status: params.get('status')?.split(',').filter(Boolean) as SettlementStatus[] | undefined,
+            marketId: marketIdParam ? Number(marketIdParam) : undefined,
+            conditionId: params.get('conditionId') || undefined,
+            includeSimulated,
+            limit: limitParam ? Number(limitParam) : undefined,
+        });
+        res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+        res.end(JSON.stringify({
+            success: true,
+            data: records,
+            summary: tracker.getSummary(includeSimulated),
+            markets: tracker.getMarkets(),
+        }));
+        return;
+    }
+
+    // POST /api/settlements/refresh - 立即检查结算
+    if (url === '/api/settlements/refresh' && req.method === 'POST') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const tracker = getSettlementTracker();
+        if (!tracker) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'Settlement tracker not initialized' }));
+            return;
+        }
+        await tracker.refresh();
+        res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+        res.end(JSON.stringify({ success: true, summary: tracker.getSummary() }));
+        return;
+    }
+
+    // GET /api/ctf/positions - Polymarket 持仓 (按 condition 聚合，含可合并/可赎回)
+    if (url === '/api/ctf/positions' && req.method === 'GET') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const ctf = getCtfService();
+        if (!ctf) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'CTF service not initialized' }));
+            return;
+        }
+        try {
+            const positions = await ctf.getConditionPositions();
+            res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: positions }));
+        } catch (error: any) {
+            res.writeHead(500, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
+    // POST /api/ctf/merge | /api/ctf/split | /api/ctf/redeem
+    // body: { conditionId, shares? (merge), amount (split), negRisk?, dryRun? }
+    const ctfActionMatch = url.match(/^\/api\/ctf\/(merge|split|redeem)$/);
+    if (ctfActionMatch && req.method === 'POST') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const ctf = getCtfService();
+        if (!ctf) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'CTF service not initialized' }));
+            return;
+        }
+        try {
+            const body = await parseJsonBody<{ conditionId?: string; shares?: number; amount?: number; negRisk?: boolean; dryRun?: boolean }>(req);
+            if (!body.conditionId) {
+                throw new Error('conditionId is required');
+            }
+            // 模拟交易模式强制 dry-run
+            const options = { negRisk: body.negRisk, dryRun: isPaperTradingEnabled() ? true : body.dryRun };
+            const action = ctfActionMatch[1];
+            const result = action === 'merge'
+                ? await ctf.merge(body.conditionId, body.shares, options)
+                : action === 'split'
+                    ? await ctf.split(body.conditionId, body.amount ?? 0, options)
+                    : await ctf.redeem(body.conditionId, options);
+            res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: result }));
+        } catch (error: any) {
+            res.writeHead(400, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
+    // GET /api/mm - 做市状态 (市场配置 + MarketState + TradingStats + 最近成交)
+    if (url === '/api/mm' && req.method === 'GET') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const service = getMarketMakerService();
+        if (!service) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'Market maker not enabled' }));
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+        res.end(JSON.stringify({ success: true, data: service.getStatus() }));
+        return;
+    }
+
+    // POST /api/mm/start | /api/mm/stop - 启动做市 / 撤单并停止 (保留市场列表)
+    const mmLifecycleMatch = url.match(/^\/api\/mm\/(start|stop)$/);
+    if (mmLifecycleMatch && req.method === 'POST') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const service = getMarketMakerService();
+        if (!service) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'Market maker not enabled' }));
+            return;
+        }
+        try {
+            if (mmLifecycleMatch[1] === 'start') {
+                await service.start();
+            } else {
+                await service.stop();
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: service.getStatus() }));
+        } catch (error: any) {
+            res.writeHead(400, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
+    // POST /api/mm/emergency-stop - 紧急停止开关 { enabled: boolean }
+    if (url === '/api/mm/emergency-stop' && req.method === 'POST') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const service = getMarketMakerService();
+        if (!service) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'Market maker not enabled' }));
+            return;
+        }
+        try {
+            const body = await parseJsonBody<{ enabled?: boolean }>(req);
+            if (typeof body.enabled !== 'boolean') {
+                throw new Error('enabled must be a boolean');
+            }
+            service.setEmergencyStop(body.enabled);
+            res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: service.getStatus() }));
+        } catch (error: any) {
+            res.writeHead(400, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
+    // POST /api/mm/markets - 添加做市市场 (MarketMakerConfig，只有 marketId 必填)
+    if (url === '/api/mm/markets' && req.method === 'POST') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const service = getMarketMakerService();
+        if (!service) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'Market maker not enabled' }));
+            return;
+        }
+        try {
+            const body = await parseJsonBody<MarketMakerMarketInput>(req);
+            const config = await service.addMarket(body);
+            res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: config }));
+        } catch (error: any) {
+            res.writeHead(400, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
+    // DELETE /api/mm/markets/:id - 撤单并移除市场
+    const mmMarketDeleteMatch = url.match(/^\/api\/mm\/markets\/(\d+)$/);
+    if (mmMarketDeleteMatch && req.method === 'DELETE') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const service = getMarketMakerService();
+        if (!service) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'Market maker not enabled' }));
+            return;
+        }
+        try {
+            await service.removeMarket(Number(mmMarketDeleteMatch[1]));
+            res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: service.getStatus() }));
+        } catch (error: any) {
+            res.writeHead(400, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
+    // POST /api/mm/markets/:id/pause | resume - 暂停 / 恢复单个市场
+    const mmMarketActionMatch = url.match(/^\/api\/mm\/markets\/(\d+)\/(pause|resume)$/);
+    if (mmMarketActionMatch && req.method === 'POST') {
+        const corsHeaders = requireAuth(req, res);
+        if (!corsHeaders) return;
+        const service = getMarketMakerService();
+        if (!service) {
+            res.writeHead(503, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: 'Market maker not enabled' }));
+            return;
+        }
+        try {
+            const marketId = Number(mmMarketActionMatch[1]);
+            if (mmMarketActionMatch[2] === 'pause') {
+                service.pauseMarket(marketId);
+            } else {
+                service.resumeMarket(marketId);
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: true, data: service.getMarketView(marketId) }));
+        } catch (error: any) {
+            res.writeHead(400, { 'Content-Type': 'application/json', ...corsHeaders });
+            res.end(JSON.stringify({ success: false, error: error.message }));
+        }
+        return;
+    }
+
     // GET /api/liquidity - 获取流动性扫描数据
     if (url === '/api/liquidity' && req.method === 'GET') {
         const corsHeaders = requireAuth(req, res);
@@ -3595,7 +4763,10 @@ async function detectArbitrageOpportunities(): Promise<void> {
     const previousActiveMarketIds = new Set(activeMarketIds);
 
     // 统一扫描：所有市场使用 SCAN_1, SCAN_2, SCAN_3 并发
-    const allMarkets = marketPairs.filter(p => p.polymarketTokenId);
+    // 运行中被拉黑 / 改映射的市场立即停止扫描 (重启后按新映射加载)
+    const allMarkets = marketPairs.filter(p =>
+        p.polymarketTokenId && mappingRegistry.isTradable(p.predictId, p.polymarketConditionId)
+    );
     const activeCount = allMarkets.filter(p => activeMarketIds.has(p.predictId)).length;
     const inactiveCount = allMarkets.length - activeCount;
 
@@ -3769,34 +4940,12 @@ async function detectArbitrageOpportunities(): Promise<void> {
                 continue;
             }
 
-            // 计算 Polymarket 对冲价格
-            // polymarketTokenId 优先使用 NO token，所以 polyBook 是 NO 的订单簿
-            let polyHedgeAsks: OrderBookLevel[];
-
-            if (pair.isInverted) {
-                // Inverted 市场: Predict YES + Polymarket YES = 对冲
-                // 需要从 NO 订单簿转换：YES Ask = 1 - NO Bid
-                polyHedgeAsks = polyBook.bids.map(level => ({
-                    price: 1 - level.price,
-                    size: level.size
-                }));
-                polyHedgeAsks.sort((a, b) => a.price - b.price);
-            } else {
-                // 正常市场: Predict YES + Polymarket NO = 对冲
-                // polyBook 已经是 NO 的订单簿，直接使用 NO 的 asks
-                polyHedgeAsks = polyBook.asks;
-            }
-
-            // 使用 depth-calculator 计算
-            const depth = calculateDepth(
-                predictBook.bids,
-                predictBook.asks,
-                polyHedgeAsks,
-                pair.feeRateBps || 200
-            );
+            // 计算双向套利深度
+            // polymarketTokenId 优先使用 NO token，所以 polyBook 是 NO 的订单簿；inverted 市场对冲方向相反
+            const { yesDepth: depth, noDepth } = calculatePairDepths(pair, predictBook.bids, predictBook.asks, polyBook);
 
             // ================================================================
-            // YES 端套利检测 (predict_yes + polymarket_no < 1)
+            // YES 端套利检测 (predict_yes + polymarket_no < 1，inverted: + polymarket_yes)
             // ================================================================
 
             // YES 端 Maker 机会
@@ -3809,8 +4958,9 @@ async function detectArbitrageOpportunities(): Promise<void> {
                     strategy: 'MAKER',
                     side: 'YES',
                     profitPercent,
-                    maxQuantity: depth.makerMaxQuantity,
-                    estimatedProfit: depth.makerProfit * depth.makerMaxQuantity,
+                    maxQuantity: depth.makerLadder.quantity,
+                    estimatedProfit: depth.makerLadder.profit,
+                    ladder: depth.makerLadder,
                     predictPrice: depth.predictYesBid,
                     predictBid: depth.predictYesBid,
                     predictAsk: depth.predictYesAsk,
@@ -3840,10 +4990,7 @@ async function detectArbitrageOpportunities(): Promise<void> {
                     negRisk: pair.negRisk,
 
                     // 风险和费用
-                    risk: {
-                        level: riskLevel as 'LOW' | 'MEDIUM' | 'HIGH',
-                        slippage: 0.5,
-                    },
+                    risk: buildOpportunityRisk(pair.predictId, riskLevel),
                     fees: {
                         predict: depth.predictFee,
                         gas: 0.01,
@@ -3855,7 +5002,7 @@ async function detectArbitrageOpportunities(): Promise<void> {
                     predictVolume: pair.predictVolume,
                     polyVolume: pair.polyVolume,
                 });
-                totalDepth += depth.makerMaxQuantity;
+                totalDepth += depth.makerLadder.quantity;
             }
 
             // YES 端 Taker 机会
@@ -3868,8 +5015,9 @@ async function detectArbitrageOpportunities(): Promise<void> {
                     strategy: 'TAKER',
                     side: 'YES',
                     profitPercent,
-                    maxQuantity: depth.takerMaxQuantity,
-                    estimatedProfit: depth.takerProfit * depth.takerMaxQuantity,
+                    maxQuantity: depth.takerLadder.quantity,
+                    estimatedProfit: depth.takerLadder.profit,
+                    ladder: depth.takerLadder,
                     predictPrice: depth.predictYesAsk,
                     predictBid: depth.predictYesBid,
                     predictAsk: depth.predictYesAsk,
@@ -3899,10 +5047,7 @@ async function detectArbitrageOpportunities(): Promise<void> {
                     negRisk: pair.negRisk,
 
                     // 风险和费用
-                    risk: {
-                        level: riskLevel as 'LOW' | 'MEDIUM' | 'HIGH',
-                        slippage: 0.5,
-                    },
+                    risk: buildOpportunityRisk(pair.predictId, riskLevel),
                     fees: {
                         predict: depth.predictFee,
                         gas: 0.01,
@@ -3914,23 +5059,15 @@ async function detectArbitrageOpportunities(): Promise<void> {
                     predictVolume: pair.predictVolume,
                     polyVolume: pair.polyVolume,
                 });
-                totalDepth += depth.takerMaxQuantity;
+                totalDepth += depth.takerLadder.quantity;
             }
 
             // ================================================================
-            // NO 端套利检测 (predict_no + polymarket_yes < 1)
-            // 使用 polyBook.bids 反演 polymarket_yes_ask = 1 - polymarket_no_bid
+            // NO 端套利检测 (predict_no + polymarket_yes < 1，inverted: + polymarket_no)
+            // 正常市场用 polyBook.bids 反演 polymarket_yes_ask = 1 - polymarket_no_bid，inverted 直接用 NO asks
             // ================================================================
 
-            // 只对非 inverted 市场检测 NO 端（inverted 市场的逻辑更复杂）
-            if (!pair.isInverted && polyBook.bids.length > 0) {
-                const noDepth = calculateNoSideDepth(
-                    predictBook.bids,
-                    predictBook.asks,
-                    polyBook.bids,  // NO 的 bids，用于反演 YES ask
-                    pair.feeRateBps || 200
-                );
-
+            if (noDepth) {
                 // NO 端 Maker 机会
                 if (noDepth.makerCost < 1 && noDepth.makerProfit > 0) {
                     const profitPercent = noDepth.makerProfit * 100;
@@ -3941,8 +5078,9 @@ async function detectArbitrageOpportunities(): Promise<void> {
                         strategy: 'MAKER',
                         side: 'NO',
                         profitPercent,
-                        maxQuantity: noDepth.makerMaxQuantity,
-                        estimatedProfit: noDepth.makerProfit * noDepth.makerMaxQuantity,
+                        maxQuantity: noDepth.makerLadder.quantity,
+                        estimatedProfit: noDepth.makerLadder.profit,
+                        ladder: noDepth.makerLadder,
                         predictPrice: noDepth.predictNoBid,
                         predictBid: noDepth.predictNoBid,
                         predictAsk: noDepth.predictNoAsk,
@@ -3972,10 +5110,7 @@ async function detectArbitrageOpportunities(): Promise<void> {
                         negRisk: pair.negRisk,
 
                         // 风险和费用
-                        risk: {
-                            level: riskLevel as 'LOW' | 'MEDIUM' | 'HIGH',
-                            slippage: 0.5,
-                        },
+                        risk: buildOpportunityRisk(pair.predictId, riskLevel),
                         fees: {
                             predict: noDepth.predictFee,
                             gas: 0.01,
@@ -3987,7 +5122,7 @@ async function detectArbitrageOpportunities(): Promise<void> {
                         predictVolume: pair.predictVolume,
                         polyVolume: pair.polyVolume,
                     });
-                    totalDepth += noDepth.makerMaxQuantity;
+                    totalDepth += noDepth.makerLadder.quantity;
                 }
 
                 // NO 端 Taker 机会
@@ -4000,8 +5135,9 @@ async function detectArbitrageOpportunities(): Promise<void> {
                         strategy: 'TAKER',
                         side: 'NO',
                         profitPercent,
-                        maxQuantity: noDepth.takerMaxQuantity,
-                        estimatedProfit: noDepth.takerProfit * noDepth.takerMaxQuantity,
+                        maxQuantity: noDepth.takerLadder.quantity,
+                        estimatedProfit: noDepth.takerLadder.profit,
+                        ladder: noDepth.takerLadder,
                         predictPrice: noDepth.predictNoAsk,
                         predictBid: noDepth.predictNoBid,
                         predictAsk: noDepth.predictNoAsk,
@@ -4031,10 +5167,7 @@ async function detectArbitrageOpportunities(): Promise<void> {
                         negRisk: pair.negRisk,
 
                         // 风险和费用
-                        risk: {
-                            level: riskLevel as 'LOW' | 'MEDIUM' | 'HIGH',
-                            slippage: 0.5,
-                        },
+                        risk: buildOpportunityRisk(pair.predictId, riskLevel),
                         fees: {
                             predict: noDepth.predictFee,
                             gas: 0.01,
@@ -4046,7 +5179,7 @@ async function detectArbitrageOpportunities(): Promise<void> {
                         predictVolume: pair.predictVolume,
                         polyVolume: pair.polyVolume,
                     });
-                    totalDepth += noDepth.takerMaxQuantity;
+                    totalDepth += noDepth.takerLadder.quantity;
                 }
             }
         }
@@ -4217,6 +5350,7 @@ async function detectArbitrageOpportunities(): Promise<void> {
 const POLL_INTERVAL_MS = 2000;  // 主轮询间隔 (兜底用)
 const ENABLE_SPORTS_SERVICE = true;  // 体育市场开关
 const ENABLE_ARB_TG_NOTIFICATION = false;  // 套利机会 TG 通知开关
+const BASKET_SCAN_INTERVAL_MS = Number(process.env.BASKET_SCAN_INTERVAL_MS) || 5000;  // 篮子套利计算间隔
 
 // --- 数据源模式 ---
 // DASHBOARD_PREDICT_ORDERBOOK_MODE: ws | legacy
@@ -4232,6 +5366,10 @@ const PREDICT_ORDERBOOK_STALE_MS = Number(process.env.PREDICT_ORDERBOOK_STALE_MS
 const CALC_ORDERBOOK_STALE_MS = Number(process.env.CALC_ORDERBOOK_STALE_MS) || 10000;
 const PREDICT_ORDERBOOK_WARM_ON_SUBSCRIBE = process.env.PREDICT_ORDERBOOK_WARM_ON_SUBSCRIBE !== 'false';
 
+// --- 订单簿录制 ---
+// ORDERBOOK_RECORD_DIR 非空时录制 Predict/Polymarket 订单簿到该目录 (离线回放用，见 npm run replay)
+const ORDERBOOK_RECORD_DIR = process.env.ORDERBOOK_RECORD_DIR || '';
+
 // --- WS 健康与断连处理 ---
 // 注意：健康检查分为"连接健康"和"数据新鲜度"两层
 //   - 连接健康：WS 物理连接是否存活 (用于任务暂停/恢复)
@@ -4292,63 +5430,48 @@ async function fetchPredictMarketDetail(marketId: number, apiKey?: string): Prom
 // 主入口
 // ============================================================================
 
-const polymarketEventMarketsCache = new Map<string, Array<{ conditionId: string; question?: string; slug?: string }>>();
-
-function normalizeQuestionForMatch(text: string): string {
-    return String(text || '')
-        .toLowerCase()
-        .replace(/[’']/g, "'")
-        .replace(/[^a-z0-9\s]/g, ' ')
-        .replace(/\s+/g, ' ')
-        .trim()
-        .replace(/\bany other\b/g, 'another');
-}
-
-async function tryFixPolymarketConditionIdForAnyOther(
-    predictQuestion: string,
-    currentPolymarketQuestion: string,
-    currentMarketSlug: string | null
-): Promise<{ conditionId: string; question?: string; slug?: string } | null> {
-    if (!/\bany other\b/i.test(predictQuestion)) return null;
-    if (/\b(any other|another)\b/i.test(currentPolymarketQuestion)) return null;
-    if (!currentMarketSlug) return null;
-
-    // 通过 /market/{slug} 的 307 Location 解析 event slug
-    let eventSlug: string | null = null;
-    try {
-        const res = await fetch(`https://polymarket.com/market/${currentMarketSlug}`, {
-            method: 'HEAD',
-            redirect: 'manual',
-        });
-        const location = res.headers.get('location') || '';
-        const m = location.match(/^\/event\/([^/]+)\/[^/]+/);
-        if (m?.[1]) eventSlug = m[1];
-    } catch {
-        return null;
-    }
-    if (!eventSlug) return null;
+const RESOLUTION_REVALIDATE_INTERVAL_MS = 60 * 60 * 1000;
 
-    let markets = polymarketEventMarketsCache.get(eventSlug);
-    if (!markets) {
+/**
+ * 后台比对映射的结算条件:
+ * - 启动时先比对当前市场对，再补齐其余生效映射 (体育 / 篮子等)
+ * - 映射新建或被修改后立即比对
+ * - 每小时重新比对过期 (超过 24 小时) 或未比对的映射
+ */
+function startResolutionValidation(predictIds: number[]): void {
+    const options = { getApiKey: () => scanApiKeys.getNextKey() };
+    // 默认未比对的映射禁止开仓 (RESOLUTION_REQUIRE_GRADE=false 关闭)
+    mappingRegistry.setRequireResolution(!['0', 'false', 'off'].includes((process.env.RESOLUTION_REQUIRE_GRADE || '').toLowerCase()));
+
+    let revalidating = false;
+    const revalidateAll = async (): Promise<void> => {
+        if (revalidating) return;
+        revalidating = true;
         try {
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 10000);
-            const res = await fetch(`https://gamma-api.polymarket.com/events?slug=${encodeURIComponent(eventSlug)}`, {
-                signal: controller.signal,
-            }).finally(() => clearTimeout(timeoutId));
-            if (!res.ok) return null;
-            const events = await res.json() as Array<{ markets?: Array<{ conditionId: string; question?: string; slug?: string }> }>;
-            markets = events[0]?.markets || [];
-            polymarketEventMarketsCache.set(eventSlug, markets);
-        } catch {
-            return null;
+            const ids = mappingRegistry.getActiveMappings().map(m => m.predictMarketId);
+            const count = await validateMappingResolutions(mappingRegistry, ids, options);
+            if (count > 0) console.log(`[Resolution] 重新比对 ${count} 个过期 / 未比对的映射`);
+        } catch (error: any) {
+            console.warn('[Resolution] 重新比对失败:', error?.message || error);
+        } finally {
+            revalidating = false;
         }
-    }
+    };
 
-    const target = normalizeQuestionForMatch(predictQuestion);
-    const hit = markets.find(m => normalizeQuestionForMatch(m.question || '') === target);
-    if (!hit?.conditionId) return null;
-    return hit;
+    validateMappingResolutions(mappingRegistry, predictIds, options)
+        .then(count => {
+            const blocked = predictIds.filter(id => mappingRegistry.isResolutionBlocked(id)).length;
+            console.log(`[Resolution] 结算条件比对完成: ${count} 个市场${blocked > 0 ? `，${blocked} 个 F 级已禁止创建任务` : ''}`);
+        })
+        .catch(error => console.warn('[Resolution] 结算条件比对失败:', error?.message || error))
+        .finally(() => void revalidateAll());
+    setInterval(() => void revalidateAll(), RESOLUTION_REVALIDATE_INTERVAL_MS).unref();
+
+    mappingRegistry.on('mapping:changed', ({ predictMarketId, action }: { predictMarketId: number; action: string }) => {
+        if (action !== 'create' && action !== 'update' && action !== 'override') return;
+        validateMappingResolutions(mappingRegistry, [predictMarketId], options)
+            .catch(error => console.warn(`[Resolution] Predict#${predictMarketId} 比对失败:`, error?.message || error));
+    });
 }
 
 async function main(): Promise<void> {
@@ -4357,8 +5480,13 @@ async function main(): Promise<void> {
     // 尽早注册优雅关闭处理，避免启动阶段 Ctrl+C 直接杀进程导致取消请求发不出去
     setupGracefulShutdown();
 
-    // 初始化 TaskService
-    await taskService.init();
+    // 初始化 TaskService (任务库无法加载时退出，避免以空任务集运行而丢失活跃任务)
+    try {
+        await taskService.init();
+    } catch (error: any) {
+        console.error(`❌ TaskService 初始化失败: ${error?.message || error}`);
+        process.exit(1);
+    }
     console.log('✅ TaskService 已初始化\n');
 
     // 初始化 TaskExecutor
@@ -4559,6 +5687,9 @@ async function main(): Promise<void> {
                 if (started) console.log('✅ BSC 订单通知服务已启动 (实时推送 Predict 链上订单到 Telegram)');
             })
             .catch((e: any) => console.warn(`⚠️  BSC 订单通知服务启动失败: ${e?.message || e}`));
+
+        // 启动 Telegram 命令 (远程查看/取消/暂停任务)
+        startTelegramCommandBot(telegramToken, telegramChatId);
     } else {
         console.log('⚠️  Telegram 未配置 (TELEGRAM_BOT_TOKEN, TELEGRAM_CHAT_ID)\n');
     }
@@ -4566,6 +5697,24 @@ async function main(): Promise<void> {
     // 启动全局敞口定时检测
     startExposureMonitor();
 
+    // 手续费模型: 账户返点 / Polymarket 费率表来自环境变量，boost 窗口来自 boost-cache
+    const feeModel = initFeeModel();
+    feeModel.setBoostProvider(isBoostActive);
+    const feeConfig = feeModel.getConfig();
+    console.log(`💸 手续费模型: Predict 返点 ${(feeConfig.predict.rebatePercent * 100).toFixed(0)}%, boost 倍数 ${feeConfig.predict.boostFeeMultiplier}, Polymarket taker ${feeConfig.polymarket.takerFeeBps}bps`);
+
+    // 启动账户级风控 (限额检查 + 熔断)
+    startRiskManager();
+
+    // 启动 CTF 仓位管理 (可选自动赎回/合并)
+    startCtfService();
+
+    // 启动结算跟踪
+    startSettlementTracker();
+
+    // 做市服务 (可选，需手动启动)
+    startMarketMakerService();
+
     // 构建 conditionId → 事件 endDate 映射 (用于显示与 Polymarket 前端一致的结算时间)
     // 非阻塞启动，映射完成后市场列表会自动获取到 endDate
     console.log('🔄 正在后台构建 endDate 映射...');
@@ -4670,6 +5819,7 @@ async function main(): Promise<void> {
 
             const results = await Promise.all(batch.map(async (match: any, idx: number) => {
                 let conditionId = match.polymarket.conditionId;
+                let matchMethod: 'conditionId' | 'any-other-fix' = 'conditionId';
                 const apiKey = allKeys[idx % allKeys.length];
                 const predictQuestion = match.predict.question || match.predict.title || '';
 
@@ -4677,25 +5827,49 @@ async function main(): Promise<void> {
                     getPolymarketMarketInfo(conditionId),
                     fetchPredictMarketDetail(match.predict.id, apiKey),
                 ]);
-                let endDate = getPolymarketEndDate(conditionId);
 
                 // 修复少量 “any other” 市场被错误绑定到具体选手/标的的情况
-                const fixed = await tryFixPolymarketConditionIdForAnyOther(
+                const fixed = await findAnyOtherMarket(
                     predictQuestion,
                     match.polymarket.question || '',
                     marketInfo?.slug || null
                 );
-                if (fixed?.conditionId && fixed.conditionId !== conditionId) {
-                    const fixedConditionId = fixed.conditionId;
-                    const fixedMarketInfo = await getPolymarketMarketInfo(fixedConditionId);
+                if (fixed && fixed.conditionId !== conditionId) {
+                    const fixedMarketInfo = await getPolymarketMarketInfo(fixed.conditionId);
                     if (fixedMarketInfo?.tokenId) {
-                        console.log(`\n  🔧 [FixLink] Predict#${match.predict.id} conditionId override: ${conditionId.slice(0, 10)}… -> ${fixedConditionId.slice(0, 10)}…`);
-                        conditionId = fixedConditionId;
+                        console.log(`\n  🔧 [FixLink] Predict#${match.predict.id} conditionId override: ${conditionId.slice(0, 10)}… -> ${fixed.conditionId.slice(0, 10)}…`);
+                        conditionId = fixed.conditionId;
                         marketInfo = fixedMarketInfo;
-                        endDate = getPolymarketEndDate(fixedConditionId);
+                        matchMethod = 'any-other-fix';
                     }
                 }
 
+                // 提交映射注册表：黑名单跳过，pin / override 以人工映射为准
+                const mapping = mappingRegistry.upsertCandidate({
+                    predictMarketId: match.predict.id,
+                    conditionId,
+                    yesTokenId: marketInfo?.yesTokenId || null,
+                    noTokenId: marketInfo?.noTokenId || null,
+                    inverted: match.inverted === true,
+                    invertedReason: match.invertedReason,
+                    matchMethod,
+                    confidence: MATCH_METHOD_CONFIDENCE[matchMethod],
+                    source: 'main',
+                    active: true,
+                    predictTitle: match.predict.title,
+                    predictQuestion,
+                    categorySlug: match.predict.categorySlug,
+                    feeRateBps: marketDetail?.feeRateBps,
+                    polymarketQuestion: match.polymarket.question,
+                }, 'dashboard');
+                if (!mapping) return null;
+                if (mapping.conditionId !== conditionId) {
+                    console.log(`\n  📌 [Mapping] Predict#${match.predict.id} ${mapping.status}: ${conditionId.slice(0, 10)}… -> ${mapping.conditionId.slice(0, 10)}…`);
+                    conditionId = mapping.conditionId;
+                    marketInfo = await getPolymarketMarketInfo(conditionId);
+                }
+                const endDate = getPolymarketEndDate(conditionId);
+
                 if (marketInfo && marketInfo.tokenId) {
                     // 优先使用 Polymarket endDate，如果过期则使用 Predict endsAt 作为备选
                     const predictEndsAt = getPredictEndsAt(match.predict?.categorySlug);
@@ -4710,11 +5884,11 @@ async function main(): Promise<void> {
                         polymarketConditionId: conditionId,
                         polymarketSlug: marketInfo.slug || undefined,
                         polymarketTokenId: marketInfo.tokenId,
-                        polymarketNoTokenId: marketInfo.noTokenId || undefined,
-                        polymarketYesTokenId: marketInfo.yesTokenId || undefined,
+                        polymarketNoTokenId: mapping.noTokenId || marketInfo.noTokenId || undefined,
+                        polymarketYesTokenId: mapping.yesTokenId || marketInfo.yesTokenId || undefined,
                         tickSize: marketInfo.tickSize,
                         feeRateBps: marketDetail?.feeRateBps ?? 200,
-                        isInverted: match.inverted === true,
+                        isInverted: mapping.inverted,
                         endDate: finalEndDate,
                         negRisk: marketInfo.negRisk,
                     };
@@ -4748,6 +5922,12 @@ async function main(): Promise<void> {
         // 获取 volume 数据
         await fetchMarketVolumes();
 
+        // 后台比对结算条件 (结果写入映射注册表，F 级映射禁止创建任务)
+        startResolutionValidation(marketPairs.map(p => p.predictId));
+
+        // negRisk 多选项事件 (篮子套利)
+        getBasketService().setPairs(marketPairs);
+
         // 自动缓存 Predict slugs (用于 View 导航 URL)
         // 使用 predictQuestion (完整市场标题) 匹配 browser-slugs.json，而非 predictTitle (选项名)
         cachePredictSlugs(marketPairs.map(p => ({ id: p.predictId, title: p.predictQuestion })));
@@ -4867,6 +6047,25 @@ async function main(): Promise<void> {
         setSportsPredictOrderbookProvider(null);
     }
 
+    // 订单簿录制 (可选)
+    if (ORDERBOOK_RECORD_DIR) {
+        const recorder = initOrderbookRecorder({ dir: ORDERBOOK_RECORD_DIR });
+        recorder.recordMarketPairs(marketPairs.map(p => ({
+            predictId: p.predictId,
+            predictTitle: p.predictTitle,
+            polymarketConditionId: p.polymarketConditionId,
+            polymarketTokenId: p.polymarketTokenId,
+            polymarketYesTokenId: p.polymarketYesTokenId,
+            polymarketNoTokenId: p.polymarketNoTokenId,
+            feeRateBps: p.feeRateBps,
+            isInverted: p.isInverted,
+        })));
+        const unifiedCache = getPredictOrderbookCache();
+        if (unifiedCache) recorder.attachPredictCache(unifiedCache);
+        if (polymarketWsClient) recorder.attachPolymarketWs(polymarketWsClient);
+        console.log(`🎞️  订单簿录制已启用: ${ORDERBOOK_RECORD_DIR}\n`);
+    }
+
     // 构建 tokenId → marketPair 索引（用于 WS 增量更新）
     buildTokenIdIndex();
 
@@ -5047,6 +6246,32 @@ async function main(): Promise<void> {
         }
     }, POLL_INTERVAL_MS);
 
+    // 篮子套利: 订单簿复用主扫描缓存，选项完整性后台检查 (10 分钟过期)
+    const basketService = getBasketService();
+    basketService.setBookProvider({
+        getPredictBook: marketId => {
+            const book = getPredictOrderbookFromCache(marketId);
+            return book ? {
+                bids: book.bids.map(([price, size]) => ({ price, size })),
+                asks: book.asks.map(([price, size]) => ({ price, size })),
+            } : null;
+        },
+        getPolymarketNoBook: tokenId => getPolymarketOrderbookFromWs(tokenId),
+    });
+    basketService.setTradableFilter(outcome => mappingRegistry.isTradable(outcome.predictMarketId, outcome.conditionId));
+    basketScanInterval = setInterval(() => {
+        if (shutdownRequested) return;
+        try {
+            basketService.recompute();
+        } catch (error: any) {
+            console.warn('[BasketService] 计算失败:', error.message);
+        }
+        const apiKey = process.env.PREDICT_API_KEY || scanApiKeys.getNextKey();
+        basketService.refreshCompleteness(apiKey).catch(error => {
+            console.warn('[BasketService] 完整性检查失败:', error.message);
+        });
+    }, BASKET_SCAN_INTERVAL_MS);
+
     // 注入 Predict 订单簿缓存提供者（任务执行时复用缓存，减少 API 调用）
     // Boost data refresh (5 minutes)
     boostRefreshInterval = setInterval(async () => {
@@ -5256,7 +6481,7 @@ async function main(): Promise<void> {
     // ========================================================================
     const ACCOUNT_BROADCAST_MS = 5000;
     serialSchedulerStops.push(createSerialScheduler('AccountBroadcast', ACCOUNT_BROADCAST_MS, async () => {
-        const accountsData = JSON.stringify(await getAccountData());
+        const accountsData = JSON.stringify(await getDashboardAccountData());
         markDirty('accounts', accountsData);
     }, { warnThresholdMs: ACCOUNT_BROADCAST_MS * 2, runImmediately: true }));
 
@@ -5340,10 +6565,12 @@ function setupGracefulShutdown(): void {
             if (polyRefreshInterval) clearInterval(polyRefreshInterval);
             if (predictRefreshInterval) clearInterval(predictRefreshInterval);
             if (boostRefreshInterval) clearInterval(boostRefreshInterval);
+            if (basketScanInterval) clearInterval(basketScanInterval);
             mainPollInterval = null;
             polyRefreshInterval = null;
             predictRefreshInterval = null;
             boostRefreshInterval = null;
+            basketScanInterval = null;
             if (wsDisconnectTimer) clearTimeout(wsDisconnectTimer);
             if (wsResumeTimer) clearTimeout(wsResumeTimer);
             wsDisconnectTimer = null;
@@ -5370,6 +6597,9 @@ function setupGracefulShutdown(): void {
                 httpServer = null;
             }
 
+            // 3.1) 停止 Telegram 命令 (关停期间不再接受远程操作)
+            try { await stopTelegramCommandBot(); } catch { /* ignore */ }
+
             // 4) 断开 WS（防止重连/后台心跳保活）
             if (polymarketWsClient) {
                 try {
@@ -5394,9 +6624,24 @@ function setupGracefulShutdown(): void {
             try { stopPredictOrderWatcher(); } catch { /* ignore */ }
             try { stopTokenMarketCache(); } catch { /* ignore */ }
 
+            // 4.2.1) 停止做市 (撤销做市挂单，需在订单簿缓存停止前完成)
+            try { await stopMarketMakerService(); } catch { /* ignore */ }
+
             // 4.3) 停止 Predict 订单簿 WS 缓存
             try { stopPredictOrderbookCache(); } catch { /* ignore */ }
 
+            // 4.4) 停止订单簿录制 (落盘压缩流尾部)
+            try { await stopOrderbookRecorder(); } catch { /* ignore */ }
+
+            // 4.5) 停止风控 (保存当日盈亏和敞口快照)
+            try { stopRiskManager(); } catch { /* ignore */ }
+
+            // 4.6) 停止 CTF 自动赎回/合并
+            try { stopCtfService(); } catch { /* ignore */ }
+
+            // 4.7) 停止结算跟踪 (保存结算记录)
+            try { stopSettlementTracker(); } catch { /* ignore */ }
+
             // 5) 暂停所有运行中的任务并取消挂单（确保取消请求已发送/超时返回）
             console.log('[Shutdown] 开始暂停任务并取消挂单...');
             await taskExecutor.shutdown({ concurrency: 4, timeoutMs: SHUTDOWN_TIMEOUT_MS - 5000 });
@@ -5407,6 +6652,9 @@ function setupGracefulShutdown(): void {
                 await getTaskLogger().close();
             } catch { /* ignore */ }
 
+            // 6.1) 关闭任务库 (SQLite)
+            try { taskService.close(); } catch { /* ignore */ }
+
             // 7) 给 stdout 刷新一个短窗口
             await new Promise(resolve => setTimeout(resolve, 200));
 
@@ -3,7 +3,7 @@
  *
  * 核心流程:
  * 1. 获取最新 ask 价格，验证 totalCost < maxTotalCost
- * 2. 下单 @ ask 价格 (LIMIT，模拟 Taker)
+ * 2. 下单 @ ask 价格 (LIMIT，模拟 Taker)；最优档深度不足时按多档边际成本把限价提到最后一个盈利档
  * 3. 启动成本守护 (合并到轮询)
  * 4. 启动超时定时器 (默认 10s)
  * 5. 轮询成交状态 + 增量对冲
@@ -24,6 +24,8 @@ import type {
     HedgePriceSource,
 } from './types.js';
 import { alignPriceDown, alignPriceUp, alignQuantity, calculatePredictFee, validateSharesAlignment } from '../../trading/price-utils.js';
+import { invertLevels, walkArbLadder, type LadderResult } from '../../trading/depth-calculator.js';
+import type { FeeContext } from '../../trading/fee-model.js';
 import { OrderbookCache, predictCacheKey, polyCacheKey } from '../orderbook-cache.js';
 import type { PredictTrader } from '../predict-trader.js';
 import type { PolymarketTrader } from '../polymarket-trader.js';
@@ -31,6 +33,7 @@ import type { TaskLogger } from '../task-logger/index.js';
 import type { PolymarketWebSocketClient } from '../../polymarket/ws-client.js';
 import type { NormalizedOrderBook } from '../../polymarket/types.js';
 import { getBscOrderWatcher, getSharesFromFillEvent, type BscOrderWatcher, type OrderFilledEvent } from '../../services/bsc-order-watcher.js';
+import { getRiskManager } from '../../services/risk-manager/index.js';
 
 // ============================================================================
 // 常量 (支持环境变量配置)
@@ -57,9 +60,6 @@ const MIN_HEDGE_THRESHOLD = Number(process.env.MIN_HEDGE_THRESHOLD) || 2;  // 
 // 小额成交先累计，避免 Polymarket 400 "invalid amounts" 拒单
 const MIN_HEDGE_NOTIONAL = Number(process.env.MIN_HEDGE_NOTIONAL) || 1.0;  // USD
 
-// Fee 相关常量
-const FEE_REBATE_PERCENT = 0.10;  // Predict 10% 返点
-
 // 事件驱动价格保护常量
 const COST_CHECK_THROTTLE_MS = Number(process.env.COST_CHECK_THROTTLE_MS) || 200;  // 成本检查节流 200ms
 const COST_CHECK_FALLBACK_INTERVAL = 5;  // 无 WS 时的轮询降级间隔 (每 N 次轮询)
@@ -74,6 +74,13 @@ const LOSS_HEDGE_WAIT_INTERVAL_MS = Number(process.env.LOSS_HEDGE_WAIT_INTERVAL_
 const LOSS_HEDGE_MAX_WAIT_TIME_MS = Number(process.env.LOSS_HEDGE_MAX_WAIT_TIME_MS) || 1800000;  // 最大等待时间 30 分钟
 const LOSS_HEDGE_MAX_RETRIES = Number(process.env.LOSS_HEDGE_MAX_RETRIES) || 50;  // 亏损对冲最大重试次数
 
+/**
+ * 任务的手续费上下文（boost 窗口 / Polymarket 费率表 / 执行账号返点等级）
+ */
+function taskFeeContext(task: Task, account?: string): FeeContext {
+    return { marketId: task.marketId, polymarketMarket: task.polymarketConditionId, account };
+}
+
 /**
  * 计算实际到账的 shares（扣除 Taker fee）
  * 使用两位小数精度（向下取整）
@@ -81,19 +88,19 @@ const LOSS_HEDGE_MAX_RETRIES = Number(process.env.LOSS_HEDGE_MAX_RETRIES) || 50;
  * @param filledQty - API 返回的撮合数量
  * @param price - 成交价格
  * @param feeRateBps - 费率 (基点)
+ * @param context - 手续费上下文
  * @returns 实际到账的 shares 数量（两位小数）
  */
-function calculateActualSharesReceived(
+export function calculateActualSharesReceived(
     filledQty: number,
     price: number,
-    feeRateBps: number
+    feeRateBps: number,
+    context: FeeContext = {}
 ): number {
     if (filledQty <= 0 || price <= 0 || price >= 1) return filledQty;
 
-    // fee per share (USDC) = feeRateBps / 10000 × min(price, 1-price) × (1 - rebate)
-    const baseFeePercent = feeRateBps / 10000;
-    const minPrice = Math.min(price, 1 - price);
-    const feePerShare = baseFeePercent * minPrice * (1 - FEE_REBATE_PERCENT);
+    // fee per share (USDC)，返点 / boost 由 fee-model 解析
+    const feePerShare = calculatePredictFee(price, feeRateBps, context);
 
     // 转换为 shares 比例: fee% = feePerShare / price
     const feeAsSharePercent = feePerShare / price;
@@ -150,6 +157,13 @@ export class TakerExecutor extends EventEmitter {
         this.polyWsClient = client ?? undefined;
     }
 
+    /**
+     * 任务手续费上下文 (返点等级按本执行器所属账号的 Predict 智能钱包)
+     */
+    private feeContext(task: Task): FeeContext {
+        return taskFeeContext(task, this.predictTrader.getSmartWalletAddress());
+    }
+
     // ========================================================================
     // 主入口
     // ========================================================================
@@ -206,7 +220,7 @@ export class TakerExecutor extends EventEmitter {
 
         if (needFallback) {
             if (task.predictAskPrice && task.polymarketMaxAsk) {
-                const fee = calculatePredictFee(task.predictAskPrice, task.feeRateBps || 200);
+                const fee = calculatePredictFee(task.predictAskPrice, task.feeRateBps || 200, this.feeContext(task));
                 // 反推 polyAsk: polymarketMaxAsk = maxTotalCost - predictAsk - fee
                 // 使用 maxTotalCost 的 90% 作为保守估计的 polyAsk
                 const estimatedPolyAsk = (task.maxTotalCost || 0.99) - task.predictAskPrice - fee - 0.01;
@@ -237,8 +251,6 @@ export class TakerExecutor extends EventEmitter {
         // 注意: task.tickSize 是 Polymarket 的 tickSize，Predict 有自己的 priceDecimals
         const priceDecimals = await this.predictTrader.getPriceDecimals(task.marketId);
         const predictTickSize = Math.pow(10, -priceDecimals); // 2位小数=0.01, 3位小数=0.001
-        // TAKER BUY: 使用 alignPriceUp 确保价格 >= ask，实现真正的吃单
-        const alignedPrice = alignPriceUp(validCostCheck.predictAsk, predictTickSize);
         const alignedQty = alignQuantity(remainingQty);
 
         if (alignedQty <= 0) {
@@ -246,10 +258,30 @@ export class TakerExecutor extends EventEmitter {
             return;
         }
 
-        // 对齐后重新计算成本（BUY: predictAsk = buyPrice）
+        // 多档扫单: 剩余数量超出最优档时，限价提到最后一个边际盈利档（对冲端不超过 polymarketMaxAsk）
+        let limitPredictAsk = validCostCheck.predictAsk;
+        let marginalPolyAsk = validCostCheck.polyAsk;
+        if (!needFallback) {
+            const ladder = await this.getTakerLadder(task, hedgeTokenId, alignedQty, task.feeRateBps || 200);
+            if (ladder && ladder.worstPredictPrice > limitPredictAsk) {
+                const ladderPrice = alignPriceUp(ladder.worstPredictPrice, predictTickSize);
+                const ladderCost = ladderPrice + ladder.worstPolymarketPrice + calculatePredictFee(ladderPrice, task.feeRateBps || 200, this.feeContext(task));
+                if (ladderCost <= (task.maxTotalCost || 1)) {
+                    console.log(`[TakerExecutor] Task ${task.id}: Ladder sweep ${ladder.levels.length} levels, ` +
+                        `qty=${ladder.quantity.toFixed(2)}, limit ${limitPredictAsk} → ${ladder.worstPredictPrice}, profit=$${ladder.profit.toFixed(4)}`);
+                    limitPredictAsk = ladder.worstPredictPrice;
+                    marginalPolyAsk = ladder.worstPolymarketPrice;
+                }
+            }
+        }
+
+        // TAKER BUY: 使用 alignPriceUp 确保价格 >= ask，实现真正的吃单
+        const alignedPrice = alignPriceUp(limitPredictAsk, predictTickSize);
+
+        // 对齐后重新计算成本（BUY: predictAsk = buyPrice，多档时为最后一档的边际成本）
         const alignedPredictAsk = alignedPrice;
-        const alignedFee = calculatePredictFee(alignedPredictAsk, task.feeRateBps || 200);
-        const alignedTotalCost = alignedPredictAsk + validCostCheck.polyAsk + alignedFee;
+        const alignedFee = calculatePredictFee(alignedPredictAsk, task.feeRateBps || 200, this.feeContext(task));
+        const alignedTotalCost = alignedPredictAsk + marginalPolyAsk + alignedFee;
 
         if (alignedTotalCost > (task.maxTotalCost || 1)) {
             throw new Error(
@@ -257,6 +289,20 @@ export class TakerExecutor extends EventEmitter {
             );
         }
 
+        // 3b. 账户级风控 (任务敞口已计入，这里只拦截熔断/超限)
+        const riskManager = getRiskManager();
+        if (riskManager) {
+            const riskCheck = riskManager.check({
+                marketId: task.marketId,
+                predictShares: 0,
+                predictNotional: 0,
+                polymarketNotional: 0,
+            });
+            if (!riskCheck.allowed) {
+                throw new Error(`Risk limit: ${riskCheck.reason}`);
+            }
+        }
+
         // 4. 记录下单前快照
         await this.taskLogger.captureOrderBookSnapshot(
             task.id,
@@ -268,7 +314,7 @@ export class TakerExecutor extends EventEmitter {
             },
             {
                 bids: [],
-                asks: [[validCostCheck.polyAsk, alignedQty]],
+                asks: [[marginalPolyAsk, alignedQty]],
                 updateTimestampMs: Date.now(),
             },
             {
@@ -1220,7 +1266,8 @@ export class TakerExecutor extends EventEmitter {
                     const actualNewFilled = calculateActualSharesReceived(
                         newFilled,
                         avgPredictPrice,
-                        feeRateBps
+                        feeRateBps,
+                        this.feeContext(task)
                     );
                     console.log(`[TakerExecutor] Task ${task.id}: Incremental hedge: rawFilled=${newFilled}, actualFilled=${actualNewFilled} (wss=${ctx.wssFilledQty.toFixed(4)}, rest=${ctx.restFilledQty.toFixed(4)})`);
 
@@ -1471,7 +1518,8 @@ export class TakerExecutor extends EventEmitter {
         const actualFilledQty = calculateActualSharesReceived(
             finalFilledQty,
             avgPredictPrice,
-            task.feeRateBps || 200
+            task.feeRateBps || 200,
+            this.feeContext(task)
         );
         console.log(`[TakerExecutor] Task ${task.id}: Cancel hedge - rawFilled=${finalFilledQty}, actualFilled=${actualFilledQty}`);
         await this.hedgeAndEnd(ctx, hedgeTokenId, actualFilledQty);
@@ -1885,7 +1933,8 @@ export class TakerExecutor extends EventEmitter {
             actualTotalFilled = calculateActualSharesReceived(
                 ctx.totalPredictFilled,
                 avgPredictPrice,
-                task.feeRateBps || 200
+                task.feeRateBps || 200,
+                this.feeContext(task)
             );
         }
         const remainingToHedge = actualTotalFilled - ctx.totalHedged;
@@ -2375,7 +2424,7 @@ export class TakerExecutor extends EventEmitter {
             predictAsk = bestYesBid > 0 ? (1 - bestYesBid) : 1;
         }
         const polyAsk = polyBook?.asks?.[0]?.price ?? 1;
-        const fee = calculatePredictFee(predictAsk, feeRateBps);
+        const fee = calculatePredictFee(predictAsk, feeRateBps, this.feeContext(task));
         const totalCost = predictAsk + polyAsk + fee;
 
         return {
@@ -2387,6 +2436,48 @@ export class TakerExecutor extends EventEmitter {
         };
     }
 
+    /**
+     * 按当前两边订单簿逐档计算 BUY 任务的可吃数量（见 depth-calculator walkArbLadder）
+     *
+     * - Predict: YES 端用 YES asks，NO 端用 NO asks = 1 - YES bids
+     * - Polymarket: 对冲 token asks，只取 <= polymarketMaxAsk 的档位
+     */
+    private async getTakerLadder(
+        task: Task,
+        hedgeTokenId: string,
+        quantity: number,
+        feeRateBps: number
+    ): Promise<LadderResult | null> {
+        try {
+            const { data: predictBook } = await this.orderbookCache.get(
+                predictCacheKey(task.marketId),
+                async () => {
+                    const book = await this.predictTrader.getOrderbook(task.marketId);
+                    return book ?? { bids: [], asks: [] };
+                }
+            );
+            const { data: polyBook } = await this.orderbookCache.get(
+                polyCacheKey(hedgeTokenId),
+                async () => this.polyTrader.getOrderbook(hedgeTokenId)
+            );
+
+            const predictBookTyped = predictBook as { bids?: [number, number][]; asks?: [number, number][] };
+            const toLevels = (levels: [number, number][] = []) => levels
+                .filter(([price, size]) => !isNaN(price) && size > 0)
+                .map(([price, size]) => ({ price, size }));
+            const predictAsks = (task.arbSide || 'YES') === 'YES'
+                ? toLevels(predictBookTyped?.asks)
+                : invertLevels(toLevels(predictBookTyped?.bids));
+            const maxAsk = task.polymarketMaxAsk || 1;
+            const hedgeAsks = (polyBook?.asks ?? []).filter(level => level.price <= maxAsk + 1e-9);
+
+            const ladder = walkArbLadder(predictAsks, hedgeAsks, feeRateBps, quantity, task.maxTotalCost || 1, this.feeContext(task));
+            return ladder.quantity > 0 ? ladder : null;
+        } catch {
+            return null;
+        }
+    }
+
     /**
      * 检查是否应该触发对冲 (考虑 Polymarket $1 最小名义金额阈值)
      *
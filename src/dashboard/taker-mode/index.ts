@@ -6,5 +6,5 @@
 export * from './types.js';
 
 // 执行器导出
-export { TakerExecutor, getTakerExecutor, initTakerExecutor } from './executor.js';
+export { TakerExecutor, getTakerExecutor, initTakerExecutor, calculateActualSharesReceived } from './executor.js';
 export type { TakerExecutorDeps } from './executor.js';
@@ -19,10 +19,13 @@ import { getPolymarketTrader, PolymarketTrader, PolyOrderInput } from './polymar
 import { getOrderMonitor, OrderMonitor, OrderWatchResult } from './order-monitor.js';
 import { getTaskLogger, TaskLogger, TaskConfigSnapshot, ArbOpportunitySnapshot, SnapshotTrigger } from './task-logger/index.js';
 import { initTakerExecutor, TakerExecutor, TakerExecutorDeps } from './taker-mode/index.js';
+import { BasketExecutor } from './basket/index.js';
 import { getBscOrderWatcher, getSharesFromFillEvent, type BscOrderWatcher, type OrderFilledEvent } from '../services/bsc-order-watcher.js';
 import type { PolymarketWebSocketClient } from '../polymarket/ws-client.js';
 import { PolymarketRestClient } from '../polymarket/rest-client.js';
 import { calculatePredictFee } from '../trading/depth-calculator.js';
+import { isPaperTradingEnabled, getPaperPredictTrader, getPaperPolymarketTrader } from './paper-trading/index.js';
+import { getRiskManager } from '../services/risk-manager/index.js';
 
 // ============================================================================
 // 常量
@@ -49,6 +52,9 @@ const POLY_FILL_TERMINAL_TTL_MS = Number(process.env.POLY_FILL_TERMINAL_TTL_MS)
 // refreshTrackedPolyFills 并发上限
 const POLY_FILL_REFRESH_CONCURRENCY = Number(process.env.POLY_FILL_REFRESH_CONCURRENCY) || 3;
 
+// 启动前需要通过账户级风控的状态 (会新开 Predict 挂单)；对冲阶段不拦截
+const RISK_GATED_STATUSES: TaskStatus[] = ['PENDING', 'PAUSED', 'PREDICT_SUBMITTED'];
+
 // ============================================================================
 // 类型
 // ============================================================================
@@ -117,6 +123,16 @@ interface TaskContext {
     isDepthAdjusting?: boolean;
 }
 
+export interface TaskExecutorOptions {
+    /** 所属账号（多账号模式），未设置时执行全部任务 */
+    accountId?: string;
+    /** 主账号: 同时执行未标记账号的任务，使用全局 TakerExecutor (默认 true) */
+    primary?: boolean;
+    /** 账号专属 trader，默认全局单例；模拟交易模式下忽略 */
+    predictTrader?: PredictTrader;
+    polyTrader?: PolymarketTrader;
+}
+
 // ============================================================================
 // TaskExecutor 类
 // ============================================================================
@@ -130,19 +146,30 @@ export class TaskExecutor extends EventEmitter {
     private orderMonitor: OrderMonitor;
     private taskLogger: TaskLogger;
     private takerExecutor!: TakerExecutor;  // 延迟初始化
+    private basketExecutor!: BasketExecutor;  // 延迟初始化
     private runningTasks: Map<string, TaskContext> = new Map();
     private initialized = false;
     private expiryCheckInterval?: ReturnType<typeof setInterval>;
     private shuttingDown = false;
     private pausing = false;
+    /** 模拟交易模式: 下单/撤单走 PaperMatchingEngine */
+    private readonly paperTrading: boolean;
     /** 同一 poly order 的 in-flight refresh 去重，避免并发重复 API 调用 */
     private inFlightRefreshes: Map<string, Promise<{ filledQty: number; avgPrice: number; delta: number }>> = new Map();
+    private readonly accountId?: string;
+    private readonly primary: boolean;
 
-    constructor() {
+    constructor(options: TaskExecutorOptions = {}) {
         super();
         this.taskService = getTaskService();
-        this.predictTrader = getPredictTrader();
-        this.polyTrader = getPolymarketTrader();
+        this.accountId = options.accountId;
+        this.primary = options.primary ?? true;
+        this.paperTrading = isPaperTradingEnabled();
+        this.predictTrader = this.paperTrading ? getPaperPredictTrader() : options.predictTrader ?? getPredictTrader();
+        this.polyTrader = this.paperTrading ? getPaperPolymarketTrader() : options.polyTrader ?? getPolymarketTrader();
+        if (this.paperTrading) {
+            console.log('[TaskExecutor] 📝 模拟交易模式 (USE_REAL_EXECUTION=false)，订单不会真实提交');
+        }
         this.polyRestClient = new PolymarketRestClient();
         this.orderMonitor = getOrderMonitor();
         this.taskLogger = getTaskLogger();
@@ -175,10 +202,12 @@ export class TaskExecutor extends EventEmitter {
             updateTask: this.updateTask.bind(this),
             getTask: (taskId: string) => this.taskService.getTask(taskId) ?? undefined,
         };
-        this.takerExecutor = initTakerExecutor(takerDeps);
+        this.takerExecutor = this.primary ? initTakerExecutor(takerDeps) : new TakerExecutor(takerDeps);
+        this.basketExecutor = new BasketExecutor(takerDeps);
 
         this.initialized = true;
-        console.log('[TaskExecutor] Initialized');
+        const accountLabel = this.accountId ? ` [${this.accountId}]` : '';
+        console.log(`[TaskExecutor] Initialized${accountLabel}${this.paperTrading ? ' (paper)' : ''}`);
 
         // 启动任务过期检查定时器 (每 30 秒检查一次)
         this.expiryCheckInterval = setInterval(() => this.checkExpiredTasks(), 30_000);
@@ -195,6 +224,38 @@ export class TaskExecutor extends EventEmitter {
         await this.autoRecoverTasks();
     }
 
+    /**
+     * 是否处于模拟交易模式
+     */
+    isPaperTrading(): boolean {
+        return this.paperTrading;
+    }
+
+    /**
+     * 任务与当前执行模式是否一致 (模拟任务不能用真实账户执行，反之亦然)
+     */
+    private matchesExecutionMode(task: Task): boolean {
+        return Boolean(task.simulated) === this.paperTrading;
+    }
+
+    getAccountId(): string | undefined {
+        return this.accountId;
+    }
+
+    /**
+     * 任务是否由本执行器负责 (多账号: 按 task.accountId，未标记的任务归主账号)
+     */
+    ownsTask(task: Task): boolean {
+        if (!this.accountId) return true;
+        return task.accountId ? task.accountId === this.accountId : this.primary;
+    }
+
+    private assertOwnsTask(task: Task): void {
+        if (!this.ownsTask(task)) {
+            throw new Error(`Task ${task.id} belongs to account ${task.accountId}, not ${this.accountId}`);
+        }
+    }
+
     /**
      * 由启动入口注入 Polymarket WS 客户端（避免模块循环依赖）
      */
@@ -208,7 +269,7 @@ export class TaskExecutor extends EventEmitter {
      */
     private async checkExpiredTasks(): Promise<void> {
         const now = Date.now();
-        const allTasks = this.taskService.getTasks({});
+        const allTasks = this.taskService.getTasks({}).filter(task => this.ownsTask(task));
 
         for (const task of allTasks) {
             // 跳过没有设置过期时间的任务
@@ -291,6 +352,11 @@ export class TaskExecutor extends EventEmitter {
 
         const tasksToRecover = this.taskService.getTasks({
             status: recoverableStatuses,
+        }).filter(task => {
+            if (!this.ownsTask(task)) return false;
+            if (this.matchesExecutionMode(task)) return true;
+            console.warn(`[TaskExecutor] 跳过恢复任务 ${task.id}: ${task.simulated ? '模拟' : '真实'}任务与当前执行模式不一致`);
+            return false;
         });
 
         if (tasksToRecover.length === 0) {
@@ -302,6 +368,12 @@ export class TaskExecutor extends EventEmitter {
         for (const task of tasksToRecover) {
             console.log(`[TaskExecutor] 恢复任务: ${task.id} (${task.status})`);
             try {
+                // 篮子任务: 不再下新腿，对账已提交订单后回滚多余份数
+                if (task.basket) {
+                    await this.startTask(task.id);
+                    continue;
+                }
+
                 // 检查价格有效性（仅对非 UNWINDING 状态的任务）
                 if (!['UNWINDING', 'UNWIND_PENDING'].includes(task.status)) {
                     const priceCheck = await this.checkPriceValidity(task);
@@ -379,6 +451,29 @@ export class TaskExecutor extends EventEmitter {
         }
     }
 
+    /**
+     * 收集任务提交过的 Predict 订单 hash（任务日志中的 ORDER_SUBMITTED + currentOrderHash），统一小写
+     */
+    private async getTaskPredictOrderHashes(task: Task): Promise<Set<string>> {
+        const hashes = new Set<string>();
+        if (task.currentOrderHash) {
+            hashes.add(task.currentOrderHash.toLowerCase());
+        }
+        try {
+            await this.taskLogger.flush();
+            for (const event of this.taskLogger.getSqliteSink().getEvents(task.id)) {
+                if (event.type !== 'ORDER_SUBMITTED') continue;
+                const payload = event.payload as { platform?: string; orderId?: string };
+                if (payload.platform === 'predict' && payload.orderId) {
+                    hashes.add(payload.orderId.toLowerCase());
+                }
+            }
+        } catch (e: any) {
+            console.warn(`[TaskExecutor] Task ${task.id}: 读取任务订单日志失败: ${e.message}`);
+        }
+        return hashes;
+    }
+
     /**
      * 重启恢复：当任务处于 PAUSED 且价格已恢复时，立即重挂剩余量订单
      * 仅用于 MAKER 模式（TAKER 任务由 takerExecutor 自己处理）
@@ -390,6 +485,9 @@ export class TaskExecutor extends EventEmitter {
             return;
         }
 
+        // 本任务提交过的 Predict 订单 hash（必须在清理 currentOrderHash 之前收集）
+        const ownHashes = await this.getTaskPredictOrderHashes(task);
+
         // 如果有残留的 hash（上次取消失败），先尝试取消
         if (task.currentOrderHash) {
             console.log(`[TaskExecutor] Task ${task.id}: 发现残留订单 ${task.currentOrderHash.slice(0, 20)}...，尝试清理`);
@@ -402,22 +500,26 @@ export class TaskExecutor extends EventEmitter {
             this.updateTask(task.id, { currentOrderHash: undefined });
         }
 
-        // 额外安全检查：查询 Predict 该市场是否有本钱包的活跃订单
-        try {
-            const activeOrders = await this.predictTrader.getOpenOrdersForMarket(task.marketId);
-            if (activeOrders.length > 0) {
-                console.warn(`[TaskExecutor] Task ${task.id}: 发现 ${activeOrders.length} 个活跃订单，逐一取消`);
-                for (const order of activeOrders) {
-                    try {
-                        await this.predictTrader.cancelOrder(order.id);
-                        console.log(`[TaskExecutor] Task ${task.id}: 取消活跃订单 ${order.id}`);
-                    } catch (e: any) {
-                        console.warn(`[TaskExecutor] Task ${task.id}: 取消活跃订单 ${order.id} 失败: ${e.message}`);
+        // 额外安全检查：查询 Predict 该市场是否仍有本任务的活跃订单
+        // 只按本任务提交过的 hash 撤单，同市场的积分引擎槽位订单和其他任务订单不受影响
+        if (ownHashes.size > 0) {
+            try {
+                const activeOrders = (await this.predictTrader.getOpenOrdersForMarket(task.marketId))
+                    .filter(order => order.hash && ownHashes.has(order.hash.toLowerCase()));
+                if (activeOrders.length > 0) {
+                    console.warn(`[TaskExecutor] Task ${task.id}: 发现 ${activeOrders.length} 个本任务活跃订单，逐一取消`);
+                    for (const order of activeOrders) {
+                        try {
+                            await this.predictTrader.cancelOrder(order.id);
+                            console.log(`[TaskExecutor] Task ${task.id}: 取消活跃订单 ${order.id}`);
+                        } catch (e: any) {
+                            console.warn(`[TaskExecutor] Task ${task.id}: 取消活跃订单 ${order.id} 失败: ${e.message}`);
+                        }
                     }
                 }
+            } catch (e: any) {
+                console.warn(`[TaskExecutor] Task ${task.id}: 查询活跃订单失败: ${e.message}`);
             }
-        } catch (e: any) {
-            console.warn(`[TaskExecutor] Task ${task.id}: 查询活跃订单失败: ${e.message}`);
         }
 
         const remainingQty = (task.quantity || 0) - (task.predictFilledQty || 0);
@@ -677,7 +779,9 @@ export class TaskExecutor extends EventEmitter {
             'HEDGING',
             'HEDGE_PENDING',
         ];
-        if (!startableStatuses.includes(task.status)) {
+        // 篮子任务重启时可能停在回滚中，由 BasketExecutor 对账后继续回滚
+        const basketUnwinding = Boolean(task.basket) && task.status === 'UNWINDING';
+        if (!startableStatuses.includes(task.status) && !basketUnwinding) {
             throw new Error(`Task ${taskId} cannot be started from status: ${task.status}`);
         }
 
@@ -685,6 +789,30 @@ export class TaskExecutor extends EventEmitter {
             throw new Error(`Task ${taskId} is already running`);
         }
 
+        this.assertOwnsTask(task);
+
+        if (!this.matchesExecutionMode(task)) {
+            throw new Error(
+                task.simulated
+                    ? `Task ${taskId} is a simulated task and cannot run with real execution`
+                    : `Task ${taskId} is a real task and cannot run in paper trading mode`
+            );
+        }
+
+        // 账户级风控: 熔断或超限时不再开仓；已成交待对冲的任务必须继续对冲以降低敞口
+        const riskManager = getRiskManager();
+        if (riskManager && RISK_GATED_STATUSES.includes(task.status)) {
+            const riskCheck = riskManager.check({
+                marketId: task.marketId,
+                predictShares: 0,
+                predictNotional: 0,
+                polymarketNotional: 0,
+            });
+            if (!riskCheck.allowed) {
+                throw new Error(`Task ${taskId} blocked by risk limit: ${riskCheck.reason}`);
+            }
+        }
+
         if (!this.initialized) {
             await this.init();
         }
@@ -717,14 +845,15 @@ export class TaskExecutor extends EventEmitter {
         this.runningTasks.set(taskId, ctx);
 
         // 订阅对冲 token 到 Polymarket WS（arb-service 只订阅了 YES token，对冲常用 NO token）
+        // 篮子任务各腿 token 不同，下单前直接拉取订单簿，不走对冲 token 订阅与预检
         const hedgeTokenId = this.getHedgeTokenId(task);
-        if (!task.isSportsMarket) {
+        if (!task.isSportsMarket && !task.basket) {
             this.polyWsClient?.subscribe([hedgeTokenId]);
         }
 
         // Polymarket 签名预检：在 Predict 下单前验证对冲签名能力
         // 仅在任务从 PENDING 启动（尚未提交 Predict 订单）时执行
-        if (task.status === 'PENDING') {
+        if (task.status === 'PENDING' && !task.basket) {
             const preflight = await this.polyTrader.preflightCheck({
                 tokenId: hedgeTokenId,
                 negRisk: task.negRisk,
@@ -789,6 +918,7 @@ export class TaskExecutor extends EventEmitter {
         if (!task) {
             throw new Error(`Task ${taskId} not found`);
         }
+        this.assertOwnsTask(task);
 
         const resumableStatuses: TaskStatus[] = [
             'PAUSED',
@@ -820,11 +950,31 @@ export class TaskExecutor extends EventEmitter {
         if (!task) {
             throw new Error(`Task ${taskId} not found`);
         }
+        this.assertOwnsTask(task);
 
         console.log(`[TaskExecutor] 🛑 取消任务 ${taskId}, 当前状态: ${task.status}`);
 
         // 获取运行上下文
         const ctx = this.runningTasks.get(taskId);
+
+        // 篮子任务: 执行中只发出中止信号，BasketExecutor 在当前腿结束后停止下单并回滚
+        if (task.basket) {
+            if (ctx) {
+                ctx.abortController.abort();
+                console.log(`[TaskExecutor] 篮子任务 ${taskId} 将在当前腿结束后停止并回滚`);
+                return;
+            }
+            if (task.status !== 'PENDING') {
+                throw new Error(`Basket task ${taskId} is not running; status ${task.status} is settled by recovery`);
+            }
+            this.updateTask(taskId, { status: 'CANCELLED', cancelReason: 'USER_CANCELLED', completedAt: Date.now() });
+            await this.taskLogger.logTaskLifecycle(taskId, 'TASK_CANCELLED', {
+                status: 'CANCELLED',
+                previousStatus: task.status,
+                reason: 'User cancelled',
+            });
+            return;
+        }
         if (ctx) {
             // 中止所有操作
             ctx.abortController.abort();
@@ -909,7 +1059,7 @@ export class TaskExecutor extends EventEmitter {
                     platform: 'polymarket',
                     orderId: task.currentPolyOrderId,
                     side: task.type === 'BUY' ? 'BUY' : 'SELL',
-                    outcome: task.arbSide === 'YES' ? 'NO' : 'YES',  // 对冲方向相反
+                    outcome: this.getHedgeOutcome(task),
                     price: task.avgPolymarketPrice || 0,
                     quantity: task.hedgedQty || 0,
                     filledQty: task.hedgedQty || 0,
@@ -1150,7 +1300,7 @@ export class TaskExecutor extends EventEmitter {
     private async pauseAllNonSportsTasks(disconnectedTokenId: string): Promise<void> {
         const tasksToPause: string[] = [];
         for (const [taskId, ctx] of this.runningTasks) {
-            if (!ctx.task.isSportsMarket && !ctx.isPaused) {
+            if (!ctx.task.isSportsMarket && !ctx.task.basket && !ctx.isPaused) {
                 tasksToPause.push(taskId);
             }
         }
@@ -1214,13 +1364,18 @@ export class TaskExecutor extends EventEmitter {
     }
 
     private collectTaskIdsToPause(): string[] {
-        const runningTaskIds = Array.from(this.runningTasks.keys());
+        // 篮子任务不暂停: 在途订单由 BasketExecutor 超时撤单，重启后对账回滚
+        const runningTaskIds = Array.from(this.runningTasks.values())
+            .filter(ctx => !ctx.task.basket)
+            .map(ctx => ctx.task.id);
 
         // 兜底：除了 runningTasks 外，也暂停所有“可能仍有挂单”的非终态任务
         // 场景：启动/恢复过程中 Ctrl+C，任务还没加入 runningTasks，但 currentOrderHash/currentPolyOrderId 已写入 task
         const terminalStatuses: TaskStatus[] = ['COMPLETED', 'FAILED', 'CANCELLED', 'HEDGE_FAILED', 'UNWIND_COMPLETED'];
         const tasksWithPotentialOrders = this.taskService.getTasks({ includeCompleted: true })
             .filter(t => !terminalStatuses.includes(t.status))
+            .filter(t => this.ownsTask(t))
+            .filter(t => !t.basket)
             .filter(t => Boolean(t.currentOrderHash || t.currentPolyOrderId))
             .map(t => t.id);
 
@@ -1280,6 +1435,12 @@ export class TaskExecutor extends EventEmitter {
         const { task, signal } = ctx;
         console.log(`[TaskExecutor] Executing ${task.type} task: ${task.id}`);
 
+        if (task.basket) {
+            console.log(`[TaskExecutor] Routing to BasketExecutor for task ${task.id}`);
+            await this.basketExecutor.execute(task, signal);
+            return;
+        }
+
         if (task.type === 'BUY') {
             await this.executeBuyTask(ctx);
         } else {
@@ -2684,7 +2845,7 @@ export class TaskExecutor extends EventEmitter {
                     this.orderMonitor.watchPolymarketOrder(
                         polyResult.orderId!,
                         (result) => resolve(result),
-                        { intervalMs: 250, maxRetries: 8 }
+                        { intervalMs: 250, maxRetries: 8, trader: this.polyTrader }
                     );
                 });
 
@@ -2964,24 +3125,28 @@ export class TaskExecutor extends EventEmitter {
     }
 
     /**
-     * 获取对冲用的 Polymarket token ID
+     * 获取对冲用的 Polymarket outcome
      *
      * 套利逻辑:
-     * - YES 端套利 (arbSide='YES'): Predict 买 YES → Polymarket 买 NO
-     * - NO 端套利 (arbSide='NO'): Predict 买 NO → Polymarket 买 YES
+     * - YES 端套利 (arbSide='YES'): Predict 买 YES → Polymarket 买 NO (inverted: 买 YES)
+     * - NO 端套利 (arbSide='NO'): Predict 买 NO → Polymarket 买 YES (inverted: 买 NO)
      *
-     * isInverted 标记表示市场方向是否反转
+     * isInverted 标记表示市场方向是否反转 (Predict YES = Polymarket NO)，两个套利方向对称处理
      */
-    private getHedgeTokenId(task: Task): string {
+    private getHedgeOutcome(task: Task): 'YES' | 'NO' {
         const arbSide = task.arbSide || 'YES';
-
+        const sameSide = task.isInverted === true;
         if (arbSide === 'YES') {
-            // YES 端套利: 对冲买 Poly NO (或 YES if inverted)
-            return task.isInverted ? task.polymarketYesTokenId : task.polymarketNoTokenId;
-        } else {
-            // NO 端套利: 对冲买 Poly YES (或 NO if inverted)
-            return task.isInverted ? task.polymarketNoTokenId : task.polymarketYesTokenId;
+            return sameSide ? 'YES' : 'NO';
         }
+        return sameSide ? 'NO' : 'YES';
+    }
+
+    /**
+     * 获取对冲用的 Polymarket token ID (见 getHedgeOutcome)
+     */
+    private getHedgeTokenId(task: Task): string {
+        return this.getHedgeOutcome(task) === 'YES' ? task.polymarketYesTokenId : task.polymarketNoTokenId;
     }
 
     /**
@@ -3784,7 +3949,10 @@ export class TaskExecutor extends EventEmitter {
         const hedgeTokenId = this.getHedgeTokenId(task);
         const attemptId = `cancel-hedge-${Math.random().toString(36).substring(2, 8)}`;
         const feeRateBps = task.feeRateBps ?? 200;
-        const predictFee = calculatePredictFee(task.predictPrice, feeRateBps);
+        const predictFee = calculatePredictFee(task.predictPrice, feeRateBps, {
+            marketId: task.marketId,
+            account: this.predictTrader.getSmartWalletAddress(),
+        });
 
         // 计算保本价 (breakeven)
         let breakevenPrice: number;
@@ -3903,7 +4071,7 @@ export class TaskExecutor extends EventEmitter {
                             this.orderMonitor.watchPolymarketOrder(
                                 iocResult.orderId!,
                                 (result) => resolve(result),
-                                { intervalMs: 250, maxRetries: 8 }
+                                { intervalMs: 250, maxRetries: 8, trader: this.polyTrader }
                             );
                         });
                         iocFilled = fillResult.filledQty;
@@ -4329,7 +4497,7 @@ export class TaskExecutor extends EventEmitter {
                     this.orderMonitor.watchPolymarketOrder(
                         polyResult.orderId!,
                         (result) => resolve(result),
-                        { intervalMs: 250, maxRetries: 8 }
+                        { intervalMs: 250, maxRetries: 8, trader: this.polyTrader }
                     );
                 });
 
@@ -4415,6 +4583,7 @@ export class TaskExecutor extends EventEmitter {
             tickSize: task.tickSize || 0.01,
             negRisk: task.negRisk,  // Polymarket negRisk 市场标志
             arbSide: task.arbSide || 'YES',  // 套利方向
+            simulated: task.simulated,
         };
     }
 
@@ -4587,7 +4756,10 @@ export class TaskExecutor extends EventEmitter {
             const bestPolyAsk = polyBook?.asks[0]?.price ?? 1;
             const isTaker = task.strategy === 'TAKER';
             const predictFee = isTaker && task.feeRateBps
-                ? calculatePredictFee(task.predictPrice, task.feeRateBps)
+                ? calculatePredictFee(task.predictPrice, task.feeRateBps, {
+                    marketId: task.marketId,
+                    account: this.predictTrader.getSmartWalletAddress(),
+                })
                 : 0;
             const totalCost = task.predictPrice + bestPolyAsk + predictFee;
             const profitPercent = (1 - totalCost) * 100;
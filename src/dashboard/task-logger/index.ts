@@ -7,3 +7,4 @@ export * from './types.js';
 
 // 日志服务导出
 export { TaskLogger, getTaskLogger, initTaskLogger } from './task-logger.js';
+export { TaskLogSqliteSink } from './sqlite-sink.js';
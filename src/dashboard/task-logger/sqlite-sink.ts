@@ -0,0 +1,322 @@
+/**
+ * 任务日志系统 - SQLite 存储
+ *
+ * TaskLogger flush 时按批事务写入，LogQueryService 直接查询:
+ * - events: 任务事件 (task_id + sequence 唯一，重试写入幂等)
+ * - orderbook_snapshots: 订单簿快照
+ * - task_logs: 每任务一行汇总 (无 summary 时由事件推断状态/时间)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { TaskLogEvent, OrderBookSnapshot, TaskSummary } from './types.js';
+
+interface TaskConfigLike {
+    type?: string;
+    marketId?: number;
+    title?: string;
+}
+
+export class TaskLogSqliteSink {
+    private db: Database.Database;
+    private insertEventStmt: Database.Statement;
+    private insertSnapshotStmt: Database.Statement;
+    private touchTaskStmt: Database.Statement;
+    private upsertSummaryStmt: Database.Statement;
+
+    constructor(dbPath: string) {
+        fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+        this.db = new Database(dbPath);
+        this.db.pragma('journal_mode = WAL');
+        this.db.pragma('synchronous = NORMAL');
+        this.initSchema();
+
+        this.insertEventStmt = this.db.prepare(`
+            INSERT OR IGNORE INTO events (
+                task_id, sequence, timestamp, type, priority, executor_id, attempt_id, order_id, order_hash, payload
+            ) VALUES (
+                @taskId, @sequence, @timestamp, @type, @priority, @executorId, @attemptId, @orderId, @orderHash, @payload
+            )
+        `);
+        this.insertSnapshotStmt = this.db.prepare(`
+            INSERT OR IGNORE INTO orderbook_snapshots (task_id, sequence, timestamp, trigger_type, data)
+            VALUES (@taskId, @sequence, @timestamp, @trigger, @data)
+        `);
+        // 事件推断的状态/时间只在没有 summary 时生效
+        this.touchTaskStmt = this.db.prepare(`
+            INSERT INTO task_logs (task_id, type, market_id, title, status, is_success, start_time, end_time, duration_ms)
+            VALUES (@taskId, @type, @marketId, @title, @status, @isSuccess, @timestamp, @timestamp, 0)
+            ON CONFLICT(task_id) DO UPDATE SET
+                type = COALESCE(task_logs.type, excluded.type),
+                market_id = COALESCE(task_logs.market_id, excluded.market_id),
+                title = COALESCE(task_logs.title, excluded.title),
+                status = CASE WHEN task_logs.has_summary = 1 THEN task_logs.status ELSE excluded.status END,
+                is_success = CASE WHEN task_logs.has_summary = 1 THEN task_logs.is_success ELSE excluded.is_success END,
+                start_time = CASE WHEN task_logs.has_summary = 1 THEN task_logs.start_time ELSE MIN(task_logs.start_time, excluded.start_time) END,
+                end_time = CASE WHEN task_logs.has_summary = 1 THEN task_logs.end_time ELSE MAX(task_logs.end_time, excluded.end_time) END,
+                duration_ms = CASE WHEN task_logs.has_summary = 1 THEN task_logs.duration_ms
+                    ELSE MAX(task_logs.end_time, excluded.end_time) - MIN(task_logs.start_time, excluded.start_time) END
+        `);
+        this.upsertSummaryStmt = this.db.prepare(`
+            INSERT INTO task_logs (
+                task_id, type, market_id, title, status, is_success, strategy, start_time, end_time, duration_ms,
+                predict_filled_qty, hedged_qty, actual_profit, profit_percent, unwind_loss, pause_count, hedge_retry_count,
+                has_summary, summary
+            ) VALUES (
+                @taskId, @type, @marketId, @title, @status, @isSuccess, @strategy, @startTime, @endTime, @durationMs,
+                @predictFilledQty, @hedgedQty, @actualProfit, @profitPercent, @unwindLoss, @pauseCount, @hedgeRetryCount,
+                1, @summary
+            )
+            ON CONFLICT(task_id) DO UPDATE SET
+                type = excluded.type,
+                market_id = excluded.market_id,
+                title = excluded.title,
+                status = excluded.status,
+                is_success = excluded.is_success,
+                strategy = excluded.strategy,
+                start_time = excluded.start_time,
+                end_time = excluded.end_time,
+                duration_ms = excluded.duration_ms,
+                predict_filled_qty = excluded.predict_filled_qty,
+                hedged_qty = excluded.hedged_qty,
+                actual_profit = excluded.actual_profit,
+                profit_percent = excluded.profit_percent,
+                unwind_loss = excluded.unwind_loss,
+                pause_count = excluded.pause_count,
+                hedge_retry_count = excluded.hedge_retry_count,
+                has_summary = 1,
+                summary = excluded.summary
+        `);
+    }
+
+    private initSchema(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS task_logs (
+                task_id TEXT PRIMARY KEY,
+                type TEXT,
+                market_id INTEGER,
+                title TEXT,
+                status TEXT NOT NULL,
+                is_success INTEGER NOT NULL DEFAULT 0,
+                strategy TEXT,
+                start_time INTEGER NOT NULL,
+                end_time INTEGER NOT NULL,
+                duration_ms INTEGER NOT NULL DEFAULT 0,
+                predict_filled_qty REAL DEFAULT 0,
+                hedged_qty REAL DEFAULT 0,
+                actual_profit REAL DEFAULT 0,
+                profit_percent REAL DEFAULT 0,
+                unwind_loss REAL DEFAULT 0,
+                pause_count INTEGER DEFAULT 0,
+                hedge_retry_count INTEGER DEFAULT 0,
+                has_summary INTEGER NOT NULL DEFAULT 0,
+                summary TEXT
+            )
+        `);
+
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS events (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                task_id TEXT NOT NULL,
+                sequence INTEGER NOT NULL,
+                timestamp INTEGER NOT NULL,
+                type TEXT NOT NULL,
+                priority TEXT,
+                executor_id TEXT,
+                attempt_id TEXT,
+                order_id TEXT,
+                order_hash TEXT,
+                payload TEXT,
+                UNIQUE(task_id, sequence)
+            )
+        `);
+
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS orderbook_snapshots (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                task_id TEXT NOT NULL,
+                sequence INTEGER NOT NULL,
+                timestamp INTEGER NOT NULL,
+                trigger_type TEXT NOT NULL,
+                data TEXT NOT NULL,
+                UNIQUE(task_id, sequence)
+            )
+        `);
+
+        this.db.exec(`
+            CREATE INDEX IF NOT EXISTS idx_task_logs_start ON task_logs(start_time);
+            CREATE INDEX IF NOT EXISTS idx_task_logs_status ON task_logs(status);
+            CREATE INDEX IF NOT EXISTS idx_events_type ON events(type);
+            CREATE INDEX IF NOT EXISTS idx_snapshots_timestamp ON orderbook_snapshots(timestamp);
+        `);
+    }
+
+    /**
+     * 供 LogQueryService 查询使用
+     */
+    getDatabase(): Database.Database {
+        return this.db;
+    }
+
+    isEmpty(): boolean {
+        return !this.db.prepare('SELECT 1 FROM task_logs LIMIT 1').get();
+    }
+
+    /**
+     * 批量写入事件和快照 (单事务)
+     */
+    writeBatch(events: TaskLogEvent[], snapshots: OrderBookSnapshot[]): void {
+        const tx = this.db.transaction(() => {
+            for (const event of events) {
+                this.insertEventStmt.run({
+                    taskId: event.taskId,
+                    sequence: event.sequence,
+                    timestamp: event.timestamp,
+                    type: event.type,
+                    priority: event.priority ?? null,
+                    executorId: event.executorId ?? null,
+                    attemptId: event.attemptId ?? null,
+                    orderId: event.orderId ?? null,
+                    orderHash: event.orderHash ?? null,
+                    payload: JSON.stringify(event.payload ?? {}),
+                });
+                this.touchTask(event);
+            }
+            for (const snapshot of snapshots) {
+                this.insertSnapshotStmt.run({
+                    taskId: snapshot.taskId,
+                    sequence: snapshot.sequence,
+                    timestamp: snapshot.timestamp,
+                    trigger: snapshot.trigger,
+                    data: JSON.stringify(snapshot),
+                });
+            }
+        });
+        tx();
+    }
+
+    /**
+     * 写入任务汇总 (覆盖事件推断的状态)
+     */
+    writeSummary(summary: TaskSummary): void {
+        this.upsertSummaryStmt.run({
+            taskId: summary.taskId,
+            type: summary.type,
+            marketId: summary.marketId,
+            title: summary.title,
+            status: summary.status,
+            isSuccess: summary.isSuccess ? 1 : 0,
+            strategy: summary.strategy ?? null,
+            startTime: summary.startTime,
+            endTime: summary.endTime,
+            durationMs: summary.durationMs,
+            predictFilledQty: summary.predictFilledQty ?? 0,
+            hedgedQty: summary.hedgedQty ?? 0,
+            actualProfit: summary.actualProfit ?? 0,
+            profitPercent: summary.profitPercent ?? 0,
+            unwindLoss: summary.unwindLoss ?? 0,
+            pauseCount: summary.pauseCount ?? 0,
+            hedgeRetryCount: summary.hedgeRetryCount ?? 0,
+            summary: JSON.stringify(summary),
+        });
+    }
+
+    /**
+     * 事件和快照共用的最大 sequence (用于重启后续号)
+     */
+    getMaxSequence(taskId: string): number {
+        const row = this.db.prepare(`
+            SELECT MAX(seq) AS maxSeq FROM (
+                SELECT MAX(sequence) AS seq FROM events WHERE task_id = ?
+                UNION ALL
+                SELECT MAX(sequence) AS seq FROM orderbook_snapshots WHERE task_id = ?
+            )
+        `).get(taskId, taskId) as { maxSeq: number | null };
+        return row.maxSeq ?? 0;
+    }
+
+    getEvents(taskId: string): TaskLogEvent[] {
+        const rows = this.db.prepare(`
+            SELECT task_id, sequence, timestamp, type, priority, executor_id, attempt_id, order_id, order_hash, payload
+            FROM events WHERE task_id = ? ORDER BY sequence
+        `).all(taskId) as any[];
+        return rows.map(row => ({
+            timestamp: row.timestamp,
+            taskId: row.task_id,
+            sequence: row.sequence,
+            logSchemaVersion: '',
+            executorId: row.executor_id ?? '',
+            attemptId: row.attempt_id ?? undefined,
+            orderId: row.order_id ?? undefined,
+            orderHash: row.order_hash ?? undefined,
+            priority: row.priority,
+            type: row.type,
+            payload: row.payload ? JSON.parse(row.payload) : {},
+        } as TaskLogEvent));
+    }
+
+    countSnapshots(taskId: string): number {
+        const row = this.db.prepare('SELECT COUNT(*) AS n FROM orderbook_snapshots WHERE task_id = ?').get(taskId) as { n: number };
+        return row.n;
+    }
+
+    /**
+     * 清理过期快照 (事件和汇总长期保留，快照体积大按保留天数清理)
+     */
+    pruneSnapshots(cutoffTime: number): number {
+        return this.db.prepare('DELETE FROM orderbook_snapshots WHERE timestamp < ?').run(cutoffTime).changes;
+    }
+
+    /**
+     * 从 JSONL 任务目录导入 (升级时回填存量日志)
+     */
+    importTaskDir(taskId: string, taskDir: string): void {
+        const events = readJsonlFile<TaskLogEvent>(path.join(taskDir, 'events.jsonl'))
+            .map(e => ({ ...e, taskId }));
+        const snapshots = readJsonlFile<OrderBookSnapshot>(path.join(taskDir, 'orderbooks.jsonl'))
+            .map(s => ({ ...s, taskId }));
+        this.writeBatch(events, snapshots);
+
+        const summaryPath = path.join(taskDir, 'summary.json');
+        if (fs.existsSync(summaryPath)) {
+            try {
+                this.writeSummary(JSON.parse(fs.readFileSync(summaryPath, 'utf-8')) as TaskSummary);
+            } catch {
+                // 忽略损坏的 summary
+            }
+        }
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    private touchTask(event: TaskLogEvent): void {
+        const taskConfig = (event.payload as { taskConfig?: TaskConfigLike } | undefined)?.taskConfig;
+        this.touchTaskStmt.run({
+            taskId: event.taskId,
+            type: taskConfig?.type ?? null,
+            marketId: taskConfig?.marketId ?? null,
+            title: taskConfig?.title ?? null,
+            status: event.type.replace('TASK_', ''),
+            isSuccess: event.type === 'TASK_COMPLETED' ? 1 : 0,
+            timestamp: event.timestamp,
+        });
+    }
+}
+
+function readJsonlFile<T>(filePath: string): T[] {
+    if (!fs.existsSync(filePath)) return [];
+
+    const results: T[] = [];
+    for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            results.push(JSON.parse(line));
+        } catch {
+            // 忽略解析失败的行 (半行容错)
+        }
+    }
+    return results;
+}
@@ -3,7 +3,8 @@
  *
  * 功能：
  * - 异步队列 + 批量 flush
- * - JSONL 追加写入
+ * - SQLite 事务写入 (主存储，供日志查询 API 使用)
+ * - JSONL 追加写入 (可选副存储)
  * - 订单簿快照
  * - 7天日志清理
  * - 退出时 flush
@@ -49,6 +50,7 @@ import {
     TaskCancelReason,
 } from './types.js';
 import { TaskStatus } from '../types.js';
+import { TaskLogSqliteSink } from './sqlite-sink.js';
 
 // ============================================================================
 // 队列项类型
@@ -59,6 +61,7 @@ interface QueueItem {
     taskId: string;
     data: TaskLogEvent | OrderBookSnapshot;
     priority: EventPriority;
+    jsonlOnly?: boolean;    // SQLite 已写入，仅需重试 JSONL 追加
 }
 
 // ============================================================================
@@ -98,6 +101,7 @@ export function formatReasonLabel(reason: string | undefined, type: 'costGuard'
 export class TaskLogger extends EventEmitter {
     private config: TaskLoggerConfig;
     private baseDir: string;
+    private sqliteSink: TaskLogSqliteSink;
 
     // 序号管理
     private sequenceMap: Map<string, number> = new Map();
@@ -128,6 +132,13 @@ export class TaskLogger extends EventEmitter {
         // 确保基础目录存在
         this.ensureDir(this.baseDir);
 
+        // SQLite 主存储 (首次启用时回填已有 JSONL 日志)
+        const sqlitePath = path.resolve(this.config.sqlite.path ?? path.join(path.dirname(this.baseDir), 'task-logs.db'));
+        this.sqliteSink = new TaskLogSqliteSink(sqlitePath);
+        if (this.sqliteSink.isEmpty()) {
+            this.backfillFromJsonl();
+        }
+
         // 启动定时 flush
         if (this.config.asyncQueue) {
             this.startFlushTimer();
@@ -151,6 +162,14 @@ export class TaskLogger extends EventEmitter {
 
         return {
             baseDir: overrides.baseDir ?? defaults.baseDir,
+            sqlite: {
+                ...defaults.sqlite,
+                ...overrides.sqlite,
+            },
+            jsonl: {
+                ...defaults.jsonl,
+                ...overrides.jsonl,
+            },
             asyncQueue: overrides.asyncQueue ?? defaults.asyncQueue,
             queue: {
                 ...defaults.queue,
@@ -507,32 +526,14 @@ export class TaskLogger extends EventEmitter {
      * 只在首次调用时设置 sequence=0，后续调用不会重置
      */
     async initTaskLogDir(taskId: string): Promise<void> {
-        const taskDir = path.join(this.baseDir, taskId);
-        this.ensureDir(taskDir);
+        if (this.config.jsonl.enabled) {
+            this.ensureDir(path.join(this.baseDir, taskId));
+        }
 
         // 幂等：只在首次调用时初始化 sequence
         if (!this.sequenceMap.has(taskId)) {
-            // 检查是否有已存在的日志文件，恢复 sequence
-            const eventsPath = path.join(taskDir, 'events.jsonl');
-            const snapshotsPath = path.join(taskDir, 'orderbooks.jsonl');
-
-            let maxSequence = 0;
-
-            // 从已有日志中恢复最大 sequence
-            if (fs.existsSync(eventsPath)) {
-                const events = await this.readJsonl<{ sequence: number }>(eventsPath);
-                for (const e of events) {
-                    if (e.sequence > maxSequence) maxSequence = e.sequence;
-                }
-            }
-            if (fs.existsSync(snapshotsPath)) {
-                const snapshots = await this.readJsonl<{ sequence: number }>(snapshotsPath);
-                for (const s of snapshots) {
-                    if (s.sequence > maxSequence) maxSequence = s.sequence;
-                }
-            }
-
-            this.sequenceMap.set(taskId, maxSequence);
+            // 从已有日志中恢复最大 sequence (事件和快照共用序号)
+            this.sequenceMap.set(taskId, this.sqliteSink.getMaxSequence(taskId));
         }
     }
 
@@ -561,13 +562,9 @@ export class TaskLogger extends EventEmitter {
         // 先 flush 确保所有事件已写入
         await this.flush();
 
-        const taskDir = path.join(this.baseDir, taskId);
-        const eventsPath = path.join(taskDir, 'events.jsonl');
-        const snapshotsPath = path.join(taskDir, 'orderbooks.jsonl');
-
         // 读取事件
-        const events = await this.readJsonl<TaskLogEvent>(eventsPath);
-        const snapshots = await this.readJsonl<OrderBookSnapshot>(snapshotsPath);
+        const events = this.sqliteSink.getEvents(taskId);
+        const totalSnapshots = this.sqliteSink.countSnapshots(taskId);
 
         // 统计事件类型
         const eventCounts: Record<string, number> = {};
@@ -613,7 +610,7 @@ export class TaskLogger extends EventEmitter {
             orderTimeoutCount,
 
             totalEvents: events.length,
-            totalSnapshots: snapshots.length,
+            totalSnapshots,
             eventCounts,
             startTime: task.createdAt,
             endTime,
@@ -631,8 +628,20 @@ export class TaskLogger extends EventEmitter {
             generatedAt: Date.now(),
         };
 
-        const summaryPath = path.join(taskDir, 'summary.json');
-        fs.writeFileSync(summaryPath, JSON.stringify(summary, null, 2));
+        this.sqliteSink.writeSummary(summary);
+
+        if (this.config.jsonl.enabled) {
+            const taskDir = path.join(this.baseDir, taskId);
+            this.ensureDir(taskDir);
+            fs.writeFileSync(path.join(taskDir, 'summary.json'), JSON.stringify(summary, null, 2));
+        }
+    }
+
+    /**
+     * SQLite 存储 (供 LogQueryService 查询)
+     */
+    getSqliteSink(): TaskLogSqliteSink {
+        return this.sqliteSink;
     }
 
     // ========================================================================
@@ -640,13 +649,19 @@ export class TaskLogger extends EventEmitter {
     // ========================================================================
 
     /**
-     * 清理过期日志
+     * 清理过期日志 (JSONL 目录 + SQLite 订单簿快照)
      */
     async cleanupOldLogs(): Promise<{ deleted: string[]; errors: string[] }> {
         const deleted: string[] = [];
         const errors: string[] = [];
         const cutoffTime = Date.now() - this.config.retention.days * 24 * 60 * 60 * 1000;
 
+        try {
+            this.sqliteSink.pruneSnapshots(cutoffTime);
+        } catch (error) {
+            errors.push(`SQLite cleanup error: ${(error as Error).message}`);
+        }
+
         try {
             const taskDirs = fs.readdirSync(this.baseDir);
 
@@ -707,6 +722,12 @@ export class TaskLogger extends EventEmitter {
         // 最终 flush
         await this.flush();
 
+        try {
+            this.sqliteSink.close();
+        } catch (error) {
+            console.error('[TaskLogger] SQLite close error:', error);
+        }
+
         console.log('[TaskLogger] Closed');
     }
 
@@ -1028,6 +1049,9 @@ export class TaskLogger extends EventEmitter {
 
     /**
      * 批量写入队列中的数据 (异步非阻塞)
+     *
+     * SQLite 写入失败时整批重新入队 (重复 sequence 忽略，重试幂等)；
+     * JSONL 按文件追加，只有失败的文件对应的项重新入队并标记 jsonlOnly，避免重复追加已写入的行
      */
     async flush(): Promise<void> {
         if (this.isFlushing || this.queue.length === 0) return;
@@ -1037,50 +1061,54 @@ export class TaskLogger extends EventEmitter {
         this.queue = [];
 
         try {
-            // 按 taskId 分组
-            const grouped = new Map<string, { events: TaskLogEvent[]; snapshots: OrderBookSnapshot[] }>();
-
-            for (const item of items) {
-                if (!grouped.has(item.taskId)) {
-                    grouped.set(item.taskId, { events: [], snapshots: [] });
-                }
-                const g = grouped.get(item.taskId)!;
+            // 脱敏
+            const sanitized = items.map(item => ({ item, data: this.sanitize(item.data) }));
 
-                if (item.type === 'event') {
-                    g.events.push(item.data as TaskLogEvent);
-                } else {
-                    g.snapshots.push(item.data as OrderBookSnapshot);
-                }
+            // SQLite 事务写入 (主存储；重复 sequence 忽略，失败重试幂等)
+            const pending = sanitized.filter(s => !s.item.jsonlOnly);
+            try {
+                this.sqliteSink.writeBatch(
+                    pending.filter(s => s.item.type === 'event').map(s => s.data as TaskLogEvent),
+                    pending.filter(s => s.item.type === 'snapshot').map(s => s.data as OrderBookSnapshot)
+                );
+            } catch (error) {
+                console.error('[TaskLogger] Flush error (sqlite):', error);
+                this.queue = [...items, ...this.queue];
+                return;
             }
 
-            // 异步并行写入文件
-            const writePromises: Promise<void>[] = [];
+            if (!this.config.jsonl.enabled) return;
 
-            for (const [taskId, data] of grouped) {
-                const taskDir = path.join(this.baseDir, taskId);
-                await this.ensureDirAsync(taskDir);
-
-                // 写入事件 (异步)
-                if (data.events.length > 0) {
-                    const eventsPath = path.join(taskDir, 'events.jsonl');
-                    const lines = data.events.map(e => JSON.stringify(this.sanitize(e))).join('\n') + '\n';
-                    writePromises.push(fsPromises.appendFile(eventsPath, lines, 'utf-8'));
+            // JSONL 副存储: 按 taskId + 文件分组，异步并行追加
+            const files = new Map<string, { taskId: string; items: QueueItem[]; lines: string[] }>();
+            for (const { item, data } of sanitized) {
+                const fileName = item.type === 'event' ? 'events.jsonl' : 'orderbooks.jsonl';
+                const key = `${item.taskId}/${fileName}`;
+                if (!files.has(key)) {
+                    files.set(key, { taskId: item.taskId, items: [], lines: [] });
                 }
+                const file = files.get(key)!;
+                file.items.push(item);
+                file.lines.push(JSON.stringify(data));
+            }
+
+            const results = await Promise.allSettled(Array.from(files, async ([key, file]) => {
+                await this.ensureDirAsync(path.join(this.baseDir, file.taskId));
+                await fsPromises.appendFile(path.join(this.baseDir, key), file.lines.join('\n') + '\n', 'utf-8');
+            }));
 
-                // 写入快照 (异步)
-                if (data.snapshots.length > 0) {
-                    const snapshotsPath = path.join(taskDir, 'orderbooks.jsonl');
-                    const lines = data.snapshots.map(s => JSON.stringify(this.sanitize(s))).join('\n') + '\n';
-                    writePromises.push(fsPromises.appendFile(snapshotsPath, lines, 'utf-8'));
+            // 只重试失败的文件 (SQLite 已写入)
+            const failed: QueueItem[] = [];
+            const fileList = Array.from(files.values());
+            results.forEach((result, i) => {
+                if (result.status === 'rejected') {
+                    console.error('[TaskLogger] Flush error (jsonl):', result.reason);
+                    failed.push(...fileList[i].items.map(item => ({ ...item, jsonlOnly: true })));
                 }
+            });
+            if (failed.length > 0) {
+                this.queue = [...failed, ...this.queue];
             }
-
-            // 等待所有写入完成
-            await Promise.all(writePromises);
-        } catch (error) {
-            console.error('[TaskLogger] Flush error:', error);
-            // 恢复未写入的项目
-            this.queue = [...items, ...this.queue];
         } finally {
             this.isFlushing = false;
         }
@@ -1173,22 +1201,27 @@ export class TaskLogger extends EventEmitter {
         return undefined;
     }
 
-    private async readJsonl<T>(filePath: string): Promise<T[]> {
-        if (!fs.existsSync(filePath)) return [];
-
-        const content = fs.readFileSync(filePath, 'utf-8');
-        const lines = content.trim().split('\n').filter(l => l.trim());
-        const results: T[] = [];
+    /**
+     * 回填已有 JSONL 任务目录到 SQLite (首次启用 SQLite 时执行一次)
+     */
+    private backfillFromJsonl(): void {
+        if (!fs.existsSync(this.baseDir)) return;
 
-        for (const line of lines) {
+        let imported = 0;
+        for (const taskId of fs.readdirSync(this.baseDir)) {
+            const taskDir = path.join(this.baseDir, taskId);
             try {
-                results.push(JSON.parse(line));
-            } catch {
-                // 忽略解析失败的行 (半行容错)
+                if (!fs.statSync(taskDir).isDirectory()) continue;
+                this.sqliteSink.importTaskDir(taskId, taskDir);
+                imported++;
+            } catch (error) {
+                console.error(`[TaskLogger] Backfill error for ${taskId}:`, error);
             }
         }
 
-        return results;
+        if (imported > 0) {
+            console.log(`[TaskLogger] Backfilled ${imported} task logs from JSONL into SQLite`);
+        }
     }
 
     private registerExitHandlers(): void {
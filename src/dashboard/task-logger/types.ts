@@ -572,6 +572,7 @@ export interface TaskConfigSnapshot {
     strategy?: 'MAKER' | 'TAKER';
     predictAskPrice?: number;      // Taker: 下单时的 ask 价格
     maxTotalCost?: number;         // Taker: 最大总成本阈值
+    simulated?: boolean;           // 模拟交易任务
 }
 
 // ============================================================================
@@ -637,9 +638,21 @@ export interface TaskSummary {
 // ============================================================================
 
 export interface TaskLoggerConfig {
-    /** 基础目录 */
+    /** 基础目录 (JSONL 任务目录) */
     baseDir: string;
 
+    /** SQLite 主存储 (事件/快照/汇总) */
+    sqlite: {
+        /** 数据库路径，默认 baseDir 上级目录下的 task-logs.db */
+        path?: string;
+    };
+
+    /** JSONL 副存储 */
+    jsonl: {
+        /** 是否同时写入 events.jsonl / orderbooks.jsonl / summary.json */
+        enabled: boolean;
+    };
+
     /** 是否启用异步队列 */
     asyncQueue: boolean;
 
@@ -689,6 +702,10 @@ export interface TaskLoggerConfig {
 /** 默认配置 */
 export const DEFAULT_LOGGER_CONFIG: TaskLoggerConfig = {
     baseDir: './data/logs/tasks',
+    sqlite: {},
+    jsonl: {
+        enabled: true,
+    },
     asyncQueue: true,
     queue: {
         maxSize: 1000,
@@ -1,13 +1,15 @@
-import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import { fileURLToPath } from 'url';
-import { Task, TaskStatus, CreateTaskInput, TaskFilter } from './types.js';
+import { Task, TaskStatus, CreateTaskInput, TaskFilter, TaskQuery, TaskPage, TaskStatusTransition } from './types.js';
+import { TaskStore } from './task-store.js';
 import { EventEmitter } from 'events';
 import { getTaskLogger, TaskLogger, TaskConfigSnapshot } from './task-logger/index.js';
 import { calculatePredictFee } from '../trading/depth-calculator.js';
 import { getPolymarketSlug } from './url-mapper.js';
+import { isPaperTradingEnabled } from './paper-trading/index.js';
+import { getRiskManager, getTaskRiskIntent } from '../services/risk-manager/index.js';
 
 // predict-slugs.json 缓存类型
 interface PredictSlugEntry {
@@ -16,6 +18,10 @@ interface PredictSlugEntry {
 }
 type PredictSlugsCache = Record<string, PredictSlugEntry>;
 
+// 内存中保留的最近终态任务数 (更早的历史通过 queryTasks 读取)
+// HEDGE_FAILED 任务及其市场上的 SELL 任务常驻内存，风控按其计算残余敞口
+const RECENT_TERMINAL_TASK_LIMIT = 200;
+
 // 加载 predict-slugs.json 缓存
 let predictSlugsCache: PredictSlugsCache = {};
 try {
@@ -36,66 +42,92 @@ try {
  *
  * 功能:
  * - CRUD 操作
- * - JSON 文件持久化 (原子写入)
+ * - SQLite 持久化 (TaskStore)，内存仅缓存活跃任务 + 最近终态任务
+ * - 历史任务分页查询 + 状态迁移记录
  * - 幂等 ID 生成
  * - 并发锁 (每个 market 只能有一个活跃任务)
  */
 export class TaskService extends EventEmitter {
     private tasks: Map<string, Task> = new Map();
     // 锁 key 格式: "marketId:type" (如 "123:BUY", "123:SELL")
-    // 同一市场的 BUY 和 SELL 任务可以共存
+    // 同一市场的 BUY 和 SELL 任务可以共存；篮子任务为 "basket:eventKey:side"
     private marketLocks: Map<string, string> = new Map();
-    private persistPath: string;
-    private writeQueue: Promise<void> = Promise.resolve();
+    private dbPath: string;
+    private legacyJsonPath: string;
+    private store: TaskStore | null = null;
     private loaded: boolean = false;
     private taskLogger: TaskLogger;
+    // 执行账号 → Predict 智能钱包地址 (手续费返点等级)，由启动入口注入
+    private predictAccountResolver: ((accountId?: string) => string | undefined) | null = null;
 
+    /**
+     * @param persistPath - SQLite 路径 (默认 data/tasks.db)；传入旧版 .json 路径时
+     *                      自动改用同名 .db，并以该 .json 作为迁移来源
+     */
     constructor(persistPath?: string) {
         super();
-        this.persistPath = persistPath || path.join(process.cwd(), 'data', 'tasks.json');
+        const target = persistPath || path.join(process.cwd(), 'data', 'tasks.db');
+        if (target.endsWith('.json')) {
+            this.legacyJsonPath = target;
+            this.dbPath = target.slice(0, -'.json'.length) + '.db';
+        } else {
+            this.dbPath = target;
+            this.legacyJsonPath = path.join(path.dirname(target), 'tasks.json');
+        }
         this.taskLogger = getTaskLogger();
     }
 
     /**
-     * 初始化: 从文件加载任务
+     * 注入执行账号的 Predict 地址解析 (TAKER 任务按账号返点等级推导 polymarketMaxAsk)
+     */
+    setPredictAccountResolver(resolver: (accountId?: string) => string | undefined): void {
+        this.predictAccountResolver = resolver;
+    }
+
+    /**
+     * 初始化: 打开 SQLite，必要时迁移 tasks.json，加载工作集
      */
     async init(): Promise<void> {
         if (this.loaded) return;
 
         try {
-            // 确保目录存在
-            const dir = path.dirname(this.persistPath);
-            await fs.mkdir(dir, { recursive: true });
-
-            // 尝试加载
-            const data = await fs.readFile(this.persistPath, 'utf-8');
-            const entries: [string, Task][] = JSON.parse(data);
+            this.store = new TaskStore(this.dbPath);
+            this.store.migrateFromJson(this.legacyJsonPath, status => this.isTerminalStatus(status));
 
             // 兼容存量任务：为旧任务添加 strategy 默认值
-            this.tasks = new Map(entries.map(([id, task]) => [
-                id,
+            const tasks = this.store.loadWorkingSet(RECENT_TERMINAL_TASK_LIMIT);
+            this.tasks = new Map(tasks.map(task => [
+                task.id,
                 { ...task, strategy: task.strategy ?? 'MAKER' } as Task
             ]));
 
             // 重建 market locks (key 格式: "marketId:type:arbSide")
             for (const [id, task] of this.tasks) {
                 if (this.isActiveStatus(task.status)) {
-                    this.marketLocks.set(this.getLockKey(task.marketId, task.type, task.arbSide), id);
+                    this.marketLocks.set(this.getTaskLockKey(task), id);
                 }
             }
 
-            console.log(`[TaskService] Loaded ${this.tasks.size} tasks`);
+            console.log(`[TaskService] Loaded ${this.tasks.size} tasks (total in store: ${this.store.count()})`);
         } catch (e: any) {
-            if (e.code === 'ENOENT') {
-                console.log('[TaskService] No existing tasks file, starting fresh');
-            } else {
-                console.error('[TaskService] Failed to load tasks:', e.message);
-            }
+            // 以空任务集启动会丢失活跃任务的锁与恢复，直接失败
+            console.error('[TaskService] Failed to load tasks:', e.message);
+            this.store?.close();
+            this.store = null;
+            throw e;
         }
 
         this.loaded = true;
     }
 
+    /**
+     * 关闭 SQLite 连接
+     */
+    close(): void {
+        this.store?.close();
+        this.store = null;
+    }
+
     /**
      * 创建任务
      */
@@ -113,8 +145,13 @@ export class TaskService extends EventEmitter {
             throw new Error('SELL task requires valid entryCost (original position cost) for profit calculation');
         }
 
+        // 0a'. 篮子任务: 各腿价格在 basket 中，执行前由 BasketExecutor 重新核算
+        if (input.basket) {
+            this.validateBasketSpec(input);
+        }
+
         // 0b. TAKER 模式必填字段验证
-        if (strategy === 'TAKER') {
+        if (strategy === 'TAKER' && !input.basket) {
             if (input.type === 'BUY') {
                 // TAKER + BUY: 开仓吃单，需要 ask 价格和最大成本
                 if (input.predictAskPrice === undefined || input.predictAskPrice <= 0) {
@@ -142,7 +179,10 @@ export class TaskService extends EventEmitter {
         let polymarketMaxAsk = input.polymarketMaxAsk;
         const feeRateBps = input.feeRateBps ?? 200;  // 默认 2%
         if (strategy === 'TAKER' && input.predictAskPrice && input.maxTotalCost) {
-            const fee = calculatePredictFee(input.predictAskPrice, feeRateBps);
+            const fee = calculatePredictFee(input.predictAskPrice, feeRateBps, {
+                marketId: input.marketId,
+                account: this.predictAccountResolver?.(input.accountId),
+            });
             polymarketMaxAsk = input.maxTotalCost - input.predictAskPrice - fee;
 
             if (polymarketMaxAsk <= 0) {
@@ -157,16 +197,19 @@ export class TaskService extends EventEmitter {
         const id = this.generateIdempotentId(input);
 
         // 2. 检查重复
-        if (this.tasks.has(id)) {
+        if (this.tasks.has(id) || this.store?.get(id)) {
             throw new Error(`Task ${id} already exists`);
         }
 
         // 3. 检查并发锁 (按 marketId:type:arbSide 锁定，同一市场不同方向可共存)
-        const lockKey = this.getLockKey(input.marketId, input.type, input.arbSide);
+        const lockKey = this.getTaskLockKey(input);
         const existingTaskId = this.marketLocks.get(lockKey);
         if (existingTaskId) {
             const existingTask = this.tasks.get(existingTaskId);
             if (existingTask && this.isActiveStatus(existingTask.status)) {
+                if (input.basket) {
+                    throw new Error(`Basket ${input.basket.eventKey}:${input.basket.side} has active task: ${existingTaskId}`);
+                }
                 throw new Error(`Market ${input.marketId} has active ${input.type}:${input.arbSide} task: ${existingTaskId}`);
             }
         }
@@ -194,7 +237,7 @@ export class TaskService extends EventEmitter {
             tickSize: input.tickSize,
             negRisk: input.negRisk,
             // Maker 用 predictPrice; Taker BUY 用 predictAskPrice; Taker SELL 用 predictPrice (bid)
-            predictPrice: (strategy === 'TAKER' && input.type === 'BUY')
+            predictPrice: (strategy === 'TAKER' && input.type === 'BUY' && !input.basket)
                 ? input.predictAskPrice!
                 : input.predictPrice,
             polymarketMaxAsk,  // 使用计算后的值
@@ -228,12 +271,27 @@ export class TaskService extends EventEmitter {
                 : undefined,
             // 体育市场标识 (使用 REST API 获取订单簿)
             isSportsMarket: input.isSportsMarket,
+            // 模拟交易模式下创建的任务只能在模拟模式下执行
+            simulated: isPaperTradingEnabled() ? true : undefined,
+            quoteSlot: input.quoteSlot,
+            accountId: input.accountId,
+            basket: input.basket,
         };
 
+        // 4b. 账户级风控检查
+        const riskManager = getRiskManager();
+        if (riskManager) {
+            const riskCheck = riskManager.check(getTaskRiskIntent(task));
+            if (!riskCheck.allowed) {
+                throw new Error(`Risk limit: ${riskCheck.reason}`);
+            }
+        }
+
         // 5. 保存
         this.tasks.set(id, task);
         this.marketLocks.set(lockKey, id);
-        this.persistAsync();
+        this.persist(task);
+        this.recordTransition(id, null, task.status, now);
 
         // 6. 初始化日志目录并记录 TASK_CREATED
         this.taskLogger.initTaskLogDir(id).then(() => {
@@ -255,11 +313,13 @@ export class TaskService extends EventEmitter {
      * 获取单个任务
      */
     getTask(id: string): Task | null {
-        return this.tasks.get(id) || null;
+        return this.tasks.get(id) || this.store?.get(id) || null;
     }
 
     /**
-     * 获取任务列表
+     * 获取任务列表 (内存工作集: 活跃任务 + 最近终态任务 + HEDGE_FAILED 相关任务)
+     *
+     * 更早的终态任务已移出内存；需要完整历史的调用方 (结算 / 盈亏统计) 必须用 queryTasks 从任务库读取
      */
     getTasks(filter?: TaskFilter): Task[] {
         let tasks = Array.from(this.tasks.values());
@@ -283,11 +343,28 @@ export class TaskService extends EventEmitter {
         return tasks.sort((a, b) => b.createdAt - a.createdAt);
     }
 
+    /**
+     * 分页查询全部任务 (含已移出内存的历史任务)
+     */
+    queryTasks(query: TaskQuery): TaskPage {
+        if (!this.store) {
+            throw new Error('TaskService not initialized');
+        }
+        return this.store.query(query);
+    }
+
+    /**
+     * 获取任务状态迁移记录
+     */
+    getTaskTransitions(id: string): TaskStatusTransition[] {
+        return this.store?.getTransitions(id) ?? [];
+    }
+
     /**
      * 更新任务
      */
     updateTask(id: string, update: Partial<Task>): Task {
-        const task = this.tasks.get(id);
+        const task = this.getTask(id);
         if (!task) {
             throw new Error(`Task ${id} not found`);
         }
@@ -299,11 +376,15 @@ export class TaskService extends EventEmitter {
         };
 
         this.tasks.set(id, updated);
-        this.persistAsync();
+        this.persist(updated);
+        if (updated.status !== task.status) {
+            this.recordTransition(id, task.status, updated.status, updated.updatedAt);
+        }
 
         // 如果状态变为终态，释放锁
         if (this.isTerminalStatus(updated.status) && !this.isTerminalStatus(task.status)) {
-            this.releaseLock(task.marketId, id, task.type, task.arbSide);
+            this.releaseLock(this.getTaskLockKey(task), id);
+            this.evictOldTerminalTasks();
         }
 
         // 发送事件
@@ -317,7 +398,7 @@ export class TaskService extends EventEmitter {
      * @param expiresAt - 过期时间戳，undefined 表示清除定时
      */
     updateTaskExpiry(id: string, expiresAt: number | undefined): Task {
-        const task = this.tasks.get(id);
+        const task = this.getTask(id);
         if (!task) {
             throw new Error(`Task ${id} not found`);
         }
@@ -330,7 +411,7 @@ export class TaskService extends EventEmitter {
         };
 
         this.tasks.set(id, updated);
-        this.persistAsync();
+        this.persist(updated);
 
         // 发送事件
         this.emit('task:updated', updated);
@@ -342,7 +423,7 @@ export class TaskService extends EventEmitter {
      * 取消任务
      */
     cancelTask(id: string): Task {
-        const task = this.tasks.get(id);
+        const task = this.getTask(id);
         if (!task) {
             throw new Error(`Task ${id} not found`);
         }
@@ -358,7 +439,7 @@ export class TaskService extends EventEmitter {
      * 删除任务 (仅限终态任务)
      */
     deleteTask(id: string): boolean {
-        const task = this.tasks.get(id);
+        const task = this.getTask(id);
         if (!task) {
             return false;
         }
@@ -368,7 +449,11 @@ export class TaskService extends EventEmitter {
         }
 
         this.tasks.delete(id);
-        this.persistAsync();
+        try {
+            this.store?.delete(id);
+        } catch (e) {
+            console.error('[TaskService] Failed to delete task from store:', e);
+        }
 
         this.emit('task:deleted', id);
         return true;
@@ -431,6 +516,27 @@ export class TaskService extends EventEmitter {
     // 私有方法
     // ============================================================
 
+    /**
+     * 篮子任务配置校验 (至少 2 腿、每腿限价有效、成本上限小于兑付)
+     */
+    private validateBasketSpec(input: CreateTaskInput): void {
+        const basket = input.basket!;
+        if (input.type !== 'BUY') {
+            throw new Error('Basket task must be BUY');
+        }
+        if (!Array.isArray(basket.legs) || basket.legs.length < 2) {
+            throw new Error('Basket task requires at least 2 legs');
+        }
+        for (const leg of basket.legs) {
+            if (!(leg.limitPrice > 0 && leg.limitPrice < 1)) {
+                throw new Error(`Basket leg ${leg.outcome?.name ?? '?'} has invalid limitPrice: ${leg.limitPrice}`);
+            }
+        }
+        if (!(basket.maxUnitCost > 0) || basket.maxUnitCost >= basket.payout) {
+            throw new Error(`Basket maxUnitCost ${basket.maxUnitCost} must be below payout ${basket.payout}`);
+        }
+    }
+
     /**
      * 幂等 ID 生成
      */
@@ -451,21 +557,33 @@ export class TaskService extends EventEmitter {
      * 生成锁 key
      * 格式: "marketId:type:arbSide" (如 "3438:BUY:YES", "3438:BUY:NO")
      * 这样同一市场的不同 arbSide 任务可以共存（体育市场需要这个）
+     * 带 quoteSlot 的任务追加槽位后缀 (如 "3438:BUY:YES:anchor")，与普通任务互不占锁
      */
-    private getLockKey(marketId: number, type: 'BUY' | 'SELL', arbSide?: 'YES' | 'NO'): string {
+    private getLockKey(marketId: number, type: 'BUY' | 'SELL', arbSide?: 'YES' | 'NO', quoteSlot?: string): string {
+        const slotSuffix = quoteSlot ? `:${quoteSlot}` : '';
         // 新格式包含 arbSide，支持同一市场不同方向的任务共存
         if (arbSide) {
-            return `${marketId}:${type}:${arbSide}`;
+            return `${marketId}:${type}:${arbSide}${slotSuffix}`;
         }
         // 兼容旧格式（无 arbSide）
-        return `${marketId}:${type}`;
+        return `${marketId}:${type}${slotSuffix}`;
+    }
+
+    /**
+     * 任务的锁 key
+     * 篮子任务按事件 + 方向锁定 ("basket:<eventKey>:YES")，不占用首腿市场的二元任务锁
+     */
+    private getTaskLockKey(task: Pick<CreateTaskInput, 'marketId' | 'type' | 'arbSide' | 'quoteSlot' | 'basket'>): string {
+        if (task.basket) {
+            return `basket:${task.basket.eventKey}:${task.basket.side}`;
+        }
+        return this.getLockKey(task.marketId, task.type, task.arbSide, task.quoteSlot);
     }
 
     /**
-     * 释放 market 锁
+     * 释放锁
      */
-    private releaseLock(marketId: number, taskId: string, type: 'BUY' | 'SELL', arbSide?: 'YES' | 'NO'): void {
-        const lockKey = this.getLockKey(marketId, type, arbSide);
+    private releaseLock(lockKey: string, taskId: string): void {
         const lockedBy = this.marketLocks.get(lockKey);
         if (lockedBy === taskId) {
             this.marketLocks.delete(lockKey);
@@ -514,20 +632,47 @@ export class TaskService extends EventEmitter {
     }
 
     /**
-     * 异步持久化 (原子写入)
+     * 持久化单个任务 (SQLite upsert，同步写入)
      */
-    private persistAsync(): void {
-        this.writeQueue = this.writeQueue.then(async () => {
-            try {
-                const tempPath = this.persistPath + '.tmp';
-                const data = JSON.stringify(Array.from(this.tasks.entries()), null, 2);
-
-                await fs.writeFile(tempPath, data, 'utf-8');
-                await fs.rename(tempPath, this.persistPath);
-            } catch (e) {
-                console.error('[TaskService] Failed to persist:', e);
-            }
-        });
+    private persist(task: Task): void {
+        if (!this.store) return;
+        try {
+            this.store.upsert(task, this.isTerminalStatus(task.status));
+        } catch (e) {
+            console.error('[TaskService] Failed to persist:', e);
+        }
+    }
+
+    /**
+     * 记录状态迁移
+     */
+    private recordTransition(id: string, fromStatus: TaskStatus | null, toStatus: TaskStatus, at: number): void {
+        if (!this.store) return;
+        try {
+            this.store.recordTransition(id, fromStatus, toStatus, at);
+        } catch (e) {
+            console.error('[TaskService] Failed to record transition:', e);
+        }
+    }
+
+    /**
+     * 内存中终态任务超过上限时，移除最早更新的 (数据仍在 SQLite 中)
+     * HEDGE_FAILED 任务及其市场上的 SELL 任务不移出 (风控残余敞口需要)
+     */
+    private evictOldTerminalTasks(): void {
+        const all = Array.from(this.tasks.values());
+        const hedgeFailedMarkets = new Set(all.filter(t => t.status === 'HEDGE_FAILED').map(t => t.marketId));
+        const terminal = all.filter(t =>
+            this.isTerminalStatus(t.status)
+            && t.status !== 'HEDGE_FAILED'
+            && !(t.type === 'SELL' && hedgeFailedMarkets.has(t.marketId))
+        );
+        if (terminal.length <= RECENT_TERMINAL_TASK_LIMIT) return;
+
+        terminal
+            .sort((a, b) => a.updatedAt - b.updatedAt)
+            .slice(0, terminal.length - RECENT_TERMINAL_TASK_LIMIT)
+            .forEach(t => this.tasks.delete(t.id));
     }
 
     /**
@@ -553,6 +698,7 @@ export class TaskService extends EventEmitter {
             strategy: task.strategy,           // 策略类型
             predictAskPrice: task.predictAskPrice,  // Taker 专用
             maxTotalCost: task.maxTotalCost,        // Taker 专用
+            simulated: task.simulated,
         };
     }
 }
@@ -568,7 +714,7 @@ export function getTaskService(): TaskService {
 }
 
 /**
- * 初始化 TaskService (支持自定义路径，用于多账号隔离)
+ * 初始化 TaskService (支持自定义 SQLite 路径，用于多账号隔离)
  */
 export function initTaskService(persistPath?: string): TaskService {
     if (instance) {
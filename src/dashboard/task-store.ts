@@ -0,0 +1,296 @@
+/**
+ * TaskStore - 任务 SQLite 存储
+ *
+ * 替代 tasks.json 全量重写:
+ * - tasks 表: 常用筛选列 + data (完整 Task JSON)
+ * - task_status_transitions 表: 状态迁移记录
+ * - 支持按状态/市场/时间范围分页查询
+ * - 首次启动时从 tasks.json 迁移
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { Task, TaskStatus, TaskQuery, TaskPage, TaskStatusTransition } from './types.js';
+
+const MAX_QUERY_LIMIT = 500;
+
+interface TaskRow {
+    data: string;
+}
+
+interface TransitionRow {
+    task_id: string;
+    from_status: TaskStatus | null;
+    to_status: TaskStatus;
+    at: number;
+}
+
+export class TaskStore {
+    private db: Database.Database;
+    private upsertStmt: Database.Statement;
+    private transitionStmt: Database.Statement;
+
+    constructor(private dbPath: string) {
+        fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+        this.db = new Database(dbPath);
+        this.db.pragma('journal_mode = WAL');
+        this.db.pragma('synchronous = NORMAL');
+        this.initSchema();
+
+        this.upsertStmt = this.db.prepare(`
+            INSERT INTO tasks (
+                id, type, strategy, arb_side, market_id, title, status, is_terminal, simulated,
+                quantity, predict_filled_qty, hedged_qty, actual_profit,
+                created_at, updated_at, completed_at, data
+            ) VALUES (
+                @id, @type, @strategy, @arbSide, @marketId, @title, @status, @isTerminal, @simulated,
+                @quantity, @predictFilledQty, @hedgedQty, @actualProfit,
+                @createdAt, @updatedAt, @completedAt, @data
+            )
+            ON CONFLICT(id) DO UPDATE SET
+                type = excluded.type,
+                strategy = excluded.strategy,
+                arb_side = excluded.arb_side,
+                market_id = excluded.market_id,
+                title = excluded.title,
+                status = excluded.status,
+                is_terminal = excluded.is_terminal,
+                simulated = excluded.simulated,
+                quantity = excluded.quantity,
+                predict_filled_qty = excluded.predict_filled_qty,
+                hedged_qty = excluded.hedged_qty,
+                actual_profit = excluded.actual_profit,
+                updated_at = excluded.updated_at,
+                completed_at = excluded.completed_at,
+                data = excluded.data
+        `);
+        this.transitionStmt = this.db.prepare(`
+            INSERT INTO task_status_transitions (task_id, from_status, to_status, at)
+            VALUES (?, ?, ?, ?)
+        `);
+    }
+
+    private initSchema(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS tasks (
+                id TEXT PRIMARY KEY,
+                type TEXT NOT NULL,
+                strategy TEXT,
+                arb_side TEXT,
+                market_id INTEGER,
+                title TEXT,
+                status TEXT NOT NULL,
+                is_terminal INTEGER NOT NULL DEFAULT 0,
+                simulated INTEGER NOT NULL DEFAULT 0,
+                quantity REAL,
+                predict_filled_qty REAL,
+                hedged_qty REAL,
+                actual_profit REAL,
+                created_at INTEGER NOT NULL,
+                updated_at INTEGER NOT NULL,
+                completed_at INTEGER,
+                data TEXT NOT NULL
+            )
+        `);
+
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS task_status_transitions (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                task_id TEXT NOT NULL,
+                from_status TEXT,
+                to_status TEXT NOT NULL,
+                at INTEGER NOT NULL
+            )
+        `);
+
+        this.db.exec(`
+            CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
+            CREATE INDEX IF NOT EXISTS idx_tasks_created ON tasks(created_at);
+            CREATE INDEX IF NOT EXISTS idx_tasks_terminal_created ON tasks(is_terminal, created_at);
+            CREATE INDEX IF NOT EXISTS idx_tasks_market_created ON tasks(market_id, created_at);
+            CREATE INDEX IF NOT EXISTS idx_transitions_task ON task_status_transitions(task_id);
+        `);
+    }
+
+    /**
+     * 写入/更新任务 (isTerminal 由 TaskService 判定)
+     */
+    upsert(task: Task, isTerminal: boolean): void {
+        this.upsertStmt.run({
+            id: task.id,
+            type: task.type,
+            strategy: task.strategy ?? null,
+            arbSide: task.arbSide ?? null,
+            marketId: task.marketId ?? null,
+            title: task.title ?? null,
+            status: task.status,
+            isTerminal: isTerminal ? 1 : 0,
+            simulated: task.simulated ? 1 : 0,
+            quantity: task.quantity ?? null,
+            predictFilledQty: task.predictFilledQty ?? null,
+            hedgedQty: task.hedgedQty ?? null,
+            actualProfit: task.actualProfit ?? null,
+            createdAt: task.createdAt,
+            updatedAt: task.updatedAt ?? task.createdAt,
+            completedAt: task.completedAt ?? null,
+            data: JSON.stringify(task),
+        });
+    }
+
+    /**
+     * 记录状态迁移
+     */
+    recordTransition(taskId: string, fromStatus: TaskStatus | null, toStatus: TaskStatus, at: number): void {
+        this.transitionStmt.run(taskId, fromStatus, toStatus, at);
+    }
+
+    /**
+     * 删除任务 (连同状态迁移记录)
+     */
+    delete(id: string): void {
+        const tx = this.db.transaction((taskId: string) => {
+            this.db.prepare('DELETE FROM task_status_transitions WHERE task_id = ?').run(taskId);
+            this.db.prepare('DELETE FROM tasks WHERE id = ?').run(taskId);
+        });
+        tx(id);
+    }
+
+    get(id: string): Task | null {
+        const row = this.db.prepare('SELECT data FROM tasks WHERE id = ?').get(id) as TaskRow | undefined;
+        return row ? this.parseRow(row) : null;
+    }
+
+    count(): number {
+        const row = this.db.prepare('SELECT COUNT(*) AS n FROM tasks').get() as { n: number };
+        return row.n;
+    }
+
+    /**
+     * 加载工作集: 全部非终态任务 + 最近 recentTerminalLimit 个终态任务
+     * + HEDGE_FAILED 任务及其市场上的 SELL 任务 (风控按其计算残余敞口)
+     */
+    loadWorkingSet(recentTerminalLimit: number): Task[] {
+        const active = this.db.prepare(
+            'SELECT data FROM tasks WHERE is_terminal = 0 ORDER BY created_at DESC'
+        ).all() as TaskRow[];
+        const recent = this.db.prepare(
+            'SELECT id, data FROM tasks WHERE is_terminal = 1 ORDER BY updated_at DESC LIMIT ?'
+        ).all(recentTerminalLimit) as (TaskRow & { id: string })[];
+        const recentIds = new Set(recent.map(row => row.id));
+        const hedgeFailed = (this.db.prepare(
+            `SELECT id, data FROM tasks WHERE is_terminal = 1 AND (status = 'HEDGE_FAILED'
+                OR (type = 'SELL' AND market_id IN (SELECT market_id FROM tasks WHERE status = 'HEDGE_FAILED')))`
+        ).all() as (TaskRow & { id: string })[]).filter(row => !recentIds.has(row.id));
+        return [...active, ...recent, ...hedgeFailed].map(row => this.parseRow(row));
+    }
+
+    /**
+     * 分页查询 (按 createdAt 降序)；未指定 limit 时返回全部匹配任务
+     */
+    query(query: TaskQuery = {}): TaskPage {
+        const limit = query.limit === undefined
+            ? null
+            : Math.min(Math.max(Math.floor(query.limit), 1), MAX_QUERY_LIMIT);
+        const offset = Math.max(Math.floor(query.offset ?? 0), 0);
+
+        const where: string[] = [];
+        const params: (string | number)[] = [];
+
+        if (query.status && query.status.length > 0) {
+            where.push(`status IN (${query.status.map(() => '?').join(', ')})`);
+            params.push(...query.status);
+        }
+        if (query.type) {
+            where.push('type = ?');
+            params.push(query.type);
+        }
+        if (query.strategy) {
+            where.push('strategy = ?');
+            params.push(query.strategy);
+        }
+        if (query.marketId !== undefined) {
+            where.push('market_id = ?');
+            params.push(query.marketId);
+        }
+        if (query.scope === 'active') {
+            where.push('is_terminal = 0');
+        } else if (query.scope === 'history') {
+            where.push('is_terminal = 1');
+        }
+        if (query.from !== undefined) {
+            where.push('created_at >= ?');
+            params.push(query.from);
+        }
+        if (query.to !== undefined) {
+            where.push('created_at < ?');
+            params.push(query.to);
+        }
+
+        const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+        const total = (this.db.prepare(`SELECT COUNT(*) AS n FROM tasks ${whereSql}`).get(...params) as { n: number }).n;
+        const rows = this.db.prepare(
+            `SELECT data FROM tasks ${whereSql} ORDER BY created_at DESC, id LIMIT ? OFFSET ?`
+        ).all(...params, limit ?? -1, offset) as TaskRow[];
+
+        return {
+            tasks: rows.map(row => this.parseRow(row)),
+            total,
+            limit,
+            offset,
+        };
+    }
+
+    /**
+     * 获取任务状态迁移记录 (按时间升序)
+     */
+    getTransitions(taskId: string): TaskStatusTransition[] {
+        const rows = this.db.prepare(
+            'SELECT task_id, from_status, to_status, at FROM task_status_transitions WHERE task_id = ? ORDER BY at, id'
+        ).all(taskId) as TransitionRow[];
+        return rows.map(row => ({
+            taskId: row.task_id,
+            fromStatus: row.from_status,
+            toStatus: row.to_status,
+            at: row.at,
+        }));
+    }
+
+    /**
+     * 批量导入 (单事务)，每个任务记录一条 null -> status 的迁移
+     */
+    importTasks(tasks: Task[], isTerminal: (status: TaskStatus) => boolean): number {
+        const tx = this.db.transaction((items: Task[]) => {
+            for (const task of items) {
+                this.upsert(task, isTerminal(task.status));
+                this.recordTransition(task.id, null, task.status, task.updatedAt ?? task.createdAt);
+            }
+        });
+        tx(tasks);
+        return tasks.length;
+    }
+
+    /**
+     * 从旧版 tasks.json 迁移 (仅当库为空时执行)，成功后重命名为 tasks.json.migrated
+     */
+    migrateFromJson(jsonPath: string, isTerminal: (status: TaskStatus) => boolean): number {
+        if (this.count() > 0 || !fs.existsSync(jsonPath)) return 0;
+
+        const entries: [string, Task][] = JSON.parse(fs.readFileSync(jsonPath, 'utf-8'));
+        // 兼容存量任务：为旧任务添加 strategy 默认值
+        const tasks = entries.map(([id, task]) => ({ ...task, id, strategy: task.strategy ?? 'MAKER' } as Task));
+        const imported = this.importTasks(tasks, isTerminal);
+
+        fs.renameSync(jsonPath, `${jsonPath}.migrated`);
+        console.log(`[TaskStore] 已从 ${path.basename(jsonPath)} 迁移 ${imported} 个任务 -> ${path.basename(this.dbPath)}`);
+        return imported;
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    private parseRow(row: TaskRow): Task {
+        return JSON.parse(row.data) as Task;
+    }
+}
@@ -0,0 +1,487 @@
+/**
+ * Telegram Command Bot - 远程控制任务
+ *
+ * TelegramNotifier 只负责推送 (polling: false)；这里单独开一个 polling 实例接收命令。
+ * 只响应白名单 chat (TELEGRAM_COMMAND_CHAT_IDS，默认 TELEGRAM_CHAT_ID)。
+ *
+ * 命令:
+ * - /tasks              活跃任务列表
+ * - /task <id>          任务详情 (支持 ID 前缀)
+ * - /cancel <id>        取消任务 (需确认)
+ * - /pause_all          暂停所有任务并撤单 (需确认)
+ * - /resume_all         恢复所有已暂停任务 (需确认)
+ * - /exposure           未对冲敞口 + 风控状态
+ * - /balance            账户余额
+ * - /opps [n]           当前套利机会 (默认 5 条)
+ * - /settlements        结算汇总 + 待结算/不一致市场
+ * - /mm stop            紧急停止做市 (需确认)
+ */
+
+import TelegramBot from 'node-telegram-bot-api';
+import * as crypto from 'crypto';
+import type { Task, ArbOpportunity } from './types.js';
+import type { RiskStatus } from '../services/risk-manager/index.js';
+import type { SettlementRecord, SettlementSummary } from '../services/settlement/index.js';
+
+const CONFIRM_TTL_MS = 60_000;
+const MAX_LIST_ITEMS = 20;
+
+const TERMINAL_STATUSES = new Set([
+    'COMPLETED',
+    'FAILED',
+    'CANCELLED',
+    'TIMEOUT_CANCELLED',
+    'HEDGE_FAILED',
+    'UNWIND_COMPLETED',
+]);
+
+export interface TelegramCommandBotConfig {
+    botToken: string;
+    /** 允许发送命令的 chat ID */
+    allowedChatIds: string[];
+}
+
+export interface TelegramExposureSummary {
+    totalExposure: number;
+    tasks: { id: string; title: string; exposure: number; predictFilled: number; hedged: number }[];
+}
+
+export interface TelegramBalanceSummary {
+    predict: { total: number; available: number; portfolio: number };
+    polymarket: { total: number; available: number; portfolio: number };
+}
+
+/**
+ * 命令依赖 (由 start-dashboard 注入，避免循环依赖)
+ */
+export interface TelegramCommandHandlers {
+    getTasks: () => Task[];
+    cancelTask: (taskId: string) => Promise<void>;
+    pauseAllTasks: (reason: string) => Promise<string[]>;
+    resumeTask: (taskId: string) => Promise<void>;
+    getExposure: () => TelegramExposureSummary;
+    getBalances: () => Promise<TelegramBalanceSummary>;
+    getOpportunities: () => ArbOpportunity[];
+    stopMarketMaker: (reason: string) => Promise<string>;
+    getRiskStatus?: () => RiskStatus | null;
+    getSettlements?: () => { summary: SettlementSummary; records: SettlementRecord[] } | null;
+}
+
+interface PendingConfirmation {
+    chatId: string;
+    description: string;
+    action: () => Promise<string>;
+    expiresAt: number;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+function formatTaskLine(task: Task): string {
+    const title = escapeHtml((task.title || `Market ${task.marketId}`).slice(0, 30));
+    const side = task.arbSide ? ` ${task.arbSide}` : '';
+    return `<code>${task.id.slice(0, 8)}</code> ${task.type}${side} ${task.strategy ?? 'MAKER'} <b>${task.status}</b>\n` +
+        `    ${title} 成交${(task.predictFilledQty || 0).toFixed(0)}/${task.quantity} 对冲${(task.hedgedQty || 0).toFixed(0)}`;
+}
+
+export class TelegramCommandBot {
+    private bot: TelegramBot;
+    private readonly allowedChatIds: Set<string>;
+    private readonly handlers: TelegramCommandHandlers;
+    private pending: Map<string, PendingConfirmation> = new Map();
+    private stopped = false;
+
+    constructor(config: TelegramCommandBotConfig, handlers: TelegramCommandHandlers) {
+        this.allowedChatIds = new Set(config.allowedChatIds);
+        this.handlers = handlers;
+        this.bot = new TelegramBot(config.botToken, { polling: true });
+
+        this.bot.on('message', (msg) => {
+            this.handleMessage(msg).catch((error: any) => {
+                console.error(`[TGCmd] 命令处理失败: ${error?.message || error}`);
+                this.reply(String(msg.chat.id), `❌ 命令失败: ${escapeHtml(error?.message || String(error))}`);
+            });
+        });
+        this.bot.on('callback_query', (query) => {
+            this.handleCallback(query).catch((error: any) => {
+                console.error(`[TGCmd] 确认处理失败: ${error?.message || error}`);
+            });
+        });
+        this.bot.on('polling_error', (error: any) => {
+            console.warn(`[TGCmd] Polling error: ${error?.message || error}`);
+        });
+
+        this.bot.setMyCommands([
+            { command: 'tasks', description: '活跃任务列表' },
+            { command: 'task', description: '任务详情 <id>' },
+            { command: 'cancel', description: '取消任务 <id>' },
+            { command: 'pause_all', description: '暂停所有任务' },
+            { command: 'resume_all', description: '恢复已暂停任务' },
+            { command: 'exposure', description: '未对冲敞口' },
+            { command: 'balance', description: '账户余额' },
+            { command: 'opps', description: '套利机会 [n]' },
+            { command: 'settlements', description: '结算汇总' },
+            { command: 'mm', description: '做市控制: /mm stop' },
+        ]).catch(() => { /* ignore */ });
+
+        console.log(`[TGCmd] Telegram 命令已启用 (白名单 ${this.allowedChatIds.size} 个 chat)`);
+    }
+
+    async stop(): Promise<void> {
+        if (this.stopped) return;
+        this.stopped = true;
+        this.pending.clear();
+        try {
+            await this.bot.stopPolling({ cancel: true });
+        } catch { /* ignore */ }
+    }
+
+    // ========================================================================
+    // 命令分发
+    // ========================================================================
+
+    private async handleMessage(msg: TelegramBot.Message): Promise<void> {
+        const text = msg.text?.trim();
+        if (!text || !text.startsWith('/')) return;
+
+        const chatId = String(msg.chat.id);
+        if (!this.allowedChatIds.has(chatId)) {
+            console.warn(`[TGCmd] 拒绝非白名单 chat ${chatId}: ${text.slice(0, 50)}`);
+            return;
+        }
+
+        const [rawCommand, ...args] = text.split(/\s+/);
+        // 群组中命令可能带 @botname 后缀
+        const command = rawCommand.slice(1).split('@')[0].toLowerCase();
+        console.log(`[TGCmd] ${chatId}: /${command} ${args.join(' ')}`);
+
+        switch (command) {
+            case 'tasks':
+                await this.reply(chatId, this.formatTasks());
+                break;
+            case 'task':
+                await this.reply(chatId, this.formatTaskDetail(args[0]));
+                break;
+            case 'cancel':
+                await this.commandCancel(chatId, args[0]);
+                break;
+            case 'pause_all':
+                await this.askConfirmation(chatId, '暂停所有任务并取消挂单', async () => {
+                    const pausedIds = await this.handlers.pauseAllTasks('Telegram /pause_all');
+                    return `⏸ 已暂停 ${pausedIds.length} 个任务`;
+                });
+                break;
+            case 'resume_all':
+                await this.commandResumeAll(chatId);
+                break;
+            case 'exposure':
+                await this.reply(chatId, this.formatExposure());
+                break;
+            case 'balance':
+                await this.reply(chatId, await this.formatBalance());
+                break;
+            case 'opps':
+                await this.reply(chatId, this.formatOpportunities(args[0]));
+                break;
+            case 'settlements':
+                await this.reply(chatId, this.formatSettlements());
+                break;
+            case 'mm':
+                if (args[0]?.toLowerCase() !== 'stop') {
+                    await this.reply(chatId, '用法: /mm stop');
+                    break;
+                }
+                await this.askConfirmation(chatId, '紧急停止做市 (撤销所有做市挂单)', () =>
+                    this.handlers.stopMarketMaker('Telegram /mm stop'));
+                break;
+            case 'start':
+            case 'help':
+                await this.reply(chatId, [
+                    '<b>可用命令</b>',
+                    '/tasks - 活跃任务',
+                    '/task &lt;id&gt; - 任务详情',
+                    '/cancel &lt;id&gt; - 取消任务',
+                    '/pause_all - 暂停所有任务',
+                    '/resume_all - 恢复已暂停任务',
+                    '/exposure - 未对冲敞口',
+                    '/balance - 账户余额',
+                    '/opps [n] - 套利机会',
+                    '/settlements - 结算汇总',
+                    '/mm stop - 紧急停止做市',
+                ].join('\n'));
+                break;
+            default:
+                await this.reply(chatId, `未知命令 /${escapeHtml(command)}，/help 查看可用命令`);
+        }
+    }
+
+    private async commandCancel(chatId: string, idArg: string | undefined): Promise<void> {
+        const task = this.findTask(idArg);
+        if (typeof task === 'string') {
+            await this.reply(chatId, task);
+            return;
+        }
+        if (TERMINAL_STATUSES.has(task.status)) {
+            await this.reply(chatId, `任务 <code>${task.id}</code> 已结束 (${task.status})`);
+            return;
+        }
+        await this.askConfirmation(chatId, `取消任务\n${formatTaskLine(task)}`, async () => {
+            await this.handlers.cancelTask(task.id);
+            return `🛑 已取消任务 <code>${task.id}</code>`;
+        });
+    }
+
+    private async commandResumeAll(chatId: string): Promise<void> {
+        const paused = this.handlers.getTasks().filter(t => t.status === 'PAUSED');
+        if (paused.length === 0) {
+            await this.reply(chatId, '没有已暂停的任务');
+            return;
+        }
+        await this.askConfirmation(chatId, `恢复 ${paused.length} 个已暂停任务`, async () => {
+            const failures: string[] = [];
+            for (const task of paused) {
+                try {
+                    await this.handlers.resumeTask(task.id);
+                } catch (error: any) {
+                    failures.push(`<code>${task.id.slice(0, 8)}</code> ${escapeHtml(error?.message || String(error))}`);
+                }
+            }
+            const lines = [`▶️ 已恢复 ${paused.length - failures.length}/${paused.length} 个任务`];
+            if (failures.length > 0) {
+                lines.push('', '失败:', ...failures);
+            }
+            return lines.join('\n');
+        });
+    }
+
+    // ========================================================================
+    // 确认 (inline keyboard)
+    // ========================================================================
+
+    private async askConfirmation(chatId: string, description: string, action: () => Promise<string>): Promise<void> {
+        this.prunePending();
+        const token = crypto.randomBytes(6).toString('hex');
+        this.pending.set(token, { chatId, description, action, expiresAt: Date.now() + CONFIRM_TTL_MS });
+
+        await this.bot.sendMessage(chatId, `⚠️ <b>确认操作</b>\n\n${description}\n\n${CONFIRM_TTL_MS / 1000}s 内有效`, {
+            parse_mode: 'HTML',
+            reply_markup: {
+                inline_keyboard: [[
+                    { text: '✅ 确认', callback_data: `confirm:${token}` },
+                    { text: '✖️ 取消', callback_data: `abort:${token}` },
+                ]],
+            },
+        });
+    }
+
+    private async handleCallback(query: TelegramBot.CallbackQuery): Promise<void> {
+        const chatId = query.message ? String(query.message.chat.id) : '';
+        const [kind, token] = (query.data || '').split(':');
+        const pending = token ? this.pending.get(token) : undefined;
+
+        if (!this.allowedChatIds.has(chatId) || !pending || pending.chatId !== chatId) {
+            await this.bot.answerCallbackQuery(query.id, { text: '操作不存在或已过期' });
+            return;
+        }
+        this.pending.delete(token);
+
+        const editResult = async (text: string) => {
+            if (!query.message) return;
+            await this.bot.editMessageText(text, {
+                chat_id: query.message.chat.id,
+                message_id: query.message.message_id,
+                parse_mode: 'HTML',
+            }).catch(() => { /* ignore */ });
+        };
+
+        if (kind !== 'confirm') {
+            await this.bot.answerCallbackQuery(query.id, { text: '已取消' });
+            await editResult(`✖️ 已取消: ${pending.description}`);
+            return;
+        }
+        if (Date.now() > pending.expiresAt) {
+            await this.bot.answerCallbackQuery(query.id, { text: '确认已过期' });
+            await editResult(`⌛ 已过期: ${pending.description}`);
+            return;
+        }
+
+        await this.bot.answerCallbackQuery(query.id, { text: '执行中...' });
+        console.log(`[TGCmd] ${chatId} 确认: ${pending.description.split('\n')[0]}`);
+        try {
+            await editResult(await pending.action());
+        } catch (error: any) {
+            await editResult(`❌ 执行失败: ${escapeHtml(error?.message || String(error))}`);
+        }
+    }
+
+    private prunePending(): void {
+        const now = Date.now();
+        for (const [token, pending] of this.pending) {
+            if (now > pending.expiresAt) this.pending.delete(token);
+        }
+    }
+
+    // ========================================================================
+    // 格式化
+    // ========================================================================
+
+    /**
+     * 按完整 ID 或唯一前缀查找任务；找不到时返回错误提示
+     */
+    private findTask(idArg: string | undefined): Task | string {
+        if (!idArg) return '请提供任务 ID';
+        const tasks = this.handlers.getTasks();
+        const exact = tasks.find(t => t.id === idArg);
+        if (exact) return exact;
+        const matches = tasks.filter(t => t.id.startsWith(idArg));
+        if (matches.length === 1) return matches[0];
+        if (matches.length > 1) return `ID 前缀 <code>${escapeHtml(idArg)}</code> 匹配 ${matches.length} 个任务，请输入更长的 ID`;
+        return `任务 <code>${escapeHtml(idArg)}</code> 不存在`;
+    }
+
+    private formatTasks(): string {
+        const active = this.handlers.getTasks().filter(t => !TERMINAL_STATUSES.has(t.status));
+        if (active.length === 0) return '没有活跃任务';
+        const lines = [`<b>活跃任务 (${active.length})</b>`, ''];
+        for (const task of active.slice(0, MAX_LIST_ITEMS)) {
+            lines.push(formatTaskLine(task));
+        }
+        if (active.length > MAX_LIST_ITEMS) {
+            lines.push('', `... 还有 ${active.length - MAX_LIST_ITEMS} 个`);
+        }
+        return lines.join('\n');
+    }
+
+    private formatTaskDetail(idArg: string | undefined): string {
+        const task = this.findTask(idArg);
+        if (typeof task === 'string') return task;
+
+        const lines = [
+            `<b>${escapeHtml(task.title || `Market ${task.marketId}`)}</b>`,
+            `ID: <code>${task.id}</code>`,
+            `市场: ${task.marketId}  ${task.type} ${task.arbSide ?? ''} ${task.strategy ?? 'MAKER'}${task.simulated ? ' [SIM]' : ''}`,
+            `状态: <b>${task.status}</b>`,
+            `数量: ${task.quantity}  成交: ${(task.predictFilledQty || 0).toFixed(2)}  对冲: ${(task.hedgedQty || 0).toFixed(2)}`,
+            `Predict 价格: ${task.predictPrice}  Poly 上限: ${task.polymarketMaxAsk}`,
+            `均价: Predict ${(task.avgPredictPrice || 0).toFixed(4)} / Poly ${(task.avgPolymarketPrice || 0).toFixed(4)}`,
+            `利润: $${(task.actualProfit || 0).toFixed(2)}${task.unwindLoss ? `  平仓损失: $${task.unwindLoss.toFixed(2)}` : ''}`,
+            `创建: ${new Date(task.createdAt).toLocaleString('zh-CN')}`,
+        ];
+        if (task.error) lines.push(`错误: ${escapeHtml(task.error)}`);
+        return lines.join('\n');
+    }
+
+    private formatExposure(): string {
+        const exposure = this.handlers.getExposure();
+        const lines = [`<b>未对冲敞口: ${exposure.totalExposure.toFixed(1)} shares</b>`];
+        for (const t of exposure.tasks) {
+            lines.push(`• <code>${t.id.slice(0, 8)}</code> ${escapeHtml(t.title.slice(0, 30))}: ${t.exposure.toFixed(1)} (成交${t.predictFilled.toFixed(0)}/对冲${t.hedged.toFixed(0)})`);
+        }
+
+        const risk = this.handlers.getRiskStatus?.();
+        if (risk) {
+            lines.push(
+                '',
+                `<b>风控</b> ${risk.halt.halted ? `⛔ 熔断中 (${escapeHtml(risk.halt.reason ?? '')})` : '✅ 正常'}`,
+                `当日已实现盈亏: $${risk.dailyRealizedPnl.toFixed(2)}${risk.limits.maxDailyLoss > 0 ? ` (限额 -$${risk.limits.maxDailyLoss})` : ''}`,
+                `名义金额: Predict $${risk.exposure.predictNotional.toFixed(2)} / Poly $${risk.exposure.polymarketNotional.toFixed(2)}`,
+                `活跃任务: ${risk.exposure.activeTasks}`,
+            );
+        }
+        return lines.join('\n');
+    }
+
+    private formatSettlements(): string {
+        const data = this.handlers.getSettlements?.();
+        if (!data) return '结算跟踪未启用';
+
+        const { summary, records } = data;
+        const lines = [
+            `<b>结算汇总</b> (${summary.total} 笔)`,
+            `已结算: ${summary.settled}  待结算: ${summary.open + summary.proposed}  不一致: ${summary.mismatched}`,
+            `已实现盈亏: $${summary.realizedPnl.toFixed(2)} (预期 $${summary.expectedProfit.toFixed(2)}, 手续费 $${summary.fees.toFixed(2)})`,
+        ];
+        const mismatched = records.filter(r => r.status === 'MISMATCH');
+        const proposed = records.filter(r => r.status === 'PROPOSED');
+        if (mismatched.length > 0) {
+            lines.push('', '<b>❌ 结果不一致</b>');
+            for (const r of mismatched.slice(0, MAX_LIST_ITEMS)) {
+                lines.push(`• #${r.predictMarketId} ${escapeHtml(r.title.slice(0, 35))} ${r.arbSide} ${r.predictLeg.shares.toFixed(0)} shares`);
+            }
+        }
+        if (proposed.length > 0) {
+            lines.push('', '<b>⏳ 结算中</b>');
+            for (const r of proposed.slice(0, MAX_LIST_ITEMS)) {
+                lines.push(`• #${r.predictMarketId} ${escapeHtml(r.title.slice(0, 35))} ${r.arbSide}`);
+            }
+        }
+        return lines.join('\n');
+    }
+
+    private async formatBalance(): Promise<string> {
+        const balances = await this.handlers.getBalances();
+        const format = (name: string, b: TelegramBalanceSummary['predict']) =>
+            `<b>${name}</b>: $${b.total.toFixed(2)} (可用 $${b.available.toFixed(2)}, 持仓 $${b.portfolio.toFixed(2)})`;
+        return [
+            format('Predict', balances.predict),
+            format('Polymarket', balances.polymarket),
+            `合计: $${(balances.predict.total + balances.polymarket.total).toFixed(2)}`,
+        ].join('\n');
+    }
+
+    private formatOpportunities(countArg: string | undefined): string {
+        const count = Math.min(Math.max(Number(countArg) || 5, 1), MAX_LIST_ITEMS);
+        const opportunities = [...this.handlers.getOpportunities()]
+            .sort((a, b) => b.estimatedProfit - a.estimatedProfit)
+            .slice(0, count);
+        if (opportunities.length === 0) return '当前没有套利机会';
+
+        const lines = [`<b>套利机会 Top ${opportunities.length}</b>`, ''];
+        for (const opp of opportunities) {
+            lines.push(
+                `#${opp.marketId} ${escapeHtml(opp.title.slice(0, 35))}\n` +
+                `    ${opp.strategy} ${opp.side} ${opp.profitPercent.toFixed(2)}% ` +
+                `$${opp.estimatedProfit.toFixed(2)} 深度 ${opp.maxQuantity.toFixed(0)}`
+            );
+        }
+        return lines.join('\n');
+    }
+
+    private async reply(chatId: string, text: string): Promise<void> {
+        try {
+            await this.bot.sendMessage(chatId, text, { parse_mode: 'HTML', disable_web_page_preview: true });
+        } catch (error: any) {
+            console.error(`[TGCmd] 回复失败: ${error?.message || error}`);
+        }
+    }
+}
+
+// ============================================================================
+// 单例
+// ============================================================================
+
+let instance: TelegramCommandBot | null = null;
+
+export function getTelegramCommandBot(): TelegramCommandBot | null {
+    return instance;
+}
+
+export function initTelegramCommandBot(config: TelegramCommandBotConfig, handlers: TelegramCommandHandlers): TelegramCommandBot {
+    if (instance) {
+        instance.stop().catch(() => { /* ignore */ });
+    }
+    instance = new TelegramCommandBot(config, handlers);
+    return instance;
+}
+
+export async function stopTelegramCommandBot(): Promise<void> {
+    if (instance) {
+        const bot = instance;
+        instance = null;
+        await bot.stop();
+    }
+}
@@ -1,10 +1,14 @@
+import type { LadderResult } from '../trading/depth-calculator.js';
+import type { ResolutionGrade } from './mappings/types.js';
+import type { BasketTaskSpec } from './basket/types.js';
+
 export interface ArbOpportunity {
     marketId: number;
     title: string;
     strategy: 'MAKER' | 'TAKER';
-    profitPercent: number;      // 0-100
-    maxQuantity: number;
-    estimatedProfit: number;    // USD
+    profitPercent: number;      // 0-100 (最优档)
+    maxQuantity: number;        // 多档合计可套利数量
+    estimatedProfit: number;    // USD (多档合计)
     predictPrice: number;
     polymarketPrice: number;
     totalCost: number;
@@ -42,8 +46,10 @@ export interface ArbOpportunity {
 
     // 风险和费用
     risk: {
-        level: 'LOW' | 'MEDIUM' | 'HIGH';
+        level: 'LOW' | 'MEDIUM' | 'HIGH' | 'BLOCKED';  // BLOCKED: 结算条件 F 级且未人工接受，禁止创建任务
         slippage: number;
+        resolutionGrade?: ResolutionGrade;    // 结算条件比对等级 (未比对时缺省)
+        resolutionIssues?: string[];
     };
     fees: {
         predict: number;
@@ -54,6 +60,9 @@ export interface ArbOpportunity {
     };
     endDate?: string;
 
+    // 多档深度明细 (TAKER 任务按 worstPredictPrice 扫单)
+    ladder?: LadderResult;
+
     // Boost state
     boosted?: boolean;
     boostStartTime?: string;
@@ -123,6 +132,19 @@ export interface PositionLeg {
     title?: string;                  // 市场/事件标题
 }
 
+/**
+ * 单平台持仓 (不做双腿匹配，供 points-engine 计算 pair / 净敞口)
+ */
+export interface PlatformPosition {
+    platform: 'predict' | 'polymarket';
+    predictMarketId?: number;
+    polymarketConditionId?: string;  // Predict 持仓为映射后的 conditionId
+    tokenId?: string;                // Polymarket token ID
+    side: 'YES' | 'NO';
+    shares: number;
+    avgPrice: number;
+}
+
 /**
  * 可平仓的双腿持仓
  */
@@ -355,6 +377,18 @@ export interface Task {
 
     // 体育市场标识 (使用 REST API 而非 WS 获取订单簿)
     isSportsMarket?: boolean;
+
+    // 模拟交易任务 (USE_REAL_EXECUTION=false 时创建，订单走模拟撮合)
+    simulated?: boolean;
+
+    // 独立挂单槽位: 同一市场同方向可并存多个任务 (points-engine anchor/active)
+    quoteSlot?: string;
+
+    // 执行账号 (多账号模式，未设置 = 主账号)
+    accountId?: string;
+
+    // 篮子任务 (negRisk 多选项事件 N 腿，由 BasketExecutor 执行；marketId 等字段为首腿)
+    basket?: BasketTaskSpec;
 }
 
 export interface CreateTaskInput {
@@ -393,8 +427,17 @@ export interface CreateTaskInput {
     // 任务过期时间 (0 = 不过期, 单位: 小时)
     expiryHours?: number;
 
+    // 独立挂单槽位 (见 Task.quoteSlot)
+    quoteSlot?: string;
+
     // 体育市场标识 (使用 REST API 而非 WS 获取订单簿)
     isSportsMarket?: boolean;
+
+    // 执行账号 (见 Task.accountId，多账号模式下未指定时由分配策略选择)
+    accountId?: string;
+
+    // 篮子任务 (见 Task.basket)
+    basket?: BasketTaskSpec;
 }
 
 export interface TaskFilter {
@@ -404,6 +447,34 @@ export interface TaskFilter {
     includeCompleted?: boolean;
 }
 
+// 任务历史查询 (SQLite 分页)
+export interface TaskQuery {
+    status?: TaskStatus[];
+    type?: TaskType;
+    strategy?: TaskStrategy;
+    marketId?: number;
+    scope?: 'all' | 'active' | 'history';  // history = 仅终态
+    from?: number;                          // createdAt >= from (ms)
+    to?: number;                            // createdAt < to (ms)
+    limit?: number;                         // 缺省不分页 (返回全部)，最大 500
+    offset?: number;
+}
+
+export interface TaskPage {
+    tasks: Task[];
+    total: number;
+    limit: number | null;                   // null = 未分页
+    offset: number;
+}
+
+// 任务状态迁移记录
+export interface TaskStatusTransition {
+    taskId: string;
+    fromStatus: TaskStatus | null;  // null = 创建/导入
+    toStatus: TaskStatus;
+    at: number;
+}
+
 // 订单事件
 export interface OrderEvent {
     type: 'FILL' | 'PARTIAL_FILL' | 'CANCEL' | 'EXPIRE';
@@ -0,0 +1,270 @@
+/**
+ * Predict 做市模块 - 自动选市场
+ *
+ * 按价差、24h 成交量、盘口深度、手续费、boost、距结算时间、近期波动给市场打分，
+ * 供 MultiMarketMaker 的市场轮换使用（见 MultiMarketMaker.enableRotation）。
+ *
+ * 两阶段拉取，控制请求量：
+ * 1. scanMarkets + 每个市场的订单簿 → 价差 / 深度 / 中间价（波动率样本）
+ * 2. 合格市场按初步得分取前 maxCandidates 个，再拉 /stats 补 24h 成交量
+ */
+
+import { fetchBoostData, isMarketBoosted } from '../dashboard/boost-cache.js';
+import { DEFAULT_AUTO_SELECT_CONFIG } from './config.js';
+import { scanMarkets, type MarketInfo } from './market-selector.js';
+import type { AutoSelectConfig, MarketMetrics, MarketScore, MarketScoreWeights } from './types.js';
+
+const FETCH_TIMEOUT_MS = 10000;
+const FETCH_CONCURRENCY = 5;
+const BOOST_REFRESH_MS = 10 * 60 * 1000;   // boost 数据 10 分钟刷新一次
+const MID_HISTORY_SIZE = 12;               // 每个市场保留的中间价样本数（每次 rank 采样一次）
+const MIN_VOLATILITY_SAMPLES = 3;
+
+type OrderBookLevels = { bids: [number, number][]; asks: [number, number][] };
+
+// ============================================================================
+// 评分（纯函数）
+// ============================================================================
+
+function clamp01(value: number): number {
+    return Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 0;
+}
+
+/**
+ * 订单簿摘要：买一 / 卖一 / 中间价 ±rangeCents 内的挂单金额
+ */
+export function summarizeOrderBook(
+    book: OrderBookLevels,
+    depthRangeCents: number
+): { bestBid: number; bestAsk: number; depthUsd: number } | null {
+    if (book.bids.length === 0 || book.asks.length === 0) return null;
+
+    const bestBid = Math.max(...book.bids.map(([price]) => price));
+    const bestAsk = Math.min(...book.asks.map(([price]) => price));
+    const mid = (bestBid + bestAsk) / 2;
+    const range = depthRangeCents / 100;
+
+    let depthUsd = 0;
+    for (const [price, size] of book.bids) {
+        if (price >= mid - range) depthUsd += price * size;
+    }
+    for (const [price, size] of book.asks) {
+        if (price <= mid + range) depthUsd += price * size;
+    }
+    return { bestBid, bestAsk, depthUsd };
+}
+
+/**
+ * 中间价样本标准差（美分），样本不足返回 null
+ */
+export function midVolatilityCents(mids: number[]): number | null {
+    if (mids.length < MIN_VOLATILITY_SAMPLES) return null;
+    const mean = mids.reduce((sum, m) => sum + m, 0) / mids.length;
+    const variance = mids.reduce((sum, m) => sum + (m - mean) ** 2, 0) / mids.length;
+    return Math.sqrt(variance) * 100;
+}
+
+export function scoreMarket(
+    market: Pick<MarketInfo, 'id' | 'title'>,
+    metrics: MarketMetrics,
+    config: AutoSelectConfig = DEFAULT_AUTO_SELECT_CONFIG
+): MarketScore {
+    const components: MarketScoreWeights = {
+        spread: clamp01(metrics.spreadCents / config.targetSpreadCents),
+        volume: metrics.volume24h === null
+            ? 0
+            : clamp01(Math.log10(1 + metrics.volume24h) / Math.log10(1 + config.volumeRefUsd)),
+        depth: clamp01(metrics.depthUsd / config.depthRefUsd),
+        fee: clamp01(1 - metrics.feeRateBps / config.maxFeeRateBps),
+        boost: metrics.boosted ? 1 : 0,
+        // 未知结算时间 / 波动率按中性 0.5 计
+        time: metrics.hoursToResolution === null ? 0.5 : clamp01(metrics.hoursToResolution / config.timeRefHours),
+        volatility: metrics.volatilityCents === null ? 0.5 : clamp01(1 - metrics.volatilityCents / config.volatilityRefCents),
+    };
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const key of Object.keys(components) as (keyof MarketScoreWeights)[]) {
+        const weight = Math.max(0, config.weights[key]);
+        weighted += weight * components[key];
+        totalWeight += weight;
+    }
+
+    let reason: string | undefined;
+    if (config.excludeMarketIds.includes(market.id)) {
+        reason = '已排除';
+    } else if (metrics.bestBid <= 0 || metrics.bestAsk <= 0 || metrics.bestBid >= metrics.bestAsk) {
+        reason = '盘口不完整';
+    } else if (metrics.midPrice < config.minMidPrice || metrics.midPrice > config.maxMidPrice) {
+        reason = `中间价 ${(metrics.midPrice * 100).toFixed(1)}¢ 超出范围`;
+    } else if (metrics.spreadCents < config.minSpreadCents) {
+        reason = `价差 ${metrics.spreadCents.toFixed(1)}¢ 过窄`;
+    } else if (metrics.spreadCents > config.maxSpreadCents) {
+        reason = `价差 ${metrics.spreadCents.toFixed(1)}¢ 过宽`;
+    } else if (metrics.hoursToResolution !== null && metrics.hoursToResolution < config.minHoursToResolution) {
+        reason = `距结算 ${metrics.hoursToResolution.toFixed(1)}h`;
+    }
+
+    return {
+        marketId: market.id,
+        title: market.title,
+        score: totalWeight > 0 ? weighted / totalWeight : 0,
+        components,
+        metrics,
+        eligible: reason === undefined,
+        reason,
+    };
+}
+
+/**
+ * 合格市场在前，按得分降序
+ */
+export function rankMarkets(scores: MarketScore[]): MarketScore[] {
+    return [...scores].sort((a, b) => {
+        if (a.eligible !== b.eligible) return a.eligible ? -1 : 1;
+        return b.score - a.score;
+    });
+}
+
+// ============================================================================
+// 选择器
+// ============================================================================
+
+export class AutoMarketSelector {
+    private readonly config: AutoSelectConfig;
+    private readonly midHistory = new Map<number, number[]>();
+    private markets = new Map<number, MarketInfo>();
+    private lastBoostRefreshAt = 0;
+
+    constructor(
+        private readonly apiKey: string,
+        private readonly baseUrl: string = 'https://api.predict.fun',
+        config: Partial<AutoSelectConfig> = {}
+    ) {
+        this.config = {
+            ...DEFAULT_AUTO_SELECT_CONFIG,
+            ...config,
+            weights: { ...DEFAULT_AUTO_SELECT_CONFIG.weights, ...config.weights },
+        };
+    }
+
+    /**
+     * 扫描并排序全部市场（合格在前，得分降序）
+     */
+    async rank(): Promise<MarketScore[]> {
+        if (Date.now() - this.lastBoostRefreshAt > BOOST_REFRESH_MS) {
+            await fetchBoostData();
+            this.lastBoostRefreshAt = Date.now();
+        }
+
+        const markets = await scanMarkets(this.apiKey, this.baseUrl);
+        this.markets = new Map(markets.map(m => [m.id, m]));
+        const now = Date.now();
+
+        // 阶段 1：订单簿（排除 / 即将结算的市场不拉）
+        const candidates = markets.filter(m => {
+            if (this.config.excludeMarketIds.includes(m.id)) return false;
+            const hours = this.hoursToResolution(m, now);
+            return hours === null || hours >= this.config.minHoursToResolution;
+        });
+
+        const scores = new Map<number, MarketScore>();
+        await this.forEachLimited(candidates, async market => {
+            const book = await this.fetchOrderBook(market.id);
+            const summary = book ? summarizeOrderBook(book, this.config.depthRangeCents) : null;
+            const bestBid = summary?.bestBid ?? 0;
+            const bestAsk = summary?.bestAsk ?? 0;
+            const midPrice = summary ? (bestBid + bestAsk) / 2 : 0;
+
+            let volatilityCents: number | null = null;
+            if (summary) {
+                const mids = [...(this.midHistory.get(market.id) ?? []), midPrice].slice(-MID_HISTORY_SIZE);
+                this.midHistory.set(market.id, mids);
+                volatilityCents = midVolatilityCents(mids);
+            }
+
+            scores.set(market.id, scoreMarket(market, {
+                bestBid,
+                bestAsk,
+                spreadCents: summary ? (bestAsk - bestBid) * 100 : 0,
+                midPrice,
+                depthUsd: summary?.depthUsd ?? 0,
+                volume24h: market.volume24h ?? null,
+                feeRateBps: market.feeRateBps,
+                boosted: isMarketBoosted(market.id).boosted,
+                hoursToResolution: this.hoursToResolution(market, now),
+                volatilityCents,
+            }, this.config));
+        });
+
+        // 已下架市场的中间价样本清理
+        for (const marketId of this.midHistory.keys()) {
+            if (!this.markets.has(marketId)) this.midHistory.delete(marketId);
+        }
+
+        // 阶段 2：候选市场补 24h 成交量后重新打分
+        const shortlist = rankMarkets([...scores.values()])
+            .filter(s => s.eligible)
+            .slice(0, this.config.maxCandidates);
+        await this.forEachLimited(shortlist, async score => {
+            const volume24h = await this.fetchVolume24h(score.marketId);
+            if (volume24h === null) return;
+            const market = this.markets.get(score.marketId)!;
+            scores.set(score.marketId, scoreMarket(market, { ...score.metrics, volume24h }, this.config));
+        });
+
+        return rankMarkets([...scores.values()]);
+    }
+
+    /**
+     * 最近一次扫描的市场信息（生成做市配置用）
+     */
+    getMarket(marketId: number): MarketInfo | undefined {
+        return this.markets.get(marketId);
+    }
+
+    private hoursToResolution(market: MarketInfo, now: number): number | null {
+        if (!market.endDate) return null;
+        const endMs = Date.parse(market.endDate);
+        return Number.isFinite(endMs) ? (endMs - now) / 3600000 : null;
+    }
+
+    private async fetchOrderBook(marketId: number): Promise<OrderBookLevels | null> {
+        try {
+            const res = await fetch(`${this.baseUrl}/v1/markets/${marketId}/orderbook`, {
+                headers: { 'x-api-key': this.apiKey },
+                signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+            });
+            if (!res.ok) return null;
+            const data = await res.json() as { data?: OrderBookLevels };
+            return data.data ?? null;
+        } catch {
+            return null;
+        }
+    }
+
+    private async fetchVolume24h(marketId: number): Promise<number | null> {
+        try {
+            const res = await fetch(`${this.baseUrl}/v1/markets/${marketId}/stats`, {
+                headers: { 'x-api-key': this.apiKey },
+                signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+            });
+            if (!res.ok) return null;
+            const data = await res.json() as { data?: { volume24h?: number } };
+            const volume = Number(data.data?.volume24h);
+            return Number.isFinite(volume) ? volume : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private async forEachLimited<T>(items: T[], fn: (item: T) => Promise<void>): Promise<void> {
+        let next = 0;
+        const workers = Array.from({ length: Math.min(FETCH_CONCURRENCY, items.length) }, async () => {
+            while (next < items.length) {
+                await fn(items[next++]);
+            }
+        });
+        await Promise.all(workers);
+    }
+}
@@ -3,6 +3,8 @@
  *
  * 启动流程：扫描市场 → 选择市场 → 开始做市 → 监控面板
  *
+ * MM_AUTO_SELECT=true：按评分自动选市场并定时轮换（MM_MARKETS 指定的市场作为常驻市场保留）
+ *
  * 运行: npm run market-maker
  */
 
@@ -20,12 +22,19 @@ import { MultiMarketMaker, type GlobalStats } from './multi-engine.js';
 import { scanMarkets, selectMarkets, convertToConfigs, displayMarketList } from './market-selector.js';
 import type { MarketInfo, SelectedMarket } from './market-selector.js';
 import { createTradingClient, TradingClient } from './trading-client.js';
-import type { MarketState, Fill, MarketMakerConfig, MarketMakerStrategy } from './types.js';
+import { PredictEventSource } from './event-source.js';
+import type { MarketState, Fill, MarketMakerConfig, MarketMakerStrategy, OutcomeChoice } from './types.js';
 import { TelegramNotifier } from '../notification/telegram.js';
-import { loadConfig, saveConfig, formatConfigSummary, DEFAULT_GLOBAL_CONFIG, type SavedConfig } from './config.js';
+import { loadConfig, saveConfig, formatConfigSummary, DEFAULT_GLOBAL_CONFIG, DEFAULT_HEDGE_CONFIG, STRATEGY_LABELS, validateMarketConfig, type SavedConfig } from './config.js';
+import { initRiskManager, stopRiskManager, type RiskHaltState } from '../services/risk-manager/index.js';
+import { consumeMarketMakerControl, writeMarketMakerHeartbeat, clearMarketMakerHeartbeat } from './remote-control.js';
 import EventEmitter from 'events';
 import { render } from 'ink';
-import { MarketMakerUI, type UISnapshot } from './ui.js';
+import { MarketMakerUI, type UIPnLHistory, type UISnapshot } from './ui.js';
+import { FillLedger, DEFAULT_FILL_LEDGER_PATH } from './fill-ledger.js';
+import { AutoMarketSelector } from './auto-selector.js';
+import { MarketMakerHedger } from './hedger.js';
+import { getMappingRegistry } from '../dashboard/mappings/index.js';
 
 // ============================================================================
 // ANSI 颜色和控制
@@ -83,6 +92,10 @@ const configByMarketId: Map<number, MarketMakerConfig> = new Map();
 const uiEmitter = new EventEmitter();
 let uiInstance: ReturnType<typeof render> | null = null;
 
+// 成交账本（MM_FILL_LEDGER=off 关闭，或指定数据库路径）
+let fillLedger: FillLedger | null = null;
+let pnlHistoryCache: Omit<UIPnLHistory, 'unrealizedPnL'> | null = null;
+
 // ============================================================================
 // Telegram 通知（可选）
 // ============================================================================
@@ -281,12 +294,14 @@ const EMPTY_STATS: GlobalStats = {
 function buildUISnapshot(): UISnapshot {
     const stats = multiMaker?.getGlobalStats() ?? EMPTY_STATS;
     const marketsRaw = multiMaker?.getAllStates() ?? [];
+    const overdue = new Set((multiMaker?.getRotatedMarkets() ?? []).filter(e => e.overdueSince !== null).map(e => e.marketId));
     const markets = marketsRaw.map(m => {
         const cfg = configByMarketId.get(m.marketId);
         return {
             ...m,
             outcome: (cfg?.outcome ?? 'YES') as 'YES' | 'NO',
             maxShares: cfg?.maxShares ?? 0,
+            unwindOverdue: overdue.has(m.marketId),
         };
     });
     return {
@@ -296,9 +311,35 @@ function buildUISnapshot(): UISnapshot {
         fills: [...fills],
         errors: [...recentErrors],
         logFile: LOG_FILE,
+        pnlHistory: pnlHistoryCache
+            ? {
+                ...pnlHistoryCache,
+                unrealizedPnL: (multiMaker?.getAllStats() ?? []).reduce((sum, s) => sum + s.unrealizedPnL, 0),
+            }
+            : null,
     };
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 从账本重新汇总最近 7 天 / 4 周已实现盈亏（成交时及每分钟刷新）
+ */
+function refreshPnLHistory(): void {
+    if (!fillLedger) return;
+    try {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        pnlHistoryCache = {
+            daily: fillLedger.summarize('day', { from: today.getTime() - 6 * DAY_MS }),
+            weekly: fillLedger.summarize('week', { from: today.getTime() - 35 * DAY_MS }).slice(-4),
+            ledgerFile: fillLedger.getPath(),
+        };
+    } catch (error) {
+        console.error('[MM] 成交账本汇总失败:', error);
+    }
+}
+
 function pushUISnapshot(): void {
     uiEmitter.emit('update', buildUISnapshot());
 }
@@ -321,6 +362,105 @@ function getPerMarketEnv(marketId: number, key: string): string | undefined {
     return process.env[`${key}_${marketId}`] ?? process.env[key];
 }
 
+/**
+ * 按市场应用环境变量覆盖，并登记到 configByMarketId
+ *
+ * - 价格运行区间（可选）：MM_MIN_SELL_PRICE / MM_MAX_BUY_PRICE
+ *   支持按市场覆盖：MM_MIN_SELL_PRICE_696 / MM_MAX_BUY_PRICE_696
+ * - 最大价差阈值（可选）：MM_MAX_SPREAD_CENTS / MM_MAX_SPREAD_CENTS_696
+ * - 策略参数（可选）：MM_STRATEGY_PARAMS / MM_STRATEGY_PARAMS_696
+ */
+function applyMarketEnvOverrides(cfg: MarketMakerConfig): void {
+    const rawMinSell = getPerMarketEnv(cfg.marketId, 'MM_MIN_SELL_PRICE');
+    const rawMaxBuy = getPerMarketEnv(cfg.marketId, 'MM_MAX_BUY_PRICE');
+    const rawMaxSpread = getPerMarketEnv(cfg.marketId, 'MM_MAX_SPREAD_CENTS');
+    const minSell = parsePriceBound(rawMinSell);
+    const maxBuy = parsePriceBound(rawMaxBuy);
+
+    // 解析 maxSpreadCents（美分单位，例如 5 表示 5¢）
+    let maxSpreadCents: number | undefined;
+    if (rawMaxSpread) {
+        const v = Number.parseFloat(rawMaxSpread);
+        if (Number.isFinite(v) && v > 0) {
+            maxSpreadCents = v;
+        } else {
+            console.warn(`[MM ${cfg.marketId}] MM_MAX_SPREAD_CENTS 无效: ${rawMaxSpread}`);
+        }
+    }
+
+    if (rawMinSell && minSell === undefined) {
+        console.warn(`[MM ${cfg.marketId}] MM_MIN_SELL_PRICE 无效: ${rawMinSell}`);
+    }
+    if (rawMaxBuy && maxBuy === undefined) {
+        console.warn(`[MM ${cfg.marketId}] MM_MAX_BUY_PRICE 无效: ${rawMaxBuy}`);
+    }
+
+    if (minSell !== undefined) cfg.minSellPrice = minSell;
+    if (maxBuy !== undefined) cfg.maxBuyPrice = maxBuy;
+    if (maxSpreadCents !== undefined) cfg.maxSpreadCents = maxSpreadCents;
+
+    // 策略参数（可选，JSON）：MM_STRATEGY_PARAMS / MM_STRATEGY_PARAMS_696
+    // 例如 {"levels":3,"sizeDecay":0.5} 或 {"riskAversion":0.1,"horizonSec":300}
+    const rawParams = getPerMarketEnv(cfg.marketId, 'MM_STRATEGY_PARAMS');
+    if (rawParams) {
+        try {
+            cfg.strategyParams = { ...cfg.strategyParams, ...JSON.parse(rawParams) };
+        } catch {
+            console.warn(`[MM ${cfg.marketId}] MM_STRATEGY_PARAMS 不是合法 JSON: ${rawParams}`);
+        }
+        const errors = validateMarketConfig(cfg);
+        if (errors.length > 0) {
+            throw new Error(`[MM ${cfg.marketId}] 策略参数无效: ${errors.join('; ')}`);
+        }
+    }
+
+    configByMarketId.set(cfg.marketId, cfg);
+    if (minSell !== undefined || maxBuy !== undefined || maxSpreadCents !== undefined) {
+        logObs('BOUNDS', cfg.marketId, {
+            minSellPrice: minSell ?? null,
+            maxBuyPrice: maxBuy ?? null,
+            maxSpreadCents: maxSpreadCents ?? null,
+        });
+    }
+}
+
+/**
+ * Polymarket 对冲（可选）：MM_HEDGE=true / MM_HEDGE_696=true
+ *
+ * - 对冲市场取映射注册表 (data/market-mappings.db) 的生效映射，未登记 / 黑名单的市场跳过
+ * - MM_HEDGE_THRESHOLD: 未对冲 shares 触发阈值（默认 10）
+ * - MM_HEDGE_MAX_PAIR_COST: 两边合计成本上限（默认 0.98）
+ * - MM_HEDGE_MAX_SHARES: 最多锁定 shares（默认 500）
+ * 以上参数均支持按市场覆盖（例如 MM_HEDGE_THRESHOLD_696）
+ */
+async function applyHedgeEnv(cfg: MarketMakerConfig): Promise<void> {
+    const enabled = ['1', 'true', 'on'].includes((getPerMarketEnv(cfg.marketId, 'MM_HEDGE') || '').trim().toLowerCase());
+    if (!enabled) return;
+
+    const conditionId = getMappingRegistry().resolve(cfg.marketId)?.conditionId;
+    if (!conditionId) {
+        console.warn(`[MM ${cfg.marketId}] 没有生效的 Polymarket 映射，跳过对冲`);
+        return;
+    }
+
+    const numberEnv = (key: string, fallback: number): number => {
+        const raw = getPerMarketEnv(cfg.marketId, key);
+        const v = raw ? Number.parseFloat(raw) : NaN;
+        return Number.isFinite(v) ? v : fallback;
+    };
+    cfg.hedge = {
+        polymarketConditionId: conditionId,
+        thresholdShares: numberEnv('MM_HEDGE_THRESHOLD', DEFAULT_HEDGE_CONFIG.thresholdShares),
+        maxPairCost: numberEnv('MM_HEDGE_MAX_PAIR_COST', DEFAULT_HEDGE_CONFIG.maxPairCost),
+        maxHedgedShares: numberEnv('MM_HEDGE_MAX_SHARES', DEFAULT_HEDGE_CONFIG.maxHedgedShares),
+    };
+    const errors = validateMarketConfig(cfg);
+    if (errors.length > 0) {
+        throw new Error(`[MM ${cfg.marketId}] 对冲参数无效: ${errors.join('; ')}`);
+    }
+    logObs('HEDGE_CONFIG', cfg.marketId, { ...cfg.hedge });
+}
+
 // ============================================================================
 // 策略选择
 // ============================================================================
@@ -330,7 +470,7 @@ import * as readline from 'readline';
 async function selectStrategy(): Promise<MarketMakerStrategy> {
     // 如果环境变量已设置，直接使用
     const envStrategy = (process.env.MM_STRATEGY || '').toUpperCase();
-    if (envStrategy === 'SCALP' || envStrategy === 'FOLLOW') {
+    if (envStrategy in STRATEGY_LABELS) {
         return envStrategy as MarketMakerStrategy;
     }
 
@@ -345,13 +485,23 @@ async function selectStrategy(): Promise<MarketMakerStrategy> {
         console.log(`      ${c.dim}跟随市场最优卖价，适合流动性较好的市场${c.reset}\n`);
         console.log(`  ${c.cyan}2${c.reset}  剥头皮 (SCALP) - 卖出价 = 买一价 + 1 tick`);
         console.log(`      ${c.dim}Maker 0 手续费，每笔成交净赚 1 tick${c.reset}\n`);
+        console.log(`  ${c.cyan}3${c.reset}  库存偏移 (SKEW) - Avellaneda–Stoikov 保留价 ± 半价差`);
+        console.log(`      ${c.dim}持仓越多双边报价越低，参数见 MM_STRATEGY_PARAMS${c.reset}\n`);
+        console.log(`  ${c.cyan}4${c.reset}  多档阶梯 (LADDER) - 买一/卖一起每边多档挂单`);
+        console.log(`      ${c.dim}数量按档位衰减，参数见 MM_STRATEGY_PARAMS${c.reset}\n`);
 
-        rl.question(`${c.cyan}请选择 [1/2]: ${c.reset}`, (answer) => {
+        rl.question(`${c.cyan}请选择 [1/2/3/4]: ${c.reset}`, (answer) => {
             rl.close();
             const choice = answer.trim();
             if (choice === '2' || choice.toLowerCase() === 'scalp') {
                 console.log(`\n${c.green}✓ 已选择: 剥头皮模式 (SCALP)${c.reset}\n`);
                 resolve('SCALP');
+            } else if (choice === '3' || choice.toLowerCase() === 'skew') {
+                console.log(`\n${c.green}✓ 已选择: 库存偏移模式 (SKEW)${c.reset}\n`);
+                resolve('SKEW');
+            } else if (choice === '4' || choice.toLowerCase() === 'ladder') {
+                console.log(`\n${c.green}✓ 已选择: 多档阶梯模式 (LADDER)${c.reset}\n`);
+                resolve('LADDER');
             } else {
                 console.log(`\n${c.green}✓ 已选择: 跟随模式 (FOLLOW)${c.reset}\n`);
                 resolve('FOLLOW');
@@ -424,8 +574,11 @@ async function main(): Promise<void> {
     try {
         initTelegram();
 
+        // 自动选市场模式：不恢复上次配置，也不进入交互扫描
+        const autoSelect = ['1', 'true', 'on'].includes((process.env.MM_AUTO_SELECT || '').trim().toLowerCase());
+
         // 0. 检查是否恢复上次配置
-        const restored = await checkAndRestoreConfig();
+        const restored = autoSelect ? null : await checkAndRestoreConfig();
 
         let configs: MarketMakerConfig[];
         let strategy: MarketMakerStrategy;
@@ -517,6 +670,8 @@ async function main(): Promise<void> {
                 }
 
                 console.log(`${c.green}已从环境变量选择 ${selectedMarkets.length} 个市场: ${ids.join(', ')}${c.reset}\n`);
+            } else if (autoSelect) {
+                console.log(`${c.green}自动选市场模式，启动后按评分轮换${c.reset}\n`);
             } else {
                 // 3a. 扫描市场（使用扫描专用 API Key）
                 const markets = await scanMarkets(scanApiKey, baseUrl);
@@ -533,7 +688,7 @@ async function main(): Promise<void> {
                 selectedMarkets = await selectMarkets(markets, 100);
             }
 
-            if (selectedMarkets.length === 0) {
+            if (selectedMarkets.length === 0 && !autoSelect) {
                 console.log(`${c.yellow}未选择任何市场，退出${c.reset}`);
                 process.exit(0);
             }
@@ -545,79 +700,64 @@ async function main(): Promise<void> {
             const getTickSize = async (marketId: number) => {
                 return tradingClient!.getMarketTickSize(marketId);
             };
-            configs = await convertToConfigs(selectedMarkets, getTokenId, strategy, getTickSize);
+            configs = selectedMarkets.length > 0
+                ? await convertToConfigs(selectedMarkets, getTokenId, strategy, getTickSize)
+                : [];
 
-            if (configs.length === 0) {
+            if (configs.length === 0 && selectedMarkets.length > 0) {
                 console.log(`${c.red}配置生成失败${c.reset}`);
                 process.exit(1);
             }
 
-            // 保存配置供下次使用
-            try {
-                saveConfig({
-                    global: DEFAULT_GLOBAL_CONFIG,
-                    markets: configs,
-                    strategy,
-                    savedAt: new Date().toISOString(),
-                }, BOT_DIR);
-                console.log(`${c.dim}配置已保存，下次启动可快速恢复${c.reset}\n`);
-            } catch (saveErr) {
-                console.warn(`${c.yellow}配置保存失败: ${(saveErr as Error)?.message}${c.reset}`);
+            // 保存配置供下次使用（自动轮换的市场不保存）
+            if (configs.length > 0) {
+                try {
+                    saveConfig({
+                        global: DEFAULT_GLOBAL_CONFIG,
+                        markets: configs,
+                        strategy,
+                        savedAt: new Date().toISOString(),
+                    }, BOT_DIR);
+                    console.log(`${c.dim}配置已保存，下次启动可快速恢复${c.reset}\n`);
+                } catch (saveErr) {
+                    console.warn(`${c.yellow}配置保存失败: ${(saveErr as Error)?.message}${c.reset}`);
+                }
             }
         }
 
         // 5. 创建多市场管理器（使用交易客户端的依赖）
         const dependencies = tradingClient.createDependencies();
 
-        // 价格运行区间（可选）：MM_MIN_SELL_PRICE / MM_MAX_BUY_PRICE
-        // 支持按市场覆盖：MM_MIN_SELL_PRICE_696 / MM_MAX_BUY_PRICE_696
-        // 最大价差阈值（可选）：MM_MAX_SPREAD_CENTS / MM_MAX_SPREAD_CENTS_696
-        for (const cfg of configs) {
-            const rawMinSell = getPerMarketEnv(cfg.marketId, 'MM_MIN_SELL_PRICE');
-            const rawMaxBuy = getPerMarketEnv(cfg.marketId, 'MM_MAX_BUY_PRICE');
-            const rawMaxSpread = getPerMarketEnv(cfg.marketId, 'MM_MAX_SPREAD_CENTS');
-            const minSell = parsePriceBound(rawMinSell);
-            const maxBuy = parsePriceBound(rawMaxBuy);
-
-            // 解析 maxSpreadCents（美分单位，例如 5 表示 5¢）
-            let maxSpreadCents: number | undefined;
-            if (rawMaxSpread) {
-                const v = Number.parseFloat(rawMaxSpread);
-                if (Number.isFinite(v) && v > 0) {
-                    maxSpreadCents = v;
-                } else {
-                    console.warn(`[MM ${cfg.marketId}] MM_MAX_SPREAD_CENTS 无效: ${rawMaxSpread}`);
-                }
-            }
-
-            if (rawMinSell && minSell === undefined) {
-                console.warn(`[MM ${cfg.marketId}] MM_MIN_SELL_PRICE 无效: ${rawMinSell}`);
-            }
-            if (rawMaxBuy && maxBuy === undefined) {
-                console.warn(`[MM ${cfg.marketId}] MM_MAX_BUY_PRICE 无效: ${rawMaxBuy}`);
-            }
-
-            if (minSell !== undefined) cfg.minSellPrice = minSell;
-            if (maxBuy !== undefined) cfg.maxBuyPrice = maxBuy;
-            if (maxSpreadCents !== undefined) cfg.maxSpreadCents = maxSpreadCents;
+        // 成交账本：记录每笔成交，重启时恢复 FIFO 批次（npm run mm:pnl 导出历史盈亏）
+        const ledgerEnv = (process.env.MM_FILL_LEDGER || '').trim();
+        if (!['0', 'false', 'off'].includes(ledgerEnv.toLowerCase())) {
+            fillLedger = new FillLedger(ledgerEnv ? path.resolve(BOT_DIR, ledgerEnv) : DEFAULT_FILL_LEDGER_PATH);
+            dependencies.fillLedger = fillLedger;
+            refreshPnLHistory();
+            console.log(`${c.dim}成交账本: ${fillLedger.getPath()}${c.reset}`);
+        }
 
-            configByMarketId.set(cfg.marketId, cfg);
-            if (minSell !== undefined || maxBuy !== undefined || maxSpreadCents !== undefined) {
-                logObs('BOUNDS', cfg.marketId, {
-                    minSellPrice: minSell ?? null,
-                    maxBuyPrice: maxBuy ?? null,
-                    maxSpreadCents: maxSpreadCents ?? null,
-                });
-            }
+        for (const cfg of configs) {
+            applyMarketEnvOverrides(cfg);
+            await applyHedgeEnv(cfg);
         }
 
         // 可观测性：价格快照日志节流（默认 10s/市场）
         const priceLogEveryMs = Math.max(1000, Number(process.env.MM_OBS_PRICE_EVERY_MS || '10000'));
         const lastPriceLogAt: Map<number, number> = new Map();
 
+        // WS 事件驱动（默认开启）：MM_EVENT_DRIVEN=false 退回 1s 轮询
+        // MM_STALE_FALLBACK_MS: 无推送时 REST 兜底间隔（默认 5000）
+        const eventDriven = !['0', 'false', 'off'].includes((process.env.MM_EVENT_DRIVEN || '').trim().toLowerCase());
+        const staleFallbackMs = Math.max(1000, Number(process.env.MM_STALE_FALLBACK_MS || DEFAULT_GLOBAL_CONFIG.staleFallbackMs));
+        const client = tradingClient;
+        const eventSource = eventDriven
+            ? new PredictEventSource({ apiKey, getJwt: () => client.getJwt() })
+            : null;
+
         multiMaker = new MultiMarketMaker(
             dependencies,
-            { pollIntervalMs: 1000 },
+            { pollIntervalMs: 1000, eventDriven, staleFallbackMs },
             {
                 onMarketStateChange: (marketId, state) => {
                     const prevKey = lastStatusByMarket.get(marketId) ?? '';
@@ -664,6 +804,7 @@ async function main(): Promise<void> {
                     });
                     void tgSend(`[MM ${fill.marketId}] 成交 ${fill.side} ${fill.quantity} @ ${formatCentsPlain(fill.price)}\n市场: ${title}`);
 
+                    refreshPnLHistory();
                     pushUISnapshot();
                 },
                 onOrderPlaced: (marketId, order) => {
@@ -711,7 +852,31 @@ async function main(): Promise<void> {
 
                     pushUISnapshot();
                 },
-            }
+                onRotation: (result) => {
+                    logObs('ROTATION', null, { ...result });
+                    const changes = [
+                        result.added.length > 0 ? `新增 ${result.added.join(', ')}` : '',
+                        result.unwinding.length > 0 ? `只减仓 ${result.unwinding.join(', ')}` : '',
+                        result.restored.length > 0 ? `恢复 ${result.restored.join(', ')}` : '',
+                        result.removed.length > 0 ? `移除 ${result.removed.join(', ')}` : '',
+                        result.overdue.length > 0 ? `⚠️ 只减仓超时仍有持仓 ${result.overdue.join(', ')}` : '',
+                    ].filter(Boolean);
+                    if (changes.length > 0) {
+                        void tgSend(`[MM] 市场轮换: ${changes.join(' / ')}`);
+                    }
+                    pushUISnapshot();
+                },
+                onHedge: (fill) => {
+                    logObs('HEDGE', fill.marketId, { ...fill, filledAt: new Date(fill.filledAt).toISOString() });
+                    const title = multiMaker?.getMarketState(fill.marketId)?.title ?? String(fill.marketId);
+                    void tgSend(
+                        `[MM ${fill.marketId}] Polymarket 对冲 ${fill.quantity} @ ${formatCentsPlain(fill.price)}` +
+                        ` (合计成本 ${formatCentsPlain(fill.predictCost + fill.price)})\n市场: ${title}`
+                    );
+                    pushUISnapshot();
+                },
+            },
+            eventSource
         );
 
         // 可观测性：定期写入状态快照（默认 15s，可通过 MM_OBS_SNAPSHOT_SEC 调整）
@@ -736,12 +901,73 @@ async function main(): Promise<void> {
         }, snapshotSec * 1000);
         snapshotTimer.unref?.();
 
+        // 5a. Polymarket 对冲执行器（任一市场配置了 hedge 时启用）
+        // 自动选市场时轮换加入的市场也可能配置 hedge
+        const hedgeForRotation = autoSelect && ['1', 'true', 'on'].includes((process.env.MM_HEDGE || '').trim().toLowerCase());
+        if (configs.some(cfg => cfg.hedge) || hedgeForRotation) {
+            try {
+                const { getPolymarketTrader } = await import('../dashboard/polymarket-trader.js');
+                const mappingRegistry = getMappingRegistry();
+                multiMaker.setHedger(new MarketMakerHedger(getPolymarketTrader(), fillLedger, (marketId) => mappingRegistry.resolve(marketId)));
+                console.log(`${c.dim}Polymarket 对冲已启用${c.reset}`);
+            } catch (hedgeErr) {
+                console.warn(`${c.yellow}Polymarket 对冲未启用: ${(hedgeErr as Error)?.message}${c.reset}`);
+            }
+        }
+
         // 6. 添加市场
         for (const config of configs) {
             multiMaker.addMarket(config);
         }
 
-        // 7. 启动
+        // 6a. 自动选市场 + 轮换（MM_AUTO_SELECT=true）
+        // MM_AUTO_TOP_N: 自动市场数（默认 5），MM_AUTO_INTERVAL_MIN: 轮换间隔（默认 30 分钟）
+        if (autoSelect) {
+            const selector = new AutoMarketSelector(scanApiKey, baseUrl, {
+                excludeMarketIds: configs.map(cfg => cfg.marketId),
+            });
+            const autoMaxShares = Number(process.env.MM_MAX_SHARES || '100') || 100;
+            const autoOutcome: OutcomeChoice = (process.env.MM_OUTCOME || 'YES').toUpperCase() === 'NO' ? 'NO' : 'YES';
+            const topN = Math.max(1, Math.trunc(Number(process.env.MM_AUTO_TOP_N || '5')) || 5);
+            const intervalMin = Math.max(5, Number(process.env.MM_AUTO_INTERVAL_MIN || '30') || 30);
+
+            multiMaker.enableRotation({ topN, intervalMs: intervalMin * 60 * 1000 }, {
+                rank: () => selector.rank(),
+                buildConfig: async (score) => {
+                    const market = selector.getMarket(score.marketId);
+                    if (!market) {
+                        throw new Error(`市场 ${score.marketId} 不在扫描结果中`);
+                    }
+                    const [cfg] = await convertToConfigs(
+                        [{ market, maxShares: autoMaxShares, outcome: autoOutcome }],
+                        (marketId, outcome) => client.getTokenId(marketId, outcome),
+                        strategy,
+                        (marketId) => client.getMarketTickSize(marketId)
+                    );
+                    if (!cfg) {
+                        throw new Error(`市场 ${score.marketId} 配置生成失败`);
+                    }
+                    applyMarketEnvOverrides(cfg);
+                    await applyHedgeEnv(cfg);
+                    logObs('AUTO_SELECT', cfg.marketId, { score: score.score, components: score.components, metrics: score.metrics });
+                    return cfg;
+                },
+            });
+        }
+
+        // 7. 账户级风控 (与 Dashboard 共享熔断开关和当日盈亏)
+        const riskManager = initRiskManager({ source: 'market-maker' });
+        const mm = multiMaker;
+        riskManager.setExposureProvider(() => mm.getRiskExposure());
+        riskManager.on('halt', (halt: RiskHaltState) => {
+            void tgSend(`[MM] ⛔ 风控熔断 (${halt.limit}): ${halt.reason}\n已紧急停止做市，需在 Dashboard 手动解除`);
+        });
+        riskManager.on('resume', () => {
+            void tgSend('[MM] ✅ 风控熔断已解除');
+        });
+        riskManager.start();
+
+        // 8. 启动
         console.log(`\n${c.cyan}正在启动做市引擎...${c.reset}\n`);
         await multiMaker.start();
 
@@ -756,15 +982,36 @@ async function main(): Promise<void> {
             }).join('\n')
         );
 
-        // 8. 启动监控面板 (React)
+        // 9. 启动监控面板 (React)
         pushUISnapshot();
         uiInstance = render(<MarketMakerUI emitter={uiEmitter} initialSnapshot={buildUISnapshot()} />);
         const uiTimer = setInterval(() => pushUISnapshot(), 1000);
         uiTimer.unref?.();
+        const pnlTimer = setInterval(() => refreshPnLHistory(), 60_000);
+        pnlTimer.unref?.();
+
+        // 远程控制指令 (Dashboard / Telegram /mm stop)
+        const controlSince = Date.now();
+        const controlTimer = setInterval(() => {
+            const request = consumeMarketMakerControl(controlSince);
+            if (request && multiMaker && request.command === 'stop' && !multiMaker.isEmergencyStopped()) {
+                multiMaker.setEmergencyStop(true);
+                void tgSend(`[MM] ⛔ 已紧急停止 (${request.reason})`);
+            }
+            if (multiMaker) {
+                try {
+                    writeMarketMakerHeartbeat(multiMaker.isEmergencyStopped());
+                } catch { /* ignore */ }
+            }
+        }, 2000);
+        controlTimer.unref?.();
 
-        // 9. 处理退出
+        // 10. 处理退出
         process.on('SIGINT', async () => {
             clearInterval(uiTimer);
+            clearInterval(pnlTimer);
+            clearInterval(controlTimer);
+            clearMarketMakerHeartbeat();
             uiInstance?.unmount();
 
             console.log(`\n\n${c.cyan}正在停止...${c.reset}`);
@@ -772,6 +1019,8 @@ async function main(): Promise<void> {
             if (multiMaker) {
                 await multiMaker.stop();
             }
+            fillLedger?.close();
+            stopRiskManager();
 
             await tgSend('[MM] 已停止 (SIGINT)');
             console.log(`${c.green}已安全退出${c.reset}`);
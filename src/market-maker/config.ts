@@ -2,7 +2,7 @@
  * Predict 做市模块 - 配置管理
  */
 
-import type { GlobalConfig, MarketMakerConfig } from './types.js';
+import type { AutoSelectConfig, GlobalConfig, HedgeConfig, MarketMakerConfig, MarketRotationConfig } from './types.js';
 
 // ============================================================================
 // 默认配置
@@ -20,6 +20,18 @@ export const DEFAULT_GLOBAL_CONFIG: GlobalConfig = {
     maxConsecutiveErrors: 5,       // 连续 5 次错误后暂停
     emergencyStop: false,          // 紧急停止开关
     sizeEpsilon: 0.1,              // Delta 失衡保护：尺寸容差 0.1 shares
+
+    // WS 事件驱动
+    eventDriven: true,             // 订单簿/钱包事件触发报价
+    requoteDebounceMs: 50,         // 推送合并窗口 50ms
+    staleFallbackMs: 5000,         // 5 秒无推送走 REST 兜底
+};
+
+export const STRATEGY_LABELS: Record<MarketMakerStrategy, string> = {
+    FOLLOW: '跟随 (FOLLOW)',
+    SCALP: '剥头皮 (SCALP)',
+    SKEW: '库存偏移 (SKEW)',
+    LADDER: '多档阶梯 (LADDER)',
 };
 
 export const DEFAULT_MARKET_CONFIG: Partial<MarketMakerConfig> = {
@@ -35,6 +47,46 @@ export const DEFAULT_MARKET_CONFIG: Partial<MarketMakerConfig> = {
     maxScalpSellOrders: 10,        // SCALP 策略: 最大卖单数量
 };
 
+export const DEFAULT_HEDGE_CONFIG: Omit<HedgeConfig, 'polymarketConditionId'> = {
+    thresholdShares: 10,           // 未对冲超过 10 shares 时对冲
+    maxPairCost: 0.98,             // 两边合计成本不超过 98¢（锁定至少 2¢）
+    maxHedgedShares: 500,          // 锁定持仓上限
+};
+
+export const DEFAULT_AUTO_SELECT_CONFIG: AutoSelectConfig = {
+    weights: {
+        spread: 0.2,
+        volume: 0.25,
+        depth: 0.15,
+        fee: 0.1,
+        boost: 0.1,
+        time: 0.1,
+        volatility: 0.1,
+    },
+    targetSpreadCents: 4,          // 价差 4¢ 满分
+    minSpreadCents: 1,             // 1¢ 以下没有做市空间
+    maxSpreadCents: 15,            // 15¢ 以上视为无效盘口
+    volumeRefUsd: 50000,           // 24h $50k 满分
+    depthRefUsd: 5000,             // ±5¢ 内 $5k 满分
+    depthRangeCents: 5,
+    maxFeeRateBps: 200,            // 2% 手续费得 0 分
+    minHoursToResolution: 24,      // 24 小时内结算的市场不做
+    timeRefHours: 24 * 7,          // 7 天满分
+    volatilityRefCents: 3,         // 中间价标准差 3¢ 得 0 分
+    minMidPrice: 0.05,
+    maxMidPrice: 0.95,
+    maxCandidates: 30,
+    excludeMarketIds: [],
+};
+
+export const DEFAULT_ROTATION_CONFIG: MarketRotationConfig = {
+    intervalMs: 30 * 60 * 1000,    // 30 分钟轮换一次
+    topN: 5,
+    retainBuffer: 2,               // 跌出前 topN+2 才退出
+    minHoldMs: 30 * 60 * 1000,     // 至少持有 30 分钟
+    unwindTimeoutMs: 2 * 60 * 60 * 1000,  // 只减仓 2 小时仍有持仓时告警
+};
+
 // ============================================================================
 // 配置验证
 // ============================================================================
@@ -74,12 +126,56 @@ export function validateMarketConfig(config: MarketMakerConfig): string[] {
         }
     }
 
+    const params = config.strategyParams;
+    if (params) {
+        if (params.riskAversion !== undefined && !(params.riskAversion > 0)) {
+            errors.push('strategyParams.riskAversion 必须大于 0');
+        }
+        if (params.volatility !== undefined && !(params.volatility >= 0)) {
+            errors.push('strategyParams.volatility 不能为负数');
+        }
+        if (params.horizonSec !== undefined && !(params.horizonSec > 0)) {
+            errors.push('strategyParams.horizonSec 必须大于 0');
+        }
+        if (params.orderArrival !== undefined && !(params.orderArrival > 0)) {
+            errors.push('strategyParams.orderArrival 必须大于 0');
+        }
+        if (params.levels !== undefined && !(Number.isInteger(params.levels) && params.levels >= 1 && params.levels <= 10)) {
+            errors.push('strategyParams.levels 必须是 1-10 的整数');
+        }
+        if (params.levelSpacingTicks !== undefined && !(Number.isInteger(params.levelSpacingTicks) && params.levelSpacingTicks >= 1)) {
+            errors.push('strategyParams.levelSpacingTicks 必须是正整数');
+        }
+        if (params.sizeDecay !== undefined && !(params.sizeDecay > 0 && params.sizeDecay <= 1)) {
+            errors.push('strategyParams.sizeDecay 必须在 (0, 1] 之间');
+        }
+    }
+
     if (config.maxBuyPrice !== undefined && config.minSellPrice !== undefined) {
         if (config.minSellPrice > config.maxBuyPrice) {
             errors.push('价格区间无效：minSellPrice 不能大于 maxBuyPrice');
         }
     }
 
+    const hedge = config.hedge;
+    if (hedge) {
+        if (!hedge.polymarketConditionId) {
+            errors.push('hedge.polymarketConditionId 不能为空');
+        }
+        if (!(hedge.thresholdShares > 0)) {
+            errors.push('hedge.thresholdShares 必须大于 0');
+        }
+        if (!(hedge.maxPairCost > 0 && hedge.maxPairCost < 1)) {
+            errors.push('hedge.maxPairCost 必须在 0-1 之间');
+        }
+        if (!(hedge.maxHedgedShares > 0)) {
+            errors.push('hedge.maxHedgedShares 必须大于 0');
+        }
+        if (config.strategy === 'SCALP') {
+            errors.push('对冲模式不支持 SCALP 策略（逐笔卖单无法排除已锁定持仓）');
+        }
+    }
+
     return errors;
 }
 
@@ -98,6 +194,14 @@ export function validateGlobalConfig(config: GlobalConfig): string[] {
         errors.push('maxRetries 不能为负数');
     }
 
+    if (config.requoteDebounceMs < 0) {
+        errors.push('requoteDebounceMs 不能为负数');
+    }
+
+    if (config.staleFallbackMs < config.pollIntervalMs) {
+        errors.push('staleFallbackMs 不能小于 pollIntervalMs');
+    }
+
     return errors;
 }
 
@@ -123,10 +227,12 @@ export function mergeMarketConfig(
         minOrderSize: partial.minOrderSize ?? DEFAULT_MARKET_CONFIG.minOrderSize!,
         tickSize: partial.tickSize ?? DEFAULT_MARKET_CONFIG.tickSize!,
         strategy: partial.strategy ?? DEFAULT_MARKET_CONFIG.strategy!,
+        strategyParams: partial.strategyParams,
         positionPrecisionDecimals: partial.positionPrecisionDecimals ?? DEFAULT_MARKET_CONFIG.positionPrecisionDecimals!,
         maxBuyPrice: partial.maxBuyPrice,
         minSellPrice: partial.minSellPrice,
         maxSpreadCents: partial.maxSpreadCents,
+        hedge: partial.hedge,
     };
 }
 
@@ -28,7 +28,12 @@ import type {
     PredictOrderResponse,
     PositionQueryOptions,
     OrderStatusResult,
+    FifoLot,
+    LedgerEntryKind,
 } from './types.js';
+import type { WalletEventData } from '../services/predict-ws-client.js';
+import { createQuoteStrategy, type QuoteLadders, type QuoteLevel, type QuoteStrategy } from './strategies/index.js';
+import { consumeLots, lotsAverageCost, lotsPosition, realizeSell, type FillLedger } from './fill-ledger.js';
 
 // ============================================================================
 // 做市引擎
@@ -40,11 +45,14 @@ export class MarketMakerEngine {
     private state: MarketState;
     private stats: TradingStats;
     private events: MarketMakerEvents;
+    private lots: FifoLot[] = [];       // FIFO 持仓批次（有账本时启动回放恢复）
+    private quoteStrategy: QuoteStrategy;
 
     // 状态锁，防止并发
     private isProcessing = false;
     private lastBuyAdjustTime = 0;
     private lastSellAdjustTime = 0;
+    private lastLadderAdjustTime = { BUY: 0, SELL: 0 };
 
     // 风控计数器
     private consecutiveErrors = 0;
@@ -63,6 +71,15 @@ export class MarketMakerEngine {
     private sellOrderUnknownCount = 0;
     private readonly MAX_UNKNOWN_COUNT = 3; // 连续 3 次 UNKNOWN 后强制清除本地状态
 
+    // WS 事件驱动（由 MultiMarketMaker 推送订单簿/钱包事件）
+    private pushedBook: { book: { bids: [number, number][]; asks: [number, number][] }; receivedAt: number } | null = null;
+    private walletEventsLive = false;   // 钱包事件可用时，订单列表只在事件/兜底间隔时拉取
+    private orderSyncRequested = true;  // 下一 tick 必须拉取订单列表
+    private lastOrderSyncAt = 0;
+    private lastTickAt = 0;
+    private requoteTimer: ReturnType<typeof setTimeout> | null = null;
+    private tickRequested = false;      // tick 进行中收到新事件，结束后补跑一次
+
     // 外部依赖（通过构造函数注入）
     private fetchOrderBook: (marketId: number) => Promise<{ bids: [number, number][]; asks: [number, number][] } | null>;
     private fetchOrders: (marketId: number) => Promise<PredictOrderResponse[]>;
@@ -72,6 +89,7 @@ export class MarketMakerEngine {
     private cancelOrder: (orderId: string) => Promise<boolean>;
     private cancelOrders?: (orderIds: string[]) => Promise<{ removed: string[]; noop: string[] }>;
     private getMarketTickSize?: (marketId: number) => Promise<number>;  // 可选：获取市场价格精度
+    private fillLedger?: FillLedger;  // 可选：成交账本
 
     constructor(
         config: MarketMakerConfig,
@@ -82,6 +100,7 @@ export class MarketMakerEngine {
         this.config = config;
         this.globalConfig = globalConfig;
         this.events = events;
+        this.quoteStrategy = createQuoteStrategy(config);
 
         // 注入依赖
         this.fetchOrderBook = dependencies.fetchOrderBook;
@@ -92,6 +111,7 @@ export class MarketMakerEngine {
         this.cancelOrder = dependencies.cancelOrder;
         this.cancelOrders = dependencies.cancelOrders;
         this.getMarketTickSize = dependencies.getMarketTickSize;
+        this.fillLedger = dependencies.fillLedger;
 
         // 初始化状态
         this.state = {
@@ -102,11 +122,14 @@ export class MarketMakerEngine {
             activeSellOrder: null,
             scalpSellOrders: [],       // SCALP 多卖单
             pendingSellOrders: [],     // 待挂卖单队列
+            ladderOrders: [],          // 多档挂单（第 2 档起）
             lastBestBid: 0,
             lastBestAsk: 0,
             lastSpread: 0,
             lastUpdateMs: 0,
             status: 'idle',
+            reduceOnly: false,
+            hedgedShares: 0,
         };
 
         // 初始化统计
@@ -142,11 +165,11 @@ export class MarketMakerEngine {
         this.emitStateChange();
 
         try {
-            // 1. 获取市场精度（如果使用剥头皮策略且未指定 tickSize）
-            if (this.config.strategy === 'SCALP' && this.getMarketTickSize) {
+            // 1. 获取市场精度（按 tick 偏移报价的策略）
+            if (this.quoteStrategy.requiresTickSize && this.getMarketTickSize) {
                 const tickSize = await this.getMarketTickSize(this.config.marketId);
                 this.config.tickSize = tickSize;
-                console.log(`[MM ${this.config.marketId}] 剥头皮策略: tickSize=${tickSize}`);
+                console.log(`[MM ${this.config.marketId}] ${this.quoteStrategy.name} 策略: tickSize=${tickSize}`);
             }
 
             // 2. 获取当前持仓
@@ -170,8 +193,14 @@ export class MarketMakerEngine {
                 }
             }
 
+            // 4.5 从成交账本恢复 FIFO 批次，并与链上持仓对账
+            this.restoreFromLedger(book?.bids[0]?.[0] ?? 0);
+
             // 5. SCALP 策略: 初始化已有持仓的卖单
-            if (this.config.strategy === 'SCALP') {
+            if (this.usesPerFillAsks()) {
+                // 卖单成本按 FIFO 从账本批次分配（无账本时按卖价 - 1 tick 估算）
+                const lotsForOrders = this.lots.map(lot => ({ ...lot }));
+
                 // 同步 API 中已有的 SELL 订单到 scalpSellOrders
                 const sellOrders = orders.filter(o =>
                     o.order?.marketId === this.config.marketId &&
@@ -189,7 +218,8 @@ export class MarketMakerEngine {
                             filledQuantity: o.order.quantityFilled,
                             status: o.order.status as 'OPEN' | 'PARTIALLY_FILLED',
                             createdAt: new Date(o.order.createdAt),
-                            costPrice: o.order.price - this.config.tickSize, // 估算成本
+                            costPrice: this.takeLotCost(lotsForOrders, o.order.quantity - o.order.quantityFilled)
+                                ?? o.order.price - this.config.tickSize,
                             costQuantity: o.order.quantity,
                         });
                     }
@@ -203,14 +233,26 @@ export class MarketMakerEngine {
                 const effectivePosition = this.getEffectivePosition();
                 const uncoveredPosition = effectivePosition - totalSellQty;
 
-                if (uncoveredPosition > 0 && book && book.bids.length > 0) {
-                    const bestBid = book.bids[0][0];
-                    // 将未覆盖的持仓加入待挂卖单队列
-                    this.state.pendingSellOrders.push({
-                        buyPrice: bestBid,  // 以当前买一价作为成本估算
-                        buyQuantity: uncoveredPosition,
-                        createdAt: new Date(),
-                    });
+                if (uncoveredPosition > 0) {
+                    // 将未覆盖的持仓加入待挂卖单队列：优先使用账本批次成本
+                    let toCover = uncoveredPosition;
+                    for (const lot of lotsForOrders) {
+                        if (toCover <= 0) break;
+                        const qty = Math.min(lot.quantity, toCover);
+                        this.state.pendingSellOrders.push({
+                            buyPrice: lot.price,
+                            buyQuantity: qty,
+                            createdAt: new Date(),
+                        });
+                        toCover -= qty;
+                    }
+                    if (toCover > 0 && book && book.bids.length > 0) {
+                        this.state.pendingSellOrders.push({
+                            buyPrice: book.bids[0][0],  // 以当前买一价作为成本估算
+                            buyQuantity: toCover,
+                            createdAt: new Date(),
+                        });
+                    }
                     console.log(`[MM ${this.config.marketId}] SCALP 初始化: 持仓 ${effectivePosition} 中有 ${uncoveredPosition} 未覆盖，加入待挂队列`);
                 }
 
@@ -220,8 +262,8 @@ export class MarketMakerEngine {
 
                 // 检查是否需要取消不必要的买单
                 // 如果持仓 >= maxShares，不应该有买单
-                if (effectivePosition >= this.config.maxShares && this.state.activeBuyOrder) {
-                    console.log(`[MM ${this.config.marketId}] SCALP 初始化: 持仓已满 (${effectivePosition} >= ${this.config.maxShares})，取消多余买单`);
+                if (effectivePosition >= this.getMaxShares() && this.state.activeBuyOrder) {
+                    console.log(`[MM ${this.config.marketId}] SCALP 初始化: 持仓已满 (${effectivePosition} >= ${this.getMaxShares()})，取消多余买单`);
                     try {
                         await this.cancelOrder(this.state.activeBuyOrder.id);
                         this.state.activeBuyOrder = null;
@@ -235,7 +277,7 @@ export class MarketMakerEngine {
             this.state.lastUpdateMs = Date.now();
             this.emitStateChange();
 
-            const scalpInfo = this.config.strategy === 'SCALP'
+            const scalpInfo = this.usesPerFillAsks()
                 ? `, 多卖单=${this.state.scalpSellOrders.length}, 待挂=${this.state.pendingSellOrders.length}`
                 : '';
             console.log(`[MM ${this.config.marketId}] [${this.config.outcome}] 初始化完成: 持仓=${this.state.position}, 买单=${this.state.activeBuyOrder?.quantity ?? 0}, 卖单=${this.state.activeSellOrder?.quantity ?? 0}${scalpInfo}`);
@@ -270,20 +312,24 @@ export class MarketMakerEngine {
             return;
         }
 
-        // 防止并发
+        // 防止并发（事件驱动时记下请求，结束后补跑）
         if (this.isProcessing) {
+            if (this.globalConfig.eventDriven) {
+                this.tickRequested = true;
+            }
             return;
         }
 
         this.isProcessing = true;
+        this.lastTickAt = Date.now();
         const errorsAtStart = this.consecutiveErrors;
 
         try {
             // 1. 同步状态
-            await this.syncState();
+            const ordersSynced = await this.syncState();
 
             // 1.5 SCALP 策略: 同步多卖单状态
-            if (this.config.strategy === 'SCALP') {
+            if (this.usesPerFillAsks() && ordersSynced) {
                 const orders = await this.fetchOrders(this.config.marketId);
                 await this.syncScalpSellOrders(orders);
             }
@@ -298,10 +344,13 @@ export class MarketMakerEngine {
             const prices = this.extractPrices(book);
             this.emitPriceUpdate(prices);
 
+            // 2.5 策略报价（目标买/卖阶梯）
+            const quotes = this.buildQuotes(book, prices);
+
             // 风控检查：价格运行区间（可选）
             // - 卖一价不低于 minSellPrice
             // - 买一价不高于 maxBuyPrice
-            const inRange = await this.enforcePriceRange(prices);
+            const inRange = await this.enforcePriceRange(prices, quotes);
             if (!inRange) {
                 // 价格越界时暂停下单（并已撤单），等待回到区间再恢复
                 this.state.lastBestBid = prices.bestBid;
@@ -340,6 +389,7 @@ export class MarketMakerEngine {
                             console.error(`[MM ${this.config.marketId}] 取消买单失败:`, error);
                         }
                     }
+                    await this.cancelLadderOrders('BUY');
 
                     // 更新状态为 spread_paused
                     if (this.state.status !== 'range_paused' || !this.state.errorMessage?.includes('价差过大')) {
@@ -351,13 +401,15 @@ export class MarketMakerEngine {
                     // 继续管理卖单（不 return）
                     // SCALP 策略: 只同步现有多卖单状态，不挂新卖单（因为买单已取消）
                     // FOLLOW 策略: 继续管理单卖单
-                    if (this.config.strategy === 'SCALP') {
+                    if (this.usesPerFillAsks()) {
                         // SCALP: 同步多卖单状态（检测成交、移除已完成订单）
-                        const orders = await this.fetchOrders(this.config.marketId);
-                        await this.syncScalpSellOrders(orders);
+                        if (ordersSynced) {
+                            const orders = await this.fetchOrders(this.config.marketId);
+                            await this.syncScalpSellOrders(orders);
+                        }
                         // 不处理 pendingSellOrders，因为价差过大时不应挂新卖单
                     } else {
-                        await this.manageSellOrderOnly(prices.bestAsk, prices.bestBid);
+                        await this.manageSellOrderOnly(quotes, prices.bestAsk, prices.bestBid);
                     }
 
                     // 更新状态
@@ -386,28 +438,34 @@ export class MarketMakerEngine {
                 return;
             }
 
-            // 3. 计算目标订单（传入双边价格，用于交叉检查）
-            const buyDelta = this.calculateBuyDelta(prices.bestBid, prices.bestAsk);
+            // 3. 计算目标订单（第 1 档，传入双边价格，用于交叉检查）
+            const buyDelta = this.calculateBuyDelta(quotes.bids[0], prices.bestBid, prices.bestAsk);
 
             // 4. 执行订单调整（串行，避免状态冲突）
             if (buyDelta.action !== 'NONE') {
-                await this.executeDelta(buyDelta);
+                await this.executeDelta(this.withQuoteNote(buyDelta, quotes));
             }
 
             // 5. 卖单处理
-            if (this.config.strategy === 'SCALP') {
+            if (this.usesPerFillAsks()) {
                 // SCALP 策略: 检查是否有未覆盖的持仓需要挂卖单
                 await this.checkUncoveredPosition(prices.bestBid);
                 // SCALP 策略: 处理待挂卖单队列（多卖单）
                 await this.processScalpSellOrders();
             } else {
-                // FOLLOW 策略: 单卖单对账式管理
-                const sellDelta = this.calculateSellDelta(prices.bestAsk, prices.bestBid);
+                // 单卖单对账式管理（第 1 档）
+                const sellDelta = this.calculateSellDelta(quotes.asks[0], prices.bestAsk, prices.bestBid);
                 if (sellDelta.action !== 'NONE') {
-                    await this.executeDelta(sellDelta);
+                    await this.executeDelta(this.withQuoteNote(sellDelta, quotes));
                 }
             }
 
+            // 6. 多档策略: 第 2 档及以后
+            await this.reconcileLadderOrders('BUY', quotes.bids.slice(1), prices);
+            if (!this.usesPerFillAsks()) {
+                await this.reconcileLadderOrders('SELL', quotes.asks.slice(1), prices);
+            }
+
             // 更新状态
             this.state.lastBestBid = prices.bestBid;
             this.state.lastBestAsk = prices.bestAsk;
@@ -423,9 +481,98 @@ export class MarketMakerEngine {
             if (this.consecutiveErrors === errorsAtStart) {
                 this.consecutiveErrors = 0;
             }
+            if (this.tickRequested) {
+                this.tickRequested = false;
+                this.requestTick();
+            }
         }
     }
 
+    /**
+     * 请求一次 tick（事件驱动，requoteDebounceMs 内的多次请求合并为一次）
+     */
+    requestTick(delayMs: number = this.globalConfig.requoteDebounceMs): void {
+        if (this.requoteTimer) return;
+        this.requoteTimer = setTimeout(() => {
+            this.requoteTimer = null;
+            void this.tick();
+        }, delayMs);
+    }
+
+    /**
+     * WS 订单簿推送（YES 订单簿，NO outcome 在 getOrderBook 中转换）
+     */
+    onOrderbookUpdate(book: { bids: [number, number][]; asks: [number, number][] }): void {
+        this.pushedBook = { book, receivedAt: Date.now() };
+        this.requestTick();
+    }
+
+    /**
+     * WS 钱包事件：本市场订单成交/撤单/过期/拒绝时，下一 tick 立即对账
+     *
+     * 成交量仍以订单列表的 filledQuantity 增量为准（事件只做触发，避免重复记账）
+     *
+     * @returns 事件是否属于本市场订单
+     */
+    onWalletEvent(event: WalletEventData): boolean {
+        if (!this.ownsOrder(event.orderHash, event.orderId)) {
+            return false;
+        }
+        if (event.type === 'ORDER_ACCEPTED' || event.type === 'ORDER_TX_PENDING') {
+            return true;
+        }
+
+        if (event.type === 'ORDER_FILLED' || event.type === 'ORDER_PARTIALLY_FILLED') {
+            console.log(`[MM ${this.config.marketId}] WS ${event.type}: hash=${event.orderHash}, filled=${event.filledQty ?? '-'}, remaining=${event.remainingQty ?? '-'}`);
+        }
+        this.orderSyncRequested = true;
+        this.requestTick(0);
+        return true;
+    }
+
+    /**
+     * 钱包事件订阅状态（不可用时每 tick 拉取订单列表）
+     */
+    setWalletEventsLive(live: boolean): void {
+        if (this.walletEventsLive && !live) {
+            this.orderSyncRequested = true;
+        }
+        this.walletEventsLive = live;
+    }
+
+    /**
+     * 只减仓模式：买入上限视为 0（撤买单、不再买入），卖单照常挂出直到清仓
+     */
+    setReduceOnly(enabled: boolean): void {
+        if (this.state.reduceOnly === enabled) return;
+        this.state.reduceOnly = enabled;
+        console.log(`[MM ${this.config.marketId}] ${enabled ? '进入只减仓模式' : '恢复正常做市'}`);
+        this.emitStateChange();
+        this.requestTick(0);
+    }
+
+    isReduceOnly(): boolean {
+        return this.state.reduceOnly;
+    }
+
+    /**
+     * 已对冲锁定的持仓：不再挂卖单，也不占用买入上限（由 MultiMarketMaker 对冲后更新）
+     */
+    setHedgedShares(shares: number): void {
+        const next = Math.max(0, shares);
+        if (Math.abs(next - this.state.hedgedShares) < 1e-9) return;
+        this.state.hedgedShares = next;
+        this.emitStateChange();
+        this.requestTick(0);
+    }
+
+    /**
+     * 上次 tick 开始时间（MultiMarketMaker 兜底轮询用）
+     */
+    getLastTickAt(): number {
+        return this.lastTickAt;
+    }
+
     /**
      * 暂停做市
      */
@@ -455,7 +602,7 @@ export class MarketMakerEngine {
         return Math.round(price / tick) * tick;
     }
 
-    private async enforcePriceRange(prices: PriceSnapshot): Promise<boolean> {
+    private async enforcePriceRange(prices: PriceSnapshot, quotes: QuoteLadders): Promise<boolean> {
         const maxBuy = this.config.maxBuyPrice !== undefined
             ? this.alignToTick(this.config.maxBuyPrice)
             : undefined;
@@ -472,15 +619,12 @@ export class MarketMakerEngine {
             return true;
         }
 
-        const buyRefPrice = this.alignToTick(prices.bestBid);
+        // 参考价与实际挂单一致：策略第 1 档；SCALP 卖价=买一价+tick
+        const buyRefPrice = this.alignToTick(quotes.bids[0]?.price ?? prices.bestBid);
 
-        // 卖价参考：FOLLOW=卖一价，SCALP=买一价+tick（与实际挂单一致）
-        let sellRefPrice = prices.bestAsk;
-        if (this.config.strategy === 'SCALP') {
-            let scalpPrice = prices.bestBid + this.config.tickSize;
-            scalpPrice = Math.max(this.config.tickSize, Math.min(1 - this.config.tickSize, scalpPrice));
-            scalpPrice = Math.round(scalpPrice / this.config.tickSize) * this.config.tickSize;
-            sellRefPrice = scalpPrice;
+        let sellRefPrice = quotes.asks[0]?.price ?? prices.bestAsk;
+        if (this.usesPerFillAsks()) {
+            sellRefPrice = this.perFillAskPrice(prices.bestBid);
         }
         sellRefPrice = this.alignToTick(sellRefPrice);
 
@@ -540,7 +684,7 @@ export class MarketMakerEngine {
     private async checkDeltaImbalance(): Promise<boolean> {
         const epsilon = this.globalConfig.sizeEpsilon;
         const effectivePosition = this.getEffectivePosition();
-        const maxShares = this.config.maxShares;
+        const maxShares = this.getMaxShares();
 
         // 计算目标量
         const targetBuy = Math.max(0, maxShares - effectivePosition);  // 还能买多少
@@ -602,7 +746,7 @@ export class MarketMakerEngine {
      * 仅管理卖单（spread 过大时调用）
      * 买单已在 tick 中取消，这里只处理卖单
      */
-    private async manageSellOrderOnly(bestAsk: number, bestBid: number): Promise<void> {
+    private async manageSellOrderOnly(quotes: QuoteLadders, bestAsk: number, bestBid: number): Promise<void> {
         const effectivePosition = this.getEffectivePosition();
         const openSellRemaining = this.state.activeSellOrder
             ? (this.state.activeSellOrder.quantity - this.state.activeSellOrder.filledQuantity)
@@ -627,12 +771,13 @@ export class MarketMakerEngine {
         }
 
         // 计算卖单价格
-        const sellDelta = this.calculateSellDelta(bestAsk, bestBid);
+        const sellDelta = this.calculateSellDelta(quotes.asks[0], bestAsk, bestBid);
 
         // 执行卖单调整
         if (sellDelta.action !== 'NONE') {
-            await this.executeDelta(sellDelta);
+            await this.executeDelta(this.withQuoteNote(sellDelta, quotes));
         }
+        await this.reconcileLadderOrders('SELL', quotes.asks.slice(1), { bestBid, bestAsk });
     }
 
     // ========================================================================
@@ -689,10 +834,8 @@ export class MarketMakerEngine {
 
             const pending = this.state.pendingSellOrders.shift()!;
 
-            // 计算卖出价格 = 买入价 + 1 tick
-            let sellPrice = pending.buyPrice + this.config.tickSize;
-            sellPrice = Math.max(this.config.tickSize, Math.min(1 - this.config.tickSize, sellPrice));
-            sellPrice = Math.round(sellPrice / this.config.tickSize) * this.config.tickSize;
+            // 计算卖出价格（SCALP: 买入价 + 1 tick）
+            const sellPrice = this.perFillAskPrice(pending.buyPrice);
 
             // 价格区间检查
             if (this.config.minSellPrice !== undefined && sellPrice < this.config.minSellPrice) {
@@ -807,9 +950,10 @@ export class MarketMakerEngine {
         this.stats.totalSellVolume += quantity;
         this.stats.totalSellValue += sellPrice * quantity;
 
-        // 计算已实现盈亏（使用精确成本）
-        const sellProfit = (sellPrice - costPrice) * quantity;
+        // 计算已实现盈亏（优先扣减该卖单对应成本的批次）
+        const sellProfit = realizeSell(this.lots, sellPrice, quantity, costPrice);
         this.stats.realizedPnL += sellProfit;
+        this.stats.inventoryCost = lotsAverageCost(this.lots);
 
         this.stats.avgSellPrice = this.stats.totalSellValue / this.stats.totalSellVolume;
         this.stats.lastTradeTime = new Date();
@@ -823,6 +967,7 @@ export class MarketMakerEngine {
             quantity,
             filledAt: new Date(),
         };
+        this.writeLedger(fill, costPrice, sellProfit);
         this.events.onFill?.(fill);
         console.log(`[MM ${this.config.marketId}] SCALP: 已实现盈亏 +$${sellProfit.toFixed(4)} (${quantity} × ${(sellPrice - costPrice).toFixed(4)})`);
     }
@@ -831,6 +976,10 @@ export class MarketMakerEngine {
      * 停止并取消所有订单
      */
     async stop(): Promise<void> {
+        if (this.requoteTimer) {
+            clearTimeout(this.requoteTimer);
+            this.requoteTimer = null;
+        }
         this.state.status = 'idle';
 
         try {
@@ -845,10 +994,18 @@ export class MarketMakerEngine {
         this.state.activeSellOrder = null;
         this.state.scalpSellOrders = [];
         this.state.pendingSellOrders = [];
+        this.state.ladderOrders = [];
 
         this.emitStateChange();
     }
 
+    /**
+     * 获取市场配置
+     */
+    getConfig(): MarketMakerConfig {
+        return { ...this.config };
+    }
+
     /**
      * 获取当前状态
      */
@@ -863,6 +1020,13 @@ export class MarketMakerEngine {
         return { ...this.stats };
     }
 
+    /**
+     * 当前买入上限（只减仓模式为 0）
+     */
+    private getMaxShares(): number {
+        return this.state.reduceOnly ? 0 : this.config.maxShares;
+    }
+
     // ========================================================================
     // 核心逻辑
     // ========================================================================
@@ -877,17 +1041,37 @@ export class MarketMakerEngine {
         const decimalsRaw = this.config.positionPrecisionDecimals ?? 2;
         const decimals = Number.isFinite(decimalsRaw) ? Math.max(0, Math.min(8, Math.trunc(decimalsRaw))) : 2;
         const factor = Math.pow(10, decimals);
-        const floored = Math.floor(this.state.position * factor) / factor;
+        // 扣除已对冲锁定的持仓
+        const floored = Math.floor((this.state.position - this.state.hedgedShares) * factor) / factor;
         return Number.isFinite(floored) ? Math.max(0, floored) : 0;
     }
 
-    private calculateBuyDelta(bestBid: number, bestAsk: number): OrderDelta {
+    private calculateBuyDelta(level: QuoteLevel | undefined, bestBid: number, bestAsk: number): OrderDelta {
         const current = this.state.activeBuyOrder;
         const openBuyRemaining = current ? (current.quantity - current.filledQuantity) : 0;
         const effectivePosition = this.getEffectivePosition();
 
+        // 策略目标（第 1 档），数量不超过可买量
+        const targetPrice = level?.price ?? 0;
+        const targetQty = Math.max(0, Math.min(level?.quantity ?? 0, this.getMaxShares() - effectivePosition));
+
         // 计算目标买单量（对账式：当前缺口）
-        const desiredBuy = this.config.maxShares - effectivePosition - openBuyRemaining;
+        const desiredBuy = targetQty - openBuyRemaining;
+
+        // 只减仓：不保留买单
+        if (this.state.reduceOnly) {
+            if (current) {
+                return {
+                    action: 'CANCEL',
+                    side: 'BUY',
+                    currentOrder: current,
+                    targetPrice: 0,
+                    targetQuantity: 0,
+                    reason: '只减仓，取消买单',
+                };
+            }
+            return { action: 'NONE', side: 'BUY', currentOrder: null, targetPrice: 0, targetQuantity: 0 };
+        }
 
         // 不变量检查：position + openBuyRemaining <= maxPosition
         if (effectivePosition + openBuyRemaining > this.config.maxShares + 1e-9) {
@@ -906,8 +1090,9 @@ export class MarketMakerEngine {
         }
 
         // 价格交叉检查：buyPrice < sellPrice（避免自成交）
-        if (current && bestBid >= bestAsk) {
-            console.warn(`[MM ${this.config.marketId}] 价格交叉: bid(${bestBid}) >= ask(${bestAsk})，暂停买单`);
+        const crossed = bestBid >= bestAsk || targetPrice >= bestAsk;
+        if (current && crossed) {
+            console.warn(`[MM ${this.config.marketId}] 价格交叉: bid(${targetPrice}) >= ask(${bestAsk})，暂停买单`);
             return {
                 action: 'CANCEL',
                 side: 'BUY',
@@ -921,12 +1106,12 @@ export class MarketMakerEngine {
         // 没有买单，检查是否需要新挂
         if (!current) {
             // 需要新挂买单
-            if (desiredBuy > 0 && bestBid < bestAsk) {
+            if (desiredBuy > 0 && targetPrice > 0 && !crossed) {
                 return {
                     action: 'PLACE',
                     side: 'BUY',
                     currentOrder: null,
-                    targetPrice: bestBid,
+                    targetPrice,
                     targetQuantity: desiredBuy,
                     reason: '新挂买单',
                 };
@@ -934,22 +1119,32 @@ export class MarketMakerEngine {
             return { action: 'NONE', side: 'BUY', currentOrder: null, targetPrice: 0, targetQuantity: 0 };
         }
 
+        // 策略撤掉买单（例如库存偏移策略的持仓已满）
+        if (!level || targetPrice <= 0) {
+            return {
+                action: 'CANCEL',
+                side: 'BUY',
+                currentOrder: current,
+                targetPrice: 0,
+                targetQuantity: 0,
+                reason: `${this.quoteStrategy.name} 策略无买单`,
+            };
+        }
+
         // 已有买单，检查是否需要调整
         // 【安全边界】价格变化阈值：避免浮点数精度问题导致的无效调整
-        const priceDiff = Math.abs(current.price - bestBid);
+        const priceDiff = Math.abs(current.price - targetPrice);
         const priceChanged = priceDiff >= this.config.tickSize * 0.5; // 价格变化超过半个 tick 才算变化
 
         // 如果价格变了，或者需要的量变了（因为部分成交后需要补单）
         if (priceChanged && openBuyRemaining > 0) {
-            // 计算新的目标量 = 当前剩余 + 缺口
-            const newTargetQty = Math.max(0, this.config.maxShares - effectivePosition);
             return {
                 action: 'REPLACE',
                 side: 'BUY',
                 currentOrder: current,
-                targetPrice: bestBid,
-                targetQuantity: newTargetQty,
-                reason: `价格变化: ${current.price} → ${bestBid} (diff=${priceDiff.toFixed(6)})`,
+                targetPrice,
+                targetQuantity: targetQty,
+                reason: `价格变化: ${current.price} → ${targetPrice} (diff=${priceDiff.toFixed(6)})`,
             };
         }
 
@@ -957,51 +1152,33 @@ export class MarketMakerEngine {
         // 缺口必须超过 1 才触发补单（小于 $1 的补单没有意义）
         const MIN_GAP_FOR_REPLACE = 1;
         if (desiredBuy > MIN_GAP_FOR_REPLACE) {
-            const newTargetQty = this.config.maxShares - effectivePosition;
             return {
                 action: 'REPLACE',
                 side: 'BUY',
                 currentOrder: current,
-                targetPrice: bestBid,
-                targetQuantity: newTargetQty,
+                targetPrice,
+                targetQuantity: targetQty,
                 reason: `补单: 缺口 ${desiredBuy.toFixed(2)}`,
             };
         }
 
-        return { action: 'NONE', side: 'BUY', currentOrder: current, targetPrice: bestBid, targetQuantity: openBuyRemaining };
+        return { action: 'NONE', side: 'BUY', currentOrder: current, targetPrice, targetQuantity: openBuyRemaining };
     }
 
     /**
      * 计算卖单调整（对账式同步）
      *
-     * 规则：desiredSell = position - openSellRemaining
+     * 规则：desiredSell = 策略目标量（不超过 position）- openSellRemaining
      * 不变量：openSellRemaining <= position
      */
-    private calculateSellDelta(bestAsk: number, bestBid: number): OrderDelta {
+    private calculateSellDelta(level: QuoteLevel | undefined, bestAsk: number, bestBid: number): OrderDelta {
         const current = this.state.activeSellOrder;
         const openSellRemaining = current ? (current.quantity - current.filledQuantity) : 0;
         const effectivePosition = this.getEffectivePosition();
 
-        // 根据策略计算目标卖出价格
-        // SCALP（剥头皮）：买一价 + 1 tick，赚取最小价差
-        // FOLLOW（跟随）：卖一价，被动做市
-        let targetSellPrice: number;
-
-        if (this.config.strategy === 'SCALP') {
-            // 剥头皮策略：bestBid + 1 tick（无价差限制）
-            let scalpPrice = bestBid + this.config.tickSize;
-
-            // 价格钳位到 (0, 1) 区间
-            scalpPrice = Math.max(this.config.tickSize, Math.min(1 - this.config.tickSize, scalpPrice));
-
-            // 对齐到 tick（避免精度问题）
-            scalpPrice = Math.round(scalpPrice / this.config.tickSize) * this.config.tickSize;
-
-            targetSellPrice = scalpPrice;
-        } else {
-            // FOLLOW 策略：跟随卖一价
-            targetSellPrice = bestAsk;
-        }
+        // 策略目标（第 1 档），数量不超过持仓
+        const targetSellPrice = level?.price ?? 0;
+        const targetQty = Math.max(0, Math.min(level?.quantity ?? 0, effectivePosition));
 
         // 不变量检查：openSellRemaining <= position（不能超卖）
         if (openSellRemaining > effectivePosition + 1e-9) {
@@ -1020,10 +1197,10 @@ export class MarketMakerEngine {
         }
 
         // 计算目标卖单量（对账式：当前缺口）
-        const desiredSell = effectivePosition - openSellRemaining;
+        const desiredSell = targetQty - openSellRemaining;
 
-        // 没有持仓，应该取消卖单
-        if (effectivePosition <= 0) {
+        // 没有持仓（或策略不挂卖单），应该取消卖单
+        if (effectivePosition <= 0 || targetQty <= 0 || targetSellPrice <= 0) {
             if (current) {
                 return {
                     action: 'CANCEL',
@@ -1031,13 +1208,13 @@ export class MarketMakerEngine {
                     currentOrder: current,
                     targetPrice: 0,
                     targetQuantity: 0,
-                    reason: '无持仓，取消卖单',
+                    reason: effectivePosition <= 0 ? '无持仓，取消卖单' : `${this.quoteStrategy.name} 策略无卖单`,
                 };
             }
             return { action: 'NONE', side: 'SELL', currentOrder: null, targetPrice: 0, targetQuantity: 0 };
         }
 
-        // 价格交叉检查（剥头皮策略下检查 targetSellPrice 与 bestBid 的关系）
+        // 价格交叉检查
         if (current && targetSellPrice <= bestBid) {
             console.warn(`[MM ${this.config.marketId}] 价格交叉: sellPrice(${targetSellPrice}) <= bid(${bestBid})，暂停卖单`);
             return {
@@ -1059,9 +1236,7 @@ export class MarketMakerEngine {
                     currentOrder: null,
                     targetPrice: targetSellPrice,
                     targetQuantity: desiredSell,
-                    reason: this.config.strategy === 'SCALP'
-                        ? `新挂卖单(剥头皮): bid=${bestBid.toFixed(4)} + tick=${this.config.tickSize}`
-                        : '新挂卖单',
+                    reason: '新挂卖单',
                 };
             }
             return { action: 'NONE', side: 'SELL', currentOrder: null, targetPrice: 0, targetQuantity: 0 };
@@ -1071,16 +1246,15 @@ export class MarketMakerEngine {
         // 【安全边界】价格变化阈值：避免浮点数精度问题导致的无效调整
         const priceDiff = Math.abs(current.price - targetSellPrice);
         const priceChanged = priceDiff >= this.config.tickSize * 0.5; // 价格变化超过半个 tick 才算变化
-        const followSellPrice = this.config.strategy !== 'SCALP';
 
-        if (priceChanged && openSellRemaining > 0 && followSellPrice) {
-            // 价格变了，重挂（目标量 = 当前持仓）
+        if (priceChanged && openSellRemaining > 0) {
+            // 价格变了，重挂
             return {
                 action: 'REPLACE',
                 side: 'SELL',
                 currentOrder: current,
                 targetPrice: targetSellPrice,
-                targetQuantity: effectivePosition,
+                targetQuantity: targetQty,
                 reason: `价格变化: ${current.price} → ${targetSellPrice} (diff=${priceDiff.toFixed(6)})`,
             };
         }
@@ -1094,7 +1268,7 @@ export class MarketMakerEngine {
                 side: 'SELL',
                 currentOrder: current,
                 targetPrice: targetSellPrice,
-                targetQuantity: effectivePosition,
+                targetQuantity: targetQty,
                 reason: `补单: 新增持仓 ${desiredSell.toFixed(2)}`,
             };
         }
@@ -1167,7 +1341,7 @@ export class MarketMakerEngine {
                     console.warn(`[MM ${this.config.marketId}] 检测到 SELL share 不足/冻结，尝试撤销所有 SELL 订单并等待同步`);
                     await this.cancelOrdersBySide('SELL');
                     await this.sleep(500);
-                    await this.syncState();
+                    await this.syncState(true);
                 } catch (recoveryError) {
                     console.error(`[MM ${this.config.marketId}] SELL 自愈失败:`, recoveryError);
                 }
@@ -1180,7 +1354,7 @@ export class MarketMakerEngine {
                     console.warn(`[MM ${this.config.marketId}] 检测到 BUY 抵押品不足/冻结，尝试撤销所有 BUY 订单并等待同步`);
                     await this.cancelOrdersBySide('BUY');
                     await this.sleep(500);
-                    await this.syncState();
+                    await this.syncState(true);
                 } catch (recoveryError) {
                     console.error(`[MM ${this.config.marketId}] BUY 自愈失败:`, recoveryError);
                 }
@@ -1188,6 +1362,220 @@ export class MarketMakerEngine {
         }
     }
 
+    // ========================================================================
+    // 报价策略
+    // ========================================================================
+
+    private usesPerFillAsks(): boolean {
+        return this.quoteStrategy.askMode === 'PER_FILL';
+    }
+
+    private perFillAskPrice(costPrice: number): number {
+        return this.quoteStrategy.perFillAskPrice
+            ? this.quoteStrategy.perFillAskPrice(costPrice, this.config.tickSize)
+            : costPrice + this.config.tickSize;
+    }
+
+    /**
+     * 调用策略计算目标买/卖阶梯
+     */
+    private buildQuotes(
+        book: { bids: [number, number][]; asks: [number, number][] },
+        prices: PriceSnapshot
+    ): QuoteLadders {
+        return this.quoteStrategy.quote({
+            book,
+            bestBid: prices.bestBid,
+            bestAsk: prices.bestAsk,
+            tickSize: this.config.tickSize,
+            position: this.getEffectivePosition(),
+            inventoryCost: this.stats.inventoryCost,
+            maxShares: this.getMaxShares(),
+            config: this.config,
+            now: Date.now(),
+        });
+    }
+
+    private withQuoteNote(delta: OrderDelta, quotes: QuoteLadders): OrderDelta {
+        return quotes.note ? { ...delta, reason: `${delta.reason ?? ''} [${quotes.note}]` } : delta;
+    }
+
+    /**
+     * 多档挂单对账（第 2 档起，第 1 档由 calculateBuyDelta/calculateSellDelta 管理）
+     *
+     * - 按价格匹配已有挂单，剩余量与目标相差超过 1 时重挂
+     * - 目标外的挂单撤销，缺失档位补挂
+     * - 合计数量不超过可买量 / 持仓（扣除第 1 档）
+     */
+    private async reconcileLadderOrders(
+        side: 'BUY' | 'SELL',
+        levels: QuoteLevel[],
+        prices: { bestBid: number; bestAsk: number }
+    ): Promise<void> {
+        const existing = this.state.ladderOrders.filter(o => o.side === side);
+        if (levels.length === 0 && existing.length === 0) return;
+
+        const now = Date.now();
+        if (now - this.lastLadderAdjustTime[side] < this.globalConfig.minAdjustIntervalMs) return;
+
+        // 可用量：扣除第 1 档剩余
+        const first = side === 'BUY' ? this.state.activeBuyOrder : this.state.activeSellOrder;
+        const firstRemaining = first ? first.quantity - first.filledQuantity : 0;
+        const effectivePosition = this.getEffectivePosition();
+        let budget = side === 'BUY'
+            ? this.getMaxShares() - effectivePosition - firstRemaining
+            : effectivePosition - firstRemaining;
+
+        const targets: QuoteLevel[] = [];
+        for (const level of levels) {
+            const crossed = side === 'BUY' ? level.price >= prices.bestAsk : level.price <= prices.bestBid;
+            const quantity = Math.min(level.quantity, Math.max(0, budget));
+            if (crossed || level.price <= 0 || quantity < this.config.minOrderSize) continue;
+            targets.push({ price: level.price, quantity });
+            budget -= quantity;
+        }
+
+        const halfTick = this.config.tickSize * 0.5;
+        const keep = new Set<string>();
+        const toPlace: QuoteLevel[] = [];
+        for (const target of targets) {
+            const match = existing.find(o =>
+                !keep.has(o.id) &&
+                Math.abs(o.price - target.price) < halfTick &&
+                Math.abs((o.quantity - o.filledQuantity) - target.quantity) <= 1
+            );
+            if (match) {
+                keep.add(match.id);
+            } else {
+                toPlace.push(target);
+            }
+        }
+        const toCancel = existing.filter(o => !keep.has(o.id));
+        if (toCancel.length === 0 && toPlace.length === 0) return;
+
+        this.lastLadderAdjustTime[side] = now;
+
+        // 先撤后挂（卖单需释放 shares）
+        for (const order of toCancel) {
+            try {
+                await this.cancelOrder(order.id);
+                this.events.onOrderCancelled?.(this.config.marketId, order.id);
+                this.state.ladderOrders = this.state.ladderOrders.filter(o => o.id !== order.id);
+            } catch (error) {
+                console.error(`[MM ${this.config.marketId}] 多档撤单失败 (ID: ${order.id}):`, error);
+                return;
+            }
+        }
+
+        for (const target of toPlace) {
+            try {
+                const result = await this.placeOrder({
+                    marketId: this.config.marketId,
+                    tokenId: this.config.tokenId,
+                    side,
+                    price: target.price,
+                    quantity: target.quantity,
+                    feeRateBps: this.config.feeRateBps,
+                    isNegRisk: this.config.isNegRisk,
+                    isYieldBearing: this.config.isYieldBearing,
+                });
+                const order: ActiveOrder = {
+                    id: result.id,
+                    hash: result.hash,
+                    side,
+                    price: target.price,
+                    quantity: target.quantity,
+                    filledQuantity: 0,
+                    status: 'OPEN',
+                    createdAt: new Date(),
+                };
+                this.state.ladderOrders.push(order);
+                this.events.onOrderPlaced?.(this.config.marketId, order);
+                console.log(`[MM ${this.config.marketId}] 多档挂单: ${side} ${target.quantity} @ ${target.price.toFixed(4)} (ID: ${result.id})`);
+            } catch (error) {
+                this.consecutiveErrors++;
+                console.error(`[MM ${this.config.marketId}] 多档挂单失败:`, error);
+                this.events.onError?.(this.config.marketId, error instanceof Error ? error : new Error(String(error)));
+                break;
+            }
+        }
+        this.stats.orderAdjustments++;
+        this.emitStateChange();
+    }
+
+    /**
+     * 撤销指定方向的多档挂单
+     */
+    private async cancelLadderOrders(side: 'BUY' | 'SELL'): Promise<void> {
+        for (const order of this.state.ladderOrders.filter(o => o.side === side)) {
+            try {
+                await this.cancelOrder(order.id);
+                this.events.onOrderCancelled?.(this.config.marketId, order.id);
+                this.state.ladderOrders = this.state.ladderOrders.filter(o => o.id !== order.id);
+            } catch (error) {
+                console.error(`[MM ${this.config.marketId}] 多档撤单失败 (ID: ${order.id}):`, error);
+            }
+        }
+    }
+
+    /**
+     * 同步多档挂单状态（检测增量成交、移除已完成订单）
+     *
+     * @returns 是否检测到成交或订单消失（需要同步持仓）
+     */
+    private async syncLadderOrders(apiOrders: PredictOrderResponse[]): Promise<boolean> {
+        let changed = false;
+        const updated: ActiveOrder[] = [];
+        const now = Date.now();
+
+        for (const local of this.state.ladderOrders) {
+            const apiOrder = apiOrders.find(o => o.id === local.id)?.order;
+            if (apiOrder) {
+                const filledDelta = apiOrder.quantityFilled - local.filledQuantity;
+                if (filledDelta > 0) {
+                    console.log(`[MM ${this.config.marketId}] === 多档 ${local.side} 成交! delta=${filledDelta} @ ${local.price} ===`);
+                    this.recordFill(local.side, local.price, filledDelta, local.id);
+                    changed = true;
+                }
+                local.filledQuantity = apiOrder.quantityFilled;
+                if (apiOrder.status === 'OPEN' || apiOrder.status === 'PARTIALLY_FILLED') {
+                    updated.push(local);
+                } else {
+                    changed = true;
+                }
+                continue;
+            }
+
+            // 订单在 API 中消失：可见性延迟内保留，超过后确认真实状态
+            if (now - local.createdAt.getTime() < this.ORDER_VISIBLE_DELAY_MS) {
+                this.orderSyncRequested = true;
+                updated.push(local);
+                continue;
+            }
+            const status = await this.confirmOrderStatus(local.hash, local.side);
+            if (status === 'STILL_OPEN') {
+                updated.push(local);
+                continue;
+            }
+            if (status === 'UNKNOWN') {
+                // 无法确认时撤单兜底，避免遗留未跟踪的挂单
+                await this.cancelOrder(local.id).catch(() => false);
+            }
+            if (status === 'FILLED') {
+                const remaining = local.quantity - local.filledQuantity;
+                if (remaining > 0) {
+                    console.log(`[MM ${this.config.marketId}] === 多档 ${local.side} 完全成交! 补记 remainingQty=${remaining} ===`);
+                    this.recordFill(local.side, local.price, remaining, local.id);
+                }
+            }
+            console.warn(`[MM ${this.config.marketId}] 多档挂单消失 (状态: ${status}, ID: ${local.id})`);
+            changed = true;
+        }
+
+        this.state.ladderOrders = updated;
+        return changed;
+    }
+
     // ========================================================================
     // 订单操作
     // ========================================================================
@@ -1217,7 +1605,7 @@ export class MarketMakerEngine {
 
             if (side === 'SELL') {
                 // SELL 订单：不能超过持仓（不变量约束）
-                const maxAllowedQty = this.state.position;
+                const maxAllowedQty = this.getEffectivePosition();
                 if (minQuantity > maxAllowedQty) {
                     // 无法满足最小金额且不能超卖，跳过下单
                     console.warn(`[MM ${this.config.marketId}] SELL 订单金额 $${orderValue.toFixed(2)} < $${this.globalConfig.minOrderValueUsd}，但调整后数量 ${minQuantity} > 持仓 ${maxAllowedQty}，跳过下单`);
@@ -1227,7 +1615,7 @@ export class MarketMakerEngine {
                 quantity = minQuantity;
             } else {
                 // BUY 订单：不能超过剩余可买量
-                const maxAllowedQty = this.config.maxShares - this.state.position;
+                const maxAllowedQty = this.getMaxShares() - this.getEffectivePosition();
                 if (minQuantity > maxAllowedQty) {
                     console.warn(`[MM ${this.config.marketId}] BUY 订单金额 $${orderValue.toFixed(2)} < $${this.globalConfig.minOrderValueUsd}，但调整后数量 ${minQuantity} > 可买量 ${maxAllowedQty}，跳过下单`);
                     return;
@@ -1255,9 +1643,9 @@ export class MarketMakerEngine {
                 console.warn(`[MM ${this.config.marketId}] 检测到 SELL shares 不足/冻结，尝试撤销所有 SELL 订单后重试`);
                 await this.cancelOrdersBySide('SELL');
                 await this.sleep(500);
-                await this.syncState();
+                await this.syncState(true);
 
-                const safeQty = Math.min(quantity, this.state.position);
+                const safeQty = Math.min(quantity, this.getEffectivePosition());
                 if (safeQty <= 0) {
                     console.warn(`[MM ${this.config.marketId}] 重试前持仓=0，跳过 SELL`);
                     return;
@@ -1280,10 +1668,10 @@ export class MarketMakerEngine {
                 console.warn(`[MM ${this.config.marketId}] 检测到 BUY 抵押品不足/冻结，尝试撤销所有 BUY 订单后重试`);
                 await this.cancelOrdersBySide('BUY');
                 await this.sleep(500);
-                await this.syncState();
+                await this.syncState(true);
 
                 // 重新检查可买量
-                const maxAllowedQty = this.config.maxShares - this.state.position;
+                const maxAllowedQty = this.getMaxShares() - this.getEffectivePosition();
                 const safeQty = Math.min(quantity, maxAllowedQty);
                 if (safeQty <= 0) {
                     console.warn(`[MM ${this.config.marketId}] 重试前可买量=0，跳过 BUY`);
@@ -1352,6 +1740,8 @@ export class MarketMakerEngine {
             this.state.activeSellOrder?.id,
             // SCALP 策略: 包含所有多卖单 ID
             ...this.state.scalpSellOrders.map(o => o.id),
+            // 多档策略: 第 2 档及以后
+            ...this.state.ladderOrders.map(o => o.id),
         ].filter((v): v is string => Boolean(v));
 
         const ids = Array.from(new Set([...openOrderIds, ...stateIds]));
@@ -1360,6 +1750,7 @@ export class MarketMakerEngine {
             this.state.activeSellOrder = null;
             this.state.scalpSellOrders = [];
             this.state.pendingSellOrders = [];
+            this.state.ladderOrders = [];
             return;
         }
 
@@ -1386,6 +1777,7 @@ export class MarketMakerEngine {
             this.state.activeSellOrder = null;
             this.state.scalpSellOrders = [];
             this.state.pendingSellOrders = [];
+            this.state.ladderOrders = [];
         }
     }
 
@@ -1428,12 +1820,24 @@ export class MarketMakerEngine {
      * - 持仓只在以下情况查询：
      *   1. 订单消失（需要确认实际持仓）
      *   2. 检测到成交（确认持仓变化）
-     *   3. 每 N 个 tick 强制同步一次（安全兜底）
+     *   3. 每 N 次订单同步强制同步一次（安全兜底）
+     *
+     * 钱包事件可用时，订单列表只在以下情况查询：
+     *   1. 收到本市场订单事件（成交/撤单/过期/拒绝）
+     *   2. 距上次同步超过 staleFallbackMs（兜底）
+     *
+     * @returns 是否拉取了订单列表
      */
-    private async syncState(): Promise<void> {
+    private async syncState(force = false): Promise<boolean> {
+        if (!force && this.walletEventsLive && !this.orderSyncRequested
+            && Date.now() - this.lastOrderSyncAt < this.globalConfig.staleFallbackMs) {
+            return false;
+        }
+        this.orderSyncRequested = false;
+        this.lastOrderSyncAt = Date.now();
         this.tickCounter++;
 
-        // 1. 获取活跃订单（每次都查）
+        // 1. 获取活跃订单
         const orders = await this.fetchOrders(this.config.marketId);
 
         // 标记是否需要同步持仓
@@ -1479,6 +1883,7 @@ export class MarketMakerEngine {
 
             if (inVisibilityDelay) {
                 // 在可见性延迟期内 → API 可能还没同步，保持本地状态
+                this.orderSyncRequested = true;
                 console.log(`[MM ${this.config.marketId}] 买单 API 延迟 (${timeSincePlaced}ms < ${this.ORDER_VISIBLE_DELAY_MS}ms)，保持本地状态`);
             } else {
                 // 超过延迟期 → 查询订单真实状态确认
@@ -1498,6 +1903,7 @@ export class MarketMakerEngine {
                         this.state.activeBuyOrder = null;
                         this.buyOrderUnknownCount = 0;
                     } else {
+                        this.orderSyncRequested = true;
                         console.log(`[MM ${this.config.marketId}] 买单状态未知 (${this.buyOrderUnknownCount}/${this.MAX_UNKNOWN_COUNT})，保持本地状态`);
                     }
                 } else {
@@ -1549,6 +1955,7 @@ export class MarketMakerEngine {
             const inVisibilityDelay = timeSincePlaced < this.ORDER_VISIBLE_DELAY_MS;
 
             if (inVisibilityDelay) {
+                this.orderSyncRequested = true;
                 console.log(`[MM ${this.config.marketId}] 卖单 API 延迟 (${timeSincePlaced}ms < ${this.ORDER_VISIBLE_DELAY_MS}ms)，保持本地状态`);
             } else {
                 // 超过延迟期 → 查询订单真实状态确认
@@ -1568,6 +1975,7 @@ export class MarketMakerEngine {
                         this.state.activeSellOrder = null;
                         this.sellOrderUnknownCount = 0;
                     } else {
+                        this.orderSyncRequested = true;
                         console.log(`[MM ${this.config.marketId}] 卖单状态未知 (${this.sellOrderUnknownCount}/${this.MAX_UNKNOWN_COUNT})，保持本地状态`);
                     }
                 } else {
@@ -1594,6 +2002,11 @@ export class MarketMakerEngine {
             this.sellOrderUnknownCount = 0;
         }
 
+        // 4. 多档挂单（第 2 档起）
+        if (this.state.ladderOrders.length > 0 && await this.syncLadderOrders(orders)) {
+            needPositionSync = true;
+        }
+
         // 5. 按需同步持仓（降低 API 请求频率）
         const forceSync = this.tickCounter >= this.POSITION_SYNC_INTERVAL;
         if (needPositionSync || forceSync) {
@@ -1611,6 +2024,22 @@ export class MarketMakerEngine {
                 this.state.position = currentPosition;
             }
         }
+        return true;
+    }
+
+    /**
+     * 事件中的订单是否属于本市场当前订单（按 hash，其次按订单 ID）
+     */
+    private ownsOrder(orderHash: string, orderId?: string): boolean {
+        const hash = orderHash?.toLowerCase();
+        const id = orderId ? String(orderId).replace(/n$/, '') : undefined;
+        const orders: ActiveOrder[] = [
+            ...(this.state.activeBuyOrder ? [this.state.activeBuyOrder] : []),
+            ...(this.state.activeSellOrder ? [this.state.activeSellOrder] : []),
+            ...this.state.scalpSellOrders,
+            ...this.state.ladderOrders,
+        ];
+        return orders.some(o => (!!hash && o.hash?.toLowerCase() === hash) || (!!id && o.id === id));
     }
 
     /**
@@ -1619,7 +2048,9 @@ export class MarketMakerEngine {
      */
     private findOrder(orders: PredictOrderResponse[], side: 'BUY' | 'SELL'): ActiveOrder | null {
         // 二次过滤：确保只处理当前 marketId 的订单（防止 API 返回其他市场的订单）
-        const filteredOrders = orders.filter(o => o.order?.marketId === this.config.marketId);
+        // 多档挂单单独跟踪，不作为第 1 档
+        const ladderIds = new Set(this.state.ladderOrders.map(o => o.id));
+        const filteredOrders = orders.filter(o => o.order?.marketId === this.config.marketId && !ladderIds.has(o.id));
 
         // 调试日志：显示过滤后的订单
         if (filteredOrders.length > 0) {
@@ -1653,9 +2084,9 @@ export class MarketMakerEngine {
         return result;
     }
 
-    private recordFill(side: 'BUY' | 'SELL', price: number, quantity: number): void {
+    private recordFill(side: 'BUY' | 'SELL', price: number, quantity: number, orderId?: string): void {
         const fill: Fill = {
-            orderId: side === 'BUY' ? this.state.activeBuyOrder?.id ?? '' : this.state.activeSellOrder?.id ?? '',
+            orderId: orderId ?? (side === 'BUY' ? this.state.activeBuyOrder?.id ?? '' : this.state.activeSellOrder?.id ?? ''),
             marketId: this.config.marketId,
             side,
             price,
@@ -1663,24 +2094,21 @@ export class MarketMakerEngine {
             filledAt: new Date(),
         };
 
-        // 更新统计和 PnL（使用加权平均成本法）
+        // 更新统计和 PnL（FIFO 批次）
+        let sellProfit = 0;
         if (side === 'BUY') {
             this.stats.totalBuys++;
             this.stats.totalBuyVolume += quantity;
             this.stats.totalBuyValue += price * quantity;
 
-            // 更新库存成本（加权平均）
-            // 新成本 = (旧成本 + 新购入成本) / (旧持仓 + 新购入量)
-            const oldPosition = this.state.position;
-            const newPosition = oldPosition + quantity;
-            if (newPosition > 0) {
-                this.stats.inventoryCost = (this.stats.inventoryCost * oldPosition + price * quantity) / newPosition;
-            }
+            // 每笔买入成交一个批次，库存成本 = 剩余批次加权平均
+            this.lots.push({ price, quantity, openedAt: fill.filledAt.getTime() });
+            this.stats.inventoryCost = lotsAverageCost(this.lots);
 
             this.stats.avgBuyPrice = this.stats.totalBuyValue / this.stats.totalBuyVolume;
 
             // SCALP 策略: BUY 成交后，将卖单请求加入队列
-            if (this.config.strategy === 'SCALP') {
+            if (this.usesPerFillAsks()) {
                 this.state.pendingSellOrders.push({
                     buyPrice: price,
                     buyQuantity: quantity,
@@ -1694,20 +2122,105 @@ export class MarketMakerEngine {
             this.stats.totalSellValue += price * quantity;
 
             // 计算本次卖出的已实现盈亏
-            // 已实现 = (卖出价 - 平均成本) * 卖出量
-            const costBasis = this.stats.inventoryCost;
-            const sellProfit = (price - costBasis) * quantity;
+            // 已实现 = 卖出额 - 按 FIFO 扣减批次的成本（超出批次部分成本未知，按零盈亏）
+            sellProfit = realizeSell(this.lots, price, quantity);
             this.stats.realizedPnL += sellProfit;
+            this.stats.inventoryCost = lotsAverageCost(this.lots);
 
             this.stats.avgSellPrice = this.stats.totalSellValue / this.stats.totalSellVolume;
         }
 
         this.stats.lastTradeTime = new Date();
 
+        this.writeLedger(fill, null, sellProfit);
         this.events.onFill?.(fill);
         console.log(`[MM ${this.config.marketId}] 成交: ${side} ${quantity} @ ${price}`);
     }
 
+    // ========================================================================
+    // 成交账本
+    // ========================================================================
+
+    /**
+     * 写入成交账本（失败只记日志，不影响做市）
+     */
+    private writeLedger(fill: Fill, costPrice: number | null, realizedPnL: number, kind: LedgerEntryKind = 'FILL'): void {
+        if (!this.fillLedger) return;
+        try {
+            this.fillLedger.record({
+                kind,
+                marketId: this.config.marketId,
+                tokenId: this.config.tokenId,
+                outcome: this.config.outcome,
+                orderId: fill.orderId,
+                side: fill.side,
+                price: fill.price,
+                quantity: fill.quantity,
+                costPrice,
+                realizedPnL,
+                strategy: this.config.strategy,
+                filledAt: fill.filledAt.getTime(),
+            });
+        } catch (error) {
+            console.error(`[MM ${this.config.marketId}] 成交账本写入失败:`, error);
+        }
+    }
+
+    /**
+     * 回放账本恢复 FIFO 批次，并按链上持仓对账
+     * - 账本多于链上：按 FIFO 扣减（停机期间卖出/手动卖出，成本未知按零盈亏）
+     * - 账本少于链上：以买一价补一个批次（首次启用账本或停机期间买入）
+     * 对账差额记为 ADJUST，保证下次回放与链上一致；无账本时只在内存中补批次
+     */
+    private restoreFromLedger(bestBid: number): void {
+        if (this.fillLedger) {
+            try {
+                const snapshot = this.fillLedger.restore(this.config.marketId, this.config.tokenId);
+                this.lots = snapshot.lots;
+                if (snapshot.fillCount > 0) {
+                    console.log(`[MM ${this.config.marketId}] 成交账本: ${snapshot.fillCount} 笔, 批次 ${snapshot.lots.length} 个, 持仓 ${snapshot.position.toFixed(2)} @ ${snapshot.inventoryCost.toFixed(4)}, 累计已实现 $${snapshot.realizedPnL.toFixed(4)}`);
+                }
+            } catch (error) {
+                // 读取失败时不对账，避免把全部持仓记成 ADJUST
+                console.error(`[MM ${this.config.marketId}] 成交账本读取失败:`, error);
+                return;
+            }
+        }
+
+        const diff = this.state.position - lotsPosition(this.lots);
+        if (Math.abs(diff) > this.globalConfig.sizeEpsilon) {
+            const adjust: Fill = {
+                orderId: '',
+                marketId: this.config.marketId,
+                side: diff > 0 ? 'BUY' : 'SELL',
+                price: 0,
+                quantity: Math.abs(diff),
+                filledAt: new Date(),
+            };
+            if (diff < 0) {
+                const { matched, cost } = consumeLots(this.lots, -diff);
+                adjust.price = matched > 0 ? cost / matched : 0;
+                this.writeLedger(adjust, null, 0, 'ADJUST');
+            } else if (bestBid > 0) {
+                adjust.price = bestBid;
+                this.lots.push({ price: bestBid, quantity: diff, openedAt: adjust.filledAt.getTime() });
+                this.writeLedger(adjust, null, 0, 'ADJUST');
+            }
+            const source = this.fillLedger ? '成交账本' : '成本批次';
+            console.warn(`[MM ${this.config.marketId}] ${source}与链上持仓不一致 (批次 ${(this.state.position - diff).toFixed(2)} / 链上 ${this.state.position.toFixed(2)})，已调整 ${adjust.side} ${adjust.quantity.toFixed(2)} @ ${adjust.price.toFixed(4)}`);
+        }
+
+        this.stats.inventoryCost = lotsAverageCost(this.lots);
+    }
+
+    /**
+     * 从批次副本中按 FIFO 取出 quantity，返回平均成本（无批次时返回 null）
+     */
+    private takeLotCost(lots: FifoLot[], quantity: number): number | null {
+        const { matched, cost } = consumeLots(lots, quantity);
+        return matched > 0 ? cost / matched : null;
+    }
+
     // ========================================================================
     // 辅助方法
     // ========================================================================
@@ -1821,9 +2334,21 @@ export class MarketMakerEngine {
 
     /**
      * 获取订单簿（根据 outcome 自动转换）
+     *
+     * 优先使用 WS 推送的订单簿；超过 staleFallbackMs 未更新时走 REST 兜底
      */
     private async getOrderBook(): Promise<{ bids: [number, number][]; asks: [number, number][] } | null> {
-        const book = await this.fetchOrderBook(this.config.marketId);
+        const now = Date.now();
+        let book: { bids: [number, number][]; asks: [number, number][] } | null;
+        if (this.pushedBook && now - this.pushedBook.receivedAt <= this.globalConfig.staleFallbackMs) {
+            book = this.pushedBook.book;
+        } else {
+            book = await this.fetchOrderBook(this.config.marketId);
+            // REST 结果同样计入新鲜度，安静市场每 staleFallbackMs 最多拉取一次
+            if (book && this.globalConfig.eventDriven) {
+                this.pushedBook = { book, receivedAt: now };
+            }
+        }
         if (!book) return null;
 
         // 如果是 NO outcome，需要转换订单簿
@@ -1884,6 +2409,7 @@ export class MarketMakerEngine {
         } finally {
             if (side === 'BUY') this.state.activeBuyOrder = null;
             if (side === 'SELL') this.state.activeSellOrder = null;
+            this.state.ladderOrders = this.state.ladderOrders.filter(o => o.side !== side);
         }
     }
 
@@ -1963,4 +2489,6 @@ export interface EngineDependencies {
     cancelOrders?: (orderIds: string[]) => Promise<{ removed: string[]; noop: string[] }>;
     /** 可选：获取市场价格精度 (tick size) */
     getMarketTickSize?: (marketId: number) => Promise<number>;
+    /** 可选：成交账本（跨重启恢复 FIFO 批次与盈亏） */
+    fillLedger?: FillLedger;
 }
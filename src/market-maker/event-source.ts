@@ -0,0 +1,165 @@
+/**
+ * Predict 做市模块 - WS 事件源
+ *
+ * - 订单簿: PredictOrderbookCache (WS 推送，复用全局 PredictWsClient)
+ * - 订单事件: PredictWsClient.subscribeWalletEvents (成交/撤单/过期)
+ *
+ * JWT 由交易客户端提供，定时刷新后重新订阅钱包事件
+ */
+
+import { EventEmitter } from 'events';
+import {
+    getPredictOrderbookCache,
+    initPredictOrderbookCache,
+    type CachedOrderbook,
+    type PredictOrderbookCache,
+} from '../services/predict-orderbook-cache.js';
+import { getPredictWsClient, type WalletEventData } from '../services/predict-ws-client.js';
+
+const JWT_REFRESH_INTERVAL_MS = 55 * 60 * 1000;  // 与 PredictOrderWatcher 一致
+const JWT_RETRY_DELAY_MS = 30000;
+
+export type OrderbookLevels = { bids: [number, number][]; asks: [number, number][] };
+
+/**
+ * 做市事件源 (MultiMarketMaker 只依赖该接口)
+ *
+ * 事件:
+ * - 'orderbook' (marketId, book: OrderbookLevels, timestampMs)  YES 订单簿
+ * - 'walletEvent' (event: WalletEventData)
+ */
+export interface MarketMakerEventSource extends EventEmitter {
+    start(): Promise<void>;
+    stop(): void;
+    subscribeMarkets(marketIds: number[]): Promise<void>;
+    unsubscribeMarkets(marketIds: number[]): Promise<void>;
+    /** 订单簿推送是否可用 */
+    isOrderbookLive(): boolean;
+    /** 钱包事件订阅是否可用 */
+    isWalletLive(): boolean;
+}
+
+export interface PredictEventSourceConfig {
+    apiKey: string;
+    /** 获取有效 JWT (交易客户端负责过期重认证) */
+    getJwt: () => Promise<string>;
+}
+
+export class PredictEventSource extends EventEmitter implements MarketMakerEventSource {
+    private config: PredictEventSourceConfig;
+    private cache: PredictOrderbookCache | null = null;
+    private ownsCache = false;
+    private running = false;
+    private walletSubscribed = false;
+    private jwtRefreshTimer: NodeJS.Timeout | null = null;
+
+    private readonly bookHandler = (marketId: number, book: CachedOrderbook) => {
+        this.emit('orderbook', marketId, {
+            bids: book.bids.map(l => [l.price, l.size] as [number, number]),
+            asks: book.asks.map(l => [l.price, l.size] as [number, number]),
+        }, book.timestamp);
+    };
+
+    private readonly walletHandler = (event: WalletEventData) => {
+        this.emit('walletEvent', event);
+    };
+
+    constructor(config: PredictEventSourceConfig) {
+        super();
+        this.config = config;
+    }
+
+    async start(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+
+        const jwt = await this.config.getJwt();
+
+        // 复用已有缓存 (同进程内 Dashboard 已初始化时)
+        this.cache = getPredictOrderbookCache();
+        if (!this.cache) {
+            this.cache = await initPredictOrderbookCache({ apiKey: this.config.apiKey, jwt });
+            this.ownsCache = true;
+        }
+        this.cache.setJwt(jwt);
+        this.cache.onUpdate(this.bookHandler);
+
+        await this.subscribeWallet();
+        this.jwtRefreshTimer = setInterval(() => void this.refreshJwt(), JWT_REFRESH_INTERVAL_MS);
+
+        console.log(`[MMEventSource] 已启动 (订单簿 WS=${this.isOrderbookLive()}, 钱包事件=${this.walletSubscribed})`);
+    }
+
+    stop(): void {
+        if (!this.running) return;
+        this.running = false;
+
+        if (this.jwtRefreshTimer) {
+            clearInterval(this.jwtRefreshTimer);
+            this.jwtRefreshTimer = null;
+        }
+
+        const wsClient = getPredictWsClient();
+        if (wsClient && this.walletSubscribed) {
+            void wsClient.unsubscribeWalletEvents(this.walletHandler);
+        }
+        this.walletSubscribed = false;
+
+        if (this.cache) {
+            this.cache.offUpdate(this.bookHandler);
+            if (this.ownsCache) this.cache.stop();
+            this.cache = null;
+            this.ownsCache = false;
+        }
+    }
+
+    async subscribeMarkets(marketIds: number[]): Promise<void> {
+        await this.cache?.subscribeMarkets(marketIds);
+    }
+
+    async unsubscribeMarkets(marketIds: number[]): Promise<void> {
+        await this.cache?.unsubscribeMarkets(marketIds);
+    }
+
+    isOrderbookLive(): boolean {
+        return this.cache?.isWsConnected() ?? false;
+    }
+
+    isWalletLive(): boolean {
+        return this.walletSubscribed && (getPredictWsClient()?.isConnected() ?? false);
+    }
+
+    private async subscribeWallet(): Promise<void> {
+        const wsClient = getPredictWsClient();
+        if (!wsClient || !wsClient.isConnected()) {
+            console.warn('[MMEventSource] WS 未连接，成交检测使用 REST 轮询');
+            this.walletSubscribed = false;
+            return;
+        }
+        this.walletSubscribed = await wsClient.subscribeWalletEvents(this.walletHandler);
+        if (!this.walletSubscribed) {
+            console.warn('[MMEventSource] 钱包事件订阅失败，成交检测使用 REST 轮询');
+        }
+    }
+
+    /**
+     * 刷新 JWT 并重新订阅钱包事件
+     */
+    private async refreshJwt(): Promise<void> {
+        if (!this.running) return;
+        try {
+            const jwt = await this.config.getJwt();
+            this.cache?.setJwt(jwt);
+
+            const wsClient = getPredictWsClient();
+            if (wsClient && this.walletSubscribed) {
+                await wsClient.unsubscribeWalletEvents(this.walletHandler);
+            }
+            await this.subscribeWallet();
+        } catch (error: any) {
+            console.error('[MMEventSource] JWT 刷新失败:', error?.message || error);
+            this.walletSubscribed = false;
+            setTimeout(() => void this.refreshJwt(), JWT_RETRY_DELAY_MS);
+        }
+    }
+}
@@ -0,0 +1,455 @@
+/**
+ * Predict 做市模块 - 成交账本 (SQLite)
+ *
+ * - mm_fills 表: 每笔成交一行 (含卖出时的 FIFO 已实现盈亏)
+ * - 启动时按 marketId + tokenId 回放，恢复 FIFO 持仓批次 (SCALP 卖单成本也从批次恢复)
+ * - 按本地日期/周汇总已实现盈亏，供监控面板和 JSON 导出使用
+ * - mm_hedges 表: Polymarket 对冲成交，重启后恢复已锁定持仓
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import Database from 'better-sqlite3';
+import type {
+    FifoLot,
+    HedgeFill,
+    HedgePosition,
+    LedgerEntry,
+    LedgerEntryKind,
+    LedgerSnapshot,
+    MarketMakerStrategy,
+    OutcomeChoice,
+    PnLPeriod,
+    PnLQuery,
+    PnLSummaryRow,
+} from './types.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+export const DEFAULT_FILL_LEDGER_PATH = path.resolve(__dirname, '../..', 'data', 'market-maker-fills.db');
+
+const QTY_EPSILON = 1e-9;
+
+// 本地时间分组 (SQLite localtime 跟随进程 TZ)
+const PERIOD_FORMAT: Record<PnLPeriod, string> = {
+    day: "strftime('%Y-%m-%d', filled_at / 1000, 'unixepoch', 'localtime')",
+    week: "strftime('%Y-W%W', filled_at / 1000, 'unixepoch', 'localtime')",
+};
+
+interface FillRow {
+    id: number;
+    kind: LedgerEntryKind;
+    market_id: number;
+    token_id: string;
+    outcome: OutcomeChoice;
+    order_id: string;
+    side: 'BUY' | 'SELL';
+    price: number;
+    quantity: number;
+    cost_price: number | null;
+    realized_pnl: number;
+    strategy: MarketMakerStrategy | null;
+    filled_at: number;
+}
+
+interface HedgeRow {
+    market_id: number;
+    condition_id: string;
+    token_id: string;
+    order_id: string;
+    side: 'BUY' | 'SELL';
+    price: number;
+    quantity: number;
+    predict_cost: number;
+    filled_at: number;
+}
+
+interface SummaryRow {
+    period: string;
+    market_id: number | null;
+    buys: number;
+    sells: number;
+    buy_volume: number;
+    sell_volume: number;
+    buy_value: number;
+    sell_value: number;
+    realized_pnl: number;
+}
+
+export type LedgerRecordInput = Omit<LedgerEntry, 'id'>;
+
+export interface LedgerExport {
+    generatedAt: string;
+    period: PnLPeriod;
+    summaries: PnLSummaryRow[];
+    markets: (LedgerSnapshot & { outcome: OutcomeChoice | null; unrealizedPnL: number | null; markPrice: number | null })[];
+}
+
+// ============================================================================
+// FIFO 批次
+// ============================================================================
+
+/**
+ * 从批次中扣减卖出量，返回已匹配数量和对应成本
+ *
+ * preferredCost 不为空时 (SCALP 卖单) 先扣减同成本批次，再按 FIFO 扣减其余批次。
+ * 超出批次总量的部分成本未知，由调用方按零盈亏处理。
+ */
+export function consumeLots(lots: FifoLot[], quantity: number, preferredCost: number | null = null): { matched: number; cost: number } {
+    let remaining = quantity;
+    let cost = 0;
+
+    const take = (lot: FifoLot) => {
+        const qty = Math.min(lot.quantity, remaining);
+        lot.quantity -= qty;
+        remaining -= qty;
+        cost += qty * lot.price;
+    };
+
+    if (preferredCost !== null) {
+        for (const lot of lots) {
+            if (remaining <= QTY_EPSILON) break;
+            if (Math.abs(lot.price - preferredCost) < QTY_EPSILON) take(lot);
+        }
+    }
+    for (const lot of lots) {
+        if (remaining <= QTY_EPSILON) break;
+        if (lot.quantity > QTY_EPSILON) take(lot);
+    }
+
+    // 原地移除已清空批次
+    for (let i = lots.length - 1; i >= 0; i--) {
+        if (lots[i].quantity <= QTY_EPSILON) lots.splice(i, 1);
+    }
+
+    return { matched: quantity - Math.max(remaining, 0), cost };
+}
+
+/**
+ * 卖出已实现盈亏 (超出批次的部分按零盈亏)
+ */
+export function realizeSell(lots: FifoLot[], price: number, quantity: number, preferredCost: number | null = null): number {
+    const { matched, cost } = consumeLots(lots, quantity, preferredCost);
+    return price * matched - cost;
+}
+
+export function lotsPosition(lots: FifoLot[]): number {
+    return lots.reduce((sum, lot) => sum + lot.quantity, 0);
+}
+
+export function lotsAverageCost(lots: FifoLot[]): number {
+    const qty = lotsPosition(lots);
+    return qty > QTY_EPSILON ? lots.reduce((sum, lot) => sum + lot.price * lot.quantity, 0) / qty : 0;
+}
+
+/**
+ * 回放账本记录 (按时间顺序) → FIFO 批次与累计盈亏
+ */
+export function replayLedger(marketId: number, tokenId: string, entries: LedgerEntry[]): LedgerSnapshot {
+    const lots: FifoLot[] = [];
+    const snapshot: LedgerSnapshot = {
+        marketId,
+        tokenId,
+        lots,
+        position: 0,
+        inventoryCost: 0,
+        realizedPnL: 0,
+        totalBuyVolume: 0,
+        totalSellVolume: 0,
+        fillCount: 0,
+        lastFillPrice: null,
+        lastFillAt: null,
+    };
+
+    for (const entry of entries) {
+        if (entry.side === 'BUY') {
+            lots.push({ price: entry.price, quantity: entry.quantity, openedAt: entry.filledAt });
+        } else {
+            consumeLots(lots, entry.quantity, entry.costPrice);
+        }
+        snapshot.realizedPnL += entry.realizedPnL;
+
+        if (entry.kind === 'FILL') {
+            snapshot.fillCount++;
+            if (entry.side === 'BUY') snapshot.totalBuyVolume += entry.quantity;
+            else snapshot.totalSellVolume += entry.quantity;
+            snapshot.lastFillPrice = entry.price;
+            snapshot.lastFillAt = entry.filledAt;
+        }
+    }
+
+    snapshot.position = lotsPosition(lots);
+    snapshot.inventoryCost = lotsAverageCost(lots);
+    return snapshot;
+}
+
+// ============================================================================
+// 账本存储
+// ============================================================================
+
+export class FillLedger {
+    private db: Database.Database;
+    private insertStmt: Database.Statement;
+    private insertHedgeStmt: Database.Statement;
+
+    constructor(private dbPath: string = DEFAULT_FILL_LEDGER_PATH) {
+        fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+        this.db = new Database(dbPath);
+        this.db.pragma('journal_mode = WAL');
+        this.db.pragma('synchronous = NORMAL');
+        this.initSchema();
+
+        this.insertStmt = this.db.prepare(`
+            INSERT INTO mm_fills (
+                kind, market_id, token_id, outcome, order_id, side, price, quantity,
+                cost_price, realized_pnl, strategy, filled_at
+            ) VALUES (
+                @kind, @marketId, @tokenId, @outcome, @orderId, @side, @price, @quantity,
+                @costPrice, @realizedPnL, @strategy, @filledAt
+            )
+        `);
+        this.insertHedgeStmt = this.db.prepare(`
+            INSERT INTO mm_hedges (
+                market_id, condition_id, token_id, order_id, side, price, quantity, predict_cost, filled_at
+            ) VALUES (
+                @marketId, @conditionId, @tokenId, @orderId, @side, @price, @quantity, @predictCost, @filledAt
+            )
+        `);
+    }
+
+    private initSchema(): void {
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS mm_fills (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                kind TEXT NOT NULL DEFAULT 'FILL',
+                market_id INTEGER NOT NULL,
+                token_id TEXT NOT NULL,
+                outcome TEXT NOT NULL,
+                order_id TEXT NOT NULL DEFAULT '',
+                side TEXT NOT NULL,
+                price REAL NOT NULL,
+                quantity REAL NOT NULL,
+                cost_price REAL,
+                realized_pnl REAL NOT NULL DEFAULT 0,
+                strategy TEXT,
+                filled_at INTEGER NOT NULL
+            )
+        `);
+
+        this.db.exec(`
+            CREATE INDEX IF NOT EXISTS idx_mm_fills_market_token ON mm_fills(market_id, token_id, filled_at);
+            CREATE INDEX IF NOT EXISTS idx_mm_fills_filled ON mm_fills(filled_at);
+        `);
+
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS mm_hedges (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                market_id INTEGER NOT NULL,
+                condition_id TEXT NOT NULL,
+                token_id TEXT NOT NULL,
+                order_id TEXT NOT NULL DEFAULT '',
+                side TEXT NOT NULL,
+                price REAL NOT NULL,
+                quantity REAL NOT NULL,
+                predict_cost REAL NOT NULL DEFAULT 0,
+                filled_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS idx_mm_hedges_market ON mm_hedges(market_id, token_id, filled_at);
+        `);
+    }
+
+    getPath(): string {
+        return this.dbPath;
+    }
+
+    /**
+     * 写入一条记录，返回自增 ID
+     */
+    record(entry: LedgerRecordInput): number {
+        const result = this.insertStmt.run({
+            ...entry,
+            orderId: entry.orderId ?? '',
+            costPrice: entry.costPrice ?? null,
+            strategy: entry.strategy ?? null,
+        });
+        return Number(result.lastInsertRowid);
+    }
+
+    /**
+     * 单市场全部记录 (按时间升序)
+     */
+    getEntries(marketId: number, tokenId?: string): LedgerEntry[] {
+        const rows = tokenId
+            ? this.db.prepare(
+                'SELECT * FROM mm_fills WHERE market_id = ? AND token_id = ? ORDER BY filled_at, id'
+            ).all(marketId, tokenId) as FillRow[]
+            : this.db.prepare(
+                'SELECT * FROM mm_fills WHERE market_id = ? ORDER BY filled_at, id'
+            ).all(marketId) as FillRow[];
+        return rows.map(row => this.parseRow(row));
+    }
+
+    /**
+     * 最近成交 (按时间降序)
+     */
+    getRecentFills(limit: number = 100, marketId?: number): LedgerEntry[] {
+        const rows = marketId !== undefined
+            ? this.db.prepare(
+                "SELECT * FROM mm_fills WHERE kind = 'FILL' AND market_id = ? ORDER BY filled_at DESC, id DESC LIMIT ?"
+            ).all(marketId, limit) as FillRow[]
+            : this.db.prepare(
+                "SELECT * FROM mm_fills WHERE kind = 'FILL' ORDER BY filled_at DESC, id DESC LIMIT ?"
+            ).all(limit) as FillRow[];
+        return rows.map(row => this.parseRow(row));
+    }
+
+    /**
+     * 回放单市场账本 (引擎启动时调用)
+     */
+    restore(marketId: number, tokenId: string): LedgerSnapshot {
+        return replayLedger(marketId, tokenId, this.getEntries(marketId, tokenId));
+    }
+
+    /**
+     * 写入一笔 Polymarket 对冲成交
+     */
+    recordHedge(fill: HedgeFill): void {
+        this.insertHedgeStmt.run(fill);
+    }
+
+    /**
+     * 单市场对冲净持仓 (买入均价)
+     */
+    getHedgePosition(marketId: number, tokenId: string): HedgePosition {
+        const rows = this.db.prepare(
+            'SELECT * FROM mm_hedges WHERE market_id = ? AND token_id = ? ORDER BY filled_at'
+        ).all(marketId, tokenId) as HedgeRow[];
+
+        let shares = 0;
+        let cost = 0;
+        for (const row of rows) {
+            if (row.side === 'BUY') {
+                shares += row.quantity;
+                cost += row.price * row.quantity;
+            } else {
+                const avg = shares > QTY_EPSILON ? cost / shares : 0;
+                const qty = Math.min(row.quantity, shares);
+                shares -= qty;
+                cost -= avg * qty;
+            }
+        }
+        return {
+            shares: shares > QTY_EPSILON ? shares : 0,
+            avgPrice: shares > QTY_EPSILON ? cost / shares : 0,
+        };
+    }
+
+    /**
+     * 账本中的全部 (marketId, tokenId, outcome)
+     */
+    listMarkets(): { marketId: number; tokenId: string; outcome: OutcomeChoice }[] {
+        const rows = this.db.prepare(
+            'SELECT DISTINCT market_id, token_id, outcome FROM mm_fills ORDER BY market_id'
+        ).all() as { market_id: number; token_id: string; outcome: OutcomeChoice }[];
+        return rows.map(row => ({ marketId: row.market_id, tokenId: row.token_id, outcome: row.outcome }));
+    }
+
+    /**
+     * 按日/周汇总 (按周期升序；ADJUST 记录不计入成交量，但计入已实现盈亏)
+     */
+    summarize(period: PnLPeriod, query: PnLQuery = {}): PnLSummaryRow[] {
+        const where: string[] = [];
+        const params: number[] = [];
+
+        if (query.marketId !== undefined) {
+            where.push('market_id = ?');
+            params.push(query.marketId);
+        }
+        if (query.from !== undefined) {
+            where.push('filled_at >= ?');
+            params.push(query.from);
+        }
+        if (query.to !== undefined) {
+            where.push('filled_at < ?');
+            params.push(query.to);
+        }
+
+        const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+        const marketSql = query.byMarket ? 'market_id' : 'NULL';
+        const rows = this.db.prepare(`
+            SELECT
+                ${PERIOD_FORMAT[period]} AS period,
+                ${marketSql} AS market_id,
+                SUM(CASE WHEN kind = 'FILL' AND side = 'BUY' THEN 1 ELSE 0 END) AS buys,
+                SUM(CASE WHEN kind = 'FILL' AND side = 'SELL' THEN 1 ELSE 0 END) AS sells,
+                SUM(CASE WHEN kind = 'FILL' AND side = 'BUY' THEN quantity ELSE 0 END) AS buy_volume,
+                SUM(CASE WHEN kind = 'FILL' AND side = 'SELL' THEN quantity ELSE 0 END) AS sell_volume,
+                SUM(CASE WHEN kind = 'FILL' AND side = 'BUY' THEN price * quantity ELSE 0 END) AS buy_value,
+                SUM(CASE WHEN kind = 'FILL' AND side = 'SELL' THEN price * quantity ELSE 0 END) AS sell_value,
+                SUM(realized_pnl) AS realized_pnl
+            FROM mm_fills
+            ${whereSql}
+            GROUP BY period${query.byMarket ? ', market_id' : ''}
+            ORDER BY period${query.byMarket ? ', market_id' : ''}
+        `).all(...params) as SummaryRow[];
+
+        return rows.map(row => ({
+            period: row.period,
+            marketId: row.market_id,
+            buys: row.buys,
+            sells: row.sells,
+            buyVolume: row.buy_volume,
+            sellVolume: row.sell_volume,
+            buyValue: row.buy_value,
+            sellValue: row.sell_value,
+            realizedPnL: row.realized_pnl,
+        }));
+    }
+
+    /**
+     * JSON 导出: 周期汇总 + 每个市场的批次与未实现盈亏
+     *
+     * markPrices 缺省时以最后成交价估值 (markPrice 为 null 表示无法估值)
+     */
+    exportJson(period: PnLPeriod, query: PnLQuery = {}, markPrices: Map<number, number> = new Map()): LedgerExport {
+        const markets = this.listMarkets()
+            .filter(m => query.marketId === undefined || m.marketId === query.marketId)
+            .map(m => {
+                const snapshot = this.restore(m.marketId, m.tokenId);
+                const markPrice = markPrices.get(m.marketId) ?? snapshot.lastFillPrice;
+                const unrealizedPnL = markPrice !== null && snapshot.position > QTY_EPSILON
+                    ? snapshot.position * (markPrice - snapshot.inventoryCost)
+                    : markPrice !== null ? 0 : null;
+                return { ...snapshot, outcome: m.outcome, unrealizedPnL, markPrice };
+            });
+
+        return {
+            generatedAt: new Date().toISOString(),
+            period,
+            summaries: this.summarize(period, query),
+            markets,
+        };
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    private parseRow(row: FillRow): LedgerEntry {
+        return {
+            id: row.id,
+            kind: row.kind,
+            marketId: row.market_id,
+            tokenId: row.token_id,
+            outcome: row.outcome,
+            orderId: row.order_id,
+            side: row.side,
+            price: row.price,
+            quantity: row.quantity,
+            costPrice: row.cost_price,
+            realizedPnL: row.realized_pnl,
+            strategy: row.strategy,
+            filledAt: row.filled_at,
+        };
+    }
+}
@@ -0,0 +1,266 @@
+/**
+ * Predict 做市模块 - Polymarket 跨平台对冲
+ *
+ * 做市在 Predict 累积单边持仓（例如 YES），未对冲部分超过 hedge.thresholdShares 时
+ * 在 Polymarket 以 IOC 买入经济上相反的 outcome。对冲方向按映射注册表的 inverted 决定
+ * (与 TaskExecutor.getHedgeOutcome 一致)：正常映射 Predict YES ↔ Polymarket NO，反向映射 Predict YES ↔ Polymarket YES。
+ * 映射未登记 / 已列入黑名单 / conditionId 不一致时拒绝对冲。
+ *
+ * 对冲价上限: Predict 成本 + Predict 手续费 + 对冲价 + Polymarket taker 手续费 <= maxPairCost，
+ * 手续费由 fee-model 解析 (Predict 按 taker 计，保守)。
+ *
+ * 已对冲的持仓通过 engine.setHedgedShares() 锁定：不再在 Predict 挂卖单，也不占用买入上限，
+ * 持有至结算；锁定量上限 hedge.maxHedgedShares。
+ */
+
+import type { PolymarketTrader } from '../dashboard/polymarket-trader.js';
+import type { MarketMapping } from '../dashboard/mappings/types.js';
+import { getFeeModel } from '../trading/fee-model.js';
+import type { FillLedger } from './fill-ledger.js';
+import type { HedgeFill, MarketMakerConfig, MarketState } from './types.js';
+
+/**
+ * 对冲下单通道（PolymarketTrader 满足该接口，测试/模拟可替换）
+ */
+export type HedgeVenue = Pick<PolymarketTrader, 'getMarketInfo' | 'getOrderbook' | 'placeOrder' | 'pollOrderStatus'>;
+
+/**
+ * 查询 Predict 市场的生效映射（MappingRegistry.resolve 满足该签名），未登记 / 黑名单返回 null
+ */
+export type HedgeMappingSource = (predictMarketId: number) => Pick<MarketMapping, 'conditionId' | 'inverted' | 'yesTokenId' | 'noTokenId'> | null;
+
+const POLY_MIN_ORDER_USD = 1;          // Polymarket 最小订单金额
+const RETRY_INTERVAL_MS = 10_000;      // 价格不满足 / 下单失败后的重试间隔
+const POLL_RETRIES = 5;
+const POLL_INTERVAL_MS = 200;
+
+interface HedgeMarket {
+    conditionId: string;
+    tokenId: string;
+    tickSize: number;
+    negRisk: boolean;
+    outcome: 'YES' | 'NO';             // Polymarket 对冲 outcome（按映射 inverted 解析）
+}
+
+export interface HedgeMarketStatus {
+    marketId: number;
+    hedgedShares: number;
+    avgPrice: number;                  // Polymarket 对冲均价
+    lastHedgeAt: number | null;
+    lastError: string | null;
+}
+
+export class MarketMakerHedger {
+    private markets = new Map<string, HedgeMarket>();      // conditionId + outcome → Polymarket token
+    private hedged = new Map<number, number>();            // marketId → 已对冲 shares
+    private status = new Map<number, HedgeMarketStatus>();
+    private busy = new Set<number>();
+    private nextAttemptAt = new Map<number, number>();
+
+    constructor(
+        private readonly venue: HedgeVenue,
+        private readonly ledger: FillLedger | null = null,
+        private readonly resolveMapping: HedgeMappingSource | null = null
+    ) { }
+
+    /**
+     * 已对冲 shares（首次访问时从成交账本恢复）
+     */
+    async getHedgedShares(config: MarketMakerConfig): Promise<number> {
+        const cached = this.hedged.get(config.marketId);
+        if (cached !== undefined) return cached;
+        if (!config.hedge) return 0;
+
+        let position = { shares: 0, avgPrice: 0 };
+        if (this.ledger) {
+            const market = await this.resolveMarket(config);
+            position = this.ledger.getHedgePosition(config.marketId, market.tokenId);
+            if (position.shares > 0) {
+                console.log(`[Hedge ${config.marketId}] 从账本恢复已对冲持仓 ${position.shares.toFixed(2)} @ ${position.avgPrice.toFixed(4)}`);
+            }
+        }
+        this.hedged.set(config.marketId, position.shares);
+        this.updateStatus(config.marketId, { hedgedShares: position.shares, avgPrice: position.avgPrice });
+        return position.shares;
+    }
+
+    getStatus(marketId: number): HedgeMarketStatus | null {
+        return this.status.get(marketId) ?? null;
+    }
+
+    /**
+     * 检查并执行对冲
+     *
+     * @param inventoryCost Predict 持仓加权成本（TradingStats.inventoryCost）
+     * @returns 成交记录；未触发 / 价格不满足 / 失败时返回 null
+     */
+    async hedge(config: MarketMakerConfig, state: MarketState, inventoryCost: number): Promise<HedgeFill | null> {
+        const hedge = config.hedge;
+        if (!hedge) return null;
+
+        const marketId = config.marketId;
+        if (this.busy.has(marketId) || Date.now() < (this.nextAttemptAt.get(marketId) ?? 0)) {
+            return null;
+        }
+
+        this.busy.add(marketId);
+        try {
+            const hedged = await this.getHedgedShares(config);
+            const unhedged = state.position - hedged;
+            if (unhedged < hedge.thresholdShares) return null;
+
+            const capacity = hedge.maxHedgedShares - hedged;
+            if (capacity <= 0) return null;
+            if (!(inventoryCost > 0)) {
+                return this.fail(marketId, '持仓成本未知，跳过对冲');
+            }
+
+            const market = await this.resolveMarket(config);
+            const limitPrice = this.getLimitPrice(config, market, inventoryCost);
+            if (limitPrice <= 0) {
+                return this.fail(marketId, `持仓成本 ${inventoryCost.toFixed(4)} (含手续费) 已超过对冲上限 ${hedge.maxPairCost}`);
+            }
+
+            const book = await this.venue.getOrderbook(market.tokenId);
+            const bestAsk = book?.asks[0];
+            if (!bestAsk) {
+                return this.fail(marketId, 'Polymarket 订单簿无卖单');
+            }
+            if (bestAsk.price > limitPrice + 1e-9) {
+                return this.fail(marketId, `对冲价 ${bestAsk.price} > 上限 ${limitPrice.toFixed(4)}`);
+            }
+
+            // 数量: 未对冲量、锁定上限、限价内深度取最小
+            const available = book.asks
+                .filter(level => level.price <= limitPrice + 1e-9)
+                .reduce((sum, level) => sum + level.size, 0);
+            const quantity = Math.floor(Math.min(unhedged, capacity, available) * 100) / 100;
+            if (quantity * limitPrice < POLY_MIN_ORDER_USD) {
+                return this.fail(marketId, `对冲数量 ${quantity} 不足最小订单金额`);
+            }
+
+            const result = await this.venue.placeOrder({
+                tokenId: market.tokenId,
+                side: 'BUY',
+                price: limitPrice,
+                quantity,
+                orderType: 'IOC',
+                negRisk: market.negRisk,
+                outcome: market.outcome,
+                marketTitle: config.title,
+                conditionId: market.conditionId,
+            });
+            if (!result.success || !result.orderId) {
+                return this.fail(marketId, `对冲下单失败: ${result.error ?? '未知错误'}`);
+            }
+
+            const orderStatus = await this.venue.pollOrderStatus(result.orderId, POLL_RETRIES, POLL_INTERVAL_MS);
+            const filled = orderStatus?.filledQty ?? 0;
+            if (filled <= 0) {
+                return this.fail(marketId, `对冲未成交 (${orderStatus?.status ?? '状态未知'})`);
+            }
+
+            const fill: HedgeFill = {
+                marketId,
+                conditionId: market.conditionId,
+                tokenId: market.tokenId,
+                orderId: result.orderId,
+                side: 'BUY',
+                price: orderStatus?.avgPrice || limitPrice,
+                quantity: filled,
+                predictCost: inventoryCost,
+                filledAt: Date.now(),
+            };
+            this.ledger?.recordHedge(fill);
+
+            const total = hedged + filled;
+            const previousCost = hedged * (this.status.get(marketId)?.avgPrice ?? 0);
+            this.hedged.set(marketId, total);
+            this.nextAttemptAt.delete(marketId);
+            this.updateStatus(marketId, {
+                hedgedShares: total,
+                avgPrice: (previousCost + fill.price * filled) / total,
+                lastHedgeAt: fill.filledAt,
+                lastError: null,
+            });
+            console.log(`[Hedge ${marketId}] Polymarket 买入 ${market.outcome} ${filled} @ ${fill.price}，合计成本 ${(inventoryCost + fill.price).toFixed(4)} (不含手续费)，已对冲 ${total.toFixed(2)}`);
+            return fill;
+        } catch (error: any) {
+            return this.fail(marketId, error?.message || String(error));
+        } finally {
+            this.busy.delete(marketId);
+        }
+    }
+
+    /**
+     * 对冲限价: 满足 Predict 成本 + Predict 手续费 + 限价 + Polymarket 手续费 <= maxPairCost 的最高 tick 价
+     */
+    private getLimitPrice(config: MarketMakerConfig, market: HedgeMarket, inventoryCost: number): number {
+        const feeModel = getFeeModel();
+        const predictFee = feeModel.predictFeePerShare(inventoryCost, config.feeRateBps, { marketId: config.marketId });
+        const budget = config.hedge!.maxPairCost - inventoryCost - predictFee;
+        for (let ticks = Math.floor(budget / market.tickSize + 1e-9); ticks > 0; ticks--) {
+            const price = Number((ticks * market.tickSize).toFixed(6));
+            const polyFee = feeModel.polymarketFeePerShare(price, { polymarketMarket: market.conditionId });
+            if (price + polyFee <= budget + 1e-9) return price;
+        }
+        return 0;
+    }
+
+    private async resolveMarket(config: MarketMakerConfig): Promise<HedgeMarket> {
+        const conditionId = config.hedge!.polymarketConditionId;
+        const mapping = this.resolveMapping?.(config.marketId) ?? null;
+        if (!mapping) {
+            throw new Error('映射未登记或已列入黑名单，拒绝对冲');
+        }
+        if (mapping.conditionId.toLowerCase() !== conditionId.toLowerCase()) {
+            throw new Error(`对冲 conditionId 与映射不一致 (映射: ${mapping.conditionId})，拒绝对冲`);
+        }
+
+        // 与 TaskExecutor.getHedgeOutcome 一致: 正常映射买相反 outcome，反向映射买同名 outcome
+        const predictOutcome = config.outcome === 'NO' ? 'NO' : 'YES';
+        const opposite: 'YES' | 'NO' = predictOutcome === 'YES' ? 'NO' : 'YES';
+        const outcome: 'YES' | 'NO' = mapping.inverted ? predictOutcome : opposite;
+        const key = `${conditionId}:${outcome}`;
+        const cached = this.markets.get(key);
+        if (cached) return cached;
+
+        const info = await this.venue.getMarketInfo(conditionId);
+        if (!info) {
+            throw new Error(`获取 Polymarket 市场失败: ${conditionId}`);
+        }
+        const mappedTokenId = outcome === 'YES' ? mapping.yesTokenId : mapping.noTokenId;
+        const token = info.tokens.find(t => t.outcome.toUpperCase() === outcome);
+        if (!token) {
+            throw new Error(`Polymarket 市场 ${conditionId} 没有 ${outcome} outcome`);
+        }
+        if (mappedTokenId && mappedTokenId !== token.tokenId) {
+            throw new Error(`Polymarket ${outcome} token 与映射不一致 (映射: ${mappedTokenId})，拒绝对冲`);
+        }
+
+        const market: HedgeMarket = {
+            conditionId,
+            tokenId: token.tokenId,
+            tickSize: info.tickSize,
+            negRisk: info.negRisk,
+            outcome,
+        };
+        this.markets.set(key, market);
+        return market;
+    }
+
+    private fail(marketId: number, message: string): null {
+        const previous = this.status.get(marketId)?.lastError;
+        if (previous !== message) {
+            console.warn(`[Hedge ${marketId}] ${message}`);
+        }
+        this.nextAttemptAt.set(marketId, Date.now() + RETRY_INTERVAL_MS);
+        this.updateStatus(marketId, { lastError: message });
+        return null;
+    }
+
+    private updateStatus(marketId: number, patch: Partial<HedgeMarketStatus>): void {
+        const current = this.status.get(marketId) ?? { marketId, hedgedShares: 0, avgPrice: 0, lastHedgeAt: null, lastError: null };
+        this.status.set(marketId, { ...current, ...patch });
+    }
+}
@@ -5,12 +5,31 @@
 // 类型
 export type {
     MarketMakerConfig,
+    MarketMakerStrategy,
+    QuoteStrategyParams,
     GlobalConfig,
     MarketState,
     ActiveOrder,
     OrderDelta,
     PriceSnapshot,
     Fill,
+    FifoLot,
+    LedgerEntry,
+    LedgerEntryKind,
+    LedgerSnapshot,
+    PnLPeriod,
+    PnLQuery,
+    PnLSummaryRow,
+    MarketScoreWeights,
+    AutoSelectConfig,
+    MarketMetrics,
+    MarketScore,
+    MarketRotationConfig,
+    MarketRotationProvider,
+    MarketRotationResult,
+    HedgeConfig,
+    HedgeFill,
+    HedgePosition,
     TradingStats,
     MarketMakerEvents,
     PredictOrder,
@@ -21,6 +40,10 @@ export type {
 export {
     DEFAULT_GLOBAL_CONFIG,
     DEFAULT_MARKET_CONFIG,
+    DEFAULT_AUTO_SELECT_CONFIG,
+    DEFAULT_ROTATION_CONFIG,
+    DEFAULT_HEDGE_CONFIG,
+    STRATEGY_LABELS,
     validateMarketConfig,
     validateGlobalConfig,
     mergeMarketConfig,
@@ -39,6 +62,35 @@ export {
     type PlaceOrderParams,
 } from './engine.js';
 
+// 报价策略
+export {
+    createQuoteStrategy,
+    registerQuoteStrategy,
+    getQuoteStrategyNames,
+    FollowStrategy,
+    ScalpStrategy,
+    InventorySkewStrategy,
+    LadderStrategy,
+    type QuoteStrategy,
+    type QuoteStrategyFactory,
+    type QuoteContext,
+    type QuoteLadders,
+    type QuoteLevel,
+} from './strategies/index.js';
+
+// 成交账本
+export {
+    FillLedger,
+    DEFAULT_FILL_LEDGER_PATH,
+    consumeLots,
+    realizeSell,
+    replayLedger,
+    lotsPosition,
+    lotsAverageCost,
+    type LedgerRecordInput,
+    type LedgerExport,
+} from './fill-ledger.js';
+
 // 多市场管理器
 export {
     MultiMarketMaker,
@@ -46,6 +98,14 @@ export {
     type MultiMarketMakerEvents,
 } from './multi-engine.js';
 
+// WS 事件源
+export {
+    PredictEventSource,
+    type MarketMakerEventSource,
+    type PredictEventSourceConfig,
+    type OrderbookLevels,
+} from './event-source.js';
+
 // 市场选择器
 export {
     scanMarkets,
@@ -59,9 +119,38 @@ export {
     type EventGroup,
 } from './market-selector.js';
 
+// 自动选市场
+export {
+    AutoMarketSelector,
+    scoreMarket,
+    rankMarkets,
+    summarizeOrderBook,
+    midVolatilityCents,
+} from './auto-selector.js';
+
+// 跨平台对冲
+export {
+    MarketMakerHedger,
+    type HedgeMappingSource,
+    type HedgeVenue,
+    type HedgeMarketStatus,
+} from './hedger.js';
+
 // 交易客户端
 export {
     TradingClient,
     createTradingClient,
     type TradingClientConfig,
 } from './trading-client.js';
+
+// 进程内做市服务 (Dashboard 托管)
+export {
+    MarketMakerService,
+    getMarketMakerService,
+    initMarketMakerService,
+    stopMarketMakerService,
+    type MarketMakerServiceConfig,
+    type MarketMakerServiceStatus,
+    type MarketMakerMarketInput,
+    type MarketMakerMarketView,
+} from './mm-service.js';
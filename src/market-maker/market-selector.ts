@@ -6,7 +6,7 @@
 
 import * as readline from 'readline';
 import type { MarketMakerConfig, MarketMakerStrategy, OutcomeChoice } from './types.js';
-import { mergeMarketConfig } from './config.js';
+import { mergeMarketConfig, STRATEGY_LABELS } from './config.js';
 
 // ============================================================================
 // ANSI 颜色
@@ -42,6 +42,7 @@ export interface MarketInfo {
     bestAsk?: number;
     outcomeNames?: string[];  // 各个 outcome 的名称 (index 0 = YES, index 1 = NO)
     decimalPrecision?: 2 | 3; // 价格精度 (2=0.01, 3=0.001)
+    endDate?: string;         // 结算时间 (ISO，API 未给出时为空)
 }
 
 export interface SelectedMarket {
@@ -117,6 +118,7 @@ export async function scanMarkets(
                 tokenIdYes: '', // 需要后续计算
                 outcomeNames,
                 decimalPrecision: m.decimalPrecision || 2,  // 价格精度 (默认 2)
+                endDate: m.endDate || m.resolutionDate || undefined,
             });
         }
 
@@ -324,7 +326,7 @@ export async function convertToConfigs(
     const configs: MarketMakerConfig[] = [];
 
     console.log(`\n${c.dim}计算 Token IDs...${c.reset}`);
-    console.log(`${c.dim}策略模式: ${strategy === 'SCALP' ? '剥头皮 (SCALP)' : '跟随 (FOLLOW)'}${c.reset}`);
+    console.log(`${c.dim}策略模式: ${STRATEGY_LABELS[strategy]}${c.reset}`);
 
     for (const s of selectedMarkets) {
         try {
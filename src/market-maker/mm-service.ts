@@ -0,0 +1,455 @@
+/**
+ * Predict 做市模块 - 进程内做市服务 (Dashboard 托管)
+ *
+ * 在 Dashboard 进程内运行 MultiMarketMaker，由 /api/mm/* 控制:
+ * - 启停、增删市场、单市场暂停/恢复、紧急停止
+ * - 市场列表保存在 configDir/market-maker-last-config.json，重启 Dashboard 后恢复 (需手动启动)
+ * - 与套利任务共用 RiskManager 单例: 下单前检查、已实现盈亏上报、敞口由 Dashboard 合并
+ *
+ * 事件:
+ * - 'state' (marketId, state: MarketState)
+ * - 'fill' (fill: Fill)
+ * - 'error' (marketId, message)
+ * - 'status' (status: MarketMakerServiceStatus)  启停/增删/暂停等控制操作后
+ * - 'hedge' (fill: HedgeFill)  Polymarket 对冲成交（配置 hedgeVenue 时）
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import { MultiMarketMaker, type GlobalStats } from './multi-engine.js';
+import { createTradingClient, type TradingClient } from './trading-client.js';
+import { PredictEventSource } from './event-source.js';
+import { FillLedger } from './fill-ledger.js';
+import { MarketMakerHedger, type HedgeMappingSource, type HedgeVenue } from './hedger.js';
+import {
+    DEFAULT_HEDGE_CONFIG,
+    DEFAULT_MARKET_CONFIG,
+    STRATEGY_LABELS,
+    loadConfig,
+    mergeGlobalConfig,
+    mergeMarketConfig,
+    saveConfig,
+    validateMarketConfig,
+} from './config.js';
+import { emptyRiskExposure, type RiskExposure } from '../services/risk-manager/index.js';
+import type {
+    Fill,
+    GlobalConfig,
+    MarketMakerConfig,
+    MarketState,
+    OutcomeChoice,
+    TradingStats,
+} from './types.js';
+
+export interface MarketMakerServiceConfig {
+    apiKey: string;                      // 查询市场信息
+    apiBaseUrl: string;
+    configDir: string;                   // 市场列表保存目录
+    ledgerPath: string | null;           // 成交账本路径，null 表示不记录
+    globalConfig: Partial<GlobalConfig>;
+    recentFillLimit: number;             // 状态中保留的最近成交数
+    hedgeVenue: HedgeVenue | null;       // Polymarket 对冲通道，null 表示不对冲
+    hedgeMappings: HedgeMappingSource | null; // 映射注册表查询 (对冲方向与 conditionId)，null 时拒绝对冲
+}
+
+/**
+ * 添加市场参数: 只需 marketId，其余缺省时从 Predict API / 默认配置补全
+ */
+export type MarketMakerMarketInput = Partial<MarketMakerConfig> & { marketId: number };
+
+export interface MarketMakerMarketView {
+    config: MarketMakerConfig;
+    state: MarketState | null;
+    stats: TradingStats | null;
+}
+
+export interface MarketMakerServiceStatus {
+    running: boolean;
+    starting: boolean;
+    emergencyStop: boolean;
+    startedAt: number | null;
+    lastError: string | null;
+    ledgerFile: string | null;
+    globalStats: GlobalStats | null;
+    markets: MarketMakerMarketView[];
+    recentFills: Fill[];
+}
+
+const DEFAULT_SERVICE_CONFIG: MarketMakerServiceConfig = {
+    apiKey: '',
+    apiBaseUrl: 'https://api.predict.fun',
+    configDir: './data',
+    ledgerPath: null,
+    globalConfig: {},
+    recentFillLimit: 50,
+    hedgeVenue: null,
+    hedgeMappings: null,
+};
+
+interface MarketInfo {
+    title: string;
+    feeRateBps: number;
+    isNegRisk: boolean;
+    isYieldBearing: boolean;
+}
+
+export class MarketMakerService extends EventEmitter {
+    private config: MarketMakerServiceConfig;
+    private configs: Map<number, MarketMakerConfig> = new Map();
+
+    private client: TradingClient | null = null;
+    private clientInit: Promise<TradingClient> | null = null;
+    private multi: MultiMarketMaker | null = null;
+    private eventSource: PredictEventSource | null = null;
+    private ledger: FillLedger | null = null;
+
+    private starting: Promise<void> | null = null;
+    private emergencyStop = false;
+    private startedAt: number | null = null;
+    private lastError: string | null = null;
+    private recentFills: Fill[] = [];
+
+    constructor(config: Partial<MarketMakerServiceConfig> = {}) {
+        super();
+        this.config = { ...DEFAULT_SERVICE_CONFIG, ...config };
+
+        const saved = loadConfig(this.config.configDir);
+        for (const market of saved?.markets ?? []) {
+            this.configs.set(market.marketId, market);
+        }
+        if (this.configs.size > 0) {
+            console.log(`[MMService] 已恢复 ${this.configs.size} 个做市市场配置 (未启动)`);
+        }
+    }
+
+    // ========================================================================
+    // 启停
+    // ========================================================================
+
+    isRunning(): boolean {
+        return this.multi !== null;
+    }
+
+    async start(): Promise<void> {
+        if (this.multi) return;
+        if (this.starting) return this.starting;
+
+        this.starting = this.doStart().finally(() => {
+            this.starting = null;
+            this.emitStatus();
+        });
+        this.emitStatus();
+        return this.starting;
+    }
+
+    async stop(): Promise<void> {
+        if (this.starting) {
+            await this.starting.catch(() => { /* ignore */ });
+        }
+        const multi = this.multi;
+        if (!multi) return;
+
+        this.multi = null;
+        this.startedAt = null;
+        await multi.stop();
+        this.eventSource = null;
+        this.ledger?.close();
+        this.ledger = null;
+
+        console.log('[MMService] 做市已停止');
+        this.emitStatus();
+    }
+
+    // ========================================================================
+    // 市场管理
+    // ========================================================================
+
+    async addMarket(input: MarketMakerMarketInput): Promise<MarketMakerConfig> {
+        const marketId = Number(input.marketId);
+        if (!Number.isInteger(marketId) || marketId <= 0) {
+            throw new Error(`marketId 无效: ${input.marketId}`);
+        }
+        if (this.configs.has(marketId)) {
+            throw new Error(`市场 ${marketId} 已在做市列表中`);
+        }
+        if (input.outcome !== undefined && input.outcome !== 'YES' && input.outcome !== 'NO') {
+            throw new Error(`outcome 只支持 YES / NO: ${input.outcome}`);
+        }
+        if (input.strategy !== undefined && !(input.strategy in STRATEGY_LABELS)) {
+            throw new Error(`未知策略: ${input.strategy}`);
+        }
+
+        const client = await this.ensureClient();
+        const info = await this.fetchMarketInfo(marketId);
+        const outcome: OutcomeChoice = input.outcome ?? DEFAULT_MARKET_CONFIG.outcome!;
+        const tokenId = input.tokenId || await client.getTokenId(marketId, outcome);
+        const tickSize = input.tickSize ?? await client.getMarketTickSize(marketId);
+
+        // 对冲市场取映射注册表的生效映射 (方向是否反转由注册表决定)
+        let hedge = input.hedge;
+        if (hedge) {
+            const mapping = this.config.hedgeMappings?.(marketId) ?? null;
+            if (!mapping?.conditionId) {
+                throw new Error(`市场 ${marketId} 没有生效的 Polymarket 映射，无法对冲`);
+            }
+            if (hedge.polymarketConditionId && hedge.polymarketConditionId.toLowerCase() !== mapping.conditionId.toLowerCase()) {
+                throw new Error(`市场 ${marketId} 对冲 conditionId 与映射不一致 (映射: ${mapping.conditionId})`);
+            }
+            hedge = { ...DEFAULT_HEDGE_CONFIG, ...hedge, polymarketConditionId: mapping.conditionId };
+        }
+
+        const config = mergeMarketConfig(
+            {
+                ...input,
+                feeRateBps: input.feeRateBps ?? info.feeRateBps,
+                isNegRisk: input.isNegRisk ?? info.isNegRisk,
+                isYieldBearing: input.isYieldBearing ?? info.isYieldBearing,
+                outcome,
+                tickSize,
+                hedge,
+            },
+            marketId,
+            input.title || info.title,
+            tokenId
+        );
+        const errors = validateMarketConfig(config);
+        if (errors.length > 0) {
+            throw new Error(errors.join('; '));
+        }
+
+        // 并发添加同一市场时，以先完成的为准
+        if (this.configs.has(marketId)) {
+            throw new Error(`市场 ${marketId} 已在做市列表中`);
+        }
+        this.configs.set(marketId, config);
+        this.persist();
+        this.multi?.addMarket(config);
+
+        this.emitStatus();
+        return config;
+    }
+
+    async removeMarket(marketId: number): Promise<void> {
+        if (!this.configs.has(marketId)) {
+            throw new Error(`市场 ${marketId} 不在做市列表中`);
+        }
+        // 先撤单再移出列表
+        await this.multi?.removeMarket(marketId);
+        this.configs.delete(marketId);
+        this.persist();
+        this.emitStatus();
+    }
+
+    pauseMarket(marketId: number): void {
+        this.getRunningMarket(marketId).pauseMarket(marketId);
+        this.emitStatus();
+    }
+
+    resumeMarket(marketId: number): void {
+        const multi = this.getRunningMarket(marketId);
+        if (this.emergencyStop) {
+            throw new Error('紧急停止中，请先解除');
+        }
+        multi.resumeMarket(marketId);
+        this.emitStatus();
+    }
+
+    /**
+     * 紧急停止: 所有市场撤单暂停，解除后恢复；未启动时记录开关，启动后生效
+     */
+    setEmergencyStop(enabled: boolean): void {
+        this.emergencyStop = enabled;
+        if (this.multi) {
+            this.multi.setEmergencyStop(enabled);
+            if (!enabled) this.multi.resumeAll();
+        }
+        this.emitStatus();
+    }
+
+    // ========================================================================
+    // 状态查询
+    // ========================================================================
+
+    getStatus(): MarketMakerServiceStatus {
+        const multi = this.multi;
+        return {
+            running: multi !== null,
+            starting: this.starting !== null,
+            emergencyStop: this.emergencyStop,
+            startedAt: this.startedAt,
+            lastError: this.lastError,
+            ledgerFile: this.ledger?.getPath() ?? this.config.ledgerPath,
+            globalStats: multi?.getGlobalStats() ?? null,
+            markets: Array.from(this.configs.values()).map(config => ({
+                config,
+                state: multi?.getMarketState(config.marketId) ?? null,
+                stats: multi?.getMarketStats(config.marketId) ?? null,
+            })),
+            recentFills: [...this.recentFills],
+        };
+    }
+
+    getMarketView(marketId: number): MarketMakerMarketView | null {
+        const config = this.configs.get(marketId);
+        if (!config) return null;
+        return {
+            config,
+            state: this.multi?.getMarketState(marketId) ?? null,
+            stats: this.multi?.getMarketStats(marketId) ?? null,
+        };
+    }
+
+    /**
+     * 做市敞口 (未运行时为空)，由 Dashboard 与任务敞口合并后交给风控
+     */
+    getRiskExposure(): RiskExposure {
+        return this.multi?.getRiskExposure() ?? emptyRiskExposure();
+    }
+
+    // ========================================================================
+    // 私有方法
+    // ========================================================================
+
+    private async doStart(): Promise<void> {
+        try {
+            const client = await this.ensureClient();
+            const dependencies = client.createDependencies();
+
+            if (this.config.ledgerPath) {
+                this.ledger = new FillLedger(this.config.ledgerPath);
+                dependencies.fillLedger = this.ledger;
+            }
+
+            const globalConfig = mergeGlobalConfig({ ...this.config.globalConfig, emergencyStop: this.emergencyStop });
+            this.eventSource = globalConfig.eventDriven
+                ? new PredictEventSource({ apiKey: this.config.apiKey, getJwt: () => client.getJwt() })
+                : null;
+
+            const multi = new MultiMarketMaker(
+                dependencies,
+                globalConfig,
+                {
+                    onMarketStateChange: (marketId, state) => this.emit('state', marketId, state),
+                    onFill: (fill) => {
+                        this.recentFills.unshift(fill);
+                        this.recentFills.length = Math.min(this.recentFills.length, this.config.recentFillLimit);
+                        this.emit('fill', fill);
+                    },
+                    onMarketError: (marketId, error) => this.emit('error', marketId, error.message),
+                    onHedge: (fill) => this.emit('hedge', fill),
+                },
+                this.eventSource
+            );
+            if (this.config.hedgeVenue) {
+                multi.setHedger(new MarketMakerHedger(this.config.hedgeVenue, this.ledger, this.config.hedgeMappings));
+            }
+            for (const config of this.configs.values()) {
+                multi.addMarket(config);
+            }
+
+            await multi.start();
+            this.multi = multi;
+            this.startedAt = Date.now();
+            this.lastError = null;
+            console.log(`[MMService] 做市已启动: ${this.configs.size} 个市场`);
+        } catch (error: any) {
+            this.lastError = error?.message || String(error);
+            this.ledger?.close();
+            this.ledger = null;
+            this.eventSource = null;
+            console.error(`[MMService] 启动失败: ${this.lastError}`);
+            throw error;
+        }
+    }
+
+    private async ensureClient(): Promise<TradingClient> {
+        if (this.client) return this.client;
+        if (!this.clientInit) {
+            this.clientInit = (async () => {
+                const client = createTradingClient();
+                await client.init();
+                this.client = client;
+                return client;
+            })().catch((error) => {
+                this.clientInit = null;
+                throw error;
+            });
+        }
+        return this.clientInit;
+    }
+
+    private async fetchMarketInfo(marketId: number): Promise<MarketInfo> {
+        const res = await fetch(`${this.config.apiBaseUrl}/v1/markets/${marketId}`, {
+            headers: { 'x-api-key': this.config.apiKey },
+        });
+        if (!res.ok) {
+            throw new Error(`获取市场 ${marketId} 失败: ${res.status}`);
+        }
+        const data = await res.json() as any;
+        const m = data?.data;
+        if (!m) {
+            throw new Error(`市场 ${marketId} 不存在`);
+        }
+        return {
+            title: m.title || m.question || `#${marketId}`,
+            feeRateBps: m.feeRateBps || 0,
+            isNegRisk: Boolean(m.isNegRisk),
+            isYieldBearing: Boolean(m.isYieldBearing),
+        };
+    }
+
+    private getRunningMarket(marketId: number): MultiMarketMaker {
+        if (!this.configs.has(marketId)) {
+            throw new Error(`市场 ${marketId} 不在做市列表中`);
+        }
+        if (!this.multi) {
+            throw new Error('做市未启动');
+        }
+        return this.multi;
+    }
+
+    private persist(): void {
+        const markets = Array.from(this.configs.values());
+        try {
+            fs.mkdirSync(this.config.configDir, { recursive: true });
+            saveConfig({
+                global: mergeGlobalConfig(this.config.globalConfig),
+                markets,
+                strategy: markets[0]?.strategy ?? DEFAULT_MARKET_CONFIG.strategy!,
+                savedAt: new Date().toISOString(),
+            }, this.config.configDir);
+        } catch (error: any) {
+            console.warn(`[MMService] 保存市场配置失败: ${error?.message || error}`);
+        }
+    }
+
+    private emitStatus(): void {
+        this.emit('status', this.getStatus());
+    }
+}
+
+// ============================================================================
+// 单例
+// ============================================================================
+
+let instance: MarketMakerService | null = null;
+
+export function getMarketMakerService(): MarketMakerService | null {
+    return instance;
+}
+
+export function initMarketMakerService(config: Partial<MarketMakerServiceConfig> = {}): MarketMakerService {
+    if (instance) {
+        void instance.stop();
+    }
+    instance = new MarketMakerService(config);
+    return instance;
+}
+
+export async function stopMarketMakerService(): Promise<void> {
+    if (instance) {
+        const service = instance;
+        instance = null;
+        await service.stop();
+    }
+}
@@ -2,9 +2,22 @@
  * Predict 做市模块 - 多市场管理器
  *
  * 管理多个 MarketMakerEngine 实例
+ *
+ * 事件驱动（globalConfig.eventDriven 且提供事件源时）：
+ * - WS 订单簿推送 → 对应市场重新报价
+ * - 钱包事件（成交/撤单等）→ 对应市场立即对账
+ * - pollIntervalMs 定时器只兜底 staleFallbackMs 内没有 tick 过的市场；事件源断开时退回全量轮询
+ *
+ * 市场轮换（enableRotation）：
+ * - 每 intervalMs 按 provider 排名补齐前 topN 个市场
+ * - 轮换加入的市场跌出 topN + retainBuffer（满足最短持有）或不再合格时进入只减仓，清仓或超时后移除
+ * - 手动添加的市场不受轮换影响
+ *
+ * 跨平台对冲（setHedger，仅配置了 hedge 的市场）：
+ * - 未对冲持仓超过阈值时在 Polymarket 买入相反 outcome，已对冲部分在引擎中锁定
  */
 
-import { MarketMakerEngine, type EngineDependencies } from './engine.js';
+import { MarketMakerEngine, type EngineDependencies, type PlaceOrderParams } from './engine.js';
 import type {
     MarketMakerConfig,
     GlobalConfig,
@@ -13,8 +26,16 @@ import type {
     Fill,
     ActiveOrder,
     PriceSnapshot,
+    MarketRotationConfig,
+    MarketRotationProvider,
+    MarketRotationResult,
+    HedgeFill,
 } from './types.js';
-import { DEFAULT_GLOBAL_CONFIG } from './config.js';
+import { DEFAULT_GLOBAL_CONFIG, DEFAULT_ROTATION_CONFIG } from './config.js';
+import { getRiskManager, emptyRiskExposure, type RiskExposure } from '../services/risk-manager/index.js';
+import type { MarketMakerEventSource, OrderbookLevels } from './event-source.js';
+import type { WalletEventData } from '../services/predict-ws-client.js';
+import type { MarketMakerHedger, HedgeMarketStatus } from './hedger.js';
 
 // ============================================================================
 // 多市场管理器
@@ -25,10 +46,26 @@ export class MultiMarketMaker {
     private globalConfig: GlobalConfig;
     private dependencies: EngineDependencies;
     private events: MultiMarketMakerEvents;
+    private eventSource: MarketMakerEventSource | null;
 
     private isRunning = false;
     private tickInterval: ReturnType<typeof setInterval> | null = null;
 
+    // 账户级风控: 熔断由风控触发时记录，解除后自动恢复
+    private haltedByRisk = false;
+    // 每个市场已上报给风控的累计已实现盈亏
+    private reportedRealizedPnL: Map<number, number> = new Map();
+
+    // 市场轮换: 只管理由轮换加入的市场
+    private rotationConfig: MarketRotationConfig | null = null;
+    private rotationProvider: MarketRotationProvider | null = null;
+    private rotationTimer: ReturnType<typeof setTimeout> | null = null;
+    private rotationBusy = false;
+    private rotatedMarkets: Map<number, RotatedMarket> = new Map();
+
+    // 跨平台对冲
+    private hedger: MarketMakerHedger | null = null;
+
     // 全局统计
     private globalStats: GlobalStats = {
         totalMarkets: 0,
@@ -42,11 +79,17 @@ export class MultiMarketMaker {
     constructor(
         dependencies: EngineDependencies,
         globalConfig: Partial<GlobalConfig> = {},
-        events: MultiMarketMakerEvents = {}
+        events: MultiMarketMakerEvents = {},
+        eventSource: MarketMakerEventSource | null = null
     ) {
-        this.dependencies = dependencies;
+        // 买单下单前经过账户级风控
+        this.dependencies = {
+            ...dependencies,
+            placeOrder: (params) => this.placeOrderWithRiskCheck(dependencies.placeOrder, params),
+        };
         this.globalConfig = { ...DEFAULT_GLOBAL_CONFIG, ...globalConfig };
         this.events = events;
+        this.eventSource = eventSource;
     }
 
     // ========================================================================
@@ -71,6 +114,7 @@ export class MultiMarketMaker {
                 onStateChange: (marketId, state) => {
                     this.events.onMarketStateChange?.(marketId, state);
                     this.updateGlobalStats();
+                    this.requestHedge(marketId);
                 },
                 onFill: (fill) => {
                     this.globalStats.totalFills++;
@@ -95,6 +139,17 @@ export class MultiMarketMaker {
         this.engines.set(config.marketId, engine);
         this.globalStats.totalMarkets++;
 
+        // 运行中添加 (Dashboard 托管时): 立即初始化，主循环在 init 完成前会跳过该市场
+        if (this.isRunning) {
+            engine.setWalletEventsLive(this.isEventDriven() && this.eventSource!.isWalletLive());
+            this.restoreHedge(engine).then(() => engine.init()).catch((error) => {
+                console.error(`[MultiMM] 引擎初始化失败:`, error);
+            });
+            if (this.isEventDriven()) {
+                void this.eventSource!.subscribeMarkets([config.marketId]);
+            }
+        }
+
         console.log(`[MultiMM] 添加市场: ${config.marketId} - ${config.title}`);
     }
 
@@ -110,7 +165,12 @@ export class MultiMarketMaker {
         // 停止引擎
         await engine.stop();
 
+        if (this.isRunning && this.isEventDriven()) {
+            await this.eventSource!.unsubscribeMarkets([marketId]);
+        }
+
         this.engines.delete(marketId);
+        this.rotatedMarkets.delete(marketId);
         this.globalStats.totalMarkets--;
 
         console.log(`[MultiMM] 移除市场: ${marketId}`);
@@ -175,19 +235,40 @@ export class MultiMarketMaker {
         const engines = Array.from(this.engines.values());
         for (const engine of engines) {
             try {
+                await this.restoreHedge(engine);
                 await engine.init();
             } catch (error) {
                 console.error(`[MultiMM] 引擎初始化失败:`, error);
             }
         }
 
-        // 启动主循环
+        // 订阅 WS 事件（失败时退回轮询）
+        if (this.isEventDriven()) {
+            try {
+                await this.startEventSource();
+            } catch (error) {
+                console.error('[MultiMM] 事件源启动失败，使用 REST 轮询:', error);
+            }
+        }
+
+        // 启动主循环（事件驱动时仅兜底）
         this.tickInterval = setInterval(async () => {
             if (!this.isRunning) return;
 
+            this.syncRiskHalt();
+
+            const walletLive = this.isEventDriven() && this.eventSource!.isWalletLive();
+            const bookLive = this.isEventDriven() && this.eventSource!.isOrderbookLive();
+            const now = Date.now();
+
             // 串行处理每个市场，避免 API 限流
             const allEngines = Array.from(this.engines.values());
             for (const engine of allEngines) {
+                engine.setWalletEventsLive(walletLive);
+                // 推送正常时跳过近期已 tick 的市场
+                if (bookLive && now - engine.getLastTickAt() < this.globalConfig.staleFallbackMs) {
+                    continue;
+                }
                 try {
                     await engine.tick();
                 } catch (error) {
@@ -200,8 +281,25 @@ export class MultiMarketMaker {
 
             this.updateGlobalStats();
 
+            // 只减仓的轮换市场清仓后移除
+            if (this.rotatedMarkets.size > 0 && !this.rotationBusy) {
+                this.rotationBusy = true;
+                try {
+                    const { removed, overdue } = await this.finishUnwinding();
+                    if (removed.length > 0 || overdue.length > 0) {
+                        this.events.onRotation?.({ added: [], unwinding: [], removed, restored: [], overdue });
+                    }
+                } finally {
+                    this.rotationBusy = false;
+                }
+            }
+
         }, this.globalConfig.pollIntervalMs);
 
+        if (this.rotationProvider) {
+            this.scheduleRotation(0);
+        }
+
         console.log('[MultiMM] 已启动');
     }
 
@@ -222,6 +320,16 @@ export class MultiMarketMaker {
             clearInterval(this.tickInterval);
             this.tickInterval = null;
         }
+        if (this.rotationTimer) {
+            clearTimeout(this.rotationTimer);
+            this.rotationTimer = null;
+        }
+
+        if (this.eventSource) {
+            this.eventSource.off('orderbook', this.handleOrderbook);
+            this.eventSource.off('walletEvent', this.handleWalletEvent);
+            this.eventSource.stop();
+        }
 
         // 停止所有引擎（取消订单）
         const stopEngines = Array.from(this.engines.values());
@@ -276,6 +384,127 @@ export class MultiMarketMaker {
         }
     }
 
+    // ========================================================================
+    // 跨平台对冲
+    // ========================================================================
+
+    /**
+     * 设置对冲执行器（需在 start 前调用，以便 init 前恢复已对冲持仓）
+     */
+    setHedger(hedger: MarketMakerHedger | null): void {
+        this.hedger = hedger;
+    }
+
+    /**
+     * 对冲状态（未启用对冲或市场未配置 hedge 时返回 null）
+     */
+    getHedgeStatus(marketId: number): HedgeMarketStatus | null {
+        return this.hedger?.getStatus(marketId) ?? null;
+    }
+
+    // ========================================================================
+    // 市场轮换
+    // ========================================================================
+
+    /**
+     * 启用市场轮换（运行中调用立即执行一轮）
+     */
+    enableRotation(config: Partial<MarketRotationConfig>, provider: MarketRotationProvider): void {
+        this.rotationConfig = { ...DEFAULT_ROTATION_CONFIG, ...config };
+        this.rotationProvider = provider;
+        console.log(`[MultiMM] 市场轮换: top ${this.rotationConfig.topN}, 每 ${Math.round(this.rotationConfig.intervalMs / 60000)} 分钟`);
+        if (this.isRunning) {
+            this.scheduleRotation(0);
+        }
+    }
+
+    /**
+     * 执行一轮市场轮换
+     *
+     * 1. 已加入的轮换市场: 跌出 topN + retainBuffer 且持有满 minHoldMs（或已不合格/下架）→ 只减仓；
+     *    只减仓中的市场重回 topN → 恢复做市
+     * 2. 按排名补齐 topN 个正常做市的轮换市场（已存在的市场跳过）
+     * 3. 只减仓市场清仓 → 移除；超时仍有持仓 → 保留只减仓继续平仓，并通过 overdue 告警
+     */
+    async rotateMarkets(): Promise<MarketRotationResult> {
+        const result: MarketRotationResult = { added: [], unwinding: [], removed: [], restored: [], overdue: [] };
+        const config = this.rotationConfig;
+        const provider = this.rotationProvider;
+        if (!config || !provider || this.rotationBusy) {
+            return result;
+        }
+        if (this.globalConfig.emergencyStop) {
+            console.warn('[MultiMM] 紧急停止中，跳过市场轮换');
+            return result;
+        }
+
+        this.rotationBusy = true;
+        try {
+            const ranking = await provider.rank();
+            const eligible = ranking.filter(s => s.eligible);
+            const rankOf = new Map(eligible.map((s, i) => [s.marketId, i]));
+            const now = Date.now();
+
+            for (const [marketId, entry] of this.rotatedMarkets) {
+                const engine = this.engines.get(marketId);
+                if (!engine) {
+                    this.rotatedMarkets.delete(marketId);
+                    continue;
+                }
+                const rank = rankOf.get(marketId);
+
+                if (entry.unwindingSince !== null) {
+                    if (rank !== undefined && rank < config.topN) {
+                        engine.setReduceOnly(false);
+                        entry.unwindingSince = null;
+                        entry.overdueSince = null;
+                        result.restored.push(marketId);
+                    }
+                    continue;
+                }
+
+                if (rank !== undefined && rank < config.topN + config.retainBuffer) continue;
+                // 排名下滑需满足最短持有，不合格 / 下架立即退出
+                if (rank !== undefined && now - entry.addedAt < config.minHoldMs) continue;
+                engine.setReduceOnly(true);
+                entry.unwindingSince = now;
+                result.unwinding.push(marketId);
+            }
+
+            let slots = config.topN - Array.from(this.rotatedMarkets.values()).filter(e => e.unwindingSince === null).length;
+            for (const score of eligible) {
+                if (slots <= 0) break;
+                if (this.engines.has(score.marketId)) continue;
+                try {
+                    const marketConfig = await provider.buildConfig(score);
+                    this.addMarket(marketConfig);
+                    this.rotatedMarkets.set(score.marketId, { addedAt: now, unwindingSince: null, overdueSince: null });
+                    result.added.push(score.marketId);
+                    slots--;
+                } catch (error) {
+                    console.error(`[MultiMM] 轮换添加市场 ${score.marketId} 失败:`, error);
+                }
+            }
+
+            const { removed, overdue } = await this.finishUnwinding();
+            result.removed = removed;
+            result.overdue = overdue;
+        } finally {
+            this.rotationBusy = false;
+        }
+
+        console.log(`[MultiMM] 市场轮换: +${result.added.length} 只减仓 ${result.unwinding.length} 恢复 ${result.restored.length} 移除 ${result.removed.length}${result.overdue.length > 0 ? ` 超时未清 ${result.overdue.length}` : ''}`);
+        this.events.onRotation?.(result);
+        return result;
+    }
+
+    /**
+     * 轮换加入的市场（含只减仓中的）
+     */
+    getRotatedMarkets(): Array<{ marketId: number } & RotatedMarket> {
+        return Array.from(this.rotatedMarkets, ([marketId, entry]) => ({ marketId, ...entry }));
+    }
+
     // ========================================================================
     // 状态查询
     // ========================================================================
@@ -308,8 +537,15 @@ export class MultiMarketMaker {
     setEmergencyStop(enabled: boolean): void {
         this.globalConfig.emergencyStop = enabled;
         if (enabled) {
-            console.warn('[MultiMM] 紧急停止已启用，所有市场将暂停');
-            this.pauseAll();
+            console.warn('[MultiMM] 紧急停止已启用，所有市场将撤单并暂停');
+            // 由 tick 撤单后暂停 (直接 pause 会跳过撤单，挂单留在盘口)
+            if (this.isRunning) {
+                for (const engine of this.engines.values()) {
+                    engine.tick().catch(() => { /* 错误已在 engine 内部处理 */ });
+                }
+            } else {
+                this.pauseAll();
+            }
         } else {
             console.log('[MultiMM] 紧急停止已解除');
         }
@@ -322,13 +558,205 @@ export class MultiMarketMaker {
         return this.globalConfig.emergencyStop;
     }
 
+    /**
+     * 风控敞口快照: Predict 持仓 + 未成交买单
+     */
+    getRiskExposure(): RiskExposure {
+        const exposure = emptyRiskExposure();
+        for (const engine of this.engines.values()) {
+            const state = engine.getState();
+            const buy = state.activeBuyOrder;
+            const openBuyQty = buy ? Math.max(0, buy.quantity - buy.filledQuantity) : 0;
+            // 多档策略的其余买单
+            const ladderBuys = state.ladderOrders.filter(o => o.side === 'BUY');
+            const ladderBuyQty = ladderBuys.reduce((sum, o) => sum + Math.max(0, o.quantity - o.filledQuantity), 0);
+            const ladderBuyNotional = ladderBuys.reduce((sum, o) => sum + Math.max(0, o.quantity - o.filledQuantity) * o.price, 0);
+            const shares = state.position + openBuyQty + ladderBuyQty;
+            if (shares <= 0) continue;
+
+            exposure.predictNotional += state.position * (state.lastBestBid || buy?.price || 0)
+                + openBuyQty * (buy?.price || 0) + ladderBuyNotional;
+            const hedge = this.hedger?.getStatus(state.marketId);
+            if (hedge) {
+                exposure.polymarketNotional += hedge.hedgedShares * hedge.avgPrice;
+            }
+            const key = String(state.marketId);
+            exposure.marketPositions[key] = (exposure.marketPositions[key] || 0) + shares;
+        }
+        return exposure;
+    }
+
     // ========================================================================
     // 私有方法
     // ========================================================================
 
+    private scheduleRotation(delayMs: number): void {
+        if (this.rotationTimer) {
+            clearTimeout(this.rotationTimer);
+        }
+        this.rotationTimer = setTimeout(async () => {
+            this.rotationTimer = null;
+            try {
+                await this.rotateMarkets();
+            } catch (error) {
+                console.error('[MultiMM] 市场轮换失败:', error);
+            }
+            if (this.isRunning && this.rotationConfig) {
+                this.scheduleRotation(this.rotationConfig.intervalMs);
+            }
+        }, delayMs);
+    }
+
+    /**
+     * 移除已清仓（剩余不足最小订单金额）的轮换市场
+     *
+     * 只减仓超时仍有持仓的市场不移除（移除后持仓无人管理）：保持只减仓继续挂卖单，
+     * 首次超时记入 overdue 供调用方告警，getRotatedMarkets() 中 overdueSince 非空
+     */
+    private async finishUnwinding(): Promise<{ removed: number[]; overdue: number[] }> {
+        const removed: number[] = [];
+        const overdue: number[] = [];
+        const timeoutMs = this.rotationConfig?.unwindTimeoutMs ?? DEFAULT_ROTATION_CONFIG.unwindTimeoutMs;
+        const now = Date.now();
+
+        for (const [marketId, entry] of Array.from(this.rotatedMarkets)) {
+            if (entry.unwindingSince === null) continue;
+            const engine = this.engines.get(marketId);
+            // 进入只减仓后至少 tick 一次（撤买单 + 同步持仓）再判断
+            if (engine && engine.getLastTickAt() <= entry.unwindingSince) continue;
+            const state = engine?.getState();
+            if (state) {
+                // 已对冲部分持有至结算，不计入待清仓
+                const remaining = state.position - state.hedgedShares;
+                const remainingValue = remaining * (state.lastBestBid || 1);
+                const flat = remaining <= 0 || remainingValue < this.globalConfig.minOrderValueUsd;
+                if (!flat) {
+                    if (now - entry.unwindingSince >= timeoutMs && entry.overdueSince === null) {
+                        entry.overdueSince = now;
+                        overdue.push(marketId);
+                        console.warn(`[MultiMM] 市场 ${marketId} 只减仓超时，剩余持仓 ${remaining} 未清，保持只减仓继续平仓`);
+                    }
+                    continue;
+                }
+            }
+            await this.removeMarket(marketId);
+            removed.push(marketId);
+        }
+        return { removed, overdue };
+    }
+
+    /**
+     * 从成交账本恢复已对冲 shares（init 前调用，避免重启后重复对冲或卖出锁定持仓）
+     */
+    private async restoreHedge(engine: MarketMakerEngine): Promise<void> {
+        const config = engine.getConfig();
+        if (!this.hedger || !config.hedge) return;
+        try {
+            engine.setHedgedShares(await this.hedger.getHedgedShares(config));
+        } catch (error) {
+            console.error(`[MultiMM] 市场 ${config.marketId} 对冲持仓恢复失败:`, error);
+        }
+    }
+
+    /**
+     * 未对冲持仓超过阈值时异步发起对冲（hedger 内部按市场串行、失败退避）
+     */
+    private requestHedge(marketId: number): void {
+        if (!this.hedger || !this.isRunning || this.globalConfig.emergencyStop) return;
+        const engine = this.engines.get(marketId);
+        const config = engine?.getConfig();
+        if (!engine || !config?.hedge) return;
+
+        const state = engine.getState();
+        if (state.position - state.hedgedShares < config.hedge.thresholdShares) return;
+
+        const hedger = this.hedger;
+        void hedger.hedge(config, state, engine.getStats().inventoryCost).then(async (fill) => {
+            if (!fill) return;
+            engine.setHedgedShares(await hedger.getHedgedShares(config));
+            this.events.onHedge?.(fill);
+        });
+    }
+
+    private isEventDriven(): boolean {
+        return this.globalConfig.eventDriven && this.eventSource !== null;
+    }
+
+    private async startEventSource(): Promise<void> {
+        const source = this.eventSource!;
+        source.on('orderbook', this.handleOrderbook);
+        source.on('walletEvent', this.handleWalletEvent);
+        await source.start();
+        await source.subscribeMarkets(this.getMarkets());
+
+        const walletLive = source.isWalletLive();
+        for (const engine of this.engines.values()) {
+            engine.setWalletEventsLive(walletLive);
+        }
+        console.log(`[MultiMM] 事件驱动: 订单簿推送=${source.isOrderbookLive()}, 钱包事件=${walletLive}, 兜底=${this.globalConfig.staleFallbackMs}ms`);
+    }
+
+    private readonly handleOrderbook = (marketId: number, book: OrderbookLevels): void => {
+        if (!this.isRunning) return;
+        this.engines.get(marketId)?.onOrderbookUpdate(book);
+    };
+
+    private readonly handleWalletEvent = (event: WalletEventData): void => {
+        if (!this.isRunning) return;
+        // 优先按事件中的 marketId 路由，缺失时交给各引擎按订单 hash 匹配
+        const target = event.marketId !== undefined ? this.engines.get(event.marketId) : undefined;
+        if (target?.onWalletEvent(event)) return;
+        for (const engine of this.engines.values()) {
+            if (engine !== target && engine.onWalletEvent(event)) return;
+        }
+    };
+
+    /**
+     * 买单下单前检查账户级风控 (卖单只会减少敞口，不拦截)
+     */
+    private async placeOrderWithRiskCheck(
+        placeOrder: EngineDependencies['placeOrder'],
+        params: PlaceOrderParams
+    ): Promise<{ id: string; hash: string }> {
+        const riskManager = getRiskManager();
+        if (riskManager && params.side === 'BUY') {
+            const riskCheck = riskManager.check({
+                marketId: params.marketId,
+                predictShares: params.quantity,
+                predictNotional: params.price * params.quantity,
+                polymarketNotional: 0,
+            });
+            if (!riskCheck.allowed) {
+                throw new Error(`风控拒绝下单: ${riskCheck.reason}`);
+            }
+        }
+        return placeOrder(params);
+    }
+
+    /**
+     * 同步风控熔断状态 (可能由 Dashboard 进程触发)
+     */
+    private syncRiskHalt(): void {
+        const riskManager = getRiskManager();
+        if (!riskManager) return;
+
+        if (riskManager.isHalted()) {
+            if (!this.globalConfig.emergencyStop) {
+                console.warn(`[MultiMM] 风控熔断: ${riskManager.getHaltState().reason}`);
+                this.haltedByRisk = true;
+                this.setEmergencyStop(true);
+            }
+        } else if (this.haltedByRisk) {
+            this.haltedByRisk = false;
+            this.setEmergencyStop(false);
+            this.resumeAll();
+        }
+    }
+
     private updateGlobalStats(): void {
         let runningCount = 0;
         let totalPnL = 0;
+        const riskManager = getRiskManager();
 
         const statsEngines = Array.from(this.engines.values());
         for (const engine of statsEngines) {
@@ -339,6 +767,15 @@ export class MultiMarketMaker {
 
             const stats = engine.getStats();
             totalPnL += stats.realizedPnL;
+
+            // 增量上报已实现盈亏到风控 (按市场记录，移除市场不会产生负增量)
+            if (riskManager) {
+                const reported = this.reportedRealizedPnL.get(state.marketId) ?? 0;
+                if (stats.realizedPnL !== reported) {
+                    this.reportedRealizedPnL.set(state.marketId, stats.realizedPnL);
+                    riskManager.recordRealizedPnl(stats.realizedPnL - reported);
+                }
+            }
         }
 
         this.globalStats.runningMarkets = runningCount;
@@ -359,6 +796,12 @@ export interface GlobalStats {
     startTime: Date | null;
 }
 
+interface RotatedMarket {
+    addedAt: number;
+    unwindingSince: number | null;   // 进入只减仓的时间
+    overdueSince: number | null;     // 只减仓超时仍有持仓的时间 (保留只减仓，等待人工处理或继续平仓)
+}
+
 export interface MultiMarketMakerEvents {
     onMarketStateChange?: (marketId: number, state: MarketState) => void;
     onMarketError?: (marketId: number, error: Error) => void;
@@ -366,6 +809,8 @@ export interface MultiMarketMakerEvents {
     onOrderPlaced?: (marketId: number, order: ActiveOrder) => void;
     onOrderCancelled?: (marketId: number, orderId: string) => void;
     onPriceUpdate?: (snapshot: PriceSnapshot) => void;
+    onRotation?: (result: MarketRotationResult) => void;
+    onHedge?: (fill: HedgeFill) => void;
 }
 
 // ============================================================================
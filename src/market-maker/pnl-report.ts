@@ -0,0 +1,121 @@
+/**
+ * Predict 做市模块 - 成交账本盈亏报表
+ *
+ * 使用：
+ *   npm run mm:pnl -- [--period=day|week] [--market=696] [--from=2026-01-01] [--to=2026-02-01] [--by-market]
+ *   npm run mm:pnl -- --json [--out=mm-pnl.json]
+ *
+ * 选项：
+ *   --period      汇总周期 (默认 day)
+ *   --market      只统计单个市场
+ *   --from/--to   本地日期范围 (to 不含)
+ *   --by-market   按市场拆分
+ *   --json        输出 JSON (汇总 + 每个市场的 FIFO 批次，未实现盈亏按最后成交价估值)
+ *   --out         JSON 写入文件 (隐含 --json)
+ *   --db          账本路径 (默认 MM_FILL_LEDGER 或 data/market-maker-fills.db)
+ */
+
+import { config } from 'dotenv';
+import * as fs from 'fs';
+import { resolve } from 'path';
+import { FillLedger, DEFAULT_FILL_LEDGER_PATH } from './fill-ledger.js';
+import type { PnLPeriod, PnLQuery, PnLSummaryRow } from './types.js';
+
+config({ path: resolve(process.cwd(), '.env') });
+
+function parseArgs(args: string[]): Map<string, string> {
+    const flags = new Map<string, string>();
+    for (const arg of args) {
+        if (!arg.startsWith('--')) continue;
+        const [key, ...rest] = arg.slice(2).split('=');
+        flags.set(key, rest.length > 0 ? rest.join('=') : 'true');
+    }
+    return flags;
+}
+
+function parseLocalDate(name: string, value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) {
+        throw new Error(`--${name} 格式应为 YYYY-MM-DD: ${value}`);
+    }
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+}
+
+function formatUsd(value: number): string {
+    return `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+}
+
+function printSummary(rows: PnLSummaryRow[], byMarket: boolean): void {
+    if (rows.length === 0) {
+        console.log('暂无成交记录');
+        return;
+    }
+    console.log(`${'周期'.padEnd(12)}${byMarket ? '市场'.padEnd(8) : ''}${'买/卖'.padEnd(10)}${'买入量'.padStart(10)}${'卖出量'.padStart(10)}${'成交额'.padStart(12)}${'已实现'.padStart(12)}`);
+    for (const row of rows) {
+        console.log(
+            row.period.padEnd(14) +
+            (byMarket ? `#${row.marketId}`.padEnd(8) : '') +
+            `${row.buys}/${row.sells}`.padEnd(10) +
+            row.buyVolume.toFixed(2).padStart(12) +
+            row.sellVolume.toFixed(2).padStart(12) +
+            `$${(row.buyValue + row.sellValue).toFixed(2)}`.padStart(14) +
+            formatUsd(row.realizedPnL).padStart(14)
+        );
+    }
+    const total = rows.reduce((sum, r) => sum + r.realizedPnL, 0);
+    console.log(`\n合计已实现: ${formatUsd(total)}`);
+}
+
+async function main(): Promise<void> {
+    const flags = parseArgs(process.argv.slice(2));
+
+    const period = (flags.get('period') || 'day') as PnLPeriod;
+    if (period !== 'day' && period !== 'week') {
+        throw new Error(`--period 只支持 day / week: ${period}`);
+    }
+
+    const query: PnLQuery = {
+        from: parseLocalDate('from', flags.get('from')),
+        to: parseLocalDate('to', flags.get('to')),
+        byMarket: flags.get('by-market') === 'true',
+    };
+    const market = flags.get('market');
+    if (market !== undefined) {
+        query.marketId = Number(market);
+        if (!Number.isInteger(query.marketId) || query.marketId <= 0) {
+            throw new Error(`--market 无效: ${market}`);
+        }
+    }
+
+    const dbFlag = flags.get('db') || process.env.MM_FILL_LEDGER;
+    const dbPath = dbFlag ? resolve(process.cwd(), dbFlag) : DEFAULT_FILL_LEDGER_PATH;
+    if (!fs.existsSync(dbPath)) {
+        throw new Error(`成交账本不存在: ${dbPath}`);
+    }
+
+    const ledger = new FillLedger(dbPath);
+    try {
+        const out = flags.get('out');
+        if (flags.get('json') === 'true' || out) {
+            const json = JSON.stringify(ledger.exportJson(period, query), null, 2);
+            if (out) {
+                fs.writeFileSync(resolve(process.cwd(), out), json, 'utf8');
+                console.log(`已导出: ${resolve(process.cwd(), out)}`);
+            } else {
+                console.log(json);
+            }
+            return;
+        }
+
+        console.log(`成交账本: ${dbPath}\n`);
+        printSummary(ledger.summarize(period, query), query.byMarket === true);
+    } finally {
+        ledger.close();
+    }
+}
+
+main().catch(error => {
+    console.error(`[MM PnL] ${error?.message || error}`);
+    process.exit(1);
+});
@@ -0,0 +1,102 @@
+/**
+ * 做市进程远程控制
+ *
+ * 做市 CLI 与 Dashboard 是独立进程，Dashboard (如 Telegram /mm stop) 通过
+ * data/mm-control.json 下发指令，做市 CLI 轮询读取并执行后删除文件。
+ * 做市 CLI 每次轮询同时刷新 data/mm-heartbeat.json，Dashboard 据此判断做市进程是否在运行。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type MarketMakerCommand = 'stop';
+
+export interface MarketMakerControlRequest {
+    command: MarketMakerCommand;
+    reason: string;
+    requestedAt: number;
+}
+
+export interface MarketMakerHeartbeat {
+    pid: number;
+    emergencyStopped: boolean;
+    updatedAt: number;
+}
+
+export type MarketMakerStopResult = 'REQUESTED' | 'ALREADY_STOPPED' | 'NOT_RUNNING';
+
+/** 心跳超过该时长未刷新视为做市进程已退出 */
+const HEARTBEAT_STALE_MS = 10_000;
+
+function getControlFile(): string {
+    return path.join(process.cwd(), 'data', 'mm-control.json');
+}
+
+function getHeartbeatFile(): string {
+    return path.join(process.cwd(), 'data', 'mm-heartbeat.json');
+}
+
+/**
+ * 做市进程刷新心跳
+ */
+export function writeMarketMakerHeartbeat(emergencyStopped: boolean): void {
+    const file = getHeartbeatFile();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const heartbeat: MarketMakerHeartbeat = { pid: process.pid, emergencyStopped, updatedAt: Date.now() };
+    fs.writeFileSync(file, JSON.stringify(heartbeat, null, 2));
+}
+
+/**
+ * 做市进程退出时清除心跳
+ */
+export function clearMarketMakerHeartbeat(): void {
+    try { fs.unlinkSync(getHeartbeatFile()); } catch { /* ignore */ }
+}
+
+/**
+ * 读取做市进程心跳 (文件不存在或已过期返回 null)
+ */
+export function readMarketMakerHeartbeat(now: number = Date.now()): MarketMakerHeartbeat | null {
+    const file = getHeartbeatFile();
+    if (!fs.existsSync(file)) return null;
+    try {
+        const heartbeat = JSON.parse(fs.readFileSync(file, 'utf-8')) as MarketMakerHeartbeat;
+        return now - heartbeat.updatedAt <= HEARTBEAT_STALE_MS ? heartbeat : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * 请求做市进程紧急停止 (无存活的做市进程时不下发指令)
+ */
+export function requestMarketMakerStop(reason: string): MarketMakerStopResult {
+    const heartbeat = readMarketMakerHeartbeat();
+    if (!heartbeat) return 'NOT_RUNNING';
+    if (heartbeat.emergencyStopped) return 'ALREADY_STOPPED';
+
+    const file = getControlFile();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const request: MarketMakerControlRequest = { command: 'stop', reason, requestedAt: Date.now() };
+    fs.writeFileSync(file, JSON.stringify(request, null, 2));
+    return 'REQUESTED';
+}
+
+/**
+ * 读取并消费指令 (早于 since 的过期指令直接丢弃)
+ */
+export function consumeMarketMakerControl(since: number): MarketMakerControlRequest | null {
+    const file = getControlFile();
+    if (!fs.existsSync(file)) return null;
+
+    let request: MarketMakerControlRequest | null = null;
+    try {
+        request = JSON.parse(fs.readFileSync(file, 'utf-8')) as MarketMakerControlRequest;
+    } catch (error: any) {
+        console.warn(`[MM] 读取控制指令失败: ${error?.message || error}`);
+    }
+    try { fs.unlinkSync(file); } catch { /* ignore */ }
+
+    if (!request || request.requestedAt < since) return null;
+    return request;
+}
@@ -0,0 +1,21 @@
+/**
+ * FOLLOW 策略：买单跟随买一，卖单跟随卖一
+ *
+ * - 买单量 = 最大持仓 - 当前持仓
+ * - 卖单量 = 当前持仓
+ */
+
+import type { QuoteContext, QuoteLadders, QuoteStrategy } from './types.js';
+
+export class FollowStrategy implements QuoteStrategy {
+    readonly name = 'FOLLOW' as const;
+    readonly askMode = 'LADDER' as const;
+    readonly requiresTickSize = false;
+
+    quote(ctx: QuoteContext): QuoteLadders {
+        return {
+            bids: [{ price: ctx.bestBid, quantity: Math.max(0, ctx.maxShares - ctx.position) }],
+            asks: ctx.position > 0 ? [{ price: ctx.bestAsk, quantity: ctx.position }] : [],
+        };
+    }
+}
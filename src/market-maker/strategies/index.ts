@@ -0,0 +1,58 @@
+/**
+ * 做市报价策略 - 导出与注册表
+ *
+ * 新策略：实现 QuoteStrategy，在 MarketMakerStrategy 中加入名称，然后 registerQuoteStrategy
+ */
+
+import type { MarketMakerConfig, MarketMakerStrategy } from '../types.js';
+import { FollowStrategy } from './follow.js';
+import { InventorySkewStrategy } from './inventory-skew.js';
+import { LadderStrategy } from './ladder.js';
+import { ScalpStrategy } from './scalp.js';
+import type { QuoteStrategy, QuoteStrategyFactory } from './types.js';
+
+export type {
+    BookLevels,
+    QuoteLevel,
+    QuoteLadders,
+    QuoteContext,
+    QuoteStrategy,
+    QuoteStrategyFactory,
+} from './types.js';
+export { FollowStrategy } from './follow.js';
+export { ScalpStrategy } from './scalp.js';
+export { InventorySkewStrategy } from './inventory-skew.js';
+export { LadderStrategy } from './ladder.js';
+export { floorToTick, ceilToTick, roundToTick, clampPrice, makerBidPrice, makerAskPrice } from './pricing.js';
+
+const registry = new Map<MarketMakerStrategy, QuoteStrategyFactory>([
+    ['FOLLOW', () => new FollowStrategy()],
+    ['SCALP', () => new ScalpStrategy()],
+    ['SKEW', (config) => new InventorySkewStrategy(config)],
+    ['LADDER', (config) => new LadderStrategy(config)],
+]);
+
+/**
+ * 注册/替换策略实现
+ */
+export function registerQuoteStrategy(name: MarketMakerStrategy, factory: QuoteStrategyFactory): void {
+    registry.set(name, factory);
+}
+
+/**
+ * 已注册的策略名称
+ */
+export function getQuoteStrategyNames(): MarketMakerStrategy[] {
+    return Array.from(registry.keys());
+}
+
+/**
+ * 为单个市场创建策略实例（策略可持有状态，每个引擎独立一份）
+ */
+export function createQuoteStrategy(config: MarketMakerConfig): QuoteStrategy {
+    const factory = registry.get(config.strategy);
+    if (!factory) {
+        throw new Error(`未知做市策略: ${config.strategy}`);
+    }
+    return factory(config);
+}
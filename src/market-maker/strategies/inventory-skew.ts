@@ -0,0 +1,77 @@
+/**
+ * SKEW 策略：Avellaneda–Stoikov 保留价 + 库存惩罚
+ *
+ *   保留价   r = mid - q·γ·σ²·T
+ *   总价差   δ = γ·σ²·T + (2/γ)·ln(1 + γ/κ)
+ *   买价 = r - δ/2，卖价 = r + δ/2（对齐 tick，且不穿过对手盘）
+ *
+ * q 为当前持仓（shares）：持仓越多，双边报价越低（少买、快卖）。
+ * σ 以配置值为下限，运行中按中间价变化做 EWMA 估计。
+ */
+
+import type { MarketMakerConfig } from '../types.js';
+import { makerAskPrice, makerBidPrice } from './pricing.js';
+import type { QuoteContext, QuoteLadders, QuoteStrategy } from './types.js';
+
+const DEFAULT_RISK_AVERSION = 0.1;
+const DEFAULT_VOLATILITY = 0.002;
+const DEFAULT_HORIZON_SEC = 300;
+const DEFAULT_ORDER_ARRIVAL = 150;
+const VOLATILITY_EWMA_ALPHA = 0.05;
+
+export class InventorySkewStrategy implements QuoteStrategy {
+    readonly name = 'SKEW' as const;
+    readonly askMode = 'LADDER' as const;
+    readonly requiresTickSize = true;
+
+    private riskAversion: number;
+    private minVolatility: number;
+    private horizonSec: number;
+    private orderArrival: number;
+
+    // 波动率估计 (方差，价格²/秒)
+    private variance: number;
+    private lastMid: number | null = null;
+    private lastMidAt = 0;
+
+    constructor(config: MarketMakerConfig) {
+        const params = config.strategyParams ?? {};
+        this.riskAversion = params.riskAversion ?? DEFAULT_RISK_AVERSION;
+        this.minVolatility = params.volatility ?? DEFAULT_VOLATILITY;
+        this.horizonSec = params.horizonSec ?? DEFAULT_HORIZON_SEC;
+        this.orderArrival = params.orderArrival ?? DEFAULT_ORDER_ARRIVAL;
+        this.variance = this.minVolatility * this.minVolatility;
+    }
+
+    quote(ctx: QuoteContext): QuoteLadders {
+        const mid = (ctx.bestBid + ctx.bestAsk) / 2;
+        this.updateVolatility(mid, ctx.now);
+
+        const gamma = this.riskAversion;
+        const riskTerm = gamma * this.variance * this.horizonSec;
+        const reservation = mid - ctx.position * riskTerm;
+        const halfSpread = riskTerm / 2 + Math.log(1 + gamma / this.orderArrival) / gamma;
+
+        const bidPrice = makerBidPrice(reservation - halfSpread, ctx.bestAsk, ctx.tickSize);
+        const askPrice = makerAskPrice(reservation + halfSpread, ctx.bestBid, ctx.tickSize);
+        const capacity = Math.max(0, ctx.maxShares - ctx.position);
+
+        return {
+            bids: capacity > 0 ? [{ price: bidPrice, quantity: capacity }] : [],
+            asks: ctx.position > 0 ? [{ price: askPrice, quantity: ctx.position }] : [],
+            note: `r=${reservation.toFixed(4)} δ=${(halfSpread * 2).toFixed(4)} σ=${Math.sqrt(this.variance).toFixed(5)}`,
+        };
+    }
+
+    private updateVolatility(mid: number, now: number): void {
+        if (this.lastMid !== null && now > this.lastMidAt) {
+            const dtSec = (now - this.lastMidAt) / 1000;
+            const change = mid - this.lastMid;
+            const sample = (change * change) / dtSec;
+            const floor = this.minVolatility * this.minVolatility;
+            this.variance = Math.max(floor, (1 - VOLATILITY_EWMA_ALPHA) * this.variance + VOLATILITY_EWMA_ALPHA * sample);
+        }
+        this.lastMid = mid;
+        this.lastMidAt = now;
+    }
+}
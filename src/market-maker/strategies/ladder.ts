@@ -0,0 +1,70 @@
+/**
+ * LADDER 策略：多档阶梯挂单
+ *
+ * - 买单从买一向下、卖单从卖一向上，每档间隔 levelSpacingTicks 个 tick
+ * - 每档数量按 sizeDecay 几何衰减，合计 = 可买量 / 当前持仓
+ * - 数量不足 minOrderSize 的档位并入第 1 档
+ */
+
+import type { MarketMakerConfig } from '../types.js';
+import { roundToTick } from './pricing.js';
+import type { QuoteContext, QuoteLadders, QuoteLevel, QuoteStrategy } from './types.js';
+
+const DEFAULT_LEVELS = 3;
+const DEFAULT_LEVEL_SPACING_TICKS = 1;
+const DEFAULT_SIZE_DECAY = 0.5;
+
+export class LadderStrategy implements QuoteStrategy {
+    readonly name = 'LADDER' as const;
+    readonly askMode = 'LADDER' as const;
+    readonly requiresTickSize = true;
+
+    private levels: number;
+    private spacingTicks: number;
+    private sizeDecay: number;
+
+    constructor(config: MarketMakerConfig) {
+        const params = config.strategyParams ?? {};
+        this.levels = Math.max(1, Math.floor(params.levels ?? DEFAULT_LEVELS));
+        this.spacingTicks = Math.max(1, Math.floor(params.levelSpacingTicks ?? DEFAULT_LEVEL_SPACING_TICKS));
+        this.sizeDecay = params.sizeDecay ?? DEFAULT_SIZE_DECAY;
+    }
+
+    quote(ctx: QuoteContext): QuoteLadders {
+        const step = this.spacingTicks * ctx.tickSize;
+        const bidPrices: number[] = [];
+        const askPrices: number[] = [];
+        for (let i = 0; i < this.levels; i++) {
+            const bid = roundToTick(ctx.bestBid - i * step, ctx.tickSize);
+            const ask = roundToTick(ctx.bestAsk + i * step, ctx.tickSize);
+            if (bid >= ctx.tickSize - 1e-9) bidPrices.push(bid);
+            if (ask <= 1 - ctx.tickSize + 1e-9) askPrices.push(ask);
+        }
+
+        const minSize = ctx.config.minOrderSize;
+        return {
+            bids: this.split(Math.max(0, ctx.maxShares - ctx.position), bidPrices, minSize),
+            asks: this.split(ctx.position, askPrices, minSize),
+        };
+    }
+
+    /**
+     * 按几何权重拆分总量（后续档取整，余量归第 1 档）
+     */
+    private split(total: number, prices: number[], minSize: number): QuoteLevel[] {
+        if (total <= 0 || prices.length === 0) return [];
+
+        const weights = prices.map((_, i) => Math.pow(this.sizeDecay, i));
+        const weightSum = weights.reduce((sum, w) => sum + w, 0);
+
+        const levels: QuoteLevel[] = [];
+        let allocated = 0;
+        for (let i = 1; i < prices.length; i++) {
+            const quantity = Math.floor(total * weights[i] / weightSum);
+            if (quantity < minSize) continue;
+            levels.push({ price: prices[i], quantity });
+            allocated += quantity;
+        }
+        return [{ price: prices[0], quantity: total - allocated }, ...levels];
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * 做市报价策略 - 价格工具
+ */
+
+const EPSILON = 1e-9;
+
+/** 去掉浮点尾差（0.41000000000000003 → 0.41） */
+function normalize(price: number, tickSize: number): number {
+    const decimals = Math.max(0, Math.ceil(-Math.log10(tickSize) - EPSILON));
+    return Number(price.toFixed(decimals));
+}
+
+/** 向下对齐到 tick（买价） */
+export function floorToTick(price: number, tickSize: number): number {
+    return normalize(Math.floor((price + EPSILON) / tickSize) * tickSize, tickSize);
+}
+
+/** 向上对齐到 tick（卖价） */
+export function ceilToTick(price: number, tickSize: number): number {
+    return normalize(Math.ceil((price - EPSILON) / tickSize) * tickSize, tickSize);
+}
+
+/** 四舍五入到 tick */
+export function roundToTick(price: number, tickSize: number): number {
+    return normalize(Math.round(price / tickSize) * tickSize, tickSize);
+}
+
+/** 钳位到 [tick, 1 - tick] */
+export function clampPrice(price: number, tickSize: number): number {
+    return Math.max(tickSize, Math.min(1 - tickSize, price));
+}
+
+/**
+ * Maker 买价：对齐 tick，且不穿过卖一（至少低 1 tick）
+ */
+export function makerBidPrice(price: number, bestAsk: number, tickSize: number): number {
+    const capped = bestAsk > 0 ? Math.min(price, bestAsk - tickSize) : price;
+    return floorToTick(clampPrice(capped, tickSize), tickSize);
+}
+
+/**
+ * Maker 卖价：对齐 tick，且不穿过买一（至少高 1 tick）
+ */
+export function makerAskPrice(price: number, bestBid: number, tickSize: number): number {
+    const floored = bestBid > 0 ? Math.max(price, bestBid + tickSize) : price;
+    return ceilToTick(clampPrice(floored, tickSize), tickSize);
+}
@@ -0,0 +1,25 @@
+/**
+ * SCALP 策略（剥头皮）：买单跟随买一，每笔买入成交以成本 + 1 tick 单独挂卖单
+ *
+ * 卖单不追价（PER_FILL），由引擎的多卖单队列管理
+ */
+
+import { clampPrice, roundToTick } from './pricing.js';
+import type { QuoteContext, QuoteLadders, QuoteStrategy } from './types.js';
+
+export class ScalpStrategy implements QuoteStrategy {
+    readonly name = 'SCALP' as const;
+    readonly askMode = 'PER_FILL' as const;
+    readonly requiresTickSize = true;
+
+    quote(ctx: QuoteContext): QuoteLadders {
+        return {
+            bids: [{ price: ctx.bestBid, quantity: Math.max(0, ctx.maxShares - ctx.position) }],
+            asks: [],
+        };
+    }
+
+    perFillAskPrice(costPrice: number, tickSize: number): number {
+        return roundToTick(clampPrice(costPrice + tickSize, tickSize), tickSize);
+    }
+}
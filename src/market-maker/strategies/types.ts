@@ -0,0 +1,57 @@
+/**
+ * 做市报价策略 - 类型定义
+ *
+ * 策略只负责"想挂什么"（买/卖阶梯），下单/撤单/对账仍由 MarketMakerEngine 完成
+ */
+
+import type { MarketMakerConfig, MarketMakerStrategy } from '../types.js';
+
+export type BookLevels = { bids: [number, number][]; asks: [number, number][] };
+
+export interface QuoteLevel {
+    price: number;
+    quantity: number;
+}
+
+export interface QuoteLadders {
+    /** 买单阶梯，[0] 为最靠近盘口的一档 */
+    bids: QuoteLevel[];
+    /** 卖单阶梯 (askMode=PER_FILL 时忽略) */
+    asks: QuoteLevel[];
+    /** 报价说明（日志用） */
+    note?: string;
+}
+
+export interface QuoteContext {
+    /** 订单簿（已按 outcome 转换） */
+    book: BookLevels;
+    bestBid: number;
+    bestAsk: number;
+    tickSize: number;
+    /** 精度处理后的持仓 */
+    position: number;
+    /** 加权平均持仓成本 */
+    inventoryCost: number;
+    maxShares: number;
+    config: MarketMakerConfig;
+    now: number;
+}
+
+export interface QuoteStrategy {
+    readonly name: MarketMakerStrategy;
+    /**
+     * 卖单模式
+     * - LADDER: 按 asks 阶梯对账
+     * - PER_FILL: 每笔买入成交单独挂卖单，卖价由 perFillAskPrice 计算 (SCALP)
+     */
+    readonly askMode: 'LADDER' | 'PER_FILL';
+    /** 启动时是否需要从 API 获取精确 tick size（按 tick 偏移报价的策略） */
+    readonly requiresTickSize: boolean;
+
+    quote(ctx: QuoteContext): QuoteLadders;
+
+    /** PER_FILL: 按买入成本计算卖价 */
+    perFillAskPrice?(costPrice: number, tickSize: number): number;
+}
+
+export type QuoteStrategyFactory = (config: MarketMakerConfig) => QuoteStrategy;
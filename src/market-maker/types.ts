@@ -6,7 +6,14 @@
 // 市场配置
 // ============================================================================
 
-export type MarketMakerStrategy = 'FOLLOW' | 'SCALP';
+/**
+ * 报价策略 (实现见 strategies/)
+ * - FOLLOW: 买一/卖一跟随
+ * - SCALP: 买一跟随，每笔买入成交按成本 + 1 tick 挂卖单
+ * - SKEW: Avellaneda–Stoikov 保留价 + 库存惩罚
+ * - LADDER: 多档阶梯挂单
+ */
+export type MarketMakerStrategy = 'FOLLOW' | 'SCALP' | 'SKEW' | 'LADDER';
 export type OutcomeChoice = 'YES' | 'NO';
 
 export interface MarketMakerConfig {
@@ -20,7 +27,8 @@ export interface MarketMakerConfig {
     maxShares: number;            // 该市场最大持仓
     minOrderSize: number;         // 最小订单数量 (默认 1)
     tickSize: number;             // 最小价格精度 (从 API decimalPrecision 计算: 0.01 或 0.001)
-    strategy: MarketMakerStrategy; // 策略模式: FOLLOW=跟随卖一, SCALP=剥头皮(买一+1tick)
+    strategy: MarketMakerStrategy; // 策略模式: FOLLOW=跟随卖一, SCALP=剥头皮(买一+1tick), SKEW=库存偏移, LADDER=多档
+    strategyParams?: QuoteStrategyParams; // 策略参数（缺省取各策略默认值）
 
     // 价格运行区间（可选）
     // - 买一价不高于 maxBuyPrice，否则暂停下单
@@ -36,6 +44,38 @@ export interface MarketMakerConfig {
 
     // SCALP 策略: 最大卖单数量（默认 10）
     maxScalpSellOrders?: number;
+
+    // 跨平台对冲（可选，需 Polymarket 映射；不支持 SCALP）
+    hedge?: HedgeConfig;
+}
+
+/**
+ * Polymarket 对冲配置
+ *
+ * 未对冲持仓超过 thresholdShares 时在 Polymarket 买入经济上相反的 outcome (按映射 inverted)，
+ * 对冲价 + 两边手续费不高于 maxPairCost - Predict 持仓成本。已对冲的持仓锁定持有至结算，不再在 Predict 挂卖单。
+ */
+export interface HedgeConfig {
+    polymarketConditionId: string; // 映射注册表中 Predict 市场的 conditionId
+    thresholdShares: number;       // 未对冲持仓触发阈值 (默认 10)
+    maxPairCost: number;           // Predict 成本 + 对冲价上限 (默认 0.98)
+    maxHedgedShares: number;       // 锁定持仓上限 (默认 500)
+}
+
+/**
+ * 策略参数（各策略只读取自己的字段）
+ */
+export interface QuoteStrategyParams {
+    // SKEW (Avellaneda–Stoikov)
+    riskAversion?: number;        // γ 风险厌恶系数 (默认 0.1)
+    volatility?: number;          // σ 波动率初值，价格/√秒 (默认 0.002，运行中按中间价 EWMA 估计)
+    horizonSec?: number;          // T 持仓周期 (默认 300 秒)
+    orderArrival?: number;        // κ 成交到达衰减 (默认 150，越大价差越窄)
+
+    // LADDER
+    levels?: number;              // 每边档数 (默认 3)
+    levelSpacingTicks?: number;   // 档间距 tick 数 (默认 1)
+    sizeDecay?: number;           // 每档数量衰减系数 (默认 0.5)
 }
 
 export interface GlobalConfig {
@@ -50,6 +90,11 @@ export interface GlobalConfig {
     maxConsecutiveErrors: number; // 连续错误阈值，超过则暂停 (默认 5)
     emergencyStop: boolean;       // 紧急停止开关
     sizeEpsilon: number;          // Delta 失衡保护：尺寸比较容差 (默认 0.1)
+
+    // WS 事件驱动
+    eventDriven: boolean;         // 订单簿/钱包事件触发报价，轮询仅兜底 (默认 true)
+    requoteDebounceMs: number;    // 订单簿推送合并窗口 (默认 50ms)
+    staleFallbackMs: number;      // 超过该时长无推送时走 REST 兜底 (默认 5000ms)
 }
 
 // ============================================================================
@@ -79,12 +124,17 @@ export interface MarketState {
     scalpSellOrders: ScalpSellOrder[];      // 多卖单列表
     pendingSellOrders: PendingSellOrder[];  // 待挂卖单队列
 
+    // 多档策略：第 2 档及以后的挂单（第 1 档仍为 activeBuyOrder/activeSellOrder）
+    ladderOrders: ActiveOrder[];
+
     lastBestBid: number;
     lastBestAsk: number;
     lastSpread: number;
     lastUpdateMs: number;
     status: MarketStatus;
     errorMessage?: string;
+    reduceOnly: boolean;                 // 只减仓：停止买入，仅挂卖单清仓（市场轮换退出时使用）
+    hedgedShares: number;                // 已在 Polymarket 对冲并锁定的持仓（不计入可卖量和买入上限）
 }
 
 export type MarketStatus =
@@ -179,6 +229,189 @@ export interface Fill {
     filledAt: Date;
 }
 
+// ============================================================================
+// 成交账本（SQLite 持久化，跨重启恢复持仓成本与盈亏）
+// ============================================================================
+
+/**
+ * 账本记录类型
+ * - FILL: 真实成交
+ * - ADJUST: 启动时按链上持仓对账产生的调整（停机期间成交/手动交易），不计入成交量
+ */
+export type LedgerEntryKind = 'FILL' | 'ADJUST';
+
+export interface LedgerEntry {
+    id: number;
+    kind: LedgerEntryKind;
+    marketId: number;
+    tokenId: string;
+    outcome: OutcomeChoice;
+    orderId: string;
+    side: 'BUY' | 'SELL';
+    price: number;
+    quantity: number;
+    costPrice: number | null;     // SCALP 卖单对应的买入成本（优先匹配该成本的批次）
+    realizedPnL: number;          // 卖出时按 FIFO 批次计算的已实现盈亏
+    strategy: MarketMakerStrategy | null;
+    filledAt: number;             // ms
+}
+
+/**
+ * FIFO 持仓批次（每笔买入成交一个批次）
+ */
+export interface FifoLot {
+    price: number;
+    quantity: number;
+    openedAt: number;             // ms
+}
+
+/**
+ * 单市场账本回放结果
+ */
+export interface LedgerSnapshot {
+    marketId: number;
+    tokenId: string;
+    lots: FifoLot[];
+    position: number;             // 批次剩余总量
+    inventoryCost: number;        // 批次加权平均成本
+    realizedPnL: number;          // 累计已实现盈亏
+    totalBuyVolume: number;
+    totalSellVolume: number;
+    fillCount: number;
+    lastFillPrice: number | null;
+    lastFillAt: number | null;
+}
+
+export type PnLPeriod = 'day' | 'week';
+
+export interface PnLSummaryRow {
+    period: string;               // 本地时间 2026-01-31 / 2026-W05
+    marketId: number | null;      // null = 全部市场合计
+    buys: number;
+    sells: number;
+    buyVolume: number;
+    sellVolume: number;
+    buyValue: number;
+    sellValue: number;
+    realizedPnL: number;
+}
+
+export interface PnLQuery {
+    marketId?: number;
+    from?: number;                // ms (含)
+    to?: number;                  // ms (不含)
+    byMarket?: boolean;           // 按市场拆分（默认合计）
+}
+
+// ============================================================================
+// 自动选市场 / 轮换
+// ============================================================================
+
+/**
+ * 评分权重（各分项先归一化到 0-1，再按权重加权求和）
+ */
+export interface MarketScoreWeights {
+    spread: number;               // 价差越宽越好（到 targetSpreadCents 封顶）
+    volume: number;               // 24h 成交量（对数刻度）
+    depth: number;                // 中间价附近的挂单深度 (USD)
+    fee: number;                  // 手续费越低越好
+    boost: number;                // 积分加成市场
+    time: number;                 // 距结算时间越长越好
+    volatility: number;           // 近期中间价波动越小越好
+}
+
+export interface AutoSelectConfig {
+    weights: MarketScoreWeights;
+    targetSpreadCents: number;    // 价差分项满分对应的价差 (默认 4¢)
+    minSpreadCents: number;       // 低于该价差不做 (默认 1¢)
+    maxSpreadCents: number;       // 高于该价差视为无效盘口 (默认 15¢)
+    volumeRefUsd: number;         // 成交量分项满分对应的 24h 成交量 (默认 $50,000)
+    depthRefUsd: number;          // 深度分项满分对应的深度 (默认 $5,000)
+    depthRangeCents: number;      // 统计深度的中间价范围 (默认 ±5¢)
+    maxFeeRateBps: number;        // 手续费分项归零的费率 (默认 200 bps)
+    minHoursToResolution: number; // 距结算不足该时长的市场不做 (默认 24h)
+    timeRefHours: number;         // 时间分项满分对应的时长 (默认 7 天)
+    volatilityRefCents: number;   // 波动率分项归零的中间价标准差 (默认 3¢)
+    minMidPrice: number;          // 中间价下限 (默认 0.05)
+    maxMidPrice: number;          // 中间价上限 (默认 0.95)
+    maxCandidates: number;        // 第二阶段拉取统计数据的候选数 (默认 30)
+    excludeMarketIds: number[];   // 排除的市场（含手动指定的常驻市场）
+}
+
+/**
+ * 评分原始指标
+ */
+export interface MarketMetrics {
+    bestBid: number;
+    bestAsk: number;
+    spreadCents: number;
+    midPrice: number;
+    depthUsd: number;
+    volume24h: number | null;           // null = 未拉取
+    feeRateBps: number;
+    boosted: boolean;
+    hoursToResolution: number | null;   // null = API 未给出结算时间
+    volatilityCents: number | null;     // null = 样本不足
+}
+
+export interface MarketScore {
+    marketId: number;
+    title: string;
+    score: number;                      // 0-1
+    components: MarketScoreWeights;     // 各分项归一化得分 (0-1)
+    metrics: MarketMetrics;
+    eligible: boolean;
+    reason?: string;                    // 不合格原因
+}
+
+export interface MarketRotationConfig {
+    intervalMs: number;           // 轮换间隔 (默认 30 分钟)
+    topN: number;                 // 同时做市的自动市场数
+    retainBuffer: number;         // 排名跌出 topN + retainBuffer 才退出，避免边界抖动 (默认 2)
+    minHoldMs: number;            // 最短持有时长 (默认 30 分钟)
+    unwindTimeoutMs: number;      // 只减仓超时告警 (默认 2 小时，仍有持仓时保留只减仓不移除)
+}
+
+/**
+ * 轮换数据源（排名 + 生成做市配置），由调用方注入
+ */
+export interface MarketRotationProvider {
+    rank(): Promise<MarketScore[]>;
+    buildConfig(score: MarketScore): Promise<MarketMakerConfig>;
+}
+
+export interface MarketRotationResult {
+    added: number[];
+    unwinding: number[];          // 本轮新进入只减仓的市场
+    removed: number[];
+    restored: number[];           // 排名回升、恢复正常做市的市场
+    overdue: number[];            // 本轮只减仓超时仍有持仓的市场 (保留只减仓，不移除)
+}
+
+// ============================================================================
+// 跨平台对冲
+// ============================================================================
+
+/**
+ * Polymarket 对冲成交（记入成交账本 mm_hedges 表）
+ */
+export interface HedgeFill {
+    marketId: number;              // Predict 市场
+    conditionId: string;
+    tokenId: string;               // Polymarket 对冲 outcome 的 tokenId
+    orderId: string;
+    side: 'BUY' | 'SELL';
+    price: number;
+    quantity: number;
+    predictCost: number;           // 对冲时 Predict 持仓成本
+    filledAt: number;              // ms
+}
+
+export interface HedgePosition {
+    shares: number;
+    avgPrice: number;
+}
+
 // ============================================================================
 // 价格快照
 // ============================================================================
@@ -206,7 +439,7 @@ export interface TradingStats {
     totalSellVolume: number;     // 卖出总量
     totalBuyValue: number;       // 买入总价值 (USD)
     totalSellValue: number;      // 卖出总价值 (USD)
-    realizedPnL: number;         // 已实现盈亏（基于 FIFO 成本计算）
+    realizedPnL: number;         // 本次运行的已实现盈亏（基于 FIFO 成本计算，历史见成交账本）
     unrealizedPnL: number;       // 未实现盈亏（持仓 * (当前价 - 平均成本)）
     totalPnL: number;            // 总盈亏 = 已实现 + 未实现
     avgBuyPrice: number;         // 平均买入价（加权成本）
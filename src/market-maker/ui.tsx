@@ -1,6 +1,6 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { Box, Text, Newline, Spacer, useApp, useInput } from 'ink';
-import type { MarketState, Fill } from './types.js';
+import type { MarketState, Fill, PnLSummaryRow } from './types.js';
 
 export interface UIErrorEntry {
     time: Date;
@@ -17,6 +17,13 @@ export interface UIGlobalStats {
     startTime: Date | null;
 }
 
+export interface UIPnLHistory {
+    daily: PnLSummaryRow[];       // 最近 7 天（含今天）
+    weekly: PnLSummaryRow[];      // 最近 4 周
+    unrealizedPnL: number;        // 当前持仓未实现盈亏（按买一估值）
+    ledgerFile: string;
+}
+
 export interface UISnapshot {
     timestamp: number;
     globalStats: UIGlobalStats;
@@ -24,6 +31,7 @@ export interface UISnapshot {
     fills: Fill[];
     errors: UIErrorEntry[];
     logFile: string;
+    pnlHistory: UIPnLHistory | null;  // 成交账本关闭时为 null
 }
 
 interface Props {
@@ -60,6 +68,7 @@ function statusColor(status: MarketState['status']): string {
 interface UIMarket extends MarketState {
     outcome: 'YES' | 'NO';
     maxShares: number;
+    unwindOverdue?: boolean;      // 轮换只减仓超时仍有持仓
 }
 
 function formatOrder(order: MarketState['activeBuyOrder'] | MarketState['activeSellOrder'], outcome: UIMarket['outcome']): string {
@@ -79,7 +88,7 @@ function MarketRow({ market, index }: { market: UIMarket; index: number }): JSX.
             <Text color="cyan">{String(index).padStart(2, ' ')}</Text>
             <Text> </Text>
             <Box width={70}>
-                <Text>{market.title}</Text>
+                <Text>{market.unwindOverdue ? <Text color="red">[只减仓超时] </Text> : market.reduceOnly ? <Text color="yellow">[只减仓] </Text> : null}{market.hedgedShares > 0 ? <Text color="magenta">[对冲 {market.hedgedShares.toFixed(0)}] </Text> : null}{market.title}</Text>
             </Box>
             <Box width={8}>
                 <Text color={statusColor(market.status)}>{market.status}</Text>
@@ -170,6 +179,51 @@ function Trades({ fills, markets }: { fills: Fill[]; markets: UIMarket[] }): JSX
     );
 }
 
+function signedUsd(value: number): string {
+    return `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+}
+
+function PnLTable({ title, rows }: { title: string; rows: PnLSummaryRow[] }): JSX.Element {
+    return (
+        <Box flexDirection="column" marginRight={4}>
+            <Box flexDirection="row" gap={1}>
+                <Box width={11}><Text color="cyan" bold>{title}</Text></Box>
+                <Box width={9}><Text color="cyan" bold>买/卖</Text></Box>
+                <Box width={11}><Text color="cyan" bold>Vol</Text></Box>
+                <Box width={10}><Text color="cyan" bold>已实现</Text></Box>
+            </Box>
+            {rows.length === 0
+                ? <Text color="gray">暂无记录</Text>
+                : rows.map(r => (
+                    <Box key={r.period} flexDirection="row" gap={1}>
+                        <Box width={11}><Text>{r.period}</Text></Box>
+                        <Box width={9}><Text>{r.buys}/{r.sells}</Text></Box>
+                        <Box width={11}><Text>${(r.buyValue + r.sellValue).toFixed(2)}</Text></Box>
+                        <Box width={10}><Text color={r.realizedPnL >= 0 ? 'green' : 'red'}>{signedUsd(r.realizedPnL)}</Text></Box>
+                    </Box>
+                ))
+            }
+        </Box>
+    );
+}
+
+function PnLHistory({ history }: { history: UIPnLHistory | null }): JSX.Element {
+    if (!history) return <Text color="gray">成交账本未启用</Text>;
+    const total = history.weekly.reduce((sum, r) => sum + r.realizedPnL, 0);
+    return (
+        <Box flexDirection="column">
+            <Box flexDirection="row">
+                <PnLTable title="日期" rows={history.daily} />
+                <PnLTable title="周" rows={history.weekly} />
+            </Box>
+            <Text>
+                近 4 周已实现: <Text color={total >= 0 ? 'green' : 'red'}>{signedUsd(total)}</Text>
+                {'  '}持仓未实现: <Text color={history.unrealizedPnL >= 0 ? 'green' : 'red'}>{signedUsd(history.unrealizedPnL)}</Text>
+            </Text>
+        </Box>
+    );
+}
+
 function Errors({ errors }: { errors: UIErrorEntry[] }): JSX.Element {
     if (errors.length === 0) return <Text>暂无错误</Text>;
     const latest = errors.slice(-8).reverse();
@@ -238,11 +292,17 @@ export function MarketMakerUI({ emitter, initialSnapshot }: Props): JSX.Element
             <SectionTitle title="最近成交" />
             <Trades fills={snapshot.fills} markets={snapshot.markets} />
 
+            <SectionTitle title="盈亏历史" />
+            <PnLHistory history={snapshot.pnlHistory} />
+
             <SectionTitle title="最近错误" />
             <Errors errors={snapshot.errors} />
 
             <Box marginTop={1}>
-                <Text dimColor>日志: {snapshot.logFile} | Ctrl+C 退出</Text>
+                <Text dimColor>
+                    日志: {snapshot.logFile}
+                    {snapshot.pnlHistory ? ` | 账本: ${snapshot.pnlHistory.ledgerFile}` : ''} | Ctrl+C 退出
+                </Text>
             </Box>
         </Box>
     );
@@ -0,0 +1,122 @@
+/**
+ * points-engine CLI (独立进程，依赖 Dashboard 已启动)
+ *
+ * 使用：
+ *   npm run points-engine -- [--config=points-engine.config.json] [--markets=123,456] [--dry-run]
+ *
+ * 选项：
+ *   --config       配置文件路径 (默认 points-engine.config.json)
+ *   --markets      覆盖配置中的 markets (使用默认风格/份额)
+ *   --dry-run      不创建任务，只输出挂单决策 (Polymarket split/merge 也走 dry-run)
+ *
+ * 环境变量：
+ *   DASHBOARD_API_TOKEN            Dashboard API Token (与 Dashboard 一致)
+ *   POINTS_ENGINE_DASHBOARD_URL    覆盖 integration.dashboard.baseUrl
+ *
+ * Ctrl+C 退出时撤掉所有槽位任务
+ */
+
+import { config as loadEnv } from 'dotenv';
+import { resolve } from 'path';
+import { DEFAULT_CONFIG_PATH, formatPointsConfigSummary, loadPointsEngineConfig, validatePointsEngineConfig } from './config.js';
+import { PointsEngine } from './engine.js';
+import type { PointsMarketStatus } from './types.js';
+
+loadEnv({ path: resolve(process.cwd(), '.env') });
+
+const STATUS_INTERVAL_MS = 30000;
+
+function parseArgs(args: string[]): Map<string, string> {
+    const flags = new Map<string, string>();
+    for (const arg of args) {
+        if (!arg.startsWith('--')) continue;
+        const [key, ...rest] = arg.slice(2).split('=');
+        flags.set(key, rest.length > 0 ? rest.join('=') : 'true');
+    }
+    return flags;
+}
+
+function formatPrice(price: number | null): string {
+    return price === null ? '  -  ' : price.toFixed(3);
+}
+
+function formatMarket(status: PointsMarketStatus): string {
+    const slots = status.slots
+        .map(s => `${s.slot}=${s.taskId ? `${formatPrice(s.price)}x${s.quantity}` : '-'}`)
+        .join(' ');
+    const pair = status.pair
+        ? ` pair P=${status.pair.pairPredict} M=${status.pair.pairPoly} net=${status.pair.net.toFixed(0)}`
+        : '';
+    const mid = status.targets ? ` mid=${status.targets.mid.toFixed(3)}` : '';
+    return `  #${status.marketId} [${status.state}]${mid} ${slots}${pair}` +
+        (status.stateReason ? `\n      ${status.stateReason}` : '');
+}
+
+async function main(): Promise<void> {
+    const flags = parseArgs(process.argv.slice(2));
+    const configPath = resolve(process.cwd(), flags.get('config') || DEFAULT_CONFIG_PATH);
+    const config = loadPointsEngineConfig(configPath);
+
+    const dashboardUrl = process.env.POINTS_ENGINE_DASHBOARD_URL;
+    if (dashboardUrl) {
+        config.integration.dashboard.baseUrl = dashboardUrl;
+    }
+    const marketsFlag = flags.get('markets');
+    if (marketsFlag) {
+        config.markets = marketsFlag.split(',').filter(Boolean).map(id => ({ marketId: Number(id) }));
+        const errors = validatePointsEngineConfig(config);
+        if (errors.length > 0) {
+            throw new Error(`--markets 无效:\n  - ${errors.join('\n  - ')}`);
+        }
+    }
+    if (config.markets.length === 0) {
+        throw new Error('未配置市场: 在配置文件 markets 中添加，或使用 --markets=<id,...>');
+    }
+
+    const dryRun = flags.get('dry-run') === 'true';
+    console.log(`[PointsEngine] 配置: ${configPath}${dryRun ? ' (dry-run)' : ''}`);
+    console.log(formatPointsConfigSummary(config));
+    console.log(`Dashboard: ${config.integration.dashboard.baseUrl}`);
+
+    const engine = new PointsEngine(config, {
+        dryRun,
+        apiToken: process.env.DASHBOARD_API_TOKEN || null,
+    });
+    engine.on('log', (message: string) => console.log(`[PointsEngine] ${message}`));
+    engine.on('warn', (message: string) => console.warn(`[PointsEngine] ⚠️ ${message}`));
+    engine.on('fill', (event: { marketId: number; slot: string; quantity: number; price: number | null }) => {
+        console.log(`[PointsEngine] [#${event.marketId}] ${event.slot} 成交 ${event.quantity} @ ${formatPrice(event.price)}`);
+    });
+
+    await engine.start();
+
+    const statusTimer = setInterval(() => {
+        const status = engine.getStatus();
+        console.log(`\n[PointsEngine] 状态 (SSE=${status.sseConnected ? 'on' : 'off'}, ` +
+            `active 资金占用=$${status.activeNotional.toFixed(2)}, 缩放=${status.budgetScale.toFixed(2)})`);
+        for (const market of status.markets) {
+            console.log(formatMarket(market));
+        }
+    }, STATUS_INTERVAL_MS);
+
+    let shuttingDown = false;
+    const shutdown = async (signal: string) => {
+        if (shuttingDown) return;
+        shuttingDown = true;
+        console.log(`\n[PointsEngine] 收到 ${signal}，撤销所有槽位...`);
+        clearInterval(statusTimer);
+        try {
+            await engine.stop();
+        } catch (error: any) {
+            console.error(`[PointsEngine] 停止失败: ${error?.message || error}`);
+        }
+        process.exit(0);
+    };
+    process.on('SIGINT', () => void shutdown('SIGINT'));
+    process.on('SIGTERM', () => void shutdown('SIGTERM'));
+}
+
+main().catch(error => {
+    console.error(`[PointsEngine] 启动失败: ${error?.message || error}`);
+    process.exit(1);
+});
@@ -0,0 +1,319 @@
+/**
+ * points-engine - 配置加载与校验
+ *
+ * 配置文件: points-engine.config.json (不含密钥)，缺省字段使用 DEFAULT_POINTS_ENGINE_CONFIG
+ */
+
+import * as fs from 'fs';
+import type {
+    PairBand,
+    PointsEngineConfig,
+    PointsMarketConfig,
+    QuoteStyle,
+} from './types.js';
+
+export const DEFAULT_CONFIG_PATH = 'points-engine.config.json';
+
+const QUOTE_STYLES: QuoteStyle[] = ['aggressive', 'balanced', 'conservative'];
+
+/** 计划约束: pairLow 不得低于 200 */
+const PAIR_LOW_HARD_MIN = 200;
+
+export const DEFAULT_POINTS_ENGINE_CONFIG: PointsEngineConfig = {
+    version: 1,
+    limits: {
+        maxMarkets: 20,
+        minSharesForPoints: 100,
+        maxPointsDistanceCents: 6,
+    },
+    quote: {
+        anchorShares: 100,
+        activeSharesDefault: 200,
+        repriceIntervalMs: 10000,
+        chaseTickThreshold: 1,
+        minTickSizeCentsDefault: 1,
+        anchorOffsetTicksByStyle: { aggressive: 1, balanced: 2, conservative: 3 },
+        defaultStyle: 'balanced',
+        freezeIfTwoLegCostGtOne: true,
+        minBidAskGapTicks: 1,
+    },
+    hedge: {
+        maxUnhedgedMs: 3000,
+        nettingWindowMs: 1000,
+        polymarket: {
+            takerOnly: true,
+            maxSlippageBps: 100,
+            activeSizeSafetyFactor: 0.7,
+            minDepthSharesToEnableActive: 200,
+        },
+    },
+    pair: {
+        defaultTargetPair: 300,
+        defaultPairLow: 250,
+        defaultPairHigh: 350,
+        pairLowMin: PAIR_LOW_HARD_MIN,
+        reducePairToTargetWhenAboveHigh: true,
+        increasePairToTargetWhenBelowLow: true,
+        checkIntervalMs: 60000,
+        perMarketOverrides: [],
+    },
+    risk: {
+        wsStaleMs: 3000,
+        maxConsecutiveHedgeFailuresBeforeCooldown: 3,
+        cooldownMs: 60000,
+        globalFillBudgetUSDT: 1000,
+    },
+    integration: {
+        dashboard: {
+            baseUrl: 'http://localhost:3010',
+            ssePath: '/api/stream',
+            requestTimeoutMs: 5000,
+            pollFallbackIntervalMs: 2000,
+            minRequestIntervalMs: 100,
+        },
+    },
+    markets: [],
+};
+
+// ============================================================================
+// 加载
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 深合并 (数组整体替换)
+ */
+function deepMerge<T>(base: T, override: unknown): T {
+    if (!isPlainObject(base) || !isPlainObject(override)) {
+        return (override === undefined ? base : override) as T;
+    }
+    const result: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        if (!(key in base)) continue;  // 忽略 $schema / module / notes 等说明字段
+        result[key] = deepMerge((base as Record<string, unknown>)[key], value);
+    }
+    return result as T;
+}
+
+/**
+ * 读取并校验配置，不合法时抛出 (列出全部错误)
+ */
+export function loadPointsEngineConfig(filePath: string = DEFAULT_CONFIG_PATH): PointsEngineConfig {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`配置文件不存在: ${filePath}`);
+    }
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error: any) {
+        throw new Error(`配置文件解析失败 (${filePath}): ${error?.message || error}`);
+    }
+
+    const config = deepMerge(DEFAULT_POINTS_ENGINE_CONFIG, raw);
+    const errors = validatePointsEngineConfig(config);
+    if (errors.length > 0) {
+        throw new Error(`配置校验失败 (${filePath}):\n  - ${errors.join('\n  - ')}`);
+    }
+    return config;
+}
+
+// ============================================================================
+// 校验
+// ============================================================================
+
+function validateBand(band: PairBand, pairLowMin: number, label: string, errors: string[]): void {
+    if (band.pairLow < pairLowMin) {
+        errors.push(`${label}: pairLow (${band.pairLow}) 不得低于 pairLowMin (${pairLowMin})`);
+    }
+    if (!(band.pairLow <= band.targetPair && band.targetPair <= band.pairHigh)) {
+        errors.push(`${label}: 需满足 pairLow <= targetPair <= pairHigh (${band.pairLow}/${band.targetPair}/${band.pairHigh})`);
+    }
+    if (band.pairLow >= band.pairHigh) {
+        errors.push(`${label}: pairLow 必须小于 pairHigh`);
+    }
+}
+
+export function validatePointsEngineConfig(config: PointsEngineConfig): string[] {
+    const errors: string[] = [];
+    const { limits, quote, hedge, pair, risk, markets } = config;
+    const dashboard = config.integration.dashboard;
+
+    if (!Number.isInteger(limits.maxMarkets) || limits.maxMarkets <= 0) {
+        errors.push('limits.maxMarkets 必须是正整数');
+    }
+    if (limits.minSharesForPoints <= 0) {
+        errors.push('limits.minSharesForPoints 必须大于 0');
+    }
+    if (limits.maxPointsDistanceCents <= 0) {
+        errors.push('limits.maxPointsDistanceCents 必须大于 0');
+    }
+
+    if (quote.anchorShares < limits.minSharesForPoints) {
+        errors.push(`quote.anchorShares (${quote.anchorShares}) 不得低于 minSharesForPoints (${limits.minSharesForPoints})`);
+    }
+    if (quote.activeSharesDefault <= 0) {
+        errors.push('quote.activeSharesDefault 必须大于 0');
+    }
+    if (quote.repriceIntervalMs < 1000) {
+        errors.push('quote.repriceIntervalMs 不得低于 1000ms');
+    }
+    if (!Number.isInteger(quote.chaseTickThreshold) || quote.chaseTickThreshold < 1) {
+        errors.push('quote.chaseTickThreshold 必须是 >= 1 的整数');
+    }
+    if (quote.minTickSizeCentsDefault <= 0) {
+        errors.push('quote.minTickSizeCentsDefault 必须大于 0');
+    }
+    for (const style of QUOTE_STYLES) {
+        const offset = quote.anchorOffsetTicksByStyle[style];
+        if (!Number.isInteger(offset) || offset < 0) {
+            errors.push(`quote.anchorOffsetTicksByStyle.${style} 必须是 >= 0 的整数`);
+        }
+    }
+    if (!QUOTE_STYLES.includes(quote.defaultStyle)) {
+        errors.push(`quote.defaultStyle 必须是 ${QUOTE_STYLES.join(' / ')}`);
+    }
+    if (!Number.isInteger(quote.minBidAskGapTicks) || quote.minBidAskGapTicks < 1) {
+        errors.push('quote.minBidAskGapTicks 必须是 >= 1 的整数');
+    }
+
+    if (hedge.maxUnhedgedMs <= 0) {
+        errors.push('hedge.maxUnhedgedMs 必须大于 0');
+    }
+    if (hedge.nettingWindowMs < 0 || hedge.nettingWindowMs >= hedge.maxUnhedgedMs) {
+        errors.push('hedge.nettingWindowMs 必须在 [0, maxUnhedgedMs) 范围内');
+    }
+    if (!hedge.polymarket.takerOnly) {
+        errors.push('hedge.polymarket.takerOnly 必须为 true (MVP 只做 Poly taker 对冲)');
+    }
+    if (hedge.polymarket.maxSlippageBps <= 0) {
+        errors.push('hedge.polymarket.maxSlippageBps 必须大于 0');
+    }
+    if (hedge.polymarket.activeSizeSafetyFactor <= 0 || hedge.polymarket.activeSizeSafetyFactor > 1) {
+        errors.push('hedge.polymarket.activeSizeSafetyFactor 必须在 (0, 1] 范围内');
+    }
+    if (hedge.polymarket.minDepthSharesToEnableActive < 0) {
+        errors.push('hedge.polymarket.minDepthSharesToEnableActive 不得为负');
+    }
+
+    if (pair.pairLowMin < PAIR_LOW_HARD_MIN) {
+        errors.push(`pair.pairLowMin 不得低于 ${PAIR_LOW_HARD_MIN}`);
+    }
+    validateBand(
+        { targetPair: pair.defaultTargetPair, pairLow: pair.defaultPairLow, pairHigh: pair.defaultPairHigh },
+        pair.pairLowMin,
+        'pair 默认带宽',
+        errors,
+    );
+    for (const override of pair.perMarketOverrides) {
+        if (!/^(marketId:\d+|condition:0x[0-9a-fA-F]{64})$/.test(override.key)) {
+            errors.push(`pair.perMarketOverrides: key "${override.key}" 格式应为 marketId:<id> 或 condition:<0x...>`);
+            continue;
+        }
+        validateBand(mergeBand(config, override), pair.pairLowMin, `pair.perMarketOverrides[${override.key}]`, errors);
+    }
+    if (pair.checkIntervalMs < 10000) {
+        errors.push('pair.checkIntervalMs 不得低于 10000ms');
+    }
+
+    if (risk.wsStaleMs <= 0) {
+        errors.push('risk.wsStaleMs 必须大于 0');
+    }
+    if (!Number.isInteger(risk.maxConsecutiveHedgeFailuresBeforeCooldown) || risk.maxConsecutiveHedgeFailuresBeforeCooldown < 1) {
+        errors.push('risk.maxConsecutiveHedgeFailuresBeforeCooldown 必须是 >= 1 的整数');
+    }
+    if (risk.cooldownMs < 0) {
+        errors.push('risk.cooldownMs 不得为负');
+    }
+    if (risk.globalFillBudgetUSDT <= 0) {
+        errors.push('risk.globalFillBudgetUSDT 必须大于 0');
+    }
+
+    try {
+        new URL(dashboard.baseUrl);
+    } catch {
+        errors.push(`integration.dashboard.baseUrl 不是合法 URL: ${dashboard.baseUrl}`);
+    }
+    if (dashboard.requestTimeoutMs <= 0 || dashboard.pollFallbackIntervalMs <= 0) {
+        errors.push('integration.dashboard.requestTimeoutMs / pollFallbackIntervalMs 必须大于 0');
+    }
+    if (dashboard.minRequestIntervalMs < 0) {
+        errors.push('integration.dashboard.minRequestIntervalMs 不得为负');
+    }
+
+    if (markets.length > limits.maxMarkets) {
+        errors.push(`markets 数量 (${markets.length}) 超过 limits.maxMarkets (${limits.maxMarkets})`);
+    }
+    const seen = new Set<number>();
+    for (const market of markets) {
+        if (!Number.isInteger(market.marketId) || market.marketId <= 0) {
+            errors.push(`markets: marketId 必须是正整数 (${market.marketId})`);
+            continue;
+        }
+        if (seen.has(market.marketId)) {
+            errors.push(`markets: marketId ${market.marketId} 重复`);
+        }
+        seen.add(market.marketId);
+        if (market.style && !QUOTE_STYLES.includes(market.style)) {
+            errors.push(`markets[${market.marketId}]: style 必须是 ${QUOTE_STYLES.join(' / ')}`);
+        }
+        if (market.activeShares !== undefined && market.activeShares < 0) {
+            errors.push(`markets[${market.marketId}]: activeShares 不得为负`);
+        }
+        if (market.tickSizeCents !== undefined && market.tickSizeCents <= 0) {
+            errors.push(`markets[${market.marketId}]: tickSizeCents 必须大于 0`);
+        }
+    }
+
+    return errors;
+}
+
+// ============================================================================
+// 按市场解析
+// ============================================================================
+
+function mergeBand(config: PointsEngineConfig, override: Partial<PairBand> | undefined): PairBand {
+    return {
+        targetPair: override?.targetPair ?? config.pair.defaultTargetPair,
+        pairLow: override?.pairLow ?? config.pair.defaultPairLow,
+        pairHigh: override?.pairHigh ?? config.pair.defaultPairHigh,
+    };
+}
+
+/**
+ * 市场的 pair 带宽 (marketId 覆盖优先于 condition 覆盖)
+ */
+export function resolvePairBand(config: PointsEngineConfig, marketId: number, conditionId?: string): PairBand {
+    const overrides = config.pair.perMarketOverrides;
+    const byMarket = overrides.find(o => o.key === `marketId:${marketId}`);
+    const byCondition = conditionId
+        ? overrides.find(o => o.key.toLowerCase() === `condition:${conditionId.toLowerCase()}`)
+        : undefined;
+    return mergeBand(config, byMarket ?? byCondition);
+}
+
+export function resolveQuoteStyle(config: PointsEngineConfig, market: PointsMarketConfig): QuoteStyle {
+    return market.style ?? config.quote.defaultStyle;
+}
+
+/**
+ * Predict tick (价格单位，0.01 = 1¢)
+ */
+export function resolveTickSize(config: PointsEngineConfig, market: PointsMarketConfig): number {
+    return (market.tickSizeCents ?? config.quote.minTickSizeCentsDefault) / 100;
+}
+
+export function formatPointsConfigSummary(config: PointsEngineConfig): string {
+    const q = config.quote;
+    return [
+        `市场: ${config.markets.map(m => `#${m.marketId}(${resolveQuoteStyle(config, m)})`).join(', ') || '(未配置)'}`,
+        `anchor=${q.anchorShares} active=${q.activeSharesDefault} reprice=${q.repriceIntervalMs}ms ` +
+        `points=±${config.limits.maxPointsDistanceCents}¢ freezeCost>1=${q.freezeIfTwoLegCostGtOne}`,
+        `hedge: maxUnhedged=${config.hedge.maxUnhedgedMs}ms slippage=${config.hedge.polymarket.maxSlippageBps}bps ` +
+        `minDepth=${config.hedge.polymarket.minDepthSharesToEnableActive}`,
+        `pair: target=${config.pair.defaultTargetPair} band=[${config.pair.defaultPairLow}, ${config.pair.defaultPairHigh}]`,
+        `risk: wsStale=${config.risk.wsStaleMs}ms budget=$${config.risk.globalFillBudgetUSDT} cooldown=${config.risk.cooldownMs}ms`,
+    ].join('\n');
+}
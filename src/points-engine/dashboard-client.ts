@@ -0,0 +1,211 @@
+/**
+ * points-engine - Dashboard HTTP 客户端
+ *
+ * points-engine 不直接连交易所，市场/订单簿/持仓/任务全部通过 Dashboard 接口
+ * - 写请求 (创建/启动/取消任务、split/merge) 串行并按 minRequestIntervalMs 限流 (rateLimitGuard)
+ * - 任务事件优先走 SSE (/api/stream 的 task 事件)，断开后由引擎轮询兜底
+ */
+
+import { EventEmitter } from 'events';
+import type { CreateTaskInput, PlatformPosition, Task } from '../dashboard/types.js';
+import type { DashboardMarket, OrderbookSnapshot, PointsDashboardConfig } from './types.js';
+
+interface ApiResponse<T> {
+    success: boolean;
+    data?: T;
+    error?: string;
+}
+
+export class PointsDashboardClient extends EventEmitter {
+    private config: PointsDashboardConfig;
+    private apiToken: string | null;
+    private writeQueue: Promise<unknown> = Promise.resolve();
+    private lastWriteAt = 0;
+    private sseAbort: AbortController | null = null;
+    private sseConnected = false;
+
+    constructor(config: PointsDashboardConfig, apiToken: string | null = null) {
+        super();
+        this.config = config;
+        this.apiToken = apiToken;
+    }
+
+    // ========================================================================
+    // 读接口
+    // ========================================================================
+
+    async getMarkets(): Promise<DashboardMarket[]> {
+        return this.request<DashboardMarket[]>('GET', '/api/markets');
+    }
+
+    async getOrderbooks(predictIds: number[], polyTokenIds: string[]): Promise<OrderbookSnapshot> {
+        const params = new URLSearchParams({
+            predict: predictIds.join(','),
+            poly: polyTokenIds.join(','),
+        });
+        return this.request<OrderbookSnapshot>('GET', `/api/orderbooks?${params.toString()}`);
+    }
+
+    async getPositions(): Promise<PlatformPosition[]> {
+        return this.request<PlatformPosition[]>('GET', '/api/positions');
+    }
+
+    async getActiveTasks(): Promise<Task[]> {
+        return this.request<Task[]>('GET', '/api/tasks?scope=active&limit=500');
+    }
+
+    async getTask(taskId: string): Promise<Task | null> {
+        try {
+            return await this.request<Task>('GET', `/api/tasks/${encodeURIComponent(taskId)}`);
+        } catch (error: any) {
+            if (String(error?.message || '').includes('404')) return null;
+            throw error;
+        }
+    }
+
+    // ========================================================================
+    // 写接口 (限流)
+    // ========================================================================
+
+    /**
+     * 创建并启动任务，启动失败时删除刚创建的任务
+     */
+    async createAndStartTask(input: CreateTaskInput): Promise<Task> {
+        return this.enqueueWrite(async () => {
+            const created = await this.request<Task>('POST', '/api/tasks', input);
+            try {
+                return await this.request<Task>('POST', `/api/tasks/${encodeURIComponent(created.id)}/start`);
+            } catch (error) {
+                await this.request('DELETE', `/api/tasks/${encodeURIComponent(created.id)}`).catch(() => { /* ignore */ });
+                throw error;
+            }
+        });
+    }
+
+    /**
+     * 取消活跃任务 (Dashboard 对终态任务的 DELETE 是删除记录，调用方需确认任务仍活跃)
+     */
+    async cancelTask(taskId: string): Promise<Task | null> {
+        return this.enqueueWrite(() => this.request<Task | null>('DELETE', `/api/tasks/${encodeURIComponent(taskId)}`));
+    }
+
+    async ctfMerge(conditionId: string, shares: number, negRisk: boolean, dryRun: boolean): Promise<unknown> {
+        return this.enqueueWrite(() => this.request('POST', '/api/ctf/merge', { conditionId, shares, negRisk, dryRun }));
+    }
+
+    async ctfSplit(conditionId: string, amount: number, negRisk: boolean, dryRun: boolean): Promise<unknown> {
+        return this.enqueueWrite(() => this.request('POST', '/api/ctf/split', { conditionId, amount, negRisk, dryRun }));
+    }
+
+    private enqueueWrite<T>(fn: () => Promise<T>): Promise<T> {
+        const run = async (): Promise<T> => {
+            const wait = this.lastWriteAt + this.config.minRequestIntervalMs - Date.now();
+            if (wait > 0) {
+                await new Promise(resolve => setTimeout(resolve, wait));
+            }
+            this.lastWriteAt = Date.now();
+            return fn();
+        };
+        const result = this.writeQueue.then(run, run);
+        this.writeQueue = result.catch(() => { /* 队列不因单个失败中断 */ });
+        return result;
+    }
+
+    private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+        const headers: Record<string, string> = {};
+        if (body !== undefined) headers['Content-Type'] = 'application/json';
+        if (this.apiToken) headers['Authorization'] = `Bearer ${this.apiToken}`;
+
+        const res = await fetch(new URL(path, this.config.baseUrl), {
+            method,
+            headers,
+            body: body === undefined ? undefined : JSON.stringify(body),
+            signal: AbortSignal.timeout(this.config.requestTimeoutMs),
+        });
+        let json: ApiResponse<T> | null = null;
+        try {
+            json = await res.json() as ApiResponse<T>;
+        } catch {
+            // 非 JSON 响应
+        }
+        if (!res.ok || !json?.success) {
+            throw new Error(`${method} ${path} 失败 (${res.status}): ${json?.error || res.statusText}`);
+        }
+        return json.data as T;
+    }
+
+    // ========================================================================
+    // SSE
+    // ========================================================================
+
+    isSseConnected(): boolean {
+        return this.sseConnected;
+    }
+
+    /**
+     * 订阅任务事件 (emit 'task' / 'taskDeleted')，断开后 5s 重连
+     */
+    startEventStream(): void {
+        if (this.sseAbort) return;
+        this.sseAbort = new AbortController();
+        void this.runEventStream(this.sseAbort.signal);
+    }
+
+    stopEventStream(): void {
+        this.sseAbort?.abort();
+        this.sseAbort = null;
+        this.sseConnected = false;
+    }
+
+    private async runEventStream(signal: AbortSignal): Promise<void> {
+        while (!signal.aborted) {
+            try {
+                const url = new URL(this.config.ssePath, this.config.baseUrl);
+                if (this.apiToken) url.searchParams.set('token', this.apiToken);
+                const res = await fetch(url, { headers: { Accept: 'text/event-stream' }, signal });
+                if (!res.ok || !res.body) {
+                    throw new Error(`SSE 连接失败 (${res.status})`);
+                }
+                this.sseConnected = true;
+                this.emit('sseConnected');
+
+                const decoder = new TextDecoder();
+                let buffer = '';
+                for await (const chunk of res.body as unknown as AsyncIterable<Uint8Array>) {
+                    buffer += decoder.decode(chunk, { stream: true });
+                    let boundary: number;
+                    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+                        this.handleSseMessage(buffer.slice(0, boundary));
+                        buffer = buffer.slice(boundary + 2);
+                    }
+                }
+            } catch (error: any) {
+                if (signal.aborted) break;
+                this.emit('sseError', error);
+            }
+            if (this.sseConnected) {
+                this.sseConnected = false;
+                this.emit('sseDisconnected');
+            }
+            if (signal.aborted) break;
+            await new Promise(resolve => setTimeout(resolve, 5000));
+        }
+    }
+
+    private handleSseMessage(raw: string): void {
+        let event = 'message';
+        const dataLines: string[] = [];
+        for (const line of raw.split('\n')) {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+        }
+        if (event !== 'task' && event !== 'taskDeleted') return;
+        try {
+            const data = JSON.parse(dataLines.join('\n'));
+            if (event === 'task') this.emit('task', data as Task);
+            else this.emit('taskDeleted', String(data.id));
+        } catch {
+            // 忽略无法解析的事件
+        }
+    }
+}
@@ -0,0 +1,300 @@
+/**
+ * points-engine - 多市场调度
+ *
+ * 主循环 (pollFallbackIntervalMs):
+ * 1. 拉取订单簿快照 → 各市场状态机计算目标报价
+ * 2. globalFillBudget: 所有 active 同时成交的资金占用超出预算时按比例缩小
+ * 3. 各市场调整槽位任务
+ * 任务事件走 SSE，断开时每轮轮询活跃任务兜底；持仓每个 repriceIntervalMs 刷新，pair 带宽每 checkIntervalMs 检查
+ */
+
+import { EventEmitter } from 'events';
+import type { Task } from '../dashboard/types.js';
+import { resolvePairBand } from './config.js';
+import { PointsDashboardClient } from './dashboard-client.js';
+import { computeMarketInventory, computePairStatus } from './inventory.js';
+import { POINTS_TASK_PREFIX, PointsMarketRunner } from './market-runner.js';
+import { activeNotional } from './quote-calculator.js';
+import type { PairStatus, PointsEngineConfig, PointsMarketStatus, QuoteTargets } from './types.js';
+
+/** SSE 正常时每 N 轮仍轮询一次任务 (防止漏事件) */
+const TASK_POLL_EVERY_TICKS = 10;
+
+export interface PointsEngineOptions {
+    dryRun?: boolean;
+    apiToken?: string | null;
+}
+
+export interface PointsEngineStatus {
+    running: boolean;
+    dryRun: boolean;
+    sseConnected: boolean;
+    activeNotional: number;
+    budgetScale: number;
+    markets: PointsMarketStatus[];
+}
+
+export class PointsEngine extends EventEmitter {
+    private config: PointsEngineConfig;
+    private dryRun: boolean;
+    private client: PointsDashboardClient;
+    private runners = new Map<number, PointsMarketRunner>();
+
+    private running = false;
+    private ticking = false;
+    private tickCount = 0;
+    private loopTimer: NodeJS.Timeout | null = null;
+    private lastPositionsAt = 0;
+    private lastPairCheckAt = 0;
+    private lastActiveNotional = 0;
+    private lastBudgetScale = 1;
+    /** 已提示过的 Predict pair 动作 (避免重复刷屏) */
+    private predictPairWarnings = new Map<number, string>();
+
+    constructor(config: PointsEngineConfig, options: PointsEngineOptions = {}) {
+        super();
+        this.config = config;
+        this.dryRun = options.dryRun ?? false;
+        this.client = new PointsDashboardClient(config.integration.dashboard, options.apiToken ?? null);
+    }
+
+    async start(): Promise<void> {
+        if (this.running) return;
+
+        const markets = await this.client.getMarkets();
+        for (const marketConfig of this.config.markets) {
+            const market = markets.find(m => m.predictId === marketConfig.marketId);
+            if (!market) {
+                this.emit('warn', `市场 #${marketConfig.marketId} 不在 Dashboard 已匹配列表中，跳过`);
+                continue;
+            }
+            if (!market.polymarketYesTokenId || !market.polymarketNoTokenId) {
+                this.emit('warn', `市场 #${marketConfig.marketId} 缺少 Polymarket token，跳过`);
+                continue;
+            }
+            const runner = new PointsMarketRunner(this.config, marketConfig, market, this.client, this.dryRun);
+            this.attachRunner(runner);
+            this.runners.set(marketConfig.marketId, runner);
+        }
+        if (this.runners.size === 0) {
+            throw new Error('没有可运行的市场 (检查 markets 配置与 Dashboard /api/markets)');
+        }
+
+        await this.cancelLeftoverTasks();
+
+        this.client.on('task', (task: Task) => this.dispatchTask(task));
+        this.client.on('taskDeleted', (taskId: string) => {
+            for (const runner of this.runners.values()) runner.onTaskRemoved(taskId);
+        });
+        this.client.on('sseConnected', () => this.emit('log', 'SSE 已连接'));
+        this.client.on('sseDisconnected', () => this.emit('warn', 'SSE 断开，使用轮询兜底'));
+        this.client.on('sseError', (error: Error) => this.emit('warn', `SSE 错误: ${error.message}`));
+        this.client.startEventStream();
+
+        this.running = true;
+        this.emit('log', `启动 ${this.runners.size} 个市场${this.dryRun ? ' (dry-run)' : ''}`);
+        this.scheduleTick(0);
+    }
+
+    /**
+     * 停止主循环并撤掉所有槽位
+     */
+    async stop(): Promise<void> {
+        if (!this.running) return;
+        this.running = false;
+        if (this.loopTimer) {
+            clearTimeout(this.loopTimer);
+            this.loopTimer = null;
+        }
+        // 等待进行中的一轮结束，避免撤单后又被补挂
+        for (let i = 0; i < 50 && this.ticking; i++) {
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+        for (const runner of this.runners.values()) {
+            await runner.stop('points-engine 停止');
+        }
+        this.client.stopEventStream();
+        this.emit('log', '已停止，所有槽位已撤单');
+    }
+
+    private attachRunner(runner: PointsMarketRunner): void {
+        const tag = `[#${runner.marketId}]`;
+        runner.on('log', (message: string) => this.emit('log', `${tag} ${message}`));
+        runner.on('error', (error: Error) => this.emit('warn', `${tag} ${error.message}`));
+        runner.on('stateChange', (event) => {
+            this.emit('stateChange', event);
+            this.emit('log', `${tag} 状态 ${event.from} → ${event.to}${event.reason ? ` (${event.reason})` : ''}`);
+        });
+        runner.on('fill', (event) => this.emit('fill', event));
+        runner.on('hedgeFailure', (event) => {
+            this.emit('hedgeFailure', event);
+            this.emit('warn', `${tag} 对冲失败 #${event.consecutive}: ${event.reason}`);
+        });
+        runner.on('cooldown', (event) => {
+            this.emit('cooldown', event);
+            this.emit('warn', `${tag} 进入冷却至 ${new Date(event.until).toLocaleTimeString()}`);
+        });
+    }
+
+    /**
+     * 清理上次运行遗留的 pts- 任务 (进程崩溃时未撤单)
+     */
+    private async cancelLeftoverTasks(): Promise<void> {
+        const tasks = await this.client.getActiveTasks();
+        const leftovers = tasks.filter(t => t.id.startsWith(POINTS_TASK_PREFIX));
+        if (leftovers.length === 0) return;
+
+        this.emit('warn', `发现 ${leftovers.length} 个遗留任务${this.dryRun ? ' (dry-run 不撤单)' : '，撤单中'}`);
+        if (this.dryRun) return;
+        for (const task of leftovers) {
+            try {
+                await this.client.cancelTask(task.id);
+            } catch (error: any) {
+                this.emit('warn', `撤销遗留任务 ${task.id} 失败: ${error?.message || error}`);
+            }
+        }
+    }
+
+    private dispatchTask(task: Task): void {
+        for (const runner of this.runners.values()) {
+            if (runner.ownsTask(task.id)) {
+                runner.onTaskUpdate(task);
+                return;
+            }
+        }
+    }
+
+    // ========================================================================
+    // 主循环
+    // ========================================================================
+
+    private scheduleTick(delayMs: number): void {
+        if (!this.running) return;
+        this.loopTimer = setTimeout(() => {
+            this.tick()
+                .catch(error => this.emit('warn', `主循环异常: ${error?.message || error}`))
+                .finally(() => this.scheduleTick(this.config.integration.dashboard.pollFallbackIntervalMs));
+        }, delayMs);
+    }
+
+    private async tick(): Promise<void> {
+        if (this.ticking) return;
+        this.ticking = true;
+        try {
+            const now = Date.now();
+            this.tickCount++;
+
+            if (!this.client.isSseConnected() || this.tickCount % TASK_POLL_EVERY_TICKS === 0) {
+                await this.pollTasks();
+            }
+            if (now - this.lastPositionsAt >= this.config.quote.repriceIntervalMs) {
+                // 持仓失败不阻塞报价 (ask 槽位沿用上次库存)
+                await this.refreshPositions(now).catch(error => this.emit('warn', `持仓刷新失败: ${error?.message || error}`));
+            }
+
+            const runners = Array.from(this.runners.values());
+            const snapshot = await this.client.getOrderbooks(
+                runners.map(r => r.marketId),
+                runners.map(r => r.hedgeTokenId),
+            );
+
+            const evaluated: { runner: PointsMarketRunner; targets: QuoteTargets | null }[] = [];
+            let totalNotional = 0;
+            for (const runner of runners) {
+                const targets = runner.evaluate(snapshot, now);
+                evaluated.push({ runner, targets });
+                const hedgeBook = snapshot.polymarket[runner.hedgeTokenId];
+                if (targets && hedgeBook) totalNotional += activeNotional(targets, hedgeBook);
+            }
+
+            // ---- globalFillBudget ----
+            const budget = this.config.risk.globalFillBudgetUSDT;
+            const scale = totalNotional > budget ? budget / totalNotional : 1;
+            this.lastActiveNotional = totalNotional;
+            this.lastBudgetScale = scale;
+
+            for (const { runner, targets } of evaluated) {
+                if (!this.running) break;
+                await runner.apply(targets, scale, now);
+            }
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    private async pollTasks(): Promise<void> {
+        const active = new Map((await this.client.getActiveTasks()).map(t => [t.id, t]));
+        for (const runner of this.runners.values()) {
+            for (const taskId of runner.getTaskIds()) {
+                if (taskId.startsWith('dry-')) continue;
+                const task = active.get(taskId) ?? await this.client.getTask(taskId);
+                if (task) runner.onTaskUpdate(task);
+                else runner.onTaskRemoved(taskId);
+            }
+        }
+    }
+
+    private async refreshPositions(now: number): Promise<void> {
+        const positions = await this.client.getPositions();
+        this.lastPositionsAt = now;
+        const checkPairs = now - this.lastPairCheckAt >= this.config.pair.checkIntervalMs;
+
+        for (const runner of this.runners.values()) {
+            const market = runner.getMarket();
+            const inventory = computeMarketInventory(market, positions);
+            runner.setInventory(inventory);
+            if (!checkPairs) continue;
+
+            const band = resolvePairBand(this.config, market.predictId, market.polymarketConditionId);
+            const pair = computePairStatus(band, inventory, market.isInverted, this.config.pair, now);
+            runner.setPairStatus(pair);
+            await this.handlePairActions(runner, pair);
+        }
+        if (checkPairs) this.lastPairCheckAt = now;
+    }
+
+    /**
+     * pair 带宽动作
+     * - Polymarket: 通过 Dashboard CTF 接口 merge/split 回到 targetPair
+     * - Predict: 暂无 split/merge 接口，只提示人工处理
+     */
+    private async handlePairActions(runner: PointsMarketRunner, pair: PairStatus): Promise<void> {
+        const market = runner.getMarket();
+        const tag = `[#${market.predictId}]`;
+
+        if (pair.polyAction) {
+            const shares = Math.floor(Math.abs(pair.band.targetPair - pair.pairPoly));
+            if (shares > 0) {
+                try {
+                    if (pair.polyAction === 'MERGE') {
+                        await this.client.ctfMerge(market.polymarketConditionId, shares, market.negRisk, this.dryRun);
+                    } else {
+                        await this.client.ctfSplit(market.polymarketConditionId, shares, market.negRisk, this.dryRun);
+                    }
+                    this.emit('pairAction', { marketId: market.predictId, platform: 'polymarket', action: pair.polyAction, shares, dryRun: this.dryRun });
+                    this.emit('log', `${tag} Polymarket ${pair.polyAction} ${shares} (pair=${pair.pairPoly} → ${pair.band.targetPair})${this.dryRun ? ' [dry-run]' : ''}`);
+                } catch (error: any) {
+                    this.emit('warn', `${tag} Polymarket ${pair.polyAction} 失败: ${error?.message || error}`);
+                }
+            }
+        }
+
+        const predictKey = pair.predictAction ?? '';
+        if (pair.predictAction && this.predictPairWarnings.get(market.predictId) !== predictKey) {
+            this.emit('warn', `${tag} Predict pair=${pair.pairPredict} 超出带宽 [${pair.band.pairLow}, ${pair.band.pairHigh}]，` +
+                `需人工 ${pair.predictAction} 至 ${pair.band.targetPair}`);
+        }
+        this.predictPairWarnings.set(market.predictId, predictKey);
+    }
+
+    getStatus(): PointsEngineStatus {
+        return {
+            running: this.running,
+            dryRun: this.dryRun,
+            sseConnected: this.client.isSseConnected(),
+            activeNotional: this.lastActiveNotional,
+            budgetScale: this.lastBudgetScale,
+            markets: Array.from(this.runners.values()).map(r => r.getStatus()),
+        };
+    }
+}
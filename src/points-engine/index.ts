@@ -0,0 +1,57 @@
+/**
+ * points-engine - 导出
+ */
+
+// 类型
+export type {
+    QuoteStyle,
+    PairBand,
+    PairOverride,
+    PointsEngineConfig,
+    PointsMarketConfig,
+    BookLevel,
+    BookSnapshot,
+    DashboardMarket,
+    OrderbookSnapshot,
+    QuoteSlotName,
+    PointsMarketState,
+    QuoteSlotState,
+    QuoteTargets,
+    PairStatus,
+    PointsMarketStatus,
+} from './types.js';
+
+// 配置
+export {
+    DEFAULT_CONFIG_PATH,
+    DEFAULT_POINTS_ENGINE_CONFIG,
+    loadPointsEngineConfig,
+    validatePointsEngineConfig,
+    resolvePairBand,
+    resolveQuoteStyle,
+    resolveTickSize,
+    formatPointsConfigSummary,
+} from './config.js';
+
+// 报价
+export {
+    computeMid,
+    computeQuoteTargets,
+    depthWithinSlippage,
+    twoLegCost,
+    walkBook,
+    activeNotional,
+    type QuoteInput,
+} from './quote-calculator.js';
+
+// 库存
+export {
+    computeMarketInventory,
+    computePairStatus,
+    type MarketInventory,
+} from './inventory.js';
+
+// 引擎
+export { PointsDashboardClient } from './dashboard-client.js';
+export { PointsMarketRunner, POINTS_TASK_PREFIX, QUOTE_SLOTS } from './market-runner.js';
+export { PointsEngine, type PointsEngineOptions, type PointsEngineStatus } from './engine.js';
@@ -0,0 +1,87 @@
+/**
+ * points-engine - 库存与 pair 带宽
+ *
+ * pairPredict = min(Yp, Np)，pairPoly = min(Ym, Nm)
+ * net = (Yp + Ym) - (Np + Nm)，Poly 侧按 Predict 方向折算 (inverted 时 Poly YES 记为 NO)
+ */
+
+import type { PlatformPosition } from '../dashboard/types.js';
+import type { DashboardMarket, PairBand, PairStatus, PointsPairConfig } from './types.js';
+
+export interface MarketInventory {
+    predictYes: number;
+    predictNo: number;
+    predictYesAvg: number;
+    polyYes: number;
+    polyNo: number;
+    /** Predict YES 的对冲 token (inverted 时为 Poly YES) */
+    polyHedge: number;
+    polyHedgeAvg: number;
+}
+
+export const EMPTY_INVENTORY: MarketInventory = {
+    predictYes: 0,
+    predictNo: 0,
+    predictYesAvg: 0,
+    polyYes: 0,
+    polyNo: 0,
+    polyHedge: 0,
+    polyHedgeAvg: 0,
+};
+
+export function computeMarketInventory(market: DashboardMarket, positions: PlatformPosition[]): MarketInventory {
+    const conditionId = market.polymarketConditionId.toLowerCase();
+    const find = (platform: PlatformPosition['platform'], side: PlatformPosition['side']) => positions.find(p =>
+        p.platform === platform && p.side === side && (platform === 'predict'
+            ? p.predictMarketId === market.predictId
+            : p.polymarketConditionId?.toLowerCase() === conditionId),
+    );
+
+    const predictYes = find('predict', 'YES');
+    const predictNo = find('predict', 'NO');
+    const polyYes = find('polymarket', 'YES');
+    const polyNo = find('polymarket', 'NO');
+    const polyHedge = market.isInverted ? polyYes : polyNo;
+
+    return {
+        predictYes: predictYes?.shares ?? 0,
+        predictNo: predictNo?.shares ?? 0,
+        predictYesAvg: predictYes?.avgPrice ?? 0,
+        polyYes: polyYes?.shares ?? 0,
+        polyNo: polyNo?.shares ?? 0,
+        polyHedge: polyHedge?.shares ?? 0,
+        polyHedgeAvg: polyHedge?.avgPrice ?? 0,
+    };
+}
+
+/**
+ * pair 带宽检查 (迟滞: 只在出界时动作，目标回到 targetPair)
+ */
+export function computePairStatus(
+    band: PairBand,
+    inventory: MarketInventory,
+    isInverted: boolean,
+    pairConfig: PointsPairConfig,
+    now: number = Date.now(),
+): PairStatus {
+    const pairPredict = Math.min(inventory.predictYes, inventory.predictNo);
+    const pairPoly = Math.min(inventory.polyYes, inventory.polyNo);
+    const yes = inventory.predictYes + (isInverted ? inventory.polyNo : inventory.polyYes);
+    const no = inventory.predictNo + (isInverted ? inventory.polyYes : inventory.polyNo);
+
+    const action = (pair: number): PairStatus['predictAction'] => {
+        if (pair > band.pairHigh && pairConfig.reducePairToTargetWhenAboveHigh) return 'MERGE';
+        if (pair < band.pairLow && pairConfig.increasePairToTargetWhenBelowLow) return 'SPLIT';
+        return null;
+    };
+
+    return {
+        band,
+        pairPredict,
+        pairPoly,
+        net: yes - no,
+        predictAction: action(pairPredict),
+        polyAction: action(pairPoly),
+        checkedAt: now,
+    };
+}
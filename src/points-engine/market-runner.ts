@@ -0,0 +1,544 @@
+/**
+ * points-engine - 单市场状态机
+ *
+ * 每个市场 4 个槽位 (anchor/active × bid/ask)，每个槽位对应 Dashboard 上一个带 quoteSlot 的 MAKER 任务:
+ * - bid 槽位: BUY 任务 (Predict 买 YES，成交后 Poly taker 买对冲 token)
+ * - ask 槽位: SELL 任务 (Predict 卖 YES，成交后 Poly taker 卖对冲 token)
+ * 任务自身负责对冲，本模块负责挂单位置、份额和降档
+ */
+
+import { EventEmitter } from 'events';
+import type { CreateTaskInput, Task, TaskStatus } from '../dashboard/types.js';
+import type { PointsDashboardClient } from './dashboard-client.js';
+import { resolveQuoteStyle, resolveTickSize } from './config.js';
+import { EMPTY_INVENTORY, type MarketInventory } from './inventory.js';
+import { computeQuoteTargets } from './quote-calculator.js';
+import type {
+    BookSnapshot,
+    DashboardMarket,
+    OrderbookSnapshot,
+    PairStatus,
+    PointsEngineConfig,
+    PointsMarketConfig,
+    PointsMarketState,
+    PointsMarketStatus,
+    QuoteSlotName,
+    QuoteSlotState,
+    QuoteTargets,
+} from './types.js';
+
+/** points-engine 创建的任务 ID 前缀 (启动时据此清理遗留任务) */
+export const POINTS_TASK_PREFIX = 'pts-';
+
+export const QUOTE_SLOTS: QuoteSlotName[] = ['anchor-bid', 'anchor-ask', 'active-bid', 'active-ask'];
+
+const TERMINAL_STATUSES: TaskStatus[] = [
+    'COMPLETED', 'FAILED', 'CANCELLED', 'TIMEOUT_CANCELLED', 'HEDGE_FAILED', 'UNWIND_COMPLETED',
+];
+
+const EPSILON = 1e-9;
+
+export function isTerminalTaskStatus(status: TaskStatus): boolean {
+    return TERMINAL_STATUSES.includes(status);
+}
+
+function isActiveSlot(slot: QuoteSlotName): boolean {
+    return slot.startsWith('active-');
+}
+
+function isBidSlot(slot: QuoteSlotName): boolean {
+    return slot.endsWith('-bid');
+}
+
+function createSlotState(slot: QuoteSlotName): QuoteSlotState {
+    return {
+        slot,
+        taskId: null,
+        price: null,
+        quantity: 0,
+        placedAt: null,
+        lastFillAt: null,
+        filledQty: 0,
+        hedgedQty: 0,
+        unhedgedSince: null,
+    };
+}
+
+export class PointsMarketRunner extends EventEmitter {
+    readonly marketId: number;
+    private config: PointsEngineConfig;
+    private marketConfig: PointsMarketConfig;
+    private market: DashboardMarket;
+    private client: PointsDashboardClient;
+    private dryRun: boolean;
+
+    private state: PointsMarketState = 'INIT';
+    private stateReason: string | null = null;
+    private slots = new Map<QuoteSlotName, QuoteSlotState>();
+    /** 已上报过对冲超时的槽位 (每个未对冲周期只计一次失败) */
+    private hedgeTimedOut = new Set<QuoteSlotName>();
+    private hedgeDegraded = false;
+    private consecutiveHedgeFailures = 0;
+    private cooldownUntil: number | null = null;
+    private lastRepriceAt = 0;
+    private targets: QuoteTargets | null = null;
+    private inventory: MarketInventory = EMPTY_INVENTORY;
+    private pair: PairStatus | null = null;
+    private busy = false;
+
+    constructor(
+        config: PointsEngineConfig,
+        marketConfig: PointsMarketConfig,
+        market: DashboardMarket,
+        client: PointsDashboardClient,
+        dryRun: boolean,
+    ) {
+        super();
+        this.marketId = marketConfig.marketId;
+        this.config = config;
+        this.marketConfig = marketConfig;
+        this.market = market;
+        this.client = client;
+        this.dryRun = dryRun;
+        for (const slot of QUOTE_SLOTS) {
+            this.slots.set(slot, createSlotState(slot));
+        }
+    }
+
+    /**
+     * Predict YES 的对冲 token (arbSide=YES 语义)
+     */
+    get hedgeTokenId(): string {
+        return (this.market.isInverted ? this.market.polymarketYesTokenId : this.market.polymarketNoTokenId) || '';
+    }
+
+    getMarket(): DashboardMarket {
+        return this.market;
+    }
+
+    getState(): PointsMarketState {
+        return this.state;
+    }
+
+    getTaskIds(): string[] {
+        return QUOTE_SLOTS.map(s => this.slots.get(s)!.taskId).filter((id): id is string => id !== null);
+    }
+
+    setInventory(inventory: MarketInventory): void {
+        this.inventory = inventory;
+    }
+
+    setPairStatus(pair: PairStatus): void {
+        this.pair = pair;
+    }
+
+    // ========================================================================
+    // 报价评估
+    // ========================================================================
+
+    /**
+     * 根据订单簿快照推进状态机并计算目标报价
+     * 返回 null 表示本轮不调整 (STALE / STOPPED / 盘口不完整)
+     */
+    evaluate(snapshot: OrderbookSnapshot, now: number = Date.now()): QuoteTargets | null {
+        if (this.state === 'STOPPED') return null;
+
+        this.checkHedgeTimeouts(now);
+
+        // ---- wsStalenessGuard ----
+        const predictBook = snapshot.predict[String(this.marketId)] ?? null;
+        const hedgeBook = snapshot.polymarket[this.hedgeTokenId] ?? null;
+        const staleReason = this.getStaleReason(snapshot, predictBook, hedgeBook, now);
+        if (staleReason) {
+            this.setState('STALE', staleReason);
+            return null;
+        }
+
+        if (this.cooldownUntil !== null && now >= this.cooldownUntil) {
+            this.cooldownUntil = null;
+            this.emit('log', `冷却结束，恢复报价`);
+        }
+
+        const enableActive = this.cooldownUntil === null && !this.hedgeDegraded;
+        const askInventory = Math.min(this.inventory.predictYes, this.inventory.polyHedge);
+        const style = resolveQuoteStyle(this.config, this.marketConfig);
+        const allowReprice = now - this.lastRepriceAt >= this.config.quote.repriceIntervalMs;
+
+        const targets = computeQuoteTargets({
+            predictBook: predictBook!,
+            hedgeBook: hedgeBook!,
+            tick: resolveTickSize(this.config, this.marketConfig),
+            anchorOffsetTicks: this.config.quote.anchorOffsetTicksByStyle[style],
+            maxPointsDistance: this.config.limits.maxPointsDistanceCents / 100,
+            anchorShares: this.config.quote.anchorShares,
+            activeShares: this.marketConfig.activeShares ?? this.config.quote.activeSharesDefault,
+            chaseTickThreshold: this.config.quote.chaseTickThreshold,
+            minBidAskGapTicks: this.config.quote.minBidAskGapTicks,
+            freezeIfTwoLegCostGtOne: this.config.quote.freezeIfTwoLegCostGtOne,
+            maxSlippageBps: this.config.hedge.polymarket.maxSlippageBps,
+            activeSizeSafetyFactor: this.config.hedge.polymarket.activeSizeSafetyFactor,
+            minDepthSharesToEnableActive: this.config.hedge.polymarket.minDepthSharesToEnableActive,
+            current: this.slotRecord(s => s.price),
+            currentQuantity: this.slotRecord(s => Math.max(0, s.quantity - s.filledQty)),
+            allowReprice,
+            canAsk: askInventory + EPSILON >= this.config.quote.anchorShares,
+            enableActive,
+        });
+        if (!targets) {
+            this.setState('STALE', '盘口不完整');
+            return null;
+        }
+        this.targets = targets;
+
+        if (this.cooldownUntil !== null) {
+            this.setState('COOLDOWN', `对冲失败，冷却至 ${new Date(this.cooldownUntil).toLocaleTimeString()}`);
+        } else if (this.hedgeDegraded) {
+            this.setState('ANCHOR_ONLY', '对冲超时/失败，等待对冲落地');
+        } else if (targets.activeBidShares <= 0 && targets.activeAskShares <= 0) {
+            this.setState('ANCHOR_ONLY', targets.reasons.join('; ') || 'active 份额为 0');
+        } else {
+            this.setState('QUOTING', targets.reasons.length > 0 ? targets.reasons.join('; ') : null);
+        }
+        return targets;
+    }
+
+    private getStaleReason(
+        snapshot: OrderbookSnapshot,
+        predictBook: BookSnapshot | null,
+        hedgeBook: BookSnapshot | null,
+        now: number,
+    ): string | null {
+        const staleMs = this.config.risk.wsStaleMs;
+        if (now - snapshot.timestamp > staleMs) return `Dashboard 快照过期 (${now - snapshot.timestamp}ms)`;
+        if (!this.hedgeTokenId) return '缺少 Polymarket 对冲 token';
+        if (!snapshot.polymarketWsConnected) return 'Polymarket WS 未连接';
+        if (!predictBook) return 'Predict 订单簿缺失';
+        if (!hedgeBook) return 'Polymarket 订单簿缺失';
+        if (now - predictBook.timestamp > staleMs) return `Predict 订单簿过期 (${now - predictBook.timestamp}ms)`;
+        if (now - hedgeBook.timestamp > staleMs) return `Polymarket 订单簿过期 (${now - hedgeBook.timestamp}ms)`;
+        return null;
+    }
+
+    // ========================================================================
+    // 执行
+    // ========================================================================
+
+    /**
+     * 按目标报价调整槽位
+     * @param targets null = 只撤 active，anchor 原位冻结
+     * @param activeScale globalFillBudget 缩放系数 (0~1)
+     */
+    async apply(targets: QuoteTargets | null, activeScale: number, now: number = Date.now()): Promise<void> {
+        if (this.busy || this.state === 'STOPPED') return;
+        this.busy = true;
+        try {
+            let repriced = false;
+            for (const slot of QUOTE_SLOTS) {
+                const desired = this.getDesiredQuote(slot, targets, activeScale);
+                if (desired === undefined) continue;  // 保持原样
+                repriced = (await this.syncSlot(slot, desired, now)) || repriced;
+            }
+            if (repriced) this.lastRepriceAt = now;
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    /**
+     * undefined = 不动；null = 撤单；否则为目标价格/份额
+     */
+    private getDesiredQuote(
+        slot: QuoteSlotName,
+        targets: QuoteTargets | null,
+        activeScale: number,
+    ): { price: number; quantity: number } | null | undefined {
+        const active = isActiveSlot(slot);
+        if (!targets) {
+            return active ? null : undefined;
+        }
+        if (active && (this.cooldownUntil !== null || this.hedgeDegraded)) {
+            return null;
+        }
+
+        const anchorShares = this.config.quote.anchorShares;
+        const askInventory = Math.min(this.inventory.predictYes, this.inventory.polyHedge);
+        switch (slot) {
+            case 'anchor-bid':
+                return targets.anchorBid === null ? null : { price: targets.anchorBid, quantity: anchorShares };
+            case 'anchor-ask':
+                return targets.anchorAsk === null ? null : { price: targets.anchorAsk, quantity: anchorShares };
+            case 'active-bid': {
+                const quantity = Math.floor(targets.activeBidShares * activeScale);
+                return targets.activeBid === null || quantity <= 0 ? null : { price: targets.activeBid, quantity };
+            }
+            case 'active-ask': {
+                // ask 库存先满足 anchor
+                const quantity = Math.floor(Math.min(targets.activeAskShares * activeScale, askInventory - anchorShares));
+                return targets.activeAsk === null || quantity <= 0 ? null : { price: targets.activeAsk, quantity };
+            }
+        }
+    }
+
+    /**
+     * @returns 是否下了新单
+     */
+    private async syncSlot(
+        slot: QuoteSlotName,
+        desired: { price: number; quantity: number } | null,
+        now: number,
+    ): Promise<boolean> {
+        const state = this.slots.get(slot)!;
+
+        // 有未对冲份额时不动该槽位，等任务自身完成对冲
+        if (state.taskId && state.filledQty - state.hedgedQty > EPSILON) {
+            return false;
+        }
+
+        if (state.taskId) {
+            const unchanged = desired !== null
+                && Math.abs(desired.price - (state.price ?? -1)) < EPSILON
+                && Math.abs(desired.quantity - state.quantity) < 1;
+            if (unchanged) return false;
+            if (!(await this.cancelSlot(slot, desired === null ? '目标为空' : '调价'))) return false;
+        }
+
+        if (desired === null) return false;
+        if (state.lastFillAt !== null && now - state.lastFillAt < this.config.hedge.nettingWindowMs) {
+            return false;
+        }
+        return this.placeSlot(slot, desired.price, desired.quantity, now);
+    }
+
+    private async placeSlot(slot: QuoteSlotName, price: number, quantity: number, now: number): Promise<boolean> {
+        const state = this.slots.get(slot)!;
+        const bid = isBidSlot(slot);
+        const taskId = `${POINTS_TASK_PREFIX}${this.marketId}-${slot}-${now.toString(36)}`;
+
+        if (this.dryRun) {
+            this.resetSlot(state, `dry-${taskId}`, price, quantity, now);
+            this.emit('log', `[dry-run] ${slot} ${bid ? 'BUY' : 'SELL'} ${quantity} @ ${price.toFixed(3)}`);
+            return true;
+        }
+
+        const market = this.market;
+        const input: CreateTaskInput = {
+            type: bid ? 'BUY' : 'SELL',
+            marketId: this.marketId,
+            title: market.predictTitle,
+            polymarketConditionId: market.polymarketConditionId,
+            polymarketNoTokenId: market.polymarketNoTokenId || '',
+            polymarketYesTokenId: market.polymarketYesTokenId || '',
+            isInverted: market.isInverted,
+            tickSize: market.tickSize,
+            negRisk: market.negRisk,
+            predictPrice: price,
+            // 双腿成本 <= 1: bid 对冲买入价 <= 1-p；ask 对冲卖出价 >= 1-p
+            polymarketMaxAsk: bid ? Number((1 - price).toFixed(6)) : 0,
+            polymarketMinBid: bid ? 0 : Number((1 - price).toFixed(6)),
+            quantity,
+            minProfitBuffer: 0,
+            orderTimeout: this.config.quote.repriceIntervalMs,
+            maxHedgeRetries: 3,
+            entryCost: bid ? undefined : this.getEntryCost(),
+            idempotencyKey: taskId,
+            feeRateBps: market.feeRateBps,
+            arbSide: 'YES',
+            strategy: 'MAKER',
+            quoteSlot: slot,
+        };
+
+        try {
+            const task = await this.client.createAndStartTask(input);
+            this.resetSlot(state, task.id, price, quantity, now);
+            this.emit('log', `${slot} 挂单 ${input.type} ${quantity} @ ${price.toFixed(3)} (${task.id})`);
+            return true;
+        } catch (error: any) {
+            this.emit('error', new Error(`${slot} 创建任务失败: ${error?.message || error}`));
+            return false;
+        }
+    }
+
+    private resetSlot(state: QuoteSlotState, taskId: string, price: number, quantity: number, now: number): void {
+        state.taskId = taskId;
+        state.price = price;
+        state.quantity = quantity;
+        state.placedAt = now;
+        state.filledQty = 0;
+        state.hedgedQty = 0;
+        state.unhedgedSince = null;
+        this.hedgeTimedOut.delete(state.slot);
+    }
+
+    /**
+     * SELL 任务的建仓成本 (Predict YES 均价 + 对冲 token 均价，缺失时按 1)
+     */
+    private getEntryCost(): number {
+        const cost = this.inventory.predictYesAvg + this.inventory.polyHedgeAvg;
+        return cost > 0 ? cost : 1;
+    }
+
+    /**
+     * @returns 槽位是否已空出
+     */
+    private async cancelSlot(slot: QuoteSlotName, reason: string): Promise<boolean> {
+        const state = this.slots.get(slot)!;
+        const taskId = state.taskId;
+        if (!taskId) return true;
+
+        if (!this.dryRun) {
+            try {
+                const task = await this.client.cancelTask(taskId);
+                if (task) this.onTaskUpdate(task);
+            } catch (error: any) {
+                this.emit('error', new Error(`${slot} 撤单失败 (${taskId}): ${error?.message || error}`));
+                return false;
+            }
+        }
+        // 撤单后若出现成交，保留槽位等待对冲落地
+        if (state.filledQty - state.hedgedQty > EPSILON) return false;
+        this.clearSlot(state);
+        this.emit('log', `${slot} 撤单 (${reason})`);
+        return true;
+    }
+
+    private clearSlot(state: QuoteSlotState): void {
+        state.taskId = null;
+        state.price = null;
+        state.quantity = 0;
+        state.placedAt = null;
+        state.filledQty = 0;
+        state.hedgedQty = 0;
+        state.unhedgedSince = null;
+        this.hedgeTimedOut.delete(state.slot);
+    }
+
+    async stop(reason: string = '停止'): Promise<void> {
+        this.setState('STOPPED', reason);
+        for (const slot of QUOTE_SLOTS) {
+            await this.cancelSlot(slot, reason);
+        }
+    }
+
+    // ========================================================================
+    // 任务事件
+    // ========================================================================
+
+    ownsTask(taskId: string): boolean {
+        return QUOTE_SLOTS.some(s => this.slots.get(s)!.taskId === taskId);
+    }
+
+    /**
+     * 任务状态更新 (SSE 或轮询)
+     */
+    onTaskUpdate(task: Task, now: number = Date.now()): void {
+        const state = QUOTE_SLOTS.map(s => this.slots.get(s)!).find(s => s.taskId === task.id);
+        if (!state) return;
+
+        if (task.predictFilledQty > state.filledQty + EPSILON) {
+            const delta = task.predictFilledQty - state.filledQty;
+            state.lastFillAt = now;
+            this.emit('fill', { marketId: this.marketId, slot: state.slot, quantity: delta, price: state.price, taskId: task.id });
+        }
+        const hedgedMore = task.hedgedQty > state.hedgedQty + EPSILON;
+        state.filledQty = task.predictFilledQty;
+        // UNWIND 平掉的部分不再计为未对冲
+        state.hedgedQty = task.hedgedQty + (task.unwindQty || 0);
+
+        const unhedged = state.filledQty - state.hedgedQty;
+        if (unhedged > EPSILON) {
+            state.unhedgedSince ??= now;
+        } else {
+            state.unhedgedSince = null;
+            this.hedgeTimedOut.delete(state.slot);
+            if (hedgedMore) this.consecutiveHedgeFailures = 0;
+        }
+
+        if (task.status === 'HEDGE_FAILED' || (task.status === 'FAILED' && unhedged > EPSILON)) {
+            this.registerHedgeFailure(`${state.slot} 任务 ${task.status}: ${task.error || ''}`, now, true);
+        }
+
+        if (isTerminalTaskStatus(task.status)) {
+            this.clearSlot(state);
+        }
+        this.refreshHedgeDegraded();
+    }
+
+    /**
+     * 任务已不存在 (被手动删除)
+     */
+    onTaskRemoved(taskId: string): void {
+        const state = QUOTE_SLOTS.map(s => this.slots.get(s)!).find(s => s.taskId === taskId);
+        if (!state) return;
+        this.clearSlot(state);
+        this.refreshHedgeDegraded();
+    }
+
+    private checkHedgeTimeouts(now: number): void {
+        for (const slot of QUOTE_SLOTS) {
+            const state = this.slots.get(slot)!;
+            if (state.unhedgedSince === null || this.hedgeTimedOut.has(slot)) continue;
+            const elapsed = now - state.unhedgedSince;
+            if (elapsed > this.config.hedge.maxUnhedgedMs) {
+                this.hedgeTimedOut.add(slot);
+                this.registerHedgeFailure(`${slot} 对冲超时 (${elapsed}ms > ${this.config.hedge.maxUnhedgedMs}ms)`, now);
+            }
+        }
+        this.refreshHedgeDegraded();
+    }
+
+    /**
+     * 对冲超时: 撤 active 直到对冲落地；对冲彻底失败或连续失败达到阈值: 进入冷却
+     */
+    private registerHedgeFailure(reason: string, now: number, fatal: boolean = false): void {
+        this.consecutiveHedgeFailures++;
+        this.hedgeDegraded = true;
+        this.emit('hedgeFailure', { marketId: this.marketId, reason, consecutive: this.consecutiveHedgeFailures });
+
+        if (fatal || this.consecutiveHedgeFailures >= this.config.risk.maxConsecutiveHedgeFailuresBeforeCooldown) {
+            this.cooldownUntil = now + this.config.risk.cooldownMs;
+            this.consecutiveHedgeFailures = 0;
+            this.emit('cooldown', { marketId: this.marketId, until: this.cooldownUntil, reason });
+        }
+    }
+
+    private refreshHedgeDegraded(): void {
+        this.hedgeDegraded = QUOTE_SLOTS.some(s => this.hedgeTimedOut.has(s));
+    }
+
+    // ========================================================================
+    // 状态
+    // ========================================================================
+
+    private setState(state: PointsMarketState, reason: string | null): void {
+        if (this.state === state && this.stateReason === reason) return;
+        const prev = this.state;
+        this.state = state;
+        this.stateReason = reason;
+        if (prev !== state) {
+            this.emit('stateChange', { marketId: this.marketId, from: prev, to: state, reason });
+        }
+    }
+
+    private slotRecord<T>(fn: (state: QuoteSlotState) => T): Record<QuoteSlotName, T> {
+        return {
+            'anchor-bid': fn(this.slots.get('anchor-bid')!),
+            'anchor-ask': fn(this.slots.get('anchor-ask')!),
+            'active-bid': fn(this.slots.get('active-bid')!),
+            'active-ask': fn(this.slots.get('active-ask')!),
+        };
+    }
+
+    getStatus(): PointsMarketStatus {
+        return {
+            marketId: this.marketId,
+            title: this.market.predictTitle,
+            state: this.state,
+            stateReason: this.stateReason,
+            slots: QUOTE_SLOTS.map(s => ({ ...this.slots.get(s)! })),
+            targets: this.targets,
+            consecutiveHedgeFailures: this.consecutiveHedgeFailures,
+            cooldownUntil: this.cooldownUntil,
+            pair: this.pair,
+        };
+    }
+}
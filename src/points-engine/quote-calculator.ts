@@ -0,0 +1,301 @@
+/**
+ * points-engine - 报价计算 (纯函数)
+ *
+ * 约定 (MVP 只做 YES outcome):
+ * - Predict 订单簿为 YES 盘口
+ * - hedgeBook 为 Polymarket 对冲 token 盘口 (Predict YES 的反向腿)
+ * - bid 槽位成交 → Poly 买入对冲 token；ask 槽位成交 → Poly 卖出对冲 token
+ */
+
+import type { BookLevel, BookSnapshot, QuoteSlotName, QuoteTargets } from './types.js';
+
+const EPSILON = 1e-9;
+
+export function bestBid(levels: BookLevel[]): number | null {
+    let best: number | null = null;
+    for (const level of levels) {
+        if (level.size > 0 && (best === null || level.price > best)) best = level.price;
+    }
+    return best;
+}
+
+export function bestAsk(levels: BookLevel[]): number | null {
+    let best: number | null = null;
+    for (const level of levels) {
+        if (level.size > 0 && (best === null || level.price < best)) best = level.price;
+    }
+    return best;
+}
+
+export function computeMid(book: BookSnapshot): number | null {
+    const bid = bestBid(book.bids);
+    const ask = bestAsk(book.asks);
+    if (bid === null || ask === null) return null;
+    return (bid + ask) / 2;
+}
+
+export function roundToTick(price: number, tick: number, mode: 'down' | 'up' | 'nearest' = 'nearest'): number {
+    const units = price / tick;
+    const rounded = mode === 'down'
+        ? Math.floor(units + EPSILON)
+        : mode === 'up'
+            ? Math.ceil(units - EPSILON)
+            : Math.round(units);
+    return Number((rounded * tick).toFixed(6));
+}
+
+/**
+ * 从盘口中扣除自己的挂单 (best 以外部挂单为准，避免追自己)
+ */
+export function excludeOwnOrders(levels: BookLevel[], own: { price: number; quantity: number }[]): BookLevel[] {
+    if (own.length === 0) return levels;
+    return levels
+        .map(level => {
+            const mine = own
+                .filter(o => Math.abs(o.price - level.price) < EPSILON)
+                .reduce((sum, o) => sum + o.quantity, 0);
+            return { price: level.price, size: level.size - mine };
+        })
+        .filter(level => level.size > EPSILON);
+}
+
+/**
+ * 按价格优先吃单 q 份的成交均价 (深度不足时 filled < q)
+ */
+export function walkBook(levels: BookLevel[], quantity: number, side: 'BUY' | 'SELL'): { filled: number; vwap: number | null } {
+    const sorted = [...levels].sort((a, b) => side === 'BUY' ? a.price - b.price : b.price - a.price);
+    let filled = 0;
+    let notional = 0;
+    for (const level of sorted) {
+        if (filled >= quantity) break;
+        const take = Math.min(level.size, quantity - filled);
+        filled += take;
+        notional += take * level.price;
+    }
+    return { filled, vwap: filled > 0 ? notional / filled : null };
+}
+
+/**
+ * 滑点范围内的可吃深度 (相对 best 价格 maxSlippageBps 以内)
+ */
+export function depthWithinSlippage(levels: BookLevel[], side: 'BUY' | 'SELL', maxSlippageBps: number): number {
+    const best = side === 'BUY' ? bestAsk(levels) : bestBid(levels);
+    if (best === null) return 0;
+    const limit = side === 'BUY'
+        ? best * (1 + maxSlippageBps / 10000)
+        : best * (1 - maxSlippageBps / 10000);
+    return levels
+        .filter(l => side === 'BUY' ? l.price <= limit + EPSILON : l.price >= limit - EPSILON)
+        .reduce((sum, l) => sum + l.size, 0);
+}
+
+/**
+ * 双腿成本 (按 1 份计，<= 1 不亏)
+ * - bid: Predict 买 YES @p + Poly 买对冲 token (VWAP)
+ * - ask: Predict 卖 YES @p 等价买 NO @(1-p) + Poly 卖对冲 token 等价买回 @(1-VWAP)
+ * 深度不足以对冲 q 份时返回 Infinity
+ */
+export function twoLegCost(side: 'bid' | 'ask', price: number, hedgeBook: BookSnapshot, quantity: number): number {
+    if (side === 'bid') {
+        const { filled, vwap } = walkBook(hedgeBook.asks, quantity, 'BUY');
+        if (vwap === null || filled + EPSILON < quantity) return Infinity;
+        return price + vwap;
+    }
+    const { filled, vwap } = walkBook(hedgeBook.bids, quantity, 'SELL');
+    if (vwap === null || filled + EPSILON < quantity) return Infinity;
+    return (1 - price) + (1 - vwap);
+}
+
+// ============================================================================
+// 目标报价
+// ============================================================================
+
+export interface QuoteInput {
+    predictBook: BookSnapshot;
+    hedgeBook: BookSnapshot;
+    /** Predict tick (价格单位) */
+    tick: number;
+    anchorOffsetTicks: number;
+    /** Points 合格区间半宽 (价格单位) */
+    maxPointsDistance: number;
+    anchorShares: number;
+    activeShares: number;
+    chaseTickThreshold: number;
+    minBidAskGapTicks: number;
+    freezeIfTwoLegCostGtOne: boolean;
+    maxSlippageBps: number;
+    activeSizeSafetyFactor: number;
+    minDepthSharesToEnableActive: number;
+    /** 当前挂单价格 (null = 未挂) */
+    current: Record<QuoteSlotName, number | null>;
+    /** 当前挂单份额 (从盘口中扣除) */
+    currentQuantity: Record<QuoteSlotName, number>;
+    /** 是否到了追价周期 (repriceIntervalMs) */
+    allowReprice: boolean;
+    /** ask 槽位是否有库存 (Predict YES + Poly 对冲 token) */
+    canAsk: boolean;
+    /** 是否允许 active (ANCHOR_ONLY / COOLDOWN / STALE 时为 false) */
+    enableActive: boolean;
+}
+
+function inBand(price: number | null, low: number, high: number): boolean {
+    return price !== null && price >= low - EPSILON && price <= high + EPSILON;
+}
+
+/**
+ * 计算单市场目标报价
+ *
+ * - anchor: best ∓ offset tick，夹到 Points 区间内，不穿价
+ * - active: 落后外部 best >= chaseTickThreshold tick 时追到 best
+ * - freezeIfTwoLegCostGtOne: 追价后双腿成本 > 1 则维持原价；没有原价时退到成本 <= 1 的最优价
+ * - selfCrossGuard: 本方 ask - bid >= minBidAskGapTicks tick
+ */
+export function computeQuoteTargets(input: QuoteInput): QuoteTargets | null {
+    const { tick, current } = input;
+    const reasons: string[] = [];
+    const frozen: QuoteSlotName[] = [];
+
+    const ownBids = (['anchor-bid', 'active-bid'] as const)
+        .filter(slot => current[slot] !== null)
+        .map(slot => ({ price: current[slot]!, quantity: input.currentQuantity[slot] }));
+    const ownAsks = (['anchor-ask', 'active-ask'] as const)
+        .filter(slot => current[slot] !== null)
+        .map(slot => ({ price: current[slot]!, quantity: input.currentQuantity[slot] }));
+    const bids = excludeOwnOrders(input.predictBook.bids, ownBids);
+    const asks = excludeOwnOrders(input.predictBook.asks, ownAsks);
+
+    const extBid = bestBid(bids);
+    const extAsk = bestAsk(asks);
+    if (extBid === null || extAsk === null) return null;
+    const mid = (extBid + extAsk) / 2;
+
+    // Points 区间: 买单 [mid-d, mid]，卖单 [mid, mid+d]；同时保持 maker (不穿对手 best)
+    const bidLow = roundToTick(mid - input.maxPointsDistance, tick, 'up');
+    const bidHigh = Math.min(roundToTick(mid, tick, 'down'), roundToTick(extAsk - tick, tick, 'down'));
+    const askHigh = roundToTick(mid + input.maxPointsDistance, tick, 'down');
+    const askLow = Math.max(roundToTick(mid, tick, 'up'), roundToTick(extBid + tick, tick, 'up'));
+    const clampBid = (p: number) => Math.min(Math.max(p, bidLow), bidHigh);
+    const clampAsk = (p: number) => Math.max(Math.min(p, askHigh), askLow);
+
+    // ---- active 份额: Poly 滑点范围内深度 × 安全系数 ----
+    let activeBidShares = 0;
+    let activeAskShares = 0;
+    if (input.enableActive) {
+        const buyDepth = depthWithinSlippage(input.hedgeBook.asks, 'BUY', input.maxSlippageBps);
+        const sellDepth = depthWithinSlippage(input.hedgeBook.bids, 'SELL', input.maxSlippageBps);
+        if (buyDepth < input.minDepthSharesToEnableActive) {
+            reasons.push(`Poly 买深度不足 (${buyDepth.toFixed(0)} < ${input.minDepthSharesToEnableActive})`);
+        } else {
+            activeBidShares = Math.min(input.activeShares, Math.floor(buyDepth * input.activeSizeSafetyFactor));
+        }
+        if (input.canAsk) {
+            if (sellDepth < input.minDepthSharesToEnableActive) {
+                reasons.push(`Poly 卖深度不足 (${sellDepth.toFixed(0)} < ${input.minDepthSharesToEnableActive})`);
+            } else {
+                activeAskShares = Math.min(input.activeShares, Math.floor(sellDepth * input.activeSizeSafetyFactor));
+            }
+        }
+    }
+
+    // ---- 单侧价格决策 ----
+    const decide = (
+        slot: QuoteSlotName,
+        side: 'bid' | 'ask',
+        desired: number | null,
+        shares: number,
+        chase: boolean,
+    ): number | null => {
+        if (desired === null || shares <= 0) return null;
+        const low = side === 'bid' ? bidLow : askLow;
+        const high = side === 'bid' ? bidHigh : askHigh;
+        if (low > high + EPSILON) return null;
+
+        const existing = current[slot];
+        let candidate = desired;
+        if (inBand(existing, low, high)) {
+            const lagTicks = side === 'bid' ? (desired - existing!) / tick : (existing! - desired) / tick;
+            const shouldMove = input.allowReprice && (chase
+                ? lagTicks >= input.chaseTickThreshold - EPSILON
+                : Math.abs(lagTicks) >= input.chaseTickThreshold - EPSILON);
+            if (!shouldMove) candidate = existing!;
+        }
+
+        if (!input.freezeIfTwoLegCostGtOne) return candidate;
+        if (twoLegCost(side, candidate, input.hedgeBook, shares) <= 1 + EPSILON) return candidate;
+
+        // 双腿成本 > 1: 原价仍在区间内且成本 <= 1 → 冻结在原价
+        if (candidate !== existing && inBand(existing, low, high)
+            && twoLegCost(side, existing!, input.hedgeBook, shares) <= 1 + EPSILON) {
+            frozen.push(slot);
+            return existing;
+        }
+        // 向远离 best 的方向退，找第一个成本 <= 1 的价格
+        const step = side === 'bid' ? -tick : tick;
+        for (let p = candidate + step; side === 'bid' ? p >= low - EPSILON : p <= high + EPSILON; p += step) {
+            const price = Number(p.toFixed(6));
+            if (twoLegCost(side, price, input.hedgeBook, shares) <= 1 + EPSILON) {
+                frozen.push(slot);
+                return price;
+            }
+        }
+        reasons.push(`${slot} 双腿成本 > 1，暂停挂单`);
+        return null;
+    };
+
+    const offset = input.anchorOffsetTicks * tick;
+    const anchorBid = decide('anchor-bid', 'bid', clampBid(roundToTick(extBid - offset, tick, 'down')), input.anchorShares, false);
+    const activeBid = decide('active-bid', 'bid', clampBid(extBid), activeBidShares, true);
+
+    let anchorAsk: number | null = null;
+    let activeAsk: number | null = null;
+    if (input.canAsk) {
+        anchorAsk = decide('anchor-ask', 'ask', clampAsk(roundToTick(extAsk + offset, tick, 'up')), input.anchorShares, false);
+        activeAsk = decide('active-ask', 'ask', clampAsk(extAsk), activeAskShares, true);
+    } else {
+        reasons.push('库存不足，不挂 ask');
+    }
+
+    // ---- selfCrossGuard ----
+    const gap = input.minBidAskGapTicks * tick;
+    const topBid = Math.max(anchorBid ?? -Infinity, activeBid ?? -Infinity);
+    const guardAsk = (price: number | null, slot: QuoteSlotName): number | null => {
+        if (price === null || price - topBid >= gap - EPSILON) return price;
+        const pushed = roundToTick(topBid + gap, tick, 'up');
+        if (pushed > askHigh + EPSILON) {
+            reasons.push(`${slot} 与本方 bid 间隔不足`);
+            return null;
+        }
+        return pushed;
+    };
+
+    return {
+        mid,
+        tick,
+        anchorBid,
+        anchorAsk: guardAsk(anchorAsk, 'anchor-ask'),
+        activeBid,
+        activeAsk: guardAsk(activeAsk, 'active-ask'),
+        activeBidShares: activeBid === null ? 0 : activeBidShares,
+        activeAskShares: activeAsk === null ? 0 : activeAskShares,
+        frozen,
+        reasons,
+    };
+}
+
+/**
+ * active 同时成交的资金占用 (双腿)
+ * - bid: q × (p + Poly ask)
+ * - ask: q × ((1-p) + (1-Poly bid))
+ */
+export function activeNotional(targets: QuoteTargets, hedgeBook: BookSnapshot): number {
+    let total = 0;
+    if (targets.activeBid !== null && targets.activeBidShares > 0) {
+        const polyAsk = bestAsk(hedgeBook.asks) ?? 1;
+        total += targets.activeBidShares * (targets.activeBid + polyAsk);
+    }
+    if (targets.activeAsk !== null && targets.activeAskShares > 0) {
+        const polyBid = bestBid(hedgeBook.bids) ?? 0;
+        total += targets.activeAskShares * ((1 - targets.activeAsk) + (1 - polyBid));
+    }
+    return total;
+}
@@ -0,0 +1,226 @@
+/**
+ * points-engine 类型定义
+ *
+ * 配置结构与 points-engine.config.json 一一对应
+ */
+
+// ============================================================================
+// 配置
+// ============================================================================
+
+/** anchor 价格风格: best ± 1/2/3 tick */
+export type QuoteStyle = 'aggressive' | 'balanced' | 'conservative';
+
+export interface PointsLimitsConfig {
+    maxMarkets: number;
+    minSharesForPoints: number;
+    /** Points 合格区间: mid ± N 美分 */
+    maxPointsDistanceCents: number;
+}
+
+export interface PointsQuoteConfig {
+    anchorShares: number;
+    activeSharesDefault: number;
+    repriceIntervalMs: number;
+    /** active 落后 best 超过 N tick 时追价 */
+    chaseTickThreshold: number;
+    /** Predict tick (美分)，可按市场覆盖 */
+    minTickSizeCentsDefault: number;
+    anchorOffsetTicksByStyle: Record<QuoteStyle, number>;
+    defaultStyle: QuoteStyle;
+    /** 双腿成本 > 1 时不追价 (维持原挂单位置) */
+    freezeIfTwoLegCostGtOne: boolean;
+    /** 自成交保护: 本方 bid/ask 至少间隔 N tick */
+    minBidAskGapTicks: number;
+}
+
+export interface PointsHedgeConfig {
+    /** Predict 成交后超过该时长仍未对冲 → 降档 */
+    maxUnhedgedMs: number;
+    /** 成交后的合并窗口: 窗口内不重挂该槽位，等待连续成交和对冲落地 */
+    nettingWindowMs: number;
+    polymarket: {
+        takerOnly: boolean;
+        maxSlippageBps: number;
+        /** active 份额上限 = 滑点范围内深度 × 系数 */
+        activeSizeSafetyFactor: number;
+        /** 滑点范围内深度低于该值时只保留 anchor */
+        minDepthSharesToEnableActive: number;
+    };
+}
+
+export interface PairBand {
+    targetPair: number;
+    pairLow: number;
+    pairHigh: number;
+}
+
+export interface PairOverride extends Partial<PairBand> {
+    /** "marketId:123" 或 "condition:0x..." */
+    key: string;
+}
+
+export interface PointsPairConfig {
+    defaultTargetPair: number;
+    defaultPairLow: number;
+    defaultPairHigh: number;
+    pairLowMin: number;
+    reducePairToTargetWhenAboveHigh: boolean;
+    increasePairToTargetWhenBelowLow: boolean;
+    checkIntervalMs: number;
+    perMarketOverrides: PairOverride[];
+}
+
+export interface PointsRiskConfig {
+    /** 订单簿超过该时长未更新视为过期 */
+    wsStaleMs: number;
+    maxConsecutiveHedgeFailuresBeforeCooldown: number;
+    cooldownMs: number;
+    /** 所有市场挂单同时成交的最大资金占用 (双腿) */
+    globalFillBudgetUSDT: number;
+}
+
+export interface PointsDashboardConfig {
+    baseUrl: string;
+    ssePath: string;
+    requestTimeoutMs: number;
+    pollFallbackIntervalMs: number;
+    /** 对 Dashboard 写请求的最小间隔 (rateLimitGuard) */
+    minRequestIntervalMs: number;
+}
+
+/**
+ * 做市市场 (MVP 只做 YES outcome)
+ */
+export interface PointsMarketConfig {
+    marketId: number;
+    style?: QuoteStyle;
+    activeShares?: number;
+    /** Predict tick (美分)，默认 quote.minTickSizeCentsDefault */
+    tickSizeCents?: number;
+}
+
+export interface PointsEngineConfig {
+    version: number;
+    limits: PointsLimitsConfig;
+    quote: PointsQuoteConfig;
+    hedge: PointsHedgeConfig;
+    pair: PointsPairConfig;
+    risk: PointsRiskConfig;
+    integration: {
+        dashboard: PointsDashboardConfig;
+    };
+    markets: PointsMarketConfig[];
+}
+
+// ============================================================================
+// Dashboard 数据
+// ============================================================================
+
+export interface BookLevel {
+    price: number;
+    size: number;
+}
+
+export interface BookSnapshot {
+    bids: BookLevel[];
+    asks: BookLevel[];
+    timestamp: number;
+}
+
+/**
+ * /api/markets 返回的市场对
+ */
+export interface DashboardMarket {
+    predictId: number;
+    predictTitle: string;
+    polymarketConditionId: string;
+    polymarketYesTokenId?: string;
+    polymarketNoTokenId?: string;
+    tickSize: number;
+    feeRateBps: number;
+    isInverted: boolean;
+    negRisk: boolean;
+    endDate?: string;
+}
+
+export interface OrderbookSnapshot {
+    predict: Record<string, BookSnapshot | null>;
+    polymarket: Record<string, BookSnapshot | null>;
+    polymarketWsConnected: boolean;
+    timestamp: number;
+}
+
+// ============================================================================
+// 运行状态
+// ============================================================================
+
+/**
+ * 挂单槽位: anchor (固定 100 shares，保证 Points 合格) + active (追 best，份额可缩放)
+ */
+export type QuoteSlotName = 'anchor-bid' | 'anchor-ask' | 'active-bid' | 'active-ask';
+
+/**
+ * 市场状态机
+ * - INIT: 等待订单簿 / 市场信息
+ * - QUOTING: anchor + active 双边挂单
+ * - ANCHOR_ONLY: 只保留 anchor (Poly 深度不足 / 滑点超限 / 预算不足)
+ * - COOLDOWN: 对冲超时或连续失败后冷却，只保留 anchor
+ * - STALE: 订单簿过期，停止追价和新任务，撤 active
+ * - STOPPED: 已停止 (撤掉所有槽位)
+ */
+export type PointsMarketState = 'INIT' | 'QUOTING' | 'ANCHOR_ONLY' | 'COOLDOWN' | 'STALE' | 'STOPPED';
+
+export interface QuoteSlotState {
+    slot: QuoteSlotName;
+    taskId: string | null;
+    price: number | null;
+    quantity: number;
+    placedAt: number | null;
+    /** 最近一次成交时间 (nettingWindow 内不重挂) */
+    lastFillAt: number | null;
+    filledQty: number;
+    hedgedQty: number;
+    /** 出现未对冲份额的起始时间 */
+    unhedgedSince: number | null;
+}
+
+/**
+ * 单市场的目标报价 (quote-calculator 输出)
+ */
+export interface QuoteTargets {
+    mid: number;
+    tick: number;
+    anchorBid: number | null;
+    anchorAsk: number | null;
+    activeBid: number | null;
+    activeAsk: number | null;
+    activeBidShares: number;
+    activeAskShares: number;
+    /** 本轮被冻结的追价 (双腿成本 > 1) */
+    frozen: QuoteSlotName[];
+    reasons: string[];
+}
+
+export interface PairStatus {
+    band: PairBand;
+    pairPredict: number;
+    pairPoly: number;
+    /** (Yp + Ym) - (Np + Nm)，按 Predict 方向折算 */
+    net: number;
+    predictAction: 'SPLIT' | 'MERGE' | null;
+    polyAction: 'SPLIT' | 'MERGE' | null;
+    checkedAt: number;
+}
+
+export interface PointsMarketStatus {
+    marketId: number;
+    title: string;
+    state: PointsMarketState;
+    stateReason: string | null;
+    slots: QuoteSlotState[];
+    targets: QuoteTargets | null;
+    consecutiveHedgeFailures: number;
+    cooldownUntil: number | null;
+    pair: PairStatus | null;
+}
@@ -96,6 +96,9 @@ export class PolymarketWebSocketClient {
     private orderBookListeners: Map<string, (book: NormalizedOrderBook) => void> = new Map();
     private listenerIdCounter = 0;
 
+    // 原始消息监听器 (订单簿录制用)
+    private rawMessageListeners: Map<string, (raw: string, message: unknown) => void> = new Map();
+
     constructor(config: WebSocketClientConfig = {}) {
         this.url = config.url || DEFAULT_WS_URL;
         this.pingInterval = normalizePositiveNumber(config.pingInterval, DEFAULT_PING_INTERVAL);
@@ -152,6 +155,32 @@ export class PolymarketWebSocketClient {
         return this.orderBookListeners.delete(listenerId);
     }
 
+    /**
+     * 添加原始消息监听器 (收到已解析的 JSON 消息时回调，含初始快照数组)
+     * 用于订单簿录制，回调中不应修改 message
+     * @returns 监听器 ID，用于 removeRawMessageListener
+     */
+    addRawMessageListener(listener: (raw: string, message: unknown) => void): string {
+        const id = `raw_${++this.listenerIdCounter}`;
+        this.rawMessageListeners.set(id, listener);
+        return id;
+    }
+
+    /**
+     * 移除原始消息监听器
+     */
+    removeRawMessageListener(listenerId: string): boolean {
+        return this.rawMessageListeners.delete(listenerId);
+    }
+
+    /**
+     * 注入一条原始消息，走与 WS 推送完全相同的处理路径
+     * 用于离线回放录制的订单簿 (无需连接)
+     */
+    injectMessage(raw: string): void {
+        this.handleMessage(raw);
+    }
+
     /**
      * 获取当前活跃的监听器数量
      */
@@ -292,6 +321,7 @@ export class PolymarketWebSocketClient {
         // 可选：清理所有监听器 (仅用于 dispose/致命错误)
         if (options?.clearListeners) {
             this.removeAllOrderBookListeners();
+            this.rawMessageListeners.clear();
         }
     }
 
@@ -410,6 +440,7 @@ export class PolymarketWebSocketClient {
 
         try {
             const message = JSON.parse(data);
+            this.notifyRawMessageListeners(data, message);
 
             // Handle array-style initial response
             if (Array.isArray(message)) {
@@ -520,6 +551,16 @@ export class PolymarketWebSocketClient {
         }
     }
 
+    private notifyRawMessageListeners(raw: string, message: unknown): void {
+        for (const [id, listener] of this.rawMessageListeners) {
+            try {
+                listener(raw, message);
+            } catch (err) {
+                console.warn(`[WS] Raw message listener ${id} error:`, err);
+            }
+        }
+    }
+
     private handleTradeUpdate(update: WebSocketTradeUpdate): void {
         // Handle price_change with changes array
         if (update.changes && update.changes.length > 0) {
@@ -0,0 +1,459 @@
+/**
+ * CTF Service - Polymarket 条件代币拆分 / 合并 / 赎回
+ *
+ * - MERGE: YES + NO 配对合并回 USDC (套利完成后提前释放资金)
+ * - SPLIT: USDC 拆分为 YES + NO
+ * - REDEEM: 已结算市场赎回获胜仓位
+ *
+ * 标准市场直接调用 ConditionalTokens；negRisk 市场通过 NegRiskAdapter。
+ * dry-run 只生成 calldata (含 Safe 包装)，不发送交易。
+ */
+
+import { EventEmitter } from 'events';
+import { Contract, Interface, JsonRpcProvider, Network, Wallet, ZeroAddress, ZeroHash, parseUnits, formatUnits, zeroPadValue } from 'ethers';
+import type {
+    CtfAction,
+    CtfCall,
+    CtfConditionPosition,
+    CtfOperationOptions,
+    CtfServiceConfig,
+    CtfTxResult,
+} from './types.js';
+
+// Polygon 主网合约
+export const CTF_ADDRESS = '0x4D97DCd97eC945f40cF65F87097ACe5EA0476045';
+export const USDC_ADDRESS = '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174'; // USDC.e
+export const NEG_RISK_ADAPTER_ADDRESS = '0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296';
+
+const POLYGON_NETWORK = new Network('matic', 137);
+const TOKEN_DECIMALS = 6;  // USDC.e 与条件代币均为 6 位
+const BINARY_PARTITION = [1, 2];  // YES = 0b01, NO = 0b10
+
+const CTF_ABI = [
+    'function splitPosition(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] partition, uint256 amount)',
+    'function mergePositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] partition, uint256 amount)',
+    'function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)',
+    'function balanceOf(address owner, uint256 id) view returns (uint256)',
+    'function payoutDenominator(bytes32 conditionId) view returns (uint256)',
+    'function isApprovedForAll(address owner, address operator) view returns (bool)',
+    'function setApprovalForAll(address operator, bool approved)',
+];
+const NEG_RISK_ADAPTER_ABI = [
+    'function splitPosition(bytes32 conditionId, uint256 amount)',
+    'function mergePositions(bytes32 conditionId, uint256 amount)',
+    'function redeemPositions(bytes32 conditionId, uint256[] amounts)',
+];
+const ERC20_ABI = [
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function approve(address spender, uint256 amount)',
+];
+const SAFE_ABI = [
+    'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool)',
+];
+
+const ctfInterface = new Interface(CTF_ABI);
+const adapterInterface = new Interface(NEG_RISK_ADAPTER_ABI);
+const erc20Interface = new Interface(ERC20_ABI);
+const safeInterface = new Interface(SAFE_ABI);
+
+function toUnits(amount: number): bigint {
+    const floored = Math.floor(amount * 10 ** TOKEN_DECIMALS) / 10 ** TOKEN_DECIMALS;
+    return parseUnits(floored.toFixed(TOKEN_DECIMALS), TOKEN_DECIMALS);
+}
+
+function fromUnits(units: bigint): number {
+    return parseFloat(formatUnits(units, TOKEN_DECIMALS));
+}
+
+export class CtfService extends EventEmitter {
+    private provider: JsonRpcProvider;
+    private signer: Wallet | null;
+    private ctf: Contract;
+    private usdc: Contract;
+
+    constructor(private config: CtfServiceConfig) {
+        super();
+        this.provider = new JsonRpcProvider(config.rpcUrl, POLYGON_NETWORK, { staticNetwork: POLYGON_NETWORK });
+        this.signer = config.privateKey ? new Wallet(config.privateKey, this.provider) : null;
+        this.ctf = new Contract(CTF_ADDRESS, CTF_ABI, this.provider);
+        this.usdc = new Contract(USDC_ADDRESS, ERC20_ABI, this.provider);
+    }
+
+    getHolderAddress(): string {
+        return this.config.holderAddress;
+    }
+
+    isDryRun(): boolean {
+        return this.config.dryRun;
+    }
+
+    // ========================================================================
+    // 持仓查询
+    // ========================================================================
+
+    /**
+     * 从 Data API 读取持仓，按 conditionId 聚合 YES/NO
+     */
+    async getConditionPositions(): Promise<CtfConditionPosition[]> {
+        const url = `${this.config.dataApiBaseUrl}/positions?user=${this.config.holderAddress}&sizeThreshold=0.01`;
+        const res = await fetch(url, { signal: AbortSignal.timeout(10000) });
+        if (!res.ok) {
+            throw new Error(`Data API positions failed: HTTP ${res.status}`);
+        }
+        const data = await res.json() as any[];
+        const byCondition = new Map<string, CtfConditionPosition>();
+
+        for (const pos of Array.isArray(data) ? data : []) {
+            const conditionId = String(pos.conditionId || '').toLowerCase();
+            const size = parseFloat(pos.size || '0');
+            if (!conditionId || size <= 0) continue;
+
+            let entry = byCondition.get(conditionId);
+            if (!entry) {
+                entry = {
+                    conditionId,
+                    title: pos.title || conditionId,
+                    negRisk: pos.negativeRisk === true,
+                    redeemable: false,
+                    yesTokenId: null,
+                    noTokenId: null,
+                    yesShares: 0,
+                    noShares: 0,
+                    mergeableShares: 0,
+                };
+                byCondition.set(conditionId, entry);
+            }
+
+            const isYes = Number(pos.outcomeIndex) === 0;
+            if (isYes) {
+                entry.yesTokenId = String(pos.asset);
+                entry.yesShares = size;
+                entry.noTokenId = entry.noTokenId ?? (pos.oppositeAsset ? String(pos.oppositeAsset) : null);
+            } else {
+                entry.noTokenId = String(pos.asset);
+                entry.noShares = size;
+                entry.yesTokenId = entry.yesTokenId ?? (pos.oppositeAsset ? String(pos.oppositeAsset) : null);
+            }
+            entry.redeemable = entry.redeemable || pos.redeemable === true;
+            entry.mergeableShares = Math.min(entry.yesShares, entry.noShares);
+        }
+
+        return Array.from(byCondition.values());
+    }
+
+    /**
+     * 链上条件代币余额 (shares)
+     */
+    async getTokenBalance(tokenId: string): Promise<number> {
+        const balance = await this.ctf.balanceOf(this.config.holderAddress, BigInt(tokenId)) as bigint;
+        return fromUnits(balance);
+    }
+
+    /**
+     * 市场是否已结算 (payoutDenominator > 0)
+     */
+    async isResolved(conditionId: string): Promise<boolean> {
+        const denominator = await this.ctf.payoutDenominator(conditionId) as bigint;
+        return denominator > 0n;
+    }
+
+    // ========================================================================
+    // 拆分 / 合并 / 赎回
+    // ========================================================================
+
+    /**
+     * 合并 YES + NO 为 USDC
+     * @param shares - 合并份额，省略时合并链上 min(YES, NO)
+     */
+    async merge(conditionId: string, shares?: number, options: CtfOperationOptions = {}): Promise<CtfTxResult> {
+        const position = await this.findPosition(conditionId);
+        const negRisk = options.negRisk ?? position?.negRisk ?? false;
+
+        let amount = shares;
+        if (amount === undefined) {
+            if (!position?.yesTokenId || !position?.noTokenId) {
+                throw new Error(`No YES/NO position found for ${conditionId}, specify shares explicitly`);
+            }
+            const [yes, no] = await Promise.all([
+                this.getTokenBalance(position.yesTokenId),
+                this.getTokenBalance(position.noTokenId),
+            ]);
+            amount = Math.min(yes, no);
+        }
+        if (!(amount > 0)) {
+            throw new Error(`Nothing to merge for ${conditionId}`);
+        }
+
+        const units = toUnits(amount);
+        const calls: CtfCall[] = [];
+        if (negRisk) {
+            calls.push(...await this.buildAdapterApprovalCalls());
+            calls.push({
+                to: NEG_RISK_ADAPTER_ADDRESS,
+                data: adapterInterface.encodeFunctionData('mergePositions', [conditionId, units]),
+                description: `NegRiskAdapter.mergePositions ${amount} shares`,
+            });
+        } else {
+            calls.push({
+                to: CTF_ADDRESS,
+                data: ctfInterface.encodeFunctionData('mergePositions', [USDC_ADDRESS, ZeroHash, conditionId, BINARY_PARTITION, units]),
+                description: `CTF.mergePositions ${amount} shares`,
+            });
+        }
+
+        return this.execute('MERGE', conditionId, negRisk, amount, calls, options);
+    }
+
+    /**
+     * 拆分 USDC 为 YES + NO
+     */
+    async split(conditionId: string, usdcAmount: number, options: CtfOperationOptions = {}): Promise<CtfTxResult> {
+        if (!(usdcAmount > 0)) {
+            throw new Error('Split amount must be > 0');
+        }
+        const negRisk = options.negRisk ?? (await this.findPosition(conditionId))?.negRisk ?? false;
+        const units = toUnits(usdcAmount);
+        const spender = negRisk ? NEG_RISK_ADAPTER_ADDRESS : CTF_ADDRESS;
+
+        const calls: CtfCall[] = [];
+        calls.push(...await this.buildUsdcApprovalCalls(spender, units));
+        if (negRisk) {
+            calls.push({
+                to: NEG_RISK_ADAPTER_ADDRESS,
+                data: adapterInterface.encodeFunctionData('splitPosition', [conditionId, units]),
+                description: `NegRiskAdapter.splitPosition ${usdcAmount} USDC`,
+            });
+        } else {
+            calls.push({
+                to: CTF_ADDRESS,
+                data: ctfInterface.encodeFunctionData('splitPosition', [USDC_ADDRESS, ZeroHash, conditionId, BINARY_PARTITION, units]),
+                description: `CTF.splitPosition ${usdcAmount} USDC`,
+            });
+        }
+
+        return this.execute('SPLIT', conditionId, negRisk, usdcAmount, calls, options);
+    }
+
+    /**
+     * 赎回已结算市场的全部仓位
+     */
+    async redeem(conditionId: string, options: CtfOperationOptions = {}): Promise<CtfTxResult> {
+        if (!await this.isResolved(conditionId)) {
+            throw new Error(`Condition ${conditionId} is not resolved yet`);
+        }
+
+        const position = await this.findPosition(conditionId);
+        const negRisk = options.negRisk ?? position?.negRisk ?? false;
+        const calls: CtfCall[] = [];
+        let amount: number;
+
+        if (negRisk) {
+            // NegRiskAdapter 需要显式给出各 outcome 的赎回数量
+            if (!position?.yesTokenId && !position?.noTokenId) {
+                throw new Error(`No position found for negRisk condition ${conditionId}`);
+            }
+            const [yesUnits, noUnits] = await Promise.all([
+                position.yesTokenId ? this.ctf.balanceOf(this.config.holderAddress, BigInt(position.yesTokenId)) as Promise<bigint> : Promise.resolve(0n),
+                position.noTokenId ? this.ctf.balanceOf(this.config.holderAddress, BigInt(position.noTokenId)) as Promise<bigint> : Promise.resolve(0n),
+            ]);
+            amount = fromUnits(yesUnits + noUnits);
+            calls.push(...await this.buildAdapterApprovalCalls());
+            calls.push({
+                to: NEG_RISK_ADAPTER_ADDRESS,
+                data: adapterInterface.encodeFunctionData('redeemPositions', [conditionId, [yesUnits, noUnits]]),
+                description: `NegRiskAdapter.redeemPositions YES=${fromUnits(yesUnits)} NO=${fromUnits(noUnits)}`,
+            });
+        } else {
+            amount = (position?.yesShares ?? 0) + (position?.noShares ?? 0);
+            calls.push({
+                to: CTF_ADDRESS,
+                data: ctfInterface.encodeFunctionData('redeemPositions', [USDC_ADDRESS, ZeroHash, conditionId, BINARY_PARTITION]),
+                description: 'CTF.redeemPositions [1, 2]',
+            });
+        }
+
+        return this.execute('REDEEM', conditionId, negRisk, amount, calls, options);
+    }
+
+    /**
+     * 合并所有 min(YES, NO) >= minShares 的配对
+     * @param skip - 跳过的持仓 (如仍有活跃任务的市场)
+     */
+    async mergeAll(
+        minShares: number,
+        options: CtfOperationOptions = {},
+        skip?: (position: CtfConditionPosition) => boolean
+    ): Promise<CtfTxResult[]> {
+        const positions = await this.getConditionPositions();
+        const results: CtfTxResult[] = [];
+        for (const position of positions) {
+            if (position.redeemable || position.mergeableShares < minShares) continue;
+            if (skip?.(position)) continue;
+            try {
+                results.push(await this.merge(position.conditionId, undefined, { ...options, negRisk: position.negRisk }));
+            } catch (error: any) {
+                console.warn(`[CTF] 合并失败 ${position.title}: ${error?.message || error}`);
+            }
+        }
+        return results;
+    }
+
+    /**
+     * 赎回所有已结算仓位
+     */
+    async redeemAll(options: CtfOperationOptions = {}): Promise<CtfTxResult[]> {
+        const positions = await this.getConditionPositions();
+        const results: CtfTxResult[] = [];
+        for (const position of positions) {
+            if (!position.redeemable) continue;
+            try {
+                results.push(await this.redeem(position.conditionId, { ...options, negRisk: position.negRisk }));
+            } catch (error: any) {
+                console.warn(`[CTF] 赎回失败 ${position.title}: ${error?.message || error}`);
+            }
+        }
+        return results;
+    }
+
+    // ========================================================================
+    // 私有方法
+    // ========================================================================
+
+    private async findPosition(conditionId: string): Promise<CtfConditionPosition | null> {
+        try {
+            const positions = await this.getConditionPositions();
+            return positions.find(p => p.conditionId === conditionId.toLowerCase()) ?? null;
+        } catch (error: any) {
+            console.warn(`[CTF] 读取持仓失败: ${error?.message || error}`);
+            return null;
+        }
+    }
+
+    /**
+     * NegRiskAdapter 需要转移持仓的 ERC1155 授权
+     */
+    private async buildAdapterApprovalCalls(): Promise<CtfCall[]> {
+        try {
+            const approved = await this.ctf.isApprovedForAll(this.config.holderAddress, NEG_RISK_ADAPTER_ADDRESS) as boolean;
+            if (approved) return [];
+        } catch (error: any) {
+            console.warn(`[CTF] 授权查询失败，默认附带授权调用: ${error?.message || error}`);
+        }
+        return [{
+            to: CTF_ADDRESS,
+            data: ctfInterface.encodeFunctionData('setApprovalForAll', [NEG_RISK_ADAPTER_ADDRESS, true]),
+            description: 'CTF.setApprovalForAll(NegRiskAdapter)',
+        }];
+    }
+
+    private async buildUsdcApprovalCalls(spender: string, units: bigint): Promise<CtfCall[]> {
+        try {
+            const allowance = await this.usdc.allowance(this.config.holderAddress, spender) as bigint;
+            if (allowance >= units) return [];
+        } catch (error: any) {
+            console.warn(`[CTF] USDC 授权查询失败，默认附带授权调用: ${error?.message || error}`);
+        }
+        return [{
+            to: USDC_ADDRESS,
+            data: erc20Interface.encodeFunctionData('approve', [spender, units]),
+            description: `USDC.approve(${spender === CTF_ADDRESS ? 'CTF' : 'NegRiskAdapter'}, ${fromUnits(units)})`,
+        }];
+    }
+
+    /**
+     * SAFE 模式: owner 直接调用 execTransaction，使用 pre-validated 签名 (v=1)
+     */
+    private wrapForWallet(call: CtfCall, owner: string): CtfCall {
+        if (this.config.walletType === 'EOA') return call;
+
+        const signature = zeroPadValue(owner, 32) + ZeroHash.slice(2) + '01';
+        return {
+            to: this.config.holderAddress,
+            data: safeInterface.encodeFunctionData('execTransaction', [
+                call.to, 0, call.data, 0, 0, 0, 0, ZeroAddress, ZeroAddress, signature,
+            ]),
+            description: `Safe.execTransaction -> ${call.description}`,
+        };
+    }
+
+    private async execute(
+        action: CtfAction,
+        conditionId: string,
+        negRisk: boolean,
+        amount: number,
+        calls: CtfCall[],
+        options: CtfOperationOptions
+    ): Promise<CtfTxResult> {
+        const dryRun = options.dryRun ?? this.config.dryRun;
+        const owner = this.signer?.address ?? (this.config.walletType === 'EOA' ? this.config.holderAddress : ZeroAddress);
+        const transactions = calls.map(call => this.wrapForWallet(call, owner));
+        const result: CtfTxResult = { action, conditionId, negRisk, amount, dryRun, calls, transactions, txHashes: [] };
+
+        if (dryRun) {
+            console.log(`[CTF] [DRY-RUN] ${action} ${conditionId.slice(0, 10)}... amount=${amount} negRisk=${negRisk} (${transactions.length} tx)`);
+            this.emit('executed', result);
+            return result;
+        }
+
+        if (!this.signer) {
+            throw new Error('CTF service has no private key, only dry-run is available');
+        }
+
+        // 顺序发送 (approve 需先于业务调用确认)
+        for (const tx of transactions) {
+            const sent = await this.signer.sendTransaction({ to: tx.to, data: tx.data });
+            console.log(`[CTF] ${tx.description} 已发送: ${sent.hash}`);
+            const receipt = await sent.wait(1);
+            if (!receipt || receipt.status !== 1) {
+                throw new Error(`Transaction reverted: ${sent.hash}`);
+            }
+            result.txHashes.push(sent.hash);
+        }
+
+        console.log(`[CTF] ${action} 完成 ${conditionId.slice(0, 10)}... amount=${amount}`);
+        this.emit('executed', result);
+        return result;
+    }
+}
+
+// ============================================================================
+// 单例
+// ============================================================================
+
+let instance: CtfService | null = null;
+
+/**
+ * 从环境变量构建配置 (与 PolymarketTrader 一致: 配置了代理钱包即为 Gnosis Safe)
+ */
+export function loadCtfConfigFromEnv(overrides: Partial<CtfServiceConfig> = {}): CtfServiceConfig {
+    const privateKey = process.env.POLYMARKET_TRADER_PRIVATE_KEY || undefined;
+    const proxyAddress = process.env.POLYMARKET_PROXY_ADDRESS;
+    const eoaAddress = privateKey ? new Wallet(privateKey).address : process.env.POLYMARKET_TRADER_ADDRESS;
+    const holderAddress = proxyAddress || eoaAddress;
+    if (!holderAddress) {
+        throw new Error('POLYMARKET_PROXY_ADDRESS or POLYMARKET_TRADER_PRIVATE_KEY is required');
+    }
+
+    return {
+        rpcUrl: process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com',
+        privateKey,
+        holderAddress,
+        walletType: proxyAddress ? 'SAFE' : 'EOA',
+        dryRun: process.env.CTF_DRY_RUN === 'true',
+        dataApiBaseUrl: process.env.POLYMARKET_DATA_API_BASE_URL || 'https://data-api.polymarket.com',
+        ...overrides,
+    };
+}
+
+export function getCtfService(): CtfService | null {
+    return instance;
+}
+
+export function initCtfService(config: CtfServiceConfig): CtfService {
+    if (instance) {
+        console.warn('[CTF] Already initialized, returning existing instance');
+        return instance;
+    }
+    instance = new CtfService(config);
+    return instance;
+}
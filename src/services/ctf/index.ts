@@ -0,0 +1,16 @@
+/**
+ * CTF Service 模块导出
+ *
+ * Polymarket 条件代币拆分 / 合并 / 赎回 (标准市场 + negRisk)
+ */
+
+export * from './types.js';
+export {
+    CtfService,
+    getCtfService,
+    initCtfService,
+    loadCtfConfigFromEnv,
+    CTF_ADDRESS,
+    USDC_ADDRESS,
+    NEG_RISK_ADAPTER_ADDRESS,
+} from './ctf-service.js';
@@ -0,0 +1,73 @@
+/**
+ * CTF (Conditional Tokens) 服务类型定义
+ */
+
+export type CtfAction = 'SPLIT' | 'MERGE' | 'REDEEM';
+
+/**
+ * 持仓钱包类型
+ * - EOA: 私钥地址直接持仓，直接调用合约
+ * - SAFE: Polymarket Gnosis Safe 代理钱包 (与 PolymarketTrader 的 signatureType=2 一致)，
+ *         由 owner EOA 通过 execTransaction 调用
+ */
+export type CtfWalletType = 'EOA' | 'SAFE';
+
+export interface CtfServiceConfig {
+    rpcUrl: string;
+    /** owner EOA 私钥 (dry-run 可不填) */
+    privateKey?: string;
+    /** 持仓地址 (SAFE 模式为代理钱包地址，EOA 模式为私钥地址) */
+    holderAddress: string;
+    walletType: CtfWalletType;
+    /** 全局 dry-run: 只生成 calldata，不发送交易 */
+    dryRun: boolean;
+    dataApiBaseUrl: string;
+}
+
+/**
+ * 单个合约调用
+ */
+export interface CtfCall {
+    to: string;
+    data: string;
+    description: string;
+}
+
+/**
+ * 操作结果 (dry-run 时 txHashes 为空)
+ */
+export interface CtfTxResult {
+    action: CtfAction;
+    conditionId: string;
+    negRisk: boolean;
+    /** shares (MERGE/SPLIT) 或各 outcome 赎回数量 (REDEEM) */
+    amount: number;
+    dryRun: boolean;
+    /** 业务调用 (含必要的 approve) */
+    calls: CtfCall[];
+    /** 实际从 EOA 发出的交易 (SAFE 模式为 execTransaction 包装) */
+    transactions: CtfCall[];
+    txHashes: string[];
+}
+
+/**
+ * Data API 持仓 (按 condition 聚合 YES/NO)
+ */
+export interface CtfConditionPosition {
+    conditionId: string;
+    title: string;
+    negRisk: boolean;
+    redeemable: boolean;
+    yesTokenId: string | null;
+    noTokenId: string | null;
+    yesShares: number;
+    noShares: number;
+    /** min(YES, NO)，可合并回 USDC 的份额 */
+    mergeableShares: number;
+}
+
+export interface CtfOperationOptions {
+    negRisk?: boolean;
+    /** 覆盖全局 dryRun */
+    dryRun?: boolean;
+}
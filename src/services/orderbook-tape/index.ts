@@ -0,0 +1,10 @@
+/**
+ * Orderbook Tape 模块导出
+ *
+ * 订单簿录制与离线回放
+ */
+
+export * from './types.js';
+export { TapeWriter, readTapeFile, listTapeFiles, getTapeFileName, TAPE_FILE_EXTENSION, type TapeHeaderProvider } from './tape-file.js';
+export { OrderbookRecorder, getOrderbookRecorder, initOrderbookRecorder, stopOrderbookRecorder } from './recorder.js';
+export { OrderbookReplayDriver, type ReplayTargets } from './replay.js';
@@ -0,0 +1,171 @@
+/**
+ * Orderbook Recorder - 订单簿录制
+ *
+ * 录制来源:
+ * - Predict: PredictOrderbookCache.onUpdate (每次缓存更新的完整快照)
+ * - Polymarket: PolymarketWebSocketClient 原始消息 (初始快照数组 / book / price_change)
+ *
+ * 录制只做追加写入，不影响实时链路；写入失败仅打印日志
+ */
+
+import type { PredictOrderbookCache, CachedOrderbook } from '../predict-orderbook-cache.js';
+import type { PolymarketWebSocketClient } from '../../polymarket/ws-client.js';
+import { TapeWriter } from './tape-file.js';
+import type {
+    OrderbookRecorderConfig,
+    OrderbookRecorderStats,
+    TapeMarketPair,
+    TapeRecord,
+} from './types.js';
+
+const DEFAULT_CONFIG: OrderbookRecorderConfig = {
+    dir: './data/orderbook-tapes',
+    rotateIntervalMs: 60 * 60 * 1000,
+    flushIntervalMs: 1000,
+    includeRest: false,
+};
+
+const RECORDED_POLY_EVENTS = new Set(['book', 'price_change']);
+
+export class OrderbookRecorder {
+    private readonly config: OrderbookRecorderConfig;
+    private readonly writer: TapeWriter;
+    private flushTimer: ReturnType<typeof setInterval> | null = null;
+    private stopped = false;
+    private pairs: TapeMarketPair[] | null = null;
+
+    private predictCache: PredictOrderbookCache | null = null;
+    private polyClient: PolymarketWebSocketClient | null = null;
+    private polyListenerId: string | null = null;
+
+    private stats: OrderbookRecorderStats = {
+        currentFile: null,
+        predictRecords: 0,
+        polymarketRecords: 0,
+        metaRecords: 0,
+        startedAt: Date.now(),
+    };
+
+    private readonly onPredictUpdate = (marketId: number, book: CachedOrderbook): void => {
+        if (book.source === 'rest' && !this.config.includeRest) return;
+        this.write({
+            ts: Date.now(),
+            type: 'predict',
+            marketId,
+            bids: book.bids.map(l => [l.price, l.size]),
+            asks: book.asks.map(l => [l.price, l.size]),
+            source: book.source,
+        });
+        this.stats.predictRecords++;
+    };
+
+    private readonly onPolymarketMessage = (raw: string, message: unknown): void => {
+        if (!Array.isArray(message)) {
+            const eventType = (message as { event_type?: string } | null)?.event_type;
+            if (!eventType || !RECORDED_POLY_EVENTS.has(eventType)) return;
+        }
+        this.write({ ts: Date.now(), type: 'polymarket', raw });
+        this.stats.polymarketRecords++;
+    };
+
+    constructor(config: Partial<OrderbookRecorderConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+        this.writer = new TapeWriter(this.config.dir, this.config.rotateIntervalMs, ts => this.metaHeader(ts));
+        this.flushTimer = setInterval(() => this.writer.flush(), this.config.flushIntervalMs);
+        this.flushTimer.unref?.();
+        console.log(`[OrderbookRecorder] 录制已启动，目录: ${this.config.dir}`);
+    }
+
+    attachPredictCache(cache: PredictOrderbookCache): void {
+        if (this.predictCache) {
+            this.predictCache.offUpdate(this.onPredictUpdate);
+        }
+        this.predictCache = cache;
+        cache.onUpdate(this.onPredictUpdate);
+    }
+
+    attachPolymarketWs(client: PolymarketWebSocketClient): void {
+        if (this.polyClient && this.polyListenerId) {
+            this.polyClient.removeRawMessageListener(this.polyListenerId);
+        }
+        this.polyClient = client;
+        this.polyListenerId = client.addRawMessageListener(this.onPolymarketMessage);
+    }
+
+    /**
+     * 记录市场对元数据，市场列表变化时应重新调用
+     * 最近一次的市场对会在每个轮转文件开头重新写入
+     */
+    recordMarketPairs(pairs: TapeMarketPair[]): void {
+        this.pairs = pairs;
+        this.write({ ts: Date.now(), type: 'meta', pairs });
+        this.stats.metaRecords++;
+    }
+
+    getStats(): OrderbookRecorderStats {
+        return { ...this.stats, currentFile: this.writer.getCurrentFile() };
+    }
+
+    async stop(): Promise<void> {
+        if (this.stopped) return;
+        this.stopped = true;
+
+        if (this.flushTimer) {
+            clearInterval(this.flushTimer);
+            this.flushTimer = null;
+        }
+        if (this.predictCache) {
+            this.predictCache.offUpdate(this.onPredictUpdate);
+            this.predictCache = null;
+        }
+        if (this.polyClient && this.polyListenerId) {
+            this.polyClient.removeRawMessageListener(this.polyListenerId);
+        }
+        this.polyClient = null;
+        this.polyListenerId = null;
+
+        await this.writer.close();
+        console.log(`[OrderbookRecorder] 录制已停止 (predict=${this.stats.predictRecords}, polymarket=${this.stats.polymarketRecords})`);
+    }
+
+    private metaHeader(ts: number): TapeRecord | null {
+        if (!this.pairs) return null;
+        this.stats.metaRecords++;
+        return { ts, type: 'meta', pairs: this.pairs };
+    }
+
+    private write(record: TapeRecord): void {
+        if (this.stopped) return;
+        try {
+            this.writer.write(record);
+        } catch (err: any) {
+            console.error('[OrderbookRecorder] 记录失败:', err?.message || err);
+        }
+    }
+}
+
+// ============================================================================
+// 单例
+// ============================================================================
+
+let instance: OrderbookRecorder | null = null;
+
+export function getOrderbookRecorder(): OrderbookRecorder | null {
+    return instance;
+}
+
+export function initOrderbookRecorder(config: Partial<OrderbookRecorderConfig> = {}): OrderbookRecorder {
+    if (instance) {
+        instance.stop().catch(() => { /* ignore */ });
+    }
+    instance = new OrderbookRecorder(config);
+    return instance;
+}
+
+export async function stopOrderbookRecorder(): Promise<void> {
+    if (instance) {
+        const recorder = instance;
+        instance = null;
+        await recorder.stop();
+    }
+}
@@ -0,0 +1,188 @@
+/**
+ * Orderbook Replay Driver - 订单簿回放
+ *
+ * 将录制的 tape 按原始时间间隔 (可加速) 重新灌入与实盘相同的缓存:
+ * - Predict 记录 → PredictOrderbookCache.updateFromExternal
+ * - Polymarket 记录 → PolymarketWebSocketClient.injectMessage (走原始消息处理路径)
+ *
+ * 每条记录应用后触发 'record' 事件，此时缓存已是该时刻的状态，
+ * 监听方可直接在回调中跑 calculateDepth / 机会检测 / 执行器。
+ *
+ * 指定 fromTs 时，起点之前的记录 (meta / 全量快照 / 增量) 仍会应用到缓存 (预热)，
+ * 只是不等待、不触发 'advance' / 'record'，保证起点处的订单簿是完整状态。
+ *
+ * 事件:
+ * - 'advance' (ts) 应用记录之前触发，此时缓存仍是上一条记录后的状态 (用于处理到期的定时动作)
+ * - 'meta'   (pairs: TapeMarketPair[], ts) 预热阶段也会触发
+ * - 'record' (record: TapeRecord)
+ * - 'end'    (stats: ReplayStats)
+ */
+
+import { EventEmitter } from 'events';
+import * as path from 'path';
+import type { PredictOrderbookCache } from '../predict-orderbook-cache.js';
+import type { PolymarketWebSocketClient } from '../../polymarket/ws-client.js';
+import { readTapeFile } from './tape-file.js';
+import type { ReplayOptions, ReplayStats, TapeRecord } from './types.js';
+
+export interface ReplayTargets {
+    predictCache?: PredictOrderbookCache | null;
+    polymarketWs?: PolymarketWebSocketClient | null;
+}
+
+const DEFAULT_OPTIONS: ReplayOptions = {
+    speed: 1,
+};
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+export class OrderbookReplayDriver extends EventEmitter {
+    private readonly targets: ReplayTargets;
+    private readonly options: ReplayOptions;
+    private stopped = false;
+    private running = false;
+
+    // 回放时钟: 当前记录的录制时间
+    private tapeNow: number | null = null;
+
+    constructor(targets: ReplayTargets, options: Partial<ReplayOptions> = {}) {
+        super();
+        this.targets = targets;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        if (!Number.isFinite(this.options.speed) || this.options.speed < 0) {
+            throw new Error(`Invalid replay speed: ${this.options.speed}`);
+        }
+    }
+
+    /**
+     * 当前回放时刻 (录制时间戳)，尚未开始时返回 null
+     */
+    now(): number | null {
+        return this.tapeNow;
+    }
+
+    stop(): void {
+        this.stopped = true;
+    }
+
+    /**
+     * 按顺序回放多个 tape 文件 (调用方保证文件按时间排序，见 listTapeFiles)
+     */
+    async run(files: string[]): Promise<ReplayStats> {
+        if (this.running) {
+            throw new Error('Replay already running');
+        }
+        this.running = true;
+        this.stopped = false;
+
+        const stats: ReplayStats = {
+            files: 0,
+            records: 0,
+            predictRecords: 0,
+            polymarketRecords: 0,
+            metaRecords: 0,
+            warmupRecords: 0,
+            truncatedFiles: 0,
+            firstTs: null,
+            lastTs: null,
+            elapsedMs: 0,
+        };
+        const wallStart = Date.now();
+
+        // 回放时间轴: virtualElapsed 为已回放的录制时长 (压缩间隙后)
+        let prevTs: number | null = null;
+        let virtualElapsed = 0;
+
+        try {
+            for (const file of files) {
+                if (this.stopped) break;
+                stats.files++;
+                const { records, result } = readTapeFile(file);
+
+                for await (const record of records) {
+                    if (this.stopped) break;
+
+                    // 起点之前: 只应用到缓存，不计时、不触发 'advance' / 'record'
+                    if (this.options.fromTs !== undefined && record.ts < this.options.fromTs) {
+                        stats.warmupRecords++;
+                        this.apply(record, stats);
+                        continue;
+                    }
+                    if (this.options.toTs !== undefined && record.ts > this.options.toTs) {
+                        this.stopped = true;
+                        break;
+                    }
+
+                    if (prevTs !== null) {
+                        let gap = Math.max(0, record.ts - prevTs);
+                        if (this.options.maxGapMs !== undefined) {
+                            gap = Math.min(gap, this.options.maxGapMs);
+                        }
+                        virtualElapsed += gap;
+                    }
+                    prevTs = record.ts;
+
+                    await this.pace(wallStart, virtualElapsed);
+
+                    this.tapeNow = record.ts;
+                    this.emit('advance', record.ts);
+                    stats.firstTs ??= record.ts;
+                    stats.lastTs = record.ts;
+                    stats.records++;
+                    this.apply(record, stats);
+                    this.emit('record', record);
+                }
+
+                if (result.truncated) {
+                    stats.truncatedFiles++;
+                    console.warn(`[Replay] 文件尾部不完整，已跳过截断部分: ${path.basename(file)}`);
+                }
+            }
+        } finally {
+            this.running = false;
+            stats.elapsedMs = Date.now() - wallStart;
+        }
+
+        this.emit('end', stats);
+        return stats;
+    }
+
+    private apply(record: TapeRecord, stats: ReplayStats): void {
+        switch (record.type) {
+            case 'meta':
+                stats.metaRecords++;
+                this.emit('meta', record.pairs, record.ts);
+                break;
+            case 'predict':
+                stats.predictRecords++;
+                this.targets.predictCache?.updateFromExternal(record.marketId, record.bids, record.asks);
+                break;
+            case 'polymarket':
+                stats.polymarketRecords++;
+                this.targets.polymarketWs?.injectMessage(record.raw);
+                break;
+        }
+    }
+
+    /**
+     * 按回放速度等待到该记录的目标时刻
+     * speed=0 时不等待，但每条记录让出一次事件循环，保证异步监听方按记录顺序推进
+     */
+    private async pace(wallStart: number, virtualElapsed: number): Promise<void> {
+        if (this.options.speed === 0) {
+            await yieldToEventLoop();
+            return;
+        }
+        const target = wallStart + virtualElapsed / this.options.speed;
+        const wait = target - Date.now();
+        if (wait > 1) {
+            await sleep(wait);
+        }
+    }
+}
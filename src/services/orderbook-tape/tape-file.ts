@@ -0,0 +1,184 @@
+/**
+ * Tape 文件读写
+ *
+ * - 写入: 按时间窗口轮转的 gzip JSONL，已存在的文件以追加新 gzip member 的方式续写
+ *   每个轮转文件开头写入文件头记录 (meta)，单个文件即可独立回放
+ * - 读取: 逐行解析，兼容多 member 文件；进程崩溃导致的尾部截断只丢弃最后不完整的部分
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { PassThrough } from 'stream';
+import * as zlib from 'zlib';
+import type { TapeRecord } from './types.js';
+
+export const TAPE_FILE_EXTENSION = '.jsonl.gz';
+
+/**
+ * 按轮转窗口生成文件名: orderbook-YYYYMMDD-HHmm.jsonl.gz (UTC)
+ * 文件名按字典序即时间顺序
+ */
+export function getTapeFileName(ts: number, rotateIntervalMs: number): string {
+    const windowStart = new Date(Math.floor(ts / rotateIntervalMs) * rotateIntervalMs);
+    const iso = windowStart.toISOString();   // 2025-01-01T08:00:00.000Z
+    const stamp = `${iso.slice(0, 10).replace(/-/g, '')}-${iso.slice(11, 16).replace(':', '')}`;
+    return `orderbook-${stamp}${TAPE_FILE_EXTENSION}`;
+}
+
+/**
+ * 列出 tape 文件 (传入目录则按文件名排序返回目录下所有 tape，传入文件则原样返回)
+ */
+export function listTapeFiles(target: string): string[] {
+    const resolved = path.resolve(target);
+    if (!fs.existsSync(resolved)) {
+        throw new Error(`Tape path not found: ${resolved}`);
+    }
+    if (fs.statSync(resolved).isFile()) {
+        return [resolved];
+    }
+    return fs.readdirSync(resolved)
+        .filter(name => name.endsWith(TAPE_FILE_EXTENSION))
+        .sort()
+        .map(name => path.join(resolved, name));
+}
+
+// ============================================================================
+// TapeWriter
+// ============================================================================
+
+/**
+ * 轮转文件头 (返回 null 表示暂无文件头)
+ */
+export type TapeHeaderProvider = (ts: number) => TapeRecord | null;
+
+export class TapeWriter {
+    private readonly dir: string;
+    private readonly rotateIntervalMs: number;
+    private readonly header: TapeHeaderProvider | null;
+    private gzip: zlib.Gzip | null = null;
+    private fileStream: fs.WriteStream | null = null;
+    private currentFile: string | null = null;
+    private currentWindow = -1;
+    private dirty = false;
+
+    constructor(dir: string, rotateIntervalMs: number, header: TapeHeaderProvider | null = null) {
+        this.dir = dir;
+        this.rotateIntervalMs = rotateIntervalMs;
+        this.header = header;
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    getCurrentFile(): string | null {
+        return this.currentFile;
+    }
+
+    write(record: TapeRecord): void {
+        const window = Math.floor(record.ts / this.rotateIntervalMs);
+        if (window !== this.currentWindow) {
+            // 由 meta 记录触发的轮转无需再写文件头
+            this.rotate(record.ts, record.type !== 'meta');
+            this.currentWindow = window;
+        }
+        this.gzip!.write(JSON.stringify(record) + '\n');
+        this.dirty = true;
+    }
+
+    /**
+     * 刷新压缩缓冲区 (Z_SYNC_FLUSH)，使已写入的数据可被读取
+     */
+    flush(): void {
+        if (!this.gzip || !this.dirty) return;
+        this.gzip.flush(zlib.constants.Z_SYNC_FLUSH);
+        this.dirty = false;
+    }
+
+    async close(): Promise<void> {
+        const gzip = this.gzip;
+        const fileStream = this.fileStream;
+        this.gzip = null;
+        this.fileStream = null;
+        this.currentFile = null;
+        this.currentWindow = -1;
+        if (!gzip || !fileStream) return;
+
+        await new Promise<void>((resolve) => {
+            fileStream.once('close', () => resolve());
+            fileStream.once('error', () => resolve());
+            gzip.end();
+        });
+    }
+
+    private rotate(ts: number, writeHeader: boolean): void {
+        if (this.gzip) {
+            // 旧文件异步收尾，不阻塞写入
+            this.close().catch(() => { /* ignore */ });
+        }
+
+        this.currentFile = path.join(this.dir, getTapeFileName(ts, this.rotateIntervalMs));
+        this.fileStream = fs.createWriteStream(this.currentFile, { flags: 'a' });
+        this.fileStream.on('error', (err) => {
+            console.error(`[OrderbookRecorder] 写入失败 ${this.currentFile}:`, err.message);
+        });
+        this.gzip = zlib.createGzip();
+        this.gzip.pipe(this.fileStream);
+
+        const header = writeHeader ? this.header?.(ts) : null;
+        if (header) {
+            this.gzip.write(JSON.stringify(header) + '\n');
+        }
+    }
+}
+
+// ============================================================================
+// readTapeFile
+// ============================================================================
+
+export interface TapeReadResult {
+    /** 文件尾部是否被截断 (录制进程未正常关闭) */
+    truncated: boolean;
+}
+
+/**
+ * 逐条读取 tape 记录
+ * 返回的 result 在迭代结束后才有效
+ */
+export function readTapeFile(file: string): { records: AsyncGenerator<TapeRecord>; result: TapeReadResult } {
+    const result: TapeReadResult = { truncated: false };
+
+    async function* iterate(): AsyncGenerator<TapeRecord> {
+        const input = fs.createReadStream(file);
+        const gunzip = zlib.createGunzip();
+        // 解压错误不传给 readline (否则迭代直接抛错)，而是结束输出流，保留已解出的记录
+        const output = new PassThrough();
+        const rl = readline.createInterface({ input: output, crlfDelay: Infinity });
+
+        gunzip.on('error', (err: NodeJS.ErrnoException) => {
+            // 未 flush 的尾部会触发 unexpected end of file，视为截断
+            result.truncated = true;
+            if (err.code !== 'Z_BUF_ERROR') {
+                console.warn(`[Tape] 解压失败 ${path.basename(file)}: ${err.message}`);
+            }
+            output.end();
+        });
+        input.pipe(gunzip).pipe(output);
+
+        try {
+            for await (const line of rl) {
+                if (!line) continue;
+                try {
+                    yield JSON.parse(line) as TapeRecord;
+                } catch {
+                    // 截断时最后一行可能不完整
+                    result.truncated = true;
+                }
+            }
+        } finally {
+            input.destroy();
+            gunzip.destroy();
+            output.destroy();
+        }
+    }
+
+    return { records: iterate(), result };
+}
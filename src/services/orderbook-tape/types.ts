@@ -0,0 +1,93 @@
+/**
+ * Orderbook Tape 类型定义
+ *
+ * 录制文件为 gzip 压缩的 JSONL，每行一条记录，ts 为录制时的本地时间戳 (ms)
+ */
+
+/**
+ * 市场对元数据 (回放时用于还原 Predict ↔ Polymarket 对应关系)
+ */
+export interface TapeMarketPair {
+    predictId: number;
+    predictTitle: string;
+    polymarketConditionId: string;
+    polymarketTokenId?: string;     // 对冲订单簿 token (通常是 NO)
+    polymarketYesTokenId?: string;
+    polymarketNoTokenId?: string;
+    feeRateBps: number;
+    isInverted: boolean;
+}
+
+export interface TapeMetaRecord {
+    ts: number;
+    type: 'meta';
+    pairs: TapeMarketPair[];
+}
+
+/**
+ * Predict 订单簿快照 (PredictOrderbookCache.onUpdate 的完整快照)
+ */
+export interface TapePredictRecord {
+    ts: number;
+    type: 'predict';
+    marketId: number;
+    bids: [number, number][];
+    asks: [number, number][];
+    source: 'ws' | 'rest';
+}
+
+/**
+ * Polymarket 原始 WS 消息 (初始快照数组 / book / price_change)
+ */
+export interface TapePolymarketRecord {
+    ts: number;
+    type: 'polymarket';
+    raw: string;
+}
+
+export type TapeRecord = TapeMetaRecord | TapePredictRecord | TapePolymarketRecord;
+
+export interface OrderbookRecorderConfig {
+    /** 录制目录 */
+    dir: string;
+    /** 文件轮转间隔 (ms)，默认 1 小时 */
+    rotateIntervalMs: number;
+    /** 压缩流刷新间隔 (ms)，进程崩溃时最多丢失该时间窗口内的数据 */
+    flushIntervalMs: number;
+    /** 是否录制 Predict REST 兜底快照 (默认仅录制 WS) */
+    includeRest: boolean;
+}
+
+export interface OrderbookRecorderStats {
+    currentFile: string | null;
+    predictRecords: number;
+    polymarketRecords: number;
+    metaRecords: number;
+    startedAt: number;
+}
+
+export interface ReplayOptions {
+    /**
+     * 回放速度: 1 = 按录制时间间隔实时回放, 10 = 10 倍速, 0 = 不等待 (尽快回放)
+     */
+    speed: number;
+    /** 只回放 [fromTs, toTs] 区间内的记录 (fromTs 之前的记录仅用于预热缓存) */
+    fromTs?: number;
+    toTs?: number;
+    /** 录制间隙上限 (ms)，超过时压缩为该值，避免录制中断造成长时间空等 */
+    maxGapMs?: number;
+}
+
+export interface ReplayStats {
+    files: number;
+    records: number;
+    predictRecords: number;
+    polymarketRecords: number;
+    metaRecords: number;
+    /** fromTs 之前仅应用到缓存的记录数 */
+    warmupRecords: number;
+    truncatedFiles: number;
+    firstTs: number | null;
+    lastTs: number | null;
+    elapsedMs: number;
+}
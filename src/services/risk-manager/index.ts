@@ -0,0 +1,25 @@
+/**
+ * Risk Manager 模块导出
+ *
+ * 账户级风控: 每日亏损、平台名义金额、未对冲份额、并发任务数、单市场持仓
+ */
+
+export * from './types.js';
+export {
+    RiskManager,
+    getRiskManager,
+    initRiskManager,
+    stopRiskManager,
+    loadRiskLimitsFromEnv,
+    emptyRiskExposure,
+    mergeRiskExposure,
+    getIntentMarketShares,
+} from './risk-manager.js';
+export {
+    computeTaskExposure,
+    getTaskRiskIntent,
+    getBasketRiskIntent,
+    getTaskRealizedPnl,
+    isTaskRiskTerminal,
+} from './task-exposure.js';
+export type { TaskExposureOptions } from './task-exposure.js';
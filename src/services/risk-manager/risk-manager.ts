@@ -0,0 +1,536 @@
+/**
+ * Risk Manager - 账户级风控
+ *
+ * 限额:
+ * - 当日已实现亏损 (默认取 TradingConfig.emergencyStopLoss)
+ * - 每个平台的总名义金额
+ * - 未对冲份额
+ * - 并发任务数
+ * - 单市场持仓
+ *
+ * Dashboard 和做市 CLI 是两个进程，各自写 data/risk/<source>.json (当日盈亏 + 敞口快照)，
+ * 读取对方文件汇总为账户级视图。熔断开关写在 data/risk/kill-switch.json，
+ * 任一进程触发后所有进程都会停止开仓，重启后依然生效，需手动解除。
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_CONFIG, loadConfigFromEnv } from '../../trading/config.js';
+import type {
+    RiskCheckResult,
+    RiskExposure,
+    RiskHaltState,
+    RiskIntent,
+    RiskLimits,
+    RiskLimitType,
+    RiskManagerConfig,
+    RiskSource,
+    RiskSourceState,
+    RiskStatus,
+} from './types.js';
+
+const ALL_SOURCES: RiskSource[] = ['dashboard', 'market-maker'];
+const KILL_SWITCH_FILE = 'kill-switch.json';
+
+const DEFAULT_MANAGER_CONFIG: Omit<RiskManagerConfig, 'source' | 'limits'> = {
+    stateDir: './data/risk',
+    evaluateIntervalMs: 5000,
+    unhedgedGraceMs: 60_000,
+    peerStaleMs: 60_000,
+};
+
+/**
+ * 从环境变量读取限额 (运行时读取，start-dashboard 的 loadEnv 晚于模块导入)
+ */
+export function loadRiskLimitsFromEnv(): RiskLimits {
+    const tradingConfig = { ...DEFAULT_CONFIG, ...loadConfigFromEnv() };
+    const read = (name: string, fallback: number): number => {
+        const raw = process.env[name];
+        if (raw === undefined || raw === '') return fallback;
+        const value = Number(raw);
+        return Number.isFinite(value) && value >= 0 ? value : fallback;
+    };
+    return {
+        maxDailyLoss: read('RISK_MAX_DAILY_LOSS', tradingConfig.emergencyStopLoss),
+        maxPredictNotional: read('RISK_MAX_PREDICT_NOTIONAL', 0),
+        maxPolymarketNotional: read('RISK_MAX_POLYMARKET_NOTIONAL', 0),
+        maxUnhedgedShares: read('RISK_MAX_UNHEDGED_SHARES', 0),
+        maxConcurrentTasks: read('RISK_MAX_CONCURRENT_TASKS', 0),
+        maxMarketPosition: read('RISK_MAX_MARKET_POSITION', 0),
+    };
+}
+
+export function emptyRiskExposure(): RiskExposure {
+    return {
+        predictNotional: 0,
+        polymarketNotional: 0,
+        unhedgedShares: 0,
+        activeTasks: 0,
+        marketPositions: {},
+    };
+}
+
+/**
+ * 把 other 累加到 target (同进程多个敞口来源合并时使用)
+ */
+export function mergeRiskExposure(target: RiskExposure, other: RiskExposure): void {
+    target.predictNotional += other.predictNotional;
+    target.polymarketNotional += other.polymarketNotional;
+    target.unhedgedShares += other.unhedgedShares;
+    target.activeTasks += other.activeTasks;
+    for (const [marketId, shares] of Object.entries(other.marketPositions)) {
+        target.marketPositions[marketId] = (target.marketPositions[marketId] || 0) + shares;
+    }
+}
+
+/**
+ * 新增敞口涉及的各 Predict 市场份额
+ */
+export function getIntentMarketShares(intent: RiskIntent): Record<string, number> {
+    return intent.marketShares ?? (intent.predictShares > 0 ? { [String(intent.marketId)]: intent.predictShares } : {});
+}
+
+function getTradingDay(ts: number = Date.now()): string {
+    const d = new Date(ts);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function emptyHaltState(): RiskHaltState {
+    return { halted: false, limit: null, reason: null, source: null, haltedAt: null, resumedAt: null };
+}
+
+function readJson<T>(file: string): T | null {
+    try {
+        if (!fs.existsSync(file)) return null;
+        return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+    } catch (error: any) {
+        console.warn(`[RiskManager] 读取 ${file} 失败: ${error?.message || error}`);
+        return null;
+    }
+}
+
+function writeJsonAtomic(file: string, data: unknown): void {
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, file);
+}
+
+function formatUsd(value: number): string {
+    return `$${value.toFixed(2)}`;
+}
+
+export class RiskManager extends EventEmitter {
+    private readonly config: RiskManagerConfig;
+    private state: RiskSourceState;
+    private countedRefs: Set<string>;
+    private halt: RiskHaltState = emptyHaltState();
+    private peers: Map<RiskSource, RiskSourceState> = new Map();
+    private exposureProvider: (() => RiskExposure) | null = null;
+    private evaluateTimer: ReturnType<typeof setInterval> | null = null;
+    private unhedgedSince: number | null = null;
+
+    constructor(config: Partial<RiskManagerConfig> & { source: RiskSource }) {
+        super();
+        this.config = {
+            ...DEFAULT_MANAGER_CONFIG,
+            limits: loadRiskLimitsFromEnv(),
+            ...config,
+        };
+        fs.mkdirSync(this.config.stateDir, { recursive: true });
+
+        const today = getTradingDay();
+        const saved = readJson<RiskSourceState>(this.getStateFile(this.config.source));
+        this.state = saved && saved.tradingDay === today
+            ? { ...saved, exposure: emptyRiskExposure() }
+            : {
+                source: this.config.source,
+                tradingDay: today,
+                realizedPnl: 0,
+                countedRefs: [],
+                exposure: emptyRiskExposure(),
+                updatedAt: Date.now(),
+            };
+        this.countedRefs = new Set(this.state.countedRefs);
+        this.halt = readJson<RiskHaltState>(this.getKillSwitchFile()) ?? emptyHaltState();
+        this.reloadPeers();
+    }
+
+    /**
+     * 设置本进程的敞口来源 (Dashboard: 任务；做市: 引擎持仓 + 挂单)
+     */
+    setExposureProvider(provider: () => RiskExposure): void {
+        this.exposureProvider = provider;
+    }
+
+    /**
+     * 启动定时评估；重启时若仍处于熔断状态会再次发出 halt 事件
+     */
+    start(): void {
+        if (this.evaluateTimer) return;
+        const limits = this.config.limits;
+        console.log(
+            `[RiskManager] 启动 (source=${this.config.source}): ` +
+            `dailyLoss=${limits.maxDailyLoss || '∞'} predictNotional=${limits.maxPredictNotional || '∞'} ` +
+            `polyNotional=${limits.maxPolymarketNotional || '∞'} unhedged=${limits.maxUnhedgedShares || '∞'} ` +
+            `tasks=${limits.maxConcurrentTasks || '∞'} marketPosition=${limits.maxMarketPosition || '∞'}`
+        );
+        if (this.halt.halted) {
+            console.warn(`[RiskManager] ⛔ 熔断仍然生效: ${this.halt.reason} (需手动解除)`);
+            this.emit('halt', this.getHaltState());
+        }
+        this.evaluate();
+        this.evaluateTimer = setInterval(() => this.evaluate(), this.config.evaluateIntervalMs);
+    }
+
+    stop(): void {
+        if (this.evaluateTimer) {
+            clearInterval(this.evaluateTimer);
+            this.evaluateTimer = null;
+        }
+        this.refreshExposure();
+        this.persistState();
+        this.removeAllListeners();
+    }
+
+    // ========================================================================
+    // 查询
+    // ========================================================================
+
+    isHalted(): boolean {
+        return this.halt.halted;
+    }
+
+    getHaltState(): RiskHaltState {
+        return { ...this.halt };
+    }
+
+    getLimits(): RiskLimits {
+        return { ...this.config.limits };
+    }
+
+    /**
+     * 当日已实现盈亏 (所有来源)
+     */
+    getDailyRealizedPnl(): number {
+        let total = this.state.realizedPnl;
+        for (const peer of this.peers.values()) {
+            if (peer.tradingDay === this.state.tradingDay) total += peer.realizedPnl;
+        }
+        return total;
+    }
+
+    /**
+     * 账户级敞口 (本进程实时 + 其他进程最近快照)
+     */
+    getExposure(): RiskExposure {
+        const total = emptyRiskExposure();
+        mergeRiskExposure(total, this.exposureProvider ? this.exposureProvider() : this.state.exposure);
+        const now = Date.now();
+        for (const peer of this.peers.values()) {
+            if (now - peer.updatedAt > this.config.peerStaleMs) continue;
+            mergeRiskExposure(total, peer.exposure);
+        }
+        return total;
+    }
+
+    getStatus(): RiskStatus {
+        return {
+            source: this.config.source,
+            limits: this.getLimits(),
+            halt: this.getHaltState(),
+            tradingDay: this.state.tradingDay,
+            dailyRealizedPnl: this.getDailyRealizedPnl(),
+            exposure: this.getExposure(),
+            sources: [{ ...this.state, countedRefs: [] }, ...Array.from(this.peers.values()).map(p => ({ ...p, countedRefs: [] }))],
+        };
+    }
+
+    // ========================================================================
+    // 开仓前检查
+    // ========================================================================
+
+    /**
+     * 检查新增敞口是否超限 (不传 intent 时只检查熔断和当前敞口)
+     */
+    check(intent?: RiskIntent): RiskCheckResult {
+        if (this.halt.halted) {
+            return { allowed: false, limit: this.halt.limit ?? 'MANUAL', reason: `风控熔断中: ${this.halt.reason}` };
+        }
+
+        const limits = this.config.limits;
+        const dailyPnl = this.getDailyRealizedPnl();
+        if (limits.maxDailyLoss > 0 && -dailyPnl >= limits.maxDailyLoss) {
+            return { allowed: false, limit: 'DAILY_LOSS', reason: `当日亏损 ${formatUsd(-dailyPnl)} >= ${formatUsd(limits.maxDailyLoss)}` };
+        }
+
+        const exposure = this.getExposure();
+        const replaced = intent?.replaces;
+        const predictNotional = exposure.predictNotional + (intent?.predictNotional ?? 0) - (replaced?.predictNotional ?? 0);
+        if (limits.maxPredictNotional > 0 && predictNotional > limits.maxPredictNotional) {
+            return { allowed: false, limit: 'PREDICT_NOTIONAL', reason: `Predict 名义金额 ${formatUsd(predictNotional)} > ${formatUsd(limits.maxPredictNotional)}` };
+        }
+        const polymarketNotional = exposure.polymarketNotional + (intent?.polymarketNotional ?? 0) - (replaced?.polymarketNotional ?? 0);
+        if (limits.maxPolymarketNotional > 0 && polymarketNotional > limits.maxPolymarketNotional) {
+            return { allowed: false, limit: 'POLYMARKET_NOTIONAL', reason: `Polymarket 名义金额 ${formatUsd(polymarketNotional)} > ${formatUsd(limits.maxPolymarketNotional)}` };
+        }
+        if (limits.maxUnhedgedShares > 0 && exposure.unhedgedShares > limits.maxUnhedgedShares) {
+            return { allowed: false, limit: 'UNHEDGED_SHARES', reason: `未对冲 ${exposure.unhedgedShares.toFixed(1)} shares > ${limits.maxUnhedgedShares}` };
+        }
+        const activeTasks = exposure.activeTasks + (intent?.newTask ? 1 : 0);
+        if (limits.maxConcurrentTasks > 0 && activeTasks > limits.maxConcurrentTasks) {
+            return { allowed: false, limit: 'CONCURRENT_TASKS', reason: `并发任务 ${activeTasks} > ${limits.maxConcurrentTasks}` };
+        }
+        if (intent && limits.maxMarketPosition > 0) {
+            const removed = replaced ? getIntentMarketShares(replaced) : {};
+            for (const [marketId, shares] of Object.entries(getIntentMarketShares(intent))) {
+                const position = (exposure.marketPositions[marketId] || 0) + shares - (removed[marketId] || 0);
+                if (position > limits.maxMarketPosition) {
+                    return { allowed: false, limit: 'MARKET_POSITION', reason: `市场 ${marketId} 持仓 ${position.toFixed(1)} > ${limits.maxMarketPosition}` };
+                }
+            }
+        }
+
+        return { allowed: true };
+    }
+
+    // ========================================================================
+    // 盈亏记录
+    // ========================================================================
+
+    /**
+     * 记录已实现盈亏
+     * @param refId 去重引用 (如 task:<id>)，同一交易日内只计一次
+     * @returns 是否计入
+     */
+    recordRealizedPnl(amount: number, refId?: string): boolean {
+        if (!Number.isFinite(amount) || amount === 0) return false;
+        this.rollTradingDay();
+        if (refId) {
+            if (this.countedRefs.has(refId)) return false;
+            this.countedRefs.add(refId);
+            this.state.countedRefs.push(refId);
+        }
+        this.state.realizedPnl += amount;
+        this.persistState();
+        this.checkDailyLoss();
+        return true;
+    }
+
+    // ========================================================================
+    // 熔断开关
+    // ========================================================================
+
+    /**
+     * 手动熔断
+     */
+    haltManually(reason: string): void {
+        this.trip('MANUAL', reason);
+    }
+
+    /**
+     * 手动解除熔断 (若限额仍超出，下一次评估会再次触发)
+     */
+    resume(): void {
+        if (!this.halt.halted) return;
+        this.halt = { ...emptyHaltState(), resumedAt: Date.now() };
+        this.unhedgedSince = null;
+        this.persistHalt();
+        console.log(`[RiskManager] ✅ 熔断已解除 (source=${this.config.source})`);
+        this.emit('resume', this.getHaltState());
+    }
+
+    // ========================================================================
+    // 定时评估
+    // ========================================================================
+
+    /**
+     * 同步其他进程状态，刷新本进程快照，并检查已发生的超限
+     */
+    evaluate(): void {
+        this.rollTradingDay();
+        this.reloadHalt();
+        this.reloadPeers();
+        this.refreshExposure();
+        this.persistState();
+
+        if (this.halt.halted) return;
+        if (this.checkDailyLoss()) return;
+
+        const limits = this.config.limits;
+        const exposure = this.getExposure();
+
+        if (limits.maxPredictNotional > 0 && exposure.predictNotional > limits.maxPredictNotional) {
+            this.trip('PREDICT_NOTIONAL', `Predict 名义金额 ${formatUsd(exposure.predictNotional)} > ${formatUsd(limits.maxPredictNotional)}`);
+            return;
+        }
+        if (limits.maxPolymarketNotional > 0 && exposure.polymarketNotional > limits.maxPolymarketNotional) {
+            this.trip('POLYMARKET_NOTIONAL', `Polymarket 名义金额 ${formatUsd(exposure.polymarketNotional)} > ${formatUsd(limits.maxPolymarketNotional)}`);
+            return;
+        }
+        if (limits.maxConcurrentTasks > 0 && exposure.activeTasks > limits.maxConcurrentTasks) {
+            this.trip('CONCURRENT_TASKS', `并发任务 ${exposure.activeTasks} > ${limits.maxConcurrentTasks}`);
+            return;
+        }
+        if (limits.maxMarketPosition > 0) {
+            for (const [marketId, shares] of Object.entries(exposure.marketPositions)) {
+                if (shares > limits.maxMarketPosition) {
+                    this.trip('MARKET_POSITION', `市场 ${marketId} 持仓 ${shares.toFixed(1)} > ${limits.maxMarketPosition}`);
+                    return;
+                }
+            }
+        }
+
+        // 未对冲敞口: 成交到对冲完成之间有正常的在途敞口，持续超限才熔断
+        if (limits.maxUnhedgedShares > 0 && exposure.unhedgedShares > limits.maxUnhedgedShares) {
+            const now = Date.now();
+            if (this.unhedgedSince === null) {
+                this.unhedgedSince = now;
+            } else if (now - this.unhedgedSince >= this.config.unhedgedGraceMs) {
+                this.trip(
+                    'UNHEDGED_SHARES',
+                    `未对冲 ${exposure.unhedgedShares.toFixed(1)} shares > ${limits.maxUnhedgedShares} ` +
+                    `(持续 ${Math.round((now - this.unhedgedSince) / 1000)}s)`
+                );
+            }
+        } else {
+            this.unhedgedSince = null;
+        }
+    }
+
+    // ========================================================================
+    // 私有方法
+    // ========================================================================
+
+    private checkDailyLoss(): boolean {
+        const limit = this.config.limits.maxDailyLoss;
+        if (this.halt.halted || limit <= 0) return false;
+        const dailyPnl = this.getDailyRealizedPnl();
+        if (-dailyPnl < limit) return false;
+        this.trip('DAILY_LOSS', `当日亏损 ${formatUsd(-dailyPnl)} >= ${formatUsd(limit)}`);
+        return true;
+    }
+
+    private trip(limit: RiskLimitType, reason: string): void {
+        if (this.halt.halted) return;
+        this.halt = {
+            halted: true,
+            limit,
+            reason,
+            source: this.config.source,
+            haltedAt: Date.now(),
+            resumedAt: null,
+        };
+        this.persistHalt();
+        console.error(`[RiskManager] ⛔ 风控熔断 (${limit}): ${reason}`);
+        this.emit('halt', this.getHaltState());
+    }
+
+    private rollTradingDay(): void {
+        const today = getTradingDay();
+        if (this.state.tradingDay === today) return;
+        console.log(`[RiskManager] 交易日切换 ${this.state.tradingDay} → ${today}，当日盈亏清零 (昨日 ${formatUsd(this.state.realizedPnl)})`);
+        this.state = {
+            ...this.state,
+            tradingDay: today,
+            realizedPnl: 0,
+            countedRefs: [],
+        };
+        this.countedRefs.clear();
+    }
+
+    /**
+     * 其他进程可能触发或解除熔断
+     */
+    private reloadHalt(): void {
+        const saved = readJson<RiskHaltState>(this.getKillSwitchFile());
+        if (!saved || saved.halted === this.halt.halted) {
+            if (saved) this.halt = saved;
+            return;
+        }
+        this.halt = saved;
+        this.unhedgedSince = null;
+        if (saved.halted) {
+            console.error(`[RiskManager] ⛔ 风控熔断 (${saved.source} 触发, ${saved.limit}): ${saved.reason}`);
+            this.emit('halt', this.getHaltState());
+        } else {
+            console.log(`[RiskManager] ✅ 熔断已被解除`);
+            this.emit('resume', this.getHaltState());
+        }
+    }
+
+    private reloadPeers(): void {
+        for (const source of ALL_SOURCES) {
+            if (source === this.config.source) continue;
+            const peer = readJson<RiskSourceState>(this.getStateFile(source));
+            if (peer) {
+                this.peers.set(source, peer);
+            } else {
+                this.peers.delete(source);
+            }
+        }
+    }
+
+    private refreshExposure(): void {
+        if (!this.exposureProvider) return;
+        try {
+            this.state.exposure = this.exposureProvider();
+        } catch (error: any) {
+            console.warn(`[RiskManager] 获取敞口失败: ${error?.message || error}`);
+        }
+    }
+
+    private persistState(): void {
+        this.state.updatedAt = Date.now();
+        try {
+            writeJsonAtomic(this.getStateFile(this.config.source), this.state);
+        } catch (error: any) {
+            console.error(`[RiskManager] 保存状态失败: ${error?.message || error}`);
+        }
+    }
+
+    private persistHalt(): void {
+        try {
+            writeJsonAtomic(this.getKillSwitchFile(), this.halt);
+        } catch (error: any) {
+            console.error(`[RiskManager] 保存熔断状态失败: ${error?.message || error}`);
+        }
+    }
+
+    private getStateFile(source: RiskSource): string {
+        return path.join(this.config.stateDir, `${source}.json`);
+    }
+
+    private getKillSwitchFile(): string {
+        return path.join(this.config.stateDir, KILL_SWITCH_FILE);
+    }
+}
+
+// ============================================================================
+// 单例
+// ============================================================================
+
+let instance: RiskManager | null = null;
+
+/**
+ * 未初始化时返回 null (调用方跳过风控检查)
+ */
+export function getRiskManager(): RiskManager | null {
+    return instance;
+}
+
+export function initRiskManager(config: Partial<RiskManagerConfig> & { source: RiskSource }): RiskManager {
+    if (instance) {
+        instance.stop();
+    }
+    instance = new RiskManager(config);
+    return instance;
+}
+
+export function stopRiskManager(): void {
+    if (instance) {
+        instance.stop();
+        instance = null;
+    }
+}
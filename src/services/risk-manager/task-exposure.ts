@@ -0,0 +1,161 @@
+/**
+ * Dashboard 任务 → 风控敞口
+ *
+ * - 名义金额按任务计划量计算 (PENDING 任务也占用额度)
+ * - SELL 任务为平仓，不新增敞口
+ * - 篮子任务按各腿扫单限价 + 手续费分别计入两个平台，持仓计入各 Predict 腿的市场
+ * - 未对冲份额与 start-dashboard 的敞口监控口径一致: predictFilledQty - hedgedQty
+ * - HEDGE_FAILED 任务留下的裸敞口继续计入未对冲份额 (不计并发 / 计划名义金额)，
+ *   直到同市场同方向的 SELL 任务平掉或市场结算
+ */
+
+import type { Task, TaskStatus } from '../../dashboard/types.js';
+import type { BasketTaskLeg } from '../../dashboard/basket/types.js';
+import { emptyRiskExposure, getIntentMarketShares } from './risk-manager.js';
+import type { RiskExposure, RiskIntent } from './types.js';
+
+const INACTIVE_STATUSES = new Set<TaskStatus>([
+    'COMPLETED',
+    'FAILED',
+    'CANCELLED',
+    'TIMEOUT_CANCELLED',
+    'UNWIND_COMPLETED',
+]);
+
+export interface TaskExposureOptions {
+    /** Predict 市场是否已结算 (HEDGE_FAILED 残余敞口随结算消失) */
+    isMarketResolved?: (marketId: number) => boolean;
+}
+
+function isRiskActiveTask(task: Task): boolean {
+    return !INACTIVE_STATUSES.has(task.status) && task.status !== 'HEDGE_FAILED';
+}
+
+/** 过滤异常值 (wei 未转换等) */
+function sanitizeShares(value: unknown): number {
+    const shares = Number(value) || 0;
+    return Number.isFinite(shares) && shares < 1e8 ? shares : 0;
+}
+
+/**
+ * HEDGE_FAILED 任务的未对冲份额 (篮子任务为各腿超出完整组数且未回滚的份数)
+ */
+function getHedgeFailedResidual(task: Task): number {
+    if (task.basket) {
+        const setQty = sanitizeShares(task.predictFilledQty);
+        return task.basket.legs.reduce((sum, leg) =>
+            sum + Math.max(0, sanitizeShares(leg.filledQty) - sanitizeShares(leg.unwoundQty) - setQty), 0);
+    }
+    return Math.max(0, sanitizeShares(task.predictFilledQty) - sanitizeShares(task.hedgedQty));
+}
+
+/**
+ * 任务新增的敞口 (创建前检查用)
+ */
+export function getTaskRiskIntent(task: Task): RiskIntent {
+    if (task.type !== 'BUY') {
+        return { marketId: task.marketId, predictShares: 0, predictNotional: 0, polymarketNotional: 0, newTask: true };
+    }
+    if (task.basket) {
+        return getBasketRiskIntent(task.marketId, task.basket.legs, task.quantity);
+    }
+    return {
+        marketId: task.marketId,
+        predictShares: task.quantity,
+        predictNotional: task.quantity * (task.predictPrice || 0),
+        polymarketNotional: task.quantity * (task.polymarketMaxAsk || 0),
+        newTask: true,
+    };
+}
+
+/**
+ * 篮子任务的敞口 (每腿 quantity 份 × (扫单限价 + 手续费))
+ */
+export function getBasketRiskIntent(marketId: number, legs: BasketTaskLeg[], quantity: number): RiskIntent {
+    const intent: RiskIntent = {
+        marketId,
+        predictShares: 0,
+        predictNotional: 0,
+        polymarketNotional: 0,
+        marketShares: {},
+        newTask: true,
+    };
+    for (const leg of legs) {
+        const notional = quantity * (leg.limitPrice + (leg.feePerShare || 0));
+        if (leg.venue === 'predict') {
+            const key = String(leg.outcome.predictMarketId);
+            intent.predictShares += quantity;
+            intent.predictNotional += notional;
+            intent.marketShares![key] = (intent.marketShares![key] || 0) + quantity;
+        } else {
+            intent.polymarketNotional += notional;
+        }
+    }
+    return intent;
+}
+
+/**
+ * 汇总所有活跃任务的敞口 (含 HEDGE_FAILED 未平仓的裸敞口)
+ */
+export function computeTaskExposure(tasks: Task[], options: TaskExposureOptions = {}): RiskExposure {
+    const exposure = emptyRiskExposure();
+
+    // HEDGE_FAILED 之后创建的同市场同方向 SELL 任务视为平仓 (按时间先后扣减)
+    const sells = tasks
+        .filter(t => t.type === 'SELL')
+        .map(t => ({ key: `${t.marketId}:${t.arbSide || 'YES'}`, createdAt: t.createdAt, remaining: sanitizeShares(t.predictFilledQty) }));
+    const hedgeFailed = tasks
+        .filter(t => t.status === 'HEDGE_FAILED' && t.type === 'BUY')
+        .sort((a, b) => a.createdAt - b.createdAt);
+    for (const task of hedgeFailed) {
+        if (options.isMarketResolved?.(task.marketId)) continue;
+        let residual = getHedgeFailedResidual(task);
+        const key = `${task.marketId}:${task.arbSide || 'YES'}`;
+        for (const sell of sells) {
+            if (residual <= 0) break;
+            if (sell.key !== key || sell.createdAt < task.createdAt || sell.remaining <= 0) continue;
+            const closed = Math.min(sell.remaining, residual);
+            sell.remaining -= closed;
+            residual -= closed;
+        }
+        if (residual > 0) {
+            exposure.unhedgedShares += residual;
+            const marketKey = String(task.marketId);
+            exposure.marketPositions[marketKey] = (exposure.marketPositions[marketKey] || 0) + residual;
+        }
+    }
+
+    for (const task of tasks) {
+        if (!isRiskActiveTask(task)) continue;
+        exposure.activeTasks++;
+
+        const filled = sanitizeShares(task.predictFilledQty);
+        const hedged = sanitizeShares(task.hedgedQty);
+        if (filled > hedged) {
+            exposure.unhedgedShares += filled - hedged;
+        }
+
+        const intent = getTaskRiskIntent(task);
+        exposure.predictNotional += intent.predictNotional;
+        exposure.polymarketNotional += intent.polymarketNotional;
+        for (const [key, shares] of Object.entries(getIntentMarketShares(intent))) {
+            exposure.marketPositions[key] = (exposure.marketPositions[key] || 0) + shares;
+        }
+    }
+
+    return exposure;
+}
+
+/**
+ * 任务的已实现盈亏 (终态时计入当日盈亏)
+ */
+export function getTaskRealizedPnl(task: Task): number {
+    return (task.actualProfit || 0) - (task.unwindLoss || 0);
+}
+
+/**
+ * 任务是否已结束 (不再下单；HEDGE_FAILED 的残余敞口仍由 computeTaskExposure 计入)
+ */
+export function isTaskRiskTerminal(task: Task): boolean {
+    return !isRiskActiveTask(task);
+}
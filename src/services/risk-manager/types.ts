@@ -0,0 +1,106 @@
+/**
+ * Risk Manager 类型定义
+ */
+
+/** 风控数据来源 (各进程独立写状态文件) */
+export type RiskSource = 'dashboard' | 'market-maker';
+
+export type RiskLimitType =
+    | 'DAILY_LOSS'          // 当日已实现亏损
+    | 'PREDICT_NOTIONAL'    // Predict 总名义金额
+    | 'POLYMARKET_NOTIONAL' // Polymarket 总名义金额
+    | 'UNHEDGED_SHARES'     // 未对冲份额
+    | 'CONCURRENT_TASKS'    // 并发任务数
+    | 'MARKET_POSITION'     // 单市场持仓
+    | 'MANUAL';             // 手动熔断
+
+/**
+ * 账户级风控限额 (0 = 不限制)
+ */
+export interface RiskLimits {
+    maxDailyLoss: number;           // 当日最大已实现亏损 (USD)
+    maxPredictNotional: number;     // Predict 最大总名义金额 (USD)
+    maxPolymarketNotional: number;  // Polymarket 最大总名义金额 (USD)
+    maxUnhedgedShares: number;      // 最大未对冲份额
+    maxConcurrentTasks: number;     // 最大并发任务数
+    maxMarketPosition: number;      // 单市场最大 Predict 持仓 (shares)
+}
+
+/**
+ * 敞口快照
+ */
+export interface RiskExposure {
+    predictNotional: number;
+    polymarketNotional: number;
+    unhedgedShares: number;
+    activeTasks: number;
+    /** marketId -> Predict 持仓 + 挂单份额 */
+    marketPositions: Record<string, number>;
+}
+
+/**
+ * 单笔新增敞口 (下单 / 建任务前检查)
+ */
+export interface RiskIntent {
+    marketId: number;
+    predictShares: number;
+    predictNotional: number;
+    polymarketNotional: number;
+    /** 多腿任务各 Predict 市场的份额 (缺省为 marketId → predictShares) */
+    marketShares?: Record<string, number>;
+    /** 是否新增一个并发任务 */
+    newTask?: boolean;
+    /** 已计入当前敞口的同一任务计划 (执行前按最新价格复核时扣除，避免重复计入) */
+    replaces?: RiskIntent;
+}
+
+export interface RiskCheckResult {
+    allowed: boolean;
+    limit?: RiskLimitType;
+    reason?: string;
+}
+
+/**
+ * 熔断开关 (所有进程共享)
+ */
+export interface RiskHaltState {
+    halted: boolean;
+    limit: RiskLimitType | null;
+    reason: string | null;
+    source: RiskSource | null;
+    haltedAt: number | null;
+    resumedAt: number | null;
+}
+
+/**
+ * 单个来源的持久化状态
+ */
+export interface RiskSourceState {
+    source: RiskSource;
+    tradingDay: string;             // YYYY-MM-DD (本地时区)
+    realizedPnl: number;            // 当日已实现盈亏
+    countedRefs: string[];          // 当日已计入的盈亏引用 (去重，如 task:<id>)
+    exposure: RiskExposure;
+    updatedAt: number;
+}
+
+export interface RiskManagerConfig {
+    source: RiskSource;
+    stateDir: string;
+    limits: RiskLimits;
+    evaluateIntervalMs: number;
+    /** 未对冲敞口超限持续多久才熔断 (对冲在途的正常敞口不触发) */
+    unhedgedGraceMs: number;
+    /** 其他来源状态超过该时长未更新则忽略其敞口 (进程已退出) */
+    peerStaleMs: number;
+}
+
+export interface RiskStatus {
+    source: RiskSource;
+    limits: RiskLimits;
+    halt: RiskHaltState;
+    tradingDay: string;
+    dailyRealizedPnl: number;
+    exposure: RiskExposure;
+    sources: RiskSourceState[];
+}
@@ -0,0 +1,15 @@
+/**
+ * Settlement 模块导出
+ *
+ * 双边结算跟踪: 结算结果不一致告警 + 结算后盈亏对账
+ */
+
+export * from './types.js';
+export {
+    SettlementTracker,
+    getSettlementTracker,
+    initSettlementTracker,
+    stopSettlementTracker,
+    buildTaskSettlementRecords,
+    buildPositionSettlementRecord,
+} from './settlement-tracker.js';
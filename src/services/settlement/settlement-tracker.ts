@@ -0,0 +1,570 @@
+/**
+ * Settlement Tracker - 结算跟踪与结算后盈亏对账
+ *
+ * 跟踪所有双腿套利 (已完成的 BUY 任务 + close-service 的双腿持仓) 所在市场的结算:
+ * - Predict: MarketStatus PRICE_PROPOSED / PRICE_DISPUTED / RESOLVED + resolution
+ * - Polymarket: CLOB /markets/{conditionId} 的 closed + tokens[].winner
+ *
+ * 双方结果折算到同一方向后不一致即为 MISMATCH (两腿同时归零)，Predict 处于
+ * PRICE_PROPOSED 阶段就会告警，便于在争议期内处理。
+ *
+ * 结算后按每腿份额计算 payout，盈亏 = payout - 双腿成本 - 手续费 - UNWIND 损失。
+ * 状态保存在 data/settlements.json，双方最终结算后的记录不再更新。
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { calculatePredictFee } from '../../trading/depth-calculator.js';
+import { isTaskRiskTerminal } from '../risk-manager/index.js';
+import type { ClosePosition, Task } from '../../dashboard/types.js';
+import type {
+    MarketResolution,
+    SettlementEvent,
+    SettlementLeg,
+    SettlementOutcome,
+    SettlementProviders,
+    SettlementQuery,
+    SettlementRecord,
+    SettlementStatus,
+    SettlementSummary,
+    SettlementTrackerConfig,
+} from './types.js';
+
+const DEFAULT_TRACKER_CONFIG: SettlementTrackerConfig = {
+    stateFile: './data/settlements.json',
+    pollIntervalMs: 10 * 60 * 1000,
+    predictApiBaseUrl: 'https://api.predict.fun',
+    polymarketClobBaseUrl: 'https://clob.polymarket.com',
+    requestTimeoutMs: 10000,
+};
+
+interface PersistedState {
+    records: SettlementRecord[];
+    markets: MarketResolution[];
+    updatedAt: number;
+}
+
+interface PredictMarketResolution {
+    status: string | null;
+    outcome: SettlementOutcome | null;
+}
+
+interface PolymarketMarketResolution {
+    closed: boolean;
+    outcome: SettlementOutcome | null;
+    winnerTokenId: string | null;
+}
+
+function flip(outcome: SettlementOutcome): SettlementOutcome {
+    return outcome === 'YES' ? 'NO' : 'YES';
+}
+
+function marketKey(predictMarketId: number, conditionId: string): string {
+    return `${predictMarketId}:${conditionId.toLowerCase()}`;
+}
+
+function readJson<T>(file: string): T | null {
+    try {
+        if (!fs.existsSync(file)) return null;
+        return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+    } catch (error: any) {
+        console.warn(`[Settlement] 读取 ${file} 失败: ${error?.message || error}`);
+        return null;
+    }
+}
+
+function writeJsonAtomic(file: string, data: unknown): void {
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, file);
+}
+
+/**
+ * 对冲腿 token (与 TaskExecutor.getHedgeTokenId 一致)
+ */
+function getHedgeTokenId(task: Task): string {
+    if ((task.arbSide || 'YES') === 'YES') {
+        return task.isInverted ? task.polymarketYesTokenId : task.polymarketNoTokenId;
+    }
+    return task.isInverted ? task.polymarketNoTokenId : task.polymarketYesTokenId;
+}
+
+function emptyLeg(platform: SettlementLeg['platform'], side: SettlementOutcome, shares: number, avgPrice: number, fees: number, tokenId?: string): SettlementLeg {
+    return { platform, side, tokenId, shares, avgPrice, cost: shares * avgPrice, fees, won: null, payout: null };
+}
+
+/**
+ * 已完成 BUY 任务 → 结算记录
+ *
+ * - Predict 持有量 = 成交量 - UNWIND 量
+ * - 同市场同方向的 SELL 任务按时间先后 (FIFO) 扣减持有量，成本按比例缩减
+ * - Predict 手续费只计 TAKER 任务 (MAKER 无费用)，按 FIFO 扣减后的剩余持有量计；Polymarket 无交易手续费
+ * - 篮子任务为 N 腿 (非两腿对冲)，不生成结算记录
+ */
+export function buildTaskSettlementRecords(tasks: Task[], now: number = Date.now()): SettlementRecord[] {
+    const sold = new Map<string, { predict: number; poly: number }>();
+    for (const task of tasks) {
+        if (task.type !== 'SELL') continue;
+        const key = `${task.marketId}:${task.arbSide || 'YES'}`;
+        const entry = sold.get(key) ?? { predict: 0, poly: 0 };
+        entry.predict += Number(task.predictFilledQty) || 0;
+        entry.poly += Number(task.hedgedQty) || 0;
+        sold.set(key, entry);
+    }
+
+    const buys = tasks
+        .filter(t => t.type === 'BUY' && !t.basket && isTaskRiskTerminal(t))
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+    const records: SettlementRecord[] = [];
+    for (const task of buys) {
+        const arbSide = task.arbSide || 'YES';
+        let predictShares = Math.max((Number(task.predictFilledQty) || 0) - (Number(task.unwindQty) || 0), 0);
+        let polyShares = Number(task.hedgedQty) || 0;
+        if (predictShares <= 0 && polyShares <= 0) continue;
+
+        const soldEntry = sold.get(`${task.marketId}:${arbSide}`);
+        if (soldEntry) {
+            const predictSold = Math.min(soldEntry.predict, predictShares);
+            const polySold = Math.min(soldEntry.poly, polyShares);
+            soldEntry.predict -= predictSold;
+            soldEntry.poly -= polySold;
+            predictShares -= predictSold;
+            polyShares -= polySold;
+            if (predictShares <= 0 && polyShares <= 0) continue;
+        }
+
+        const avgPredictPrice = task.avgPredictPrice || task.predictPrice || 0;
+        const avgPolyPrice = task.avgPolymarketPrice || 0;
+        const predictFee = task.strategy === 'TAKER' && task.feeRateBps
+            ? calculatePredictFee(avgPredictPrice, task.feeRateBps) * predictShares
+            : 0;
+
+        const predictLeg = emptyLeg('predict', arbSide, predictShares, avgPredictPrice, predictFee);
+        const polymarketLeg = emptyLeg('polymarket', arbSide === 'YES' ? 'NO' : 'YES', polyShares, avgPolyPrice, 0, getHedgeTokenId(task));
+        if (task.isInverted) polymarketLeg.side = flip(polymarketLeg.side);
+
+        records.push({
+            id: `task:${task.id}`,
+            source: 'TASK',
+            taskId: task.id,
+            predictMarketId: task.marketId,
+            polymarketConditionId: task.polymarketConditionId.toLowerCase(),
+            title: task.title,
+            arbSide,
+            simulated: task.simulated === true,
+            predictLeg,
+            polymarketLeg,
+            totalCost: predictLeg.cost + polymarketLeg.cost,
+            fees: predictFee,
+            unwindLoss: Number(task.unwindLoss) || 0,
+            expectedProfit: Number.isFinite(task.actualProfit) ? task.actualProfit : null,
+            payout: null,
+            realizedPnl: null,
+            status: 'OPEN',
+            mismatch: false,
+            createdAt: task.completedAt ?? task.updatedAt ?? now,
+            updatedAt: now,
+            settledAt: null,
+        });
+    }
+    return records;
+}
+
+/**
+ * 双腿持仓 → 结算记录 (未由任务覆盖的市场)
+ */
+export function buildPositionSettlementRecord(position: ClosePosition, now: number = Date.now()): SettlementRecord {
+    const conditionId = position.polymarketConditionId.toLowerCase();
+    const predictLeg = emptyLeg('predict', position.predictLeg.side, position.predictLeg.shares, position.predictLeg.avgPrice, 0);
+    const polymarketLeg = emptyLeg(
+        'polymarket',
+        position.polymarketLeg.side,
+        position.polymarketLeg.shares,
+        position.polymarketLeg.avgPrice,
+        0,
+        position.polymarketLeg.tokenId,
+    );
+    return {
+        id: `position:${conditionId}:${position.arbSide}`,
+        source: 'POSITION',
+        predictMarketId: position.predictMarketId,
+        polymarketConditionId: conditionId,
+        title: position.title,
+        arbSide: position.arbSide,
+        simulated: false,
+        predictLeg,
+        polymarketLeg,
+        totalCost: predictLeg.cost + polymarketLeg.cost,
+        fees: 0,
+        unwindLoss: 0,
+        expectedProfit: null,
+        payout: null,
+        realizedPnl: null,
+        status: 'OPEN',
+        mismatch: false,
+        createdAt: now,
+        updatedAt: now,
+        settledAt: null,
+    };
+}
+
+/**
+ * 市场是否反向 (Predict YES ↔ Polymarket NO)
+ * 正常对冲两腿方向相反；持仓两腿同名说明映射为反向市场
+ */
+function isRecordInverted(record: SettlementRecord): boolean {
+    return record.predictLeg.side === record.polymarketLeg.side;
+}
+
+function computeMarketStatus(market: MarketResolution): { status: SettlementStatus; mismatch: boolean } {
+    const predictKnown = market.predictOutcome !== null;
+    const polyKnown = market.polymarketOutcomeAsPredict !== null;
+    const mismatch = predictKnown && polyKnown && market.predictOutcome !== market.polymarketOutcomeAsPredict;
+    if (mismatch) return { status: 'MISMATCH', mismatch };
+    if (market.predictFinal && polyKnown) return { status: 'SETTLED', mismatch };
+    if (predictKnown || polyKnown) return { status: 'PROPOSED', mismatch };
+    return { status: 'OPEN', mismatch };
+}
+
+/**
+ * 双方均最终结算 (之后不再轮询)
+ */
+function isMarketFinal(market: MarketResolution): boolean {
+    return market.predictFinal && market.polymarketOutcome !== null;
+}
+
+function applyResolution(record: SettlementRecord, market: MarketResolution, now: number): void {
+    const predictLeg = record.predictLeg;
+    predictLeg.won = market.predictOutcome ? market.predictOutcome === predictLeg.side : null;
+    predictLeg.payout = predictLeg.won === null ? null : predictLeg.won ? predictLeg.shares : 0;
+
+    const polyLeg = record.polymarketLeg;
+    if (market.polymarketWinnerTokenId && polyLeg.tokenId) {
+        polyLeg.won = polyLeg.tokenId === market.polymarketWinnerTokenId;
+    } else {
+        polyLeg.won = market.polymarketOutcome ? market.polymarketOutcome === polyLeg.side : null;
+    }
+    polyLeg.payout = polyLeg.won === null ? null : polyLeg.won ? polyLeg.shares : 0;
+
+    if (predictLeg.payout !== null && polyLeg.payout !== null) {
+        record.payout = predictLeg.payout + polyLeg.payout;
+        record.realizedPnl = record.payout - record.totalCost - record.fees - record.unwindLoss;
+    } else {
+        record.payout = null;
+        record.realizedPnl = null;
+    }
+
+    record.status = market.status;
+    record.mismatch = market.mismatch;
+    record.updatedAt = now;
+    if (isMarketFinal(market) && record.settledAt === null) {
+        record.settledAt = now;
+    }
+}
+
+export class SettlementTracker extends EventEmitter {
+    private readonly config: SettlementTrackerConfig;
+    private records: Map<string, SettlementRecord> = new Map();
+    private markets: Map<string, MarketResolution> = new Map();
+    private providers: SettlementProviders | null = null;
+    private pollTimer: ReturnType<typeof setInterval> | null = null;
+    private refreshing: Promise<void> | null = null;
+
+    constructor(config: Partial<SettlementTrackerConfig> = {}) {
+        super();
+        this.config = { ...DEFAULT_TRACKER_CONFIG, ...config };
+        fs.mkdirSync(path.dirname(this.config.stateFile), { recursive: true });
+
+        const saved = readJson<PersistedState>(this.config.stateFile);
+        for (const record of saved?.records ?? []) this.records.set(record.id, record);
+        for (const market of saved?.markets ?? []) {
+            this.markets.set(marketKey(market.predictMarketId, market.polymarketConditionId), market);
+        }
+    }
+
+    setProviders(providers: SettlementProviders): void {
+        this.providers = providers;
+    }
+
+    start(): void {
+        if (this.pollTimer) return;
+        console.log(`[Settlement] 启动: ${this.records.size} 条记录, 每 ${Math.round(this.config.pollIntervalMs / 1000)}s 检查结算`);
+        void this.refresh();
+        this.pollTimer = setInterval(() => void this.refresh(), this.config.pollIntervalMs);
+    }
+
+    stop(): void {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+        this.persist();
+        this.removeAllListeners();
+    }
+
+    // ========================================================================
+    // 查询
+    // ========================================================================
+
+    getRecords(query: SettlementQuery = {}): SettlementRecord[] {
+        const conditionId = query.conditionId?.toLowerCase();
+        const records = [...this.records.values()]
+            .filter(r => query.includeSimulated || !r.simulated)
+            .filter(r => !query.status || query.status.length === 0 || query.status.includes(r.status))
+            .filter(r => query.marketId === undefined || r.predictMarketId === query.marketId)
+            .filter(r => !conditionId || r.polymarketConditionId === conditionId)
+            .sort((a, b) => (b.settledAt ?? b.updatedAt) - (a.settledAt ?? a.updatedAt));
+        return query.limit ? records.slice(0, query.limit) : records;
+    }
+
+    getMarkets(): MarketResolution[] {
+        return [...this.markets.values()].sort((a, b) => b.checkedAt - a.checkedAt);
+    }
+
+    getSummary(includeSimulated: boolean = false): SettlementSummary {
+        const summary: SettlementSummary = {
+            total: 0, open: 0, proposed: 0, settled: 0, mismatched: 0,
+            realizedPnl: 0, payout: 0, fees: 0, expectedProfit: 0,
+        };
+        for (const record of this.records.values()) {
+            if (record.simulated && !includeSimulated) continue;
+            summary.total++;
+            if (record.status === 'OPEN') summary.open++;
+            else if (record.status === 'PROPOSED') summary.proposed++;
+            else if (record.status === 'MISMATCH') summary.mismatched++;
+            else summary.settled++;
+
+            if (record.settledAt !== null && record.realizedPnl !== null) {
+                summary.realizedPnl += record.realizedPnl;
+                summary.payout += record.payout ?? 0;
+                summary.fees += record.fees;
+                summary.expectedProfit += record.expectedProfit ?? 0;
+            }
+        }
+        return summary;
+    }
+
+    // ========================================================================
+    // 刷新
+    // ========================================================================
+
+    /**
+     * 同步套利记录并检查未最终结算的市场 (并发调用共享同一次刷新)
+     */
+    refresh(): Promise<void> {
+        if (!this.refreshing) {
+            this.refreshing = this.doRefresh()
+                .catch(error => console.warn(`[Settlement] 刷新失败: ${error?.message || error}`))
+                .finally(() => { this.refreshing = null; });
+        }
+        return this.refreshing;
+    }
+
+    private async doRefresh(): Promise<void> {
+        if (!this.providers) return;
+        const now = Date.now();
+        await this.syncRecords(now);
+
+        // 按市场分组 (已最终结算的记录不再更新)
+        const pending = new Map<string, SettlementRecord[]>();
+        for (const record of this.records.values()) {
+            if (record.settledAt !== null) continue;
+            const key = marketKey(record.predictMarketId, record.polymarketConditionId);
+            const list = pending.get(key) ?? [];
+            list.push(record);
+            pending.set(key, list);
+        }
+
+        const settledEvents: SettlementEvent[] = [];
+        for (const [key, records] of pending) {
+            const previous = this.markets.get(key);
+            let market: MarketResolution;
+            try {
+                market = await this.checkMarket(records[0], previous);
+            } catch (error: any) {
+                console.warn(`[Settlement] 检查市场 #${records[0].predictMarketId} 失败: ${error?.message || error}`);
+                continue;
+            }
+            this.markets.set(key, market);
+            for (const record of records) applyResolution(record, market, now);
+
+            if (market.mismatch && !previous?.mismatch) {
+                console.error(
+                    `[Settlement] ❌ 结算结果不一致: #${market.predictMarketId} ${market.title} ` +
+                    `Predict=${market.predictOutcome} (${market.predictStatus}) Polymarket=${market.polymarketOutcome}` +
+                    `${market.isInverted ? ' (inverted)' : ''}`
+                );
+                this.emit('mismatch', { market, records } satisfies SettlementEvent);
+            }
+            if (isMarketFinal(market)) {
+                settledEvents.push({ market, records });
+            }
+        }
+
+        this.persist();
+        if (settledEvents.length > 0) {
+            console.log(`[Settlement] ${settledEvents.length} 个市场完成结算`);
+            this.emit('settled', settledEvents);
+        }
+    }
+
+    /**
+     * 合并任务/持仓记录: 未结算的记录以最新数据为准，已结算的保持不变
+     */
+    private async syncRecords(now: number): Promise<void> {
+        const providers = this.providers!;
+        const taskRecords = buildTaskSettlementRecords(providers.getTasks(), now);
+        const taskConditions = new Set(taskRecords.map(r => r.polymarketConditionId));
+
+        const upsert = (record: SettlementRecord) => {
+            const existing = this.records.get(record.id);
+            if (existing?.settledAt) return;
+            const next = existing ? { ...record, createdAt: existing.createdAt } : record;
+            // 先套用已知的市场结果，本轮检查失败时不丢失状态
+            const market = this.markets.get(marketKey(next.predictMarketId, next.polymarketConditionId));
+            if (market) applyResolution(next, market, now);
+            this.records.set(next.id, next);
+        };
+        taskRecords.forEach(upsert);
+
+        if (!providers.getClosePositions) return;
+        let positions: ClosePosition[];
+        try {
+            positions = await providers.getClosePositions();
+        } catch (error: any) {
+            console.warn(`[Settlement] 获取双腿持仓失败: ${error?.message || error}`);
+            return;
+        }
+
+        const seen = new Set<string>();
+        for (const position of positions) {
+            const record = buildPositionSettlementRecord(position, now);
+            if (taskConditions.has(record.polymarketConditionId)) continue;
+            seen.add(record.id);
+            upsert(record);
+        }
+        // 持仓在结果出来前消失 = 已平仓，不参与结算
+        for (const record of [...this.records.values()]) {
+            if (record.source === 'POSITION' && !seen.has(record.id) && record.status === 'OPEN') {
+                this.records.delete(record.id);
+            }
+        }
+    }
+
+    private async checkMarket(record: SettlementRecord, previous: MarketResolution | undefined): Promise<MarketResolution> {
+        const [predict, poly] = await Promise.all([
+            this.fetchPredictResolution(record.predictMarketId),
+            this.fetchPolymarketResolution(record.polymarketConditionId),
+        ]);
+        const isInverted = isRecordInverted(record);
+        const market: MarketResolution = {
+            predictMarketId: record.predictMarketId,
+            polymarketConditionId: record.polymarketConditionId,
+            title: record.title,
+            isInverted,
+            predictStatus: predict.status,
+            predictOutcome: predict.outcome,
+            predictFinal: predict.status === 'RESOLVED' && predict.outcome !== null,
+            polymarketClosed: poly.closed,
+            polymarketOutcome: poly.outcome,
+            polymarketWinnerTokenId: poly.winnerTokenId,
+            polymarketOutcomeAsPredict: poly.outcome ? (isInverted ? flip(poly.outcome) : poly.outcome) : null,
+            status: 'OPEN',
+            mismatch: false,
+            checkedAt: Date.now(),
+            settledAt: previous?.settledAt ?? null,
+        };
+        Object.assign(market, computeMarketStatus(market));
+        if (isMarketFinal(market) && market.settledAt === null) {
+            market.settledAt = market.checkedAt;
+        }
+        return market;
+    }
+
+    /**
+     * Predict 结果: resolution (或 outcomes[].status === 'WON')，indexSet 1 = YES, 2 = NO
+     */
+    private async fetchPredictResolution(marketId: number): Promise<PredictMarketResolution> {
+        const apiKey = this.providers?.getPredictApiKey?.() || process.env.PREDICT_API_KEY || '';
+        const res = await fetch(`${this.config.predictApiBaseUrl}/v1/markets/${marketId}`, {
+            headers: apiKey ? { 'x-api-key': apiKey } : {},
+            signal: AbortSignal.timeout(this.config.requestTimeoutMs),
+        });
+        if (!res.ok) throw new Error(`Predict market ${marketId}: HTTP ${res.status}`);
+        const market = ((await res.json()) as any)?.data;
+        if (!market) throw new Error(`Predict market ${marketId}: empty response`);
+
+        const status: string | null = market.status ?? null;
+        if (status !== 'PRICE_PROPOSED' && status !== 'PRICE_DISPUTED' && status !== 'RESOLVED') {
+            return { status, outcome: null };
+        }
+        const winner = market.resolution ?? (market.outcomes as any[] | undefined)?.find(o => o?.status === 'WON');
+        if (!winner) return { status, outcome: null };
+
+        let outcome: SettlementOutcome | null = null;
+        if (winner.indexSet === 1) outcome = 'YES';
+        else if (winner.indexSet === 2) outcome = 'NO';
+        else if (/^yes$/i.test(String(winner.name ?? ''))) outcome = 'YES';
+        else if (/^no$/i.test(String(winner.name ?? ''))) outcome = 'NO';
+        return { status, outcome };
+    }
+
+    /**
+     * Polymarket 结果: closed 且 tokens[].winner，tokens[0] = YES, tokens[1] = NO
+     */
+    private async fetchPolymarketResolution(conditionId: string): Promise<PolymarketMarketResolution> {
+        const res = await fetch(`${this.config.polymarketClobBaseUrl}/markets/${conditionId}`, {
+            signal: AbortSignal.timeout(this.config.requestTimeoutMs),
+        });
+        if (!res.ok) throw new Error(`Polymarket market ${conditionId.slice(0, 12)}...: HTTP ${res.status}`);
+        const market = (await res.json()) as any;
+        const closed = market?.closed === true;
+        const tokens: any[] = Array.isArray(market?.tokens) ? market.tokens : [];
+        const winnerIndex = closed ? tokens.findIndex(t => t?.winner === true) : -1;
+        if (winnerIndex < 0) return { closed, outcome: null, winnerTokenId: null };
+        return {
+            closed,
+            outcome: winnerIndex === 0 ? 'YES' : 'NO',
+            winnerTokenId: String(tokens[winnerIndex].token_id ?? '') || null,
+        };
+    }
+
+    private persist(): void {
+        try {
+            writeJsonAtomic(this.config.stateFile, {
+                records: [...this.records.values()],
+                markets: [...this.markets.values()],
+                updatedAt: Date.now(),
+            } satisfies PersistedState);
+        } catch (error: any) {
+            console.warn(`[Settlement] 保存状态失败: ${error?.message || error}`);
+        }
+    }
+}
+
+// ============================================================================
+// 单例
+// ============================================================================
+
+let instance: SettlementTracker | null = null;
+
+export function getSettlementTracker(): SettlementTracker | null {
+    return instance;
+}
+
+export function initSettlementTracker(config: Partial<SettlementTrackerConfig> = {}): SettlementTracker {
+    if (instance) {
+        instance.stop();
+    }
+    instance = new SettlementTracker(config);
+    return instance;
+}
+
+export function stopSettlementTracker(): void {
+    if (instance) {
+        instance.stop();
+        instance = null;
+    }
+}
@@ -0,0 +1,153 @@
+/**
+ * Settlement Tracker 类型定义
+ */
+
+import type { ArbSide, ClosePosition, Task } from '../../dashboard/types.js';
+
+export type SettlementOutcome = 'YES' | 'NO';
+
+/**
+ * 结算记录来源
+ * - TASK: 已完成的 BUY 任务 (双腿成交数据来自任务)
+ * - POSITION: 没有任务覆盖的双腿持仓 (手动建仓等，来自 close-service)
+ */
+export type SettlementSource = 'TASK' | 'POSITION';
+
+/**
+ * - OPEN: 双方均未结算
+ * - PROPOSED: 至少一方已给出结果但未最终结算 (Predict PRICE_PROPOSED/PRICE_DISPUTED 或只有一方结算)
+ * - SETTLED: 双方均已最终结算且结果一致
+ * - MISMATCH: 双方结果不一致 (Predict YES 而 Polymarket 折算后为 NO，或相反)
+ */
+export type SettlementStatus = 'OPEN' | 'PROPOSED' | 'SETTLED' | 'MISMATCH';
+
+/**
+ * 单个市场对的结算状态
+ */
+export interface MarketResolution {
+    predictMarketId: number;
+    polymarketConditionId: string;
+    title: string;
+    /** Predict YES 对应 Polymarket NO */
+    isInverted: boolean;
+
+    /** Predict MarketStatus 原值 (REGISTERED / PRICE_PROPOSED / PRICE_DISPUTED / RESOLVED ...) */
+    predictStatus: string | null;
+    /** Predict 提议/结算的结果 */
+    predictOutcome: SettlementOutcome | null;
+    predictFinal: boolean;
+
+    polymarketClosed: boolean;
+    /** Polymarket 自身的 YES/NO 结果 */
+    polymarketOutcome: SettlementOutcome | null;
+    polymarketWinnerTokenId: string | null;
+    /** Polymarket 结果折算到 Predict 方向 (inverted 时取反) */
+    polymarketOutcomeAsPredict: SettlementOutcome | null;
+
+    status: SettlementStatus;
+    mismatch: boolean;
+    checkedAt: number;
+    /** 双方均最终结算的时间 */
+    settledAt: number | null;
+}
+
+/**
+ * 单腿结算
+ */
+export interface SettlementLeg {
+    platform: 'predict' | 'polymarket';
+    side: SettlementOutcome;
+    tokenId?: string;
+    shares: number;
+    avgPrice: number;
+    cost: number;
+    fees: number;
+    /** null = 结果未知 */
+    won: boolean | null;
+    payout: number | null;
+}
+
+/**
+ * 单笔套利 (任务 / 持仓) 的结算记录
+ */
+export interface SettlementRecord {
+    /** task:<taskId> 或 position:<conditionId>:<arbSide> */
+    id: string;
+    source: SettlementSource;
+    taskId?: string;
+    predictMarketId: number;
+    polymarketConditionId: string;
+    title: string;
+    arbSide: ArbSide;
+    simulated: boolean;
+
+    predictLeg: SettlementLeg;
+    polymarketLeg: SettlementLeg;
+
+    /** 双腿成本 (不含手续费) */
+    totalCost: number;
+    /** 手续费合计 */
+    fees: number;
+    /** 建仓阶段已实现的损失 (UNWIND) */
+    unwindLoss: number;
+    /** 任务记录的预期利润 (对照用) */
+    expectedProfit: number | null;
+
+    /** 双方结果均已知时计算 */
+    payout: number | null;
+    realizedPnl: number | null;
+
+    status: SettlementStatus;
+    mismatch: boolean;
+    createdAt: number;
+    updatedAt: number;
+    settledAt: number | null;
+}
+
+export interface SettlementSummary {
+    total: number;
+    open: number;
+    proposed: number;
+    settled: number;
+    mismatched: number;
+    /** 已结算记录的盈亏合计 */
+    realizedPnl: number;
+    payout: number;
+    fees: number;
+    /** 已结算记录的任务预期利润合计 (与 realizedPnl 对照) */
+    expectedProfit: number;
+}
+
+export interface SettlementQuery {
+    status?: SettlementStatus[];
+    marketId?: number;
+    conditionId?: string;
+    /** 默认不含模拟任务 */
+    includeSimulated?: boolean;
+    limit?: number;
+}
+
+/**
+ * 数据来源 (由 start-dashboard 注入，避免循环依赖)
+ */
+export interface SettlementProviders {
+    getTasks: () => Task[];
+    getClosePositions?: () => Promise<ClosePosition[]>;
+    getPredictApiKey?: () => string | null;
+}
+
+export interface SettlementTrackerConfig {
+    stateFile: string;
+    pollIntervalMs: number;
+    predictApiBaseUrl: string;
+    polymarketClobBaseUrl: string;
+    requestTimeoutMs: number;
+}
+
+/**
+ * 市场结算事件 (mismatch / settled)
+ */
+export interface SettlementEvent {
+    market: MarketResolution;
+    records: SettlementRecord[];
+}
@@ -0,0 +1,150 @@
+/**
+ * 套利回测 CLI
+ *
+ * 用 ORDERBOOK_RECORD_DIR 录制的 tape 回测 MAKER / TAKER 策略，
+ * 输出终端报告，并将完整结果写入 JSON。
+ *
+ * 使用：
+ *   npm run backtest -- <tape 目录或文件> [options]
+ *
+ * 选项：
+ *   --strategy=MAKER,TAKER     回测策略 (默认两者)
+ *   --side=YES,NO              套利方向 (默认两者)
+ *   --qty=100                  每次入场数量
+ *   --maker-min-profit=0       Maker 最小每股利润
+ *   --taker-min-profit=0.0001  Taker 最小每股利润
+ *   --queue=1                  排队位置 (0 = 队首, 1 = 队尾)
+ *   --latency=300              Predict 下单/撤单延迟 (ms)
+ *   --hedge-latency=500        对冲延迟 (ms)
+ *   --hedge-retry=1000         对冲重试间隔 (ms)
+ *   --slippage=0.01            对冲最大滑点 (每股)
+ *   --timeout=0                Maker 挂单超时 (ms)
+ *   --cooldown=5000            入场冷却 (ms)
+ *   --market=123,456           只回测指定市场
+ *   --from=<ISO|ms> --to=<ISO|ms>
+ *   --out=<path>               JSON 输出路径 (默认 data/backtests/backtest-<时间>.json)
+ *   --top=20                   报告中展示的市场数
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { listTapeFiles } from '../services/orderbook-tape/index.js';
+import {
+    runBacktest,
+    formatBacktestReport,
+    type BacktestConfig,
+    type BacktestSide,
+    type BacktestStrategy,
+} from '../trading/backtest/index.js';
+
+function parseTime(value: string): number {
+    const asNumber = Number(value);
+    if (Number.isFinite(asNumber)) return asNumber;
+    const parsed = Date.parse(value);
+    if (Number.isNaN(parsed)) {
+        throw new Error(`Invalid time: ${value}`);
+    }
+    return parsed;
+}
+
+function parseNumber(name: string, value: string): number {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+        throw new Error(`Invalid --${name}: ${value}`);
+    }
+    return parsed;
+}
+
+function printUsage(): void {
+    console.log('Usage:');
+    console.log('  npm run backtest -- <tapeDirOrFile> [--strategy=MAKER,TAKER] [--side=YES,NO] [--qty=100]');
+    console.log('      [--maker-min-profit=0] [--taker-min-profit=0.0001] [--queue=1] [--latency=300]');
+    console.log('      [--hedge-latency=500] [--hedge-retry=1000] [--slippage=0.01] [--timeout=0] [--cooldown=5000]');
+    console.log('      [--market=ID,...] [--from=<ISO|ms>] [--to=<ISO|ms>] [--out=<path>] [--top=20]');
+}
+
+async function main(): Promise<void> {
+    const args = process.argv.slice(2);
+    const target = args.find(a => !a.startsWith('--'));
+    if (!target) {
+        printUsage();
+        process.exitCode = 1;
+        return;
+    }
+
+    const config: Partial<BacktestConfig> = {};
+    let fromTs: number | undefined;
+    let toTs: number | undefined;
+    let marketIds: number[] | undefined;
+    let outPath: string | undefined;
+    let topN = 20;
+
+    for (const arg of args) {
+        if (!arg.startsWith('--')) continue;
+        const [name, value = ''] = arg.slice(2).split('=');
+        switch (name) {
+            case 'strategy':
+                config.strategies = value.toUpperCase().split(',').filter(Boolean) as BacktestStrategy[];
+                break;
+            case 'side':
+                config.sides = value.toUpperCase().split(',').filter(Boolean) as BacktestSide[];
+                break;
+            case 'qty': config.quantity = parseNumber(name, value); break;
+            case 'maker-min-profit': config.makerMinProfit = parseNumber(name, value); break;
+            case 'taker-min-profit': config.takerMinProfit = parseNumber(name, value); break;
+            case 'queue': config.queueAheadRatio = parseNumber(name, value); break;
+            case 'latency': config.predictLatencyMs = parseNumber(name, value); break;
+            case 'hedge-latency': config.hedgeLatencyMs = parseNumber(name, value); break;
+            case 'hedge-retry': config.hedgeRetryMs = parseNumber(name, value); break;
+            case 'slippage': config.maxHedgeSlippage = parseNumber(name, value); break;
+            case 'timeout': config.makerOrderTimeoutMs = parseNumber(name, value); break;
+            case 'cooldown': config.reentryCooldownMs = parseNumber(name, value); break;
+            case 'market': marketIds = value.split(',').filter(Boolean).map(v => parseNumber(name, v)); break;
+            case 'from': fromTs = parseTime(value); break;
+            case 'to': toTs = parseTime(value); break;
+            case 'out': outPath = value; break;
+            case 'top': topN = parseNumber(name, value); break;
+            default:
+                console.error(`Unknown option: --${name}`);
+                printUsage();
+                process.exitCode = 1;
+                return;
+        }
+    }
+
+    const invalidStrategy = config.strategies?.find(s => s !== 'MAKER' && s !== 'TAKER');
+    const invalidSide = config.sides?.find(s => s !== 'YES' && s !== 'NO');
+    if (invalidStrategy || invalidSide) {
+        console.error(`Invalid ${invalidStrategy ? `strategy: ${invalidStrategy}` : `side: ${invalidSide}`}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    const files = listTapeFiles(target);
+    if (files.length === 0) {
+        console.error(`No tape files found in ${target}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    console.log(`[Backtest] 回放 ${files.length} 个 tape 文件...`);
+    const result = await runBacktest(files, {
+        config,
+        replay: { fromTs, toTs },
+        marketIds,
+    });
+
+    console.log('\n' + formatBacktestReport(result, topN));
+
+    const resolvedOut = outPath
+        ? path.resolve(outPath)
+        : path.join(process.cwd(), 'data', 'backtests', `backtest-${new Date(result.generatedAt).toISOString().replace(/[:.]/g, '-')}.json`);
+    fs.mkdirSync(path.dirname(resolvedOut), { recursive: true });
+    fs.writeFileSync(resolvedOut, JSON.stringify(result, null, 2));
+    console.log(`\n[Backtest] 结果已写入 ${resolvedOut}`);
+}
+
+main().catch((err) => {
+    console.error('[Backtest] 失败:', err?.message || err);
+    process.exitCode = 1;
+});
@@ -0,0 +1,138 @@
+/**
+ * Polymarket CTF 仓位管理 CLI
+ *
+ * 使用：
+ *   npm run ctf -- positions
+ *   npm run ctf -- merge --condition=0x... [--shares=10] [--neg-risk] [--dry-run]
+ *   npm run ctf -- merge-all [--min=1] [--dry-run]
+ *   npm run ctf -- split --condition=0x... --amount=10 [--neg-risk] [--dry-run]
+ *   npm run ctf -- redeem --condition=0x... [--dry-run]
+ *   npm run ctf -- redeem-all [--dry-run]
+ *
+ * 选项：
+ *   --dry-run      只输出交易 calldata，不发送
+ *   --neg-risk     强制使用 NegRiskAdapter (默认从持仓自动识别)
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+import { CtfService, loadCtfConfigFromEnv, type CtfOperationOptions, type CtfTxResult } from '../services/ctf/index.js';
+
+config({ path: resolve(process.cwd(), '.env') });
+
+function parseArgs(args: string[]): { command?: string; flags: Map<string, string> } {
+    const flags = new Map<string, string>();
+    let command: string | undefined;
+    for (const arg of args) {
+        if (arg.startsWith('--')) {
+            const [key, ...rest] = arg.slice(2).split('=');
+            flags.set(key, rest.length > 0 ? rest.join('=') : 'true');
+        } else if (!command) {
+            command = arg;
+        }
+    }
+    return { command, flags };
+}
+
+function parseNumber(name: string, value: string | undefined): number | undefined {
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+        throw new Error(`Invalid --${name}: ${value}`);
+    }
+    return parsed;
+}
+
+function requireCondition(flags: Map<string, string>): string {
+    const conditionId = flags.get('condition');
+    if (!conditionId || !/^0x[0-9a-fA-F]{64}$/.test(conditionId)) {
+        throw new Error('--condition=<0x...32 bytes> is required');
+    }
+    return conditionId;
+}
+
+function printResult(result: CtfTxResult): void {
+    console.log(`\n${result.dryRun ? '[DRY-RUN] ' : ''}${result.action} ${result.conditionId} (negRisk=${result.negRisk}, amount=${result.amount})`);
+    result.transactions.forEach((tx, i) => {
+        console.log(`  #${i + 1} ${tx.description}`);
+        console.log(`     to:   ${tx.to}`);
+        console.log(`     data: ${tx.data}`);
+        if (result.txHashes[i]) console.log(`     tx:   ${result.txHashes[i]}`);
+    });
+}
+
+function printUsage(): void {
+    console.log('Usage:');
+    console.log('  npm run ctf -- positions');
+    console.log('  npm run ctf -- merge --condition=0x... [--shares=N] [--neg-risk] [--dry-run]');
+    console.log('  npm run ctf -- merge-all [--min=1] [--dry-run]');
+    console.log('  npm run ctf -- split --condition=0x... --amount=N [--neg-risk] [--dry-run]');
+    console.log('  npm run ctf -- redeem --condition=0x... [--neg-risk] [--dry-run]');
+    console.log('  npm run ctf -- redeem-all [--dry-run]');
+}
+
+async function main(): Promise<void> {
+    const { command, flags } = parseArgs(process.argv.slice(2));
+    if (!command) {
+        printUsage();
+        process.exitCode = 1;
+        return;
+    }
+
+    const service = new CtfService(loadCtfConfigFromEnv());
+    const options: CtfOperationOptions = {
+        dryRun: flags.has('dry-run') ? true : undefined,
+        negRisk: flags.has('neg-risk') ? true : undefined,
+    };
+
+    console.log(`[CTF] 持仓地址: ${service.getHolderAddress()}${options.dryRun || service.isDryRun() ? ' (dry-run)' : ''}`);
+
+    switch (command) {
+        case 'positions': {
+            const positions = await service.getConditionPositions();
+            if (positions.length === 0) {
+                console.log('无持仓');
+                break;
+            }
+            for (const p of positions) {
+                const tags = [p.negRisk ? 'negRisk' : '', p.redeemable ? '可赎回' : '', p.mergeableShares > 0 ? `可合并 ${p.mergeableShares.toFixed(2)}` : '']
+                    .filter(Boolean).join(', ');
+                console.log(`${p.conditionId}  YES=${p.yesShares.toFixed(2)} NO=${p.noShares.toFixed(2)}  ${tags}`);
+                console.log(`  ${p.title}`);
+            }
+            break;
+        }
+        case 'merge':
+            printResult(await service.merge(requireCondition(flags), parseNumber('shares', flags.get('shares')), options));
+            break;
+        case 'merge-all': {
+            const results = await service.mergeAll(parseNumber('min', flags.get('min')) ?? 1, options);
+            results.forEach(printResult);
+            console.log(`\n共 ${results.length} 笔合并`);
+            break;
+        }
+        case 'split': {
+            const amount = parseNumber('amount', flags.get('amount'));
+            if (amount === undefined) throw new Error('--amount is required');
+            printResult(await service.split(requireCondition(flags), amount, options));
+            break;
+        }
+        case 'redeem':
+            printResult(await service.redeem(requireCondition(flags), options));
+            break;
+        case 'redeem-all': {
+            const results = await service.redeemAll(options);
+            results.forEach(printResult);
+            console.log(`\n共 ${results.length} 笔赎回`);
+            break;
+        }
+        default:
+            printUsage();
+            process.exitCode = 1;
+    }
+}
+
+main().catch(error => {
+    console.error(`[CTF] ${error?.message || error}`);
+    process.exitCode = 1;
+});
@@ -7,6 +7,9 @@
  * - 支持幂等去重 (task_id + sequence)
  * - 批量插入优化
  *
+ * 注意: Dashboard 的 TaskLogger 已实时写入 data/logs/task-logs.db，本工具仅用于
+ *       离线把 JSONL 导入独立分析库 (data/logs/index.db)
+ *
  * 使用：
  *   npx tsx src/terminal/import-logs-to-sqlite.ts --task=<taskId>
  *   npx tsx src/terminal/import-logs-to-sqlite.ts --all
@@ -7,6 +7,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { calculatePredictFee } from '../trading/depth-calculator.js';
 
 function loadEnv() {
     const envPath = path.join(process.cwd(), '.env');
@@ -127,20 +128,6 @@ async function getPolyOrderbook(tokenId: string): Promise<{ bestBid: number; bes
     return null;
 }
 
-/**
- * Calculate Predict taker fee
- * Formula: fee = BaseFee% × min(Price, 1 - Price) × (1 - rebate)
- * Predict 有 10% 返点，实际费率 = 名义费率 × 0.9
- */
-const FEE_REBATE_PERCENT = 0.10;  // 10% 返点
-
-function calculatePredictTakerFee(price: number, feeRateBps: number): number {
-    const baseFeePercent = feeRateBps / 10000;  // bps to decimal
-    const minPrice = Math.min(price, 1 - price);
-    const grossFee = baseFeePercent * minPrice;
-    return grossFee * (1 - FEE_REBATE_PERCENT);  // 扣除 10% 返点
-}
-
 async function main() {
     const apiKey = process.env.PREDICT_API_KEY!;
     const predictUrl = 'https://api.predict.fun';
@@ -253,7 +240,7 @@ async function main() {
             console.log('  [ARBITRAGE ANALYSIS]');
 
             // Calculate Predict taker fee for the YES ask price
-            const predictFee = calculatePredictTakerFee(pYesAsk, feeRateBps);
+            const predictFee = calculatePredictFee(pYesAsk, feeRateBps);
 
             // Method 1: TAKER - Buy YES at ask on Predict + Buy NO at ask on Polymarket + fee
             const takerCost = pYesAsk + pmNoAsk + predictFee;
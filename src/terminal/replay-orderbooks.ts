@@ -0,0 +1,250 @@
+/**
+ * 订单簿回放 CLI
+ *
+ * 离线回放 ORDERBOOK_RECORD_DIR 录制的 tape，在每次订单簿更新后
+ * 用与 Dashboard 相同的口径跑 calculateDepth / calculateNoSideDepth，
+ * 输出套利窗口的出现/消失时刻及汇总。
+ *
+ * 使用：
+ *   npm run replay -- <tape 目录或文件> [--speed=0] [--from=<ISO|ms>] [--to=<ISO|ms>] [--max-gap=<ms>] [--market=<predictId>]
+ *
+ * --speed=1 按录制节奏回放，--speed=10 为 10 倍速，默认 0 (不等待)
+ */
+
+import { calculateDepth, calculateNoSideDepth, type OrderBookLevel } from '../trading/depth-calculator.js';
+import { PolymarketWebSocketClient } from '../polymarket/ws-client.js';
+import { initPredictOrderbookCache, stopPredictOrderbookCache } from '../services/predict-orderbook-cache.js';
+import {
+    OrderbookReplayDriver,
+    listTapeFiles,
+    type ReplayOptions,
+    type TapeMarketPair,
+} from '../services/orderbook-tape/index.js';
+
+// ============================================================================
+// 工具函数
+// ============================================================================
+
+function formatTimestamp(ts: number): string {
+    return new Date(ts).toISOString().replace('T', ' ').substring(0, 23);
+}
+
+function formatDuration(ms: number): string {
+    if (ms < 1000) return `${ms}ms`;
+    if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+    return `${(ms / 60000).toFixed(1)}m`;
+}
+
+function parseTime(value: string): number {
+    const asNumber = Number(value);
+    if (Number.isFinite(asNumber)) return asNumber;
+    const parsed = Date.parse(value);
+    if (Number.isNaN(parsed)) {
+        throw new Error(`Invalid time: ${value}`);
+    }
+    return parsed;
+}
+
+// ============================================================================
+// 套利窗口跟踪
+// ============================================================================
+
+interface OpportunityWindow {
+    key: string;
+    pair: TapeMarketPair;
+    label: string;          // e.g. YES MAKER
+    openedAt: number;
+    bestProfit: number;
+    maxQuantity: number;
+}
+
+interface OpportunitySummary {
+    key: string;
+    title: string;
+    label: string;
+    windows: number;
+    totalDurationMs: number;
+    bestProfit: number;
+    maxQuantity: number;
+}
+
+const openWindows = new Map<string, OpportunityWindow>();
+const summaries = new Map<string, OpportunitySummary>();
+
+function updateWindow(pair: TapeMarketPair, label: string, active: boolean, profit: number, quantity: number, ts: number): void {
+    const key = `${pair.predictId}:${label}`;
+    const window = openWindows.get(key);
+
+    if (active) {
+        if (!window) {
+            openWindows.set(key, { key, pair, label, openedAt: ts, bestProfit: profit, maxQuantity: quantity });
+            console.log(`${formatTimestamp(ts)}  OPEN   #${pair.predictId} ${label.padEnd(10)} profit=${(profit * 100).toFixed(2)}% qty=${quantity.toFixed(0)}  ${pair.predictTitle}`);
+        } else {
+            window.bestProfit = Math.max(window.bestProfit, profit);
+            window.maxQuantity = Math.max(window.maxQuantity, quantity);
+        }
+        return;
+    }
+
+    if (window) {
+        closeWindow(window, ts);
+    }
+}
+
+function closeWindow(window: OpportunityWindow, ts: number): void {
+    openWindows.delete(window.key);
+    const duration = ts - window.openedAt;
+    console.log(`${formatTimestamp(ts)}  CLOSE  #${window.pair.predictId} ${window.label.padEnd(10)} after ${formatDuration(duration)} (best=${(window.bestProfit * 100).toFixed(2)}%)`);
+
+    const summary = summaries.get(window.key) ?? {
+        key: window.key,
+        title: window.pair.predictTitle,
+        label: window.label,
+        windows: 0,
+        totalDurationMs: 0,
+        bestProfit: 0,
+        maxQuantity: 0,
+    };
+    summary.windows++;
+    summary.totalDurationMs += duration;
+    summary.bestProfit = Math.max(summary.bestProfit, window.bestProfit);
+    summary.maxQuantity = Math.max(summary.maxQuantity, window.maxQuantity);
+    summaries.set(window.key, summary);
+}
+
+// ============================================================================
+// 主流程
+// ============================================================================
+
+async function main(): Promise<void> {
+    const args = process.argv.slice(2);
+    const target = args.find(a => !a.startsWith('--'));
+    if (!target) {
+        console.log('Usage:');
+        console.log('  npm run replay -- <tapeDirOrFile> [--speed=0] [--from=<ISO|ms>] [--to=<ISO|ms>] [--max-gap=<ms>] [--market=<predictId>]');
+        process.exitCode = 1;
+        return;
+    }
+
+    const options: Partial<ReplayOptions> = { speed: 0 };
+    let marketFilter: number | null = null;
+    for (const arg of args) {
+        if (arg.startsWith('--speed=')) options.speed = Number(arg.replace('--speed=', ''));
+        else if (arg.startsWith('--from=')) options.fromTs = parseTime(arg.replace('--from=', ''));
+        else if (arg.startsWith('--to=')) options.toTs = parseTime(arg.replace('--to=', ''));
+        else if (arg.startsWith('--max-gap=')) options.maxGapMs = Number(arg.replace('--max-gap=', ''));
+        else if (arg.startsWith('--market=')) marketFilter = Number(arg.replace('--market=', ''));
+    }
+
+    const files = listTapeFiles(target);
+    if (files.length === 0) {
+        console.error(`No tape files found in ${target}`);
+        process.exitCode = 1;
+        return;
+    }
+
+    // 离线缓存：不连接 WS，不走 REST
+    const predictCache = await initPredictOrderbookCache({
+        apiKey: 'replay',
+        wsEnabled: false,
+        restEnabled: false,
+        allowStale: true,
+    });
+    const polymarketWs = new PolymarketWebSocketClient();
+    const driver = new OrderbookReplayDriver({ predictCache, polymarketWs }, options);
+
+    const pairsByPredictId = new Map<number, TapeMarketPair>();
+    const pairsByToken = new Map<string, TapeMarketPair[]>();
+
+    driver.on('meta', (pairs: TapeMarketPair[]) => {
+        pairsByPredictId.clear();
+        pairsByToken.clear();
+        for (const pair of pairs) {
+            if (marketFilter !== null && pair.predictId !== marketFilter) continue;
+            pairsByPredictId.set(pair.predictId, pair);
+            if (pair.polymarketTokenId) {
+                const list = pairsByToken.get(pair.polymarketTokenId) ?? [];
+                list.push(pair);
+                pairsByToken.set(pair.polymarketTokenId, list);
+            }
+        }
+    });
+
+    const evaluate = (pair: TapeMarketPair): void => {
+        const ts = driver.now();
+        if (ts === null || !pair.polymarketTokenId) return;
+
+        const predictBook = predictCache.getOrderbookSync(pair.predictId);
+        const polyBook = polymarketWs.getOrderBook(pair.polymarketTokenId);
+        if (!predictBook || !polyBook) return;
+        if (predictBook.bids.length === 0 || predictBook.asks.length === 0) return;
+
+        // 与 Dashboard 口径一致：polymarketTokenId 为 NO 订单簿，inverted 市场用 1 - NO bid 作为 YES ask
+        const polyNoAsks: OrderBookLevel[] = polyBook.asks.map(([price, size]) => ({ price, size }));
+        const polyNoBids: OrderBookLevel[] = polyBook.bids.map(([price, size]) => ({ price, size }));
+        const polyHedgeAsks = pair.isInverted
+            ? polyNoBids.map(l => ({ price: 1 - l.price, size: l.size })).sort((a, b) => a.price - b.price)
+            : polyNoAsks;
+
+        const depth = calculateDepth(predictBook.bids, predictBook.asks, polyHedgeAsks, pair.feeRateBps || 200);
+        updateWindow(pair, 'YES MAKER', depth.makerCost < 1 && depth.makerProfit > 0, depth.makerProfit, depth.makerMaxQuantity, ts);
+        updateWindow(pair, 'YES TAKER', depth.takerMaxQuantity > 0, depth.takerProfit, depth.takerMaxQuantity, ts);
+
+        if (!pair.isInverted && polyNoBids.length > 0) {
+            const noDepth = calculateNoSideDepth(predictBook.bids, predictBook.asks, polyNoBids, pair.feeRateBps || 200);
+            updateWindow(pair, 'NO MAKER', noDepth.makerCost < 1 && noDepth.makerProfit > 0, noDepth.makerProfit, noDepth.makerMaxQuantity, ts);
+            updateWindow(pair, 'NO TAKER', noDepth.takerMaxQuantity > 0, noDepth.takerProfit, noDepth.takerMaxQuantity, ts);
+        }
+    };
+
+    predictCache.onUpdate((marketId) => {
+        const pair = pairsByPredictId.get(marketId);
+        if (pair) evaluate(pair);
+    });
+    polymarketWs.addOrderBookListener((book) => {
+        for (const pair of pairsByToken.get(book.assetId) ?? []) {
+            evaluate(pair);
+        }
+    });
+
+    process.on('SIGINT', () => driver.stop());
+
+    console.log(`[Replay] ${files.length} 个文件，速度=${options.speed === 0 ? 'max' : `${options.speed}x`}\n`);
+    const stats = await driver.run(files);
+
+    // 回放结束时仍打开的窗口按最后时刻收尾
+    if (stats.lastTs !== null) {
+        for (const window of Array.from(openWindows.values())) {
+            closeWindow(window, stats.lastTs);
+        }
+    }
+
+    console.log('\n' + '='.repeat(80));
+    console.log('Replay Summary');
+    console.log('='.repeat(80));
+    if (stats.firstTs !== null && stats.lastTs !== null) {
+        console.log(`Tape: ${formatTimestamp(stats.firstTs)} → ${formatTimestamp(stats.lastTs)} (${formatDuration(stats.lastTs - stats.firstTs)})`);
+    }
+    console.log(`Records: ${stats.records} (predict=${stats.predictRecords}, polymarket=${stats.polymarketRecords}, meta=${stats.metaRecords}, warmup=${stats.warmupRecords})`);
+    console.log(`Files: ${stats.files} (truncated=${stats.truncatedFiles}), wall time ${formatDuration(stats.elapsedMs)}`);
+    console.log('');
+
+    const rows = Array.from(summaries.values()).sort((a, b) => b.totalDurationMs - a.totalDurationMs);
+    if (rows.length === 0) {
+        console.log('No arbitrage windows found.');
+    }
+    for (const row of rows) {
+        console.log(
+            `${row.label.padEnd(10)} ${String(row.windows).padStart(4)} windows  ` +
+            `${formatDuration(row.totalDurationMs).padStart(8)}  best=${(row.bestProfit * 100).toFixed(2)}%  ` +
+            `maxQty=${row.maxQuantity.toFixed(0)}  ${row.title}`
+        );
+    }
+
+    stopPredictOrderbookCache();
+}
+
+main().catch((err) => {
+    console.error('[Replay] 失败:', err?.message || err);
+    process.exitCode = 1;
+});
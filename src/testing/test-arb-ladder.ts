@@ -0,0 +1,101 @@
+/**
+ * 多档套利数量计算测试 (walkArbLadder，纯逻辑，不访问网络)
+ *
+ * 测试内容:
+ * 1. 单档 / 跨档撮合的数量、利润、平均成本、最差价格
+ * 2. maxQuantity / maxUnitCost 截断
+ * 3. MAKER 单档无限量、空档跳过、空订单簿
+ * 4. Polymarket 费率表计入边际成本
+ *
+ * 费率固定为 Predict 200 bps、无返点、Polymarket 默认 0，不读取 .env
+ *
+ * 用法: npx tsx src/testing/test-arb-ladder.ts
+ */
+
+import { walkArbLadder } from '../trading/depth-calculator.js';
+import { DEFAULT_FEE_MODEL_CONFIG, initFeeModel } from '../trading/fee-model.js';
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition: boolean, message: string): void {
+    if (condition) {
+        console.log(`   ✅ ${message}`);
+        passCount++;
+    } else {
+        console.log(`   ❌ ${message}`);
+        failCount++;
+    }
+}
+
+function near(a: number, b: number): boolean {
+    return Math.abs(a - b) < 1e-9;
+}
+
+initFeeModel({
+    predict: { ...DEFAULT_FEE_MODEL_CONFIG.predict, rebatePercent: 0, boostFeeMultiplier: 1 },
+    polymarket: { takerFeeBps: 0, makerFeeBps: 0, marketTakerFeeBps: { 'cond-fee': 100 } },
+});
+
+function testSingleLevel(): void {
+    console.log('\n1. 单档撮合');
+
+    // 0.40 + 0.50 + 200bps × 0.40 = 0.908
+    const r = walkArbLadder([{ price: 0.40, size: 100 }], [{ price: 0.50, size: 50 }], 200);
+    assert(near(r.quantity, 50), `数量受 Polymarket 深度限制 (实际 ${r.quantity})`);
+    assert(r.levels.length === 1 && near(r.levels[0].fee, 0.008) && near(r.levels[0].unitCost, 0.908), '边际成本含 Predict 手续费');
+    assert(near(r.profit, 0.092 * 50), `利润 = 0.092 × 50 (实际 ${r.profit})`);
+}
+
+function testMultiLevel(): void {
+    console.log('\n2. 跨档撮合');
+
+    const predict = [{ price: 0.40, size: 30 }, { price: 0.45, size: 100 }];
+    const hedge = [{ price: 0.50, size: 50 }, { price: 0.55, size: 100 }];
+
+    // 段1: 30 @ 0.908，段2: 20 @ 0.959，段3: 0.45 + 0.55 + 0.009 = 1.009 ≥ 1 停止
+    const r = walkArbLadder(predict, hedge, 200);
+    assert(near(r.quantity, 50) && r.levels.length === 2, `在边际成本 ≥ 1 处停止 (数量 ${r.quantity}，段数 ${r.levels.length})`);
+    assert(near(r.profit, 30 * 0.092 + 20 * 0.041), `累计利润 (实际 ${r.profit})`);
+    assert(near(r.avgCost, (30 * 0.908 + 20 * 0.959) / 50), `平均成本 (实际 ${r.avgCost})`);
+    assert(r.worstPredictPrice === 0.45 && r.worstPolymarketPrice === 0.50, '最差价格取最后一段');
+    assert(near(r.levels[1].cumulativeQuantity, 50) && near(r.levels[1].cumulativeProfit, r.profit), '逐段累计值');
+
+    const capped = walkArbLadder(predict, hedge, 200, 40);
+    assert(near(capped.quantity, 40) && near(capped.levels[1].quantity, 10), 'maxQuantity 截断最后一段');
+
+    const strict = walkArbLadder(predict, hedge, 200, Infinity, 0.959);
+    assert(near(strict.quantity, 30), 'maxUnitCost 为严格上限 (0.959 不成交)');
+}
+
+function testEdgeCases(): void {
+    console.log('\n3. 边界情况');
+
+    const maker = walkArbLadder([{ price: 0.40, size: Infinity }], [{ price: 0.50, size: 20 }, { price: 0.58, size: 30 }, { price: 0.61, size: 10 }], 0);
+    assert(near(maker.quantity, 50) && maker.levels.every(l => l.fee === 0), 'MAKER 单档无限量、无手续费，数量取对冲端可盈利深度');
+
+    const gaps = walkArbLadder([{ price: 0.40, size: 0 }, { price: 0.42, size: 10 }], [{ price: 0.50, size: 0 }, { price: 0.52, size: 10 }], 200);
+    assert(near(gaps.quantity, 10) && gaps.worstPredictPrice === 0.42 && gaps.worstPolymarketPrice === 0.52, '跳过数量为 0 的空档');
+
+    const empty = walkArbLadder([], [{ price: 0.50, size: 10 }], 200);
+    assert(empty.quantity === 0 && empty.profit === 0 && empty.levels.length === 0, '空订单簿返回空结果');
+
+    const none = walkArbLadder([{ price: 0.50, size: 10 }], [{ price: 0.50, size: 10 }], 200);
+    assert(none.quantity === 0, '首档即无利润时数量为 0');
+}
+
+function testPolymarketFee(): void {
+    console.log('\n4. Polymarket 费率表');
+
+    // 100 bps × min(0.50, 0.50) = 0.005
+    const r = walkArbLadder([{ price: 0.40, size: 10 }], [{ price: 0.50, size: 10 }], 200, Infinity, 1, { polymarketMarket: 'COND-FEE' });
+    assert(near(r.levels[0].hedgeFee, 0.005) && near(r.levels[0].unitCost, 0.913), '按 conditionId (不区分大小写) 计入 Polymarket 手续费');
+}
+
+testSingleLevel();
+testMultiLevel();
+testEdgeCases();
+testPolymarketFee();
+
+console.log(`\n通过: ${passCount}  失败: ${failCount}`);
+process.exit(failCount > 0 ? 1 : 0);
@@ -0,0 +1,272 @@
+/**
+ * 篮子任务回滚测试 (BasketExecutor + 模拟交易接口，不提交真实订单)
+ *
+ * 两腿 YES 篮子: Predict 腿 (深度较浅，先下) + Polymarket 腿
+ * 测试内容:
+ * 1. 后腿部分成交 → 先腿超出完整组数的部分按 best bid 卖出，任务 COMPLETED
+ * 2. 后腿未成交 → 先腿全部回滚，任务 UNWIND_COMPLETED 并计入回滚损失
+ * 3. 回滚卖单未成交 → 残余敞口高于最小下单金额，任务 HEDGE_FAILED
+ * 4. 首腿下单失败 → 无成交，任务 CANCELLED
+ * 5. 重启恢复 → 只对账已提交订单并回滚，不再下新腿
+ *
+ * 用法: npx tsx src/testing/test-basket-rollback.ts
+ */
+
+import type { Task } from '../dashboard/types.js';
+import type { BasketExecutor as BasketExecutorType, BasketExecutorDeps } from '../dashboard/basket/basket-executor.js';
+import type { BasketTaskLeg, BasketTaskSpec } from '../dashboard/basket/types.js';
+import { DEFAULT_FEE_MODEL_CONFIG, initFeeModel } from '../trading/fee-model.js';
+
+// 回滚只尝试一次 (跳过重试间隔)；需在加载执行器模块前设置
+process.env.BASKET_UNWIND_RETRIES = '1';
+const { BasketExecutor } = await import('../dashboard/basket/basket-executor.js');
+
+initFeeModel({
+    predict: { ...DEFAULT_FEE_MODEL_CONFIG.predict, rebatePercent: 0 },
+    polymarket: { ...DEFAULT_FEE_MODEL_CONFIG.polymarket, takerFeeBps: 0, marketTakerFeeBps: {} },
+});
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition: boolean, message: string): void {
+    if (condition) {
+        console.log(`   ✅ ${message}`);
+        passCount++;
+    } else {
+        console.log(`   ❌ ${message}`);
+        failCount++;
+    }
+}
+
+function near(a: number, b: number): boolean {
+    return Math.abs(a - b) < 1e-6;
+}
+
+// ============================================================================
+// 模拟交易接口
+// ============================================================================
+
+interface MockOrder {
+    venue: 'predict' | 'polymarket';
+    side: 'BUY' | 'SELL';
+    price: number;
+    quantity: number;
+    filledQty: number;
+}
+
+interface Scenario {
+    /** 下单时决定成交量；返回 null 表示下单失败 */
+    fill: (order: Omit<MockOrder, 'filledQty'>) => number | null;
+    predictBid?: number;
+}
+
+function createHarness(scenario: Scenario) {
+    const orders = new Map<string, MockOrder>();
+    const placed: MockOrder[] = [];
+    let seq = 0;
+
+    const place = (venue: MockOrder['venue'], input: { side: 'BUY' | 'SELL'; price: number; quantity: number }) => {
+        const filledQty = scenario.fill({ venue, side: input.side, price: input.price, quantity: input.quantity });
+        if (filledQty === null) return null;
+        const order: MockOrder = { venue, side: input.side, price: input.price, quantity: input.quantity, filledQty };
+        const id = `${venue === 'predict' ? '0x' : 'poly-'}${++seq}`;
+        orders.set(id, order);
+        placed.push(order);
+        return id;
+    };
+    const status = (id: string) => {
+        const order = orders.get(id);
+        if (!order) return null;
+        const filled = order.filledQty >= order.quantity;
+        return { status: filled ? 'FILLED' : 'CANCELLED', filledQty: order.filledQty, avgPrice: order.filledQty > 0 ? order.price : 0 };
+    };
+
+    const predictTrader = {
+        placeOrder: async (input: { side: 'BUY' | 'SELL'; price: number; quantity: number }) => {
+            const hash = place('predict', input);
+            return hash ? { success: true, hash } : { success: false, error: 'mock reject' };
+        },
+        pollOrderUntilFilled: async (hash: string) => status(hash),
+        getOrderStatus: async (hash: string) => status(hash),
+        cancelOrder: async () => true,
+        getOrderbook: async () => ({
+            bids: [[scenario.predictBid ?? 0.40, 100]] as [number, number][],
+            asks: [[0.40, 10]] as [number, number][],
+        }),
+    };
+    const polyTrader = {
+        placeOrder: async (input: { side: 'BUY' | 'SELL'; price: number; quantity: number }) => {
+            const orderId = place('polymarket', input);
+            return orderId ? { success: true, orderId } : { success: false, error: 'mock reject' };
+        },
+        pollOrderStatus: async (orderId: string) => {
+            const s = status(orderId);
+            return s ? { ...s, status: 'MATCHED' } : null;
+        },
+        getOrderStatus: async (orderId: string) => status(orderId),
+        cancelOrder: async () => true,
+        // NO token 订单簿: bid 0.45 → YES ask 0.55
+        getOrderbook: async () => ({ bids: [{ price: 0.45, size: 50 }], asks: [{ price: 0.50, size: 50 }] }),
+    };
+    const taskLogger = {
+        logOrderEvent: async () => {},
+        logUnwindEvent: async () => {},
+        logTaskLifecycle: async () => {},
+    };
+
+    const task = createTask();
+    const deps = {
+        predictTrader,
+        polyTrader,
+        taskLogger,
+        updateTask: (_taskId: string, update: Partial<Task>) => {
+            Object.assign(task, update);
+        },
+    } as unknown as BasketExecutorDeps;
+
+    const executor: BasketExecutorType = new BasketExecutor(deps);
+    return { executor, task, placed, predictTrader };
+}
+
+function createLeg(venue: BasketTaskLeg['venue'], index: number, limitPrice: number): BasketTaskLeg {
+    return {
+        outcome: {
+            predictMarketId: 100 + index,
+            name: `Outcome ${index}`,
+            conditionId: `0xcond${index}`,
+            yesTokenId: `yes-${index}`,
+            noTokenId: `no-${index}`,
+            feeRateBps: 0,
+            tickSize: 0.01,
+        },
+        venue,
+        limitPrice,
+        bestPrice: limitPrice,
+        avgPrice: limitPrice,
+        feePerShare: 0,
+        state: 'PENDING',
+        filledQty: 0,
+        fillAvgPrice: 0,
+        cost: 0,
+        unwoundQty: 0,
+        unwindAvgPrice: 0,
+    };
+}
+
+function createTask(): Task {
+    const basket: BasketTaskSpec = {
+        eventKey: 'test-event',
+        side: 'YES',
+        payout: 1,
+        maxUnitCost: 0.99,
+        legs: [createLeg('predict', 0, 0.40), createLeg('polymarket', 1, 0.55)],
+    };
+    return {
+        id: 'basket-test',
+        type: 'BUY',
+        status: 'PENDING',
+        marketId: 100,
+        title: 'Basket Test',
+        quantity: 10,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        basket,
+    } as unknown as Task;
+}
+
+// ============================================================================
+// 场景
+// ============================================================================
+
+async function testPartialSecondLeg(): Promise<void> {
+    console.log('\n1. 后腿部分成交 (Predict 10 / Polymarket 6)');
+
+    const { executor, task, placed } = createHarness({
+        fill: o => o.venue === 'polymarket' && o.side === 'BUY' ? 6 : o.quantity,
+    });
+    await executor.execute(task, new AbortController().signal);
+
+    const buys = placed.filter(o => o.side === 'BUY');
+    const sells = placed.filter(o => o.side === 'SELL');
+    assert(buys[0]?.venue === 'predict' && near(buys[0].quantity, 10), '深度较浅的 Predict 腿先下 10 份');
+    assert(buys[1]?.venue === 'polymarket' && near(buys[1].quantity, 10), '后腿数量 = 先腿成交量');
+    assert(sells.length === 1 && sells[0].venue === 'predict' && near(sells[0].quantity, 4) && sells[0].price === 0.40,
+        'Predict 腿超出的 4 份按 best bid 0.40 卖出');
+    assert(task.status === 'COMPLETED', `任务 COMPLETED (实际 ${task.status})`);
+    assert(near(task.predictFilledQty ?? 0, 6) && near(task.hedgedQty ?? 0, 6), '完整组数 = 6');
+    assert(near(task.unwindQty ?? 0, 4) && near(task.unwindLoss ?? 0, 0), '回滚 4 份，按成本价卖出无损失');
+    assert(near(task.actualProfit ?? 0, 6 * (1 - 0.40 - 0.55)), '利润按完整组数计算');
+}
+
+async function testSecondLegUnfilled(): Promise<void> {
+    console.log('\n2. 后腿未成交 (Predict 10 / Polymarket 0)');
+
+    const { executor, task, placed } = createHarness({
+        fill: o => o.venue === 'polymarket' ? 0 : o.quantity,
+        predictBid: 0.38,
+    });
+    await executor.execute(task, new AbortController().signal);
+
+    const sells = placed.filter(o => o.side === 'SELL');
+    assert(sells.length === 1 && near(sells[0].quantity, 10), 'Predict 腿 10 份全部回滚');
+    assert(task.status === 'UNWIND_COMPLETED', `任务 UNWIND_COMPLETED (实际 ${task.status})`);
+    assert(near(task.predictFilledQty ?? 0, 0) && near(task.actualProfit ?? 0, 0), '无完整组');
+    assert(near(task.unwindLoss ?? 0, 10 * (0.40 - 0.38)), `回滚损失 = 10 × 0.02 (实际 ${task.unwindLoss})`);
+}
+
+async function testUnwindUnfilled(): Promise<void> {
+    console.log('\n3. 回滚卖单未成交');
+
+    const { executor, task } = createHarness({
+        fill: o => {
+            if (o.side === 'SELL') return 0;
+            return o.venue === 'polymarket' ? 6 : o.quantity;
+        },
+    });
+    await executor.execute(task, new AbortController().signal);
+
+    assert(task.status === 'HEDGE_FAILED', `任务 HEDGE_FAILED (实际 ${task.status})`);
+    assert((task.error ?? '').includes('回滚未完成') && (task.error ?? '').includes('4.00'), `错误信息含残余份数 (${task.error})`);
+    const leg = task.basket?.legs.find(l => l.venue === 'predict');
+    assert(!!leg && near(leg.filledQty - leg.unwoundQty, 10), '残余腿的未回滚份数保留在任务中');
+}
+
+async function testFirstLegRejected(): Promise<void> {
+    console.log('\n4. 首腿下单失败');
+
+    const { executor, task, placed } = createHarness({ fill: () => null });
+    await executor.execute(task, new AbortController().signal);
+
+    assert(placed.length === 0, '没有任何订单');
+    assert(task.status === 'CANCELLED' && task.cancelReason === 'ORDER_TIMEOUT', `任务 CANCELLED (实际 ${task.status}/${task.cancelReason})`);
+}
+
+async function testRecovery(): Promise<void> {
+    console.log('\n5. 重启恢复 (Predict 腿已提交，Polymarket 腿未下单)');
+
+    const { executor, task, placed, predictTrader } = createHarness({ fill: o => o.quantity });
+    // 模拟重启前已提交并全部成交的 Predict 订单
+    const submitted = await predictTrader.placeOrder({ side: 'BUY', price: 0.40, quantity: 10 });
+    placed.length = 0;
+    const leg = task.basket!.legs[0];
+    leg.orderId = submitted.hash;
+    leg.state = 'SUBMITTED';
+    task.status = 'HEDGING';
+
+    await executor.execute(task, new AbortController().signal);
+
+    assert(placed.every(o => o.side === 'SELL'), '恢复时不再下新的买单');
+    assert(placed.length === 1 && near(placed[0].quantity, 10), '已成交的 Predict 腿全部回滚');
+    assert(task.status === 'UNWIND_COMPLETED', `任务 UNWIND_COMPLETED (实际 ${task.status})`);
+    assert(task.basket!.legs[0].state === 'SETTLED' && near(task.basket!.legs[0].filledQty, 10), '已提交腿按订单最终状态对账');
+}
+
+await testPartialSecondLeg();
+await testSecondLegUnfilled();
+await testUnwindUnfilled();
+await testFirstLegRejected();
+await testRecovery();
+
+console.log(`\n通过: ${passCount}  失败: ${failCount}`);
+process.exit(failCount > 0 ? 1 : 0);
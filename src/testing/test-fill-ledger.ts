@@ -0,0 +1,139 @@
+/**
+ * 做市成交账本 FIFO 回放测试 (纯逻辑 + 临时 SQLite，不访问网络)
+ *
+ * 测试内容:
+ * 1. consumeLots FIFO 扣减 / SCALP 优先成本 / 超量卖出
+ * 2. realizeSell 已实现盈亏
+ * 3. replayLedger 回放 (ADJUST 不计成交量)
+ * 4. FillLedger 写入 → restore 回放一致
+ *
+ * 用法: npx tsx src/testing/test-fill-ledger.ts
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    FillLedger,
+    consumeLots,
+    lotsAverageCost,
+    lotsPosition,
+    realizeSell,
+    replayLedger,
+    type LedgerRecordInput,
+} from '../market-maker/fill-ledger.js';
+import type { FifoLot, LedgerEntry } from '../market-maker/types.js';
+
+let passCount = 0;
+let failCount = 0;
+
+function assert(condition: boolean, message: string): void {
+    if (condition) {
+        console.log(`   ✅ ${message}`);
+        passCount++;
+    } else {
+        console.log(`   ❌ ${message}`);
+        failCount++;
+    }
+}
+
+function near(a: number, b: number): boolean {
+    return Math.abs(a - b) < 1e-9;
+}
+
+function lots(...items: [number, number][]): FifoLot[] {
+    return items.map(([price, quantity], i) => ({ price, quantity, openedAt: i }));
+}
+
+function entry(partial: Partial<LedgerRecordInput> & Pick<LedgerRecordInput, 'side' | 'price' | 'quantity'>): LedgerRecordInput {
+    return {
+        kind: 'FILL',
+        marketId: 1,
+        tokenId: 'tok',
+        outcome: 'YES',
+        orderId: '',
+        costPrice: null,
+        realizedPnL: 0,
+        strategy: null,
+        filledAt: 0,
+        ...partial,
+    };
+}
+
+function testConsumeLots(): void {
+    console.log('\n1. consumeLots');
+
+    const fifo = lots([0.40, 10], [0.50, 10]);
+    const r1 = consumeLots(fifo, 15);
+    assert(near(r1.matched, 15) && near(r1.cost, 10 * 0.40 + 5 * 0.50), 'FIFO 先扣最早批次');
+    assert(fifo.length === 1 && near(fifo[0].price, 0.50) && near(fifo[0].quantity, 5), '清空批次被移除，剩余批次数量正确');
+
+    const scalp = lots([0.40, 10], [0.50, 10]);
+    const r2 = consumeLots(scalp, 12, 0.50);
+    assert(near(r2.cost, 10 * 0.50 + 2 * 0.40), 'SCALP 先扣同成本批次，不足部分再按 FIFO');
+    assert(scalp.length === 1 && near(scalp[0].price, 0.40) && near(scalp[0].quantity, 8), 'SCALP 扣减后剩余早期批次');
+
+    const over = lots([0.30, 5]);
+    const r3 = consumeLots(over, 8);
+    assert(near(r3.matched, 5) && near(r3.cost, 1.5) && over.length === 0, '超出批次总量只匹配已有数量');
+
+    const avg = lots([0.40, 10], [0.60, 30]);
+    assert(near(lotsPosition(avg), 40) && near(lotsAverageCost(avg), 0.55), '批次总量与加权平均成本');
+    assert(lotsAverageCost([]) === 0, '空批次平均成本为 0');
+}
+
+function testRealizeSell(): void {
+    console.log('\n2. realizeSell');
+
+    const fifo = lots([0.40, 10], [0.50, 10]);
+    assert(near(realizeSell(fifo, 0.55, 15), 15 * 0.55 - (4 + 2.5)), '跨批次卖出盈亏');
+    assert(near(realizeSell(lots([0.40, 5]), 0.60, 8), 5 * 0.20), '超量部分按零盈亏');
+}
+
+function testReplay(): void {
+    console.log('\n3. replayLedger');
+
+    const entries: LedgerEntry[] = [
+        entry({ side: 'BUY', price: 0.40, quantity: 10, filledAt: 1 }),
+        entry({ side: 'BUY', price: 0.50, quantity: 10, filledAt: 2 }),
+        entry({ side: 'SELL', price: 0.55, quantity: 12, costPrice: 0.50, realizedPnL: 12 * 0.55 - (5 + 0.8), filledAt: 3 }),
+        entry({ kind: 'ADJUST', side: 'BUY', price: 0.45, quantity: 4, filledAt: 4 }),
+    ].map((e, i) => ({ id: i + 1, ...e }));
+
+    const snap = replayLedger(1, 'tok', entries);
+    assert(near(snap.position, 12), `持仓 = 8 + 4 (实际 ${snap.position})`);
+    assert(near(snap.inventoryCost, (8 * 0.40 + 4 * 0.45) / 12), '剩余批次加权成本');
+    assert(near(snap.realizedPnL, 12 * 0.55 - 5.8), '累计已实现盈亏');
+    assert(snap.fillCount === 3 && near(snap.totalBuyVolume, 20) && near(snap.totalSellVolume, 12), 'ADJUST 不计入成交次数与成交量');
+    assert(snap.lastFillPrice === 0.55 && snap.lastFillAt === 3, '最近成交取最后一笔 FILL');
+}
+
+function testStoreRoundTrip(): void {
+    console.log('\n4. FillLedger 写入 → restore');
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fill-ledger-'));
+    const ledger = new FillLedger(path.join(dir, 'fills.db'));
+    try {
+        ledger.record(entry({ side: 'BUY', price: 0.40, quantity: 10, filledAt: 1000 }));
+        ledger.record(entry({ side: 'BUY', price: 0.50, quantity: 10, filledAt: 2000 }));
+        ledger.record(entry({ side: 'SELL', price: 0.60, quantity: 15, realizedPnL: 15 * 0.60 - 6.5, filledAt: 3000 }));
+        ledger.record(entry({ tokenId: 'other', side: 'BUY', price: 0.90, quantity: 100, filledAt: 1500 }));
+
+        const snap = ledger.restore(1, 'tok');
+        assert(snap.lots.length === 1 && near(snap.lots[0].price, 0.50) && near(snap.lots[0].quantity, 5), '回放后剩余批次 5 @ 0.50');
+        assert(near(snap.realizedPnL, 2.5), '回放已实现盈亏');
+        assert(ledger.getEntries(1, 'tok').length === 3, '按 tokenId 隔离记录');
+        assert(ledger.getRecentFills(1)[0].filledAt === 3000, '最近成交按时间降序');
+    } finally {
+        ledger.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+testConsumeLots();
+testRealizeSell();
+testReplay();
+testStoreRoundTrip();
+
+console.log(`\n通过: ${passCount}  失败: ${failCount}`);
+process.exit(failCount > 0 ? 1 : 0);
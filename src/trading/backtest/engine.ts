@@ -0,0 +1,697 @@
+/**
+ * Backtest Engine - MAKER / TAKER 套利回测
+ *
+ * 入场信号与 Dashboard 完全一致 (calculateDepth / calculateNoSideDepth)，在其上模拟执行:
+ *
+ * MAKER:
+ * - 按 Predict 买一挂单，数量受对冲端深度限制
+ * - 排队: 挂单时同价位 size × queueAheadRatio 排在我们前面；
+ *   之后该价位 size 每减少 d，先消耗排队，剩余部分计为我们的成交 (撤单也会推进排队，偏乐观，由 queueAheadRatio 调节)
+ * - 对手盘穿价 (ask <= 挂单价) 时按穿价深度成交
+ * - 利润低于阈值 / 超时 / 被抢价时撤单，撤单在 predictLatencyMs 内仍可能成交
+ *
+ * TAKER:
+ * - 信号出现后 predictLatencyMs 按当时订单簿吃单 (限价 = 信号时 ask)，按档位计 taker 手续费
+ *
+ * 对冲:
+ * - Predict 成交后 hedgeLatencyMs 在 Polymarket 按当时订单簿吃单，限价 = 入场对冲价 + maxHedgeSlippage
+ * - 未成交部分每 hedgeRetryMs 重试 (订单簿未变化时跳过，避免重复吃同一份流动性)
+ *
+ * 引擎不直接读取 tape，由调用方在回放过程中驱动 (见 runner.ts):
+ * - advance(ts): 新记录应用前调用，处理到期的定时动作
+ * - onBookUpdate(predictIds, ts): 订单簿更新后调用
+ */
+
+import {
+    calculateDepth,
+    calculateNoSideDepth,
+    calculatePredictFee,
+    type OrderBookLevel,
+} from '../depth-calculator.js';
+import type { TapeMarketPair } from '../../services/orderbook-tape/index.js';
+import type {
+    BacktestAggregate,
+    BacktestConfig,
+    BacktestMarketResult,
+    BacktestSide,
+    BacktestSlotResult,
+    BacktestStrategy,
+} from './types.js';
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+    strategies: ['MAKER', 'TAKER'],
+    sides: ['YES', 'NO'],
+    quantity: 100,
+    makerMinProfit: 0,
+    takerMinProfit: 0.0001,
+    queueAheadRatio: 1,
+    predictLatencyMs: 300,
+    hedgeLatencyMs: 500,
+    hedgeRetryMs: 1000,
+    maxHedgeSlippage: 0.01,
+    makerOrderTimeoutMs: 0,
+    reentryCooldownMs: 5000,
+};
+
+const QTY_EPSILON = 1e-6;
+const PRICE_EPSILON = 1e-9;
+
+export interface BacktestBook {
+    bids: OrderBookLevel[];   // 降序
+    asks: OrderBookLevel[];   // 升序
+}
+
+export interface BacktestBookSource {
+    getPredictBook(marketId: number): BacktestBook | null;
+    getPolymarketBook(tokenId: string): BacktestBook | null;
+}
+
+// ============================================================================
+// 内部状态
+// ============================================================================
+
+interface Signal {
+    makerPrice: number;
+    takerPrice: number;
+    hedgePrice: number;
+    makerProfit: number;
+    takerProfit: number;
+    makerMaxQty: number;
+    takerMaxQty: number;
+}
+
+interface MakerOrder {
+    price: number;
+    qty: number;
+    filled: number;
+    queueAhead: number;
+    lastLevelSize: number;
+    placedAt: number;
+    hedgeRefPrice: number;
+    cancelAt: number | null;
+}
+
+interface PendingTaker {
+    dueTs: number;
+    limitPrice: number;
+    qty: number;
+    hedgeRefPrice: number;
+}
+
+interface PendingHedge {
+    dueTs: number;
+    qty: number;
+    refPrice: number;
+    limitPrice: number;
+    lastBookSignature?: string;
+}
+
+interface Slot {
+    key: string;
+    pair: TapeMarketPair;
+    side: BacktestSide;
+    strategy: BacktestStrategy;
+    result: BacktestSlotResult;
+
+    makerOrder: MakerOrder | null;
+    pendingTaker: PendingTaker | null;
+    hedges: PendingHedge[];
+    cooldownUntil: number;
+
+    unhedgedQty: number;
+    unhedgedCost: number;      // 未对冲库存的成本基础 (含手续费)
+    lastExposureTs: number | null;
+
+    equity: number;
+    peakEquity: number;
+}
+
+interface EquityTracker {
+    equity: number;
+    peak: number;
+    maxDrawdown: number;
+}
+
+function emptySlotResult(pair: TapeMarketPair, side: BacktestSide, strategy: BacktestStrategy): BacktestSlotResult {
+    return {
+        predictId: pair.predictId,
+        title: pair.predictTitle,
+        side,
+        strategy,
+        signals: 0,
+        orders: 0,
+        filledOrders: 0,
+        quotedQty: 0,
+        predictFilledQty: 0,
+        hedgedQty: 0,
+        unhedgedQty: 0,
+        fillRate: 0,
+        hedgeRate: 0,
+        predictCost: 0,
+        hedgeCost: 0,
+        fees: 0,
+        hedgeSlippage: 0,
+        lockedPnl: 0,
+        unhedgedPnl: 0,
+        totalPnl: 0,
+        unhedgedExposureMs: 0,
+        unhedgedShareSeconds: 0,
+        maxUnhedgedQty: 0,
+        maxDrawdown: 0,
+    };
+}
+
+function floorQty(qty: number): number {
+    return Math.floor(qty * 100 + QTY_EPSILON) / 100;
+}
+
+function invert(levels: OrderBookLevel[]): OrderBookLevel[] {
+    return levels.map(l => ({ price: Number((1 - l.price).toFixed(6)), size: l.size }));
+}
+
+function bookSignature(levels: OrderBookLevel[]): string {
+    return levels.map(l => `${l.price}:${l.size}`).join('|');
+}
+
+// ============================================================================
+// BacktestEngine
+// ============================================================================
+
+export class BacktestEngine {
+    private readonly config: BacktestConfig;
+    private readonly books: BacktestBookSource;
+    private slots = new Map<string, Slot>();
+    private slotsByMarket = new Map<number, Slot[]>();
+    private pairsByToken = new Map<string, number[]>();
+    private marketEquity = new Map<number, EquityTracker>();
+    private totalEquity: EquityTracker = { equity: 0, peak: 0, maxDrawdown: 0 };
+
+    constructor(books: BacktestBookSource, config: Partial<BacktestConfig> = {}) {
+        this.books = books;
+        this.config = { ...DEFAULT_BACKTEST_CONFIG, ...config };
+    }
+
+    getConfig(): BacktestConfig {
+        return this.config;
+    }
+
+    /**
+     * 注册市场对 (tape meta 记录)，已存在的市场保留状态
+     */
+    setMarketPairs(pairs: TapeMarketPair[]): void {
+        for (const pair of pairs) {
+            if (!pair.polymarketTokenId || this.slotsByMarket.has(pair.predictId)) continue;
+
+            const slots: Slot[] = [];
+            for (const side of this.config.sides) {
+                for (const strategy of this.config.strategies) {
+                    const slot = this.createSlot(pair, side, strategy);
+                    this.slots.set(slot.key, slot);
+                    slots.push(slot);
+                }
+            }
+            this.slotsByMarket.set(pair.predictId, slots);
+            this.marketEquity.set(pair.predictId, { equity: 0, peak: 0, maxDrawdown: 0 });
+
+            const list = this.pairsByToken.get(pair.polymarketTokenId) ?? [];
+            list.push(pair.predictId);
+            this.pairsByToken.set(pair.polymarketTokenId, list);
+        }
+    }
+
+    getMarketIdsForToken(tokenId: string): number[] {
+        return this.pairsByToken.get(tokenId) ?? [];
+    }
+
+    hasMarket(predictId: number): boolean {
+        return this.slotsByMarket.has(predictId);
+    }
+
+    /**
+     * 推进时间到 ts (新记录应用前)，处理到期的吃单/撤单/对冲
+     */
+    advance(ts: number): void {
+        for (const slot of this.slots.values()) {
+            // 到期动作按各自的到期时刻记账，最后再把敞口累计到 ts
+            if (slot.pendingTaker && slot.pendingTaker.dueTs <= ts) {
+                this.executeTaker(slot, slot.pendingTaker);
+                slot.pendingTaker = null;
+            }
+
+            if (slot.makerOrder && slot.makerOrder.cancelAt !== null && slot.makerOrder.cancelAt <= ts) {
+                slot.makerOrder = null;
+            }
+
+            if (slot.hedges.length > 0) {
+                this.processHedges(slot, ts);
+            }
+
+            this.accrueExposure(slot, ts);
+        }
+    }
+
+    /**
+     * 订单簿更新后调用
+     */
+    onBookUpdate(predictIds: Iterable<number>, ts: number): void {
+        for (const predictId of predictIds) {
+            const slots = this.slotsByMarket.get(predictId);
+            if (!slots) continue;
+            for (const slot of slots) {
+                this.evaluateSlot(slot, ts);
+                this.markToMarket(slot);
+            }
+        }
+    }
+
+    /**
+     * 结束回测，输出统计
+     */
+    finish(endTs: number | null): { aggregate: BacktestAggregate; markets: BacktestMarketResult[] } {
+        const markets: BacktestMarketResult[] = [];
+
+        for (const [predictId, slots] of this.slotsByMarket) {
+            for (const slot of slots) {
+                if (endTs !== null) this.accrueExposure(slot, endTs);
+                this.markToMarket(slot);
+                this.finalizeSlotResult(slot);
+            }
+
+            const active = slots.filter(s => s.result.orders > 0);
+            if (active.length === 0) continue;
+
+            markets.push({
+                predictId,
+                title: slots[0].pair.predictTitle,
+                totalPnl: active.reduce((sum, s) => sum + s.result.totalPnl, 0),
+                maxDrawdown: this.marketEquity.get(predictId)?.maxDrawdown ?? 0,
+                slots: active.map(s => s.result),
+            });
+        }
+
+        markets.sort((a, b) => b.totalPnl - a.totalPnl);
+        return { aggregate: this.buildAggregate(markets), markets };
+    }
+
+    // ========================================================================
+    // 信号与入场
+    // ========================================================================
+
+    private evaluateSlot(slot: Slot, ts: number): void {
+        const signal = this.computeSignal(slot);
+
+        if (slot.makerOrder) {
+            this.updateMakerFills(slot, slot.makerOrder, ts);
+            if (slot.makerOrder && slot.makerOrder.cancelAt === null) {
+                this.checkMakerCancel(slot, slot.makerOrder, signal, ts);
+            }
+            return;
+        }
+
+        if (!signal || slot.pendingTaker || slot.unhedgedQty > QTY_EPSILON || ts < slot.cooldownUntil) {
+            return;
+        }
+
+        if (slot.strategy === 'MAKER') {
+            if (signal.makerMaxQty <= 0 || signal.makerProfit < this.config.makerMinProfit) return;
+            const qty = floorQty(Math.min(this.config.quantity, signal.makerMaxQty));
+            if (qty <= 0) return;
+
+            const levelSize = this.getPredictOutcomeBook(slot)?.bids.find(l => Math.abs(l.price - signal.makerPrice) < PRICE_EPSILON)?.size ?? 0;
+            slot.makerOrder = {
+                price: signal.makerPrice,
+                qty,
+                filled: 0,
+                queueAhead: levelSize * this.config.queueAheadRatio,
+                lastLevelSize: levelSize,
+                // 挂单在下单延迟后才进入订单簿
+                placedAt: ts + this.config.predictLatencyMs,
+                hedgeRefPrice: signal.hedgePrice,
+                cancelAt: null,
+            };
+            slot.result.signals++;
+            slot.result.orders++;
+            slot.result.quotedQty += qty;
+            return;
+        }
+
+        if (signal.takerMaxQty <= 0 || signal.takerProfit < this.config.takerMinProfit) return;
+        const qty = floorQty(Math.min(this.config.quantity, signal.takerMaxQty));
+        if (qty <= 0) return;
+
+        slot.pendingTaker = {
+            dueTs: ts + this.config.predictLatencyMs,
+            limitPrice: signal.takerPrice,
+            qty,
+            hedgeRefPrice: signal.hedgePrice,
+        };
+        slot.result.signals++;
+        slot.result.orders++;
+        slot.result.quotedQty += qty;
+    }
+
+    private computeSignal(slot: Slot): Signal | null {
+        const predict = this.books.getPredictBook(slot.pair.predictId);
+        const poly = this.books.getPolymarketBook(slot.pair.polymarketTokenId!);
+        if (!predict || !poly) return null;
+        if (predict.bids.length === 0 || predict.asks.length === 0) return null;
+
+        const feeRateBps = slot.pair.feeRateBps || 200;
+
+        if (slot.side === 'YES') {
+            const hedgeAsks = this.getHedgeAsks(slot, poly);
+            if (hedgeAsks.length === 0) return null;
+            const depth = calculateDepth(predict.bids, predict.asks, hedgeAsks, feeRateBps);
+            return {
+                makerPrice: depth.predictYesBid,
+                takerPrice: depth.predictYesAsk,
+                hedgePrice: depth.polymarketNoAsk,
+                makerProfit: depth.makerProfit,
+                takerProfit: depth.takerProfit,
+                makerMaxQty: depth.makerMaxQuantity,
+                takerMaxQty: depth.takerMaxQuantity,
+            };
+        }
+
+        // calculateNoSideDepth 以 "Polymarket NO bids" 口径输入，inverted 时传入 1 - NO ask (反演后即为 NO asks)
+        const hedgeBids = slot.pair.isInverted ? invert(poly.asks).sort((a, b) => b.price - a.price) : poly.bids;
+        if (hedgeBids.length === 0) return null;
+        const noDepth = calculateNoSideDepth(predict.bids, predict.asks, hedgeBids, feeRateBps);
+        return {
+            makerPrice: noDepth.predictNoBid,
+            takerPrice: noDepth.predictNoAsk,
+            hedgePrice: noDepth.polymarketYesAsk,
+            makerProfit: noDepth.makerProfit,
+            takerProfit: noDepth.takerProfit,
+            makerMaxQty: noDepth.makerMaxQuantity,
+            takerMaxQty: noDepth.takerMaxQuantity,
+        };
+    }
+
+    // ========================================================================
+    // Maker 成交模拟
+    // ========================================================================
+
+    private updateMakerFills(slot: Slot, order: MakerOrder, ts: number): void {
+        const book = this.getPredictOutcomeBook(slot);
+        if (!book) return;
+
+        const levelSize = book.bids.find(l => Math.abs(l.price - order.price) < PRICE_EPSILON)?.size ?? 0;
+        if (ts < order.placedAt) {
+            // 尚未进入订单簿: 只更新排队基准
+            order.lastLevelSize = levelSize;
+            order.queueAhead = levelSize * this.config.queueAheadRatio;
+            return;
+        }
+
+        const remaining = () => order.qty - order.filled;
+
+        // 对手盘穿价: 直接按穿价深度成交
+        const crossed = book.asks
+            .filter(l => l.price <= order.price + PRICE_EPSILON)
+            .reduce((sum, l) => sum + l.size, 0);
+        if (crossed > 0) {
+            this.applyMakerFill(slot, order, floorQty(Math.min(remaining(), crossed)), ts);
+        }
+
+        // 同价位排队推进
+        const consumed = order.lastLevelSize - levelSize;
+        if (consumed > 0 && remaining() > QTY_EPSILON) {
+            const fill = floorQty(Math.min(remaining(), Math.max(0, consumed - order.queueAhead)));
+            order.queueAhead = Math.max(0, order.queueAhead - consumed);
+            if (fill > 0) this.applyMakerFill(slot, order, fill, ts);
+        }
+        order.lastLevelSize = levelSize;
+
+        if (remaining() <= QTY_EPSILON) {
+            slot.makerOrder = null;
+            slot.cooldownUntil = ts + this.config.reentryCooldownMs;
+        }
+    }
+
+    private applyMakerFill(slot: Slot, order: MakerOrder, qty: number, ts: number): void {
+        if (qty <= 0) return;
+        if (order.filled === 0) slot.result.filledOrders++;
+        order.filled = floorQty(order.filled + qty);
+
+        const cost = order.price * qty;
+        slot.result.predictFilledQty += qty;
+        slot.result.predictCost += cost;
+        this.addUnhedged(slot, qty, cost, ts);
+        this.scheduleHedge(slot, qty, order.hedgeRefPrice, ts);
+    }
+
+    private checkMakerCancel(slot: Slot, order: MakerOrder, signal: Signal | null, ts: number): void {
+        const timedOut = this.config.makerOrderTimeoutMs > 0 && ts - order.placedAt >= this.config.makerOrderTimeoutMs;
+        const unprofitable = !signal
+            || 1 - (order.price + signal.hedgePrice) < this.config.makerMinProfit - PRICE_EPSILON;
+        const outbid = !!signal && signal.makerPrice > order.price + PRICE_EPSILON;
+
+        if (timedOut || unprofitable || outbid) {
+            order.cancelAt = ts + this.config.predictLatencyMs;
+        }
+    }
+
+    // ========================================================================
+    // Taker / 对冲
+    // ========================================================================
+
+    private executeTaker(slot: Slot, pending: PendingTaker): void {
+        const book = this.getPredictOutcomeBook(slot);
+        const feeRateBps = slot.pair.feeRateBps || 200;
+        let remaining = pending.qty;
+        let filled = 0;
+        let cost = 0;
+        let fees = 0;
+
+        for (const level of book?.asks ?? []) {
+            if (remaining <= QTY_EPSILON || level.price > pending.limitPrice + PRICE_EPSILON) break;
+            const qty = floorQty(Math.min(remaining, level.size));
+            if (qty <= 0) continue;
+            const fee = calculatePredictFee(level.price, feeRateBps) * qty;
+            cost += level.price * qty + fee;
+            fees += fee;
+            filled += qty;
+            remaining -= qty;
+        }
+
+        slot.cooldownUntil = pending.dueTs + this.config.reentryCooldownMs;
+        if (filled <= 0) return;
+
+        slot.result.filledOrders++;
+        slot.result.predictFilledQty += filled;
+        slot.result.predictCost += cost;
+        slot.result.fees += fees;
+        this.addUnhedged(slot, filled, cost, pending.dueTs);
+        this.scheduleHedge(slot, filled, pending.hedgeRefPrice, pending.dueTs);
+    }
+
+    private scheduleHedge(slot: Slot, qty: number, refPrice: number, ts: number): void {
+        slot.hedges.push({
+            dueTs: ts + this.config.hedgeLatencyMs,
+            qty,
+            refPrice,
+            limitPrice: refPrice + this.config.maxHedgeSlippage,
+        });
+    }
+
+    private processHedges(slot: Slot, ts: number): void {
+        const poly = this.books.getPolymarketBook(slot.pair.polymarketTokenId!);
+        const asks = poly ? this.getHedgeAsks(slot, poly) : [];
+        const signature = bookSignature(asks);
+
+        for (const hedge of slot.hedges) {
+            if (hedge.dueTs > ts) continue;
+            if (hedge.lastBookSignature === signature) {
+                hedge.dueTs = ts + this.config.hedgeRetryMs;
+                continue;
+            }
+            hedge.lastBookSignature = signature;
+
+            let filled = 0;
+            let cost = 0;
+            for (const level of asks) {
+                const remaining = hedge.qty - filled;
+                if (remaining <= QTY_EPSILON || level.price > hedge.limitPrice + PRICE_EPSILON) break;
+                const qty = floorQty(Math.min(remaining, level.size));
+                if (qty <= 0) continue;
+                filled += qty;
+                cost += level.price * qty;
+            }
+
+            if (filled > 0) {
+                this.applyHedgeFill(slot, hedge, filled, cost, hedge.dueTs);
+                hedge.qty = floorQty(hedge.qty - filled);
+            }
+            hedge.dueTs = ts + this.config.hedgeRetryMs;
+        }
+
+        slot.hedges = slot.hedges.filter(h => h.qty > QTY_EPSILON);
+        this.markToMarket(slot);
+    }
+
+    private applyHedgeFill(slot: Slot, hedge: PendingHedge, qty: number, cost: number, ts: number): void {
+        this.accrueExposure(slot, ts);
+
+        const avgEntry = slot.unhedgedQty > QTY_EPSILON ? slot.unhedgedCost / slot.unhedgedQty : 0;
+        const matched = Math.min(qty, slot.unhedgedQty);
+        slot.unhedgedCost = Math.max(0, slot.unhedgedCost - avgEntry * matched);
+        slot.unhedgedQty = floorQty(slot.unhedgedQty - matched);
+
+        slot.result.hedgedQty += qty;
+        slot.result.hedgeCost += cost;
+        slot.result.hedgeSlippage += cost - hedge.refPrice * qty;
+        // 每对 (Predict 份额 + 对冲份额) 结算时价值 1
+        slot.result.lockedPnl += qty - avgEntry * matched - cost;
+    }
+
+    // ========================================================================
+    // 敞口与盯市
+    // ========================================================================
+
+    private addUnhedged(slot: Slot, qty: number, cost: number, ts: number): void {
+        this.accrueExposure(slot, ts);
+        slot.unhedgedQty = floorQty(slot.unhedgedQty + qty);
+        slot.unhedgedCost += cost;
+        slot.result.maxUnhedgedQty = Math.max(slot.result.maxUnhedgedQty, slot.unhedgedQty);
+    }
+
+    private accrueExposure(slot: Slot, ts: number): void {
+        if (slot.lastExposureTs !== null && ts > slot.lastExposureTs && slot.unhedgedQty > QTY_EPSILON) {
+            const dt = ts - slot.lastExposureTs;
+            slot.result.unhedgedExposureMs += dt;
+            slot.result.unhedgedShareSeconds += slot.unhedgedQty * dt / 1000;
+        }
+        if (slot.lastExposureTs === null || ts > slot.lastExposureTs) {
+            slot.lastExposureTs = ts;
+        }
+    }
+
+    private markToMarket(slot: Slot): void {
+        let unhedgedPnl = 0;
+        if (slot.unhedgedQty > QTY_EPSILON) {
+            // 未对冲库存按 Predict 买一变现估值
+            const bestBid = this.getPredictOutcomeBook(slot)?.bids[0]?.price ?? 0;
+            unhedgedPnl = slot.unhedgedQty * bestBid - slot.unhedgedCost;
+        }
+        slot.result.unhedgedPnl = unhedgedPnl;
+
+        const equity = slot.result.lockedPnl + unhedgedPnl;
+        const delta = equity - slot.equity;
+        slot.equity = equity;
+        slot.peakEquity = Math.max(slot.peakEquity, equity);
+        slot.result.maxDrawdown = Math.max(slot.result.maxDrawdown, slot.peakEquity - equity);
+
+        if (delta !== 0) {
+            const market = this.marketEquity.get(slot.pair.predictId);
+            if (market) this.applyEquityDelta(market, delta);
+            this.applyEquityDelta(this.totalEquity, delta);
+        }
+    }
+
+    private applyEquityDelta(tracker: EquityTracker, delta: number): void {
+        tracker.equity += delta;
+        tracker.peak = Math.max(tracker.peak, tracker.equity);
+        tracker.maxDrawdown = Math.max(tracker.maxDrawdown, tracker.peak - tracker.equity);
+    }
+
+    // ========================================================================
+    // 订单簿视图
+    // ========================================================================
+
+    /**
+     * Predict 交易方向的订单簿 (NO 由 YES 镜像得到)
+     */
+    private getPredictOutcomeBook(slot: Slot): BacktestBook | null {
+        const book = this.books.getPredictBook(slot.pair.predictId);
+        if (!book) return null;
+        if (slot.side === 'YES') return book;
+        return {
+            bids: invert(book.asks).sort((a, b) => b.price - a.price),
+            asks: invert(book.bids).sort((a, b) => a.price - b.price),
+        };
+    }
+
+    /**
+     * Polymarket 对冲方向的卖盘 (polymarketTokenId 为 NO 订单簿，与 Dashboard 一致)
+     * - YES 端正常市场 / NO 端 inverted 市场: NO asks
+     * - YES 端 inverted 市场 / NO 端正常市场: YES asks = 1 - NO bids
+     */
+    private getHedgeAsks(slot: Slot, poly: BacktestBook): OrderBookLevel[] {
+        if ((slot.side === 'YES') !== slot.pair.isInverted) {
+            return poly.asks;
+        }
+        return invert(poly.bids).sort((a, b) => a.price - b.price);
+    }
+
+    // ========================================================================
+    // 统计
+    // ========================================================================
+
+    private createSlot(pair: TapeMarketPair, side: BacktestSide, strategy: BacktestStrategy): Slot {
+        return {
+            key: `${pair.predictId}:${side}:${strategy}`,
+            pair,
+            side,
+            strategy,
+            result: emptySlotResult(pair, side, strategy),
+            makerOrder: null,
+            pendingTaker: null,
+            hedges: [],
+            cooldownUntil: 0,
+            unhedgedQty: 0,
+            unhedgedCost: 0,
+            lastExposureTs: null,
+            equity: 0,
+            peakEquity: 0,
+        };
+    }
+
+    private finalizeSlotResult(slot: Slot): void {
+        const r = slot.result;
+        r.unhedgedQty = slot.unhedgedQty;
+        r.fillRate = r.quotedQty > 0 ? r.predictFilledQty / r.quotedQty : 0;
+        r.hedgeRate = r.predictFilledQty > 0 ? r.hedgedQty / r.predictFilledQty : 0;
+        r.totalPnl = r.lockedPnl + r.unhedgedPnl;
+    }
+
+    private buildAggregate(markets: BacktestMarketResult[]): BacktestAggregate {
+        const slots = markets.flatMap(m => m.slots);
+        const sum = (fn: (s: BacktestSlotResult) => number) => slots.reduce((acc, s) => acc + fn(s), 0);
+
+        const byStrategy = {} as BacktestAggregate['byStrategy'];
+        for (const strategy of ['MAKER', 'TAKER'] as BacktestStrategy[]) {
+            const list = slots.filter(s => s.strategy === strategy);
+            byStrategy[strategy] = {
+                predictFilledQty: list.reduce((acc, s) => acc + s.predictFilledQty, 0),
+                hedgedQty: list.reduce((acc, s) => acc + s.hedgedQty, 0),
+                totalPnl: list.reduce((acc, s) => acc + s.totalPnl, 0),
+            };
+        }
+
+        const quotedQty = sum(s => s.quotedQty);
+        const predictFilledQty = sum(s => s.predictFilledQty);
+        const hedgedQty = sum(s => s.hedgedQty);
+
+        return {
+            markets: markets.length,
+            orders: sum(s => s.orders),
+            filledOrders: sum(s => s.filledOrders),
+            quotedQty,
+            predictFilledQty,
+            hedgedQty,
+            unhedgedQty: sum(s => s.unhedgedQty),
+            fillRate: quotedQty > 0 ? predictFilledQty / quotedQty : 0,
+            hedgeRate: predictFilledQty > 0 ? hedgedQty / predictFilledQty : 0,
+            fees: sum(s => s.fees),
+            hedgeSlippage: sum(s => s.hedgeSlippage),
+            lockedPnl: sum(s => s.lockedPnl),
+            unhedgedPnl: sum(s => s.unhedgedPnl),
+            totalPnl: sum(s => s.totalPnl),
+            unhedgedExposureMs: sum(s => s.unhedgedExposureMs),
+            maxUnhedgedQty: slots.reduce((max, s) => Math.max(max, s.maxUnhedgedQty), 0),
+            maxDrawdown: this.totalEquity.maxDrawdown,
+            byStrategy,
+        };
+    }
+}
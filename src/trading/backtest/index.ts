@@ -0,0 +1,10 @@
+/**
+ * Backtest 模块导出
+ *
+ * 基于订单簿 tape 回放的 MAKER / TAKER 套利回测
+ */
+
+export * from './types.js';
+export { BacktestEngine, DEFAULT_BACKTEST_CONFIG, type BacktestBook, type BacktestBookSource } from './engine.js';
+export { runBacktest, type RunBacktestOptions } from './runner.js';
+export { formatBacktestReport } from './report.js';
@@ -0,0 +1,85 @@
+/**
+ * Backtest 终端报告
+ */
+
+import type { BacktestResult, BacktestSlotResult } from './types.js';
+
+function formatUsd(value: number): string {
+    const sign = value >= 0 ? '+' : '-';
+    return `${sign}$${Math.abs(value).toFixed(2)}`;
+}
+
+function formatPercent(ratio: number): string {
+    return `${(ratio * 100).toFixed(1)}%`;
+}
+
+function formatDuration(ms: number): string {
+    if (ms < 1000) return `${ms.toFixed(0)}ms`;
+    if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+    if (ms < 3600000) return `${(ms / 60000).toFixed(1)}m`;
+    return `${(ms / 3600000).toFixed(1)}h`;
+}
+
+function formatTimestamp(ts: number | null): string {
+    return ts === null ? 'N/A' : new Date(ts).toISOString().replace('T', ' ').substring(0, 19);
+}
+
+function formatSlot(slot: BacktestSlotResult): string {
+    return [
+        `    ${slot.side.padEnd(3)} ${slot.strategy.padEnd(5)}`,
+        `orders=${String(slot.orders).padStart(4)}`,
+        `fill=${formatPercent(slot.fillRate).padStart(6)}`,
+        `hedge=${formatPercent(slot.hedgeRate).padStart(6)}`,
+        `qty=${slot.predictFilledQty.toFixed(0).padStart(6)}`,
+        `pnl=${formatUsd(slot.totalPnl).padStart(9)}`,
+        `slip=${formatUsd(-slot.hedgeSlippage).padStart(8)}`,
+        `unhedged=${formatDuration(slot.unhedgedExposureMs).padStart(6)}`,
+        `dd=${formatUsd(-slot.maxDrawdown).padStart(8)}`,
+    ].join('  ');
+}
+
+export function formatBacktestReport(result: BacktestResult, topN: number = 20): string {
+    const lines: string[] = [];
+    const { aggregate: agg, config } = result;
+
+    lines.push('='.repeat(100));
+    lines.push('BACKTEST REPORT');
+    lines.push('='.repeat(100));
+    lines.push(`Tape: ${formatTimestamp(result.tape.firstTs)} → ${formatTimestamp(result.tape.lastTs)}  (${result.tape.files.length} files, ${result.tape.records} records, ${result.tape.warmupRecords} warmup)`);
+    lines.push(
+        `Config: qty=${config.quantity} makerMin=${config.makerMinProfit} takerMin=${config.takerMinProfit} ` +
+        `queue=${config.queueAheadRatio} latency=${config.predictLatencyMs}ms hedgeLatency=${config.hedgeLatencyMs}ms ` +
+        `slippage=${config.maxHedgeSlippage}`
+    );
+    lines.push('');
+
+    lines.push('Aggregate:');
+    lines.push(`  Markets traded:   ${agg.markets}`);
+    lines.push(`  Orders:           ${agg.orders} (filled ${agg.filledOrders})`);
+    lines.push(`  Fill rate:        ${formatPercent(agg.fillRate)} (${agg.predictFilledQty.toFixed(0)} / ${agg.quotedQty.toFixed(0)} shares)`);
+    lines.push(`  Hedge rate:       ${formatPercent(agg.hedgeRate)} (${agg.hedgedQty.toFixed(0)} hedged, ${agg.unhedgedQty.toFixed(0)} unhedged at end)`);
+    lines.push(`  Locked PnL:       ${formatUsd(agg.lockedPnl)}`);
+    lines.push(`  Unhedged MTM:     ${formatUsd(agg.unhedgedPnl)}`);
+    lines.push(`  Total PnL:        ${formatUsd(agg.totalPnl)}  (fees ${formatUsd(-agg.fees)}, hedge slippage ${formatUsd(-agg.hedgeSlippage)})`);
+    lines.push(`  Max drawdown:     ${formatUsd(-agg.maxDrawdown)}`);
+    lines.push(`  Unhedged time:    ${formatDuration(agg.unhedgedExposureMs)} (max ${agg.maxUnhedgedQty.toFixed(0)} shares)`);
+    for (const [strategy, s] of Object.entries(agg.byStrategy)) {
+        lines.push(`  ${strategy.padEnd(5)}:           filled=${s.predictFilledQty.toFixed(0)} hedged=${s.hedgedQty.toFixed(0)} pnl=${formatUsd(s.totalPnl)}`);
+    }
+    lines.push('');
+
+    if (result.markets.length === 0) {
+        lines.push('No trades simulated.');
+        return lines.join('\n');
+    }
+
+    lines.push(`Per market (top ${Math.min(topN, result.markets.length)} of ${result.markets.length} by PnL):`);
+    for (const market of result.markets.slice(0, topN)) {
+        lines.push(`  #${market.predictId} ${market.title}  pnl=${formatUsd(market.totalPnl)} dd=${formatUsd(-market.maxDrawdown)}`);
+        for (const slot of market.slots) {
+            lines.push(formatSlot(slot));
+        }
+    }
+
+    return lines.join('\n');
+}
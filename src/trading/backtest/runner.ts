@@ -0,0 +1,112 @@
+/**
+ * Backtest Runner - 用订单簿回放驱动回测引擎
+ *
+ * 使用独立的离线缓存实例 (不连接 WS、不走 REST)，不影响全局单例
+ *
+ * 指定 fromTs 时，起点之前的记录由回放驱动预热到缓存；第一个评估时刻评估全部市场，
+ * 订单簿未加载的市场会输出警告 (这些市场要等收到订单簿后才开始评估)
+ */
+
+import { PredictOrderbookCache } from '../../services/predict-orderbook-cache.js';
+import { PolymarketWebSocketClient } from '../../polymarket/ws-client.js';
+import {
+    OrderbookReplayDriver,
+    type ReplayOptions,
+    type TapeMarketPair,
+} from '../../services/orderbook-tape/index.js';
+import { BacktestEngine, type BacktestBookSource } from './engine.js';
+import type { BacktestConfig, BacktestResult } from './types.js';
+
+export interface RunBacktestOptions {
+    config?: Partial<BacktestConfig>;
+    replay?: Partial<Omit<ReplayOptions, 'speed'>>;
+    /** 只回测指定的 Predict 市场 */
+    marketIds?: number[];
+}
+
+export async function runBacktest(files: string[], options: RunBacktestOptions = {}): Promise<BacktestResult> {
+    const predictCache = new PredictOrderbookCache({
+        apiKey: 'backtest',
+        wsEnabled: false,
+        restEnabled: false,
+        allowStale: true,
+    });
+    const polymarketWs = new PolymarketWebSocketClient();
+
+    const books: BacktestBookSource = {
+        getPredictBook: (marketId) => predictCache.getOrderbookSync(marketId),
+        getPolymarketBook: (tokenId) => {
+            const book = polymarketWs.getOrderBook(tokenId);
+            if (!book) return null;
+            return {
+                bids: book.bids.map(([price, size]) => ({ price, size })),
+                asks: book.asks.map(([price, size]) => ({ price, size })),
+            };
+        },
+    };
+
+    const engine = new BacktestEngine(books, options.config);
+    // 回测不需要按录制节奏等待
+    const driver = new OrderbookReplayDriver({ predictCache, polymarketWs }, { ...options.replay, speed: 0 });
+    const marketFilter = options.marketIds ? new Set(options.marketIds) : null;
+
+    // 收集本条记录影响的市场，记录应用后统一评估
+    const dirtyMarkets = new Set<number>();
+    predictCache.onUpdate((marketId) => {
+        if (engine.hasMarket(marketId)) dirtyMarkets.add(marketId);
+    });
+    polymarketWs.addOrderBookListener((book) => {
+        for (const marketId of engine.getMarketIdsForToken(book.assetId)) {
+            dirtyMarkets.add(marketId);
+        }
+    });
+
+    const pairs = new Map<number, TapeMarketPair>();
+    driver.on('meta', (metaPairs: TapeMarketPair[]) => {
+        const selected = marketFilter ? metaPairs.filter(p => marketFilter.has(p.predictId)) : metaPairs;
+        for (const pair of selected) pairs.set(pair.predictId, pair);
+        engine.setMarketPairs(selected);
+    });
+    driver.on('advance', (ts: number) => engine.advance(ts));
+
+    let firstTick = true;
+    driver.on('record', () => {
+        const ts = driver.now();
+        if (ts === null) return;
+        if (firstTick) {
+            firstTick = false;
+            // 预热后的订单簿可能早于起点就已完整，起点处统一评估一次
+            for (const predictId of pairs.keys()) {
+                if (engine.hasMarket(predictId)) dirtyMarkets.add(predictId);
+            }
+            const missing = [...pairs.values()].filter(p =>
+                engine.hasMarket(p.predictId)
+                && (!books.getPredictBook(p.predictId) || !books.getPolymarketBook(p.polymarketTokenId!))
+            );
+            if (missing.length > 0) {
+                console.warn(`[Backtest] 起点处 ${missing.length} 个市场订单簿未加载: ${missing.slice(0, 10).map(p => p.predictId).join(', ')}`);
+            }
+        }
+        if (dirtyMarkets.size === 0) return;
+        engine.onBookUpdate(dirtyMarkets, ts);
+        dirtyMarkets.clear();
+    });
+
+    const stats = await driver.run(files);
+    const { aggregate, markets } = engine.finish(stats.lastTs);
+    predictCache.stop();
+
+    return {
+        config: engine.getConfig(),
+        tape: {
+            files,
+            firstTs: stats.firstTs,
+            lastTs: stats.lastTs,
+            records: stats.records,
+            warmupRecords: stats.warmupRecords,
+        },
+        aggregate,
+        markets,
+        generatedAt: Date.now(),
+    };
+}
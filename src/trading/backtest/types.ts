@@ -0,0 +1,113 @@
+/**
+ * Backtest 类型定义
+ */
+
+export type BacktestStrategy = 'MAKER' | 'TAKER';
+export type BacktestSide = 'YES' | 'NO';
+
+export interface BacktestConfig {
+    strategies: BacktestStrategy[];
+    sides: BacktestSide[];
+
+    /** 每次入场的目标数量 (shares)，实际受对冲端深度限制 */
+    quantity: number;
+    /** 入场所需的最小每股利润 (与 calculateDepth 的 makerProfit/takerProfit 同口径) */
+    makerMinProfit: number;
+    takerMinProfit: number;
+
+    /**
+     * Maker 排队位置: 挂单时同价位已有挂单中排在我们前面的比例
+     * 0 = 队首, 1 = 队尾 (同价位全部成交/撤单后才轮到我们)
+     */
+    queueAheadRatio: number;
+    /** Predict 下单/撤单延迟 (ms)，TAKER 按延迟后的订单簿成交，撤单在延迟内仍可能成交 */
+    predictLatencyMs: number;
+    /** Predict 成交到 Polymarket 对冲下单的延迟 (ms) */
+    hedgeLatencyMs: number;
+    /** 对冲未完全成交时的重试间隔 (ms) */
+    hedgeRetryMs: number;
+    /** 对冲允许的最大滑点 (每股价格，相对入场时的对冲价) */
+    maxHedgeSlippage: number;
+    /** Maker 挂单超时 (ms)，0 = 不超时 */
+    makerOrderTimeoutMs: number;
+    /** 同一市场/方向/策略两次入场之间的冷却 (ms)，避免重复吃同一份流动性 */
+    reentryCooldownMs: number;
+}
+
+/**
+ * 单个 市场 × 方向 × 策略 的回测统计
+ */
+export interface BacktestSlotResult {
+    predictId: number;
+    title: string;
+    side: BacktestSide;
+    strategy: BacktestStrategy;
+
+    signals: number;            // 满足入场条件的次数 (每次入场计 1)
+    orders: number;             // Predict 下单次数
+    filledOrders: number;       // 至少部分成交的订单数
+    quotedQty: number;          // 下单总数量
+    predictFilledQty: number;   // Predict 成交数量
+    hedgedQty: number;          // Polymarket 对冲成交数量
+    unhedgedQty: number;        // 回测结束时仍未对冲的数量
+
+    fillRate: number;           // predictFilledQty / quotedQty
+    hedgeRate: number;          // hedgedQty / predictFilledQty
+
+    predictCost: number;        // Predict 成交金额 (含 taker 手续费)
+    hedgeCost: number;          // Polymarket 对冲金额
+    fees: number;               // Predict taker 手续费
+    hedgeSlippage: number;      // Σ (对冲均价 - 入场对冲价) × 数量
+    lockedPnl: number;          // 已对冲部分的锁定利润 (结算时每对 = 1)
+    unhedgedPnl: number;        // 未对冲库存按回测结束时 Predict 买一盯市
+    totalPnl: number;
+
+    unhedgedExposureMs: number;         // 存在未对冲库存的总时长
+    unhedgedShareSeconds: number;       // ∫ 未对冲数量 dt
+    maxUnhedgedQty: number;
+    maxDrawdown: number;
+}
+
+export interface BacktestMarketResult {
+    predictId: number;
+    title: string;
+    totalPnl: number;
+    maxDrawdown: number;
+    slots: BacktestSlotResult[];
+}
+
+export interface BacktestAggregate {
+    markets: number;
+    orders: number;
+    filledOrders: number;
+    quotedQty: number;
+    predictFilledQty: number;
+    hedgedQty: number;
+    unhedgedQty: number;
+    fillRate: number;
+    hedgeRate: number;
+    fees: number;
+    hedgeSlippage: number;
+    lockedPnl: number;
+    unhedgedPnl: number;
+    totalPnl: number;
+    unhedgedExposureMs: number;
+    maxUnhedgedQty: number;
+    maxDrawdown: number;
+    byStrategy: Record<BacktestStrategy, { predictFilledQty: number; hedgedQty: number; totalPnl: number }>;
+}
+
+export interface BacktestResult {
+    config: BacktestConfig;
+    tape: {
+        files: string[];
+        firstTs: number | null;
+        lastTs: number | null;
+        records: number;
+        /** 起点之前仅用于预热订单簿的记录数 */
+        warmupRecords: number;
+    };
+    aggregate: BacktestAggregate;
+    markets: BacktestMarketResult[];
+    generatedAt: number;
+}
@@ -61,5 +61,7 @@ export function loadConfigFromEnv(): Partial<TradingConfig> {
         telegramBotToken: process.env.TELEGRAM_BOT_TOKEN || '',
         telegramChatId: process.env.TELEGRAM_CHAT_ID || '',
         telegramEnabled: !!(process.env.TELEGRAM_BOT_TOKEN && process.env.TELEGRAM_CHAT_ID),
+        // USE_REAL_EXECUTION=false → 模拟撮合 (paper trading)
+        useRealExecution: process.env.USE_REAL_EXECUTION !== 'false',
     };
 }
@@ -5,6 +5,8 @@
  * 计算当前价格下可套利的最大数量
  */
 
+import { getFeeModel, type FeeContext } from './fee-model.js';
+
 export interface OrderBookLevel {
     price: number;
     size: number;
@@ -20,9 +22,10 @@ export interface DepthResult {
     polymarketNoAsk: number;  // Best ask price for NO on Polymarket
 
     // Costs
-    makerCost: number;        // predict_yes_bid + polymarket_no_ask
-    takerCost: number;        // predict_yes_ask + polymarket_no_ask + fee
+    makerCost: number;        // predict_yes_bid + polymarket_no_ask + polymarket fee
+    takerCost: number;        // predict_yes_ask + polymarket_no_ask + fees
     predictFee: number;       // Taker fee on Predict
+    polymarketFee: number;    // Taker fee on Polymarket hedge (fee schedule, usually 0)
 
     // Profits
     makerProfit: number;      // 1 - makerCost (per share)
@@ -36,22 +39,149 @@ export interface DepthResult {
     predictYesBidDepth: number;   // Shares available at bid
     predictYesAskDepth: number;   // Shares available at ask
     polymarketNoAskDepth: number; // Shares available at NO ask
+
+    // Multi-level sizing (walks deeper levels while each marginal share is profitable)
+    makerLadder: LadderResult;
+    takerLadder: LadderResult;
+}
+
+/**
+ * One segment of the ladder walk: shares matched at a fixed (predict, polymarket) price pair
+ */
+export interface LadderLevel {
+    predictPrice: number;
+    polymarketPrice: number;
+    quantity: number;
+    fee: number;               // Predict fee per share (0 for MAKER)
+    hedgeFee: number;          // Polymarket fee per share
+    unitCost: number;          // predictPrice + polymarketPrice + fee + hedgeFee
+    unitProfit: number;        // 1 - unitCost
+    cumulativeQuantity: number;
+    cumulativeProfit: number;  // USD
+}
+
+export interface LadderResult {
+    quantity: number;              // Profit-maximizing quantity across levels
+    profit: number;                // Total expected profit (USD)
+    avgCost: number;               // Weighted average cost per share
+    worstPredictPrice: number;     // Deepest Predict level used (limit price to sweep the ladder)
+    worstPolymarketPrice: number;  // Deepest Polymarket level used
+    levels: LadderLevel[];
 }
 
 /**
  * Calculate Predict taker fee per share
- * Formula: BaseFee% × min(Price, 1 - Price) × (1 - rebate)
+ * Formula: BaseFee% × min(Price, 1 - Price) × (1 - rebate) × boost
  *
- * Predict 有 10% 返点，实际费率 = 名义费率 × 0.9
- * 例如: feeRateBps=200 (2%), 实际费率=1.8%
+ * 返点 / boost 倍数由 fee-model 解析（默认 10% 返点：feeRateBps=200 → 实际 1.8%）
+ * 传入 context.marketId 时计入 boost 窗口，context.account 时使用账户返点等级
  */
-const FEE_REBATE_PERCENT = 0.10;  // 10% 返点
+export function calculatePredictFee(price: number, feeRateBps: number, context: FeeContext = {}): number {
+    return getFeeModel().predictFeePerShare(price, feeRateBps, context);
+}
+
+const EMPTY_LADDER: LadderResult = {
+    quantity: 0,
+    profit: 0,
+    avgCost: 0,
+    worstPredictPrice: 0,
+    worstPolymarketPrice: 0,
+    levels: [],
+};
 
-export function calculatePredictFee(price: number, feeRateBps: number): number {
-    const baseFeePercent = feeRateBps / 10000;
-    const minPrice = Math.min(price, 1 - price);
-    const grossFee = baseFeePercent * minPrice;
-    return grossFee * (1 - FEE_REBATE_PERCENT);  // 扣除 10% 返点
+/**
+ * Walk both ladders level by level and size the arbitrage
+ * 逐档撮合两边订单簿，计算利润最大化的套利数量
+ *
+ * 边际成本 = predict + polymarket + fee(predict) + fee(polymarket)。两边 asks 均按价格升序，
+ * 且 price + fee(price) 随价格单调递增（fee 斜率不超过 feeRate），所以边际成本单调不减：
+ * 第一次出现边际成本 >= maxUnitCost 时停止即为利润最大的数量。
+ *
+ * @param predictLevels - Predict 买入端价格档 (升序)；MAKER 传入单档挂单价 + Infinity 数量
+ * @param hedgeLevels - Polymarket 对冲端 asks (升序)
+ * @param feeRateBps - Predict taker 费率；MAKER 传 0
+ * @param maxQuantity - 数量上限 (仓位限制)
+ * @param maxUnitCost - 边际成本上限 (严格小于)
+ * @param context - 手续费上下文 (boost / 账户返点 / Polymarket 费率表)
+ */
+export function walkArbLadder(
+    predictLevels: OrderBookLevel[],
+    hedgeLevels: OrderBookLevel[],
+    feeRateBps: number,
+    maxQuantity: number = Infinity,
+    maxUnitCost: number = 1,
+    context: FeeContext = {}
+): LadderResult {
+    const feeModel = getFeeModel();
+    const levels: LadderLevel[] = [];
+    let quantity = 0;
+    let profit = 0;
+    let totalCost = 0;
+
+    let pi = 0;
+    let hi = 0;
+    let predictRemaining = predictLevels[0]?.size ?? 0;
+    let hedgeRemaining = hedgeLevels[0]?.size ?? 0;
+
+    while (pi < predictLevels.length && hi < hedgeLevels.length && quantity < maxQuantity) {
+        // 跳过空档
+        if (predictRemaining <= 0) {
+            predictRemaining = predictLevels[++pi]?.size ?? 0;
+            continue;
+        }
+        if (hedgeRemaining <= 0) {
+            hedgeRemaining = hedgeLevels[++hi]?.size ?? 0;
+            continue;
+        }
+
+        const predictPrice = predictLevels[pi].price;
+        const polymarketPrice = hedgeLevels[hi].price;
+        const fee = feeRateBps > 0 ? feeModel.predictFeePerShare(predictPrice, feeRateBps, context) : 0;
+        const hedgeFee = feeModel.polymarketFeePerShare(polymarketPrice, context);
+        const unitCost = Number((predictPrice + polymarketPrice + fee + hedgeFee).toFixed(4));
+        if (!(unitCost < maxUnitCost)) break;
+
+        const segment = Math.min(predictRemaining, hedgeRemaining, maxQuantity - quantity);
+        const unitProfit = Number((1 - unitCost).toFixed(4));
+        quantity += segment;
+        profit += unitProfit * segment;
+        totalCost += unitCost * segment;
+        levels.push({
+            predictPrice,
+            polymarketPrice,
+            quantity: segment,
+            fee,
+            hedgeFee,
+            unitCost,
+            unitProfit,
+            cumulativeQuantity: quantity,
+            cumulativeProfit: profit,
+        });
+
+        predictRemaining -= segment;
+        hedgeRemaining -= segment;
+    }
+
+    if (levels.length === 0) {
+        return { ...EMPTY_LADDER, levels: [] };
+    }
+    const last = levels[levels.length - 1];
+    return {
+        quantity,
+        profit,
+        avgCost: totalCost / quantity,
+        worstPredictPrice: last.predictPrice,
+        worstPolymarketPrice: last.polymarketPrice,
+        levels,
+    };
+}
+
+/**
+ * Invert a ladder to the complementary outcome (price → 1 - price), keeping ascending order
+ * 例如 YES bids (降序) → NO asks (升序)
+ */
+export function invertLevels(levels: OrderBookLevel[]): OrderBookLevel[] {
+    return levels.map(level => ({ price: Number((1 - level.price).toFixed(4)), size: level.size }));
 }
 
 /**
@@ -62,7 +192,8 @@ export function calculateDepth(
     predictYesAsks: OrderBookLevel[],
     polymarketNoAsks: OrderBookLevel[],
     feeRateBps: number = 200,
-    maxPosition: number = Infinity
+    maxPosition: number = Infinity,
+    context: FeeContext = {}
 ): DepthResult {
     // Get best prices
     const predictYesBid = predictYesBids[0]?.price || 0;
@@ -75,9 +206,10 @@ export function calculateDepth(
     const polymarketNoAskDepth = polymarketNoAsks[0]?.size || 0;
 
     // Calculate costs (使用固定精度避免浮点误差)
-    const predictFee = calculatePredictFee(predictYesAsk, feeRateBps);
-    const makerCost = Number((predictYesBid + polymarketNoAsk).toFixed(4));
-    const takerCost = Number((predictYesAsk + polymarketNoAsk + predictFee).toFixed(4));
+    const predictFee = calculatePredictFee(predictYesAsk, feeRateBps, context);
+    const polymarketFee = getFeeModel().polymarketFeePerShare(polymarketNoAsk, context);
+    const makerCost = Number((predictYesBid + polymarketNoAsk + polymarketFee).toFixed(4));
+    const takerCost = Number((predictYesAsk + polymarketNoAsk + predictFee + polymarketFee).toFixed(4));
 
     // Calculate profits
     const makerProfit = Number((1 - makerCost).toFixed(4));
@@ -100,6 +232,12 @@ export function calculateDepth(
         ? Math.min(predictYesAskDepth, polymarketNoAskDepth, maxPosition)
         : 0;
 
+    // 多档: Maker 在买一挂单（无手续费），对冲端逐档吃；Taker 两边逐档吃
+    const makerLadder = predictYesBid > 0
+        ? walkArbLadder([{ price: predictYesBid, size: Infinity }], polymarketNoAsks, 0, maxPosition, 1 + EPSILON, context)
+        : { ...EMPTY_LADDER, levels: [] };
+    const takerLadder = walkArbLadder(predictYesAsks, polymarketNoAsks, feeRateBps, maxPosition, 1 - EPSILON, context);
+
     return {
         hasArbitrage,
         predictYesBid,
@@ -108,6 +246,7 @@ export function calculateDepth(
         makerCost,
         takerCost,
         predictFee,
+        polymarketFee,
         makerProfit,
         takerProfit,
         makerMaxQuantity,
@@ -115,6 +254,115 @@ export function calculateDepth(
         predictYesBidDepth,
         predictYesAskDepth,
         polymarketNoAskDepth,
+        makerLadder,
+        takerLadder,
+    };
+}
+
+// ============================================================================
+// 多腿篮子深度计算 (negRisk 多选项 / 1X2 三项)
+// ============================================================================
+
+/**
+ * One leg of an N-leg basket: asks (ascending) plus its per-share taker fee
+ */
+export interface BasketLadderLeg {
+    asks: OrderBookLevel[];
+    feePerShare: (price: number) => number;
+}
+
+export interface BasketLadderLegFill {
+    quantity: number;
+    bestPrice: number;         // 首档价格
+    worstPrice: number;        // 最深使用档 (扫单限价)
+    avgPrice: number;
+    avgFee: number;            // 每份平均手续费
+}
+
+export interface BasketLadderResult {
+    quantity: number;          // Profit-maximizing basket count
+    totalCost: number;         // USD, incl. fees
+    avgCost: number;           // Per basket
+    bestUnitCost: number;      // Marginal cost of the first basket (0 when a leg has no asks)
+    profit: number;            // payout × quantity - totalCost
+    legs: BasketLadderLegFill[];
+}
+
+/**
+ * Walk N ask ladders in lockstep and size a basket (one share of every leg per basket)
+ * 多腿逐档撮合：每组在每条腿各买 1 份，边际成本 = Σ(price + fee)。
+ * 与 walkArbLadder 相同，各腿 price + fee 随价格单调递增，首次出现边际成本 >= maxUnitCost 时停止即为利润最大数量。
+ *
+ * @param legs - 各腿 asks (升序) 与手续费函数
+ * @param payout - 每组兑付金额 (互斥且完整的 YES 篮子 = 1；N 腿 NO 篮子 = N - 1)
+ * @param maxUnitCost - 边际成本上限 (严格小于)，默认 payout
+ * @param maxQuantity - 数量上限 (仓位限制)
+ */
+export function walkBasketLadder(
+    legs: BasketLadderLeg[],
+    payout: number,
+    maxUnitCost: number = payout,
+    maxQuantity: number = Infinity
+): BasketLadderResult {
+    const fills = legs.map(leg => ({
+        quantity: 0,
+        bestPrice: leg.asks[0]?.price ?? 0,
+        worstPrice: 0,
+        cost: 0,
+        fee: 0,
+    }));
+    const index = legs.map(() => 0);
+    const remaining = legs.map(leg => leg.asks[0]?.size ?? 0);
+    let quantity = 0;
+    let totalCost = 0;
+    let bestUnitCost = 0;
+
+    outer:
+    while (legs.length > 0 && quantity < maxQuantity) {
+        // 跳过空档
+        for (let i = 0; i < legs.length; i++) {
+            while (remaining[i] <= 0) {
+                index[i]++;
+                if (index[i] >= legs[i].asks.length) break outer;
+                remaining[i] = legs[i].asks[index[i]].size;
+            }
+        }
+
+        let unitCost = 0;
+        const prices = legs.map((leg, i) => leg.asks[index[i]].price);
+        const fees = legs.map((leg, i) => leg.feePerShare(prices[i]));
+        for (let i = 0; i < legs.length; i++) {
+            unitCost += prices[i] + fees[i];
+        }
+        unitCost = Number(unitCost.toFixed(4));
+        if (quantity === 0) bestUnitCost = unitCost;
+        if (!(unitCost < maxUnitCost)) break;
+
+        const segment = Math.min(...remaining, maxQuantity - quantity);
+        for (let i = 0; i < legs.length; i++) {
+            fills[i].quantity += segment;
+            fills[i].worstPrice = prices[i];
+            fills[i].cost += prices[i] * segment;
+            fills[i].fee += fees[i] * segment;
+            remaining[i] -= segment;
+        }
+        quantity += segment;
+        totalCost += unitCost * segment;
+    }
+
+    return {
+        quantity,
+        totalCost,
+        avgCost: quantity > 0 ? totalCost / quantity : 0,
+        bestUnitCost,
+        profit: payout * quantity - totalCost,
+        legs: fills.map(fill => ({
+            quantity: fill.quantity,
+            bestPrice: fill.bestPrice,
+            worstPrice: fill.worstPrice,
+            avgPrice: fill.quantity > 0 ? fill.cost / fill.quantity : 0,
+            avgFee: fill.quantity > 0 ? fill.fee / fill.quantity : 0,
+        })),
     };
 }
 
@@ -132,9 +380,10 @@ export interface NoSideDepthResult {
     polymarketYesAsk: number; // 1 - polymarket_no_bid
 
     // Costs
-    makerCost: number;        // predict_no_bid + polymarket_yes_ask
-    takerCost: number;        // predict_no_ask + polymarket_yes_ask + fee
+    makerCost: number;        // predict_no_bid + polymarket_yes_ask + polymarket fee
+    takerCost: number;        // predict_no_ask + polymarket_yes_ask + fees
     predictFee: number;       // Taker fee on Predict (NO 端)
+    polymarketFee: number;    // Taker fee on Polymarket YES (fee schedule, usually 0)
 
     // Profits
     makerProfit: number;      // 1 - makerCost
@@ -148,6 +397,10 @@ export interface NoSideDepthResult {
     predictYesAskDepth: number;   // = predict_no_bid 深度
     predictYesBidDepth: number;   // = predict_no_ask 深度
     polymarketNoBidDepth: number; // = polymarket_yes_ask 深度
+
+    // 多档数量 (价格均为 NO 端口径)
+    makerLadder: LadderResult;
+    takerLadder: LadderResult;
 }
 
 /**
@@ -167,7 +420,8 @@ export function calculateNoSideDepth(
     predictYesAsks: OrderBookLevel[],
     polymarketNoBids: OrderBookLevel[],  // 注意：传入 NO 的 bids，用于反演 YES ask
     feeRateBps: number = 200,
-    maxPosition: number = Infinity
+    maxPosition: number = Infinity,
+    context: FeeContext = {}
 ): NoSideDepthResult {
     // 获取 YES 端最优价格
     const predictYesBid = predictYesBids[0]?.price || 0;
@@ -185,11 +439,12 @@ export function calculateNoSideDepth(
     const polymarketYesAsk = Number((1 - polymarketNoBid).toFixed(4)); // 在 Polymarket 买 YES 的价格
 
     // 计算 NO 端费用（基于 NO Ask 价格）
-    const predictFee = calculatePredictFee(predictNoAsk, feeRateBps);
+    const predictFee = calculatePredictFee(predictNoAsk, feeRateBps, context);
+    const polymarketFee = getFeeModel().polymarketFeePerShare(polymarketYesAsk, context);
 
     // 计算成本 (使用固定精度避免浮点误差)
-    const makerCost = Number((predictNoBid + polymarketYesAsk).toFixed(4));
-    const takerCost = Number((predictNoAsk + polymarketYesAsk + predictFee).toFixed(4));
+    const makerCost = Number((predictNoBid + polymarketYesAsk + polymarketFee).toFixed(4));
+    const takerCost = Number((predictNoAsk + polymarketYesAsk + predictFee + polymarketFee).toFixed(4));
 
     // 计算利润
     const makerProfit = Number((1 - makerCost).toFixed(4));
@@ -215,6 +470,13 @@ export function calculateNoSideDepth(
         ? Math.min(predictYesBidDepth, polymarketNoBidDepth, maxPosition)
         : 0;
 
+    // 多档: NO asks = 1 - YES bids，Polymarket YES asks = 1 - NO bids
+    const polymarketYesAsks = invertLevels(polymarketNoBids);
+    const makerLadder = predictYesAsks.length > 0
+        ? walkArbLadder([{ price: predictNoBid, size: Infinity }], polymarketYesAsks, 0, maxPosition, 1 + EPSILON, context)
+        : { ...EMPTY_LADDER, levels: [] };
+    const takerLadder = walkArbLadder(invertLevels(predictYesBids), polymarketYesAsks, feeRateBps, maxPosition, 1 - EPSILON, context);
+
     return {
         hasArbitrage,
         predictNoBid,
@@ -223,6 +485,7 @@ export function calculateNoSideDepth(
         makerCost,
         takerCost,
         predictFee,
+        polymarketFee,
         makerProfit,
         takerProfit,
         makerMaxQuantity,
@@ -230,6 +493,8 @@ export function calculateNoSideDepth(
         predictYesAskDepth,
         predictYesBidDepth,
         polymarketNoBidDepth,
+        makerLadder,
+        takerLadder,
     };
 }
 
@@ -296,6 +561,9 @@ export function formatDepthResult(result: DepthResult): string {
     lines.push(`  MAKER: ${(result.makerCost * 100).toFixed(2)}c (profit: ${(result.makerProfit * 100).toFixed(2)}%)`);
     lines.push(`  TAKER: ${(result.takerCost * 100).toFixed(2)}c (profit: ${(result.takerProfit * 100).toFixed(2)}%)`);
     lines.push(`  Predict Fee: ${(result.predictFee * 100).toFixed(2)}c`);
+    if (result.polymarketFee > 0) {
+        lines.push(`  Polymarket Fee: ${(result.polymarketFee * 100).toFixed(2)}c`);
+    }
     lines.push('');
     lines.push('Available Depth:');
     lines.push(`  Predict Bid: ${result.predictYesBidDepth.toFixed(0)} shares`);
@@ -305,6 +573,13 @@ export function formatDepthResult(result: DepthResult): string {
     lines.push(`Max Quantities:`);
     lines.push(`  MAKER: ${result.makerMaxQuantity.toFixed(0)} shares`);
     lines.push(`  TAKER: ${result.takerMaxQuantity.toFixed(0)} shares`);
+    lines.push('');
+    lines.push('Ladder (all profitable levels):');
+    lines.push(`  MAKER: ${result.makerLadder.quantity.toFixed(0)} shares, profit $${result.makerLadder.profit.toFixed(2)}`);
+    lines.push(`  TAKER: ${result.takerLadder.quantity.toFixed(0)} shares, profit $${result.takerLadder.profit.toFixed(2)}`);
+    for (const level of result.takerLadder.levels) {
+        lines.push(`    ${(level.predictPrice * 100).toFixed(1)}c + ${(level.polymarketPrice * 100).toFixed(1)}c + fee ${((level.fee + level.hedgeFee) * 100).toFixed(2)}c → ${level.quantity.toFixed(0)} @ ${(level.unitProfit * 100).toFixed(2)}c`);
+    }
 
     return lines.join('\n');
 }
@@ -0,0 +1,220 @@
+/**
+ * Fee Model
+ *
+ * 统一的手续费模型：按平台、市场、maker/taker 解析每份手续费
+ * 检测器、深度计算、平仓、执行器都通过这里计算，避免各处硬编码费率 / 返点。
+ *
+ * Predict taker: feeRateBps × min(price, 1 - price) × (1 - 账户返点) × boost 倍数
+ * Predict maker: makerFeeRateBps（默认 0）
+ * Polymarket:    费率表 bps × min(price, 1 - price)（默认 0，按 conditionId / tokenId 覆盖）
+ */
+
+export type FeePlatform = 'predict' | 'polymarket';
+export type FeeRole = 'MAKER' | 'TAKER';
+
+/**
+ * 费率上下文（均可选，缺省时使用默认费率）
+ */
+export interface FeeContext {
+    marketId?: number;             // Predict 市场 ID（boost 窗口）
+    polymarketMarket?: string;     // Polymarket conditionId 或 tokenId（费率表）
+    account?: string;              // Predict 账户地址（返点等级）
+    now?: number;
+}
+
+export interface FeeQuery extends FeeContext {
+    platform: FeePlatform;
+    price: number;
+    role: FeeRole;
+    feeRateBps?: number;           // Predict 市场费率，缺省 defaultFeeRateBps
+}
+
+export interface FeeQuote {
+    feePerShare: number;
+    grossFeePerShare: number;      // 返点 / boost 前
+    feeRateBps: number;            // 名义费率
+    rebatePercent: number;
+    boosted: boolean;
+    multiplier: number;            // boost 倍数（未 boost 为 1）
+}
+
+export interface FeeModelConfig {
+    predict: {
+        defaultFeeRateBps: number;                    // 市场未返回 feeRateBps 时使用
+        makerFeeRateBps: number;
+        rebatePercent: number;                        // 默认账户返点，例如 0.10 = 10%
+        accountRebatePercent: Record<string, number>; // 账户地址(小写) → 返点
+        boostFeeMultiplier: number;                   // boost 窗口内 taker 费率倍数
+    };
+    polymarket: {
+        takerFeeBps: number;
+        makerFeeBps: number;
+        marketTakerFeeBps: Record<string, number>;    // conditionId / tokenId → taker bps
+    };
+}
+
+/**
+ * 判断市场在指定时刻是否处于 boost 窗口
+ */
+export type BoostProvider = (marketId: number, now: number) => boolean;
+
+export const DEFAULT_FEE_MODEL_CONFIG: FeeModelConfig = {
+    predict: {
+        defaultFeeRateBps: 200,
+        makerFeeRateBps: 0,
+        rebatePercent: 0.10,
+        accountRebatePercent: {},
+        boostFeeMultiplier: 1,
+    },
+    polymarket: {
+        takerFeeBps: 0,
+        makerFeeBps: 0,
+        marketTakerFeeBps: {},
+    },
+};
+
+/**
+ * 解析 "key:value,key:value" 格式的环境变量
+ */
+function parseRateMap(raw: string | undefined): Record<string, number> {
+    const result: Record<string, number> = {};
+    for (const entry of (raw || '').split(',')) {
+        const [key, value] = entry.split(':').map(s => s.trim());
+        const rate = Number(value);
+        if (key && value && Number.isFinite(rate)) {
+            result[key.toLowerCase()] = rate;
+        }
+    }
+    return result;
+}
+
+function envNumber(name: string, fallback: number): number {
+    const raw = process.env[name];
+    if (raw === undefined || raw === '') return fallback;
+    const value = Number(raw);
+    return Number.isFinite(value) ? value : fallback;
+}
+
+export function loadFeeModelConfigFromEnv(): FeeModelConfig {
+    const defaults = DEFAULT_FEE_MODEL_CONFIG;
+    return {
+        predict: {
+            defaultFeeRateBps: envNumber('PREDICT_DEFAULT_FEE_RATE_BPS', defaults.predict.defaultFeeRateBps),
+            makerFeeRateBps: envNumber('PREDICT_MAKER_FEE_RATE_BPS', defaults.predict.makerFeeRateBps),
+            rebatePercent: envNumber('PREDICT_FEE_REBATE_PERCENT', defaults.predict.rebatePercent),
+            accountRebatePercent: parseRateMap(process.env.PREDICT_FEE_REBATE_TIERS),
+            boostFeeMultiplier: envNumber('PREDICT_BOOST_FEE_MULTIPLIER', defaults.predict.boostFeeMultiplier),
+        },
+        polymarket: {
+            takerFeeBps: envNumber('POLYMARKET_TAKER_FEE_BPS', defaults.polymarket.takerFeeBps),
+            makerFeeBps: envNumber('POLYMARKET_MAKER_FEE_BPS', defaults.polymarket.makerFeeBps),
+            marketTakerFeeBps: parseRateMap(process.env.POLYMARKET_FEE_SCHEDULE),
+        },
+    };
+}
+
+export class FeeModel {
+    private boostProvider: BoostProvider | null = null;
+
+    constructor(private readonly config: FeeModelConfig = DEFAULT_FEE_MODEL_CONFIG) { }
+
+    getConfig(): FeeModelConfig {
+        return this.config;
+    }
+
+    /**
+     * 注入 boost 窗口判断（dashboard 使用 boost-cache）
+     */
+    setBoostProvider(provider: BoostProvider | null): void {
+        this.boostProvider = provider;
+    }
+
+    resolve(query: FeeQuery): FeeQuote {
+        return query.platform === 'predict' ? this.resolvePredict(query) : this.resolvePolymarket(query);
+    }
+
+    /**
+     * Predict 每份手续费
+     */
+    predictFeePerShare(price: number, feeRateBps?: number, context: FeeContext & { role?: FeeRole } = {}): number {
+        return this.resolvePredict({ ...context, platform: 'predict', price, role: context.role ?? 'TAKER', feeRateBps }).feePerShare;
+    }
+
+    /**
+     * Polymarket 每份手续费
+     */
+    polymarketFeePerShare(price: number, context: FeeContext & { role?: FeeRole } = {}): number {
+        return this.resolvePolymarket({ ...context, platform: 'polymarket', price, role: context.role ?? 'TAKER' }).feePerShare;
+    }
+
+    getRebatePercent(account?: string): number {
+        const tier = account ? this.config.predict.accountRebatePercent[account.toLowerCase()] : undefined;
+        return tier ?? this.config.predict.rebatePercent;
+    }
+
+    isBoosted(marketId: number | undefined, now: number = Date.now()): boolean {
+        if (marketId === undefined || !this.boostProvider) return false;
+        return this.boostProvider(marketId, now);
+    }
+
+    private resolvePredict(query: FeeQuery): FeeQuote {
+        const predict = this.config.predict;
+        if (query.role === 'MAKER') {
+            const fee = (predict.makerFeeRateBps / 10000) * minSide(query.price);
+            return { feePerShare: fee, grossFeePerShare: fee, feeRateBps: predict.makerFeeRateBps, rebatePercent: 0, boosted: false, multiplier: 1 };
+        }
+
+        const feeRateBps = query.feeRateBps ?? predict.defaultFeeRateBps;
+        const grossFeePerShare = (feeRateBps / 10000) * minSide(query.price);
+        const rebatePercent = this.getRebatePercent(query.account);
+        const boosted = this.isBoosted(query.marketId, query.now);
+        const multiplier = boosted ? predict.boostFeeMultiplier : 1;
+
+        return {
+            feePerShare: grossFeePerShare * (1 - rebatePercent) * multiplier,
+            grossFeePerShare,
+            feeRateBps,
+            rebatePercent,
+            boosted,
+            multiplier,
+        };
+    }
+
+    private resolvePolymarket(query: FeeQuery): FeeQuote {
+        const polymarket = this.config.polymarket;
+        const scheduled = query.polymarketMarket
+            ? polymarket.marketTakerFeeBps[query.polymarketMarket.toLowerCase()]
+            : undefined;
+        const feeRateBps = query.role === 'MAKER'
+            ? polymarket.makerFeeBps
+            : scheduled ?? polymarket.takerFeeBps;
+        const fee = (feeRateBps / 10000) * minSide(query.price);
+        return { feePerShare: fee, grossFeePerShare: fee, feeRateBps, rebatePercent: 0, boosted: false, multiplier: 1 };
+    }
+}
+
+function minSide(price: number): number {
+    if (!(price > 0) || price >= 1) return 0;
+    return Math.min(price, 1 - price);
+}
+
+// ============================================================================
+// 单例
+// ============================================================================
+
+let instance: FeeModel | null = null;
+
+/**
+ * 获取手续费模型（未初始化时按环境变量创建）
+ */
+export function getFeeModel(): FeeModel {
+    if (!instance) {
+        instance = new FeeModel(loadFeeModelConfigFromEnv());
+    }
+    return instance;
+}
+
+export function initFeeModel(config: FeeModelConfig = loadFeeModelConfigFromEnv()): FeeModel {
+    instance = new FeeModel(config);
+    return instance;
+}
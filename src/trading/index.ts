@@ -9,10 +9,32 @@ export {
     calculateCumulativeDepth,
     calculatePredictFee,
     formatDepthResult,
+    walkArbLadder,
+    walkBasketLadder,
+    invertLevels,
     type DepthResult,
     type OrderBookLevel,
+    type LadderLevel,
+    type LadderResult,
+    type BasketLadderLeg,
+    type BasketLadderResult,
 } from './depth-calculator.js';
 
+export {
+    FeeModel,
+    getFeeModel,
+    initFeeModel,
+    loadFeeModelConfigFromEnv,
+    DEFAULT_FEE_MODEL_CONFIG,
+    type FeeContext,
+    type FeeQuery,
+    type FeeQuote,
+    type FeeRole,
+    type FeePlatform,
+    type FeeModelConfig,
+    type BoostProvider,
+} from './fee-model.js';
+
 export {
     MakerStrategy,
     createMakerStrategy,
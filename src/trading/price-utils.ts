@@ -5,8 +5,10 @@
  * 用于确保下单价格符合交易所精度要求
  */
 
-// Re-export fee calculation from depth-calculator (统一入口)
-export { calculatePredictFee } from './depth-calculator.js';
+import { calculatePredictFee } from './depth-calculator.js';
+
+// Re-export fee calculation from depth-calculator (统一入口，费率由 fee-model 解析)
+export { calculatePredictFee };
 
 // ============================================================================
 // 价格精度处理
@@ -137,7 +139,6 @@ export function calculateTotalCost(
     polyAsk: number,
     feeRateBps: number
 ): number {
-    const { calculatePredictFee } = require('./depth-calculator.js');
     const fee = calculatePredictFee(predictAsk, feeRateBps);
     return predictAsk + polyAsk + fee;
 }
@@ -158,7 +159,6 @@ export function calculatePolymarketMaxAsk(
     maxTotalCost: number,
     feeRateBps: number
 ): number {
-    const { calculatePredictFee } = require('./depth-calculator.js');
     const fee = calculatePredictFee(predictAsk, feeRateBps);
     const polymarketMaxAsk = maxTotalCost - predictAsk - fee;
 